@@ -7,6 +7,13 @@ export const providerEnv: Record<string, { apiKeyEnv: string }> = {
     openrouter: { apiKeyEnv: 'OPENROUTER_API_KEY' },
     gemini: { apiKeyEnv: 'GEMINI_API_KEY' },
     siliconflow: { apiKeyEnv: 'SILICONFLOW_API_KEY' },
+    anthropic: { apiKeyEnv: 'ANTHROPIC_API_KEY' },
+    // Base URL comes from OPENAI_COMPATIBLE_BASE_URL; the key is optional for local servers
+    'openai-compatible': { apiKeyEnv: 'OPENAI_COMPATIBLE_API_KEY' },
+    // Without a Bedrock API key the adapter signs with AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY
+    bedrock: { apiKeyEnv: 'AWS_BEARER_TOKEN_BEDROCK' },
+    // Optional access token (`gcloud auth print-access-token`); otherwise Application Default Credentials are used
+    vertex: { apiKeyEnv: 'GOOGLE_CLOUD_ACCESS_TOKEN' },
     // Extend as new providers are added
 };
 
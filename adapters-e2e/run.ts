@@ -3,6 +3,7 @@ dotenv.config();
 
 import { getRegisteredProviders, type RegisteredProviders } from '../src/adapters/index.ts';
 import { LLMCaller } from '../src/core/caller/LLMCaller.ts';
+import { discoverOpenAICompatibleModels } from '../src/adapters/openai-compatible/models.ts';
 import type { CapabilityRequirement } from '../src/core/models/ModelSelector.ts';
 import { allScenarios } from './scenarios/index.ts';
 import { resolveApiKey } from './providerConfig.ts';
@@ -69,13 +70,18 @@ async function run() {
         delete process.env.E2E_TOOLS;
     }
 
+    // The openai-compatible catalog is whatever the configured server serves
+    const providerModels = (providers as string[]).includes('openai-compatible')
+        ? { 'openai-compatible': await discoverOpenAICompatibleModels() }
+        : {};
+
     const results: Array<{ provider: string; scenario: string; pass: boolean; score: number; reason: string; cost?: number }> = [];
 
     for (const provider of providers as RegisteredProviders[]) {
         const apiKey = resolveApiKey(provider);
 
         for (const scenario of scenarios) {
-            const selectorCaller = new LLMCaller(provider, 'cheap', 'You are a helpful assistant.', { apiKey });
+            const selectorCaller = new LLMCaller(provider, 'cheap', 'You are a helpful assistant.', { apiKey, providerModels });
 
             // Build the list of models to run for this provider
             let modelsToTest: string[] = [];
@@ -157,6 +163,7 @@ async function run() {
                 const usageEvents: any[] = [];
                 const constructorOpts: any = {
                     apiKey,
+                    providerModels,
                     callerId: testId,
                     usageCallback: (usageData: any) => {
                         usageEvents.push(usageData);
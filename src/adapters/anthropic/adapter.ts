@@ -0,0 +1,190 @@
+import { BaseAdapter, type AdapterConfig } from '../base/baseAdapter.ts';
+import { parseServerSentEvents } from '../base/serverSentEvents.ts';
+import type { LLMProvider } from '../../interfaces/LLMProvider.ts';
+import type {
+    UniversalChatParams,
+    UniversalChatResponse,
+    UniversalStreamResponse
+} from '../../interfaces/UniversalInterfaces.ts';
+import type { LLMExecutionControl } from '../../interfaces/ExecutionInterfaces.ts';
+import { resolveLLMCancellationError } from '../../core/execution/errors.ts';
+import { parseRateLimitHeaders, type RateLimitInfo } from '../../core/ratelimit/RateLimiter.ts';
+import { ModelManager } from '../../core/models/ModelManager.ts';
+import { TokenCalculator } from '../../core/models/TokenCalculator.ts';
+import type { RegisteredProviders } from '../index.ts';
+import { logger } from '../../utils/logger.ts';
+import { AnthropicConverter } from './converter.ts';
+import { AnthropicStreamHandler } from './stream.ts';
+import {
+    mapAnthropicError,
+    AnthropicAdapterError
+} from './errors.ts';
+import type { AnthropicCreateParams } from './types.ts';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export class AnthropicAdapter extends BaseAdapter implements LLMProvider {
+    private readonly converter: AnthropicConverter;
+    private readonly modelManager: ModelManager;
+    private readonly tokenCalculator: TokenCalculator;
+    private streamHandler?: AnthropicStreamHandler;
+
+    constructor(config: Partial<AdapterConfig> | string = {}) {
+        const configObject = typeof config === 'string' ? { apiKey: config } : config;
+        const apiKey = configObject.apiKey || process.env.ANTHROPIC_API_KEY;
+        if (!apiKey) {
+            throw new AnthropicAdapterError(
+                'Anthropic API key is required. Provide it in config or set ANTHROPIC_API_KEY.'
+            );
+        }
+
+        super({
+            apiKey,
+            baseUrl: configObject.baseUrl || DEFAULT_BASE_URL,
+            organization: configObject.organization
+        });
+
+        this.modelManager = new ModelManager('anthropic' as RegisteredProviders);
+        this.tokenCalculator = new TokenCalculator();
+        this.converter = new AnthropicConverter(this.modelManager);
+    }
+
+    async chatCall(
+        model: string,
+        params: UniversalChatParams,
+        control?: LLMExecutionControl
+    ): Promise<UniversalChatResponse> {
+        const log = logger.createLogger({ prefix: 'AnthropicAdapter.chatCall' });
+        const providerParams = await this.converter.convertToProviderParams(model, params);
+        log.debug('Calling Anthropic messages:', providerParams);
+
+        try {
+            const response = await this.postMessages(providerParams, control?.signal);
+            const converted = this.converter.convertFromProviderResponse(await response.json(), model);
+            const rateLimit = parseRateLimitHeaders(response.headers);
+            return rateLimit ? { ...converted, metadata: { ...converted.metadata, rateLimit } } : converted;
+        } catch (error: unknown) {
+            const cancellation = resolveLLMCancellationError(error, control?.signal);
+            if (cancellation) throw cancellation;
+            const mapped = mapAnthropicError(error);
+            log.error('API call failed:', mapped);
+            throw mapped;
+        }
+    }
+
+    async streamCall(
+        model: string,
+        params: UniversalChatParams,
+        control?: LLMExecutionControl
+    ): Promise<AsyncIterable<UniversalStreamResponse>> {
+        const log = logger.createLogger({ prefix: 'AnthropicAdapter.streamCall' });
+        const providerParams = await this.converter.convertToProviderParams(
+            model,
+            params,
+            { stream: true }
+        );
+        log.debug('Calling Anthropic streaming messages:', providerParams);
+
+        try {
+            const response = await this.postMessages(providerParams, control?.signal);
+            if (!response.body) {
+                throw new AnthropicAdapterError('Anthropic returned a streaming response without a body');
+            }
+            this.streamHandler = new AnthropicStreamHandler(
+                this.converter,
+                this.tokenCalculator,
+                model
+            );
+            return this.guardStream(
+                this.streamHandler.handleStream(parseServerSentEvents(response.body)),
+                control?.signal,
+                parseRateLimitHeaders(response.headers)
+            );
+        } catch (error: unknown) {
+            const cancellation = resolveLLMCancellationError(error, control?.signal);
+            if (cancellation) throw cancellation;
+            const mapped = mapAnthropicError(error);
+            log.error('Streaming API call failed:', mapped);
+            throw mapped;
+        }
+    }
+
+    async convertToProviderParams(
+        model: string,
+        params: UniversalChatParams
+    ): Promise<AnthropicCreateParams> {
+        return this.converter.convertToProviderParams(model, params);
+    }
+
+    convertFromProviderResponse(response: unknown): UniversalChatResponse {
+        return this.converter.convertFromProviderResponse(response);
+    }
+
+    convertFromProviderStreamResponse(response: unknown): UniversalStreamResponse {
+        return this.streamHandler?.minimalConvert(response) ?? {
+            content: '',
+            role: 'assistant',
+            isComplete: false
+        };
+    }
+
+    private async postMessages(
+        request: AnthropicCreateParams,
+        signal?: AbortSignal
+    ): Promise<Response> {
+        const response = await fetch(`${this.config.baseUrl}/messages`, {
+            method: 'POST',
+            headers: {
+                'x-api-key': this.config.apiKey,
+                'anthropic-version': ANTHROPIC_VERSION,
+                'content-type': 'application/json'
+            },
+            body: JSON.stringify(request),
+            signal
+        });
+        if (response.ok) return response;
+
+        const payload: unknown = await response.json().catch(() => undefined);
+        const record = payload !== null && typeof payload === 'object'
+            ? payload as Record<string, unknown>
+            : undefined;
+        const nested = record?.error !== null && typeof record?.error === 'object'
+            ? record.error as Record<string, unknown>
+            : undefined;
+        const message = typeof nested?.message === 'string'
+            ? nested.message
+            : `HTTP ${response.status}`;
+        throw Object.assign(new Error(message), {
+            status: response.status,
+            type: nested?.type,
+            // All response headers, so retry-after and anthropic-ratelimit-* reach the rate limiter
+            headers: Object.fromEntries(response.headers.entries())
+        });
+    }
+
+    private async *guardStream(
+        stream: AsyncIterable<UniversalStreamResponse>,
+        signal?: AbortSignal,
+        rateLimit?: RateLimitInfo
+    ): AsyncGenerator<UniversalStreamResponse> {
+        try {
+            // The response headers are reported once, on the first chunk
+            let pendingRateLimit = rateLimit;
+            for await (const chunk of stream) {
+                if (pendingRateLimit) {
+                    yield { ...chunk, metadata: { ...chunk.metadata, rateLimit: pendingRateLimit } };
+                    pendingRateLimit = undefined;
+                } else {
+                    yield chunk;
+                }
+            }
+        } catch (error: unknown) {
+            const cancellation = resolveLLMCancellationError(error, signal);
+            if (cancellation) throw cancellation;
+            throw mapAnthropicError(error);
+        }
+    }
+}
+
+export default AnthropicAdapter;
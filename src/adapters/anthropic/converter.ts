@@ -0,0 +1,506 @@
+import type {
+    ModelInfo,
+    JSONSchemaDefinition,
+    ReasoningEffort,
+    ResponseFormat,
+    UniversalChatParams,
+    UniversalChatResponse,
+    UniversalMessage,
+    Usage
+} from '../../interfaces/UniversalInterfaces.ts';
+import { FinishReason } from '../../interfaces/UniversalInterfaces.ts';
+import { ModelManager } from '../../core/models/ModelManager.ts';
+import { SchemaSanitizer } from '../../core/schema/SchemaSanitizer.ts';
+import { SchemaValidator } from '../../core/schema/SchemaValidator.ts';
+import { calculateCacheSavings } from '../../core/telemetry/UsageNormalizer.ts';
+import { getMessageCacheControl, getToolCacheControl } from '../../core/cache/PromptCacheHints.ts';
+import { normalizeImageSource } from '../../core/file-data/fileData.ts';
+import type { ToolCall, ToolDefinition } from '../../types/tooling.ts';
+import { logger } from '../../utils/logger.ts';
+import { AnthropicValidationError } from './errors.ts';
+import {
+    createAnthropicThinkingState,
+    getAnthropicThinkingBlocks,
+    type AnthropicCacheControl,
+    type AnthropicContentBlock,
+    type AnthropicCreateParams,
+    type AnthropicImageBlock,
+    type AnthropicMessage,
+    type AnthropicMessageResponse,
+    type AnthropicProviderOptions,
+    type AnthropicReasoningBlock,
+    type AnthropicTextBlock,
+    type AnthropicTool,
+    type AnthropicToolChoice,
+    type AnthropicToolUseBlock
+} from './types.ts';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object';
+
+const DEFAULT_MAX_TOKENS = 4096;
+const MIN_THINKING_BUDGET = 1024;
+
+export class AnthropicConverter {
+    constructor(private readonly modelManager: ModelManager) {}
+
+    async convertToProviderParams(
+        model: string,
+        params: UniversalChatParams,
+        options?: { stream?: boolean }
+    ): Promise<AnthropicCreateParams> {
+        const log = logger.createLogger({ prefix: 'AnthropicConverter.convertToProviderParams' });
+        const modelInfo = this.modelManager.getModel(model);
+        const system = this.mapSystemMessages(params.messages);
+        const messages = await this.mapMessages(params.messages);
+        const providerParams: AnthropicCreateParams = {
+            model,
+            messages,
+            max_tokens: Math.min(DEFAULT_MAX_TOKENS, modelInfo?.maxResponseTokens ?? DEFAULT_MAX_TOKENS),
+            stream: options?.stream === true
+        };
+
+        const jsonInstruction = this.createJsonInstruction(params);
+        if (jsonInstruction) system.unshift(jsonInstruction);
+
+        const settings = params.settings;
+        let cacheControl: AnthropicCacheControl | undefined;
+        if (settings) {
+            if (settings.temperature !== undefined) providerParams.temperature = settings.temperature;
+            if (settings.topP !== undefined) providerParams.top_p = settings.topP;
+            if (settings.maxTokens !== undefined) providerParams.max_tokens = settings.maxTokens;
+            if (settings.stop !== undefined) {
+                providerParams.stop_sequences = Array.isArray(settings.stop) ? settings.stop : [settings.stop];
+            }
+            if (settings.user !== undefined) providerParams.metadata = { user_id: settings.user };
+            // The API rejects tool_choice without tools
+            if (settings.toolChoice !== undefined && params.tools?.length) {
+                providerParams.tool_choice = this.mapToolChoice(settings.toolChoice);
+            }
+
+            this.mapReasoningSettings(modelInfo, settings.reasoning?.effort, providerParams);
+            this.mapVerbosity(modelInfo, settings.verbosity, settings.maxTokens, providerParams);
+
+            const anthropicOptions = settings.providerOptions?.anthropic;
+            if (isRecord(anthropicOptions)) {
+                const { cacheControl: cacheOption, ...passthrough } = anthropicOptions as AnthropicProviderOptions;
+                cacheControl = this.mapCacheControl(cacheOption);
+                Object.assign(providerParams, passthrough);
+                providerParams.model = model;
+                providerParams.messages = messages;
+                providerParams.stream = options?.stream === true;
+            }
+        }
+
+        if (params.tools?.length) {
+            providerParams.tools = params.tools.map(tool => this.mapTool(tool));
+        }
+
+        if (cacheControl) {
+            // Tools render before the system prompt, so a breakpoint on each caches the full prefix.
+            const lastTool = providerParams.tools?.at(-1);
+            if (lastTool) lastTool.cache_control = cacheControl;
+            const lastSystemBlock = system.at(-1);
+            if (lastSystemBlock) lastSystemBlock.cache_control = cacheControl;
+        }
+
+        if (system.length) providerParams.system = system;
+
+        log.debug('Provider params prepared:', providerParams);
+        return providerParams;
+    }
+
+    /**
+     * Anthropic echoes dated snapshot IDs (e.g. `claude-sonnet-4-5-20250929`), so usage is priced
+     * against the requested catalog model when one is given.
+     */
+    convertFromProviderResponse(response: unknown, requestedModel?: string): UniversalChatResponse {
+        if (!isRecord(response) || !Array.isArray(response.content)) {
+            throw new AnthropicValidationError('Anthropic returned a response without content blocks');
+        }
+
+        const message = response as unknown as AnthropicMessageResponse;
+        const text = message.content
+            .filter((block): block is AnthropicTextBlock => block.type === 'text')
+            .map(block => block.text)
+            .join('');
+        const thinking = message.content.filter((block): block is AnthropicReasoningBlock =>
+            block.type === 'thinking' || block.type === 'redacted_thinking'
+        );
+        const reasoning = thinking
+            .map(block => block.type === 'thinking' ? block.thinking : '')
+            .join('');
+        const toolCalls = message.content
+            .filter((block): block is AnthropicToolUseBlock => block.type === 'tool_use')
+            .map<ToolCall>(block => ({
+                id: block.id,
+                name: block.name,
+                arguments: isRecord(block.input) ? block.input : {}
+            }));
+
+        return {
+            content: text || null,
+            reasoning: reasoning || undefined,
+            role: 'assistant',
+            toolCalls: toolCalls.length ? toolCalls : undefined,
+            metadata: {
+                finishReason: this.mapFinishReason(message.stop_reason),
+                created: Date.now(),
+                model: message.model,
+                provider: 'anthropic',
+                usage: this.mapUsage(message.usage, requestedModel ?? message.model),
+                providerState: thinking.length
+                    ? createAnthropicThinkingState(thinking)
+                    : undefined
+            }
+        };
+    }
+
+    mapUsage(usageValue: unknown, model: string): Usage | undefined {
+        if (!isRecord(usageValue)) return undefined;
+
+        // Anthropic reports cache reads and writes separately from the uncached input_tokens.
+        const cached = this.numberValue(usageValue.cache_read_input_tokens);
+        const input = this.numberValue(usageValue.input_tokens) +
+            cached +
+            this.numberValue(usageValue.cache_creation_input_tokens);
+        const output = this.numberValue(usageValue.output_tokens);
+        const modelInfo = this.modelManager.getModel(model);
+
+        return {
+            tokens: {
+                input: { total: input, cached },
+                output: { total: output, reasoning: 0 },
+                total: input + output
+            },
+            costs: this.calculateCosts(input, cached, output, modelInfo)
+        };
+    }
+
+    mapFinishReason(reason: string | null | undefined): FinishReason {
+        switch (reason) {
+            case 'end_turn':
+            case 'stop_sequence':
+            case 'pause_turn':
+                return FinishReason.STOP;
+            case 'max_tokens':
+            case 'model_context_window_exceeded':
+                return FinishReason.LENGTH;
+            case 'tool_use': return FinishReason.TOOL_CALLS;
+            case 'refusal': return FinishReason.CONTENT_FILTER;
+            default: return reason ? FinishReason.NULL : FinishReason.STOP;
+        }
+    }
+
+    private mapSystemMessages(messages: UniversalMessage[]): AnthropicTextBlock[] {
+        return messages
+            .filter(message => (message.role === 'system' || message.role === 'developer') && message.content)
+            .map(message => this.withCacheControl(
+                { type: 'text', text: message.content },
+                message
+            ));
+    }
+
+    private async mapMessages(messages: UniversalMessage[]): Promise<AnthropicMessage[]> {
+        const mapped: AnthropicMessage[] = [];
+
+        for (const message of messages) {
+            if (message.role === 'system' || message.role === 'developer') continue;
+
+            const role = message.role === 'assistant' ? 'assistant' : 'user';
+            const content = message.role === 'tool' || message.role === 'function'
+                ? [this.mapToolResult(message)]
+                : role === 'assistant'
+                    ? this.mapAssistantContent(message)
+                    : await this.mapUserContent(message.content);
+            if (!content.length) continue;
+
+            const lastBlock = content.at(-1);
+            const cacheControl = this.mapCacheControl(getMessageCacheControl(message));
+            if (cacheControl && lastBlock && lastBlock.type !== 'thinking' && lastBlock.type !== 'redacted_thinking') {
+                lastBlock.cache_control = cacheControl;
+            }
+
+            // The Messages API expects alternating turns; parallel tool results share one user turn.
+            const previous = mapped.at(-1);
+            if (previous?.role === role) {
+                previous.content.push(...content);
+            } else {
+                mapped.push({ role, content });
+            }
+        }
+
+        return mapped;
+    }
+
+    private mapToolResult(message: UniversalMessage): AnthropicContentBlock {
+        if (!message.toolCallId) {
+            return { type: 'text', text: message.content };
+        }
+        return {
+            type: 'tool_result',
+            tool_use_id: message.toolCallId,
+            content: message.content,
+            ...(message.metadata?.isError === true ? { is_error: true } : {})
+        };
+    }
+
+    private mapAssistantContent(message: UniversalMessage): AnthropicContentBlock[] {
+        // Thinking blocks must be replayed unchanged (with signatures) ahead of tool_use blocks.
+        const blocks: AnthropicContentBlock[] = [
+            ...(getAnthropicThinkingBlocks(message.metadata?.providerState) ?? [])
+        ];
+        if (message.content) blocks.push({ type: 'text', text: message.content });
+        message.toolCalls?.forEach((toolCall, index) => {
+            blocks.push(this.mapUniversalToolCall(toolCall, index));
+        });
+        return blocks;
+    }
+
+    private async mapUserContent(content: string): Promise<AnthropicContentBlock[]> {
+        const fileRefs = [...content.matchAll(/<file:(.*?)>/g)];
+        if (!fileRefs.length) {
+            return content ? [{ type: 'text', text: content }] : [];
+        }
+
+        const blocks: AnthropicContentBlock[] = [];
+        let cursor = 0;
+        for (const ref of fileRefs) {
+            const before = content.slice(cursor, ref.index).trim();
+            if (before) blocks.push({ type: 'text', text: before });
+            blocks.push(await this.mapImage(ref[1]));
+            cursor = (ref.index ?? 0) + ref[0].length;
+        }
+        const remaining = content.slice(cursor).trim();
+        if (remaining) blocks.push({ type: 'text', text: remaining });
+        return blocks;
+    }
+
+    private async mapImage(reference: string): Promise<AnthropicImageBlock> {
+        const dataUri = reference.match(/^data:([^;]+);base64,(.+)$/);
+        if (dataUri) {
+            return {
+                type: 'image',
+                source: { type: 'base64', media_type: dataUri[1], data: dataUri[2] }
+            };
+        }
+        if (reference.startsWith('http://') || reference.startsWith('https://')) {
+            return { type: 'image', source: { type: 'url', url: reference } };
+        }
+
+        try {
+            const normalized = await normalizeImageSource({ type: 'file_path', path: reference });
+            return normalized.type === 'url'
+                ? { type: 'image', source: { type: 'url', url: normalized.url } }
+                : { type: 'image', source: { type: 'base64', media_type: normalized.mime, data: normalized.data } };
+        } catch (error) {
+            throw new AnthropicValidationError(
+                `Failed to read image file ${reference}: ${error instanceof Error ? error.message : String(error)}`,
+                error
+            );
+        }
+    }
+
+    private mapUniversalToolCall(
+        toolCall: NonNullable<UniversalMessage['toolCalls']>[number],
+        index: number
+    ): AnthropicToolUseBlock {
+        if ('function' in toolCall) {
+            return {
+                type: 'tool_use',
+                id: toolCall.id,
+                name: toolCall.function.name,
+                input: this.parseArguments(toolCall.function.arguments)
+            };
+        }
+        return {
+            type: 'tool_use',
+            id: toolCall.id ?? `toolu_${index}`,
+            name: toolCall.name,
+            input: toolCall.arguments
+        };
+    }
+
+    private parseArguments(argumentsValue: string): Record<string, unknown> {
+        try {
+            const parsed: unknown = JSON.parse(argumentsValue);
+            return isRecord(parsed) && !Array.isArray(parsed) ? parsed : { value: parsed };
+        } catch {
+            return { rawArguments: argumentsValue };
+        }
+    }
+
+    private mapTool(tool: ToolDefinition): AnthropicTool {
+        if (!tool.name || !tool.parameters) {
+            throw new AnthropicValidationError(
+                `Invalid tool definition: ${tool.name || 'unnamed tool'}`
+            );
+        }
+
+        const inputSchema = SchemaSanitizer.sanitize(
+            tool.parameters as unknown as Record<string, unknown>,
+            {
+                addHintsToDescriptions: true,
+                forceAllRequired: false,
+                forceNoAdditionalProps: false,
+                normalizeDefs: true,
+                stripMetaKeys: true,
+                stripCompositionKeywords: false
+            }
+        );
+
+        const cacheControl = this.mapCacheControl(getToolCacheControl(tool));
+        return {
+            name: tool.name,
+            description: tool.description || undefined,
+            input_schema: inputSchema,
+            ...(cacheControl ? { cache_control: cacheControl } : {})
+        };
+    }
+
+    private mapToolChoice(
+        toolChoice: NonNullable<NonNullable<UniversalChatParams['settings']>['toolChoice']>
+    ): AnthropicToolChoice {
+        if (toolChoice === 'none') return { type: 'none' };
+        if (toolChoice === 'auto') return { type: 'auto' };
+        return { type: 'tool', name: toolChoice.function.name };
+    }
+
+    private mapReasoningSettings(
+        modelInfo: ModelInfo | undefined,
+        effort: ReasoningEffort | undefined,
+        providerParams: AnthropicCreateParams
+    ): void {
+        if (!effort || !modelInfo?.capabilities?.reasoning) return;
+
+        const budget = this.mapThinkingBudget(effort);
+        providerParams.thinking = { type: 'enabled', budget_tokens: budget };
+        // max_tokens covers thinking plus the visible answer and must exceed the budget.
+        if (providerParams.max_tokens <= budget) {
+            providerParams.max_tokens = Math.min(modelInfo.maxResponseTokens, budget + DEFAULT_MAX_TOKENS);
+        }
+        // Extended thinking rejects non-default sampling parameters.
+        delete providerParams.temperature;
+        delete providerParams.top_p;
+    }
+
+    private mapThinkingBudget(effort: ReasoningEffort): number {
+        switch (effort) {
+            case 'minimal': return MIN_THINKING_BUDGET;
+            case 'low': return 2048;
+            case 'high': return 16384;
+            default: return 8192;
+        }
+    }
+
+    private mapVerbosity(
+        modelInfo: ModelInfo | undefined,
+        verbosity: 'low' | 'medium' | 'high' | undefined,
+        explicitMaxTokens: number | undefined,
+        providerParams: AnthropicCreateParams
+    ): void {
+        if (!verbosity || explicitMaxTokens !== undefined || providerParams.thinking || !modelInfo) return;
+
+        const ratios = { low: 0.25, medium: 0.5, high: 0.75 } as const;
+        const minimums = { low: 256, medium: 512, high: 1024 } as const;
+        providerParams.max_tokens = Math.min(
+            modelInfo.maxResponseTokens,
+            Math.max(minimums[verbosity], Math.floor(modelInfo.maxResponseTokens * ratios[verbosity]))
+        );
+    }
+
+    private mapCacheControl(value: unknown): AnthropicCacheControl | undefined {
+        if (value === true) return { type: 'ephemeral' };
+        if (!isRecord(value)) return undefined;
+        const ttl = value.ttl;
+        return ttl === '5m' || ttl === '1h'
+            ? { type: 'ephemeral', ttl }
+            : { type: 'ephemeral' };
+    }
+
+    private withCacheControl(block: AnthropicTextBlock, message: UniversalMessage): AnthropicTextBlock {
+        const cacheControl = this.mapCacheControl(getMessageCacheControl(message));
+        return cacheControl ? { ...block, cache_control: cacheControl } : block;
+    }
+
+    private createJsonInstruction(params: UniversalChatParams): AnthropicTextBlock | undefined {
+        if (this.hasFormatInstruction(params.messages)) return undefined;
+        if (params.jsonSchema) {
+            return this.createSchemaInstruction(params.jsonSchema.schema);
+        }
+        // The Messages API has no JSON mode, so JSON requests rely on the instruction and core validation.
+        if (this.isJsonMode(params.responseFormat)) {
+            return { type: 'text', text: 'Return only a valid JSON object.' };
+        }
+        return undefined;
+    }
+
+    private hasFormatInstruction(messages: UniversalMessage[]): boolean {
+        return messages.some(message =>
+            message.metadata?.isFormatInstruction === true ||
+            message.content.startsWith('Format instructions:')
+        );
+    }
+
+    private createSchemaInstruction(
+        schemaDefinition: JSONSchemaDefinition
+    ): AnthropicTextBlock {
+        const schema = SchemaValidator.getSchemaObject(schemaDefinition);
+        const sanitized = SchemaSanitizer.sanitize(
+            schema as Record<string, unknown>,
+            {
+                addHintsToDescriptions: true,
+                forceAllRequired: false,
+                forceNoAdditionalProps: false,
+                normalizeDefs: true,
+                stripMetaKeys: true,
+                stripCompositionKeywords: false
+            }
+        );
+        return {
+            type: 'text',
+            text: `Return only a JSON object that matches this JSON Schema:\n${JSON.stringify(sanitized)}`
+        };
+    }
+
+    private isJsonMode(format: ResponseFormat | undefined): boolean {
+        return format === 'json' ||
+            (typeof format === 'object' && format.type === 'json_object');
+    }
+
+    private calculateCosts(
+        input: number,
+        cached: number,
+        output: number,
+        modelInfo: ModelInfo | undefined
+    ): Usage['costs'] {
+        if (!modelInfo) {
+            return {
+                input: { total: 0, cached: 0 },
+                output: { total: 0, reasoning: 0 },
+                total: 0,
+                unit: 'USD'
+            };
+        }
+
+        // Cache writes are billed at the regular input price; the catalog has no write premium.
+        const cachedPrice = modelInfo.inputCachedPricePerMillion;
+        const billableRegularInput = cachedPrice === undefined ? input : Math.max(0, input - cached);
+        const regularInputCost = billableRegularInput * modelInfo.inputPricePerMillion / 1_000_000;
+        const cachedCost = cachedPrice === undefined ? 0 : cached * cachedPrice / 1_000_000;
+        const inputCost = regularInputCost + cachedCost;
+        const cacheSavings = calculateCacheSavings(cached, modelInfo.inputPricePerMillion, cachedPrice);
+        const outputCost = output * modelInfo.outputPricePerMillion / 1_000_000;
+
+        return {
+            input: { total: inputCost, cached: cachedCost, ...(cacheSavings > 0 ? { cacheSavings } : {}) },
+            output: { total: outputCost, reasoning: 0 },
+            total: inputCost + outputCost,
+            unit: 'USD'
+        };
+    }
+
+    private numberValue(value: unknown, fallback = 0): number {
+        return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+    }
+}
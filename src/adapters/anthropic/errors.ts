@@ -0,0 +1,148 @@
+type ErrorRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): ErrorRecord | undefined =>
+    value !== null && typeof value === 'object' ? value as ErrorRecord : undefined;
+
+const getStatus = (error: unknown): number | undefined => {
+    const record = asRecord(error);
+    const response = asRecord(record?.response);
+    const status = record?.status ?? record?.statusCode ?? response?.status;
+    return typeof status === 'number' ? status : undefined;
+};
+
+const getErrorType = (error: unknown): string | undefined => {
+    const record = asRecord(error);
+    const nestedError = asRecord(record?.error);
+    const type = record?.type === 'error' ? nestedError?.type : record?.type ?? nestedError?.type;
+    return typeof type === 'string' ? type : undefined;
+};
+
+const getMessage = (error: unknown): string => {
+    if (error instanceof Error && error.message) return error.message;
+    const record = asRecord(error);
+    const nestedError = asRecord(record?.error);
+    const message = record?.message ?? nestedError?.message;
+    return typeof message === 'string' ? message : 'Unknown Anthropic error';
+};
+
+const getHeaders = (error: unknown): ErrorRecord | undefined => {
+    const record = asRecord(error);
+    return asRecord(record?.headers) ?? asRecord(asRecord(record?.response)?.headers);
+};
+
+const getRetryAfter = (error: unknown): number | undefined => {
+    const raw = getHeaders(error)?.['retry-after'];
+    if (typeof raw === 'number') return raw;
+    if (typeof raw === 'string') {
+        const seconds = Number(raw);
+        return Number.isFinite(seconds) ? seconds : undefined;
+    }
+    return undefined;
+};
+
+export class AnthropicAdapterError extends Error {
+    constructor(message: string, public readonly cause?: unknown) {
+        super(message);
+        this.name = 'AnthropicAdapterError';
+    }
+}
+
+export class AnthropicAuthError extends AnthropicAdapterError {
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+        this.name = 'AnthropicAuthError';
+    }
+}
+
+export class AnthropicRateLimitError extends AnthropicAdapterError {
+    constructor(
+        message: string,
+        public readonly retryAfter?: number,
+        cause?: unknown,
+        // Response headers of the 429, read by the rate limiter
+        public readonly headers?: Record<string, unknown>
+    ) {
+        super(message, cause);
+        this.name = 'AnthropicRateLimitError';
+    }
+}
+
+export class AnthropicValidationError extends AnthropicAdapterError {
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+        this.name = 'AnthropicValidationError';
+    }
+}
+
+export class AnthropicNetworkError extends AnthropicAdapterError {
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+        this.name = 'AnthropicNetworkError';
+    }
+}
+
+export class AnthropicServiceError extends AnthropicAdapterError {
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+        this.name = 'AnthropicServiceError';
+    }
+}
+
+export const mapAnthropicError = (error: unknown): AnthropicAdapterError => {
+    if (error instanceof AnthropicAdapterError) return error;
+
+    const status = getStatus(error);
+    const type = getErrorType(error);
+    const message = getMessage(error);
+    const lower = message.toLowerCase();
+
+    if (
+        status === 401 ||
+        status === 403 ||
+        type === 'authentication_error' ||
+        type === 'permission_error' ||
+        lower.includes('x-api-key') ||
+        lower.includes('api key')
+    ) {
+        return new AnthropicAuthError(`Authentication error: ${message}`, error);
+    }
+    if (status === 429 || type === 'rate_limit_error' || lower.includes('rate limit')) {
+        return new AnthropicRateLimitError(
+            `Rate limit exceeded: ${message}`,
+            getRetryAfter(error),
+            error,
+            getHeaders(error)
+        );
+    }
+    if (
+        status === 400 ||
+        status === 404 ||
+        status === 413 ||
+        type === 'invalid_request_error' ||
+        type === 'not_found_error' ||
+        type === 'request_too_large'
+    ) {
+        return new AnthropicValidationError(`Invalid request: ${message}`, error);
+    }
+    if (
+        lower.includes('econnrefused') ||
+        lower.includes('econnreset') ||
+        lower.includes('enotfound') ||
+        lower.includes('fetch failed') ||
+        lower.includes('network') ||
+        lower.includes('timeout') ||
+        lower.includes('timed out')
+    ) {
+        return new AnthropicNetworkError(`Network error: ${message}`, error);
+    }
+    if (
+        (status !== undefined && status >= 500) ||
+        type === 'overloaded_error' ||
+        type === 'api_error'
+    ) {
+        // Keep the status in the message: the retry layer reads it to treat 5xx/529 as transient.
+        const code = status ?? (type === 'overloaded_error' ? 529 : type);
+        return new AnthropicServiceError(`Anthropic service error (${code}): ${message}`, error);
+    }
+    return new AnthropicAdapterError(message, error);
+};
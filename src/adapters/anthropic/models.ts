@@ -0,0 +1,120 @@
+import type { ModelInfo } from '../../interfaces/UniversalInterfaces.ts';
+
+export const defaultModels: ModelInfo[] = [
+    {
+        name: 'claude-opus-4-6',
+        canonicalSlug: 'anthropic/claude-4.6-opus-20260205',
+        inputPricePerMillion: 5,
+        inputCachedPricePerMillion: 0.5,
+        outputPricePerMillion: 25,
+        imageInputPricePerMillion: 5,
+        maxRequestTokens: 200000,
+        maxResponseTokens: 128000,
+        capabilities: {
+            streaming: true,
+            toolCalls: { nonStreaming: true, streamingMode: 'deltas', parallel: true },
+            parallelToolCalls: true,
+            batchProcessing: false,
+            reasoning: true,
+            input: { text: true, image: true },
+            output: {
+                text: {
+                    textOutputFormats: ['text', 'json'],
+                    structuredOutputs: false
+                }
+            }
+        },
+        characteristics: {
+            qualityIndex: 96,
+            outputSpeed: 60,
+            firstTokenLatency: 1600
+        }
+    },
+    {
+        name: 'claude-sonnet-4-5',
+        canonicalSlug: 'anthropic/claude-4.5-sonnet-20250929',
+        inputPricePerMillion: 3,
+        inputCachedPricePerMillion: 0.3,
+        outputPricePerMillion: 15,
+        imageInputPricePerMillion: 3,
+        maxRequestTokens: 200000,
+        maxResponseTokens: 64000,
+        capabilities: {
+            streaming: true,
+            toolCalls: { nonStreaming: true, streamingMode: 'deltas', parallel: true },
+            parallelToolCalls: true,
+            batchProcessing: false,
+            reasoning: true,
+            input: { text: true, image: true },
+            output: {
+                text: {
+                    textOutputFormats: ['text', 'json'],
+                    structuredOutputs: false
+                }
+            }
+        },
+        characteristics: {
+            qualityIndex: 92,
+            outputSpeed: 70,
+            firstTokenLatency: 1200
+        }
+    },
+    {
+        name: 'claude-haiku-4-5',
+        canonicalSlug: 'anthropic/claude-4.5-haiku-20251001',
+        inputPricePerMillion: 1,
+        inputCachedPricePerMillion: 0.1,
+        outputPricePerMillion: 5,
+        imageInputPricePerMillion: 1,
+        maxRequestTokens: 200000,
+        maxResponseTokens: 64000,
+        capabilities: {
+            streaming: true,
+            toolCalls: { nonStreaming: true, streamingMode: 'deltas', parallel: true },
+            parallelToolCalls: true,
+            batchProcessing: false,
+            reasoning: true,
+            input: { text: true, image: true },
+            output: {
+                text: {
+                    textOutputFormats: ['text', 'json'],
+                    structuredOutputs: false
+                }
+            }
+        },
+        characteristics: {
+            qualityIndex: 84,
+            outputSpeed: 120,
+            firstTokenLatency: 700
+        }
+    },
+    {
+        name: 'claude-opus-4-1',
+        canonicalSlug: 'anthropic/claude-4.1-opus-20250805',
+        inputPricePerMillion: 15,
+        inputCachedPricePerMillion: 1.5,
+        outputPricePerMillion: 75,
+        imageInputPricePerMillion: 15,
+        maxRequestTokens: 200000,
+        maxResponseTokens: 32000,
+        capabilities: {
+            streaming: true,
+            toolCalls: { nonStreaming: true, streamingMode: 'deltas', parallel: true },
+            parallelToolCalls: true,
+            batchProcessing: false,
+            reasoning: true,
+            input: { text: true, image: true },
+            output: {
+                text: {
+                    textOutputFormats: ['text', 'json'],
+                    structuredOutputs: false
+                }
+            }
+        },
+        characteristics: {
+            qualityIndex: 90,
+            outputSpeed: 40,
+            firstTokenLatency: 1800
+        }
+    }
+];
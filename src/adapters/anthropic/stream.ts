@@ -0,0 +1,233 @@
+import type { UniversalStreamResponse, Usage } from '../../interfaces/UniversalInterfaces.ts';
+import { FinishReason } from '../../interfaces/UniversalInterfaces.ts';
+import type { ToolCall } from '../../types/tooling.ts';
+import type { ToolCallChunk } from '../../core/streaming/types.ts';
+import { TokenCalculator } from '../../core/models/TokenCalculator.ts';
+import { logger } from '../../utils/logger.ts';
+import { AnthropicConverter } from './converter.ts';
+import { mapAnthropicError } from './errors.ts';
+import {
+    createAnthropicThinkingState,
+    type AnthropicReasoningBlock,
+    type AnthropicStreamEvent,
+    type AnthropicUsage
+} from './types.ts';
+
+type PendingBlock =
+    | { type: 'text' }
+    | { type: 'thinking'; thinking: string; signature: string }
+    | { type: 'redacted_thinking'; data: string }
+    | { type: 'tool_use'; id: string; name: string; argumentsText: string };
+
+export class AnthropicStreamHandler {
+    private readonly log = logger.createLogger({ prefix: 'AnthropicStreamHandler' });
+
+    constructor(
+        private readonly converter: AnthropicConverter,
+        private readonly tokenCalculator: TokenCalculator,
+        private readonly model: string
+    ) {}
+
+    async *handleStream(stream: AsyncIterable<unknown>): AsyncGenerator<UniversalStreamResponse> {
+        let accumulatedContent = '';
+        let accumulatedReasoning = '';
+        let isFirstContentChunk = true;
+        let isFirstReasoningChunk = true;
+        let finishReason: FinishReason | undefined;
+        let usage: AnthropicUsage | undefined;
+        let responseModel = this.model;
+        const blocks = new Map<number, PendingBlock>();
+
+        for await (const value of stream) {
+            this.log.debug('Raw Anthropic stream event:', value);
+            const event = value as AnthropicStreamEvent;
+            let content = '';
+            let reasoning = '';
+            let toolCallChunk: ToolCallChunk | undefined;
+
+            switch (event.type) {
+                case 'message_start':
+                    responseModel = event.message.model || this.model;
+                    usage = { ...event.message.usage };
+                    break;
+                case 'content_block_start': {
+                    const block = event.content_block;
+                    if (block.type === 'tool_use') {
+                        blocks.set(event.index, { type: 'tool_use', id: block.id, name: block.name, argumentsText: '' });
+                        toolCallChunk = { id: block.id, index: event.index, name: block.name };
+                    } else if (block.type === 'thinking') {
+                        blocks.set(event.index, { type: 'thinking', thinking: block.thinking, signature: block.signature });
+                        reasoning = block.thinking;
+                    } else if (block.type === 'redacted_thinking') {
+                        blocks.set(event.index, { type: 'redacted_thinking', data: block.data });
+                    } else if (block.type === 'text') {
+                        blocks.set(event.index, { type: 'text' });
+                        content = block.text;
+                    }
+                    break;
+                }
+                case 'content_block_delta': {
+                    const pending = blocks.get(event.index);
+                    const delta = event.delta;
+                    if (delta.type === 'text_delta') {
+                        content = delta.text;
+                    } else if (delta.type === 'thinking_delta' && pending?.type === 'thinking') {
+                        pending.thinking += delta.thinking;
+                        reasoning = delta.thinking;
+                    } else if (delta.type === 'signature_delta' && pending?.type === 'thinking') {
+                        pending.signature += delta.signature;
+                    } else if (delta.type === 'input_json_delta' && pending?.type === 'tool_use') {
+                        pending.argumentsText += delta.partial_json;
+                        if (delta.partial_json) {
+                            toolCallChunk = { index: event.index, argumentsChunk: delta.partial_json };
+                        }
+                    }
+                    break;
+                }
+                case 'message_delta':
+                    if (event.delta.stop_reason) {
+                        finishReason = this.converter.mapFinishReason(event.delta.stop_reason);
+                    }
+                    if (event.usage) usage = this.mergeUsage(usage, event.usage);
+                    break;
+                case 'error':
+                    throw mapAnthropicError(event);
+                default:
+                    break;
+            }
+
+            if (content || reasoning || toolCallChunk) {
+                const incrementalUsage = this.createIncrementalUsage(content, reasoning);
+                accumulatedContent += content;
+                accumulatedReasoning += reasoning;
+
+                yield {
+                    content,
+                    reasoning: reasoning || undefined,
+                    role: 'assistant',
+                    isComplete: false,
+                    isFirstContentChunk: content && isFirstContentChunk ? true : undefined,
+                    isFirstReasoningChunk: reasoning && isFirstReasoningChunk ? true : undefined,
+                    toolCallChunks: toolCallChunk ? [toolCallChunk] : undefined,
+                    metadata: incrementalUsage ? { usage: incrementalUsage } : undefined
+                };
+
+                if (content) isFirstContentChunk = false;
+                if (reasoning) isFirstReasoningChunk = false;
+            }
+        }
+
+        const toolCalls = this.completeToolCalls(blocks);
+        const thinking = this.completeThinking(blocks);
+        const resolvedFinishReason = toolCalls.length
+            ? FinishReason.TOOL_CALLS
+            : finishReason ?? FinishReason.STOP;
+
+        yield {
+            content: '',
+            contentText: accumulatedContent,
+            reasoningText: accumulatedReasoning,
+            role: 'assistant',
+            isComplete: true,
+            toolCalls: toolCalls.length ? toolCalls : undefined,
+            metadata: {
+                finishReason: resolvedFinishReason,
+                provider: 'anthropic',
+                model: responseModel,
+                usage: this.converter.mapUsage(usage, this.model),
+                providerState: thinking.length
+                    ? createAnthropicThinkingState(thinking)
+                    : undefined
+            }
+        };
+    }
+
+    minimalConvert(value: unknown): UniversalStreamResponse {
+        const event = value as AnthropicStreamEvent;
+        if (event.type === 'content_block_delta') {
+            return {
+                content: event.delta.type === 'text_delta' ? event.delta.text : '',
+                reasoning: event.delta.type === 'thinking_delta' ? event.delta.thinking : undefined,
+                role: 'assistant',
+                isComplete: false
+            };
+        }
+        if (event.type === 'message_delta') {
+            return {
+                content: '',
+                role: 'assistant',
+                isComplete: Boolean(event.delta.stop_reason),
+                metadata: {
+                    finishReason: this.converter.mapFinishReason(event.delta.stop_reason),
+                    usage: this.converter.mapUsage(event.usage, this.model)
+                }
+            };
+        }
+        return {
+            content: '',
+            role: 'assistant',
+            isComplete: event.type === 'message_stop'
+        };
+    }
+
+    private mergeUsage(current: AnthropicUsage | undefined, update: AnthropicUsage): AnthropicUsage {
+        // message_delta usage is cumulative and may omit (or null out) fields reported at message_start.
+        const merged: AnthropicUsage = { ...current };
+        for (const [key, value] of Object.entries(update) as Array<[keyof AnthropicUsage, number | null | undefined]>) {
+            if (typeof value === 'number') merged[key] = value;
+        }
+        return merged;
+    }
+
+    private completeToolCalls(blocks: Map<number, PendingBlock>): ToolCall[] {
+        return [...blocks.entries()]
+            .sort(([left], [right]) => left - right)
+            .flatMap(([, block]) => block.type === 'tool_use'
+                ? [{
+                    id: block.id,
+                    name: block.name || 'unknown',
+                    arguments: this.parseArguments(block.argumentsText)
+                }]
+                : []);
+    }
+
+    private completeThinking(blocks: Map<number, PendingBlock>): AnthropicReasoningBlock[] {
+        return [...blocks.entries()]
+            .sort(([left], [right]) => left - right)
+            .flatMap(([, block]): AnthropicReasoningBlock[] => {
+                if (block.type === 'thinking') {
+                    return [{ type: 'thinking', thinking: block.thinking, signature: block.signature }];
+                }
+                if (block.type === 'redacted_thinking') {
+                    return [{ type: 'redacted_thinking', data: block.data }];
+                }
+                return [];
+            });
+    }
+
+    private parseArguments(value: string): Record<string, unknown> {
+        if (!value) return {};
+        try {
+            const parsed: unknown = JSON.parse(value);
+            return parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)
+                ? parsed as Record<string, unknown>
+                : { value: parsed };
+        } catch {
+            return { rawArguments: value };
+        }
+    }
+
+    private createIncrementalUsage(content: string, reasoning: string): Usage | undefined {
+        const contentTokens = content ? this.tokenCalculator.calculateTokens(content) : 0;
+        const reasoningTokens = reasoning ? this.tokenCalculator.calculateTokens(reasoning) : 0;
+        const outputTokens = contentTokens + reasoningTokens;
+        if (outputTokens === 0) return undefined;
+
+        const usage = this.converter.mapUsage({ output_tokens: outputTokens }, this.model);
+        if (!usage) return undefined;
+
+        usage.tokens.output.reasoning = reasoningTokens;
+        (usage as unknown as Record<string, unknown>).incremental = outputTokens;
+        return usage;
+    }
+}
@@ -0,0 +1,175 @@
+export type AnthropicRole = 'user' | 'assistant';
+
+export type AnthropicCacheControl = {
+    type: 'ephemeral';
+    ttl?: '5m' | '1h';
+};
+
+export type AnthropicTextBlock = {
+    type: 'text';
+    text: string;
+    cache_control?: AnthropicCacheControl;
+};
+
+export type AnthropicImageBlock = {
+    type: 'image';
+    source:
+        | { type: 'base64'; media_type: string; data: string }
+        | { type: 'url'; url: string };
+    cache_control?: AnthropicCacheControl;
+};
+
+export type AnthropicToolUseBlock = {
+    type: 'tool_use';
+    id: string;
+    name: string;
+    input: Record<string, unknown>;
+    cache_control?: AnthropicCacheControl;
+};
+
+export type AnthropicToolResultBlock = {
+    type: 'tool_result';
+    tool_use_id: string;
+    content: string;
+    is_error?: boolean;
+    cache_control?: AnthropicCacheControl;
+};
+
+export type AnthropicThinkingBlock = {
+    type: 'thinking';
+    thinking: string;
+    signature: string;
+};
+
+export type AnthropicRedactedThinkingBlock = {
+    type: 'redacted_thinking';
+    data: string;
+};
+
+export type AnthropicReasoningBlock = AnthropicThinkingBlock | AnthropicRedactedThinkingBlock;
+
+export type AnthropicContentBlock =
+    | AnthropicTextBlock
+    | AnthropicImageBlock
+    | AnthropicToolUseBlock
+    | AnthropicToolResultBlock
+    | AnthropicReasoningBlock;
+
+export type AnthropicMessage = {
+    role: AnthropicRole;
+    content: AnthropicContentBlock[];
+};
+
+export type AnthropicTool = {
+    name: string;
+    description?: string;
+    input_schema: Record<string, unknown>;
+    cache_control?: AnthropicCacheControl;
+};
+
+export type AnthropicToolChoice =
+    | { type: 'auto' }
+    | { type: 'any' }
+    | { type: 'none' }
+    | { type: 'tool'; name: string };
+
+/**
+ * Adapter-level options read from `settings.providerOptions.anthropic`.
+ * `cacheControl` places cache breakpoints on the system prompt and tool definitions;
+ * every other key is sent to the Messages API as-is.
+ */
+export type AnthropicProviderOptions = {
+    cacheControl?: boolean | { ttl?: '5m' | '1h' };
+    top_k?: number;
+    [key: string]: unknown;
+};
+
+export type AnthropicCreateParams = {
+    model: string;
+    messages: AnthropicMessage[];
+    max_tokens: number;
+    stream: boolean;
+    system?: AnthropicTextBlock[];
+    temperature?: number;
+    top_p?: number;
+    top_k?: number;
+    stop_sequences?: string[];
+    tools?: AnthropicTool[];
+    tool_choice?: AnthropicToolChoice;
+    thinking?: { type: 'enabled'; budget_tokens: number };
+    metadata?: { user_id?: string };
+    [key: string]: unknown;
+};
+
+export type AnthropicUsage = {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_read_input_tokens?: number | null;
+    cache_creation_input_tokens?: number | null;
+};
+
+export type AnthropicMessageResponse = {
+    id: string;
+    type: 'message';
+    role: 'assistant';
+    model: string;
+    content: AnthropicContentBlock[];
+    stop_reason: string | null;
+    stop_sequence?: string | null;
+    usage?: AnthropicUsage;
+};
+
+export type AnthropicStreamEvent =
+    | { type: 'message_start'; message: AnthropicMessageResponse }
+    | { type: 'content_block_start'; index: number; content_block: AnthropicContentBlock }
+    | {
+        type: 'content_block_delta';
+        index: number;
+        delta:
+            | { type: 'text_delta'; text: string }
+            | { type: 'thinking_delta'; thinking: string }
+            | { type: 'signature_delta'; signature: string }
+            | { type: 'input_json_delta'; partial_json: string };
+    }
+    | { type: 'content_block_stop'; index: number }
+    | {
+        type: 'message_delta';
+        delta: { stop_reason?: string | null; stop_sequence?: string | null };
+        usage?: AnthropicUsage;
+    }
+    | { type: 'message_stop' }
+    | { type: 'ping' }
+    | { type: 'error'; error: { type: string; message: string } };
+
+export type AnthropicThinkingState = {
+    anthropic: {
+        thinking: AnthropicReasoningBlock[];
+    };
+};
+
+const isReasoningBlock = (value: unknown): value is AnthropicReasoningBlock => {
+    if (!value || typeof value !== 'object') return false;
+    const block = value as Record<string, unknown>;
+    if (block.type === 'thinking') {
+        return typeof block.thinking === 'string' && typeof block.signature === 'string';
+    }
+    return block.type === 'redacted_thinking' && typeof block.data === 'string';
+};
+
+export const getAnthropicThinkingBlocks = (
+    providerState: unknown
+): AnthropicReasoningBlock[] | undefined => {
+    if (!providerState || typeof providerState !== 'object') return undefined;
+    const anthropic = (providerState as Record<string, unknown>).anthropic;
+    if (!anthropic || typeof anthropic !== 'object') return undefined;
+    const thinking = (anthropic as Record<string, unknown>).thinking;
+    if (!Array.isArray(thinking)) return undefined;
+    const blocks = thinking.filter(isReasoningBlock);
+    return blocks.length ? blocks : undefined;
+};
+
+export const createAnthropicThinkingState = (
+    thinking: AnthropicReasoningBlock[]
+): AnthropicThinkingState => ({
+    anthropic: { thinking }
+});
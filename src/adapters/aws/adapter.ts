@@ -0,0 +1,200 @@
+import { BaseAdapter, type AdapterConfig } from '../base/baseAdapter.ts';
+import type { LLMProvider } from '../../interfaces/LLMProvider.ts';
+import type {
+    UniversalChatParams,
+    UniversalChatResponse,
+    UniversalStreamResponse
+} from '../../interfaces/UniversalInterfaces.ts';
+import type { LLMExecutionControl } from '../../interfaces/ExecutionInterfaces.ts';
+import { resolveLLMCancellationError } from '../../core/execution/errors.ts';
+import { ModelManager } from '../../core/models/ModelManager.ts';
+import { TokenCalculator } from '../../core/models/TokenCalculator.ts';
+import type { RegisteredProviders } from '../index.ts';
+import { logger } from '../../utils/logger.ts';
+import { BedrockConverter } from './converter.ts';
+import { BedrockStreamHandler, parseConverseStream } from './stream.ts';
+import {
+    mapBedrockError,
+    BedrockAdapterError
+} from './errors.ts';
+import { signRequest, type AwsCredentials } from './signer.ts';
+import type { BedrockConverseRequest } from './types.ts';
+
+const DEFAULT_REGION = 'us-east-1';
+const SIGNING_SERVICE = 'bedrock';
+
+export type BedrockAdapterConfig = AdapterConfig & {
+    region?: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    sessionToken?: string;
+};
+
+/**
+ * Amazon Bedrock through the Converse and ConverseStream APIs. Requests are signed with SigV4
+ * from the standard AWS environment variables, or sent with a Bedrock API key as a bearer token
+ * when one is given as `apiKey` or `AWS_BEARER_TOKEN_BEDROCK`.
+ */
+export class BedrockAdapter extends BaseAdapter implements LLMProvider {
+    private readonly converter: BedrockConverter;
+    private readonly modelManager: ModelManager;
+    private readonly tokenCalculator: TokenCalculator;
+    private readonly region: string;
+    private readonly credentials?: AwsCredentials;
+    private streamHandler?: BedrockStreamHandler;
+
+    constructor(config: Partial<BedrockAdapterConfig> | string = {}) {
+        const configObject: Partial<BedrockAdapterConfig> = typeof config === 'string' ? { apiKey: config } : config;
+        const bearerToken = configObject.apiKey || process.env.AWS_BEARER_TOKEN_BEDROCK;
+        const accessKeyId = configObject.accessKeyId || process.env.AWS_ACCESS_KEY_ID;
+        const secretAccessKey = configObject.secretAccessKey || process.env.AWS_SECRET_ACCESS_KEY;
+        if (!bearerToken && !(accessKeyId && secretAccessKey)) {
+            throw new BedrockAdapterError(
+                'Bedrock credentials are required. Set AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY, ' +
+                'set AWS_BEARER_TOKEN_BEDROCK, or provide them in config.'
+            );
+        }
+        const region = configObject.region ||
+            process.env.AWS_REGION ||
+            process.env.AWS_DEFAULT_REGION ||
+            DEFAULT_REGION;
+
+        super({
+            apiKey: bearerToken || accessKeyId!,
+            baseUrl: configObject.baseUrl || `https://bedrock-runtime.${region}.amazonaws.com`,
+            organization: configObject.organization
+        });
+
+        this.region = region;
+        if (!bearerToken) {
+            this.credentials = {
+                accessKeyId: accessKeyId!,
+                secretAccessKey: secretAccessKey!,
+                sessionToken: configObject.sessionToken || process.env.AWS_SESSION_TOKEN
+            };
+        }
+        this.modelManager = new ModelManager('bedrock' as RegisteredProviders);
+        this.tokenCalculator = new TokenCalculator();
+        this.converter = new BedrockConverter(this.modelManager);
+    }
+
+    async chatCall(
+        model: string,
+        params: UniversalChatParams,
+        control?: LLMExecutionControl
+    ): Promise<UniversalChatResponse> {
+        const log = logger.createLogger({ prefix: 'BedrockAdapter.chatCall' });
+        const providerParams = await this.converter.convertToProviderParams(model, params);
+        log.debug('Calling Bedrock Converse:', providerParams);
+
+        try {
+            const response = await this.postConverse(model, 'converse', providerParams, control?.signal);
+            return this.converter.convertFromProviderResponse(await response.json(), model);
+        } catch (error: unknown) {
+            const cancellation = resolveLLMCancellationError(error, control?.signal);
+            if (cancellation) throw cancellation;
+            const mapped = mapBedrockError(error);
+            log.error('API call failed:', mapped);
+            throw mapped;
+        }
+    }
+
+    async streamCall(
+        model: string,
+        params: UniversalChatParams,
+        control?: LLMExecutionControl
+    ): Promise<AsyncIterable<UniversalStreamResponse>> {
+        const log = logger.createLogger({ prefix: 'BedrockAdapter.streamCall' });
+        const providerParams = await this.converter.convertToProviderParams(model, params);
+        log.debug('Calling Bedrock ConverseStream:', providerParams);
+
+        try {
+            const response = await this.postConverse(model, 'converse-stream', providerParams, control?.signal);
+            if (!response.body) {
+                throw new BedrockAdapterError('Bedrock returned a streaming response without a body');
+            }
+            this.streamHandler = new BedrockStreamHandler(
+                this.converter,
+                this.tokenCalculator,
+                model
+            );
+            return this.guardStream(
+                this.streamHandler.handleStream(parseConverseStream(response.body)),
+                control?.signal
+            );
+        } catch (error: unknown) {
+            const cancellation = resolveLLMCancellationError(error, control?.signal);
+            if (cancellation) throw cancellation;
+            const mapped = mapBedrockError(error);
+            log.error('Streaming API call failed:', mapped);
+            throw mapped;
+        }
+    }
+
+    async convertToProviderParams(
+        model: string,
+        params: UniversalChatParams
+    ): Promise<BedrockConverseRequest> {
+        return this.converter.convertToProviderParams(model, params);
+    }
+
+    convertFromProviderResponse(response: unknown): UniversalChatResponse {
+        return this.converter.convertFromProviderResponse(response);
+    }
+
+    convertFromProviderStreamResponse(response: unknown): UniversalStreamResponse {
+        return this.streamHandler?.minimalConvert(response) ?? {
+            content: '',
+            role: 'assistant',
+            isComplete: false
+        };
+    }
+
+    private async postConverse(
+        model: string,
+        operation: 'converse' | 'converse-stream',
+        request: BedrockConverseRequest,
+        signal?: AbortSignal
+    ): Promise<Response> {
+        const url = `${this.config.baseUrl}/model/${encodeURIComponent(model)}/${operation}`;
+        const body = JSON.stringify(request);
+        const baseHeaders: Record<string, string> = {
+            'content-type': 'application/json',
+            accept: operation === 'converse-stream' ? 'application/vnd.amazon.eventstream' : 'application/json'
+        };
+        const headers = this.credentials
+            ? signRequest({ method: 'POST', url, headers: baseHeaders, body }, this.credentials, this.region, SIGNING_SERVICE)
+            : { ...baseHeaders, authorization: `Bearer ${this.config.apiKey}` };
+
+        const response = await fetch(url, { method: 'POST', headers, body, signal });
+        if (response.ok) return response;
+
+        const payload: unknown = await response.json().catch(() => undefined);
+        const record = payload !== null && typeof payload === 'object'
+            ? payload as Record<string, unknown>
+            : undefined;
+        const text = record?.message ?? record?.Message;
+        throw Object.assign(new Error(typeof text === 'string' ? text : `HTTP ${response.status}`), {
+            status: response.status,
+            type: response.headers.get('x-amzn-errortype') ?? record?.__type,
+            headers: {
+                'retry-after': response.headers.get('retry-after') ?? undefined
+            }
+        });
+    }
+
+    private async *guardStream(
+        stream: AsyncIterable<UniversalStreamResponse>,
+        signal?: AbortSignal
+    ): AsyncGenerator<UniversalStreamResponse> {
+        try {
+            yield* stream;
+        } catch (error: unknown) {
+            const cancellation = resolveLLMCancellationError(error, signal);
+            if (cancellation) throw cancellation;
+            throw mapBedrockError(error);
+        }
+    }
+}
+
+export default BedrockAdapter;
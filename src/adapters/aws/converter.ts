@@ -0,0 +1,513 @@
+import type {
+    ModelInfo,
+    JSONSchemaDefinition,
+    ReasoningEffort,
+    ResponseFormat,
+    UniversalChatParams,
+    UniversalChatResponse,
+    UniversalMessage,
+    Usage
+} from '../../interfaces/UniversalInterfaces.ts';
+import { FinishReason } from '../../interfaces/UniversalInterfaces.ts';
+import { ModelManager } from '../../core/models/ModelManager.ts';
+import { SchemaSanitizer } from '../../core/schema/SchemaSanitizer.ts';
+import { SchemaValidator } from '../../core/schema/SchemaValidator.ts';
+import { calculateCacheSavings } from '../../core/telemetry/UsageNormalizer.ts';
+import { getMessageCacheControl, getToolCacheControl } from '../../core/cache/PromptCacheHints.ts';
+import { normalizeImageSource, urlToBase64 } from '../../core/file-data/fileData.ts';
+import type { ToolCall, ToolDefinition } from '../../types/tooling.ts';
+import { logger } from '../../utils/logger.ts';
+import { BedrockValidationError } from './errors.ts';
+import {
+    createBedrockReasoningState,
+    getBedrockReasoningBlocks,
+    type BedrockContentBlock,
+    type BedrockConverseRequest,
+    type BedrockConverseResponse,
+    type BedrockImageBlock,
+    type BedrockImageFormat,
+    type BedrockMessage,
+    type BedrockProviderOptions,
+    type BedrockReasoningBlock,
+    type BedrockSystemBlock,
+    type BedrockTool,
+    type BedrockToolChoice,
+    type BedrockToolUseBlock
+} from './types.ts';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object';
+
+const DEFAULT_MAX_TOKENS = 4096;
+const MIN_THINKING_BUDGET = 1024;
+const CACHE_POINT = { cachePoint: { type: 'default' } } as const;
+
+const IMAGE_FORMATS: Record<string, BedrockImageFormat> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpeg',
+    'image/jpg': 'jpeg',
+    'image/gif': 'gif',
+    'image/webp': 'webp'
+};
+
+export class BedrockConverter {
+    constructor(private readonly modelManager: ModelManager) {}
+
+    async convertToProviderParams(
+        model: string,
+        params: UniversalChatParams
+    ): Promise<BedrockConverseRequest> {
+        const log = logger.createLogger({ prefix: 'BedrockConverter.convertToProviderParams' });
+        const modelInfo = this.modelManager.getModel(model);
+        const system = this.mapSystemMessages(params.messages);
+        const messages = await this.mapMessages(params.messages);
+        const providerParams: BedrockConverseRequest = {
+            messages,
+            inferenceConfig: {
+                maxTokens: Math.min(DEFAULT_MAX_TOKENS, modelInfo?.maxResponseTokens ?? DEFAULT_MAX_TOKENS)
+            }
+        };
+        const inferenceConfig = providerParams.inferenceConfig!;
+
+        const jsonInstruction = this.createJsonInstruction(params);
+        if (jsonInstruction) system.unshift(jsonInstruction);
+
+        const settings = params.settings;
+        let cachePoint = false;
+        let toolChoice: BedrockToolChoice | undefined;
+        if (settings) {
+            if (settings.temperature !== undefined) inferenceConfig.temperature = settings.temperature;
+            if (settings.topP !== undefined) inferenceConfig.topP = settings.topP;
+            if (settings.maxTokens !== undefined) inferenceConfig.maxTokens = settings.maxTokens;
+            if (settings.stop !== undefined) {
+                inferenceConfig.stopSequences = Array.isArray(settings.stop) ? settings.stop : [settings.stop];
+            }
+            if (settings.toolChoice !== undefined) toolChoice = this.mapToolChoice(settings.toolChoice);
+
+            this.mapReasoningSettings(modelInfo, settings.reasoning?.effort, providerParams);
+            this.mapVerbosity(modelInfo, settings.verbosity, settings.maxTokens, providerParams);
+
+            const bedrockOptions = settings.providerOptions?.bedrock;
+            if (isRecord(bedrockOptions)) {
+                const {
+                    cachePoint: cacheOption,
+                    additionalModelRequestFields,
+                    ...passthrough
+                } = bedrockOptions as BedrockProviderOptions;
+                cachePoint = cacheOption === true;
+                Object.assign(providerParams, passthrough);
+                if (isRecord(additionalModelRequestFields)) {
+                    providerParams.additionalModelRequestFields = {
+                        ...providerParams.additionalModelRequestFields,
+                        ...additionalModelRequestFields
+                    };
+                }
+                providerParams.messages = messages;
+                providerParams.inferenceConfig = inferenceConfig;
+            }
+        }
+
+        if (params.tools?.length) {
+            const tools = params.tools.flatMap((tool): BedrockTool[] => getToolCacheControl(tool)
+                ? [this.mapTool(tool), CACHE_POINT]
+                : [this.mapTool(tool)]);
+            if (cachePoint && tools.at(-1) !== CACHE_POINT) tools.push(CACHE_POINT);
+            providerParams.toolConfig = toolChoice ? { tools, toolChoice } : { tools };
+        }
+
+        if (cachePoint && system.length && system.at(-1) !== CACHE_POINT) system.push(CACHE_POINT);
+        if (system.length) providerParams.system = system;
+
+        log.debug('Provider params prepared:', providerParams);
+        return providerParams;
+    }
+
+    /**
+     * Converse does not echo the model ID, so usage is priced against the requested model.
+     */
+    convertFromProviderResponse(response: unknown, model = ''): UniversalChatResponse {
+        if (!isRecord(response) || !isRecord(response.output)) {
+            throw new BedrockValidationError('Bedrock returned a response without output');
+        }
+
+        const converse = response as unknown as BedrockConverseResponse;
+        const content = converse.output.message?.content ?? [];
+        const text = content
+            .flatMap(block => 'text' in block ? [block.text] : [])
+            .join('');
+        const reasoningBlocks = content.filter((block): block is BedrockReasoningBlock =>
+            'reasoningContent' in block
+        );
+        const reasoning = reasoningBlocks
+            .map(block => 'reasoningText' in block.reasoningContent ? block.reasoningContent.reasoningText.text : '')
+            .join('');
+        const toolCalls = content
+            .filter((block): block is BedrockToolUseBlock => 'toolUse' in block)
+            .map<ToolCall>(block => ({
+                id: block.toolUse.toolUseId,
+                name: block.toolUse.name,
+                arguments: isRecord(block.toolUse.input) ? block.toolUse.input : {}
+            }));
+
+        return {
+            content: text || null,
+            reasoning: reasoning || undefined,
+            role: 'assistant',
+            toolCalls: toolCalls.length ? toolCalls : undefined,
+            metadata: {
+                finishReason: this.mapFinishReason(converse.stopReason),
+                created: Date.now(),
+                model,
+                provider: 'bedrock',
+                usage: this.mapUsage(converse.usage, model),
+                providerState: reasoningBlocks.length
+                    ? createBedrockReasoningState(reasoningBlocks)
+                    : undefined
+            }
+        };
+    }
+
+    mapUsage(usageValue: unknown, model: string): Usage | undefined {
+        if (!isRecord(usageValue)) return undefined;
+
+        // inputTokens excludes prompt-cache reads and writes, which Bedrock reports separately.
+        const cached = this.numberValue(usageValue.cacheReadInputTokens);
+        const input = this.numberValue(usageValue.inputTokens) +
+            cached +
+            this.numberValue(usageValue.cacheWriteInputTokens);
+        const output = this.numberValue(usageValue.outputTokens);
+        const modelInfo = this.modelManager.getModel(model);
+
+        return {
+            tokens: {
+                input: { total: input, cached },
+                output: { total: output, reasoning: 0 },
+                total: input + output
+            },
+            costs: this.calculateCosts(input, cached, output, modelInfo)
+        };
+    }
+
+    mapFinishReason(reason: string | null | undefined): FinishReason {
+        switch (reason) {
+            case 'end_turn':
+            case 'stop_sequence':
+                return FinishReason.STOP;
+            case 'max_tokens':
+            case 'model_context_window_exceeded':
+                return FinishReason.LENGTH;
+            case 'tool_use': return FinishReason.TOOL_CALLS;
+            case 'guardrail_intervened':
+            case 'content_filtered':
+                return FinishReason.CONTENT_FILTER;
+            default: return reason ? FinishReason.NULL : FinishReason.STOP;
+        }
+    }
+
+    private mapSystemMessages(messages: UniversalMessage[]): BedrockSystemBlock[] {
+        return messages
+            .filter(message => (message.role === 'system' || message.role === 'developer') && message.content)
+            .flatMap((message): BedrockSystemBlock[] => getMessageCacheControl(message)
+                ? [{ text: message.content }, CACHE_POINT]
+                : [{ text: message.content }]);
+    }
+
+    private async mapMessages(messages: UniversalMessage[]): Promise<BedrockMessage[]> {
+        const mapped: BedrockMessage[] = [];
+
+        for (const message of messages) {
+            if (message.role === 'system' || message.role === 'developer') continue;
+
+            const role = message.role === 'assistant' ? 'assistant' : 'user';
+            const content = message.role === 'tool' || message.role === 'function'
+                ? [this.mapToolResult(message)]
+                : role === 'assistant'
+                    ? this.mapAssistantContent(message)
+                    : await this.mapUserContent(message.content);
+            if (!content.length) continue;
+            if (getMessageCacheControl(message)) content.push(CACHE_POINT);
+
+            // Converse expects alternating turns; parallel tool results share one user turn.
+            const previous = mapped.at(-1);
+            if (previous?.role === role) {
+                previous.content.push(...content);
+            } else {
+                mapped.push({ role, content });
+            }
+        }
+
+        return mapped;
+    }
+
+    private mapToolResult(message: UniversalMessage): BedrockContentBlock {
+        if (!message.toolCallId) {
+            return { text: message.content };
+        }
+        return {
+            toolResult: {
+                toolUseId: message.toolCallId,
+                content: [{ text: message.content }],
+                ...(message.metadata?.isError === true ? { status: 'error' as const } : {})
+            }
+        };
+    }
+
+    private mapAssistantContent(message: UniversalMessage): BedrockContentBlock[] {
+        // Signed reasoning blocks must be replayed unchanged ahead of toolUse blocks.
+        const blocks: BedrockContentBlock[] = [
+            ...(getBedrockReasoningBlocks(message.metadata?.providerState) ?? [])
+        ];
+        if (message.content) blocks.push({ text: message.content });
+        message.toolCalls?.forEach((toolCall, index) => {
+            blocks.push(this.mapUniversalToolCall(toolCall, index));
+        });
+        return blocks;
+    }
+
+    private async mapUserContent(content: string): Promise<BedrockContentBlock[]> {
+        const fileRefs = [...content.matchAll(/<file:(.*?)>/g)];
+        if (!fileRefs.length) {
+            return content ? [{ text: content }] : [];
+        }
+
+        const blocks: BedrockContentBlock[] = [];
+        let cursor = 0;
+        for (const ref of fileRefs) {
+            const before = content.slice(cursor, ref.index).trim();
+            if (before) blocks.push({ text: before });
+            blocks.push(await this.mapImage(ref[1]));
+            cursor = (ref.index ?? 0) + ref[0].length;
+        }
+        const remaining = content.slice(cursor).trim();
+        if (remaining) blocks.push({ text: remaining });
+        return blocks;
+    }
+
+    private async mapImage(reference: string): Promise<BedrockImageBlock> {
+        try {
+            const dataUri = reference.match(/^data:([^;]+);base64,(.+)$/);
+            if (dataUri) return this.createImageBlock(dataUri[1], dataUri[2]);
+
+            // Converse only accepts inline bytes (or S3 locations), so remote images are downloaded.
+            let normalized = reference.startsWith('http://') || reference.startsWith('https://')
+                ? await urlToBase64(reference)
+                : await normalizeImageSource({ type: 'file_path', path: reference });
+            if (normalized.type === 'url') normalized = await urlToBase64(normalized.url);
+            return this.createImageBlock(normalized.mime, normalized.data);
+        } catch (error) {
+            if (error instanceof BedrockValidationError) throw error;
+            throw new BedrockValidationError(
+                `Failed to read image ${reference}: ${error instanceof Error ? error.message : String(error)}`,
+                error
+            );
+        }
+    }
+
+    private createImageBlock(mime: string, data: string): BedrockImageBlock {
+        const format = IMAGE_FORMATS[mime.toLowerCase()];
+        if (!format) {
+            throw new BedrockValidationError(`Unsupported image type for Bedrock: ${mime}`);
+        }
+        return { image: { format, source: { bytes: data } } };
+    }
+
+    private mapUniversalToolCall(
+        toolCall: NonNullable<UniversalMessage['toolCalls']>[number],
+        index: number
+    ): BedrockToolUseBlock {
+        if ('function' in toolCall) {
+            return {
+                toolUse: {
+                    toolUseId: toolCall.id,
+                    name: toolCall.function.name,
+                    input: this.parseArguments(toolCall.function.arguments)
+                }
+            };
+        }
+        return {
+            toolUse: {
+                toolUseId: toolCall.id ?? `tooluse_${index}`,
+                name: toolCall.name,
+                input: toolCall.arguments
+            }
+        };
+    }
+
+    private parseArguments(argumentsValue: string): Record<string, unknown> {
+        try {
+            const parsed: unknown = JSON.parse(argumentsValue);
+            return isRecord(parsed) && !Array.isArray(parsed) ? parsed : { value: parsed };
+        } catch {
+            return { rawArguments: argumentsValue };
+        }
+    }
+
+    private mapTool(tool: ToolDefinition): BedrockTool {
+        if (!tool.name || !tool.parameters) {
+            throw new BedrockValidationError(
+                `Invalid tool definition: ${tool.name || 'unnamed tool'}`
+            );
+        }
+
+        const inputSchema = SchemaSanitizer.sanitize(
+            tool.parameters as unknown as Record<string, unknown>,
+            {
+                addHintsToDescriptions: true,
+                forceAllRequired: false,
+                forceNoAdditionalProps: false,
+                normalizeDefs: true,
+                stripMetaKeys: true,
+                stripCompositionKeywords: false
+            }
+        );
+
+        return {
+            toolSpec: {
+                name: tool.name,
+                description: tool.description || undefined,
+                inputSchema: { json: inputSchema }
+            }
+        };
+    }
+
+    private mapToolChoice(
+        toolChoice: NonNullable<NonNullable<UniversalChatParams['settings']>['toolChoice']>
+    ): BedrockToolChoice | undefined {
+        // Converse has no "none" choice and requires toolConfig whenever history holds tool blocks,
+        // so "none" leaves the tools declared with the model's default (auto) behaviour.
+        if (toolChoice === 'none') return undefined;
+        if (toolChoice === 'auto') return { auto: {} };
+        return { tool: { name: toolChoice.function.name } };
+    }
+
+    private mapReasoningSettings(
+        modelInfo: ModelInfo | undefined,
+        effort: ReasoningEffort | undefined,
+        providerParams: BedrockConverseRequest
+    ): void {
+        if (!effort || !modelInfo?.capabilities?.reasoning) return;
+
+        // Only the cataloged Claude models reason on Bedrock; their thinking config is model-native.
+        const budget = this.mapThinkingBudget(effort);
+        const inferenceConfig = providerParams.inferenceConfig!;
+        providerParams.additionalModelRequestFields = {
+            ...providerParams.additionalModelRequestFields,
+            thinking: { type: 'enabled', budget_tokens: budget }
+        };
+        if ((inferenceConfig.maxTokens ?? 0) <= budget) {
+            inferenceConfig.maxTokens = Math.min(modelInfo.maxResponseTokens, budget + DEFAULT_MAX_TOKENS);
+        }
+        delete inferenceConfig.temperature;
+        delete inferenceConfig.topP;
+    }
+
+    private mapThinkingBudget(effort: ReasoningEffort): number {
+        switch (effort) {
+            case 'minimal': return MIN_THINKING_BUDGET;
+            case 'low': return 2048;
+            case 'high': return 16384;
+            default: return 8192;
+        }
+    }
+
+    private mapVerbosity(
+        modelInfo: ModelInfo | undefined,
+        verbosity: 'low' | 'medium' | 'high' | undefined,
+        explicitMaxTokens: number | undefined,
+        providerParams: BedrockConverseRequest
+    ): void {
+        if (
+            !verbosity ||
+            explicitMaxTokens !== undefined ||
+            providerParams.additionalModelRequestFields?.thinking ||
+            !modelInfo
+        ) return;
+
+        const ratios = { low: 0.25, medium: 0.5, high: 0.75 } as const;
+        const minimums = { low: 256, medium: 512, high: 1024 } as const;
+        providerParams.inferenceConfig!.maxTokens = Math.min(
+            modelInfo.maxResponseTokens,
+            Math.max(minimums[verbosity], Math.floor(modelInfo.maxResponseTokens * ratios[verbosity]))
+        );
+    }
+
+    private createJsonInstruction(params: UniversalChatParams): BedrockSystemBlock | undefined {
+        if (this.hasFormatInstruction(params.messages)) return undefined;
+        if (params.jsonSchema) {
+            return this.createSchemaInstruction(params.jsonSchema.schema);
+        }
+        // Converse has no JSON mode, so JSON requests rely on the instruction and core validation.
+        if (this.isJsonMode(params.responseFormat)) {
+            return { text: 'Return only a valid JSON object.' };
+        }
+        return undefined;
+    }
+
+    private hasFormatInstruction(messages: UniversalMessage[]): boolean {
+        return messages.some(message =>
+            message.metadata?.isFormatInstruction === true ||
+            message.content.startsWith('Format instructions:')
+        );
+    }
+
+    private createSchemaInstruction(
+        schemaDefinition: JSONSchemaDefinition
+    ): BedrockSystemBlock {
+        const schema = SchemaValidator.getSchemaObject(schemaDefinition);
+        const sanitized = SchemaSanitizer.sanitize(
+            schema as Record<string, unknown>,
+            {
+                addHintsToDescriptions: true,
+                forceAllRequired: false,
+                forceNoAdditionalProps: false,
+                normalizeDefs: true,
+                stripMetaKeys: true,
+                stripCompositionKeywords: false
+            }
+        );
+        return {
+            text: `Return only a JSON object that matches this JSON Schema:\n${JSON.stringify(sanitized)}`
+        };
+    }
+
+    private isJsonMode(format: ResponseFormat | undefined): boolean {
+        return format === 'json' ||
+            (typeof format === 'object' && format.type === 'json_object');
+    }
+
+    private calculateCosts(
+        input: number,
+        cached: number,
+        output: number,
+        modelInfo: ModelInfo | undefined
+    ): Usage['costs'] {
+        if (!modelInfo) {
+            return {
+                input: { total: 0, cached: 0 },
+                output: { total: 0, reasoning: 0 },
+                total: 0,
+                unit: 'USD'
+            };
+        }
+
+        // Cache writes are billed at the regular input price; the catalog has no write premium.
+        const cachedPrice = modelInfo.inputCachedPricePerMillion;
+        const billableRegularInput = cachedPrice === undefined ? input : Math.max(0, input - cached);
+        const regularInputCost = billableRegularInput * modelInfo.inputPricePerMillion / 1_000_000;
+        const cachedCost = cachedPrice === undefined ? 0 : cached * cachedPrice / 1_000_000;
+        const inputCost = regularInputCost + cachedCost;
+        const cacheSavings = calculateCacheSavings(cached, modelInfo.inputPricePerMillion, cachedPrice);
+        const outputCost = output * modelInfo.outputPricePerMillion / 1_000_000;
+
+        return {
+            input: { total: inputCost, cached: cachedCost, ...(cacheSavings > 0 ? { cacheSavings } : {}) },
+            output: { total: outputCost, reasoning: 0 },
+            total: inputCost + outputCost,
+            unit: 'USD'
+        };
+    }
+
+    private numberValue(value: unknown, fallback = 0): number {
+        return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+    }
+}
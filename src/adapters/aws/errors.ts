@@ -0,0 +1,139 @@
+type ErrorRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): ErrorRecord | undefined =>
+    value !== null && typeof value === 'object' ? value as ErrorRecord : undefined;
+
+/**
+ * HTTP status for Bedrock exception names. Streamed exceptions arrive inside a 200 response and
+ * carry only the name, so the status is recovered from it for classification and retries.
+ */
+const EXCEPTION_STATUS: Record<string, number> = {
+    accessdeniedexception: 403,
+    unrecognizedclientexception: 403,
+    invalidsignatureexception: 403,
+    expiredtokenexception: 403,
+    validationexception: 400,
+    resourcenotfoundexception: 404,
+    throttlingexception: 429,
+    servicequotaexceededexception: 429,
+    modelnotreadyexception: 429,
+    modeltimeoutexception: 408,
+    modelerrorexception: 424,
+    modelstreamerrorexception: 424,
+    internalserverexception: 500,
+    serviceunavailableexception: 503
+};
+
+/** Bedrock names errors in `x-amzn-errortype` (`ValidationException:http://...`) or `:exception-type`. */
+const getType = (error: unknown): string | undefined => {
+    const record = asRecord(error);
+    const type = record?.type ?? record?.__type ?? record?.name;
+    if (typeof type !== 'string') return undefined;
+    return type.split(':')[0].split('#').at(-1)?.toLowerCase();
+};
+
+const getStatus = (error: unknown): number | undefined => {
+    const record = asRecord(error);
+    const response = asRecord(record?.response);
+    const status = record?.status ?? record?.statusCode ?? response?.status;
+    if (typeof status === 'number') return status;
+    const type = getType(error);
+    return type ? EXCEPTION_STATUS[type] : undefined;
+};
+
+const getMessage = (error: unknown): string => {
+    if (error instanceof Error && error.message) return error.message;
+    const record = asRecord(error);
+    const message = record?.message ?? record?.Message;
+    return typeof message === 'string' ? message : 'Unknown Bedrock error';
+};
+
+const getRetryAfter = (error: unknown): number | undefined => {
+    const record = asRecord(error);
+    const headers = asRecord(record?.headers) ?? asRecord(asRecord(record?.response)?.headers);
+    const raw = headers?.['retry-after'];
+    if (typeof raw === 'number') return raw;
+    if (typeof raw === 'string') {
+        const seconds = Number(raw);
+        return Number.isFinite(seconds) ? seconds : undefined;
+    }
+    return undefined;
+};
+
+export class BedrockAdapterError extends Error {
+    constructor(message: string, public readonly cause?: unknown) {
+        super(message);
+        this.name = 'BedrockAdapterError';
+    }
+}
+
+export class BedrockAuthError extends BedrockAdapterError {
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+        this.name = 'BedrockAuthError';
+    }
+}
+
+export class BedrockRateLimitError extends BedrockAdapterError {
+    constructor(message: string, public readonly retryAfter?: number, cause?: unknown) {
+        super(message, cause);
+        this.name = 'BedrockRateLimitError';
+    }
+}
+
+export class BedrockValidationError extends BedrockAdapterError {
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+        this.name = 'BedrockValidationError';
+    }
+}
+
+export class BedrockNetworkError extends BedrockAdapterError {
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+        this.name = 'BedrockNetworkError';
+    }
+}
+
+export class BedrockServiceError extends BedrockAdapterError {
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+        this.name = 'BedrockServiceError';
+    }
+}
+
+export const mapBedrockError = (error: unknown): BedrockAdapterError => {
+    if (error instanceof BedrockAdapterError) return error;
+
+    const status = getStatus(error);
+    const message = getMessage(error);
+    const lower = message.toLowerCase();
+
+    if (status === 401 || status === 403) {
+        return new BedrockAuthError(`Authentication error: ${message}`, error);
+    }
+    if (status === 429 || lower.includes('rate limit') || lower.includes('too many requests')) {
+        return new BedrockRateLimitError(
+            `Rate limit exceeded (429): ${message}`,
+            getRetryAfter(error),
+            error
+        );
+    }
+    if (status === 400 || status === 404 || status === 413) {
+        return new BedrockValidationError(`Invalid request: ${message}`, error);
+    }
+    if (
+        lower.includes('econnrefused') ||
+        lower.includes('enotfound') ||
+        lower.includes('fetch failed') ||
+        lower.includes('network') ||
+        lower.includes('timed out')
+    ) {
+        return new BedrockNetworkError(`Network error: ${message}`, error);
+    }
+    if (status !== undefined && (status >= 500 || status === 408 || status === 424)) {
+        // 424 (model error) is not retried; 408 and 5xx are, via the status kept in the message.
+        return new BedrockServiceError(`Bedrock service error (${status}): ${message}`, error);
+    }
+    return new BedrockAdapterError(message, error);
+};
@@ -0,0 +1,137 @@
+export type EventStreamHeaderValue = string | number | boolean | Uint8Array;
+
+export type EventStreamMessage = {
+    headers: Record<string, EventStreamHeaderValue>;
+    payload: Uint8Array;
+};
+
+const PRELUDE_LENGTH = 12;
+const CHECKSUM_LENGTH = 4;
+
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let index = 0; index < 256; index++) {
+        let value = index;
+        for (let bit = 0; bit < 8; bit++) {
+            value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+        }
+        table[index] = value >>> 0;
+    }
+    return table;
+})();
+
+export function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const byte of bytes) {
+        crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Decode an `application/vnd.amazon.eventstream` body into its messages. Frames are
+ * length-prefixed and checksummed; a frame split across network chunks is buffered until complete.
+ */
+export async function* decodeEventStream(
+    body: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>
+): AsyncGenerator<EventStreamMessage> {
+    const parts = Symbol.asyncIterator in body ? body : readStream(body);
+    let buffer = new Uint8Array(0);
+
+    for await (const part of parts) {
+        const next = new Uint8Array(buffer.length + part.length);
+        next.set(buffer);
+        next.set(part, buffer.length);
+        buffer = next;
+
+        while (buffer.length >= PRELUDE_LENGTH) {
+            const totalLength = new DataView(buffer.buffer, buffer.byteOffset).getUint32(0);
+            if (buffer.length < totalLength) break;
+            yield decodeMessage(buffer.subarray(0, totalLength));
+            buffer = buffer.slice(totalLength);
+        }
+    }
+
+    if (buffer.length > 0) {
+        throw new Error(`Event stream ended inside a message (${buffer.length} trailing bytes)`);
+    }
+}
+
+function decodeMessage(frame: Uint8Array): EventStreamMessage {
+    const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+    const totalLength = view.getUint32(0);
+    const headersLength = view.getUint32(4);
+
+    if (view.getUint32(8) !== crc32(frame.subarray(0, 8))) {
+        throw new Error('Event stream prelude checksum mismatch');
+    }
+    if (view.getUint32(totalLength - CHECKSUM_LENGTH) !== crc32(frame.subarray(0, totalLength - CHECKSUM_LENGTH))) {
+        throw new Error('Event stream message checksum mismatch');
+    }
+
+    const headersEnd = PRELUDE_LENGTH + headersLength;
+    return {
+        headers: decodeHeaders(frame.subarray(PRELUDE_LENGTH, headersEnd)),
+        payload: frame.slice(headersEnd, totalLength - CHECKSUM_LENGTH)
+    };
+}
+
+function decodeHeaders(bytes: Uint8Array): Record<string, EventStreamHeaderValue> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const decoder = new TextDecoder();
+    const headers: Record<string, EventStreamHeaderValue> = {};
+    let offset = 0;
+
+    while (offset < bytes.length) {
+        const nameLength = view.getUint8(offset);
+        offset += 1;
+        const name = decoder.decode(bytes.subarray(offset, offset + nameLength));
+        offset += nameLength;
+        const type = view.getUint8(offset);
+        offset += 1;
+
+        switch (type) {
+            case 0: headers[name] = true; break;
+            case 1: headers[name] = false; break;
+            case 2: headers[name] = view.getInt8(offset); offset += 1; break;
+            case 3: headers[name] = view.getInt16(offset); offset += 2; break;
+            case 4: headers[name] = view.getInt32(offset); offset += 4; break;
+            case 5:
+            case 8:
+                // int64 and timestamp (ms since epoch)
+                headers[name] = Number(view.getBigInt64(offset));
+                offset += 8;
+                break;
+            case 6:
+            case 7: {
+                const length = view.getUint16(offset);
+                offset += 2;
+                const value = bytes.subarray(offset, offset + length);
+                headers[name] = type === 7 ? decoder.decode(value) : value.slice();
+                offset += length;
+                break;
+            }
+            case 9:
+                headers[name] = bytes.slice(offset, offset + 16);
+                offset += 16;
+                break;
+            default:
+                throw new Error(`Unknown event stream header type ${type} for ${name}`);
+        }
+    }
+
+    return headers;
+}
+
+async function* readStream(body: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+    const reader = body.getReader();
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) return;
+            yield value;
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
@@ -0,0 +1,4 @@
+export { BedrockAdapter } from './adapter.ts';
+export type { BedrockAdapterConfig } from './adapter.ts';
+export { BedrockAdapterError, mapBedrockError } from './errors.ts';
+export { defaultModels } from './models.ts';
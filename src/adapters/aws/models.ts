@@ -0,0 +1,348 @@
+import type { ModelInfo } from '../../interfaces/UniversalInterfaces.ts';
+
+/**
+ * Bedrock model IDs as accepted by Converse. Newer Claude, Llama 4, Pixtral and Nova Premier
+ * models are only served on demand through the `us.` cross-region inference profiles.
+ */
+export const defaultModels: ModelInfo[] = [
+    {
+        name: 'us.anthropic.claude-sonnet-4-5-20250929-v1:0',
+        canonicalSlug: 'anthropic/claude-4.5-sonnet-20250929',
+        inputPricePerMillion: 3,
+        inputCachedPricePerMillion: 0.3,
+        outputPricePerMillion: 15,
+        imageInputPricePerMillion: 3,
+        maxRequestTokens: 200000,
+        maxResponseTokens: 64000,
+        capabilities: {
+            streaming: true,
+            toolCalls: { nonStreaming: true, streamingMode: 'deltas', parallel: true },
+            parallelToolCalls: true,
+            batchProcessing: false,
+            reasoning: true,
+            input: { text: true, image: true },
+            output: {
+                text: {
+                    textOutputFormats: ['text', 'json'],
+                    structuredOutputs: false
+                }
+            }
+        },
+        characteristics: {
+            qualityIndex: 92,
+            outputSpeed: 70,
+            firstTokenLatency: 1300
+        }
+    },
+    {
+        name: 'us.anthropic.claude-haiku-4-5-20251001-v1:0',
+        canonicalSlug: 'anthropic/claude-4.5-haiku-20251001',
+        inputPricePerMillion: 1,
+        inputCachedPricePerMillion: 0.1,
+        outputPricePerMillion: 5,
+        imageInputPricePerMillion: 1,
+        maxRequestTokens: 200000,
+        maxResponseTokens: 64000,
+        capabilities: {
+            streaming: true,
+            toolCalls: { nonStreaming: true, streamingMode: 'deltas', parallel: true },
+            parallelToolCalls: true,
+            batchProcessing: false,
+            reasoning: true,
+            input: { text: true, image: true },
+            output: {
+                text: {
+                    textOutputFormats: ['text', 'json'],
+                    structuredOutputs: false
+                }
+            }
+        },
+        characteristics: {
+            qualityIndex: 80,
+            outputSpeed: 120,
+            firstTokenLatency: 700
+        }
+    },
+    {
+        name: 'us.anthropic.claude-opus-4-1-20250805-v1:0',
+        canonicalSlug: 'anthropic/claude-4.1-opus-20250805',
+        inputPricePerMillion: 15,
+        inputCachedPricePerMillion: 1.5,
+        outputPricePerMillion: 75,
+        imageInputPricePerMillion: 15,
+        maxRequestTokens: 200000,
+        maxResponseTokens: 32000,
+        capabilities: {
+            streaming: true,
+            toolCalls: { nonStreaming: true, streamingMode: 'deltas', parallel: true },
+            parallelToolCalls: true,
+            batchProcessing: false,
+            reasoning: true,
+            input: { text: true, image: true },
+            output: {
+                text: {
+                    textOutputFormats: ['text', 'json'],
+                    structuredOutputs: false
+                }
+            }
+        },
+        characteristics: {
+            qualityIndex: 90,
+            outputSpeed: 40,
+            firstTokenLatency: 2000
+        }
+    },
+    {
+        name: 'us.meta.llama4-maverick-17b-instruct-v1:0',
+        canonicalSlug: 'meta-llama/llama-4-maverick-17b-128e-instruct',
+        inputPricePerMillion: 0.24,
+        outputPricePerMillion: 0.97,
+        imageInputPricePerMillion: 0.24,
+        maxRequestTokens: 1000000,
+        maxResponseTokens: 8192,
+        capabilities: {
+            streaming: true,
+            toolCalls: { nonStreaming: true, streamingMode: 'deltas', parallel: false },
+            parallelToolCalls: false,
+            batchProcessing: false,
+            reasoning: false,
+            input: { text: true, image: true },
+            output: {
+                text: {
+                    textOutputFormats: ['text', 'json'],
+                    structuredOutputs: false
+                }
+            }
+        },
+        characteristics: {
+            qualityIndex: 70,
+            outputSpeed: 110,
+            firstTokenLatency: 500
+        }
+    },
+    {
+        name: 'us.meta.llama4-scout-17b-instruct-v1:0',
+        canonicalSlug: 'meta-llama/llama-4-scout-17b-16e-instruct',
+        inputPricePerMillion: 0.17,
+        outputPricePerMillion: 0.66,
+        imageInputPricePerMillion: 0.17,
+        maxRequestTokens: 3500000,
+        maxResponseTokens: 8192,
+        capabilities: {
+            streaming: true,
+            toolCalls: { nonStreaming: true, streamingMode: 'deltas', parallel: false },
+            parallelToolCalls: false,
+            batchProcessing: false,
+            reasoning: false,
+            input: { text: true, image: true },
+            output: {
+                text: {
+                    textOutputFormats: ['text', 'json'],
+                    structuredOutputs: false
+                }
+            }
+        },
+        characteristics: {
+            qualityIndex: 62,
+            outputSpeed: 120,
+            firstTokenLatency: 450
+        }
+    },
+    {
+        name: 'us.meta.llama3-3-70b-instruct-v1:0',
+        canonicalSlug: 'meta-llama/llama-3.3-70b-instruct',
+        inputPricePerMillion: 0.72,
+        outputPricePerMillion: 0.72,
+        maxRequestTokens: 128000,
+        maxResponseTokens: 8192,
+        capabilities: {
+            streaming: true,
+            toolCalls: { nonStreaming: true, streamingMode: 'deltas', parallel: false },
+            parallelToolCalls: false,
+            batchProcessing: false,
+            reasoning: false,
+            input: { text: true },
+            output: {
+                text: {
+                    textOutputFormats: ['text', 'json'],
+                    structuredOutputs: false
+                }
+            }
+        },
+        characteristics: {
+            qualityIndex: 60,
+            outputSpeed: 70,
+            firstTokenLatency: 500
+        }
+    },
+    {
+        name: 'mistral.mistral-large-2407-v1:0',
+        canonicalSlug: 'mistralai/mistral-large-2407',
+        inputPricePerMillion: 2,
+        outputPricePerMillion: 6,
+        maxRequestTokens: 128000,
+        maxResponseTokens: 8192,
+        capabilities: {
+            streaming: true,
+            toolCalls: { nonStreaming: true, streamingMode: 'deltas', parallel: false },
+            parallelToolCalls: false,
+            batchProcessing: false,
+            reasoning: false,
+            input: { text: true },
+            output: {
+                text: {
+                    textOutputFormats: ['text', 'json'],
+                    structuredOutputs: false
+                }
+            }
+        },
+        characteristics: {
+            qualityIndex: 65,
+            outputSpeed: 60,
+            firstTokenLatency: 600
+        }
+    },
+    {
+        name: 'us.mistral.pixtral-large-2502-v1:0',
+        canonicalSlug: 'mistralai/pixtral-large-2411',
+        inputPricePerMillion: 2,
+        outputPricePerMillion: 6,
+        imageInputPricePerMillion: 2,
+        maxRequestTokens: 128000,
+        maxResponseTokens: 8192,
+        capabilities: {
+            streaming: true,
+            toolCalls: { nonStreaming: true, streamingMode: 'deltas', parallel: false },
+            parallelToolCalls: false,
+            batchProcessing: false,
+            reasoning: false,
+            input: { text: true, image: true },
+            output: {
+                text: {
+                    textOutputFormats: ['text', 'json'],
+                    structuredOutputs: false
+                }
+            }
+        },
+        characteristics: {
+            qualityIndex: 66,
+            outputSpeed: 55,
+            firstTokenLatency: 700
+        }
+    },
+    {
+        name: 'us.amazon.nova-premier-v1:0',
+        canonicalSlug: 'amazon/nova-premier-v1',
+        inputPricePerMillion: 2.5,
+        inputCachedPricePerMillion: 0.625,
+        outputPricePerMillion: 12.5,
+        imageInputPricePerMillion: 2.5,
+        maxRequestTokens: 1000000,
+        maxResponseTokens: 32000,
+        capabilities: {
+            streaming: true,
+            toolCalls: { nonStreaming: true, streamingMode: 'deltas', parallel: false },
+            parallelToolCalls: false,
+            batchProcessing: false,
+            reasoning: false,
+            input: { text: true, image: true },
+            output: {
+                text: {
+                    textOutputFormats: ['text', 'json'],
+                    structuredOutputs: false
+                }
+            }
+        },
+        characteristics: {
+            qualityIndex: 78,
+            outputSpeed: 70,
+            firstTokenLatency: 900
+        }
+    },
+    {
+        name: 'amazon.nova-pro-v1:0',
+        canonicalSlug: 'amazon/nova-pro-v1',
+        inputPricePerMillion: 0.8,
+        inputCachedPricePerMillion: 0.2,
+        outputPricePerMillion: 3.2,
+        imageInputPricePerMillion: 0.8,
+        maxRequestTokens: 300000,
+        maxResponseTokens: 10000,
+        capabilities: {
+            streaming: true,
+            toolCalls: { nonStreaming: true, streamingMode: 'deltas', parallel: false },
+            parallelToolCalls: false,
+            batchProcessing: false,
+            reasoning: false,
+            input: { text: true, image: true },
+            output: {
+                text: {
+                    textOutputFormats: ['text', 'json'],
+                    structuredOutputs: false
+                }
+            }
+        },
+        characteristics: {
+            qualityIndex: 68,
+            outputSpeed: 100,
+            firstTokenLatency: 450
+        }
+    },
+    {
+        name: 'amazon.nova-lite-v1:0',
+        canonicalSlug: 'amazon/nova-lite-v1',
+        inputPricePerMillion: 0.06,
+        inputCachedPricePerMillion: 0.015,
+        outputPricePerMillion: 0.24,
+        imageInputPricePerMillion: 0.06,
+        maxRequestTokens: 300000,
+        maxResponseTokens: 10000,
+        capabilities: {
+            streaming: true,
+            toolCalls: { nonStreaming: true, streamingMode: 'deltas', parallel: false },
+            parallelToolCalls: false,
+            batchProcessing: false,
+            reasoning: false,
+            input: { text: true, image: true },
+            output: {
+                text: {
+                    textOutputFormats: ['text', 'json'],
+                    structuredOutputs: false
+                }
+            }
+        },
+        characteristics: {
+            qualityIndex: 55,
+            outputSpeed: 150,
+            firstTokenLatency: 350
+        }
+    },
+    {
+        name: 'amazon.nova-micro-v1:0',
+        canonicalSlug: 'amazon/nova-micro-v1',
+        inputPricePerMillion: 0.035,
+        inputCachedPricePerMillion: 0.00875,
+        outputPricePerMillion: 0.14,
+        maxRequestTokens: 128000,
+        maxResponseTokens: 10000,
+        capabilities: {
+            streaming: true,
+            toolCalls: { nonStreaming: true, streamingMode: 'deltas', parallel: false },
+            parallelToolCalls: false,
+            batchProcessing: false,
+            reasoning: false,
+            input: { text: true },
+            output: {
+                text: {
+                    textOutputFormats: ['text', 'json'],
+                    structuredOutputs: false
+                }
+            }
+        },
+        characteristics: {
+            qualityIndex: 45,
+            outputSpeed: 200,
+            firstTokenLatency: 300
+        }
+    }
+];
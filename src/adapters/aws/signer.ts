@@ -0,0 +1,105 @@
+import { createHash, createHmac } from 'node:crypto';
+
+export type AwsCredentials = {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+};
+
+export type SignableRequest = {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+};
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+
+const sha256Hex = (value: string): string =>
+    createHash('sha256').update(value, 'utf8').digest('hex');
+
+const hmac = (key: string | Buffer, value: string): Buffer =>
+    createHmac('sha256', key).update(value, 'utf8').digest();
+
+/** RFC 3986 encoding; encodeURIComponent leaves `!'()*` alone. */
+const encodeRfc3986 = (value: string): string =>
+    encodeURIComponent(value).replace(/[!'()*]/g, char =>
+        `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+    );
+
+const toAmzDate = (date: Date): string =>
+    date.toISOString().replace(/[:-]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Sign a request with AWS Signature Version 4 and return the headers to send, including
+ * `authorization`, `x-amz-date` and, for temporary credentials, `x-amz-security-token`.
+ *
+ * Every header passed in is signed. Path segments are encoded a second time for the canonical
+ * request, as SigV4 requires for every service except S3.
+ */
+export function signRequest(
+    request: SignableRequest,
+    credentials: AwsCredentials,
+    region: string,
+    service: string,
+    date: Date = new Date()
+): Record<string, string> {
+    const url = new URL(request.url);
+    const amzDate = toAmzDate(date);
+    const dateStamp = amzDate.slice(0, 8);
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(request.headers)) {
+        headers[name.toLowerCase()] = value;
+    }
+    headers.host = url.host;
+    headers['x-amz-date'] = amzDate;
+    if (credentials.sessionToken) {
+        headers['x-amz-security-token'] = credentials.sessionToken;
+    }
+
+    const signedHeaderNames = Object.keys(headers).sort();
+    const canonicalHeaders = signedHeaderNames
+        .map(name => `${name}:${headers[name].trim().replace(/\s+/g, ' ')}\n`)
+        .join('');
+    const signedHeaders = signedHeaderNames.join(';');
+
+    const canonicalUri = url.pathname
+        .split('/')
+        .map(segment => encodeRfc3986(segment))
+        .join('/') || '/';
+    const canonicalQuery = [...url.searchParams.entries()]
+        .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+        .sort(([leftKey, leftValue], [rightKey, rightValue]) =>
+            leftKey === rightKey
+                ? leftValue.localeCompare(rightValue)
+                : leftKey < rightKey ? -1 : 1
+        )
+        .map(([key, value]) => `${key}=${value}`)
+        .join('&');
+
+    const canonicalRequest = [
+        request.method.toUpperCase(),
+        canonicalUri,
+        canonicalQuery,
+        canonicalHeaders,
+        signedHeaders,
+        sha256Hex(request.body ?? '')
+    ].join('\n');
+
+    const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+    const stringToSign = [ALGORITHM, amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(
+        hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), region), service),
+        'aws4_request'
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+
+    const { host: _host, ...sendHeaders } = headers;
+    return {
+        ...sendHeaders,
+        authorization: `${ALGORITHM} Credential=${credentials.accessKeyId}/${scope}, ` +
+            `SignedHeaders=${signedHeaders}, Signature=${signature}`
+    };
+}
@@ -0,0 +1,251 @@
+import type { UniversalStreamResponse, Usage } from '../../interfaces/UniversalInterfaces.ts';
+import { FinishReason } from '../../interfaces/UniversalInterfaces.ts';
+import type { ToolCall } from '../../types/tooling.ts';
+import type { ToolCallChunk } from '../../core/streaming/types.ts';
+import { TokenCalculator } from '../../core/models/TokenCalculator.ts';
+import { logger } from '../../utils/logger.ts';
+import { BedrockConverter } from './converter.ts';
+import { decodeEventStream } from './eventStream.ts';
+import {
+    createBedrockReasoningState,
+    type BedrockReasoningBlock,
+    type BedrockStreamEvent,
+    type BedrockUsage
+} from './types.ts';
+
+type PendingBlock =
+    | { type: 'text' }
+    | { type: 'reasoning'; text: string; signature: string }
+    | { type: 'redacted'; data: string }
+    | { type: 'toolUse'; id: string; name: string; argumentsText: string };
+
+/**
+ * Turns a ConverseStream body into `{ [eventType]: payload }` events. Exception frames are thrown
+ * as errors carrying the exception name, so they map like HTTP failures.
+ */
+export async function* parseConverseStream(
+    body: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>
+): AsyncGenerator<BedrockStreamEvent> {
+    const decoder = new TextDecoder();
+    for await (const message of decodeEventStream(body)) {
+        const payload = message.payload.length
+            ? JSON.parse(decoder.decode(message.payload)) as Record<string, unknown>
+            : {};
+        const messageType = message.headers[':message-type'];
+        if (messageType === 'exception' || messageType === 'error') {
+            const type = message.headers[':exception-type'] ?? message.headers[':error-code'];
+            const text = payload.message ?? payload.Message ?? message.headers[':error-message'];
+            throw Object.assign(new Error(typeof text === 'string' ? text : `Bedrock stream ${String(type)}`), {
+                type: String(type)
+            });
+        }
+        const eventType = message.headers[':event-type'];
+        if (typeof eventType === 'string') {
+            yield { [eventType]: payload } as BedrockStreamEvent;
+        }
+    }
+}
+
+export class BedrockStreamHandler {
+    private readonly log = logger.createLogger({ prefix: 'BedrockStreamHandler' });
+
+    constructor(
+        private readonly converter: BedrockConverter,
+        private readonly tokenCalculator: TokenCalculator,
+        private readonly model: string
+    ) {}
+
+    async *handleStream(stream: AsyncIterable<unknown>): AsyncGenerator<UniversalStreamResponse> {
+        let accumulatedContent = '';
+        let accumulatedReasoning = '';
+        let isFirstContentChunk = true;
+        let isFirstReasoningChunk = true;
+        let finishReason: FinishReason | undefined;
+        let usage: BedrockUsage | undefined;
+        const blocks = new Map<number, PendingBlock>();
+
+        for await (const value of stream) {
+            this.log.debug('Raw Bedrock stream event:', value);
+            const event = value as BedrockStreamEvent;
+            let content = '';
+            let reasoning = '';
+            let toolCallChunk: ToolCallChunk | undefined;
+
+            if ('contentBlockStart' in event) {
+                const { contentBlockIndex: index, start } = event.contentBlockStart;
+                if (start?.toolUse) {
+                    blocks.set(index, {
+                        type: 'toolUse',
+                        id: start.toolUse.toolUseId,
+                        name: start.toolUse.name,
+                        argumentsText: ''
+                    });
+                    toolCallChunk = { id: start.toolUse.toolUseId, index, name: start.toolUse.name };
+                }
+            } else if ('contentBlockDelta' in event) {
+                const { contentBlockIndex: index, delta } = event.contentBlockDelta;
+                const pending = blocks.get(index);
+                if (delta.text !== undefined) {
+                    if (!pending) blocks.set(index, { type: 'text' });
+                    content = delta.text;
+                } else if (delta.toolUse && pending?.type === 'toolUse') {
+                    pending.argumentsText += delta.toolUse.input;
+                    if (delta.toolUse.input) {
+                        toolCallChunk = { index, argumentsChunk: delta.toolUse.input };
+                    }
+                } else if (delta.reasoningContent) {
+                    const reasoningDelta = delta.reasoningContent;
+                    if (reasoningDelta.redactedContent !== undefined) {
+                        blocks.set(index, { type: 'redacted', data: reasoningDelta.redactedContent });
+                    } else {
+                        const block = pending?.type === 'reasoning'
+                            ? pending
+                            : { type: 'reasoning' as const, text: '', signature: '' };
+                        blocks.set(index, block);
+                        if (reasoningDelta.text) {
+                            block.text += reasoningDelta.text;
+                            reasoning = reasoningDelta.text;
+                        }
+                        if (reasoningDelta.signature) block.signature += reasoningDelta.signature;
+                    }
+                }
+            } else if ('messageStop' in event) {
+                finishReason = this.converter.mapFinishReason(event.messageStop.stopReason);
+            } else if ('metadata' in event) {
+                usage = event.metadata.usage;
+            }
+
+            if (content || reasoning || toolCallChunk) {
+                const incrementalUsage = this.createIncrementalUsage(content, reasoning);
+                accumulatedContent += content;
+                accumulatedReasoning += reasoning;
+
+                yield {
+                    content,
+                    reasoning: reasoning || undefined,
+                    role: 'assistant',
+                    isComplete: false,
+                    isFirstContentChunk: content && isFirstContentChunk ? true : undefined,
+                    isFirstReasoningChunk: reasoning && isFirstReasoningChunk ? true : undefined,
+                    toolCallChunks: toolCallChunk ? [toolCallChunk] : undefined,
+                    metadata: incrementalUsage ? { usage: incrementalUsage } : undefined
+                };
+
+                if (content) isFirstContentChunk = false;
+                if (reasoning) isFirstReasoningChunk = false;
+            }
+        }
+
+        const toolCalls = this.completeToolCalls(blocks);
+        const reasoningBlocks = this.completeReasoning(blocks);
+        const resolvedFinishReason = toolCalls.length
+            ? FinishReason.TOOL_CALLS
+            : finishReason ?? FinishReason.STOP;
+
+        yield {
+            content: '',
+            contentText: accumulatedContent,
+            reasoningText: accumulatedReasoning,
+            role: 'assistant',
+            isComplete: true,
+            toolCalls: toolCalls.length ? toolCalls : undefined,
+            metadata: {
+                finishReason: resolvedFinishReason,
+                provider: 'bedrock',
+                model: this.model,
+                usage: this.converter.mapUsage(usage, this.model),
+                providerState: reasoningBlocks.length
+                    ? createBedrockReasoningState(reasoningBlocks)
+                    : undefined
+            }
+        };
+    }
+
+    minimalConvert(value: unknown): UniversalStreamResponse {
+        const event = value as BedrockStreamEvent;
+        if ('contentBlockDelta' in event) {
+            const delta = event.contentBlockDelta.delta;
+            return {
+                content: delta.text ?? '',
+                reasoning: delta.reasoningContent?.text,
+                role: 'assistant',
+                isComplete: false
+            };
+        }
+        if ('messageStop' in event) {
+            return {
+                content: '',
+                role: 'assistant',
+                isComplete: true,
+                metadata: { finishReason: this.converter.mapFinishReason(event.messageStop.stopReason) }
+            };
+        }
+        if ('metadata' in event) {
+            return {
+                content: '',
+                role: 'assistant',
+                isComplete: false,
+                metadata: { usage: this.converter.mapUsage(event.metadata.usage, this.model) }
+            };
+        }
+        return { content: '', role: 'assistant', isComplete: false };
+    }
+
+    private completeToolCalls(blocks: Map<number, PendingBlock>): ToolCall[] {
+        return [...blocks.entries()]
+            .sort(([left], [right]) => left - right)
+            .flatMap(([, block]) => block.type === 'toolUse'
+                ? [{
+                    id: block.id,
+                    name: block.name || 'unknown',
+                    arguments: this.parseArguments(block.argumentsText)
+                }]
+                : []);
+    }
+
+    private completeReasoning(blocks: Map<number, PendingBlock>): BedrockReasoningBlock[] {
+        return [...blocks.entries()]
+            .sort(([left], [right]) => left - right)
+            .flatMap(([, block]): BedrockReasoningBlock[] => {
+                if (block.type === 'reasoning') {
+                    return [{
+                        reasoningContent: {
+                            reasoningText: block.signature
+                                ? { text: block.text, signature: block.signature }
+                                : { text: block.text }
+                        }
+                    }];
+                }
+                if (block.type === 'redacted') {
+                    return [{ reasoningContent: { redactedContent: block.data } }];
+                }
+                return [];
+            });
+    }
+
+    private parseArguments(value: string): Record<string, unknown> {
+        if (!value) return {};
+        try {
+            const parsed: unknown = JSON.parse(value);
+            return parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)
+                ? parsed as Record<string, unknown>
+                : { value: parsed };
+        } catch {
+            return { rawArguments: value };
+        }
+    }
+
+    private createIncrementalUsage(content: string, reasoning: string): Usage | undefined {
+        const contentTokens = content ? this.tokenCalculator.calculateTokens(content) : 0;
+        const reasoningTokens = reasoning ? this.tokenCalculator.calculateTokens(reasoning) : 0;
+        const outputTokens = contentTokens + reasoningTokens;
+        if (outputTokens === 0) return undefined;
+
+        const usage = this.converter.mapUsage({ outputTokens }, this.model);
+        if (!usage) return undefined;
+
+        usage.tokens.output.reasoning = reasoningTokens;
+        (usage as unknown as Record<string, unknown>).incremental = outputTokens;
+        return usage;
+    }
+}
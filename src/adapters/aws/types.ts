@@ -0,0 +1,181 @@
+export type BedrockRole = 'user' | 'assistant';
+
+export type BedrockImageFormat = 'png' | 'jpeg' | 'gif' | 'webp';
+
+export type BedrockTextBlock = { text: string };
+
+/** REST Converse carries image bytes as base64 text; URLs are not accepted. */
+export type BedrockImageBlock = {
+    image: {
+        format: BedrockImageFormat;
+        source: { bytes: string };
+    };
+};
+
+export type BedrockToolUseBlock = {
+    toolUse: {
+        toolUseId: string;
+        name: string;
+        input: Record<string, unknown>;
+    };
+};
+
+export type BedrockToolResultBlock = {
+    toolResult: {
+        toolUseId: string;
+        content: Array<{ text: string } | { json: unknown }>;
+        status?: 'success' | 'error';
+    };
+};
+
+export type BedrockReasoningBlock = {
+    reasoningContent:
+        | { reasoningText: { text: string; signature?: string } }
+        | { redactedContent: string };
+};
+
+export type BedrockCachePointBlock = {
+    cachePoint: { type: 'default' };
+};
+
+export type BedrockContentBlock =
+    | BedrockTextBlock
+    | BedrockImageBlock
+    | BedrockToolUseBlock
+    | BedrockToolResultBlock
+    | BedrockReasoningBlock
+    | BedrockCachePointBlock;
+
+export type BedrockSystemBlock = BedrockTextBlock | BedrockCachePointBlock;
+
+export type BedrockMessage = {
+    role: BedrockRole;
+    content: BedrockContentBlock[];
+};
+
+export type BedrockTool =
+    | {
+        toolSpec: {
+            name: string;
+            description?: string;
+            inputSchema: { json: Record<string, unknown> };
+        };
+    }
+    | BedrockCachePointBlock;
+
+export type BedrockToolChoice =
+    | { auto: Record<string, never> }
+    | { any: Record<string, never> }
+    | { tool: { name: string } };
+
+export type BedrockInferenceConfig = {
+    maxTokens?: number;
+    temperature?: number;
+    topP?: number;
+    stopSequences?: string[];
+};
+
+/**
+ * Body of `POST /model/{modelId}/converse` and `/converse-stream`. The model ID travels in the path.
+ */
+export type BedrockConverseRequest = {
+    messages: BedrockMessage[];
+    system?: BedrockSystemBlock[];
+    inferenceConfig?: BedrockInferenceConfig;
+    toolConfig?: {
+        tools: BedrockTool[];
+        toolChoice?: BedrockToolChoice;
+    };
+    additionalModelRequestFields?: Record<string, unknown>;
+    additionalModelResponseFieldPaths?: string[];
+    [key: string]: unknown;
+};
+
+/** Options accepted under `settings.providerOptions.bedrock`; other keys are sent as-is. */
+export type BedrockProviderOptions = {
+    /** Append a cache point after the system prompt and tool definitions. */
+    cachePoint?: boolean;
+    additionalModelRequestFields?: Record<string, unknown>;
+    [key: string]: unknown;
+};
+
+export type BedrockUsage = {
+    inputTokens?: number;
+    outputTokens?: number;
+    totalTokens?: number;
+    cacheReadInputTokens?: number;
+    cacheWriteInputTokens?: number;
+};
+
+export type BedrockStopReason =
+    | 'end_turn'
+    | 'tool_use'
+    | 'max_tokens'
+    | 'stop_sequence'
+    | 'guardrail_intervened'
+    | 'content_filtered'
+    | 'model_context_window_exceeded';
+
+export type BedrockConverseResponse = {
+    output: { message?: BedrockMessage };
+    stopReason: BedrockStopReason | string;
+    usage?: BedrockUsage;
+    metrics?: { latencyMs?: number };
+    additionalModelResponseFields?: Record<string, unknown>;
+};
+
+/**
+ * ConverseStream events, keyed by the `:event-type` header of each event-stream frame.
+ */
+export type BedrockStreamEvent =
+    | { messageStart: { role: BedrockRole } }
+    | {
+        contentBlockStart: {
+            contentBlockIndex: number;
+            start?: { toolUse?: { toolUseId: string; name: string } };
+        };
+    }
+    | {
+        contentBlockDelta: {
+            contentBlockIndex: number;
+            delta: {
+                text?: string;
+                toolUse?: { input: string };
+                reasoningContent?: { text?: string; signature?: string; redactedContent?: string };
+            };
+        };
+    }
+    | { contentBlockStop: { contentBlockIndex: number } }
+    | { messageStop: { stopReason: BedrockStopReason | string; additionalModelResponseFields?: Record<string, unknown> } }
+    | { metadata: { usage?: BedrockUsage; metrics?: { latencyMs?: number } } };
+
+export type BedrockReasoningState = {
+    bedrock: {
+        reasoning: BedrockReasoningBlock[];
+    };
+};
+
+const isReasoningBlock = (value: unknown): value is BedrockReasoningBlock => {
+    if (!value || typeof value !== 'object') return false;
+    const content = (value as Record<string, unknown>).reasoningContent;
+    return Boolean(content) && typeof content === 'object';
+};
+
+/** Reasoning blocks from a previous assistant turn; Claude requires them back, signed, during tool loops. */
+export const getBedrockReasoningBlocks = (
+    providerState: unknown
+): BedrockReasoningBlock[] | undefined => {
+    if (!providerState || typeof providerState !== 'object') return undefined;
+    const bedrock = (providerState as Record<string, unknown>).bedrock;
+    if (!bedrock || typeof bedrock !== 'object') return undefined;
+    const reasoning = (bedrock as Record<string, unknown>).reasoning;
+    if (!Array.isArray(reasoning)) return undefined;
+    const blocks = reasoning.filter(isReasoningBlock);
+    return blocks.length ? blocks : undefined;
+};
+
+export const createBedrockReasoningState = (
+    reasoning: BedrockReasoningBlock[]
+): BedrockReasoningState => ({
+    bedrock: { reasoning }
+});
@@ -12,7 +12,8 @@ import type {
     TranslationResponse,
     SpeechResponse,
     RerankParams,
-    RerankResponse
+    RerankResponse,
+    ModelInfo
 } from '../../interfaces/UniversalInterfaces.ts';
 import type { LLMExecutionControl } from '../../interfaces/ExecutionInterfaces.ts';
 import type { LLMProvider } from '../../interfaces/LLMProvider.ts';
@@ -28,6 +29,8 @@ export type AdapterConfig = {
     apiKey: string;
     baseUrl?: string;
     organization?: string;
+    /** Catalog entries for adapters without a built-in catalog, such as `openai-compatible`. */
+    models?: readonly ModelInfo[];
 };
 
 export abstract class BaseAdapter implements LLMProvider {
@@ -0,0 +1,46 @@
+/**
+ * Parses a `text/event-stream` body into the JSON payloads of its `data:` fields.
+ * The adapters that use it get the event type inside each payload, so `event:` lines are not needed.
+ */
+export async function* parseServerSentEvents(
+    body: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>
+): AsyncGenerator<unknown> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    const parts = Symbol.asyncIterator in body ? body : readStream(body);
+
+    const flush = function* (block: string): Generator<unknown> {
+        const data = block
+            .split(/\r?\n/)
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trimStart())
+            .join('\n');
+        if (data && data !== '[DONE]') yield JSON.parse(data);
+    };
+
+    for await (const part of parts) {
+        buffer += typeof part === 'string' ? part : decoder.decode(part, { stream: true });
+        let boundary = buffer.search(/\r?\n\r?\n/);
+        while (boundary !== -1) {
+            const block = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+            yield* flush(block);
+            boundary = buffer.search(/\r?\n\r?\n/);
+        }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) yield* flush(buffer);
+}
+
+async function* readStream(body: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+    const reader = body.getReader();
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) return;
+            yield value;
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
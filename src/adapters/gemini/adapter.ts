@@ -1,8 +1,8 @@
-import { GoogleGenAI } from '@google/genai';
+import { GoogleGenAI, JobState, type BatchJob as GeminiBatchJob, type CreateCachedContentConfig } from '@google/genai';
 import * as nodePath from 'path';
 import * as nodeFs from 'fs';
 import { BaseAdapter, type AdapterConfig } from '../base/baseAdapter.ts';
-import type { LLMProvider, LLMProviderEmbedding, LLMProviderImage, LLMProviderAudio, LLMProviderVideo, ImageOp, ImageCallParams, AudioOp, VideoCallParams } from '../../interfaces/LLMProvider.ts';
+import type { LLMProvider, LLMProviderEmbedding, LLMProviderImage, LLMProviderAudio, LLMProviderVideo, LLMProviderBatch, ProviderBatchRequest, ProviderBatchResult, ImageOp, ImageCallParams, AudioOp, VideoCallParams } from '../../interfaces/LLMProvider.ts';
 import { saveBase64ToFile } from '../../core/file-data/fileData.ts';
 import type {
     UniversalChatParams,
@@ -16,6 +16,8 @@ import type {
     TranscriptionResponse,
     TranslationResponse,
     SpeechResponse,
+    BatchJob,
+    BatchJobStatus,
 } from '../../interfaces/UniversalInterfaces.ts';
 import { logger } from '../../utils/logger.ts';
 import { FinishReason } from '../../interfaces/UniversalInterfaces.ts';
@@ -24,6 +26,7 @@ import type { RegisteredProviders } from '../index.ts';
 import { TokenCalculator } from '../../core/models/TokenCalculator.ts';
 import { GeminiConverter } from './converter.ts';
 import { GeminiStreamHandler } from './stream.ts';
+import { GeminiContextCache } from './contextCache.ts';
 import { mapGeminiError, GeminiAdapterError } from './errors.ts';
 import type { GeminiResponse } from './types.ts';
 import { normalizeUsage } from '../../core/telemetry/UsageNormalizer.ts';
@@ -55,12 +58,13 @@ function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
 /**
  * Adapter for Google Gemini using the @google/genai SDK
  */
-export class GeminiAdapter extends BaseAdapter implements LLMProvider, LLMProviderEmbedding, LLMProviderImage, LLMProviderAudio, LLMProviderVideo {
+export class GeminiAdapter extends BaseAdapter implements LLMProvider, LLMProviderEmbedding, LLMProviderImage, LLMProviderAudio, LLMProviderVideo, LLMProviderBatch {
     private client: GoogleGenAI;
     private converter: GeminiConverter;
     private streamHandler: GeminiStreamHandler | undefined;
     private modelManager: ModelManager;
     private tokenCalculator: TokenCalculator;
+    private contextCache: GeminiContextCache;
 
     constructor(config: Partial<AdapterConfig> | string) {
         const configObj = typeof config === 'string' ? { apiKey: config } : config;
@@ -82,13 +86,17 @@ export class GeminiAdapter extends BaseAdapter implements LLMProvider, LLMProvid
         this.tokenCalculator = new TokenCalculator();
         this.converter = new GeminiConverter(this.modelManager);
         this.streamHandler = undefined;
+        this.contextCache = new GeminiContextCache(async ({ model, ...config }) =>
+            (await this.client.caches.create({ model, config: config as CreateCachedContentConfig })).name
+        );
     }
 
     async chatCall(model: string, params: UniversalChatParams, control?: LLMExecutionControl): Promise<UniversalChatResponse> {
         const log = logger.createLogger({ prefix: 'GeminiAdapter.chatCall' });
         log.debug('Converting params for model:', model);
 
-        const geminiParams = await this.converter.convertToProviderParams(model, params);
+        const { params: request, cachePrefix } = await this.converter.convertToProviderRequest(model, params);
+        const geminiParams = await this.contextCache.apply(request, cachePrefix);
         log.debug('Converted Gemini params for model:', model);
 
         try {
@@ -112,7 +120,8 @@ export class GeminiAdapter extends BaseAdapter implements LLMProvider, LLMProvid
         const log = logger.createLogger({ prefix: 'GeminiAdapter.streamCall' });
         log.debug('Converting params for streaming, model:', model);
 
-        const geminiParams = await this.converter.convertToProviderParams(model, params, { stream: true });
+        const { params: request, cachePrefix } = await this.converter.convertToProviderRequest(model, params, { stream: true });
+        const geminiParams = await this.contextCache.apply(request, cachePrefix);
         log.debug('Converted Gemini streaming params for model:', model);
 
         try {
@@ -128,6 +137,105 @@ export class GeminiAdapter extends BaseAdapter implements LLMProvider, LLMProvid
         }
     }
 
+    /**
+     * Submits the requests as a batch job with inlined requests. Each request carries its
+     * custom ID in its metadata. Context caches are not used, as a job may outlive them.
+     */
+    async batchSubmit(model: string, requests: ProviderBatchRequest[]): Promise<BatchJob> {
+        const log = logger.createLogger({ prefix: 'GeminiAdapter.batchSubmit' });
+        const inlinedRequests = await Promise.all(requests.map(async request => {
+            const { contents, config } = await this.converter.convertToProviderParams(model, request.params);
+            return { contents, config, metadata: { customId: request.customId } };
+        }));
+
+        try {
+            const job = await this.client.batches.create({ model, src: inlinedRequests });
+            log.debug('Created batch', { name: job.name, requests: requests.length });
+            return this.toBatchJob(job);
+        } catch (error: unknown) {
+            const mapped = mapGeminiError(error);
+            log.error('Submit batch failed:', mapped);
+            throw mapped;
+        }
+    }
+
+    async batchStatus(batchId: string): Promise<BatchJob> {
+        try {
+            return this.toBatchJob(await this.client.batches.get({ name: batchId }));
+        } catch (error: unknown) {
+            throw mapGeminiError(error);
+        }
+    }
+
+    async batchCancel(batchId: string): Promise<BatchJob> {
+        try {
+            await this.client.batches.cancel({ name: batchId });
+        } catch (error: unknown) {
+            throw mapGeminiError(error);
+        }
+        return this.batchStatus(batchId);
+    }
+
+    async batchResults(batchId: string): Promise<ProviderBatchResult[]> {
+        let job: GeminiBatchJob;
+        try {
+            job = await this.client.batches.get({ name: batchId });
+        } catch (error: unknown) {
+            throw mapGeminiError(error);
+        }
+        const responses = job.dest?.inlinedResponses;
+        if (!responses) {
+            throw new GeminiAdapterError(`Batch ${batchId} is ${job.state ?? 'pending'} and has no results`);
+        }
+        const model = this.toModelName(job.model);
+
+        // Responses come back in request order, which the custom IDs fall back to
+        return responses.map((result, index) => {
+            const customId = result.metadata?.customId ?? `request-${index}`;
+            if (result.error || !result.response) {
+                return {
+                    customId,
+                    error: {
+                        message: result.error?.message ?? 'The batch returned no response',
+                        ...(result.error?.code !== undefined ? { code: String(result.error.code) } : {})
+                    }
+                };
+            }
+            return { customId, response: this.converter.convertFromProviderResponse(result.response as GeminiResponse, model) };
+        });
+    }
+
+    private toBatchJob(job: GeminiBatchJob): BatchJob {
+        const statuses: Partial<Record<JobState, BatchJobStatus>> = {
+            [JobState.JOB_STATE_QUEUED]: 'queued',
+            [JobState.JOB_STATE_PENDING]: 'queued',
+            [JobState.JOB_STATE_SUCCEEDED]: 'completed',
+            [JobState.JOB_STATE_PARTIALLY_SUCCEEDED]: 'completed',
+            [JobState.JOB_STATE_FAILED]: 'failed',
+            [JobState.JOB_STATE_CANCELLING]: 'cancelling',
+            [JobState.JOB_STATE_CANCELLED]: 'cancelled',
+            [JobState.JOB_STATE_EXPIRED]: 'expired'
+        };
+        const responses = job.dest?.inlinedResponses;
+        const failed = responses?.filter(response => response.error).length ?? Number(job.completionStats?.failedCount ?? 0);
+        const completed = responses ? responses.length - failed : Number(job.completionStats?.successfulCount ?? 0);
+        const incomplete = Math.max(0, Number(job.completionStats?.incompleteCount ?? 0));
+        return {
+            id: job.name ?? '',
+            provider: 'gemini',
+            model: this.toModelName(job.model),
+            status: (job.state && statuses[job.state]) || 'in_progress',
+            requestCounts: { total: completed + failed + incomplete, completed, failed },
+            ...(job.createTime ? { createdAt: Date.parse(job.createTime) } : {}),
+            ...(job.endTime ? { completedAt: Date.parse(job.endTime) } : {}),
+            ...(job.error?.message ? { error: job.error.message } : {})
+        };
+    }
+
+    private toModelName(model: string | undefined): string {
+        return (model ?? '').replace(/^models\//, '');
+    }
+
     async embeddingCall(model: string, params: EmbeddingParams): Promise<EmbeddingResponse> {
         const log = logger.createLogger({ prefix: 'GeminiAdapter.embeddingCall' });
         log.debug('Calling embedContent for model:', model);
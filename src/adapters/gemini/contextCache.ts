@@ -0,0 +1,84 @@
+import { createHash } from 'node:crypto';
+import { logger } from '../../utils/logger.ts';
+import type { GeminiCachePrefix, GeminiContent, GeminiGenerateParams, GenerateContentConfig } from './types.ts';
+
+const TTL_SECONDS = { '5m': 300, '1h': 3600 } as const;
+/** Stop naming a cache shortly before it expires, so requests never reference an expired one. */
+const EXPIRY_MARGIN_MS = 15_000;
+/** Config fields carried by the cached content. Requests that name a cache must not repeat them. */
+const CACHED_CONFIG_KEYS = ['systemInstruction', 'tools', 'toolConfig'] as const;
+
+/** Everything needed to create a cached content for a request prefix. */
+export type GeminiCachedContentRequest = Pick<GenerateContentConfig, typeof CACHED_CONFIG_KEYS[number]> & {
+    model: string;
+    contents: GeminiContent[];
+    /** Lifetime as a duration string, e.g. `300s`. */
+    ttl: string;
+};
+
+/** Creates a cached content and returns its resource name. */
+export type CreateGeminiCachedContent = (request: GeminiCachedContentRequest) => Promise<string | undefined>;
+
+/**
+ * Turns `cacheControl` hints into Gemini cached contents. The prefix of a request (system
+ * instruction, tools and leading contents) is stored once through `cachedContents.create`
+ * and later requests with the same prefix name the cache instead of resending it.
+ * A prefix that cannot be cached, for example one below the model's minimum size, is sent
+ * uncached and not retried until its TTL would have run out.
+ */
+export class GeminiContextCache {
+    private readonly entries = new Map<string, { name: Promise<string | undefined>; expiresAt: number }>();
+    private readonly log = logger.createLogger({ prefix: 'GeminiContextCache' });
+
+    constructor(private readonly createCachedContent: CreateGeminiCachedContent) {}
+
+    async apply(params: GeminiGenerateParams, prefix?: GeminiCachePrefix): Promise<GeminiGenerateParams> {
+        const config = (params.config ?? {}) as Record<string, unknown>;
+        if (!prefix || config.cachedContent !== undefined) return params;
+
+        // The request itself must keep at least one content after the cached prefix.
+        const contents = (params.contents ?? []) as GeminiContent[];
+        const contentCount = Math.max(0, Math.min(prefix.contentCount, contents.length - 1));
+        const cachedConfig = Object.fromEntries(
+            CACHED_CONFIG_KEYS.filter(key => config[key] !== undefined).map(key => [key, config[key]])
+        );
+        if (contentCount === 0 && Object.keys(cachedConfig).length === 0) return params;
+
+        const ttlSeconds = TTL_SECONDS[prefix.ttl ?? '5m'];
+        const name = await this.getOrCreate({
+            model: params.model,
+            contents: contents.slice(0, contentCount),
+            ...cachedConfig,
+            ttl: `${ttlSeconds}s`
+        }, ttlSeconds);
+        if (!name) return params;
+
+        const remainingConfig = Object.fromEntries(
+            Object.entries(config).filter(([key]) => !(CACHED_CONFIG_KEYS as readonly string[]).includes(key))
+        );
+        return {
+            ...params,
+            contents: contents.slice(contentCount),
+            config: { ...remainingConfig, cachedContent: name }
+        };
+    }
+
+    private getOrCreate(request: GeminiCachedContentRequest, ttlSeconds: number): Promise<string | undefined> {
+        const now = Date.now();
+        for (const [key, entry] of this.entries) {
+            if (entry.expiresAt <= now) this.entries.delete(key);
+        }
+
+        const key = createHash('sha256').update(JSON.stringify(request)).digest('hex');
+        const existing = this.entries.get(key);
+        if (existing) return existing.name;
+
+        // Concurrent requests with the same prefix share one creation.
+        const name = this.createCachedContent(request).catch((error: unknown) => {
+            this.log.warn('Could not create cached content; sending the prefix uncached:', error);
+            return undefined;
+        });
+        this.entries.set(key, { name, expiresAt: now + ttlSeconds * 1000 - EXPIRY_MARGIN_MS });
+        return name;
+    }
+}
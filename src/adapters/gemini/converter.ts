@@ -8,7 +8,9 @@ import { SchemaSanitizer } from '../../core/schema/SchemaSanitizer.ts';
 import type { FunctionDeclaration } from '@google/genai';
 import { getMimeTypeFromExtension } from '../../core/file-data/fileData.ts';
 import { TokenCalculator } from '../../core/models/TokenCalculator.ts';
+import { findPromptCacheBreakpoint } from '../../core/cache/PromptCacheHints.ts';
 import type {
+    GeminiCachePrefix,
     GeminiContent,
     GeminiGenerateParams,
     GeminiResponse,
@@ -17,9 +19,25 @@ import type {
 export class GeminiConverter {
     constructor(private modelManager: ModelManager) {}
 
-    async convertToProviderParams(model: string, params: UniversalChatParams, _opts?: { stream?: boolean }): Promise<GeminiGenerateParams> {
+    async convertToProviderParams(model: string, params: UniversalChatParams, opts?: { stream?: boolean }): Promise<GeminiGenerateParams> {
+        return (await this.convertToProviderRequest(model, params, opts)).params;
+    }
+
+    /**
+     * Converts a request and locates its cacheable prefix from the messages' and tools'
+     * `cacheControl` hints, for adapters that create cached contents.
+     */
+    async convertToProviderRequest(
+        model: string,
+        params: UniversalChatParams,
+        _opts?: { stream?: boolean }
+    ): Promise<{ params: GeminiGenerateParams; cachePrefix?: GeminiCachePrefix }> {
         const log = logger.createLogger({ prefix: 'GeminiConverter.convertToProviderParams' });
         const { messages, settings, responseFormat, jsonSchema, tools, systemMessage } = params;
+        const cacheBreakpoint = findPromptCacheBreakpoint(params);
+        let cachePrefix: GeminiCachePrefix | undefined = cacheBreakpoint?.messageIndex === -1
+            ? { contentCount: 0, ttl: cacheBreakpoint.ttl }
+            : undefined;
 
         const config: Record<string, unknown> = {};
         const geminiContents: GeminiContent[] = [];
@@ -31,11 +49,15 @@ export class GeminiConverter {
         }
 
         // Map messages
-        for (const msg of messages) {
-            if (msg.role === 'system' || msg.role === 'developer') continue;
-            const contents = await this.mapMessage(msg);
-            if (contents) {
-                geminiContents.push(...contents);
+        for (const [index, msg] of messages.entries()) {
+            if (msg.role !== 'system' && msg.role !== 'developer') {
+                const contents = await this.mapMessage(msg);
+                if (contents) {
+                    geminiContents.push(...contents);
+                }
+            }
+            if (index === cacheBreakpoint?.messageIndex) {
+                cachePrefix = { contentCount: geminiContents.length, ttl: cacheBreakpoint.ttl };
             }
         }
 
@@ -119,7 +141,7 @@ export class GeminiConverter {
         };
 
         log.debug('Converted provider params:', { model, contentCount: geminiContents.length, hasConfig: Object.keys(config).length > 0 });
-        return result;
+        return { params: result, cachePrefix };
     }
 
     convertFromProviderResponse(resp: GeminiResponse, model?: string): UniversalChatResponse {
@@ -11,6 +11,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 2.00,
         inputCachedPricePerMillion: 0.20,
         outputPricePerMillion: 12.00,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         imageInputPricePerMillion: 2.00,
         audioInputPricePerMillion: 2.00,
         maxRequestTokens: 1048576,
@@ -53,6 +54,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 0.50,
         inputCachedPricePerMillion: 0.05,
         outputPricePerMillion: 3.00,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         imageInputPricePerMillion: 0.50,
         audioInputPricePerMillion: 1.00,
         maxRequestTokens: 1048576,
@@ -95,6 +97,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 0.25,
         inputCachedPricePerMillion: 0.025,
         outputPricePerMillion: 1.50,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         imageInputPricePerMillion: 0.25,
         audioInputPricePerMillion: 0.50,
         maxRequestTokens: 1048576,
@@ -141,6 +144,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 0.30,
         inputCachedPricePerMillion: 0.03,
         outputPricePerMillion: 2.50,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         imageInputPricePerMillion: 0.30,
         audioInputPricePerMillion: 1.00,
         maxRequestTokens: 1048576,
@@ -183,6 +187,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 1.25,
         inputCachedPricePerMillion: 0.125,
         outputPricePerMillion: 10.00,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         imageInputPricePerMillion: 1.25,
         audioInputPricePerMillion: 1.25,
         maxRequestTokens: 1048576,
@@ -225,6 +230,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 0.10,
         inputCachedPricePerMillion: 0.01,
         outputPricePerMillion: 0.40,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         imageInputPricePerMillion: 0.10,
         audioInputPricePerMillion: 0.30,
         maxRequestTokens: 1048576,
@@ -36,6 +36,15 @@ export type GeminiPart = Part;
  */
 export type GeminiGenerateParams = GenerateContentParameters;
 
+/**
+ * Cacheable prefix of a converted request: the system instruction, the tools and the first
+ * `contentCount` contents.
+ */
+export type GeminiCachePrefix = {
+    contentCount: number;
+    ttl?: '5m' | '1h';
+};
+
 /**
  * Gemini function declaration for tool calling
  */
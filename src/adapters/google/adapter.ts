@@ -0,0 +1,255 @@
+import { BaseAdapter, type AdapterConfig } from '../base/baseAdapter.ts';
+import type { LLMProvider } from '../../interfaces/LLMProvider.ts';
+import type {
+    UniversalChatParams,
+    UniversalChatResponse,
+    UniversalStreamResponse
+} from '../../interfaces/UniversalInterfaces.ts';
+import type { LLMExecutionControl } from '../../interfaces/ExecutionInterfaces.ts';
+import { resolveLLMCancellationError } from '../../core/execution/errors.ts';
+import { ModelManager } from '../../core/models/ModelManager.ts';
+import { TokenCalculator } from '../../core/models/TokenCalculator.ts';
+import type { RegisteredProviders } from '../index.ts';
+import { logger } from '../../utils/logger.ts';
+import { GeminiConverter } from '../gemini/converter.ts';
+import { GeminiStreamHandler } from '../gemini/stream.ts';
+import { GeminiContextCache, type GeminiCachedContentRequest } from '../gemini/contextCache.ts';
+import { mapGeminiError } from '../gemini/errors.ts';
+import type { GeminiResponse } from '../gemini/types.ts';
+import {
+    GoogleAccessTokenProvider,
+    getCredentialsProjectId,
+    loadGoogleCredentials,
+    type GoogleCredentials
+} from './auth.ts';
+import { VertexAdapterError } from './errors.ts';
+import { toVertexRequest, type VertexGenerateContentRequest } from './request.ts';
+import { parseVertexStream } from './stream.ts';
+
+const DEFAULT_LOCATION = 'global';
+/** Multi-region locations served from regional endpoints under `rep.googleapis.com`. */
+const MULTI_REGION_LOCATIONS = new Set(['us', 'eu']);
+/** Stands in for `apiKey` when requests are authorized with Google credentials. */
+const APPLICATION_DEFAULT_CREDENTIALS = 'google-application-default-credentials';
+
+export type VertexAdapterConfig = AdapterConfig & {
+    /** Google Cloud project ID. Defaults to GOOGLE_CLOUD_PROJECT or the credentials' project. */
+    project?: string;
+    /** Vertex AI location such as `us-central1`, `europe-west4` or `global`. */
+    location?: string;
+    /** Parsed service-account or authorized-user credentials. */
+    credentials?: GoogleCredentials;
+    /** Path to a credentials JSON file. Defaults to GOOGLE_APPLICATION_CREDENTIALS. */
+    keyFile?: string;
+};
+
+/**
+ * Build the Vertex AI service endpoint for a location: the global endpoint, a multi-region
+ * `rep` endpoint, or the regional `{location}-aiplatform` host.
+ */
+export function getVertexEndpoint(location: string): string {
+    if (location === 'global') return 'https://aiplatform.googleapis.com';
+    if (MULTI_REGION_LOCATIONS.has(location)) return `https://aiplatform.${location}.rep.googleapis.com`;
+    return `https://${location}-aiplatform.googleapis.com`;
+}
+
+/**
+ * Gemini through Vertex AI. Requests are converted and streamed with the Gemini adapter's
+ * converter and stream handler, and authorized with OAuth access tokens exchanged from a
+ * service account, gcloud application-default credentials or the Google Cloud metadata server.
+ * An `apiKey` is treated as a ready-made access token.
+ */
+export class VertexAdapter extends BaseAdapter implements LLMProvider {
+    private readonly converter: GeminiConverter;
+    private readonly modelManager: ModelManager;
+    private readonly tokenCalculator: TokenCalculator;
+    private readonly contextCache: GeminiContextCache;
+    private readonly tokenProvider?: GoogleAccessTokenProvider;
+    private readonly quotaProject?: string;
+    private streamHandler?: GeminiStreamHandler;
+    readonly project: string;
+    readonly location: string;
+
+    constructor(config: Partial<VertexAdapterConfig> | string = {}) {
+        const configObject: Partial<VertexAdapterConfig> = typeof config === 'string' ? { apiKey: config } : config;
+        const accessToken = configObject.apiKey;
+        const credentials = accessToken
+            ? configObject.credentials
+            : loadGoogleCredentials({ credentials: configObject.credentials, keyFile: configObject.keyFile });
+        const project = configObject.project ||
+            process.env.GOOGLE_CLOUD_PROJECT ||
+            process.env.GCLOUD_PROJECT ||
+            getCredentialsProjectId(credentials);
+        if (!project) {
+            throw new VertexAdapterError(
+                'Vertex AI project ID is required. Please provide it in the config or set GOOGLE_CLOUD_PROJECT environment variable.'
+            );
+        }
+        const location = configObject.location || process.env.GOOGLE_CLOUD_LOCATION || DEFAULT_LOCATION;
+
+        super({
+            apiKey: accessToken || APPLICATION_DEFAULT_CREDENTIALS,
+            baseUrl: configObject.baseUrl || getVertexEndpoint(location),
+            organization: configObject.organization
+        });
+
+        this.project = project;
+        this.location = location;
+        if (!accessToken) {
+            this.tokenProvider = new GoogleAccessTokenProvider(credentials);
+            if (credentials?.type === 'authorized_user') this.quotaProject = credentials.quota_project_id;
+        }
+        this.modelManager = new ModelManager('vertex' as RegisteredProviders);
+        this.tokenCalculator = new TokenCalculator();
+        this.converter = new GeminiConverter(this.modelManager);
+        this.contextCache = new GeminiContextCache(request => this.createCachedContent(request));
+    }
+
+    async chatCall(
+        model: string,
+        params: UniversalChatParams,
+        control?: LLMExecutionControl
+    ): Promise<UniversalChatResponse> {
+        const log = logger.createLogger({ prefix: 'VertexAdapter.chatCall' });
+        const request = await this.convertToCachedRequest(model, params);
+        log.debug('Calling Vertex AI generateContent for model:', model);
+
+        try {
+            const response = await this.post(this.getModelUrl(model, 'generateContent'), request, control?.signal);
+            return this.converter.convertFromProviderResponse(await response.json() as GeminiResponse, model);
+        } catch (error: unknown) {
+            const cancellation = resolveLLMCancellationError(error, control?.signal);
+            if (cancellation) throw cancellation;
+            const mapped = mapGeminiError(error);
+            log.error('API call failed:', mapped);
+            throw mapped;
+        }
+    }
+
+    async streamCall(
+        model: string,
+        params: UniversalChatParams,
+        control?: LLMExecutionControl
+    ): Promise<AsyncIterable<UniversalStreamResponse>> {
+        const log = logger.createLogger({ prefix: 'VertexAdapter.streamCall' });
+        const request = await this.convertToCachedRequest(model, params);
+        log.debug('Calling Vertex AI streamGenerateContent for model:', model);
+
+        try {
+            const response = await this.post(this.getModelUrl(model, 'streamGenerateContent'), request, control?.signal);
+            if (!response.body) {
+                throw new VertexAdapterError('Vertex AI returned a streaming response without a body');
+            }
+            this.streamHandler = new GeminiStreamHandler(this.tokenCalculator);
+            return this.guardStream(
+                this.streamHandler.handleStream(parseVertexStream(response.body)),
+                control?.signal
+            );
+        } catch (error: unknown) {
+            const cancellation = resolveLLMCancellationError(error, control?.signal);
+            if (cancellation) throw cancellation;
+            const mapped = mapGeminiError(error);
+            log.error('Streaming call failed:', mapped);
+            throw mapped;
+        }
+    }
+
+    async convertToProviderParams(
+        model: string,
+        params: UniversalChatParams
+    ): Promise<VertexGenerateContentRequest> {
+        return toVertexRequest(await this.converter.convertToProviderParams(model, params));
+    }
+
+    convertFromProviderResponse(response: unknown): UniversalChatResponse {
+        return this.converter.convertFromProviderResponse(response as GeminiResponse);
+    }
+
+    convertFromProviderStreamResponse(response: unknown): UniversalStreamResponse {
+        return this.streamHandler?.minimalConvert(response) ?? {
+            content: '',
+            role: 'assistant',
+            isComplete: false
+        };
+    }
+
+    /**
+     * Publisher model URL in this adapter's project and location. Full resource names such as
+     * tuned-model endpoints (`projects/.../endpoints/...`) are used as given.
+     */
+    getModelUrl(model: string, method: 'generateContent' | 'streamGenerateContent'): string {
+        const query = method === 'streamGenerateContent' ? '?alt=sse' : '';
+        return `${this.config.baseUrl}/v1/${this.getModelResource(model)}:${method}${query}`;
+    }
+
+    private getModelResource(model: string): string {
+        return model.startsWith('projects/')
+            ? model
+            : `projects/${this.project}/locations/${this.location}/publishers/google/models/${model}`;
+    }
+
+    /** Convert a request, moving a prefix marked with `cacheControl` into a cached content. */
+    private async convertToCachedRequest(
+        model: string,
+        params: UniversalChatParams
+    ): Promise<VertexGenerateContentRequest> {
+        const { params: request, cachePrefix } = await this.converter.convertToProviderRequest(model, params);
+        return toVertexRequest(await this.contextCache.apply(request, cachePrefix));
+    }
+
+    private async createCachedContent(request: GeminiCachedContentRequest): Promise<string | undefined> {
+        const { model, contents, ttl, ...config } = request;
+        const response = await this.post(
+            `${this.config.baseUrl}/v1/projects/${this.project}/locations/${this.location}/cachedContents`,
+            { model: this.getModelResource(model), ...toVertexRequest({ model, contents, config }), ttl }
+        );
+        return (await response.json() as { name?: string }).name;
+    }
+
+    private async post(
+        url: string,
+        request: unknown,
+        signal?: AbortSignal
+    ): Promise<Response> {
+        const accessToken = this.tokenProvider
+            ? await this.tokenProvider.getAccessToken()
+            : this.config.apiKey;
+        const headers: Record<string, string> = {
+            'content-type': 'application/json',
+            authorization: `Bearer ${accessToken}`,
+            ...(this.quotaProject ? { 'x-goog-user-project': this.quotaProject } : {})
+        };
+
+        const response = await fetch(url, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(request),
+            signal
+        });
+        if (response.ok) return response;
+
+        // Errors are `{ error: { code, message, status } }`, wrapped in an array by the streaming method.
+        const payload: unknown = await response.json().catch(() => undefined);
+        const error = (Array.isArray(payload) ? payload[0] : payload) as Record<string, Record<string, unknown>> | undefined;
+        const message = error?.error?.message;
+        throw Object.assign(
+            new Error(`Vertex AI request failed (${response.status}): ${typeof message === 'string' ? message : response.statusText}`),
+            { status: response.status }
+        );
+    }
+
+    private async *guardStream(
+        stream: AsyncIterable<UniversalStreamResponse>,
+        signal?: AbortSignal
+    ): AsyncGenerator<UniversalStreamResponse> {
+        try {
+            yield* stream;
+        } catch (error: unknown) {
+            const cancellation = resolveLLMCancellationError(error, signal);
+            if (cancellation) throw cancellation;
+            throw mapGeminiError(error);
+        }
+    }
+}
+
+export default VertexAdapter;
@@ -0,0 +1,189 @@
+import { createSign } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { VertexAdapterError, VertexAuthError } from './errors.ts';
+
+export const CLOUD_PLATFORM_SCOPE = 'https://www.googleapis.com/auth/cloud-platform';
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const DEFAULT_METADATA_HOST = 'metadata.google.internal';
+const TOKEN_LIFETIME_SECONDS = 3600;
+/** Refresh a little before expiry so a token never lapses mid-request. */
+const EXPIRY_MARGIN_MS = 60_000;
+
+/** Service-account key file, as downloaded from the Cloud console. */
+export type GoogleServiceAccountCredentials = {
+    type: 'service_account';
+    client_email: string;
+    private_key: string;
+    private_key_id?: string;
+    project_id?: string;
+    token_uri?: string;
+};
+
+/** User credentials written by `gcloud auth application-default login`. */
+export type GoogleAuthorizedUserCredentials = {
+    type: 'authorized_user';
+    client_id: string;
+    client_secret: string;
+    refresh_token: string;
+    quota_project_id?: string;
+};
+
+export type GoogleCredentials = GoogleServiceAccountCredentials | GoogleAuthorizedUserCredentials;
+
+type CachedToken = { accessToken: string; expiresAt: number };
+
+const base64Url = (value: string | Buffer): string =>
+    Buffer.from(value).toString('base64url');
+
+/** Location of the Application Default Credentials file that gcloud writes. */
+export function getWellKnownCredentialsPath(): string {
+    return process.platform === 'win32' && process.env.APPDATA
+        ? join(process.env.APPDATA, 'gcloud', 'application_default_credentials.json')
+        : join(homedir(), '.config', 'gcloud', 'application_default_credentials.json');
+}
+
+function readCredentialsFile(path: string): GoogleCredentials {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error: unknown) {
+        throw new VertexAdapterError(`Failed to read Google credentials from ${path}`, error);
+    }
+    return validateCredentials(parsed, path);
+}
+
+function validateCredentials(value: unknown, source: string): GoogleCredentials {
+    const record = value !== null && typeof value === 'object' ? value as Record<string, unknown> : {};
+    if (record.type === 'service_account' || record.type === 'authorized_user') {
+        return record as GoogleCredentials;
+    }
+    throw new VertexAdapterError(
+        `Unsupported Google credential type "${String(record.type)}" in ${source}. ` +
+        'Use a service-account key or gcloud application-default user credentials.'
+    );
+}
+
+/**
+ * Resolve Application Default Credentials the way Google's client libraries do, minus the
+ * metadata server: explicit credentials, then a key file, then `GOOGLE_APPLICATION_CREDENTIALS`,
+ * then the gcloud well-known file. Returns `undefined` when none is found, in which case tokens
+ * come from the metadata server of the Google Cloud runtime.
+ */
+export function loadGoogleCredentials(options: {
+    credentials?: GoogleCredentials;
+    keyFile?: string;
+} = {}): GoogleCredentials | undefined {
+    if (options.credentials) return validateCredentials(options.credentials, 'config.credentials');
+    const keyFile = options.keyFile || process.env.GOOGLE_APPLICATION_CREDENTIALS;
+    if (keyFile) return readCredentialsFile(keyFile);
+    const wellKnownPath = getWellKnownCredentialsPath();
+    return existsSync(wellKnownPath) ? readCredentialsFile(wellKnownPath) : undefined;
+}
+
+export function getCredentialsProjectId(credentials: GoogleCredentials | undefined): string | undefined {
+    if (!credentials) return undefined;
+    return credentials.type === 'service_account' ? credentials.project_id : credentials.quota_project_id;
+}
+
+/**
+ * Exchanges Google credentials for OAuth access tokens and caches them until shortly before they
+ * expire. Concurrent callers share a single in-flight exchange.
+ */
+export class GoogleAccessTokenProvider {
+    private cached?: CachedToken;
+    private pending?: Promise<CachedToken>;
+
+    constructor(
+        private readonly credentials: GoogleCredentials | undefined,
+        private readonly scope: string = CLOUD_PLATFORM_SCOPE
+    ) {}
+
+    async getAccessToken(): Promise<string> {
+        if (this.cached && this.cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+            return this.cached.accessToken;
+        }
+        this.pending ??= this.fetchToken().finally(() => {
+            this.pending = undefined;
+        });
+        this.cached = await this.pending;
+        return this.cached.accessToken;
+    }
+
+    private fetchToken(): Promise<CachedToken> {
+        if (!this.credentials) return this.fetchMetadataToken();
+        if (this.credentials.type === 'service_account') return this.fetchServiceAccountToken(this.credentials);
+        return this.requestToken(GOOGLE_TOKEN_URL, {
+            grant_type: 'refresh_token',
+            client_id: this.credentials.client_id,
+            client_secret: this.credentials.client_secret,
+            refresh_token: this.credentials.refresh_token
+        });
+    }
+
+    /** OAuth 2.0 JWT bearer grant, signed with the service account's private key. */
+    private fetchServiceAccountToken(credentials: GoogleServiceAccountCredentials): Promise<CachedToken> {
+        const tokenUrl = credentials.token_uri || GOOGLE_TOKEN_URL;
+        const issuedAt = Math.floor(Date.now() / 1000);
+        const header = { alg: 'RS256', typ: 'JWT', ...(credentials.private_key_id ? { kid: credentials.private_key_id } : {}) };
+        const claims = {
+            iss: credentials.client_email,
+            scope: this.scope,
+            aud: tokenUrl,
+            iat: issuedAt,
+            exp: issuedAt + TOKEN_LIFETIME_SECONDS
+        };
+        const unsigned = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(claims))}`;
+        let signature: string;
+        try {
+            signature = createSign('RSA-SHA256').update(unsigned).sign(credentials.private_key, 'base64url');
+        } catch (error: unknown) {
+            throw new VertexAuthError(`Failed to sign a token request for ${credentials.client_email}`, error);
+        }
+        return this.requestToken(tokenUrl, {
+            grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+            assertion: `${unsigned}.${signature}`
+        });
+    }
+
+    private async fetchMetadataToken(): Promise<CachedToken> {
+        const host = process.env.GCE_METADATA_HOST || DEFAULT_METADATA_HOST;
+        const url = `http://${host}/computeMetadata/v1/instance/service-accounts/default/token`;
+        let response: Response;
+        try {
+            response = await fetch(url, { headers: { 'Metadata-Flavor': 'Google' } });
+        } catch (error: unknown) {
+            throw new VertexAuthError(
+                'No Google credentials found. Set GOOGLE_APPLICATION_CREDENTIALS, run ' +
+                '`gcloud auth application-default login`, or provide credentials in config.',
+                error
+            );
+        }
+        return this.readTokenResponse(response, url);
+    }
+
+    private async requestToken(url: string, form: Record<string, string>): Promise<CachedToken> {
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                method: 'POST',
+                headers: { 'content-type': 'application/x-www-form-urlencoded' },
+                body: new URLSearchParams(form).toString()
+            });
+        } catch (error: unknown) {
+            throw new VertexAuthError(`Token request to ${url} failed`, error);
+        }
+        return this.readTokenResponse(response, url);
+    }
+
+    private async readTokenResponse(response: Response, url: string): Promise<CachedToken> {
+        const payload = await response.json().catch(() => undefined) as Record<string, unknown> | undefined;
+        if (!response.ok || typeof payload?.access_token !== 'string') {
+            const detail = payload?.error_description ?? payload?.error ?? `HTTP ${response.status}`;
+            throw new VertexAuthError(`Token request to ${url} failed (${response.status}): ${String(detail)}`);
+        }
+        const expiresIn = typeof payload.expires_in === 'number' ? payload.expires_in : TOKEN_LIFETIME_SECONDS;
+        return { accessToken: payload.access_token, expiresAt: Date.now() + expiresIn * 1000 };
+    }
+}
@@ -0,0 +1,19 @@
+import { GeminiAdapterError, GeminiAuthError } from '../gemini/errors.ts';
+
+/**
+ * Vertex AI configuration and credential errors. Failed Vertex API calls go through
+ * `mapGeminiError` like the Gemini adapter's, so callers handle one error family for both.
+ */
+export class VertexAdapterError extends GeminiAdapterError {
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+        this.name = 'VertexAdapterError';
+    }
+}
+
+export class VertexAuthError extends GeminiAuthError {
+    constructor(message = 'Failed to obtain a Google Cloud access token', cause?: unknown) {
+        super(message, cause);
+        this.name = 'VertexAuthError';
+    }
+}
@@ -0,0 +1,10 @@
+export { VertexAdapter, getVertexEndpoint } from './adapter.ts';
+export type { VertexAdapterConfig } from './adapter.ts';
+export { GoogleAccessTokenProvider, loadGoogleCredentials } from './auth.ts';
+export type {
+    GoogleCredentials,
+    GoogleServiceAccountCredentials,
+    GoogleAuthorizedUserCredentials
+} from './auth.ts';
+export { VertexAdapterError, VertexAuthError } from './errors.ts';
+export { defaultModels } from './models.ts';
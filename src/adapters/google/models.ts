@@ -0,0 +1,19 @@
+import type { ModelInfo } from '../../interfaces/UniversalInterfaces.ts';
+import { defaultModels as geminiModels } from '../gemini/models.ts';
+
+/**
+ * Gemini text models served through Vertex AI under the same IDs and list prices as the Gemini
+ * API. Image, speech, embedding and Veo models are not exposed by the Vertex adapter.
+ */
+const VERTEX_MODEL_NAMES = new Set([
+    'gemini-3.1-pro-preview',
+    'gemini-3-flash-preview',
+    'gemini-3.1-flash-lite',
+    'gemini-2.5-pro',
+    'gemini-2.5-flash',
+    'gemini-2.5-flash-lite'
+]);
+
+export const defaultModels: ModelInfo[] = geminiModels
+    .filter(model => VERTEX_MODEL_NAMES.has(model.name))
+    .map(model => ({ ...model }));
@@ -0,0 +1,51 @@
+import type { GeminiContent, GeminiGenerateParams, GeminiPart } from '../gemini/types.ts';
+
+/** `generateContent` request body of the Vertex AI REST API. */
+export type VertexGenerateContentRequest = {
+    contents: GeminiContent[];
+    systemInstruction?: GeminiContent;
+    generationConfig?: Record<string, unknown>;
+    safetySettings?: unknown;
+    tools?: unknown;
+    toolConfig?: unknown;
+    cachedContent?: unknown;
+    labels?: unknown;
+};
+
+/** Config fields the REST API takes at the top level of the request rather than in `generationConfig`. */
+const TOP_LEVEL_KEYS = new Set(['safetySettings', 'tools', 'toolConfig', 'cachedContent', 'labels']);
+/** SDK client options that are never sent over the wire. */
+const CLIENT_ONLY_KEYS = new Set(['abortSignal', 'httpOptions']);
+
+function toSystemInstruction(value: unknown): GeminiContent {
+    if (typeof value === 'string') return { role: 'user', parts: [{ text: value }] };
+    if (Array.isArray(value)) {
+        return { role: 'user', parts: value.map(part => typeof part === 'string' ? { text: part } : part as GeminiPart) };
+    }
+    const record = value as Record<string, unknown>;
+    return 'parts' in record ? record as GeminiContent : { role: 'user', parts: [record as GeminiPart] };
+}
+
+/**
+ * Lays out the SDK-shaped parameters produced by GeminiConverter as a Vertex REST request.
+ * The SDK flattens generation settings, tools and the system instruction into one `config`
+ * object; the REST API nests generation settings under `generationConfig`.
+ */
+export function toVertexRequest(params: GeminiGenerateParams): VertexGenerateContentRequest {
+    const request: VertexGenerateContentRequest = { contents: params.contents as GeminiContent[] };
+    const generationConfig: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(params.config ?? {})) {
+        if (value === undefined || CLIENT_ONLY_KEYS.has(key)) continue;
+        if (key === 'systemInstruction') {
+            request.systemInstruction = toSystemInstruction(value);
+        } else if (TOP_LEVEL_KEYS.has(key)) {
+            request[key as 'tools'] = value;
+        } else {
+            generationConfig[key] = value;
+        }
+    }
+
+    if (Object.keys(generationConfig).length > 0) request.generationConfig = generationConfig;
+    return request;
+}
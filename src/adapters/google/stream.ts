@@ -0,0 +1,22 @@
+import { parseServerSentEvents } from '../base/serverSentEvents.ts';
+import type { GeminiStreamChunk } from '../gemini/types.ts';
+
+/**
+ * Reads `streamGenerateContent?alt=sse` into the chunk shape GeminiStreamHandler consumes.
+ * Vertex reports failures after the stream has started as an `error` payload, which is thrown
+ * with its HTTP-equivalent code so the Gemini error mapping can classify it.
+ */
+export async function* parseVertexStream(
+    body: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>
+): AsyncGenerator<GeminiStreamChunk> {
+    for await (const event of parseServerSentEvents(body)) {
+        const record = event as Record<string, unknown>;
+        const error = record.error as Record<string, unknown> | undefined;
+        if (error) {
+            throw Object.assign(new Error(String(error.message ?? 'Vertex AI stream error')), {
+                status: error.code
+            });
+        }
+        yield event as GeminiStreamChunk;
+    }
+}
@@ -4,6 +4,10 @@ import { VeniceAdapter } from './venice/adapter.ts';
 import { OpenRouterAdapter } from './openrouter/adapter.ts';
 import { GeminiAdapter } from './gemini/adapter.ts';
 import { SiliconFlowAdapter } from './siliconflow/adapter.ts';
+import { AnthropicAdapter } from './anthropic/adapter.ts';
+import { OpenAICompatibleAdapter } from './openai-compatible/adapter.ts';
+import { BedrockAdapter } from './aws/adapter.ts';
+import { VertexAdapter } from './google/adapter.ts';
 import type { AdapterConstructor } from './types.ts';
 import { ProviderNotFoundError } from './types.ts';
 
@@ -20,6 +24,10 @@ const ADAPTER_REGISTRY = {
     'openrouter': OpenRouterAdapter as AdapterConstructor,
     'gemini': GeminiAdapter as AdapterConstructor,
     'siliconflow': SiliconFlowAdapter as AdapterConstructor,
+    'anthropic': AnthropicAdapter as AdapterConstructor,
+    'openai-compatible': OpenAICompatibleAdapter as AdapterConstructor,
+    'bedrock': BedrockAdapter as AdapterConstructor,
+    'vertex': VertexAdapter as AdapterConstructor,
 } as const;
 
 export const adapterRegistry = new Map<string, AdapterConstructor>(
@@ -0,0 +1,148 @@
+import OpenAI from 'openai';
+import type {
+    ChatCompletionCreateParamsNonStreaming,
+    ChatCompletionCreateParamsStreaming
+} from 'openai/resources/chat/completions';
+import { BaseAdapter, type AdapterConfig } from '../base/baseAdapter.ts';
+import type { LLMProvider } from '../../interfaces/LLMProvider.ts';
+import type {
+    UniversalChatParams,
+    UniversalChatResponse,
+    UniversalStreamResponse
+} from '../../interfaces/UniversalInterfaces.ts';
+import type { LLMExecutionControl } from '../../interfaces/ExecutionInterfaces.ts';
+import { resolveLLMCancellationError } from '../../core/execution/errors.ts';
+import { ModelManager } from '../../core/models/ModelManager.ts';
+import { TokenCalculator } from '../../core/models/TokenCalculator.ts';
+import type { RegisteredProviders } from '../index.ts';
+import { logger } from '../../utils/logger.ts';
+import { OpenAICompatibleConverter } from './converter.ts';
+import { OpenAICompatibleStreamHandler } from './stream.ts';
+import {
+    mapOpenAICompatibleError,
+    OpenAICompatibleAdapterError
+} from './errors.ts';
+import { NO_API_KEY, resolveOpenAICompatibleBaseUrl } from './models.ts';
+import type {
+    OpenAICompatibleChatCompletion,
+    OpenAICompatibleCreateParams
+} from './types.ts';
+
+/**
+ * Adapter for self-hosted servers that speak the OpenAI Chat Completions protocol
+ * (Ollama, llama.cpp server, vLLM, LM Studio). It has no built-in catalog: models come from
+ * `config.models`, e.g. the result of `discoverOpenAICompatibleModels`.
+ */
+export class OpenAICompatibleAdapter extends BaseAdapter implements LLMProvider {
+    private readonly client: OpenAI;
+    private readonly converter: OpenAICompatibleConverter;
+    private readonly modelManager: ModelManager;
+    private readonly tokenCalculator: TokenCalculator;
+    private streamHandler?: OpenAICompatibleStreamHandler;
+
+    constructor(config: Partial<AdapterConfig> | string = {}) {
+        const configObject = typeof config === 'string' ? { apiKey: config } : config;
+        const baseUrl = resolveOpenAICompatibleBaseUrl(configObject.baseUrl);
+        if (!baseUrl) {
+            throw new OpenAICompatibleAdapterError(
+                'OpenAI-compatible base URL is required. Provide it in config or set OPENAI_COMPATIBLE_BASE_URL.'
+            );
+        }
+
+        super({
+            apiKey: configObject.apiKey || process.env.OPENAI_COMPATIBLE_API_KEY || NO_API_KEY,
+            baseUrl,
+            organization: configObject.organization
+        });
+
+        this.client = new OpenAI({
+            apiKey: this.config.apiKey,
+            baseURL: this.config.baseUrl
+        });
+        this.modelManager = new ModelManager('openai-compatible' as RegisteredProviders, configObject.models);
+        this.tokenCalculator = new TokenCalculator();
+        this.converter = new OpenAICompatibleConverter(this.modelManager);
+    }
+
+    async chatCall(
+        model: string,
+        params: UniversalChatParams,
+        control?: LLMExecutionControl
+    ): Promise<UniversalChatResponse> {
+        const log = logger.createLogger({ prefix: 'OpenAICompatibleAdapter.chatCall' });
+        const providerParams = await this.converter.convertToProviderParams(model, params);
+        providerParams.stream = false;
+        log.debug('Calling OpenAI-compatible chat completions:', providerParams);
+
+        try {
+            const request = providerParams as unknown as ChatCompletionCreateParamsNonStreaming;
+            const response = control?.signal
+                ? await this.client.chat.completions.create(request, { signal: control.signal })
+                : await this.client.chat.completions.create(request);
+            return this.converter.convertFromProviderResponse(
+                response as unknown as OpenAICompatibleChatCompletion,
+                model
+            );
+        } catch (error: unknown) {
+            const cancellation = resolveLLMCancellationError(error, control?.signal);
+            if (cancellation) throw cancellation;
+            const mapped = mapOpenAICompatibleError(error);
+            log.error('API call failed:', mapped);
+            throw mapped;
+        }
+    }
+
+    async streamCall(
+        model: string,
+        params: UniversalChatParams,
+        control?: LLMExecutionControl
+    ): Promise<AsyncIterable<UniversalStreamResponse>> {
+        const log = logger.createLogger({ prefix: 'OpenAICompatibleAdapter.streamCall' });
+        const providerParams = await this.converter.convertToProviderParams(
+            model,
+            params,
+            { stream: true }
+        );
+        log.debug('Calling OpenAI-compatible streaming chat completions:', providerParams);
+
+        try {
+            const request = providerParams as unknown as ChatCompletionCreateParamsStreaming;
+            const stream = control?.signal
+                ? await this.client.chat.completions.create(request, { signal: control.signal })
+                : await this.client.chat.completions.create(request);
+            this.streamHandler = new OpenAICompatibleStreamHandler(
+                this.converter,
+                this.tokenCalculator,
+                model
+            );
+            return this.streamHandler.handleStream(stream as unknown as AsyncIterable<unknown>);
+        } catch (error: unknown) {
+            const cancellation = resolveLLMCancellationError(error, control?.signal);
+            if (cancellation) throw cancellation;
+            const mapped = mapOpenAICompatibleError(error);
+            log.error('Streaming API call failed:', mapped);
+            throw mapped;
+        }
+    }
+
+    async convertToProviderParams(
+        model: string,
+        params: UniversalChatParams
+    ): Promise<OpenAICompatibleCreateParams> {
+        return this.converter.convertToProviderParams(model, params);
+    }
+
+    convertFromProviderResponse(response: unknown): UniversalChatResponse {
+        return this.converter.convertFromProviderResponse(response);
+    }
+
+    convertFromProviderStreamResponse(response: unknown): UniversalStreamResponse {
+        return this.streamHandler?.minimalConvert(response) ?? {
+            content: '',
+            role: 'assistant',
+            isComplete: false
+        };
+    }
+}
+
+export default OpenAICompatibleAdapter;
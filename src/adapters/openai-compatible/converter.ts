@@ -0,0 +1,363 @@
+import type {
+    ModelInfo,
+    JSONSchemaDefinition,
+    ReasoningEffort,
+    ResponseFormat,
+    UniversalChatParams,
+    UniversalChatResponse,
+    UniversalMessage,
+    Usage
+} from '../../interfaces/UniversalInterfaces.ts';
+import { FinishReason } from '../../interfaces/UniversalInterfaces.ts';
+import { ModelManager } from '../../core/models/ModelManager.ts';
+import { SchemaSanitizer } from '../../core/schema/SchemaSanitizer.ts';
+import { SchemaValidator } from '../../core/schema/SchemaValidator.ts';
+import { calculateCacheSavings } from '../../core/telemetry/UsageNormalizer.ts';
+import type { ToolCall, ToolDefinition } from '../../types/tooling.ts';
+import { logger } from '../../utils/logger.ts';
+import { OpenAICompatibleValidationError } from './errors.ts';
+import type {
+    OpenAICompatibleChatCompletion,
+    OpenAICompatibleCreateParams,
+    OpenAICompatibleMessage,
+    OpenAICompatibleTool,
+    OpenAICompatibleToolCall
+} from './types.ts';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object';
+
+export class OpenAICompatibleConverter {
+    constructor(private readonly modelManager: ModelManager) {}
+
+    async convertToProviderParams(
+        model: string,
+        params: UniversalChatParams,
+        options?: { stream?: boolean }
+    ): Promise<OpenAICompatibleCreateParams> {
+        const log = logger.createLogger({ prefix: 'OpenAICompatibleConverter.convertToProviderParams' });
+        const providerParams: OpenAICompatibleCreateParams = {
+            model,
+            messages: this.mapMessages(params.messages),
+            stream: options?.stream === true
+        };
+
+        const settings = params.settings;
+        if (settings) {
+            if (settings.temperature !== undefined) providerParams.temperature = settings.temperature;
+            if (settings.topP !== undefined) providerParams.top_p = settings.topP;
+            if (settings.maxTokens !== undefined) providerParams.max_tokens = settings.maxTokens;
+            if (settings.frequencyPenalty !== undefined) providerParams.frequency_penalty = settings.frequencyPenalty;
+            if (settings.presencePenalty !== undefined) providerParams.presence_penalty = settings.presencePenalty;
+            if (settings.stop !== undefined) providerParams.stop = settings.stop;
+            if (settings.n !== undefined) providerParams.n = settings.n;
+            if (settings.user !== undefined) providerParams.user = settings.user;
+            if (settings.logitBias !== undefined) providerParams.logit_bias = settings.logitBias;
+            // The API rejects tool_choice without tools
+            if (settings.toolChoice !== undefined && params.tools?.length) providerParams.tool_choice = settings.toolChoice;
+
+            this.mapReasoningSettings(model, settings.reasoning?.effort, providerParams);
+            this.mapVerbosity(model, settings.verbosity, settings.maxTokens, providerParams);
+
+            const serverOptions = settings.providerOptions?.['openai-compatible'];
+            if (isRecord(serverOptions)) {
+                Object.assign(providerParams, serverOptions);
+                providerParams.model = model;
+                providerParams.messages = this.mapMessages(params.messages);
+                providerParams.stream = options?.stream === true;
+            }
+        }
+
+        if (params.tools?.length) {
+            providerParams.tools = params.tools.map(tool => this.mapTool(tool));
+        }
+
+        if (
+            (params.jsonSchema || this.isJsonMode(params.responseFormat)) &&
+            this.supportsNativeJson(model)
+        ) {
+            // JSON object mode is the common denominator across vLLM, llama.cpp and Ollama;
+            // the schema itself travels in the prompt and is enforced by core validation.
+            providerParams.response_format = { type: 'json_object' };
+        }
+
+        if (params.jsonSchema && !this.hasFormatInstruction(params.messages)) {
+            providerParams.messages = [
+                this.createSchemaInstruction(params.jsonSchema.schema),
+                ...providerParams.messages
+            ];
+        }
+
+        if (options?.stream) {
+            providerParams.stream_options = { include_usage: true };
+        }
+
+        log.debug('Provider params prepared:', providerParams);
+        return providerParams;
+    }
+
+    convertFromProviderResponse(response: unknown, requestedModel?: string): UniversalChatResponse {
+        if (!isRecord(response) || !Array.isArray(response.choices) || response.choices.length === 0) {
+            throw new OpenAICompatibleValidationError('OpenAI-compatible server returned a response without choices');
+        }
+
+        const completion = response as unknown as OpenAICompatibleChatCompletion;
+        const choice = completion.choices[0];
+        const message = choice.message;
+        const reasoning = message.reasoning_content || message.reasoning || undefined;
+        const model = requestedModel ?? completion.model;
+
+        return {
+            content: typeof message.content === 'string' ? message.content : null,
+            reasoning,
+            role: message.role || 'assistant',
+            toolCalls: this.mapProviderToolCalls(message.tool_calls),
+            metadata: {
+                finishReason: this.mapFinishReason(choice.finish_reason),
+                created: completion.created,
+                model: completion.model || model,
+                provider: 'openai-compatible',
+                usage: this.mapUsage(completion.usage, model)
+            }
+        };
+    }
+
+    mapUsage(usageValue: unknown, model: string): Usage | undefined {
+        if (!isRecord(usageValue)) return undefined;
+
+        const input = this.numberValue(usageValue.prompt_tokens);
+        const output = this.numberValue(usageValue.completion_tokens);
+        const total = this.numberValue(usageValue.total_tokens, input + output);
+        const promptDetails = isRecord(usageValue.prompt_tokens_details)
+            ? usageValue.prompt_tokens_details
+            : undefined;
+        const completionDetails = isRecord(usageValue.completion_tokens_details)
+            ? usageValue.completion_tokens_details
+            : undefined;
+        const cached = this.numberValue(promptDetails?.cached_tokens);
+        const reasoning = this.numberValue(completionDetails?.reasoning_tokens);
+        const modelInfo = this.modelManager.getModel(model);
+
+        return {
+            tokens: {
+                input: { total: input, cached },
+                output: { total: output, reasoning },
+                total
+            },
+            costs: this.calculateCosts(input, cached, output, reasoning, modelInfo)
+        };
+    }
+
+    mapFinishReason(reason: string | null | undefined): FinishReason {
+        switch (reason) {
+            case 'stop':
+            case 'eos':
+                return FinishReason.STOP;
+            case 'length': return FinishReason.LENGTH;
+            case 'tool_calls':
+            case 'function_call':
+                return FinishReason.TOOL_CALLS;
+            case 'content_filter': return FinishReason.CONTENT_FILTER;
+            default: return reason ? FinishReason.NULL : FinishReason.STOP;
+        }
+    }
+
+    private mapMessages(messages: UniversalMessage[]): OpenAICompatibleMessage[] {
+        return messages.map(message => {
+            const mapped: OpenAICompatibleMessage = {
+                role: this.mapRole(message.role),
+                content: message.content || (message.toolCalls?.length ? null : '')
+            };
+
+            if (message.name) mapped.name = message.name;
+            if (message.toolCallId) mapped.tool_call_id = message.toolCallId;
+            if (message.toolCalls?.length) {
+                mapped.tool_calls = message.toolCalls.map(toolCall =>
+                    this.mapUniversalToolCall(toolCall)
+                );
+            }
+
+            return mapped;
+        });
+    }
+
+    private mapRole(role: UniversalMessage['role']): OpenAICompatibleMessage['role'] {
+        if (role === 'developer') return 'system';
+        if (role === 'function') return 'tool';
+        return role;
+    }
+
+    private mapUniversalToolCall(
+        toolCall: NonNullable<UniversalMessage['toolCalls']>[number]
+    ): OpenAICompatibleToolCall {
+        if ('function' in toolCall) {
+            return {
+                id: toolCall.id,
+                type: 'function',
+                function: {
+                    name: toolCall.function.name,
+                    arguments: toolCall.function.arguments
+                }
+            };
+        }
+        return {
+            id: toolCall.id,
+            type: 'function',
+            function: {
+                name: toolCall.name,
+                arguments: JSON.stringify(toolCall.arguments)
+            }
+        };
+    }
+
+    private mapProviderToolCalls(
+        toolCalls: OpenAICompatibleToolCall[] | undefined
+    ): ToolCall[] | undefined {
+        if (!toolCalls?.length) return undefined;
+        return toolCalls.map(toolCall => ({
+            id: toolCall.id,
+            name: toolCall.function.name,
+            arguments: this.parseArguments(toolCall.function.arguments)
+        }));
+    }
+
+    private parseArguments(argumentsValue: string): Record<string, unknown> {
+        try {
+            const parsed: unknown = JSON.parse(argumentsValue);
+            return isRecord(parsed) ? parsed : { value: parsed };
+        } catch {
+            return { rawArguments: argumentsValue };
+        }
+    }
+
+    private mapTool(tool: ToolDefinition): OpenAICompatibleTool {
+        if (!tool.name || !tool.parameters) {
+            throw new OpenAICompatibleValidationError(
+                `Invalid tool definition: ${tool.name || 'unnamed tool'}`
+            );
+        }
+
+        const parameters = SchemaSanitizer.sanitize(
+            tool.parameters as unknown as Record<string, unknown>,
+            {
+                addHintsToDescriptions: true,
+                forceAllRequired: false,
+                forceNoAdditionalProps: false,
+                normalizeDefs: true,
+                stripMetaKeys: true,
+                stripCompositionKeywords: false
+            }
+        );
+
+        return {
+            type: 'function',
+            function: {
+                name: tool.name,
+                description: tool.description || undefined,
+                parameters
+            }
+        };
+    }
+
+    private mapReasoningSettings(
+        model: string,
+        effort: ReasoningEffort | undefined,
+        providerParams: OpenAICompatibleCreateParams
+    ): void {
+        if (!effort || !this.modelManager.getModel(model)?.capabilities?.reasoning) return;
+        providerParams.reasoning_effort = effort === 'minimal' ? 'low' : effort;
+    }
+
+    private mapVerbosity(
+        model: string,
+        verbosity: 'low' | 'medium' | 'high' | undefined,
+        explicitMaxTokens: number | undefined,
+        providerParams: OpenAICompatibleCreateParams
+    ): void {
+        if (!verbosity || explicitMaxTokens !== undefined) return;
+        const modelInfo = this.modelManager.getModel(model);
+        if (!modelInfo || modelInfo.capabilities?.reasoning) return;
+
+        const ratios = { low: 0.25, medium: 0.5, high: 0.75 } as const;
+        const minimums = { low: 256, medium: 512, high: 1024 } as const;
+        providerParams.max_tokens = Math.min(
+            modelInfo.maxResponseTokens,
+            Math.max(minimums[verbosity], Math.floor(modelInfo.maxResponseTokens * ratios[verbosity]))
+        );
+    }
+
+    private supportsNativeJson(model: string): boolean {
+        const text = this.modelManager.getModel(model)?.capabilities?.output?.text;
+        return typeof text === 'object' && text.textOutputFormats?.includes('json') === true;
+    }
+
+    private hasFormatInstruction(messages: UniversalMessage[]): boolean {
+        return messages.some(message =>
+            message.metadata?.isFormatInstruction === true ||
+            message.content.startsWith('Format instructions:')
+        );
+    }
+
+    private createSchemaInstruction(
+        schemaDefinition: JSONSchemaDefinition
+    ): OpenAICompatibleMessage {
+        const schema = SchemaValidator.getSchemaObject(schemaDefinition);
+        const sanitized = SchemaSanitizer.sanitize(
+            schema as Record<string, unknown>,
+            {
+                addHintsToDescriptions: true,
+                forceAllRequired: false,
+                forceNoAdditionalProps: false,
+                normalizeDefs: true,
+                stripMetaKeys: true,
+                stripCompositionKeywords: false
+            }
+        );
+        return {
+            role: 'system',
+            content: `Return only a JSON object that matches this JSON Schema:\n${JSON.stringify(sanitized)}`
+        };
+    }
+
+    private isJsonMode(format: ResponseFormat | undefined): boolean {
+        return format === 'json' ||
+            (typeof format === 'object' && format.type === 'json_object');
+    }
+
+    private calculateCosts(
+        input: number,
+        cached: number,
+        output: number,
+        reasoning: number,
+        modelInfo: ModelInfo | undefined
+    ): Usage['costs'] {
+        if (!modelInfo) {
+            return {
+                input: { total: 0, cached: 0 },
+                output: { total: 0, reasoning: 0 },
+                total: 0,
+                unit: 'USD'
+            };
+        }
+
+        const cachedPrice = modelInfo.inputCachedPricePerMillion;
+        const billableRegularInput = cachedPrice === undefined ? input : Math.max(0, input - cached);
+        const regularInputCost = billableRegularInput * modelInfo.inputPricePerMillion / 1_000_000;
+        const cachedCost = cachedPrice === undefined ? 0 : cached * cachedPrice / 1_000_000;
+        const inputCost = regularInputCost + cachedCost;
+        const cacheSavings = calculateCacheSavings(cached, modelInfo.inputPricePerMillion, cachedPrice);
+        const outputCost = output * modelInfo.outputPricePerMillion / 1_000_000;
+        const reasoningCost = reasoning * modelInfo.outputPricePerMillion / 1_000_000;
+
+        return {
+            input: { total: inputCost, cached: cachedCost, ...(cacheSavings > 0 ? { cacheSavings } : {}) },
+            output: { total: outputCost, reasoning: reasoningCost },
+            total: inputCost + outputCost,
+            unit: 'USD'
+        };
+    }
+
+    private numberValue(value: unknown, fallback = 0): number {
+        return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+    }
+}
@@ -0,0 +1,110 @@
+type ErrorRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): ErrorRecord | undefined =>
+    value !== null && typeof value === 'object' ? value as ErrorRecord : undefined;
+
+const getStatus = (error: unknown): number | undefined => {
+    const record = asRecord(error);
+    const response = asRecord(record?.response);
+    const status = record?.status ?? record?.statusCode ?? response?.status;
+    return typeof status === 'number' ? status : undefined;
+};
+
+const getMessage = (error: unknown): string => {
+    if (error instanceof Error && error.message) return error.message;
+    const record = asRecord(error);
+    const nestedError = asRecord(record?.error);
+    const message = record?.message ?? nestedError?.message;
+    return typeof message === 'string' ? message : 'Unknown OpenAI-compatible server error';
+};
+
+const getRetryAfter = (error: unknown): number | undefined => {
+    const record = asRecord(error);
+    const headers = asRecord(record?.headers) ?? asRecord(asRecord(record?.response)?.headers);
+    const raw = headers?.['retry-after'];
+    if (typeof raw === 'number') return raw;
+    if (typeof raw === 'string') {
+        const seconds = Number(raw);
+        return Number.isFinite(seconds) ? seconds : undefined;
+    }
+    return undefined;
+};
+
+export class OpenAICompatibleAdapterError extends Error {
+    constructor(message: string, public readonly cause?: unknown) {
+        super(message);
+        this.name = 'OpenAICompatibleAdapterError';
+    }
+}
+
+export class OpenAICompatibleAuthError extends OpenAICompatibleAdapterError {
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+        this.name = 'OpenAICompatibleAuthError';
+    }
+}
+
+export class OpenAICompatibleRateLimitError extends OpenAICompatibleAdapterError {
+    constructor(message: string, public readonly retryAfter?: number, cause?: unknown) {
+        super(message, cause);
+        this.name = 'OpenAICompatibleRateLimitError';
+    }
+}
+
+export class OpenAICompatibleValidationError extends OpenAICompatibleAdapterError {
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+        this.name = 'OpenAICompatibleValidationError';
+    }
+}
+
+export class OpenAICompatibleNetworkError extends OpenAICompatibleAdapterError {
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+        this.name = 'OpenAICompatibleNetworkError';
+    }
+}
+
+export class OpenAICompatibleServiceError extends OpenAICompatibleAdapterError {
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+        this.name = 'OpenAICompatibleServiceError';
+    }
+}
+
+export const mapOpenAICompatibleError = (error: unknown): OpenAICompatibleAdapterError => {
+    if (error instanceof OpenAICompatibleAdapterError) return error;
+
+    const status = getStatus(error);
+    const message = getMessage(error);
+    const lower = message.toLowerCase();
+
+    if (status === 401 || status === 403) {
+        return new OpenAICompatibleAuthError(`Authentication error: ${message}`, error);
+    }
+    if (status === 429 || lower.includes('rate limit')) {
+        return new OpenAICompatibleRateLimitError(
+            `Rate limit exceeded: ${message}`,
+            getRetryAfter(error),
+            error
+        );
+    }
+    if (status === 400 || status === 404 || status === 422) {
+        return new OpenAICompatibleValidationError(`Invalid request: ${message}`, error);
+    }
+    if (
+        lower.includes('econnrefused') ||
+        lower.includes('enotfound') ||
+        lower.includes('connection error') ||
+        lower.includes('fetch failed') ||
+        lower.includes('network') ||
+        lower.includes('timeout') ||
+        lower.includes('timed out')
+    ) {
+        return new OpenAICompatibleNetworkError(`Network error: ${message}`, error);
+    }
+    if (status !== undefined && status >= 500) {
+        return new OpenAICompatibleServiceError(`OpenAI-compatible server error (${status}): ${message}`, error);
+    }
+    return new OpenAICompatibleAdapterError(message, error);
+};
@@ -0,0 +1,160 @@
+import type { ModelCapabilities, ModelInfo } from '../../interfaces/UniversalInterfaces.ts';
+import { logger } from '../../utils/logger.ts';
+import {
+    mapOpenAICompatibleError,
+    OpenAICompatibleAdapterError,
+    OpenAICompatibleValidationError
+} from './errors.ts';
+import type { OpenAICompatibleModelEntry } from './types.ts';
+
+/** Placeholder bearer token for servers that do not check keys (llama.cpp's documented default). */
+export const NO_API_KEY = 'sk-no-key-required';
+
+/** Per-model overrides applied on top of the discovered entry and the shared defaults. */
+export type OpenAICompatibleModelOverrides = Partial<Omit<ModelInfo, 'name'>>;
+
+export type OpenAICompatibleDiscoveryOptions = {
+    /** Server base URL including the API prefix, e.g. `http://localhost:11434/v1`. Defaults to `OPENAI_COMPATIBLE_BASE_URL`. */
+    baseUrl?: string;
+    /** Defaults to `OPENAI_COMPATIBLE_API_KEY`; most local servers need none. */
+    apiKey?: string;
+    /** Pricing, limits, capabilities and characteristics applied to every discovered model. */
+    defaults?: OpenAICompatibleModelOverrides;
+    /** Overrides keyed by model ID. Models listed here but not served by `/models` are still registered. */
+    models?: Record<string, OpenAICompatibleModelOverrides>;
+    signal?: AbortSignal;
+};
+
+const DEFAULT_CAPABILITIES: ModelCapabilities = {
+    streaming: true,
+    toolCalls: false,
+    parallelToolCalls: false,
+    batchProcessing: false,
+    reasoning: false,
+    input: { text: true },
+    output: {
+        text: {
+            textOutputFormats: ['text', 'json'],
+            structuredOutputs: false
+        }
+    }
+};
+
+const DEFAULT_MODEL: Omit<ModelInfo, 'name'> = {
+    // Self-hosted inference has no per-token bill unless the caller supplies one.
+    inputPricePerMillion: 0,
+    outputPricePerMillion: 0,
+    maxRequestTokens: 8192,
+    maxResponseTokens: 4096,
+    capabilities: DEFAULT_CAPABILITIES,
+    characteristics: {
+        qualityIndex: 50,
+        outputSpeed: 50,
+        firstTokenLatency: 500
+    }
+};
+
+/**
+ * The `openai-compatible` provider has no built-in catalog. Pass the entries from
+ * {@link discoverOpenAICompatibleModels} to a caller's `providerModels` or an adapter's `models`.
+ */
+export const defaultModels: readonly ModelInfo[] = [];
+
+export const resolveOpenAICompatibleBaseUrl = (baseUrl?: string): string | undefined => {
+    const resolved = baseUrl || process.env.OPENAI_COMPATIBLE_BASE_URL;
+    return resolved ? resolved.replace(/\/+$/, '') : undefined;
+};
+
+/**
+ * Build a catalog entry for a served model from the shared defaults and its overrides.
+ */
+export function createOpenAICompatibleModelInfo(
+    name: string,
+    defaults: OpenAICompatibleModelOverrides = {},
+    overrides: OpenAICompatibleModelOverrides = {},
+    contextLength?: number
+): ModelInfo {
+    const maxRequestTokens = overrides.maxRequestTokens ??
+        contextLength ??
+        defaults.maxRequestTokens ??
+        DEFAULT_MODEL.maxRequestTokens;
+    return {
+        ...DEFAULT_MODEL,
+        ...defaults,
+        ...overrides,
+        name,
+        maxRequestTokens,
+        maxResponseTokens: Math.min(
+            overrides.maxResponseTokens ?? defaults.maxResponseTokens ?? DEFAULT_MODEL.maxResponseTokens,
+            maxRequestTokens
+        ),
+        capabilities: {
+            ...DEFAULT_CAPABILITIES,
+            ...defaults.capabilities,
+            ...overrides.capabilities
+        },
+        characteristics: {
+            ...DEFAULT_MODEL.characteristics,
+            ...defaults.characteristics,
+            ...overrides.characteristics
+        }
+    };
+}
+
+/**
+ * List the models served at `GET {baseUrl}/models` and build catalog entries for them.
+ * Nothing is registered globally; pass the result to the callers or adapters that use the server.
+ */
+export async function discoverOpenAICompatibleModels(
+    options: OpenAICompatibleDiscoveryOptions = {}
+): Promise<ModelInfo[]> {
+    const log = logger.createLogger({ prefix: 'discoverOpenAICompatibleModels' });
+    const baseUrl = resolveOpenAICompatibleBaseUrl(options.baseUrl);
+    if (!baseUrl) {
+        throw new OpenAICompatibleAdapterError(
+            'OpenAI-compatible base URL is required. Provide baseUrl or set OPENAI_COMPATIBLE_BASE_URL.'
+        );
+    }
+    const apiKey = options.apiKey || process.env.OPENAI_COMPATIBLE_API_KEY || NO_API_KEY;
+
+    let entries: OpenAICompatibleModelEntry[];
+    try {
+        const response = await fetch(`${baseUrl}/models`, {
+            headers: { authorization: `Bearer ${apiKey}` },
+            signal: options.signal
+        });
+        const payload: unknown = await response.json().catch(() => undefined);
+        if (!response.ok) {
+            throw Object.assign(new Error(`Model discovery failed with HTTP ${response.status}`), {
+                status: response.status
+            });
+        }
+        const data = payload !== null && typeof payload === 'object'
+            ? (payload as Record<string, unknown>).data
+            : undefined;
+        if (!Array.isArray(data)) {
+            throw new OpenAICompatibleValidationError(`${baseUrl}/models did not return a model list`);
+        }
+        entries = data.filter((entry): entry is OpenAICompatibleModelEntry =>
+            entry !== null && typeof entry === 'object' && typeof (entry as Record<string, unknown>).id === 'string'
+        );
+    } catch (error: unknown) {
+        throw mapOpenAICompatibleError(error);
+    }
+
+    const overrides = options.models ?? {};
+    const models = entries.map(entry => createOpenAICompatibleModelInfo(
+        entry.id,
+        options.defaults,
+        overrides[entry.id],
+        entry.max_model_len ?? entry.context_length ?? entry.meta?.n_ctx_train
+    ));
+    for (const [name, modelOverrides] of Object.entries(overrides)) {
+        if (!models.some(model => model.name === name)) {
+            models.push(createOpenAICompatibleModelInfo(name, options.defaults, modelOverrides));
+        }
+    }
+
+    log.debug(`Discovered ${models.length} model(s) at ${baseUrl}`);
+    return models;
+}
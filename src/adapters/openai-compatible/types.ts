@@ -0,0 +1,87 @@
+import type { ChatCompletion, ChatCompletionChunk } from 'openai/resources/chat/completions';
+
+export type OpenAICompatibleRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export type OpenAICompatibleToolCall = {
+    id?: string;
+    type: 'function';
+    function: {
+        name: string;
+        arguments: string;
+    };
+};
+
+export type OpenAICompatibleMessage = {
+    role: OpenAICompatibleRole;
+    content: string | null;
+    name?: string;
+    tool_call_id?: string;
+    tool_calls?: OpenAICompatibleToolCall[];
+};
+
+export type OpenAICompatibleTool = {
+    type: 'function';
+    function: {
+        name: string;
+        description?: string;
+        parameters: Record<string, unknown>;
+    };
+};
+
+export type OpenAICompatibleCreateParams = {
+    model: string;
+    messages: OpenAICompatibleMessage[];
+    stream: boolean;
+    temperature?: number;
+    top_p?: number;
+    max_tokens?: number;
+    frequency_penalty?: number;
+    presence_penalty?: number;
+    stop?: string | string[];
+    n?: number;
+    user?: string;
+    logit_bias?: Record<string, number>;
+    tool_choice?: 'none' | 'auto' | { type: 'function'; function: { name: string } };
+    tools?: OpenAICompatibleTool[];
+    response_format?: { type: 'json_object' };
+    stream_options?: { include_usage: boolean };
+    reasoning_effort?: 'low' | 'medium' | 'high';
+    [key: string]: unknown;
+};
+
+/**
+ * Servers disagree on where reasoning goes: vLLM and llama.cpp use `reasoning_content`,
+ * Ollama uses `reasoning`.
+ */
+type ReasoningFields = {
+    reasoning_content?: string | null;
+    reasoning?: string | null;
+};
+
+export type OpenAICompatibleChatCompletion = ChatCompletion & {
+    choices: Array<ChatCompletion['choices'][number] & {
+        message: Omit<ChatCompletion['choices'][number]['message'], 'tool_calls'> & ReasoningFields & {
+            tool_calls?: OpenAICompatibleToolCall[];
+        };
+    }>;
+};
+
+export type OpenAICompatibleChatCompletionChunk = ChatCompletionChunk & {
+    choices: Array<ChatCompletionChunk['choices'][number] & {
+        delta: ChatCompletionChunk['choices'][number]['delta'] & ReasoningFields;
+    }>;
+};
+
+/**
+ * One entry of the `GET /v1/models` list. Only `id` is standard; the context-length fields are
+ * extensions reported by some servers (vLLM, llama.cpp, LM Studio).
+ */
+export type OpenAICompatibleModelEntry = {
+    id: string;
+    object?: string;
+    owned_by?: string;
+    max_model_len?: number;
+    context_length?: number;
+    meta?: { n_ctx_train?: number; [key: string]: unknown };
+    [key: string]: unknown;
+};
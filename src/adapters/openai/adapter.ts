@@ -22,7 +22,9 @@ import type {
     TranscriptionSegment,
     TranscriptionWord,
     TranscriptionLogprob,
-    TranscriptionChunkingStrategy
+    TranscriptionChunkingStrategy,
+    BatchJob,
+    BatchJobStatus
 } from '../../interfaces/UniversalInterfaces.ts';
 import { FinishReason } from '../../interfaces/UniversalInterfaces.ts';
 import { OpenAIResponseAdapterError, OpenAIResponseValidationError, OpenAIResponseAuthError, OpenAIResponseRateLimitError, OpenAIResponseNetworkError, OpenAIResponseServiceError } from './errors.ts';
@@ -52,7 +54,10 @@ import type {
     ImageOp,
     LLMProviderVideo,
     VideoCallParams,
-    LLMProviderAudio
+    LLMProviderAudio,
+    LLMProviderBatch,
+    ProviderBatchRequest,
+    ProviderBatchResult
 } from '../../interfaces/LLMProvider.ts';
 import { saveBase64ToFile } from '../../core/file-data/fileData.ts';
 import * as fs from 'fs';
@@ -63,6 +68,7 @@ import { normalizeUsage } from '../../core/telemetry/UsageNormalizer.ts';
 import type { UsageCallback } from '../../interfaces/UsageInterfaces.ts';
 import type { LLMExecutionControl } from '../../interfaces/ExecutionInterfaces.ts';
 import { resolveLLMCancellationError } from '../../core/execution/errors.ts';
+import { parseRateLimitHeaders } from '../../core/ratelimit/RateLimiter.ts';
 
 // Use the paths utility to get the directory name for resolving .env
 const adapterProjectRootForEnv = getDirname();
@@ -99,7 +105,7 @@ interface ExtendedImageCallParams extends BaseImageCallParams {
 /**
  * OpenAI Response Adapter implementing the OpenAI /v1/responses API endpoint
  */
-export class OpenAIResponseAdapter extends BaseAdapter implements LLMProviderImage, LLMProviderEmbedding, LLMProviderVideo, LLMProviderAudio {
+export class OpenAIResponseAdapter extends BaseAdapter implements LLMProviderImage, LLMProviderEmbedding, LLMProviderVideo, LLMProviderAudio, LLMProviderBatch {
     private client: OpenAI;
     private converter: Converter;
     private streamHandler: StreamHandler;
@@ -180,12 +186,19 @@ export class OpenAIResponseAdapter extends BaseAdapter implements LLMProviderIma
 
         try {
             // Use the SDK's responses.create method with native types
-            const response: Response = control?.signal
-                ? await this.client.responses.create(openAIParams, { signal: control.signal })
-                : await this.client.responses.create(openAIParams);
+            const request = control?.signal
+                ? this.client.responses.create(openAIParams, { signal: control.signal })
+                : this.client.responses.create(openAIParams);
+            // withResponse exposes the HTTP headers, which carry the rate-limit state
+            const { data: response, response: httpResponse }: { data: Response; response?: globalThis.Response } =
+                typeof request.withResponse === 'function'
+                    ? await request.withResponse()
+                    : { data: await request };
 
             // Convert the native response to UniversalChatResponse using our converter
             const universalResponse = this.converter.convertFromOpenAIResponse(response as any);
+            const rateLimit = parseRateLimitHeaders(httpResponse?.headers);
+            if (rateLimit) universalResponse.metadata = { ...universalResponse.metadata, rateLimit };
             log.debug('Converted response:', universalResponse);
             return universalResponse;
         } catch (error: any) {
@@ -202,7 +215,7 @@ export class OpenAIResponseAdapter extends BaseAdapter implements LLMProviderIma
                 } else if (error.status === 429) {
                     const retryAfter = error.headers?.['retry-after'];
                     throw new OpenAIResponseRateLimitError('Rate limit exceeded',
-                        retryAfter ? parseInt(retryAfter, 10) : 60);
+                        retryAfter ? parseInt(retryAfter, 10) : 60, error.headers);
                 } else if (error.status >= 500) {
                     throw new OpenAIResponseNetworkError(`OpenAI server error: ${error.message}`);
                 } else if (error.status === 400) {
@@ -393,7 +406,7 @@ export class OpenAIResponseAdapter extends BaseAdapter implements LLMProviderIma
                     throw new OpenAIResponseAuthError('Invalid API key or authentication error');
                 } else if (error.status === 429) {
                     const retryAfter = error.headers?.['retry-after'];
-                    throw new OpenAIResponseRateLimitError('Rate limit exceeded', retryAfter ? parseInt(retryAfter, 10) : 60);
+                    throw new OpenAIResponseRateLimitError('Rate limit exceeded', retryAfter ? parseInt(retryAfter, 10) : 60, error.headers);
                 } else if (error.status >= 500) {
                     throw new OpenAIResponseNetworkError(`OpenAI server error: ${error.message}`);
                 } else if (error.status === 400) {
@@ -433,6 +446,126 @@ export class OpenAIResponseAdapter extends BaseAdapter implements LLMProviderIma
         }
     }
 
+    /**
+     * Submits Responses API requests as a batch job: the requests are uploaded as a JSONL file
+     * and run within 24 hours. The model is kept in the job's metadata.
+     */
+    async batchSubmit(model: string, requests: ProviderBatchRequest[]): Promise<BatchJob> {
+        const log = logger.createLogger({ prefix: 'OpenAIResponseAdapter.batchSubmit' });
+        const lines = await Promise.all(requests.map(async request => {
+            this.validator.validateParams(request.params);
+            if (request.params.tools) this.validator.validateTools(request.params.tools);
+            return JSON.stringify({
+                custom_id: request.customId,
+                method: 'POST',
+                url: '/v1/responses',
+                body: await this.convertToProviderParams(model, request.params)
+            });
+        }));
+        try {
+            const file = await this.client.files.create({
+                file: await toFile(Buffer.from(lines.join('\n')), 'batch.jsonl', { type: 'application/jsonl' }),
+                purpose: 'batch'
+            });
+            const batch = await this.client.batches.create({
+                input_file_id: file.id,
+                endpoint: '/v1/responses',
+                completion_window: '24h',
+                metadata: { model }
+            });
+            log.debug('Created batch', { id: batch.id, requests: requests.length });
+            return this.toBatchJob(batch);
+        } catch (error: any) {
+            log.error('Submit batch failed:', error);
+            throw new OpenAIResponseAdapterError(`Submit batch failed: ${error?.message || String(error)}`);
+        }
+    }
+
+    async batchStatus(batchId: string): Promise<BatchJob> {
+        const log = logger.createLogger({ prefix: 'OpenAIResponseAdapter.batchStatus' });
+        try {
+            return this.toBatchJob(await this.client.batches.retrieve(batchId));
+        } catch (error: any) {
+            log.error('Retrieve batch failed:', error);
+            throw new OpenAIResponseAdapterError(`Retrieve batch failed: ${error?.message || String(error)}`);
+        }
+    }
+
+    async batchCancel(batchId: string): Promise<BatchJob> {
+        const log = logger.createLogger({ prefix: 'OpenAIResponseAdapter.batchCancel' });
+        try {
+            return this.toBatchJob(await this.client.batches.cancel(batchId));
+        } catch (error: any) {
+            log.error('Cancel batch failed:', error);
+            throw new OpenAIResponseAdapterError(`Cancel batch failed: ${error?.message || String(error)}`);
+        }
+    }
+
+    /** Reads the output and error files of a finished batch. */
+    async batchResults(batchId: string): Promise<ProviderBatchResult[]> {
+        const log = logger.createLogger({ prefix: 'OpenAIResponseAdapter.batchResults' });
+        let lines: string[];
+        try {
+            const batch = await this.client.batches.retrieve(batchId);
+            const fileIds = [batch.output_file_id, batch.error_file_id].filter((id): id is string => Boolean(id));
+            if (fileIds.length === 0) {
+                throw new Error(`batch is ${batch.status} and has no results`);
+            }
+            const files = await Promise.all(fileIds.map(async id => (await this.client.files.content(id)).text()));
+            lines = files.flatMap(file => file.split('\n')).filter(line => line.trim().length > 0);
+        } catch (error: any) {
+            log.error('Retrieve batch results failed:', error);
+            throw new OpenAIResponseAdapterError(`Retrieve batch results failed: ${error?.message || String(error)}`);
+        }
+
+        return lines.map(line => {
+            const result = JSON.parse(line) as {
+                custom_id: string;
+                response?: { status_code: number; body?: any } | null;
+                error?: { code?: string; message?: string } | null;
+            };
+            if (result.response?.status_code === 200) {
+                return { customId: result.custom_id, response: this.convertFromProviderResponse(result.response.body) };
+            }
+            const error = result.response?.body?.error ?? result.error;
+            return {
+                customId: result.custom_id,
+                error: {
+                    message: error?.message || `Request failed with status ${result.response?.status_code ?? 'unknown'}`,
+                    code: error?.code ?? (result.response ? String(result.response.status_code) : undefined)
+                }
+            };
+        });
+    }
+
+    private toBatchJob(batch: OpenAI.Batches.Batch): BatchJob {
+        const statuses: Record<OpenAI.Batches.Batch['status'], BatchJobStatus> = {
+            validating: 'queued',
+            in_progress: 'in_progress',
+            finalizing: 'finalizing',
+            completed: 'completed',
+            failed: 'failed',
+            expired: 'expired',
+            cancelling: 'cancelling',
+            cancelled: 'cancelled'
+        };
+        const errors = batch.errors?.data?.map(error => error.message).filter(Boolean);
+        return {
+            id: batch.id,
+            provider: 'openai',
+            model: batch.metadata?.model ?? batch.model ?? '',
+            status: statuses[batch.status] ?? 'in_progress',
+            requestCounts: {
+                total: batch.request_counts?.total ?? 0,
+                completed: batch.request_counts?.completed ?? 0,
+                failed: batch.request_counts?.failed ?? 0
+            },
+            createdAt: batch.created_at * 1000,
+            ...(batch.completed_at ? { completedAt: batch.completed_at * 1000 } : {}),
+            ...(errors?.length ? { error: errors.join('; ') } : {})
+        };
+    }
+
     async streamCall(model: string, params: UniversalChatParams, control?: LLMExecutionControl): Promise<AsyncIterable<UniversalStreamResponse>> {
         const log = logger.createLogger({ prefix: 'OpenAIResponseAdapter.streamCall' });
         log.debug('Validating universal params:', params);
@@ -489,7 +622,7 @@ export class OpenAIResponseAdapter extends BaseAdapter implements LLMProviderIma
                 } else if (error.status === 429) {
                     const retryAfter = error.headers?.['retry-after'];
                     throw new OpenAIResponseRateLimitError('Rate limit exceeded',
-                        retryAfter ? parseInt(retryAfter, 10) : 60);
+                        retryAfter ? parseInt(retryAfter, 10) : 60, error.headers);
                 } else if (error.status >= 500) {
                     throw new OpenAIResponseNetworkError(`OpenAI server error: ${error.message}`);
                 } else if (error.status === 400) {
@@ -798,7 +931,7 @@ export class OpenAIResponseAdapter extends BaseAdapter implements LLMProviderIma
                 if (error.status === 401) {
                     throw new OpenAIResponseAuthError('Invalid API key or authentication error');
                 } else if (error.status === 429) {
-                    throw new OpenAIResponseRateLimitError('Rate limit exceeded', error.headers?.['retry-after']);
+                    throw new OpenAIResponseRateLimitError('Rate limit exceeded', error.headers?.['retry-after'], error.headers);
                 } else if (error.status >= 500) {
                     throw new OpenAIResponseServiceError(`OpenAI service error: ${error.message}`);
                 } else {
@@ -1855,7 +1988,7 @@ export class OpenAIResponseAdapter extends BaseAdapter implements LLMProviderIma
                 } else if (error.status === 429) {
                     const retryAfter = error.headers?.['retry-after'];
                     throw new OpenAIResponseRateLimitError('Rate limit exceeded',
-                        retryAfter ? parseInt(retryAfter, 10) : 60);
+                        retryAfter ? parseInt(retryAfter, 10) : 60, error.headers);
                 } else if (error.status >= 500) {
                     throw new OpenAIResponseNetworkError(`OpenAI server error: ${error.message}`);
                 } else if (error.status === 400) {
@@ -2113,7 +2246,8 @@ export class OpenAIResponseAdapter extends BaseAdapter implements LLMProviderIma
                 const retryAfter = error.headers?.['retry-after'];
                 throw new OpenAIResponseRateLimitError(
                     'Rate limit exceeded',
-                    retryAfter ? parseInt(String(retryAfter), 10) : 60
+                    retryAfter ? parseInt(String(retryAfter), 10) : 60,
+                    error.headers
                 );
             }
             if (error.status !== undefined && error.status >= 500) {
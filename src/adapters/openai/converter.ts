@@ -7,6 +7,7 @@ import { logger } from '../../utils/logger.ts';
 import { SchemaValidator } from '../../core/schema/SchemaValidator.ts';
 import { SchemaFormatter, isZodSchema } from '../../core/schema/SchemaFormatter.ts';
 import { SchemaSanitizer } from '../../core/schema/SchemaSanitizer.ts';
+import { createPromptCacheKey, findPromptCacheBreakpoint } from '../../core/cache/PromptCacheHints.ts';
 import { z } from 'zod';
 import type {
     ResponseCreateParams,
@@ -537,6 +538,12 @@ export class Converter {
         if (params.settings?.user) {
             openAIParams.user = params.settings.user;
         }
+        // OpenAI caches prompt prefixes on its own; a key shared by requests with the same
+        // cached prefix routes them to the same cache.
+        const cacheBreakpoint = findPromptCacheBreakpoint(params);
+        if (cacheBreakpoint) {
+            openAIParams.prompt_cache_key = createPromptCacheKey(model, params, cacheBreakpoint);
+        }
         // Setup metadata
         openAIParams.metadata = {};
 
@@ -24,13 +24,16 @@ export class OpenAIResponseValidationError extends OpenAIResponseAdapterError {
 }
 
 export class OpenAIResponseRateLimitError extends OpenAIResponseAdapterError {
-    constructor(message: string, retryAfter?: number) {
+    constructor(message: string, retryAfter?: number, headers?: unknown) {
         super(message);
         this.name = 'OpenAIResponseRateLimitError';
         this.retryAfter = retryAfter;
+        this.headers = headers;
     }
 
     retryAfter?: number;
+    // Response headers of the 429, read by the rate limiter
+    headers?: unknown;
 }
 
 export class OpenAIResponseAuthError extends OpenAIResponseAdapterError {
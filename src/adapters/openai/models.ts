@@ -9,6 +9,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 5.0,
         inputCachedPricePerMillion: 0.50,
         outputPricePerMillion: 30.0,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         capabilities: {
             streaming: true,
             toolCalls: true,
@@ -38,6 +39,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 5.0,
         inputCachedPricePerMillion: 0.50,
         outputPricePerMillion: 30.0,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         capabilities: {
             streaming: true,
             toolCalls: true,
@@ -67,6 +69,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 2.50,
         inputCachedPricePerMillion: 0.25,
         outputPricePerMillion: 15.0,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         capabilities: {
             streaming: true,
             toolCalls: true,
@@ -96,6 +99,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 1.0,
         inputCachedPricePerMillion: 0.10,
         outputPricePerMillion: 6.0,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         capabilities: {
             streaming: true,
             toolCalls: true,
@@ -125,6 +129,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 5.0,
         inputCachedPricePerMillion: 0.50,
         outputPricePerMillion: 30.0,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         capabilities: {
             streaming: true,
             toolCalls: true,
@@ -154,6 +159,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 2.50,
         inputCachedPricePerMillion: 0.25,
         outputPricePerMillion: 15.0,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         capabilities: {
             streaming: true,
             toolCalls: true,
@@ -184,6 +190,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 0.75,
         inputCachedPricePerMillion: 0.075,
         outputPricePerMillion: 4.50,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         capabilities: {
             streaming: true,
             toolCalls: true,
@@ -213,6 +220,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 0.75,
         inputCachedPricePerMillion: 0.075,
         outputPricePerMillion: 4.50,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         capabilities: {
             streaming: true,
             toolCalls: true,
@@ -242,6 +250,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 1.75,
         inputCachedPricePerMillion: 0.175,
         outputPricePerMillion: 14.0,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         capabilities: {
             streaming: true,
             toolCalls: true,
@@ -271,6 +280,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 1.25,
         inputCachedPricePerMillion: 0.125,
         outputPricePerMillion: 10.0,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         capabilities: {
             streaming: true,
             toolCalls: true,
@@ -329,6 +339,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 1.25,
         inputCachedPricePerMillion: 0.125,
         outputPricePerMillion: 10.0,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         capabilities: {
             streaming: true,
             toolCalls: true,
@@ -419,6 +430,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 0.25,
         inputCachedPricePerMillion: 0.025,
         outputPricePerMillion: 2.0,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         capabilities: {
             streaming: true,
             toolCalls: true,
@@ -448,6 +460,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 0.05,
         inputCachedPricePerMillion: 0.005,
         outputPricePerMillion: 0.40,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         capabilities: {
             streaming: true,
             toolCalls: true,
@@ -505,6 +518,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 2.0,
         inputCachedPricePerMillion: 0.5,
         outputPricePerMillion: 8.0,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         capabilities: {
             streaming: true,
             toolCalls: true,
@@ -533,6 +547,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 1.10,
         inputCachedPricePerMillion: 0.275,
         outputPricePerMillion: 4.40,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         capabilities: {
             streaming: true,
             toolCalls: true,
@@ -562,6 +577,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 2.0,
         inputCachedPricePerMillion: 0.5,
         outputPricePerMillion: 8.0,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         capabilities: {
             streaming: true,
             toolCalls: true,
@@ -591,6 +607,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 0.10,
         inputCachedPricePerMillion: 0.025,
         outputPricePerMillion: 0.40,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         capabilities: {
             streaming: true,
             toolCalls: true,
@@ -877,6 +894,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 2.5,
         inputCachedPricePerMillion: 1.25,
         outputPricePerMillion: 10.0,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         capabilities: {
             streaming: true,
             toolCalls: true,
@@ -903,6 +921,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 0.15,
         inputCachedPricePerMillion: 0.075,
         outputPricePerMillion: 0.60,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         maxRequestTokens: 128000,
         maxResponseTokens: 16384,
         tokenizationModel: "gpt-4",
@@ -933,6 +952,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 1.10,
         inputCachedPricePerMillion: 0.55,
         outputPricePerMillion: 4.40,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         capabilities: {
             streaming: true,
             toolCalls: true,
@@ -959,6 +979,7 @@ export const defaultModels: ModelInfo[] = [
         inputPricePerMillion: 1.10,
         inputCachedPricePerMillion: 0.55,
         outputPricePerMillion: 4.40,
+        batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
         maxRequestTokens: 128000,
         maxResponseTokens: 65536,
         tokenizationModel: "gpt-4",
@@ -14,6 +14,7 @@ import { FinishReason } from '../../interfaces/UniversalInterfaces.ts';
 import { ModelManager } from '../../core/models/ModelManager.ts';
 import { SchemaSanitizer } from '../../core/schema/SchemaSanitizer.ts';
 import { SchemaValidator } from '../../core/schema/SchemaValidator.ts';
+import { calculateCacheSavings } from '../../core/telemetry/UsageNormalizer.ts';
 import type { ToolCall, ToolDefinition } from '../../types/tooling.ts';
 import { logger } from '../../utils/logger.ts';
 import { SiliconFlowValidationError } from './errors.ts';
@@ -167,7 +168,8 @@ export class SiliconFlowConverter {
             if (settings.n !== undefined) providerParams.n = settings.n;
             if (settings.user !== undefined) providerParams.user = settings.user;
             if (settings.logitBias !== undefined) providerParams.logit_bias = settings.logitBias;
-            if (settings.toolChoice !== undefined) providerParams.tool_choice = settings.toolChoice;
+            // The API rejects tool_choice without tools
+            if (settings.toolChoice !== undefined && params.tools?.length) providerParams.tool_choice = settings.toolChoice;
 
             this.mapReasoningSettings(model, settings.reasoning?.effort, providerParams);
             this.mapVerbosity(model, settings.verbosity, settings.maxTokens, providerParams);
@@ -481,11 +483,12 @@ export class SiliconFlowConverter {
         const regularInputCost = billableRegularInput * modelInfo.inputPricePerMillion / 1_000_000;
         const cachedCost = cachedPrice === undefined ? 0 : cached * cachedPrice / 1_000_000;
         const inputCost = regularInputCost + cachedCost;
+        const cacheSavings = calculateCacheSavings(cached, modelInfo.inputPricePerMillion, cachedPrice);
         const outputCost = output * modelInfo.outputPricePerMillion / 1_000_000;
         const reasoningCost = reasoning * modelInfo.outputPricePerMillion / 1_000_000;
 
         return {
-            input: { total: inputCost, cached: cachedCost },
+            input: { total: inputCost, cached: cachedCost, ...(cacheSavings > 0 ? { cacheSavings } : {}) },
             output: { total: outputCost, reasoning: reasoningCost },
             total: inputCost + outputCost,
             unit: 'USD'
@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+/**
+ * callllm-mcp: serves an LLMCaller as an MCP server.
+ *
+ *   callllm-mcp --provider openai --model balanced --tools-dir ./tools
+ *   callllm-mcp --provider openai --http --port 3000
+ *
+ * API keys are read from the environment (and a .env file) like for any LLMCaller.
+ */
+
+import { parseArgs } from 'node:util';
+import { LLMCaller } from '../core/caller/LLMCaller.ts';
+import { LLMCallerMCPServer, type LLMCallerMCPMethod } from '../core/mcp/LLMCallerMCPServer.ts';
+import type { RegisteredProviders } from '../adapters/index.ts';
+
+const USAGE = `Usage: callllm-mcp --provider <name> [options]
+
+Options:
+  --provider <name>     Provider of the caller, e.g. openai (required)
+  --model <name>        Model name or preset (default: balanced)
+  --system <message>    System message of the caller
+  --tools-dir <path>    Publish the tool functions of this folder
+  --methods <list>      Comma-separated caller methods to publish
+                        (default: call,embeddings,rerank,transcribe)
+  --no-tools            Do not publish local tools
+  --no-history          Do not expose the conversation history as resources
+  --audio-root <path>   Let the transcribe tool read local audio files in this folder
+  --http                Serve Streamable HTTP instead of stdio
+  --port <port>         HTTP port (default: 3000)
+  --host <host>         HTTP host (default: 127.0.0.1)
+  --path <path>         HTTP endpoint path (default: /mcp)
+  --allowed-hosts <list> Comma-separated host names accepted in Host and Origin
+                        headers (default: localhost and the --host)
+  --help                Show this help`;
+
+async function main(): Promise<void> {
+    const { values } = parseArgs({
+        options: {
+            provider: { type: 'string' },
+            model: { type: 'string', default: 'balanced' },
+            system: { type: 'string' },
+            'tools-dir': { type: 'string' },
+            methods: { type: 'string' },
+            'no-tools': { type: 'boolean', default: false },
+            'no-history': { type: 'boolean', default: false },
+            'audio-root': { type: 'string' },
+            http: { type: 'boolean', default: false },
+            port: { type: 'string', default: '3000' },
+            host: { type: 'string' },
+            path: { type: 'string' },
+            'allowed-hosts': { type: 'string' },
+            help: { type: 'boolean', default: false }
+        }
+    });
+
+    if (values.help || !values.provider) {
+        console.error(USAGE);
+        process.exit(values.help ? 0 : 1);
+    }
+
+    const caller = new LLMCaller(values.provider as RegisteredProviders, values.model, values.system, {
+        ...(values['tools-dir'] ? { toolsDir: values['tools-dir'] } : {})
+    });
+    const server = new LLMCallerMCPServer(caller, {
+        ...(values.methods !== undefined
+            ? { methods: values.methods.split(',').map(method => method.trim()).filter(Boolean) as LLMCallerMCPMethod[] }
+            : {}),
+        tools: !values['no-tools'],
+        history: !values['no-history'],
+        ...(values['audio-root'] ? { audioFileRoot: values['audio-root'] } : {})
+    });
+
+    const shutdown = async () => {
+        await server.close();
+        process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+
+    if (values.http) {
+        const { url } = await server.listenHttp({
+            port: Number.parseInt(values.port, 10),
+            ...(values.host ? { host: values.host } : {}),
+            ...(values.path ? { path: values.path } : {}),
+            ...(values['allowed-hosts'] !== undefined
+                ? { allowedHosts: values['allowed-hosts'].split(',').map(host => host.trim()).filter(Boolean) }
+                : {})
+        });
+        console.error(`callllm MCP server listening on ${url}`);
+    } else {
+        await server.listenStdio();
+    }
+}
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
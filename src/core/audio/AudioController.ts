@@ -15,6 +15,7 @@ import type { UsageCallback } from '../../interfaces/UsageInterfaces.ts';
 import { UsageTracker } from '../telemetry/UsageTracker.ts';
 import { normalizeUsage } from '../telemetry/UsageNormalizer.ts';
 import { TokenCalculator } from '../models/TokenCalculator.ts';
+import type { RateLimitBinding } from '../ratelimit/RateLimitScheduler.ts';
 import * as path from 'path';
 import {
     assertFfmpegAvailable,
@@ -40,7 +41,8 @@ export class AudioController {
         private modelManager: ModelManager,
         private tokenCalculator: TokenCalculator,
         private globalUsageCallback?: UsageCallback,
-        private callerId?: string
+        private callerId?: string,
+        private rateLimit?: RateLimitBinding
     ) {
         this.usageTracker = new UsageTracker(
             this.tokenCalculator,
@@ -123,7 +125,7 @@ export class AudioController {
             throw new CapabilityError('Provider does not support audio operations');
         }
         try {
-            const response = await this.adapter.audioCall(params.model, 'transcribe', params) as TranscriptionResponse;
+            const response = await this.audioCall(params.model, 'transcribe', params) as TranscriptionResponse;
             if (dispatchUsage) {
                 await this.dispatchUsageCallbacks(params.usageCallback, response.usage);
             }
@@ -142,7 +144,7 @@ export class AudioController {
             throw new CapabilityError('Provider does not support audio operations');
         }
         try {
-            const response = await this.adapter.audioCall(params.model, 'translate', params);
+            const response = await this.audioCall(params.model, 'translate', params);
             await this.dispatchUsageCallbacks(params.usageCallback, response.usage);
             this.log.info('Audio translation completed', { model: params.model, textLength: (response as TranslationResponse).text?.length });
             return response as TranslationResponse;
@@ -159,7 +161,7 @@ export class AudioController {
             throw new CapabilityError('Provider does not support audio operations');
         }
         try {
-            const response = await this.adapter.audioCall(params.model, 'synthesize', params) as SpeechResponse;
+            const response = await this.audioCall(params.model, 'synthesize', params) as SpeechResponse;
             const normalizedOutput = await this.normalizeSpeechOutput(response, params);
             const normalized = await this.ensureSpeechOutputDuration(normalizedOutput);
             await this.dispatchUsageCallbacks(params.usageCallback, normalized.usage);
@@ -174,6 +176,21 @@ export class AudioController {
         }
     }
 
+    /**
+     * Send one audio request, waiting for a turn with the provider's rate limits.
+     * Audio requests count against the request limit only.
+     */
+    private audioCall(
+        model: string,
+        op: AudioOp,
+        params: TranscriptionParams | TranslationParams | SpeechParams
+    ): Promise<TranscriptionResponse | TranslationResponse | SpeechResponse> {
+        const send = () => this.adapter.audioCall!(model, op, params);
+        return this.rateLimit
+            ? this.rateLimit.scheduler.run({ provider: this.rateLimit.provider, model }, {}, send)
+            : send();
+    }
+
     private async dispatchUsageCallbacks(
         perCallCallback: UsageCallback | undefined,
         usage: TranscriptionResponse['usage']
@@ -0,0 +1,220 @@
+import type { LLMProviderBatch, ProviderBatchResult } from '../../interfaces/LLMProvider.ts';
+import type {
+    BatchJob,
+    BatchResult,
+    ModelInfo,
+    UniversalChatParams,
+    UniversalChatResponse
+} from '../../interfaces/UniversalInterfaces.ts';
+import { logger } from '../../utils/logger.ts';
+import type { ProviderManager } from '../caller/ProviderManager.ts';
+import { CapabilityError } from '../models/CapabilityError.ts';
+import type { ModelManager } from '../models/ModelManager.ts';
+import { TokenCalculator } from '../models/TokenCalculator.ts';
+import { ResponseProcessor } from '../processors/ResponseProcessor.ts';
+import { PromptEnhancer } from '../prompt/PromptEnhancer.ts';
+import { UsageTracker } from '../telemetry/UsageTracker.ts';
+
+/** A batch request whose messages, settings and model the caller has resolved. */
+export type PreparedBatchRequest = {
+    customId: string;
+    params: UniversalChatParams;
+};
+
+type BatchJobRecord = {
+    provider: LLMProviderBatch;
+    modelInfo: ModelInfo;
+    requests: Map<string, UniversalChatParams>;
+};
+
+/** Token prices of a model for Batch API requests. */
+export const withBatchPricing = (modelInfo: ModelInfo): ModelInfo => {
+    const pricing = modelInfo.batchPricing;
+    if (!pricing) return modelInfo;
+    return {
+        ...modelInfo,
+        inputPricePerMillion: modelInfo.inputPricePerMillion * pricing.inputFactor,
+        inputCachedPricePerMillion: modelInfo.inputCachedPricePerMillion === undefined
+            ? undefined
+            : modelInfo.inputCachedPricePerMillion * pricing.inputFactor,
+        outputPricePerMillion: modelInfo.outputPricePerMillion * pricing.outputFactor
+    };
+};
+
+/**
+ * Submits requests to a provider's Batch API and turns its results into responses the way
+ * ChatController does: the same JSON-mode prompt enhancement on the way in, and the same
+ * parsing and schema validation on the way out. Usage is priced at the model's batch prices.
+ *
+ * The requests of jobs submitted through this controller are remembered, so their results can
+ * be validated later. Results of other jobs are validated against the requests passed to
+ * {@link results}, if any.
+ */
+export class BatchController {
+    private readonly log = logger.createLogger({ prefix: 'BatchController' });
+    private readonly jobs = new Map<string, BatchJobRecord>();
+    private readonly usageTracker: UsageTracker;
+
+    constructor(
+        private readonly providerManager: ProviderManager,
+        private readonly getModelManager: () => ModelManager,
+        private readonly responseProcessor: ResponseProcessor,
+        tokenCalculator: TokenCalculator
+    ) {
+        this.usageTracker = new UsageTracker(tokenCalculator);
+    }
+
+    async submit(requests: PreparedBatchRequest[]): Promise<BatchJob> {
+        if (requests.length === 0) {
+            throw new TypeError('A batch must contain at least one request');
+        }
+        const model = requests[0].params.model;
+        const customIds = new Set<string>();
+        for (const request of requests) {
+            if (request.params.model !== model) {
+                throw new TypeError(`All requests of a batch must use one model, got ${model} and ${request.params.model}`);
+            }
+            if (customIds.has(request.customId)) {
+                throw new TypeError(`Duplicate batch request customId: ${request.customId}`);
+            }
+            customIds.add(request.customId);
+        }
+
+        const provider = this.getProvider();
+        const modelInfo = this.getModelInfo(model);
+        const job = await provider.batchSubmit(model, requests.map(request => ({
+            customId: request.customId,
+            params: this.toProviderParams(request.params, modelInfo)
+        })));
+        this.jobs.set(job.id, {
+            provider,
+            modelInfo,
+            requests: new Map(requests.map(request => [request.customId, request.params]))
+        });
+        this.log.info(`Submitted batch ${job.id} with ${requests.length} requests to ${model}`);
+        return job;
+    }
+
+    async status(batchId: string): Promise<BatchJob> {
+        return (this.jobs.get(batchId)?.provider ?? this.getProvider()).batchStatus(batchId);
+    }
+
+    async cancel(batchId: string): Promise<BatchJob> {
+        return (this.jobs.get(batchId)?.provider ?? this.getProvider()).batchCancel(batchId);
+    }
+
+    /**
+     * Results of a finished job in the order its requests were submitted, when that is known.
+     * @param requests The job's requests, for jobs submitted by another caller or process
+     */
+    async results(batchId: string, requests?: PreparedBatchRequest[]): Promise<BatchResult[]> {
+        const record = this.jobs.get(batchId);
+        const provider = record?.provider ?? this.getProvider();
+        const modelInfo = record?.modelInfo
+            ?? this.getModelInfo(requests?.[0]?.params.model ?? (await provider.batchStatus(batchId)).model);
+        const params = requests
+            ? new Map(requests.map(request => [request.customId, request.params]))
+            : record?.requests;
+
+        const results = await provider.batchResults(batchId);
+        const order = new Map([...(params?.keys() ?? [])].map((customId, index) => [customId, index]));
+        const position = (customId: string) => order.get(customId) ?? order.size;
+        const sorted = [...results].sort((a, b) => position(a.customId) - position(b.customId));
+        return Promise.all(sorted.map(result => this.toBatchResult(result, params?.get(result.customId), modelInfo)));
+    }
+
+    private async toBatchResult(
+        result: ProviderBatchResult,
+        params: UniversalChatParams | undefined,
+        modelInfo: ModelInfo
+    ): Promise<BatchResult> {
+        if (!result.response) {
+            return { customId: result.customId, error: result.error ?? { message: 'The provider returned no response' } };
+        }
+        const response = this.priceUsage(result.response, modelInfo);
+        if (result.error) return { customId: result.customId, response, error: result.error };
+        if (!params) return { customId: result.customId, response };
+
+        const responseFormat = params.jsonSchema ? 'json' : params.responseFormat;
+        const { usePromptInjection, useSchemaInjection } = this.responseProcessor.validateJsonMode(modelInfo, params);
+        try {
+            const validated = await this.responseProcessor.validateResponse(
+                response,
+                {
+                    messages: [],
+                    model: params.model,
+                    settings: params.settings,
+                    jsonSchema: params.jsonSchema,
+                    responseFormat
+                },
+                modelInfo,
+                { usePromptInjection, useSchemaInjection }
+            );
+            const validationErrors = validated.metadata?.validationErrors ?? [];
+            return validationErrors.length > 0
+                ? {
+                    customId: result.customId,
+                    response: validated,
+                    error: {
+                        message: `Response does not match the schema: ${validationErrors.map(error => error.message).join('; ')}`,
+                        code: 'schema_validation'
+                    }
+                }
+                : { customId: result.customId, response: validated };
+        } catch (error) {
+            return {
+                customId: result.customId,
+                response,
+                error: { message: error instanceof Error ? error.message : String(error), code: 'invalid_response' }
+            };
+        }
+    }
+
+    /** Mirrors the request preparation of ChatController for a stateless request. */
+    private toProviderParams(params: UniversalChatParams, modelInfo: ModelInfo): UniversalChatParams {
+        const responseFormat = params.jsonSchema ? 'json' : params.responseFormat ?? 'text';
+        const { usePromptInjection, useSchemaInjection } = this.responseProcessor.validateJsonMode(modelInfo, params);
+        const systemMessage = params.messages.find(message => message.role === 'system')?.content ?? '';
+        const messages = responseFormat === 'json'
+            ? PromptEnhancer.enhanceMessages(
+                [
+                    { role: 'system', content: systemMessage },
+                    ...params.messages.filter(message => message.role !== 'system')
+                ],
+                {
+                    responseFormat: 'json',
+                    jsonSchema: params.jsonSchema,
+                    isNativeJsonMode: !usePromptInjection,
+                    isStructuredOutput: !useSchemaInjection
+                })
+            : params.messages;
+        return { ...params, messages, responseFormat };
+    }
+
+    private priceUsage(response: UniversalChatResponse, modelInfo: ModelInfo): UniversalChatResponse {
+        const usage = response.metadata?.usage;
+        if (!usage?.tokens) return response;
+        const costs = this.usageTracker.calculateCosts(
+            usage.tokens.input.total,
+            usage.tokens.output.total,
+            withBatchPricing(modelInfo),
+            usage.tokens.input.cached || 0,
+            usage.tokens.output.reasoning || 0
+        );
+        return { ...response, metadata: { ...response.metadata, usage: { ...usage, costs } } };
+    }
+
+    private getProvider(): LLMProviderBatch {
+        const provider = this.providerManager.getBatchProvider();
+        if (!provider) {
+            throw new CapabilityError(`Provider '${this.providerManager.getCurrentProviderName()}' does not support batch jobs`);
+        }
+        return provider;
+    }
+
+    private getModelInfo(model: string): ModelInfo {
+        const modelInfo = this.getModelManager().getModel(model);
+        if (!modelInfo) throw new Error(`Model ${model} not found`);
+        return modelInfo;
+    }
+}
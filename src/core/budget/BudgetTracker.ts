@@ -0,0 +1,211 @@
+import type { ModelInfo, Usage } from '../../interfaces/UniversalInterfaces.ts';
+import type { ModelPreset } from '../models/ModelSelection.ts';
+import { TokenCalculator } from '../models/TokenCalculator.ts';
+
+/**
+ * Spending limit for an LLMCaller or a single call. At least one of `maxCostUsd` and
+ * `maxTokens` is required.
+ */
+export type BudgetOptions = {
+    /** Maximum spend in USD, priced from ModelInfo. */
+    maxCostUsd?: number;
+    /** Maximum total tokens (input and output). */
+    maxTokens?: number;
+    /**
+     * Rolling window in milliseconds. Spending older than the window no longer counts.
+     * Without a window an LLMCaller budget covers the caller's lifetime and a per-call
+     * budget covers the call.
+     */
+    windowMs?: number;
+    /**
+     * Preset to resolve the call to when its first request would exceed the budget on the
+     * selected model, e.g. `'cheap'`. Without it, or when the cheaper model does not fit
+     * either, the call fails with BudgetExceededError.
+     */
+    downgradeTo?: ModelPreset;
+};
+
+/** 'mcpServer' is the sampling budget of an MCP server; see MCPSamplingConfig. */
+export type BudgetScope = 'caller' | 'call' | 'mcpServer';
+export type BudgetLimit = 'cost' | 'tokens';
+
+/** Cost and tokens of one or more requests. */
+export type BudgetAmount = {
+    costUsd: number;
+    tokens: number;
+};
+
+export class BudgetExceededError extends Error {
+    public readonly code = 'BUDGET_EXCEEDED' as const;
+    /** Which budget was exceeded: the LLMCaller one, the per-call one or an MCP server's sampling one. */
+    public readonly scope: BudgetScope;
+    public readonly limit: BudgetLimit;
+    /** The configured maximum, in USD or tokens. */
+    public readonly max: number;
+    /** Spending recorded within the window, plus estimates of requests still in flight. */
+    public readonly spent: number;
+    /** Estimated or running amount of the request that was stopped. */
+    public readonly requested: number;
+
+    constructor(details: { scope: BudgetScope; limit: BudgetLimit; max: number; spent: number; requested: number }) {
+        const format = (value: number) => details.limit === 'cost' ? `$${value.toFixed(6)}` : `${value} tokens`;
+        super(
+            `Budget exceeded: ${details.scope} ${details.limit} limit of ${format(details.max)} ` +
+            `(spent ${format(details.spent)}, request needs ${format(details.requested)})`
+        );
+        this.name = 'BudgetExceededError';
+        this.scope = details.scope;
+        this.limit = details.limit;
+        this.max = details.max;
+        this.spent = details.spent;
+        this.requested = details.requested;
+    }
+}
+
+export function validateBudgetOptions(options: BudgetOptions): BudgetOptions {
+    if (!options || typeof options !== 'object') {
+        throw new Error('budget must be an object');
+    }
+    for (const key of ['maxCostUsd', 'maxTokens', 'windowMs'] as const) {
+        const value = options[key];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value <= 0)) {
+            throw new Error(`budget.${key} must be a positive number`);
+        }
+    }
+    if (options.maxCostUsd === undefined && options.maxTokens === undefined) {
+        throw new Error('budget requires maxCostUsd or maxTokens');
+    }
+    return options;
+}
+
+/** Holds a request's estimate against its budgets until the request has finished. */
+export type BudgetReservation = {
+    release(): void;
+};
+
+/**
+ * Spending ledger for one budget. Entries are kept only as long as the window needs them.
+ * Requests in flight hold their estimate as a reservation, so concurrent requests, such as
+ * parallel chunks, cannot all pass the check before any of them has been recorded.
+ */
+export class BudgetTracker {
+    private entries: Array<BudgetAmount & { timestamp: number }> = [];
+    private readonly reservations = new Set<BudgetAmount>();
+
+    constructor(
+        public readonly options: BudgetOptions,
+        public readonly scope: BudgetScope
+    ) {
+        validateBudgetOptions(options);
+    }
+
+    getSpent(now = Date.now()): BudgetAmount {
+        if (this.options.windowMs !== undefined) {
+            const windowStart = now - this.options.windowMs;
+            this.entries = this.entries.filter(entry => entry.timestamp > windowStart);
+        }
+        return [...this.entries, ...this.reservations].reduce(
+            (total, entry) => ({ costUsd: total.costUsd + entry.costUsd, tokens: total.tokens + entry.tokens }),
+            { costUsd: 0, tokens: 0 }
+        );
+    }
+
+    /** The error the given amount would cause on top of the current spending, if any. */
+    findExceeded(amount: BudgetAmount): BudgetExceededError | undefined {
+        const spent = this.getSpent();
+        const { maxCostUsd, maxTokens } = this.options;
+        if (maxCostUsd !== undefined && spent.costUsd + amount.costUsd > maxCostUsd) {
+            return new BudgetExceededError({
+                scope: this.scope, limit: 'cost', max: maxCostUsd, spent: spent.costUsd, requested: amount.costUsd
+            });
+        }
+        if (maxTokens !== undefined && spent.tokens + amount.tokens > maxTokens) {
+            return new BudgetExceededError({
+                scope: this.scope, limit: 'tokens', max: maxTokens, spent: spent.tokens, requested: amount.tokens
+            });
+        }
+        return undefined;
+    }
+
+    record(amount: BudgetAmount): void {
+        if (amount.costUsd <= 0 && amount.tokens <= 0) return;
+        this.entries.push({ ...amount, timestamp: Date.now() });
+    }
+
+    reserve(amount: BudgetAmount): BudgetReservation {
+        const reservation = { ...amount };
+        this.reservations.add(reservation);
+        return { release: () => this.reservations.delete(reservation) };
+    }
+}
+
+/**
+ * The budgets one call is subject to: the LLMCaller budget, the per-call budget, or both.
+ * ChatController and StreamingService check it before every request of the call, including
+ * tool-loop resubmissions and chunks, and record the usage of every response.
+ */
+export class BudgetGuard {
+    private readonly tokenCalculator = new TokenCalculator();
+
+    constructor(private readonly trackers: BudgetTracker[]) { }
+
+    /**
+     * Estimate a request before it is sent: the prompt tokens plus, when the request caps
+     * its output, the maximum output, priced with the model's input and output prices.
+     */
+    estimate(messages: { role: string; content: string }[], modelInfo: ModelInfo, maxOutputTokens = 0): BudgetAmount {
+        return this.price(this.tokenCalculator.calculateTotalTokens(messages), maxOutputTokens, modelInfo);
+    }
+
+    price(inputTokens: number, outputTokens: number, modelInfo: ModelInfo): BudgetAmount {
+        const costs = this.tokenCalculator.calculateUsage(
+            inputTokens,
+            outputTokens,
+            modelInfo.inputPricePerMillion,
+            modelInfo.outputPricePerMillion
+        );
+        return { costUsd: costs.total, tokens: inputTokens + outputTokens };
+    }
+
+    findExceeded(amount: BudgetAmount): BudgetExceededError | undefined {
+        for (const tracker of this.trackers) {
+            const error = tracker.findExceeded(amount);
+            if (error) return error;
+        }
+        return undefined;
+    }
+
+    /** Throw BudgetExceededError if the amount does not fit every budget. */
+    check(amount: BudgetAmount): void {
+        const error = this.findExceeded(amount);
+        if (error) throw error;
+    }
+
+    /**
+     * Check the estimate of a request and hold it against every budget until the returned
+     * reservation is released, which the caller does once the request's usage is recorded.
+     */
+    reserve(amount: BudgetAmount): BudgetReservation {
+        this.check(amount);
+        const reservations = this.trackers.map(tracker => tracker.reserve(amount));
+        return { release: () => reservations.forEach(reservation => reservation.release()) };
+    }
+
+    /**
+     * The preset to switch to for a request that would exceed a budget, when that budget
+     * allows downgrading.
+     */
+    getDowngrade(amount: BudgetAmount): ModelPreset | undefined {
+        const tracker = this.trackers.find(candidate => candidate.findExceeded(amount));
+        return tracker?.options.downgradeTo;
+    }
+
+    record(amount: BudgetAmount): void {
+        for (const tracker of this.trackers) tracker.record(amount);
+    }
+
+    recordUsage(usage?: Usage): void {
+        if (!usage) return;
+        this.record({ costUsd: usage.costs?.total ?? 0, tokens: usage.tokens?.total ?? 0 });
+    }
+}
@@ -0,0 +1,77 @@
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { logger } from '../../utils/logger.ts';
+import type { ResponseCacheEntry, ResponseCacheStore } from './ResponseCache.ts';
+
+export type FileResponseCacheOptions = {
+    /** Directory holding one JSON file per entry. Created on first write. */
+    directory: string;
+    /** Entries older than this many milliseconds are treated as misses and removed. Entries never expire by default. */
+    ttlMs?: number;
+};
+
+const ENTRY_EXTENSION = '.json';
+
+/**
+ * Filesystem response cache that survives process restarts, e.g. across test runs or
+ * batch jobs. Each entry is written to a temporary file and renamed into place, so a
+ * concurrent reader never sees a partial entry. Unreadable entries count as misses.
+ */
+export class FileResponseCache implements ResponseCacheStore {
+    private readonly directory: string;
+    private readonly ttlMs?: number;
+    private readonly log = logger.createLogger({ prefix: 'FileResponseCache' });
+
+    constructor(options: FileResponseCacheOptions | string) {
+        const config = typeof options === 'string' ? { directory: options } : options;
+        this.directory = config.directory;
+        this.ttlMs = config.ttlMs;
+    }
+
+    async get(key: string): Promise<ResponseCacheEntry | undefined> {
+        let entry: ResponseCacheEntry;
+        try {
+            entry = JSON.parse(await readFile(this.pathFor(key), 'utf8')) as ResponseCacheEntry;
+        } catch (error: unknown) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                this.log.warn(`Ignoring unreadable cache entry ${key}:`, error);
+            }
+            return undefined;
+        }
+        if (this.ttlMs !== undefined && Date.now() - entry.createdAt > this.ttlMs) {
+            await this.delete(key);
+            return undefined;
+        }
+        return entry;
+    }
+
+    async set(key: string, entry: ResponseCacheEntry): Promise<void> {
+        await mkdir(this.directory, { recursive: true });
+        const path = this.pathFor(key);
+        const temporaryPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+        await writeFile(temporaryPath, JSON.stringify(entry), 'utf8');
+        await rename(temporaryPath, path);
+    }
+
+    async delete(key: string): Promise<void> {
+        await rm(this.pathFor(key), { force: true });
+    }
+
+    async clear(): Promise<void> {
+        let files: string[];
+        try {
+            files = await readdir(this.directory);
+        } catch (error: unknown) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+            throw error;
+        }
+        await Promise.all(files
+            .filter(file => file.endsWith(ENTRY_EXTENSION))
+            .map(file => rm(join(this.directory, file), { force: true })));
+    }
+
+    private pathFor(key: string): string {
+        // Keys from createResponseCacheKey are hex digests; encode anything else for safety.
+        return join(this.directory, `${encodeURIComponent(key)}${ENTRY_EXTENSION}`);
+    }
+}
@@ -0,0 +1,62 @@
+import { cloneCacheValue, type ResponseCacheEntry, type ResponseCacheStore } from './ResponseCache.ts';
+
+export type MemoryResponseCacheOptions = {
+    /**
+     * Maximum number of entries kept; the least recently used entry is evicted first.
+     * @default 1000
+     */
+    maxEntries?: number;
+    /** Entries older than this many milliseconds are treated as misses. Entries never expire by default. */
+    ttlMs?: number;
+};
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * In-process LRU response cache. Entries are copied on the way in and out, so callers
+ * can mutate the responses they receive without affecting later hits.
+ */
+export class MemoryResponseCache implements ResponseCacheStore {
+    private readonly entries = new Map<string, ResponseCacheEntry>();
+    private readonly maxEntries: number;
+    private readonly ttlMs?: number;
+
+    constructor(options: MemoryResponseCacheOptions = {}) {
+        this.maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+        this.ttlMs = options.ttlMs;
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    async get(key: string): Promise<ResponseCacheEntry | undefined> {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+        if (this.ttlMs !== undefined && Date.now() - entry.createdAt > this.ttlMs) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        // Re-insert to mark the entry as most recently used.
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return cloneCacheValue(entry);
+    }
+
+    async set(key: string, entry: ResponseCacheEntry): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, cloneCacheValue(entry));
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+    }
+}
@@ -0,0 +1,70 @@
+import { createHash } from 'node:crypto';
+import type { CacheControl, UniversalChatParams, UniversalMessage } from '../../interfaces/UniversalInterfaces.ts';
+import type { ToolDefinition } from '../../types/tooling.ts';
+
+/**
+ * The last cache hint in a request. Everything up to and including the marked item is the
+ * reusable prefix. `messageIndex` is -1 when only tool definitions carry a hint.
+ */
+export type PromptCacheBreakpoint = {
+    messageIndex: number;
+    ttl?: CacheControl['ttl'];
+};
+
+/**
+ * Normalize a `cacheControl` value: `true` or an object enables caching, anything else
+ * (including `false`) leaves it off. Unknown TTLs are dropped rather than rejected.
+ */
+export function resolveCacheControl(value: unknown): CacheControl | undefined {
+    if (value === true) return {};
+    if (value === null || typeof value !== 'object') return undefined;
+    const ttl = (value as Record<string, unknown>).ttl;
+    return ttl === '5m' || ttl === '1h' ? { ttl } : {};
+}
+
+/**
+ * Cache hint of a message. `metadata.cacheControl` predates the `cacheControl` field and
+ * is still honoured.
+ */
+export function getMessageCacheControl(message: UniversalMessage): CacheControl | undefined {
+    return resolveCacheControl(message.cacheControl ?? message.metadata?.cacheControl);
+}
+
+export function getToolCacheControl(tool: ToolDefinition): CacheControl | undefined {
+    return resolveCacheControl(tool.cacheControl);
+}
+
+/**
+ * Find the last cache hint in a request, for providers that cache one prefix per request
+ * rather than at every marked item. Tools render before messages, so a message hint wins.
+ */
+export function findPromptCacheBreakpoint(
+    params: Pick<UniversalChatParams, 'messages' | 'tools'>
+): PromptCacheBreakpoint | undefined {
+    for (let index = params.messages.length - 1; index >= 0; index--) {
+        const hint = getMessageCacheControl(params.messages[index]);
+        if (hint) return { messageIndex: index, ttl: hint.ttl };
+    }
+    const toolHint = [...(params.tools ?? [])].reverse().map(getToolCacheControl).find(Boolean);
+    return toolHint ? { messageIndex: -1, ttl: toolHint.ttl } : undefined;
+}
+
+/**
+ * Stable identifier for the cached prefix of a request: the model, the tool definitions and
+ * the messages up to the breakpoint. Requests sharing a prefix share a key, which providers
+ * such as OpenAI use to route them to the same cache.
+ */
+export function createPromptCacheKey(
+    model: string,
+    params: Pick<UniversalChatParams, 'messages' | 'tools'>,
+    breakpoint: PromptCacheBreakpoint
+): string {
+    const prefix = {
+        model,
+        tools: params.tools?.map(tool => [tool.name, tool.description, tool.parameters]),
+        messages: params.messages
+            .slice(0, breakpoint.messageIndex + 1)
+            .map(message => [message.role, message.content, message.name, message.toolCallId, message.toolCalls])
+    };
+    return createHash('sha256').update(JSON.stringify(prefix)).digest('hex').slice(0, 32);
+}
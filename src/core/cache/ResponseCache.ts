@@ -0,0 +1,170 @@
+import { createHash } from 'node:crypto';
+import type {
+    ResponseCacheMode,
+    UniversalChatParams,
+    UniversalChatResponse,
+    UniversalMessage,
+    UniversalStreamResponse,
+    Usage
+} from '../../interfaces/UniversalInterfaces.ts';
+import { FinishReason } from '../../interfaces/UniversalInterfaces.ts';
+import { isZodSchema } from '../schema/SchemaFormatter.ts';
+import { SchemaValidator } from '../schema/SchemaValidator.ts';
+import { logger } from '../../utils/logger.ts';
+
+/** Bump when the key layout changes so stale entries stop matching. */
+const CACHE_KEY_VERSION = 1;
+
+/** Settings that change how a request is retried, not what the model is asked. */
+const NON_KEY_SETTINGS = new Set(['maxRetries']);
+
+/**
+ * A stored provider response. Non-streaming calls keep the response object and streaming
+ * calls keep the provider chunks, so a hit replays through the same processing as a live call.
+ */
+export type ResponseCacheEntry =
+    | { kind: 'call'; createdAt: number; response: UniversalChatResponse }
+    | { kind: 'stream'; createdAt: number; chunks: UniversalStreamResponse[] };
+
+/**
+ * Storage backend for cached responses. Implement this to keep responses in Redis, a
+ * database, or anywhere else. Entries are plain JSON values.
+ */
+export type ResponseCacheStore = {
+    get(key: string): Promise<ResponseCacheEntry | undefined>;
+    set(key: string, entry: ResponseCacheEntry): Promise<void>;
+    delete?(key: string): Promise<void>;
+    clear?(): Promise<void>;
+};
+
+function canonicalize(value: unknown): unknown {
+    if (value === null || value === undefined) return value;
+    if (typeof value === 'function' || typeof value === 'symbol') return undefined;
+    if (typeof value === 'bigint') return value.toString();
+    if (typeof value !== 'object') return value;
+    if (value instanceof Date) return value.toISOString();
+    if (isZodSchema(value)) return canonicalize(SchemaValidator.getSchemaObject(value as never));
+    if (Array.isArray(value)) return value.map(item => canonicalize(item) ?? null);
+
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+        const entry = canonicalize((value as Record<string, unknown>)[key]);
+        if (entry !== undefined) result[key] = entry;
+    }
+    return result;
+}
+
+function normalizeMessage(message: UniversalMessage): Record<string, unknown> {
+    // Timestamps are bookkeeping; the rest of the metadata can reach the provider.
+    const { timestamp: _timestamp, ...metadata } = message.metadata ?? {};
+    return {
+        role: message.role,
+        content: message.content,
+        name: message.name,
+        toolCallId: message.toolCallId,
+        toolCalls: message.toolCalls,
+        metadata: Object.keys(metadata).length > 0 ? metadata : undefined
+    };
+}
+
+/**
+ * Stable key for a provider request: a SHA-256 hash over the provider, model, messages,
+ * settings, tool definitions and JSON schema, with object keys sorted and Zod schemas
+ * converted to JSON Schema. Calls and streams are keyed separately.
+ */
+export function createResponseCacheKey(
+    kind: ResponseCacheEntry['kind'],
+    provider: string,
+    params: UniversalChatParams
+): string {
+    const settings = Object.fromEntries(
+        Object.entries(params.settings ?? {}).filter(([name]) => !NON_KEY_SETTINGS.has(name))
+    );
+    const request = canonicalize({
+        version: CACHE_KEY_VERSION,
+        kind,
+        provider: provider.toLowerCase(),
+        model: params.model,
+        messages: params.messages.map(normalizeMessage),
+        settings,
+        tools: params.tools?.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters
+        })),
+        jsonSchema: params.jsonSchema,
+        responseFormat: params.responseFormat
+    });
+    return createHash('sha256').update(JSON.stringify(request)).digest('hex');
+}
+
+/** Cached responses cost nothing, so hits report zero tokens and zero cost. */
+export function createCacheHitUsage(): Usage {
+    return {
+        tokens: {
+            input: { total: 0, cached: 0 },
+            output: { total: 0, reasoning: 0 },
+            total: 0
+        },
+        costs: {
+            input: { total: 0, cached: 0 },
+            output: { total: 0, reasoning: 0 },
+            total: 0,
+            unit: 'USD'
+        }
+    };
+}
+
+export function shouldReadResponseCache(mode?: ResponseCacheMode): boolean {
+    return mode === undefined || mode === 'read';
+}
+
+export function shouldWriteResponseCache(mode?: ResponseCacheMode): boolean {
+    return mode === undefined || mode === 'write';
+}
+
+/**
+ * Whether a response may be stored. Responses that request tool calls are never cached,
+ * because replaying them would re-run the tools; the follow-up turn that carries the tool
+ * results is cacheable, since those results are part of its key.
+ */
+export function isCacheableResponse(response: UniversalChatResponse | UniversalStreamResponse): boolean {
+    const toolCallChunks = (response as UniversalStreamResponse).toolCallChunks;
+    return (response.toolCalls?.length ?? 0) === 0 &&
+        (toolCallChunks?.length ?? 0) === 0 &&
+        response.metadata?.finishReason !== FinishReason.TOOL_CALLS &&
+        response.metadata?.finishReason !== FinishReason.ERROR;
+}
+
+/** Entries are stored as JSON so every backend hands back an independent copy. */
+export function cloneCacheValue<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/**
+ * Look up an entry, treating store failures as misses so a broken cache never fails a call.
+ */
+export async function readResponseCache<K extends ResponseCacheEntry['kind']>(
+    store: ResponseCacheStore,
+    key: string,
+    kind: K
+): Promise<Extract<ResponseCacheEntry, { kind: K }> | undefined> {
+    try {
+        const entry = await store.get(key);
+        return entry?.kind === kind ? entry as Extract<ResponseCacheEntry, { kind: K }> : undefined;
+    } catch (error: unknown) {
+        logger.createLogger({ prefix: 'ResponseCache' }).warn('Response cache lookup failed:', error);
+        return undefined;
+    }
+}
+
+/**
+ * Store an entry, logging and swallowing store failures.
+ */
+export async function writeResponseCache(store: ResponseCacheStore, key: string, entry: ResponseCacheEntry): Promise<void> {
+    try {
+        await store.set(key, entry);
+    } catch (error: unknown) {
+        logger.createLogger({ prefix: 'ResponseCache' }).warn('Response cache write failed:', error);
+    }
+}
@@ -3,7 +3,6 @@ import type {
     UniversalChatResponse,
     UniversalStreamResponse,
     Usage,
-    FinishReason,
     UniversalMessage,
     // Import the new types
     UniversalChatSettings,
@@ -27,20 +26,32 @@ import type {
     SpeechResponse,
     Metadata,
     RerankCallOptions,
-    RerankResponse
+    RerankResponse,
+    BatchOperations,
+    BatchRequest,
+    SchemaRepairOptions
 } from '../../interfaces/UniversalInterfaces.ts';
-import { toMessageParts } from '../../interfaces/UniversalInterfaces.ts';
+import { FinishReason, toMessageParts } from '../../interfaces/UniversalInterfaces.ts';
 import { z } from 'zod';
 import { ProviderManager } from './ProviderManager.ts';
 import { ProviderPool, type ProviderPoolOptions } from './ProviderPool.ts';
 import type { ProviderExecutionContext } from './ProviderExecution.ts';
+import {
+    FailoverChain,
+    ProviderFailoverError,
+    hasStreamedContent,
+    normalizeFailoverOption,
+    type FailoverOption,
+    type FailoverTarget,
+    type NormalizedFailover
+} from './ProviderFailover.ts';
 import type { RegisteredProviders } from '../../adapters/index.ts';
 import { ProviderNotFoundError } from '../../adapters/types.ts';
 import { ModelManager } from '../models/ModelManager.ts';
 import { CapabilityError } from '../models/CapabilityError.ts';
 import type { RequestRequirements } from '../models/CapabilityMatcher.ts';
-import { ModelNotFoundError } from '../models/ModelCatalog.ts';
-import { resolveModel, type ModelResolutionMode, type ResolvedModel } from '../models/ModelResolver.ts';
+import { DEFAULT_PROVIDER_MODEL_CATALOGS, ModelNotFoundError } from '../models/ModelCatalog.ts';
+import { describeRequestRequirements, resolveModel, type ModelResolutionMode, type ResolvedModel } from '../models/ModelResolver.ts';
 import {
     inferChatRequestRequirements,
     inferEmbeddingRequestRequirements,
@@ -57,17 +68,22 @@ import { v4 as uuidv4 } from 'uuid';
 import type { UsageCallback } from '../../interfaces/UsageInterfaces.ts';
 import { RequestProcessor } from '../processors/RequestProcessor.ts';
 import { DataSplitter } from '../processors/DataSplitter.ts';
+import type { TextEmbedder } from '../processors/SemanticSplitter.ts';
 import { RetryManager } from '../retry/RetryManager.ts';
 import { shouldRetryDueToLLMError } from '../retry/utils/ShouldRetryDueToLLMError.ts';
 import { UsageTracker } from '../telemetry/UsageTracker.ts';
 import { normalizeUsage } from '../telemetry/UsageNormalizer.ts';
 import { ChatController } from '../chat/ChatController.ts';
+import { DEFAULT_SCHEMA_REPAIR_ATTEMPTS, type SchemaRepairTarget } from '../chat/SchemaRepair.ts';
 import { ToolsManager } from '../tools/ToolsManager.ts';
 import { ToolController } from '../tools/ToolController.ts';
+import type { ToolArgumentValidation } from '../tools/ToolArgumentValidator.ts';
+import type { ToolResultSummarizer } from '../tools/ToolResultPolicy.ts';
 import { ToolOrchestrator } from '../tools/ToolOrchestrator.ts';
 import { ChunkController, type ChunkProcessingParams } from '../chunks/ChunkController.ts';
+import { checkChunkReduceSchema, reduceChunkResponses } from '../chunks/ChunkReducer.ts';
 import { StreamingService } from '../streaming/StreamingService.ts';
-import type { ToolDefinition, ToolCall } from '../../types/tooling.ts';
+import type { ToolDefinition, ToolCall, ToolApprovalHandler, ToolLoopPolicy, ToolResultPolicy } from '../../types/tooling.ts';
 import type { ModelInfo } from '../../interfaces/UniversalInterfaces.ts';
 import { StreamController } from '../streaming/StreamController.ts';
 import type { LLMProvider, LLMProviderAudio, LLMProviderEmbedding, LLMProviderImage, LLMProviderVideo } from '../../interfaces/LLMProvider.ts';
@@ -83,6 +99,14 @@ import type { MCPRequestOptions } from '../mcp/MCPInterfaces.ts';
 import type { McpToolSchema, MCPServersMap } from '../mcp/MCPConfigTypes.ts';
 import { isMCPToolConfig } from '../mcp/MCPConfigTypes.ts';
 import { MCPServiceAdapter } from '../mcp/MCPServiceAdapter.ts';
+import {
+    mapSamplingModelPreferences,
+    type MCPSamplingApprovalHandler,
+    type MCPSamplingRequest,
+    type MCPSamplingResult
+} from '../mcp/MCPSampling.ts';
+import type { MCPElicitationHandler } from '../mcp/MCPElicitation.ts';
+import type { MCPConnectionStateHandler, MCPResourceUpdatedHandler } from '../mcp/MCPInterfaces.ts';
 import { MCPToolLoader } from '../mcp/MCPToolLoader.ts';
 import type { CapabilityRequirement } from '../models/ModelSelector.ts';
 import {
@@ -96,13 +120,22 @@ import { BaseAdapter } from '../../adapters/base/baseAdapter.ts';
 import type { ImageOp, ImageCallParams } from '../../interfaces/LLMProvider.ts';
 import { EmbeddingController } from '../embeddings/EmbeddingController.ts';
 import { RerankController } from '../rerank/RerankController.ts';
+import { BatchController, type PreparedBatchRequest } from '../batch/BatchController.ts';
 import { AudioController } from '../audio/AudioController.ts';
 import { TelemetryCollector } from '../telemetry/collector/TelemetryCollector.ts'
 import { OpenTelemetryProvider } from '../telemetry/providers/openTelemetry/OpenTelemetryProvider.ts'
 import { OpikProvider } from '../telemetry/providers/opik/OpikProvider.ts'
 import type { PromptMessage, ConversationInputOutput } from '../telemetry/collector/types.ts'
 import { CallExecutionContext } from '../execution/CallExecutionContext.ts';
-import { LLMTimeoutError } from '../execution/errors.ts';
+import { LLMTimeoutError, isLLMCancellationError } from '../execution/errors.ts';
+import type { ResponseCacheStore } from '../cache/ResponseCache.ts';
+import { BudgetGuard, BudgetTracker, type BudgetOptions } from '../budget/BudgetTracker.ts';
+import {
+    sharedRateLimiterRegistry,
+    type RateLimitConfig,
+    RateLimiterRegistry
+} from '../ratelimit/RateLimiter.ts';
+import { RateLimitScheduler, type RateLimitBinding } from '../ratelimit/RateLimitScheduler.ts';
 
 /**
  * Interface that matches the core functionality of StreamController
@@ -131,6 +164,19 @@ type ResolvedExecutionTarget = ProviderExecutionContext & {
     resolved?: ResolvedModel;
 };
 
+type FailoverPlan = {
+    policy: NormalizedFailover;
+    requirements: RequestRequirements;
+    scoreContext?: ScoreContext;
+    selection: ModelOrSelection;
+};
+
+type FailoverAttempt = {
+    params: UniversalChatParams;
+    execution?: ProviderExecutionContext;
+    metadata: ResolvedModelMetadata;
+};
+
 /**
  * Options for creating an LLMCaller instance
  */
@@ -150,6 +196,9 @@ export type LLMCallerOptions = {
     providerManager?: ProviderManager;
     providerPool?: ProviderPool;
     providerApiKeys?: ProviderPoolOptions['providerApiKeys'];
+    providerBaseUrls?: ProviderPoolOptions['providerBaseUrls'];
+    // Catalog entries added for this caller only, e.g. discovered openai-compatible models
+    providerModels?: ProviderPoolOptions['providerModels'];
     modelManager?: ModelManager;
     streamingService?: StreamingService;
     chatController?: ChatController;
@@ -159,8 +208,34 @@ export type LLMCallerOptions = {
     retryManager?: RetryManager;
     historyManager?: HistoryManager;
     maxIterations?: number; // For tool calls
+    // How tool-call arguments are checked against the tool's parameters (default: 'coerce')
+    toolArgumentValidation?: ToolArgumentValidation;
+    // Size limit for tool results before they go back to the model; tools can override it
+    toolResultPolicy?: ToolResultPolicy;
+    // Maximum number of tool calls of one turn that run at a time (default: unlimited)
+    maxToolConcurrency?: number;
+    // Limits for tool loops beyond maxIterations, such as cycle detection and per-tool caps; see ToolLoopPolicy
+    toolLoopPolicy?: ToolLoopPolicy;
     maxChunkIterations?: number; // For data chunking
     parallelChunking?: boolean; // Whether to process chunks in parallel (default: true)
+    // Cross-provider failover for call()/stream() once retries are exhausted
+    failover?: FailoverOption;
+    // Response cache for call()/stream(); see MemoryResponseCache and FileResponseCache
+    responseCache?: ResponseCacheStore;
+    // Spending limit shared by every call()/stream() of this caller; see BudgetOptions
+    budget?: BudgetOptions;
+    // Client-side RPM/TPM/concurrency limits of this caller's requests, keyed by 'provider' or 'provider/model'; see RateLimitConfig
+    rateLimits?: RateLimitConfig;
+    // Registry whose queues this caller shares; defaults to sharedRateLimiterRegistry
+    rateLimiterRegistry?: RateLimiterRegistry;
+    // Decides on model-requested calls of tools with requiresApproval; see ToolApprovalHandler
+    onToolApproval?: ToolApprovalHandler;
+    // Decides on sampling requests of MCP servers; without it every request runs. See MCPSamplingApprovalHandler
+    onMcpSamplingApproval?: MCPSamplingApprovalHandler;
+    // Asks the user for input MCP servers request during tool calls; without it servers cannot elicit. See MCPElicitationHandler
+    onElicitation?: MCPElicitationHandler;
+    // Notified when MCP servers connect, drop, reconnect, or fail to reconnect. See MCPConnectionStateEvent
+    onMcpConnectionStateChange?: MCPConnectionStateHandler;
     // Telemetry
     telemetryCollector?: TelemetryCollector;
 };
@@ -171,6 +246,8 @@ export type LLMCallerOptions = {
 export class LLMCaller implements MCPDirectAccess {
     private providerManager: ProviderManager;
     private providerPool: ProviderPool;
+    private readonly providerBaseUrls: NonNullable<LLMCallerOptions['providerBaseUrls']>;
+    private readonly providerModels: NonNullable<LLMCallerOptions['providerModels']>;
     private modelManager: ModelManager;
     private readonly ownsModelManager: boolean;
     private tokenCalculator: TokenCalculator;
@@ -200,6 +277,10 @@ export class LLMCaller implements MCPDirectAccess {
     // Lazy-initialized MCP client manager
     private _mcpAdapter: MCPServiceAdapter | null = null;
     private maxIterations: number; // Store maxIterations for tool controller
+    private toolArgumentValidation?: ToolArgumentValidation;
+    private toolResultPolicy?: ToolResultPolicy;
+    private maxToolConcurrency?: number;
+    private toolLoopPolicy?: ToolLoopPolicy;
     private maxChunkIterations: number; // Store maxChunkIterations for chunk controller
     private mcpSchemaCache: Map<string, ToolDefinition[]> = new Map();
     private parallelChunking: boolean; // Whether to process chunks in parallel
@@ -211,6 +292,18 @@ export class LLMCaller implements MCPDirectAccess {
 
     // Cached resolved model name
     private resolvedModel?: string;
+    private failover?: NormalizedFailover;
+    private responseCache?: ResponseCacheStore;
+    private budgetTracker?: BudgetTracker;
+    private onToolApproval?: ToolApprovalHandler;
+    private onMcpSamplingApproval?: MCPSamplingApprovalHandler;
+    private onElicitation?: MCPElicitationHandler;
+    private onMcpConnectionStateChange?: MCPConnectionStateHandler;
+    private rateLimitScheduler: RateLimitScheduler;
+    private readonly batchController: BatchController;
+
+    /** Jobs on the provider's Batch API, priced at the model's batch prices. */
+    public readonly batch: BatchOperations;
 
     constructor(
         providerName: ProviderScope,
@@ -223,18 +316,30 @@ export class LLMCaller implements MCPDirectAccess {
             throw new ProviderNotFoundError('');
         }
         this.providerScope = providerName;
+        this.providerBaseUrls = options?.providerBaseUrls ?? {};
+        this.providerModels = options?.providerModels ?? {};
 
         // Initialize dependencies that don't depend on each other first
         this.providerManager = options?.providerManager ||
-            new ProviderManager(initialProvider as RegisteredProviders, options?.apiKey);
+            new ProviderManager(
+                initialProvider as RegisteredProviders,
+                options?.apiKey,
+                this.providerBaseUrls[initialProvider as RegisteredProviders],
+                this.providerModels[initialProvider as RegisteredProviders]
+            );
         this.providerPool = options?.providerPool ||
             new ProviderPool(providerName, {
                 apiKey: options?.apiKey,
-                providerApiKeys: options?.providerApiKeys
+                providerApiKeys: options?.providerApiKeys,
+                providerBaseUrls: this.providerBaseUrls,
+                providerModels: this.providerModels
             });
         this.ownsModelManager = !options?.modelManager;
         this.modelManager = options?.modelManager ||
-            new ModelManager(initialProvider as RegisteredProviders);
+            new ModelManager(
+                initialProvider as RegisteredProviders,
+                this.providerModels[initialProvider as RegisteredProviders]
+            );
         this.tokenCalculator = options?.tokenCalculator ||
             new TokenCalculator();
         this.responseProcessor = options?.responseProcessor ||
@@ -251,11 +356,28 @@ export class LLMCaller implements MCPDirectAccess {
         this.historyMode = options?.historyMode || 'stateless';
         this.systemMessage = systemMessage;
         this.maxIterations = options?.maxIterations ?? 5; // Initialize maxIterations
+        this.toolArgumentValidation = options?.toolArgumentValidation;
+        this.toolResultPolicy = options?.toolResultPolicy;
+        this.maxToolConcurrency = options?.maxToolConcurrency;
+        this.toolLoopPolicy = options?.toolLoopPolicy;
         this.maxChunkIterations = options?.maxChunkIterations ?? 70; // Updated default to 70
         this.historyManager = options?.historyManager || new HistoryManager(systemMessage);
         this.toolsManager = options?.toolsManager || new ToolsManager();
         this.usageTracker = new UsageTracker(this.tokenCalculator, this.usageCallback, this.callerId);
         this.requestProcessor = new RequestProcessor();
+        this.batchController = new BatchController(
+            this.providerManager,
+            () => this.modelManager,
+            this.responseProcessor,
+            this.tokenCalculator
+        );
+        this.batch = {
+            submit: async requests => this.batchController.submit(await this.prepareBatchRequests(requests)),
+            status: batchId => this.batchController.status(batchId),
+            results: async (batchId, requests) =>
+                this.batchController.results(batchId, requests && await this.prepareBatchRequests(requests)),
+            cancel: batchId => this.batchController.cancel(batchId)
+        };
         // Initialize TelemetryCollector: use passed collector OR create default with built-in providers
         if (options?.telemetryCollector) {
             this.telemetryCollector = options.telemetryCollector;
@@ -295,7 +417,11 @@ export class LLMCaller implements MCPDirectAccess {
         this.toolController = new ToolController(
             this.toolsManager,
             this.maxIterations,
-            this.telemetryCollector
+            this.telemetryCollector,
+            this.toolArgumentValidation,
+            this.toolResultPolicy,
+            (request, context) => this.summarizeToolResult(request, context),
+            this.maxToolConcurrency
         );
 
         // Initialize the folder loader if toolsDir is provided
@@ -317,6 +443,19 @@ export class LLMCaller implements MCPDirectAccess {
             : 'model' in modelOrAlias
                 ? modelOrAlias.model
                 : modelOrAlias.preset ?? 'balanced';
+        this.failover = this.normalizeFailover(options?.failover);
+        this.responseCache = options?.responseCache;
+        this.budgetTracker = options?.budget ? new BudgetTracker(options.budget, 'caller') : undefined;
+        this.onToolApproval = options?.onToolApproval;
+        this.onMcpSamplingApproval = options?.onMcpSamplingApproval;
+        this.onElicitation = options?.onElicitation;
+        this.onMcpConnectionStateChange = options?.onMcpConnectionStateChange;
+        // rateLimits get a registry of their own, so they never change the limits of other callers
+        this.rateLimitScheduler = new RateLimitScheduler(
+            options?.rateLimiterRegistry ?? sharedRateLimiterRegistry,
+            event => this.telemetryCollector?.recordRateLimitQueue(event),
+            options?.rateLimits ? new RateLimiterRegistry(options.rateLimits) : undefined
+        );
 
         // **Initialize StreamingService early, passing adapter provider**
         this.streamingService = options?.streamingService ||
@@ -383,6 +522,8 @@ export class LLMCaller implements MCPDirectAccess {
         } else {
             this.log.debug('StreamingService.setMCPAdapterProvider not available on instance (possibly mocked)');
         }
+        this.applyResponseCache();
+        this.applyRateLimitScheduler();
 
         // Initialize ChunkController with parallel options
         this.parallelChunking = options?.parallelChunking ?? true; // Default to parallel
@@ -409,6 +550,7 @@ export class LLMCaller implements MCPDirectAccess {
                 internalStreamHandler,
                 this.retryManager
             );
+            streamCtrl.setRateLimitScheduler(this.rateLimitScheduler);
             // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
             (this as any).streamController = streamCtrl as unknown as StreamController;
         } else {
@@ -491,7 +633,8 @@ export class LLMCaller implements MCPDirectAccess {
             this.modelManager,
             this.tokenCalculator,
             this.usageCallback,
-            this.callerId
+            this.callerId,
+            this.getRateLimitBinding(target?.providerName)
         );
 
         // Require an explicit embedding model (no aliases for embeddings)
@@ -519,24 +662,46 @@ export class LLMCaller implements MCPDirectAccess {
             }
         }
 
-        const response = await this.retryManager.executeWithRetry(
-            () => embeddingController.generateEmbeddings({
-                input: options.input,
-                model: modelName,
-                dimensions: options.dimensions,
-                encodingFormat: options.encodingFormat,
-                usageCallback: options.usageCallback,
-                usageBatchSize: options.usageBatchSize,
-                callerId: this.callerId
-            }),
-            shouldRetryDueToLLMError
-        );
+        const context = new CallExecutionContext({ signal: options.signal, callerId: this.callerId });
+        let response: EmbeddingResponse;
+        try {
+            response = await context.awaitOrAbort(this.retryManager.executeWithRetry(
+                () => embeddingController.generateEmbeddings({
+                    input: options.input,
+                    model: modelName,
+                    dimensions: options.dimensions,
+                    encodingFormat: options.encodingFormat,
+                    usageCallback: options.usageCallback,
+                    usageBatchSize: options.usageBatchSize,
+                    callerId: this.callerId
+                }),
+                shouldRetryDueToLLMError,
+                context
+            ));
+            context.complete();
+        } catch (error) {
+            context.fail(error);
+            throw error;
+        }
         return this.addResolvedModelMetadata(
             response,
             this.toResolvedModelMetadata(target?.resolved, modelName, options.model ? { model: options.model } : this.modelSelection)
         );
     }
 
+    /**
+     * Embeds the sentences of a `data` string for the 'semantic' split strategy.
+     */
+    private createTextEmbedder(splitStrategy: NonNullable<LLMCallOptions['splitStrategy']>): TextEmbedder {
+        const model = typeof splitStrategy === 'object' && splitStrategy.strategy === 'semantic' ? splitStrategy.embeddingModel : undefined;
+        return async texts => {
+            const response = await this.embeddings({ input: texts, ...(model ? { model } : {}) });
+            return [...response.embeddings]
+                .sort((a, b) => a.index - b.index)
+                .map(embedding => embedding.embedding);
+        };
+    }
+
     /**
      * Rerank candidate documents against a query using a supported reranker model.
      */
@@ -559,7 +724,7 @@ export class LLMCaller implements MCPDirectAccess {
             );
             const modelName = target?.model ?? options.model ?? this.model;
             const adapter = (target?.provider ?? this.providerManager.getProvider()) as unknown as BaseAdapter;
-            const controller = new RerankController(adapter);
+            const controller = new RerankController(adapter, this.getRateLimitBinding(target?.providerName));
             this.rerankController = controller;
 
             conversationCtx = this.telemetryCollector?.startConversation('call', { operation: 'rerank' });
@@ -723,7 +888,8 @@ export class LLMCaller implements MCPDirectAccess {
             this.modelManager,
             this.tokenCalculator,
             this.usageCallback,
-            this.callerId
+            this.callerId,
+            this.getRateLimitBinding(target?.providerName)
         );
 
         if (!this.modelSupportsAudioOp(modelName, 'transcribe')) {
@@ -779,7 +945,8 @@ export class LLMCaller implements MCPDirectAccess {
             this.modelManager,
             this.tokenCalculator,
             this.usageCallback,
-            this.callerId
+            this.callerId,
+            this.getRateLimitBinding(target?.providerName)
         );
 
         if (!this.modelSupportsAudioOp(modelName, 'translate')) {
@@ -835,7 +1002,8 @@ export class LLMCaller implements MCPDirectAccess {
             this.modelManager,
             this.tokenCalculator,
             this.usageCallback,
-            this.callerId
+            this.callerId,
+            this.getRateLimitBinding(target?.providerName)
         );
 
         if (!this.modelSupportsAudioOp(modelName, 'synthesize')) {
@@ -957,8 +1125,14 @@ export class LLMCaller implements MCPDirectAccess {
         const { provider, nameOrAlias, apiKey, capabilityRequirements } = options;
 
         if (provider) {
-            this.providerManager.switchProvider(provider as RegisteredProviders, apiKey);
-            this.modelManager = new ModelManager(provider as RegisteredProviders);
+            const baseUrl = this.providerBaseUrls[provider as RegisteredProviders];
+            const models = this.providerModels[provider as RegisteredProviders];
+            if (baseUrl || models) {
+                this.providerManager.switchProvider(provider as RegisteredProviders, apiKey, baseUrl, models);
+            } else {
+                this.providerManager.switchProvider(provider as RegisteredProviders, apiKey);
+            }
+            this.modelManager = new ModelManager(provider as RegisteredProviders, models);
             this.providerScope = provider;
         }
 
@@ -1260,7 +1434,12 @@ export class LLMCaller implements MCPDirectAccess {
 
     private getResolverCatalogs() {
         if (Array.isArray(this.providerScope)) {
-            return undefined;
+            if (Object.keys(this.providerModels).length === 0) return undefined;
+            // The caller's own entries extend the built-in catalogs for this caller only
+            return Object.fromEntries(this.providerScope.map(provider => [
+                provider,
+                [...DEFAULT_PROVIDER_MODEL_CATALOGS[provider], ...(this.providerModels[provider] ?? [])]
+            ])) as Partial<Record<RegisteredProviders, ModelInfo[]>>;
         }
 
         const getAvailableModels = (this.modelManager as unknown as { getAvailableModels?: () => ModelInfo[] }).getAvailableModels;
@@ -1332,6 +1511,173 @@ export class LLMCaller implements MCPDirectAccess {
         return support;
     }
 
+    private normalizeFailover(option?: FailoverOption | false): NormalizedFailover | undefined {
+        const failover = normalizeFailoverOption(option);
+        if (!failover) return undefined;
+
+        const scope = Array.isArray(this.providerScope) ? this.providerScope : [this.providerScope];
+        for (const target of failover.targets) {
+            if (!scope.includes(target.provider)) {
+                throw new ModelSelectionConfigError(
+                    `Failover target ${target.provider}/${target.model} is outside the provider scope (${scope.join(', ')})`
+                );
+            }
+        }
+        return failover;
+    }
+
+    /**
+     * Budgets for one call: the caller's budget, which persists across calls, and the
+     * call's own budget, which starts empty.
+     */
+    private createBudgetGuard(callBudget?: BudgetOptions): BudgetGuard | undefined {
+        const trackers = [
+            this.budgetTracker,
+            callBudget ? new BudgetTracker(callBudget, 'call') : undefined
+        ].filter((tracker): tracker is BudgetTracker => tracker !== undefined);
+        return trackers.length > 0 ? new BudgetGuard(trackers) : undefined;
+    }
+
+    /**
+     * Resolves the schemaRepair option. The repair model is resolved once, so every repair
+     * request of the call goes to the same provider and model.
+     */
+    private resolveSchemaRepair(
+        option: boolean | SchemaRepairOptions | undefined,
+        requirements: RequestRequirements,
+        scoreContext?: ScoreContext
+    ): { maxAttempts: number; target?: SchemaRepairTarget } | undefined {
+        if (!option) return undefined;
+        const options = option === true ? {} : option;
+        const maxAttempts = options.maxAttempts ?? DEFAULT_SCHEMA_REPAIR_ATTEMPTS;
+        if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+            throw new RangeError(`schemaRepair.maxAttempts must be a positive integer, got ${maxAttempts}`);
+        }
+        if (!options.model) return { maxAttempts };
+
+        const target = this.resolveExecutionTarget(requirements, options.model as ModelOrSelection, scoreContext);
+        if (!target) {
+            throw new Error(`Schema repair model ${options.model} not found`);
+        }
+        return {
+            maxAttempts,
+            target: {
+                model: target.model,
+                execution: { providerName: target.providerName, provider: target.provider, modelInfo: target.modelInfo }
+            }
+        };
+    }
+
+    private createFailoverChain(plan: FailoverPlan, primary: ResolvedModelMetadata): FailoverChain {
+        const targets = [...plan.policy.targets];
+        if (plan.policy.nextBest) {
+            targets.push(...this.getNextBestFailoverTargets(plan));
+        }
+        return new FailoverChain(plan.policy, { provider: primary.provider, model: primary.model }, targets);
+    }
+
+    /**
+     * Ranked resolver candidates for the request. Exact selections have no ranking of
+     * their own, so they fall back to the `balanced` preset over the provider scope.
+     */
+    private getNextBestFailoverTargets(plan: FailoverPlan): FailoverTarget[] {
+        const selection = this.inferSelectionMode(plan.selection) === 'exact' ? 'balanced' : plan.selection;
+        try {
+            const resolved = this.resolveCurrentModelSelection(plan.requirements, selection, plan.scoreContext);
+            return (resolved?.resolution?.candidates ?? [])
+                .filter(candidate => !candidate.rejected)
+                .map(candidate => ({ provider: candidate.provider, model: candidate.model }));
+        } catch (error) {
+            this.log.debug('No next-best failover candidates available', error);
+            return [];
+        }
+    }
+
+    /**
+     * Moves a failed attempt to the next usable failover target.
+     * Rethrows the original error when the error is not eligible or no target was left to try,
+     * and throws ProviderFailoverError once a chain that already failed over is exhausted.
+     */
+    private nextFailoverAttempt(
+        chain: FailoverChain | undefined,
+        plan: FailoverPlan | undefined,
+        chatParams: UniversalChatParams,
+        primary: ResolvedModelMetadata,
+        error: unknown,
+        context: CallExecutionContext
+    ): FailoverAttempt {
+        if (!chain || !plan || context.signal?.aborted || isLLMCancellationError(error) || !chain.canFailover(error)) {
+            throw error;
+        }
+
+        chain.recordFailure(error);
+        for (let target = chain.next(); target; target = chain.next()) {
+            try {
+                const execution = this.resolveExecutionTarget(
+                    plan.requirements,
+                    { provider: target.provider, model: target.model },
+                    plan.scoreContext
+                );
+                if (!execution) {
+                    throw new Error(`Model ${target.model} not found`);
+                }
+                this.log.warn(`Failing over to ${execution.providerName}/${execution.model}`, {
+                    error: error instanceof Error ? error.message : String(error)
+                });
+                return {
+                    params: this.toFailoverChatParams(chatParams, execution),
+                    execution: {
+                        providerName: execution.providerName,
+                        provider: execution.provider,
+                        modelInfo: execution.modelInfo
+                    },
+                    metadata: this.toFailoverModelMetadata(primary, plan, chain, execution)
+                };
+            } catch (resolveError) {
+                chain.recordSkipped(target, resolveError);
+            }
+        }
+
+        if (chain.hasFailedOver()) {
+            throw new ProviderFailoverError(chain.getHops(), { cause: error });
+        }
+        throw error;
+    }
+
+    private toFailoverChatParams(chatParams: UniversalChatParams, target: ResolvedExecutionTarget): UniversalChatParams {
+        const params: UniversalChatParams = { ...chatParams, model: target.model };
+        if (chatParams.jsonSchema && target.modelInfo) {
+            const supportsJsonMode = typeof target.modelInfo.capabilities?.output?.text === 'object' &&
+                Boolean(target.modelInfo.capabilities.output.text.textOutputFormats?.includes('json'));
+            params.responseFormat = supportsJsonMode && chatParams.settings?.jsonMode !== 'force-prompt' ? 'json' : 'text';
+        }
+        return params;
+    }
+
+    private toFailoverModelMetadata(
+        primary: ResolvedModelMetadata,
+        plan: FailoverPlan,
+        chain: FailoverChain,
+        target: ResolvedExecutionTarget
+    ): ResolvedModelMetadata {
+        const resolution = primary.resolution ?? {
+            selected: { provider: primary.provider, model: primary.model },
+            mode: primary.mode,
+            requiredByRequest: describeRequestRequirements(plan.requirements),
+            appliedConstraints: []
+        };
+        return {
+            provider: target.providerName,
+            model: target.model,
+            mode: primary.mode,
+            resolution: {
+                ...resolution,
+                selected: { provider: target.providerName, model: target.model },
+                failover: chain.getHops()
+            }
+        };
+    }
+
     private getCurrentProviderName(): RegisteredProviders {
         if (typeof this.providerManager.getCurrentProviderName === 'function') {
             const current = this.providerManager.getCurrentProviderName();
@@ -1353,7 +1699,7 @@ export class LLMCaller implements MCPDirectAccess {
             this.providerManager.switchProvider(provider);
         }
         if (this.ownsModelManager) {
-            this.modelManager = new ModelManager(provider);
+            this.modelManager = new ModelManager(provider, this.providerModels[provider]);
         }
         this.reinitializeControllers();
     }
@@ -1378,7 +1724,12 @@ export class LLMCaller implements MCPDirectAccess {
         // Re-initialize ToolController
         this.toolController = new ToolController(
             this.toolsManager,
-            this.maxIterations
+            this.maxIterations,
+            this.telemetryCollector,
+            this.toolArgumentValidation,
+            this.toolResultPolicy,
+            (request, context) => this.summarizeToolResult(request, context),
+            this.maxToolConcurrency
         );
 
         // Re-initialize ChatController, passing adapter provider
@@ -1443,6 +1794,8 @@ export class LLMCaller implements MCPDirectAccess {
             log.debug('ChatController.setToolOrchestrator not found - may be using newer API');
         }
         this.streamingService.setToolOrchestrator(this.toolOrchestrator);
+        this.applyResponseCache();
+        this.applyRateLimitScheduler();
         // Set adapter provider again via setter after reinitialization if needed (optional, constructor should handle)
         // this.chatController.setMCPAdapterProvider(() => this.getMcpAdapter());
         // this.streamingService.setMCPAdapterProvider(() => this.getMcpAdapter());
@@ -1488,6 +1841,38 @@ export class LLMCaller implements MCPDirectAccess {
         this.reinitializeControllers();
     }
 
+    /**
+     * Sets the response cache used by call() and stream(), or removes it when undefined.
+     */
+    public setResponseCache(cache: ResponseCacheStore | undefined): void {
+        this.responseCache = cache;
+        this.applyResponseCache();
+    }
+
+    private applyResponseCache(): void {
+        // Injected controllers may be mocks without the setter
+        if (typeof (this.chatController as any).setResponseCache === 'function') {
+            this.chatController.setResponseCache(this.responseCache);
+        }
+        if (typeof (this.streamingService as any).setResponseCache === 'function') {
+            this.streamingService.setResponseCache(this.responseCache);
+        }
+    }
+
+    private applyRateLimitScheduler(): void {
+        // Injected controllers may be mocks without the setter
+        if (typeof (this.chatController as any).setRateLimitScheduler === 'function') {
+            this.chatController.setRateLimitScheduler(this.rateLimitScheduler);
+        }
+        if (typeof (this.streamingService as any).setRateLimitScheduler === 'function') {
+            this.streamingService.setRateLimitScheduler(this.rateLimitScheduler);
+        }
+    }
+
+    private getRateLimitBinding(providerName?: RegisteredProviders): RateLimitBinding {
+        return { scheduler: this.rateLimitScheduler, provider: providerName ?? this.getCurrentProviderName() };
+    }
+
     public updateSettings(newSettings: UniversalChatSettings): void {
         // Update the stored initial/class-level settings
         const oldMaxRetries = this.initialSettings?.maxRetries ?? 3;
@@ -1531,7 +1916,8 @@ export class LLMCaller implements MCPDirectAccess {
     private async internalChatCall<T extends z.ZodTypeAny>(
         params: UniversalChatParams,
         execution?: ProviderExecutionContext,
-        context?: CallExecutionContext
+        context?: CallExecutionContext,
+        schemaRepairTarget?: SchemaRepairTarget
     ): Promise<UniversalChatResponse> {
         const log = logger.createLogger({ prefix: 'LLMCaller.internalChatCall' });
         log.debug(`Calling chat with ${params.messages?.length} messages`);
@@ -1543,11 +1929,12 @@ export class LLMCaller implements MCPDirectAccess {
         params.model = params.model || this.getResolvedModel();
 
         const { systemMessage, ...paramsForController } = params;
-        const chatResponse = context?.needsPropagation
-            ? await this.chatController.execute(paramsForController as any, execution, context)
-            : execution
-                ? await this.chatController.execute(paramsForController as any, execution)
-                : await this.chatController.execute(paramsForController as any);
+        const chatResponse = await this.chatController.execute(
+            paramsForController as any,
+            execution,
+            context?.needsPropagation ? context : undefined,
+            schemaRepairTarget ? { target: schemaRepairTarget, attempts: [] } : undefined
+        );
 
         // Process image output if present (save to file if outputPath provided)
         // Note: outputPath handling will be moved to the public call/stream methods
@@ -2016,7 +2403,7 @@ export class LLMCaller implements MCPDirectAccess {
         userText?: string;
         processedMessages: any[]; // TextPart[]
         operationKind?: 'call' | 'stream';
-    }): Promise<{ chatParams: UniversalChatParams; processedMessages: any[]; resolvedModelMetadata: ResolvedModelMetadata; execution?: ProviderExecutionContext }> {
+    }): Promise<{ chatParams: UniversalChatParams; processedMessages: any[]; resolvedModelMetadata: ResolvedModelMetadata; execution?: ProviderExecutionContext; failover?: FailoverPlan; schemaRepairTarget?: SchemaRepairTarget }> {
         const log = logger.createLogger({ prefix: 'LLMCaller.buildChatParams' });
         const actualMessage = opts.userText || opts.text || '';
 
@@ -2045,8 +2432,8 @@ export class LLMCaller implements MCPDirectAccess {
                 hasParallelTools: Boolean(mergedSettings?.providerOptions?.parallelToolCalls)
             }
         );
-        const selectionOverride = this.getProviderOptionsModelOverride(mergedSettings);
-        const execution = this.resolveExecutionTarget(
+        let selectionOverride: ModelOrSelection | undefined = this.getProviderOptionsModelOverride(mergedSettings);
+        let execution = this.resolveExecutionTarget(
             inferredRequest.requirements,
             selectionOverride,
             inferredRequest.scoreContext
@@ -2089,7 +2476,38 @@ export class LLMCaller implements MCPDirectAccess {
             messages = [...previousMessages, processedUserMessage];
         }
 
+        // A request that would not fit the budget on the selected model may move to a cheaper preset.
+        // The controllers enforce the budget itself, for this request and the rest of the call.
+        const budgetGuard = this.createBudgetGuard(opts.budget);
+        const downgradeTo = budgetGuard?.getDowngrade(
+            budgetGuard.estimate(messages, modelInfo, mergedSettings?.maxTokens)
+        );
+        if (downgradeTo) {
+            const downgraded = this.resolveExecutionTarget(
+                inferredRequest.requirements,
+                downgradeTo,
+                inferredRequest.scoreContext
+            );
+            if (downgraded) {
+                this.log.info(`Budget would be exceeded by ${resolvedModelName}; downgrading to ${downgradeTo} preset (${downgraded.model})`);
+                selectionOverride = downgradeTo;
+                execution = downgraded;
+                resolvedModelName = downgraded.model;
+                modelInfo = downgraded.modelInfo ?? modelInfo;
+            }
+        }
+
         // Build final chat parameters - everything in one place
+        const toolApproval = opts.onToolApproval ?? this.onToolApproval;
+        const toolLoopPolicy = this.toolLoopPolicy || opts.toolLoopPolicy
+            ? { ...this.toolLoopPolicy, ...opts.toolLoopPolicy }
+            : undefined;
+        // Streamed responses are validated as they arrive and are not repaired
+        const schemaRepair = opts.operationKind === 'stream' ? undefined : this.resolveSchemaRepair(
+            opts.schemaRepair,
+            inferredRequest.requirements,
+            inferredRequest.scoreContext
+        );
         const chatParams: UniversalChatParams = {
             model: resolvedModelName,
             messages: messages,
@@ -2098,7 +2516,13 @@ export class LLMCaller implements MCPDirectAccess {
             responseFormat: opts.responseFormat,
             tools: effectiveTools,
             callerId: this.callerId, // Important: Always include callerId
-            historyMode: effectiveHistoryMode
+            historyMode: effectiveHistoryMode,
+            ...(opts.cache ? { cache: opts.cache } : {}),
+            ...(budgetGuard ? { budgetGuard } : {}),
+            ...(toolApproval ? { toolApproval } : {}),
+            ...(toolLoopPolicy ? { toolLoopPolicy } : {}),
+            ...(opts.validatePartialObject ? { validatePartialObject: true } : {}),
+            ...(schemaRepair ? { schemaRepair: { maxAttempts: schemaRepair.maxAttempts } } : {})
         };
 
         // Check if JSON is requested and whether to use native mode
@@ -2131,6 +2555,8 @@ export class LLMCaller implements MCPDirectAccess {
         // Update response format based on model capabilities
         chatParams.responseFormat = useNativeJsonMode ? 'json' : (opts.jsonSchema ? 'text' : opts.responseFormat);
 
+        const failover = opts.failover === undefined ? this.failover : this.normalizeFailover(opts.failover);
+
         return {
             chatParams,
             processedMessages: opts.processedMessages,
@@ -2139,10 +2565,64 @@ export class LLMCaller implements MCPDirectAccess {
                 resolvedModelName,
                 selectionOverride ?? this.modelSelection
             ),
-            execution: this.getDispatchExecution(execution)
+            execution: this.getDispatchExecution(execution),
+            failover: failover
+                ? {
+                    policy: failover,
+                    requirements: inferredRequest.requirements,
+                    scoreContext: inferredRequest.scoreContext,
+                    selection: selectionOverride ?? this.modelSelection
+                }
+                : undefined,
+            schemaRepairTarget: schemaRepair?.target
         };
     }
 
+    /**
+     * Builds the stateless chat parameters of batch requests. Each request is sent with the
+     * system message alone, so batch jobs neither read nor change the caller's history.
+     */
+    private async prepareBatchRequests(requests: BatchRequest[]): Promise<PreparedBatchRequest[]> {
+        const model = this.getResolvedModel();
+        const modelInfo = this.findModelInfo(model);
+        if (!modelInfo) {
+            throw new Error(`Model ${model} not found`);
+        }
+        return Promise.all(requests.map(async (request, index) => {
+            const customId = request.customId ?? `request-${index}`;
+            const processedMessages = await this.requestProcessor.processRequest({
+                message: request.text || '',
+                data: request.data,
+                endingMessage: request.endingMessage,
+                model: modelInfo,
+                maxResponseTokens: request.settings?.maxTokens,
+                jsonSchema: request.jsonSchema,
+                historyMode: 'stateless'
+            });
+            if (processedMessages.length !== 1) {
+                throw new Error(`Batch request ${customId} does not fit in a single request to ${model}`);
+            }
+            const content = request.data === undefined || request.data === null
+                ? request.text || ''
+                : processedMessages[0];
+            return {
+                customId,
+                params: {
+                    model,
+                    messages: [
+                        { role: 'system', content: this.systemMessage },
+                        { role: 'user', content }
+                    ],
+                    settings: this.mergeSettings(request.settings),
+                    jsonSchema: request.jsonSchema,
+                    responseFormat: request.responseFormat,
+                    callerId: this.callerId,
+                    historyMode: 'stateless'
+                }
+            };
+        }));
+    }
+
     /**
      * Processes a message and streams the response.
      * This is the standardized public API for streaming responses.
@@ -2382,11 +2862,14 @@ export class LLMCaller implements MCPDirectAccess {
                 maxCharsPerChunk: actualOptions.maxCharsPerChunk,
                 jsonSchema: actualOptions.jsonSchema,
                 historicalMessages: this.historyManager.getMessages() || [],
-                historyMode: effHistoryMode
+                historyMode: effHistoryMode,
+                ...(actualOptions.splitStrategy
+                    ? { splitStrategy: actualOptions.splitStrategy, embed: this.createTextEmbedder(actualOptions.splitStrategy) }
+                    : {})
             });
             log.debug('Processed messages', { count: processedMessages.length });
 
-            const { chatParams, processedMessages: finalProcessedMessages, resolvedModelMetadata, execution } =
+            const { chatParams, processedMessages: finalProcessedMessages, resolvedModelMetadata, execution, failover } =
                 await this.buildChatParams({
                     ...actualOptions,
                     userText: actualOptions.text || '',
@@ -2395,15 +2878,28 @@ export class LLMCaller implements MCPDirectAccess {
                 });
 
             if (finalProcessedMessages.length <= 1) {
-                const stream = context.needsPropagation
-                    ? await this.internalStreamCall(chatParams, execution, context)
-                    : execution
-                        ? await this.internalStreamCall(chatParams, execution)
-                        : await this.internalStreamCall(chatParams);
-                for await (const chunk of stream as AsyncIterable<UniversalStreamResponse<T extends z.ZodTypeAny ? z.infer<T> : unknown>>) {
-                    // Image output processing is handled within the adapters when outputPath is provided
-                    // No additional processing needed here as the adapter handles outputPath automatically
-                    yield this.addResolvedModelMetadata(chunk, resolvedModelMetadata);
+                const failoverChain = failover ? this.createFailoverChain(failover, resolvedModelMetadata) : undefined;
+                let attempt: FailoverAttempt = { params: chatParams, execution, metadata: resolvedModelMetadata };
+                while (true) {
+                    // Failover is only safe until the consumer has received output from the current target
+                    let streamedContent = false;
+                    try {
+                        const stream = context.needsPropagation
+                            ? await this.internalStreamCall(attempt.params, attempt.execution, context)
+                            : attempt.execution
+                                ? await this.internalStreamCall(attempt.params, attempt.execution)
+                                : await this.internalStreamCall(attempt.params);
+                        for await (const chunk of stream as AsyncIterable<UniversalStreamResponse<T extends z.ZodTypeAny ? z.infer<T> : unknown>>) {
+                            streamedContent = streamedContent || hasStreamedContent(chunk);
+                            // Image output processing is handled within the adapters when outputPath is provided
+                            // No additional processing needed here as the adapter handles outputPath automatically
+                            yield this.addResolvedModelMetadata(chunk, attempt.metadata);
+                        }
+                        break;
+                    } catch (error) {
+                        if (streamedContent) throw error;
+                        attempt = this.nextFailoverAttempt(failoverChain, failover, chatParams, resolvedModelMetadata, error, context);
+                    }
                 }
             } else {
                 const chunkStreamParams = { ...chatParams, historicalMessages: chatParams.messages };
@@ -2422,6 +2918,9 @@ export class LLMCaller implements MCPDirectAccess {
                         historyMode: chatParams.historyMode,
                         maxIterations: actualOptions.maxChunkIterations,
                         maxParallelRequests: actualOptions.maxParallelRequests,
+                        budgetGuard: chatParams.budgetGuard,
+                        toolApproval: chatParams.toolApproval,
+                        toolLoopPolicy: chatParams.toolLoopPolicy,
                         execution,
                         context
                     })
@@ -2436,6 +2935,9 @@ export class LLMCaller implements MCPDirectAccess {
                         maxCharsPerChunk: actualOptions.maxCharsPerChunk,
                         historyMode: chatParams.historyMode,
                         maxIterations: actualOptions.maxChunkIterations,
+                        budgetGuard: chatParams.budgetGuard,
+                        toolApproval: chatParams.toolApproval,
+                        toolLoopPolicy: chatParams.toolLoopPolicy,
                         execution,
                         context
                     });
@@ -3050,17 +3552,21 @@ export class LLMCaller implements MCPDirectAccess {
                 maxCharsPerChunk: opts.maxCharsPerChunk,
                 jsonSchema: opts.jsonSchema,
                 historicalMessages: this.historyManager.getMessages() || [],
-                historyMode: effHistoryMode
+                historyMode: effHistoryMode,
+                ...(opts.splitStrategy
+                    ? { splitStrategy: opts.splitStrategy, embed: this.createTextEmbedder(opts.splitStrategy) }
+                    : {})
             });
             log.debug('Processed messages', { count: processedMessages.length });
 
-            const { chatParams, processedMessages: finalProcessedMessages, resolvedModelMetadata, execution } =
+            const { chatParams, processedMessages: finalProcessedMessages, resolvedModelMetadata, execution, failover, schemaRepairTarget } =
                 await this.buildChatParams({
                     ...opts,
                     userText: opts.text || '',
                     processedMessages,
                     operationKind: 'call'
                 });
+            let responseModelMetadata = resolvedModelMetadata;
 
             // Ensure telemetry providers are ready before starting conversation
             await this.telemetryCollector?.awaitReady?.();
@@ -3094,16 +3600,27 @@ export class LLMCaller implements MCPDirectAccess {
             try {
                 if (finalProcessedMessages.length <= 1) {
                     log.debug('Calling internalChatCall (single chunk)');
-                    const exec = async () => context.needsPropagation
-                        ? await this.internalChatCall<T>(chatParams, execution, context)
-                        : execution
-                            ? await this.internalChatCall<T>(chatParams, execution)
-                            : await this.internalChatCall<T>(chatParams);
-                    const response = await exec();
+                    const exec = async (attempt: FailoverAttempt) =>
+                        await this.internalChatCall<T>(attempt.params, attempt.execution, context, schemaRepairTarget);
+                    const failoverChain = failover ? this.createFailoverChain(failover, resolvedModelMetadata) : undefined;
+                    let attempt: FailoverAttempt = { params: chatParams, execution, metadata: resolvedModelMetadata };
+                    let response: UniversalChatResponse | undefined;
+                    while (!response) {
+                        // Tool results written to history mean the attempt already had side effects
+                        const historyLength = (this.historyManager.getMessages() || []).length;
+                        try {
+                            response = await exec(attempt);
+                        } catch (error) {
+                            if ((this.historyManager.getMessages() || []).length !== historyLength) throw error;
+                            attempt = this.nextFailoverAttempt(failoverChain, failover, chatParams, resolvedModelMetadata, error, context);
+                        }
+                    }
+                    responseModelMetadata = attempt.metadata;
                     responses = [response];
                     llmCallsCount = 1;
                 } else {
                     log.debug('Calling chunkController.processChunks (multi-chunk)', { chunkCount: finalProcessedMessages.length });
+                    if (opts.reduce) checkChunkReduceSchema(opts.reduce, opts.jsonSchema);
                     const execChunks = async () => this.parallelChunking
                         ? await this.chunkController.processChunksParallel(finalProcessedMessages, {
                             model: chatParams.model,
@@ -3117,6 +3634,11 @@ export class LLMCaller implements MCPDirectAccess {
                             historyMode: chatParams.historyMode,
                             maxIterations: opts.maxChunkIterations,
                             maxParallelRequests: opts.maxParallelRequests,
+                            budgetGuard: chatParams.budgetGuard,
+                            toolApproval: chatParams.toolApproval,
+                            toolLoopPolicy: chatParams.toolLoopPolicy,
+                            schemaRepair: chatParams.schemaRepair,
+                            schemaRepairTarget,
                             execution,
                             context
                         })
@@ -3131,11 +3653,26 @@ export class LLMCaller implements MCPDirectAccess {
                             maxCharsPerChunk: opts.maxCharsPerChunk,
                             historyMode: chatParams.historyMode,
                             maxIterations: opts.maxChunkIterations,
+                            budgetGuard: chatParams.budgetGuard,
+                            toolApproval: chatParams.toolApproval,
+                            toolLoopPolicy: chatParams.toolLoopPolicy,
+                            schemaRepair: chatParams.schemaRepair,
+                            schemaRepairTarget,
                             execution,
                             context
                         });
                     responses = await execChunks();
                     llmCallsCount = responses.length;
+                    if (opts.reduce) {
+                        responses = [await reduceChunkResponses(responses, opts.reduce, {
+                            text: originalUserText,
+                            jsonSchema: opts.jsonSchema,
+                            combine: messages => {
+                                llmCallsCount++;
+                                return this.combineChunkAnswers(messages, chatParams, execution, context);
+                            }
+                        })];
+                    }
                     responses.forEach(response => {
                         if (response.content && (!response.toolCalls || response.toolCalls.length === 0) && response.metadata?.finishReason !== 'tool_calls') {
                             this.historyManager.addMessage('assistant', response.content);
@@ -3164,7 +3701,7 @@ export class LLMCaller implements MCPDirectAccess {
             // Image output processing is handled within the adapters when outputPath is provided
             // No additional processing needed here as the adapter handles outputPath automatically
             const processedResponses = responses.map(response =>
-                this.addResolvedModelMetadata(response, resolvedModelMetadata)
+                this.addResolvedModelMetadata(response, responseModelMetadata)
             );
 
             if (chatParams.historyMode?.toLowerCase() === 'stateless') {
@@ -3275,6 +3812,14 @@ export class LLMCaller implements MCPDirectAccess {
         return this.toolsManager.getTool(name);
     }
 
+    /**
+     * Lists the tool functions of the caller's toolsDir, whether or not a call used them yet.
+     * @returns Tool definitions of all functions in the folder, or an empty array without a toolsDir
+     */
+    public async listFolderTools(): Promise<ToolDefinition[]> {
+        return this.folderLoader ? this.folderLoader.getAllTools() : [];
+    }
+
     // History management methods - delegated to HistoryManager
 
 
@@ -3448,12 +3993,181 @@ export class LLMCaller implements MCPDirectAccess {
     // Lazy-initialized MCP client manager
     private getMcpAdapter(): MCPServiceAdapter {
         if (!this._mcpAdapter) {
-            this._mcpAdapter = new MCPServiceAdapter({});
+            this._mcpAdapter = new MCPServiceAdapter({}, {
+                onSampling: (request, options) => this.createMcpSamplingMessage(request, options),
+                ...(this.onMcpSamplingApproval ? { onSamplingApproval: this.onMcpSamplingApproval } : {}),
+                ...(this.onElicitation ? { onElicitation: this.onElicitation } : {}),
+                ...(this.onMcpConnectionStateChange ? { onConnectionStateChange: this.onMcpConnectionStateChange } : {}),
+                onListChanged: (serverKey, list) => {
+                    if (list === 'tools') this.mcpSchemaCache.delete(serverKey);
+                }
+            });
             logger.debug('Lazily initialized MCPServiceAdapter in getMcpAdapter');
         }
         return this._mcpAdapter;
     }
 
+    /**
+     * Answers a sampling request of an MCP server. The server's model preferences select the model,
+     * the request runs outside the conversation history, and its usage counts against the caller's
+     * budget and the server's sampling budget.
+     */
+    private async createMcpSamplingMessage(
+        request: MCPSamplingRequest,
+        options: { signal: AbortSignal; budget?: BudgetTracker }
+    ): Promise<MCPSamplingResult> {
+        const selection = mapSamplingModelPreferences(
+            request.modelPreferences,
+            this.modelManager.getAvailableModels().map(model => model.name)
+        );
+        const settings: UniversalChatSettings = {
+            maxTokens: request.maxTokens,
+            ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+            ...(request.stopSequences ? { stop: request.stopSequences } : {})
+        };
+        const inferred = inferChatRequestRequirements('call', { settings });
+        const execution = this.resolveExecutionTarget(inferred.requirements, selection, inferred.scoreContext);
+        const model = execution?.model ?? this.getResolvedModel();
+
+        const trackers = [this.budgetTracker, options.budget]
+            .filter((tracker): tracker is BudgetTracker => tracker !== undefined);
+        const toolCall = request.toolCall;
+        const context = new CallExecutionContext({ signal: options.signal, callerId: this.callerId });
+        if (toolCall?.telemetry) {
+            // Record the completion in the conversation of the tool call that triggered it
+            context.conversationContext = {
+                conversationId: toolCall.telemetry.conversationId,
+                type: 'call',
+                startedAt: toolCall.telemetry.startedAt
+            };
+        }
+
+        try {
+            const response = await this.chatController.execute({
+                model,
+                messages: [
+                    ...(request.systemPrompt ? [{ role: 'system' as const, content: request.systemPrompt }] : []),
+                    ...request.messages
+                ],
+                settings,
+                callerId: this.callerId,
+                historyMode: 'stateless',
+                ...(trackers.length > 0 ? { budgetGuard: new BudgetGuard(trackers) } : {}),
+                mcpSampling: {
+                    serverKey: request.serverKey,
+                    ...(toolCall ? { toolName: toolCall.name, requestedToolCallId: toolCall.id } : {}),
+                    ...(toolCall?.telemetry ? { parentToolCallId: toolCall.telemetry.toolCallId } : {})
+                }
+            }, execution, context);
+            context.complete();
+
+            const finishReason = response.metadata?.finishReason;
+            return {
+                model: response.metadata?.model ?? model,
+                content: response.content ?? '',
+                stopReason: finishReason === FinishReason.LENGTH
+                    ? 'maxTokens'
+                    : finishReason === FinishReason.STOP || !finishReason ? 'endTurn' : finishReason,
+                ...(response.metadata?.usage ? { usage: response.metadata.usage } : {})
+            };
+        } catch (error) {
+            context.fail(error);
+            throw error;
+        } finally {
+            context.dispose();
+        }
+    }
+
+    /**
+     * Summarizes an oversized tool result with the policy's summary model. The completion runs
+     * outside the conversation history and counts against the budgets of the call that ran the
+     * tool, or the caller's budget without one; a result too large for the summary model is
+     * summarized in chunks.
+     */
+    private async summarizeToolResult(
+        request: Parameters<ToolResultSummarizer>[0],
+        parent?: CallExecutionContext
+    ): Promise<string> {
+        const settings: UniversalChatSettings = { maxTokens: request.maxTokens };
+        const inferred = inferChatRequestRequirements('call', { settings });
+        const execution = this.resolveExecutionTarget(inferred.requirements, request.model, inferred.scoreContext);
+        const model = execution?.model ?? this.getResolvedModel();
+        const modelInfo = execution?.modelInfo ?? this.modelManager.getModel(model);
+        if (!modelInfo) {
+            throw new Error(`Model ${model} not found`);
+        }
+
+        const instructions = `Summarize the output of the tool "${request.toolName}" in at most ${request.maxTokens} tokens. ` +
+            'Keep the facts, identifiers and numbers a follow-up answer may need. Reply with the summary only.';
+        const chunks = await this.dataSplitter.splitIfNeeded({
+            message: instructions,
+            data: request.content,
+            modelInfo,
+            maxResponseTokens: request.maxTokens
+        });
+        const maxTokensPerChunk = Math.max(1, Math.floor(request.maxTokens / chunks.length));
+        const summaries: string[] = [];
+        for (const chunk of chunks) {
+            const context = new CallExecutionContext({ signal: parent?.signal, callerId: this.callerId });
+            if (parent?.conversationContext) context.conversationContext = parent.conversationContext;
+            const budgetGuard = request.budgetGuard ?? this.createBudgetGuard();
+            try {
+                const response = await this.chatController.execute({
+                    model,
+                    messages: [
+                        { role: 'system', content: instructions },
+                        { role: 'user', content: typeof chunk.content === 'string' ? chunk.content : JSON.stringify(chunk.content) }
+                    ],
+                    settings: { maxTokens: maxTokensPerChunk },
+                    callerId: this.callerId,
+                    historyMode: 'stateless',
+                    ...(budgetGuard ? { budgetGuard } : {})
+                }, execution, context);
+                context.complete();
+                summaries.push(response.content ?? '');
+            } catch (error) {
+                context.fail(error);
+                throw error;
+            } finally {
+                context.dispose();
+            }
+        }
+        return summaries.join('\n\n');
+    }
+
+    /**
+     * Sends one combine request of the 'llm' reduce strategy, with the model, settings and
+     * response format of the chunked call.
+     */
+    private async combineChunkAnswers(
+        messages: UniversalMessage[],
+        chatParams: UniversalChatParams,
+        execution: ProviderExecutionContext | undefined,
+        parent: CallExecutionContext
+    ): Promise<UniversalChatResponse> {
+        const context = new CallExecutionContext({ signal: parent.signal, callerId: this.callerId });
+        if (parent.conversationContext) context.conversationContext = parent.conversationContext;
+        try {
+            const response = await this.chatController.execute({
+                model: chatParams.model,
+                messages,
+                settings: chatParams.settings,
+                callerId: this.callerId,
+                historyMode: 'stateless',
+                ...(chatParams.jsonSchema ? { jsonSchema: chatParams.jsonSchema } : {}),
+                ...(chatParams.responseFormat ? { responseFormat: chatParams.responseFormat } : {}),
+                ...(chatParams.budgetGuard ? { budgetGuard: chatParams.budgetGuard } : {})
+            }, execution, context);
+            context.complete();
+            return response;
+        } catch (error) {
+            context.fail(error);
+            throw error;
+        } finally {
+            context.dispose();
+        }
+    }
+
     public async getMcpServerToolSchemas(serverKey: string): Promise<McpToolSchema[]> {
         // Ensure MCP is configured (at least one MCP server defined)
         // We might need a more robust way to check if MCP is generally enabled/configured
@@ -3518,6 +4232,23 @@ export class LLMCaller implements MCPDirectAccess {
         }
     }
 
+    /**
+     * Subscribes to updates of a resource on an MCP server. The subscription survives reconnects
+     * and ends with `disconnectMcpServers` or the returned function.
+     *
+     * @param serverKey The unique identifier for the MCP server.
+     * @param uri URI of the resource.
+     * @param onUpdated Called whenever the server reports that the resource changed; read it again with the server's resource API.
+     * @returns A function that ends this subscription.
+     */
+    public async subscribeToMcpResource(
+        serverKey: string,
+        uri: string,
+        onUpdated: MCPResourceUpdatedHandler
+    ): Promise<() => Promise<void>> {
+        return this.getMcpAdapter().subscribeToResource(serverKey, uri, onUpdated);
+    }
+
     /** Connect to a configured MCP server (used by tests and integrations). */
     public async connectToMcpServer(serverKey: string): Promise<void> {
         const adapter = this.getMcpAdapter();
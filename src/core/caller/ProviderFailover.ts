@@ -0,0 +1,272 @@
+import type { RegisteredProviders } from '../../adapters/index.ts';
+import type { UniversalStreamResponse } from '../../interfaces/UniversalInterfaces.ts';
+import { isLLMCancellationError } from '../execution/errors.ts';
+import { BudgetExceededError } from '../budget/BudgetTracker.ts';
+import type { ModelFailoverHop } from '../models/ModelResolver.ts';
+import { ModelSelectionConfigError } from '../models/ModelSelection.ts';
+import { RetryFailedError } from '../retry/RetryManager.ts';
+import { isRetryableStatusCode } from '../retry/utils/ShouldRetryDueToLLMError.ts';
+import { AnthropicNetworkError, AnthropicRateLimitError, AnthropicServiceError } from '../../adapters/anthropic/errors.ts';
+import { BedrockNetworkError, BedrockRateLimitError, BedrockServiceError } from '../../adapters/aws/errors.ts';
+import { CerebrasNetworkError, CerebrasRateLimitError } from '../../adapters/cerebras/errors.ts';
+import { GeminiNetworkError, GeminiRateLimitError } from '../../adapters/gemini/errors.ts';
+import {
+    OpenAICompatibleNetworkError,
+    OpenAICompatibleRateLimitError,
+    OpenAICompatibleServiceError
+} from '../../adapters/openai-compatible/errors.ts';
+import {
+    OpenAIResponseNetworkError,
+    OpenAIResponseRateLimitError,
+    OpenAIResponseServiceError
+} from '../../adapters/openai/errors.ts';
+import {
+    SiliconFlowNetworkError,
+    SiliconFlowRateLimitError,
+    SiliconFlowServiceError
+} from '../../adapters/siliconflow/errors.ts';
+
+export type FailoverTarget = {
+    provider: RegisteredProviders;
+    model: string;
+};
+
+export type FailoverOptions = {
+    /** Ordered fallback targets tried after the primary model fails. */
+    targets?: FailoverTarget[];
+    /** Continue with the next ranked ModelResolver candidates once explicit targets are exhausted. */
+    nextBest?: boolean;
+    /**
+     * Maximum number of fallback attempts after the primary attempt.
+     * @default 3
+     */
+    maxHops?: number;
+    /** Decides whether an error may move the request to the next target. Defaults to retryable provider errors. */
+    shouldFailover?: (error: unknown) => boolean;
+};
+
+/**
+ * Failover configuration accepted by LLMCaller and per-call options.
+ * - `FailoverTarget[]`: explicit ordered chain
+ * - `'next-best'`: next ranked candidates from the model resolver
+ * - `FailoverOptions`: both, with limits and a custom eligibility check
+ */
+export type FailoverOption = FailoverTarget[] | 'next-best' | FailoverOptions;
+
+export type NormalizedFailover = {
+    targets: FailoverTarget[];
+    nextBest: boolean;
+    maxHops: number;
+    shouldFailover: (error: unknown) => boolean;
+};
+
+export const DEFAULT_FAILOVER_MAX_HOPS = 3;
+
+/** Adapter error classes that report a provider outage: rate limits, 5xx responses and dropped connections. */
+const OUTAGE_ERROR_CLASSES: ReadonlyArray<abstract new (...args: never[]) => Error> = [
+    AnthropicRateLimitError, AnthropicNetworkError, AnthropicServiceError,
+    BedrockRateLimitError, BedrockNetworkError, BedrockServiceError,
+    CerebrasRateLimitError, CerebrasNetworkError,
+    GeminiRateLimitError, GeminiNetworkError,
+    OpenAICompatibleRateLimitError, OpenAICompatibleNetworkError, OpenAICompatibleServiceError,
+    OpenAIResponseRateLimitError, OpenAIResponseNetworkError, OpenAIResponseServiceError,
+    SiliconFlowRateLimitError, SiliconFlowNetworkError, SiliconFlowServiceError
+];
+
+/** Node and undici error codes for connections that failed or dropped. */
+const NETWORK_ERROR_CODES = new Set([
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ECONNABORTED',
+    'ETIMEDOUT',
+    'ENOTFOUND',
+    'EAI_AGAIN',
+    'EHOSTUNREACH',
+    'ENETUNREACH',
+    'EPIPE',
+    'UND_ERR_SOCKET',
+    'UND_ERR_CONNECT_TIMEOUT',
+    'UND_ERR_HEADERS_TIMEOUT',
+    'UND_ERR_BODY_TIMEOUT'
+]);
+
+/** Bounds the walk down `cause` chains. */
+const MAX_CAUSE_DEPTH = 5;
+
+export function normalizeFailoverOption(option?: FailoverOption | false): NormalizedFailover | undefined {
+    if (option === undefined || option === false) {
+        return undefined;
+    }
+
+    if (option === 'next-best') {
+        return {
+            targets: [],
+            nextBest: true,
+            maxHops: DEFAULT_FAILOVER_MAX_HOPS,
+            shouldFailover: isFailoverEligibleError
+        };
+    }
+
+    const options: FailoverOptions = Array.isArray(option) ? { targets: option } : option;
+    if (!options || typeof options !== 'object') {
+        throw new ModelSelectionConfigError('failover must be a target array, "next-best", or an options object');
+    }
+
+    const targets = (options.targets ?? []).map(normalizeFailoverTarget);
+    const nextBest = options.nextBest ?? false;
+    if (targets.length === 0 && !nextBest) {
+        throw new ModelSelectionConfigError('failover requires at least one target or nextBest: true');
+    }
+
+    const maxHops = options.maxHops ?? DEFAULT_FAILOVER_MAX_HOPS;
+    if (!Number.isInteger(maxHops) || maxHops < 1) {
+        throw new ModelSelectionConfigError('failover.maxHops must be a positive integer');
+    }
+
+    return {
+        targets,
+        nextBest,
+        maxHops,
+        shouldFailover: options.shouldFailover ?? isFailoverEligibleError
+    };
+}
+
+function normalizeFailoverTarget(target: FailoverTarget): FailoverTarget {
+    if (!target || typeof target.provider !== 'string' || target.provider.trim().length === 0) {
+        throw new ModelSelectionConfigError('failover target requires a non-empty provider');
+    }
+    if (typeof target.model !== 'string' || target.model.trim().length === 0) {
+        throw new ModelSelectionConfigError('failover target requires a non-empty model');
+    }
+    return { provider: target.provider, model: target.model };
+}
+
+/**
+ * Default failover eligibility: the error, or the last attempt RetryManager gave up on,
+ * must be a provider outage identified by type — an adapter rate-limit, network or service
+ * error, a retryable HTTP status, or a network error code. Messages are never parsed.
+ * Cancellation and budget errors never fail over.
+ */
+export function isFailoverEligibleError(error: unknown): boolean {
+    const failure = error instanceof RetryFailedError ? error.lastError : error;
+    return isProviderOutage(failure, 0);
+}
+
+function isProviderOutage(error: unknown, depth: number): boolean {
+    if (error === null || typeof error !== 'object' || depth > MAX_CAUSE_DEPTH) return false;
+    if (isLLMCancellationError(error) || error instanceof BudgetExceededError) return false;
+    if (OUTAGE_ERROR_CLASSES.some(ErrorClass => error instanceof ErrorClass)) return true;
+
+    const record = error as Record<string, unknown>;
+    const response = record.response !== null && typeof record.response === 'object'
+        ? record.response as Record<string, unknown>
+        : undefined;
+    const status = record.status ?? record.statusCode ?? response?.status;
+    if (typeof status === 'number') return isRetryableStatusCode(status);
+    if (typeof record.code === 'string' && NETWORK_ERROR_CODES.has(record.code)) return true;
+
+    // Adapter errors wrap the SDK error that carries the status or code
+    return isProviderOutage(record.cause, depth + 1);
+}
+
+/**
+ * Returns true once a stream chunk has delivered output to the consumer.
+ * After that point switching targets would mix responses from different models.
+ */
+export function hasStreamedContent(chunk: UniversalStreamResponse): boolean {
+    return Boolean(
+        chunk.content ||
+        chunk.reasoning ||
+        chunk.toolCalls?.length ||
+        chunk.image
+    );
+}
+
+export function isSameFailoverTarget(a: FailoverTarget, b: FailoverTarget): boolean {
+    return a.provider === b.provider && a.model === b.model;
+}
+
+/**
+ * Tracks the attempts of a single request across its failover chain.
+ */
+export class FailoverChain {
+    private readonly hops: ModelFailoverHop[] = [];
+    private readonly queue: FailoverTarget[];
+    private current: FailoverTarget;
+    private hopCount = 0;
+
+    constructor(
+        private readonly policy: NormalizedFailover,
+        primary: FailoverTarget,
+        targets: FailoverTarget[]
+    ) {
+        this.current = primary;
+        this.queue = targets.filter((target, index) =>
+            !isSameFailoverTarget(target, primary) &&
+            targets.findIndex(other => isSameFailoverTarget(other, target)) === index
+        );
+    }
+
+    public canFailover(error: unknown): boolean {
+        return this.policy.shouldFailover(error);
+    }
+
+    public recordFailure(error: unknown): void {
+        this.hops.push({
+            ...this.current,
+            outcome: 'failed',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+
+    public recordSkipped(target: FailoverTarget, error: unknown): void {
+        this.hops.push({
+            ...target,
+            outcome: 'skipped',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+
+    /**
+     * Moves to the next target, or returns undefined when the chain or hop budget is exhausted.
+     */
+    public next(): FailoverTarget | undefined {
+        if (this.hopCount >= this.policy.maxHops) return undefined;
+        const target = this.queue.shift();
+        if (!target) return undefined;
+        this.hopCount++;
+        this.current = target;
+        return target;
+    }
+
+    public getCurrent(): FailoverTarget {
+        return this.current;
+    }
+
+    public hasFailedOver(): boolean {
+        return this.hopCount > 0;
+    }
+
+    public getHops(): ModelFailoverHop[] {
+        return [...this.hops];
+    }
+}
+
+/**
+ * Thrown when every target in a failover chain failed.
+ * `hops` lists each attempt in order; `cause` is the last provider error.
+ */
+export class ProviderFailoverError extends Error {
+    public readonly hops: ModelFailoverHop[];
+    public readonly cause?: unknown;
+
+    constructor(hops: ModelFailoverHop[], options?: { cause?: unknown }) {
+        super([
+            'All failover targets failed',
+            ...hops.map(hop => `- ${hop.provider}/${hop.model} (${hop.outcome}): ${hop.error ?? 'unknown error'}`)
+        ].join('\n'));
+        this.name = 'ProviderFailoverError';
+        this.hops = hops;
+        this.cause = options?.cause;
+    }
+}
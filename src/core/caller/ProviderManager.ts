@@ -8,12 +8,14 @@ import type {
     VideoCallParams,
     LLMProviderAudio,
     LLMProviderRerank,
+    LLMProviderBatch,
     AudioOp
 } from '../../interfaces/LLMProvider.ts';
 import type { AdapterConfig } from '../../adapters/base/baseAdapter.ts';
 import { adapterRegistry, type RegisteredProviders } from '../../adapters/index.ts';
 import { ProviderNotFoundError } from '../../adapters/types.ts';
 import type {
+    ModelInfo,
     UniversalChatResponse,
     EmbeddingParams,
     EmbeddingResponse,
@@ -33,13 +35,15 @@ export class ProviderManager {
     private provider: LLMProvider;
     private currentProviderName: string;
 
-    constructor(providerName: RegisteredProviders, apiKey?: string) {
-        this.provider = this.createProvider(providerName, apiKey);
+    constructor(providerName: RegisteredProviders, apiKey?: string, baseUrl?: string, models?: readonly ModelInfo[]) {
+        this.provider = this.createProvider(providerName, apiKey, baseUrl, models);
         this.currentProviderName = providerName;
     }
 
-    private createProvider(providerName: string, apiKey?: string): LLMProvider {
+    private createProvider(providerName: string, apiKey?: string, baseUrl?: string, models?: readonly ModelInfo[]): LLMProvider {
         const config: Partial<AdapterConfig> = apiKey ? { apiKey } : {};
+        if (baseUrl) config.baseUrl = baseUrl;
+        if (models) config.models = models;
 
         const AdapterClass = adapterRegistry.get(providerName);
         if (!AdapterClass) {
@@ -148,6 +152,14 @@ export class ProviderManager {
         return provider.rerankCall(model, params, control);
     }
 
+    public supportsBatch(): boolean {
+        return typeof (this.provider as unknown as { batchSubmit?: unknown }).batchSubmit === 'function';
+    }
+
+    public getBatchProvider(): LLMProviderBatch | null {
+        return this.supportsBatch() ? this.provider as unknown as LLMProviderBatch : null;
+    }
+
     /** Video support checks */
     public supportsVideoGeneration(): boolean {
         return 'videoCall' in this.provider;
@@ -203,8 +215,8 @@ export class ProviderManager {
         return audioProvider.audioCall(model, op, params);
     }
 
-    public switchProvider(providerName: RegisteredProviders, apiKey?: string): void {
-        this.provider = this.createProvider(providerName, apiKey);
+    public switchProvider(providerName: RegisteredProviders, apiKey?: string, baseUrl?: string, models?: readonly ModelInfo[]): void {
+        this.provider = this.createProvider(providerName, apiKey, baseUrl, models);
         this.currentProviderName = providerName;
     }
 
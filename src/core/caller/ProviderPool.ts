@@ -1,5 +1,6 @@
 import type { LLMProvider } from '../../interfaces/LLMProvider.ts';
 import type { AdapterConfig } from '../../adapters/base/baseAdapter.ts';
+import type { ModelInfo } from '../../interfaces/UniversalInterfaces.ts';
 import type { AdapterConstructor } from '../../adapters/types.ts';
 import { ProviderNotFoundError } from '../../adapters/types.ts';
 import { adapterRegistry, type RegisteredProviders } from '../../adapters/index.ts';
@@ -26,6 +27,10 @@ export type ProviderPoolInterfaceSupport = {
 export type ProviderPoolOptions = {
     apiKey?: string;
     providerApiKeys?: Partial<Record<RegisteredProviders, string>>;
+    /** Base URL overrides, e.g. the server address for `openai-compatible`. */
+    providerBaseUrls?: Partial<Record<RegisteredProviders, string>>;
+    /** Catalog entries per provider, e.g. the models returned by `discoverOpenAICompatibleModels`. */
+    providerModels?: Partial<Record<RegisteredProviders, readonly ModelInfo[]>>;
     adapterConstructors?: Map<string, AdapterConstructor>;
 };
 
@@ -35,6 +40,8 @@ export class ProviderPool {
     private readonly constructors: Map<string, AdapterConstructor>;
     private readonly apiKey?: string;
     private readonly providerApiKeys: Partial<Record<RegisteredProviders, string>>;
+    private readonly providerBaseUrls: Partial<Record<RegisteredProviders, string>>;
+    private readonly providerModels: Partial<Record<RegisteredProviders, readonly ModelInfo[]>>;
 
     constructor(
         providerScope: RegisteredProviders | RegisteredProviders[],
@@ -44,6 +51,8 @@ export class ProviderPool {
         this.providerScope = this.normalizeProviderScope(providerScope);
         this.apiKey = options.apiKey;
         this.providerApiKeys = options.providerApiKeys ?? {};
+        this.providerBaseUrls = options.providerBaseUrls ?? {};
+        this.providerModels = options.providerModels ?? {};
     }
 
     public getProviderScope(): RegisteredProviders[] {
@@ -124,6 +133,11 @@ export class ProviderPool {
 
     private createConfig(provider: RegisteredProviders): Partial<AdapterConfig> {
         const apiKey = this.providerApiKeys[provider] ?? this.apiKey;
-        return apiKey ? { apiKey } : {};
+        const baseUrl = this.providerBaseUrls[provider];
+        const models = this.providerModels[provider];
+        const config: Partial<AdapterConfig> = apiKey ? { apiKey } : {};
+        if (baseUrl) config.baseUrl = baseUrl;
+        if (models) config.models = models;
+        return config;
     }
 }
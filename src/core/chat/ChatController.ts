@@ -14,6 +14,9 @@ import { shouldRetryDueToLLMError } from "../retry/utils/ShouldRetryDueToLLMErro
 import { logger } from '../../utils/logger.ts';
 import { ToolController } from '../tools/ToolController.ts';
 import { ToolOrchestrator } from '../tools/ToolOrchestrator.ts';
+import { formatToolLoopStopInstruction } from '../tools/ToolLoopGuard.ts';
+import { formatSchemaRepairInstruction, type SchemaRepairState } from './SchemaRepair.ts';
+import { SchemaValidationError } from '../schema/SchemaValidator.ts';
 import { HistoryManager } from '../history/HistoryManager.ts';
 import { HistoryTruncator } from '../history/HistoryTruncator.ts';
 import { TokenCalculator } from '../models/TokenCalculator.ts';
@@ -23,6 +26,18 @@ import type { TelemetryCollector } from '../telemetry/collector/TelemetryCollect
 import type { ConversationContext, LLMCallContext, PromptMessage } from '../telemetry/collector/types.ts'
 import type { ProviderExecutionContext } from '../caller/ProviderExecution.ts';
 import type { CallExecutionContext } from '../execution/CallExecutionContext.ts';
+import {
+    cloneCacheValue,
+    createCacheHitUsage,
+    createResponseCacheKey,
+    isCacheableResponse,
+    readResponseCache,
+    shouldReadResponseCache,
+    shouldWriteResponseCache,
+    writeResponseCache,
+    type ResponseCacheStore
+} from '../cache/ResponseCache.ts';
+import type { RateLimitScheduler } from '../ratelimit/RateLimitScheduler.ts';
 
 export class ChatController {
     // Keep track of the orchestrator - needed for recursive calls
@@ -33,6 +48,8 @@ export class ChatController {
     private mcpAdapterProvider: () => MCPServiceAdapter | null = () => null;
     private telemetryCollector?: TelemetryCollector;
     private conversationCtx?: ConversationContext;
+    private responseCache?: ResponseCacheStore;
+    private rateLimitScheduler?: RateLimitScheduler;
 
     constructor(
         private providerManager: ProviderManager,
@@ -78,19 +95,31 @@ export class ChatController {
         this.mcpAdapterProvider = provider;
     }
 
+    // Method for LLMCaller to set (or remove) the response cache
+    public setResponseCache(cache: ResponseCacheStore | undefined): void {
+        this.responseCache = cache;
+    }
+
+    // Method for LLMCaller to set the scheduler that queues provider requests behind rate limits
+    public setRateLimitScheduler(scheduler: RateLimitScheduler | undefined): void {
+        this.rateLimitScheduler = scheduler;
+    }
+
     // OpenTelemetry is now provided via TelemetryCollector provider; explicit setter removed
 
     /**
      * Executes a chat call using the provided parameters.
      *
      * @param params - The full UniversalChatParams object containing messages, settings, tools, etc.
+     * @param repair - Failed responses and repair model of a schema repair; set by the caller and by repair requests
      * @returns A promise resolving to the processed chat response.
      */
     async execute<T extends z.ZodType | undefined = undefined>(
         // Update signature to accept UniversalChatParams
         params: UniversalChatParams,
         execution?: ProviderExecutionContext,
-        context?: CallExecutionContext
+        context?: CallExecutionContext,
+        repair?: SchemaRepairState
     ): Promise<UniversalChatResponse<T extends z.ZodType ? z.infer<T> : unknown>> {
         const log = logger.createLogger({ prefix: 'ChatController.execute' });
         const usageTracker = context?.usageCallback
@@ -135,7 +164,15 @@ export class ChatController {
                     responseFormat: responseFormat === 'json' ? 'json' : 'text',
                     toolsEnabled: Boolean(tools && tools.length > 0),
                     toolsAvailable: toolsAvailable,
-                    settings
+                    settings,
+                    ...(params.mcpSampling ? { mcpSampling: params.mcpSampling } : {}),
+                    ...(params.schemaRepair && repair?.attempts.length ? {
+                        schemaRepair: {
+                            attempt: repair.attempts.length,
+                            maxAttempts: params.schemaRepair.maxAttempts,
+                            validationErrors: repair.attempts[repair.attempts.length - 1].validationErrors
+                        }
+                    } : {})
                 });
                 const promptMessages: PromptMessage[] = (messages || []).map((m, idx) => ({
                     role: m.role as any,
@@ -153,6 +190,10 @@ export class ChatController {
                 effectiveResponseFormat = 'json';
             }
 
+            // Tool calls of a model that ignores toolChoice 'none' are dropped from its response, so
+            // that a stopped tool loop ends with this response as the final answer
+            const toolCallsDisabled = params.settings?.toolChoice === 'none';
+
             // Get the model info early for history truncation
             const modelInfo = execution?.modelInfo ?? this.modelManager.getModel(model);
             if (!modelInfo) throw new Error(`Model ${model} not found`);
@@ -272,6 +313,21 @@ export class ChatController {
                 .reverse()
                 .find(m => m.role === 'user' && !m.metadata?.isFormatInstruction)?.content || '';
 
+            // Cached responses are looked up once, before the first attempt, and replayed through the
+            // same usage, retry and validation handling as provider responses.
+            const responseCache = params.cache === 'bypass' ? undefined : this.responseCache;
+            const cacheKey = responseCache
+                ? createResponseCacheKey('call', String(providerName), chatParamsForProvider)
+                : undefined;
+            let cacheLookupPending = Boolean(cacheKey) && shouldReadResponseCache(params.cache);
+
+            // Every request of the call, including tool-loop resubmissions and chunks, is checked against
+            // its budgets. The estimate stays reserved until the request's usage has been recorded.
+            const budgetGuard = params.budgetGuard;
+            const budgetReservation = budgetGuard?.reserve(
+                budgetGuard.estimate(validatedMessages, modelInfo, mergedSettings?.maxTokens)
+            );
+
             const effectiveMaxRetries = mergedSettings?.maxRetries ?? 3;
             const localRetryManager = new RetryManager({ baseDelay: 1000, maxRetries: effectiveMaxRetries });
 
@@ -279,20 +335,54 @@ export class ChatController {
             let response = await localRetryManager.executeWithRetry(
                 async () => {
                     const exec = async () => {
-                        const resp = context
-                            ? await context.awaitOrAbort(context.isControlled
-                                ? provider.chatCall(model, chatParamsForProvider, context)
-                                : provider.chatCall(model, chatParamsForProvider))
-                            : await provider.chatCall(model, chatParamsForProvider);
+                        const cached = responseCache && cacheKey && cacheLookupPending
+                            ? await readResponseCache(responseCache, cacheKey, 'call')
+                            : undefined;
+                        cacheLookupPending = false;
+                        const send = () => context?.isControlled
+                            ? provider.chatCall(model, chatParamsForProvider, context)
+                            : provider.chatCall(model, chatParamsForProvider);
+                        // Every attempt waits for its turn with the provider's rate limits
+                        const request = this.rateLimitScheduler
+                            ? () => this.rateLimitScheduler!.run(
+                                { provider: String(providerName).toLowerCase(), model },
+                                {
+                                    tokens: this.rateLimitScheduler!.estimate(
+                                        validatedMessages.map(message => message.content),
+                                        mergedSettings?.maxTokens
+                                    ),
+                                    signal: context?.signal
+                                },
+                                send
+                            )
+                            : send;
+                        const resp = cached
+                            ? cached.response
+                            : context
+                                ? await context.awaitOrAbort(request())
+                                : await request();
                         if (!resp) {
                             throw new Error('No response received from provider');
                         }
                         if (!resp.metadata) resp.metadata = {};
+                        // Snapshot the provider response before usage and validation change it
+                        const responseToCache = cacheKey && !cached && shouldWriteResponseCache(params.cache)
+                            ? cloneCacheValue(resp)
+                            : undefined;
+                        if (cacheKey) resp.metadata.cache = cached ? 'hit' : 'miss';
+                        if (toolCallsDisabled && ((resp.toolCalls?.length ?? 0) > 0 || resp.metadata.finishReason === FinishReason.TOOL_CALLS)) {
+                            log.warn('Dropping tool calls of a response requested with toolChoice none', { toolCalls: resp.toolCalls?.length ?? 0 });
+                            resp.toolCalls = undefined;
+                            if (resp.metadata.finishReason === FinishReason.TOOL_CALLS) resp.metadata.finishReason = FinishReason.STOP;
+                        }
 
                         const systemContentForUsage = systemMessageContent;
 
-                        // Only calculate tokens if the provider didn't include usage data
-                        if (!resp.metadata?.usage?.tokens?.input?.total) {
+                        if (cached) {
+                            log.debug('Serving response from cache');
+                            resp.metadata.usage = createCacheHitUsage();
+                        } else if (!resp.metadata?.usage?.tokens?.input?.total) {
+                            // Only calculate tokens if the provider didn't include usage data
                             const usageOptions = {
                                 inputImageTokens: resp.metadata?.usage?.tokens?.input?.image,
                                 outputImageTokens: resp.metadata?.usage?.tokens?.output?.image
@@ -337,6 +427,9 @@ export class ChatController {
                             }
                         }
 
+                        // Responses rejected by the retry checks below were still paid for
+                        budgetGuard?.recordUsage(resp.metadata.usage);
+
                         // Pass the complete response object to consider tool calls in the retry decision
                         const contentRetryResult = shouldRetryDueToContent(resp);
                         if (contentRetryResult.shouldRetry) {
@@ -360,16 +453,34 @@ export class ChatController {
                                 responseFormat: effectiveResponseFormat
                             };
 
-                            // This will throw if parsing/validation fails, triggering a retry
-                            const validated = await this.responseProcessor.validateResponse<T>(
-                                resp,
-                                validationParams,
-                                modelInfo,
-                                { usePromptInjection, useSchemaInjection }
-                            );
+                            // This will throw if parsing/validation fails, triggering a retry.
+                            // With schemaRepair, the failed response is returned and repaired below instead.
+                            let validated: UniversalChatResponse<T extends z.ZodType ? z.infer<T> : unknown>;
+                            try {
+                                validated = await this.responseProcessor.validateResponse<T>(
+                                    resp,
+                                    validationParams,
+                                    modelInfo,
+                                    { usePromptInjection, useSchemaInjection }
+                                );
+                            } catch (error) {
+                                if (!params.schemaRepair || !(error instanceof Error)) throw error;
+                                validated = {
+                                    ...resp,
+                                    metadata: { ...resp.metadata, validationErrors: [{ message: error.message, path: [] }] }
+                                } as UniversalChatResponse<T extends z.ZodType ? z.infer<T> : unknown>;
+                            }
                             if (!validated || (validated.metadata?.validationErrors?.length ?? 0) > 0) {
+                                if (params.schemaRepair && validated) return validated;
                                 throw new Error('Failed to validate response');
                             }
+                            if (responseCache && cacheKey && responseToCache && isCacheableResponse(responseToCache)) {
+                                await writeResponseCache(responseCache, cacheKey, {
+                                    kind: 'call',
+                                    createdAt: Date.now(),
+                                    response: responseToCache
+                                });
+                            }
                             return validated;
                         }
 
@@ -384,7 +495,7 @@ export class ChatController {
                     return shouldRetryDueToLLMError(error);
                 },
                 context
-            );
+            ).finally(() => budgetReservation?.release());
 
             // Ensure we have a valid response object before validation
             if (!response) {
@@ -417,6 +528,58 @@ export class ChatController {
                 }
             }
 
+            // A response that fails the jsonSchema is sent back with its validation errors. Each repair
+            // request runs through execute() with its own LLM span, until it passes or the attempts run out.
+            const schemaRepair = params.schemaRepair;
+            const repairErrors = schemaRepair && !hasToolCalls ? response.metadata?.validationErrors : undefined;
+            if (schemaRepair && repairErrors?.length) {
+                const previousOutput = response.metadata?.originalContent ?? response.content ?? '';
+                if (telemetryCollector && llmCtx) {
+                    telemetryCollector.addChoice(llmCtx, {
+                        content: previousOutput,
+                        contentLength: previousOutput.length,
+                        index: 0,
+                        finishReason: response.metadata?.finishReason || 'stop'
+                    });
+                    telemetryCollector.endLLM(llmCtx, response.metadata?.usage as any, response.metadata?.model);
+                    llmSpanEnded = true;
+                }
+
+                const previousAttempts = repair?.attempts ?? [];
+                const attempts = [...previousAttempts, { attempt: previousAttempts.length, model, validationErrors: repairErrors }];
+                if (attempts.length > schemaRepair.maxAttempts) {
+                    throw new SchemaValidationError(
+                        `Response did not match the JSON schema after ${schemaRepair.maxAttempts} repair attempts`,
+                        repairErrors.map(error => ({ path: error.path.join('.'), message: error.message }))
+                    );
+                }
+
+                log.debug('Response failed the JSON schema; requesting a repair', { attempt: attempts.length, model: repair?.target?.model ?? model });
+                // The failed output stays out of the history; the repaired response is added below
+                const repairParams: UniversalChatParams = {
+                    ...params,
+                    model: repair?.target?.model ?? model,
+                    messages: [
+                        ...messagesForProvider,
+                        { role: 'assistant', content: previousOutput },
+                        { role: 'user', content: formatSchemaRepairInstruction(repairErrors) }
+                    ],
+                    tools: undefined,
+                    historyMode: 'stateless'
+                };
+                finalResponse = await this.execute<T>(
+                    repairParams,
+                    repair?.target?.execution ?? execution,
+                    context,
+                    { ...repair, attempts }
+                );
+            } else if (schemaRepair && repair?.attempts.length) {
+                finalResponse = {
+                    ...response,
+                    metadata: { ...response.metadata, schemaRepair: { attempts: repair.attempts } }
+                };
+            }
+
             // Process tool calls if detected in the response
             if (hasToolCalls && this.toolController && this.toolOrchestrator && this.historyManager) {
                 log.debug('Tool calls detected, processing...');
@@ -442,26 +605,33 @@ export class ChatController {
                 // Track how many messages we had before tool execution
                 const historyCountBeforeTools = this.historyManager.getMessages(true).length;
 
-                const toolProcessing = context?.needsPropagation
-                    ? this.toolOrchestrator.processToolCalls(
-                        response,
-                        params.tools || [],
-                        this.mcpAdapterProvider,
-                        context
-                    )
-                    : this.toolOrchestrator.processToolCalls(
-                        response,
-                        params.tools || [],
-                        this.mcpAdapterProvider
-                    );
-                const { requiresResubmission } = await toolProcessing;
+                const { requiresResubmission, loopStop } = await this.toolOrchestrator.processToolCalls(
+                    response,
+                    params.tools || [],
+                    this.mcpAdapterProvider,
+                    context?.needsPropagation ? context : undefined,
+                    params.toolApproval,
+                    undefined,
+                    params.toolLoopPolicy,
+                    params.budgetGuard
+                );
 
                 // Fetch exactly the new tool messages added by ToolOrchestrator
                 const currentHistoryMessages = this.historyManager.getMessages(true);
                 const newToolMessages = currentHistoryMessages.slice(historyCountBeforeTools);
                 loopMessages = [...loopMessages, ...newToolMessages];
 
-                if (requiresResubmission) {
+                if (loopStop && params.toolLoopPolicy?.onStop === 'return') {
+                    log.debug('Tool loop stopped; returning the transcript so far', { reason: loopStop.reason });
+                    finalResponse = {
+                        ...response,
+                        metadata: { ...response.metadata, toolLoopStop: { ...loopStop, transcript: loopMessages } }
+                    };
+                } else if (requiresResubmission) {
+                    if (loopStop) {
+                        // The model is told why the loop stopped and has to answer without more tools
+                        loopMessages.push({ role: 'system', content: formatToolLoopStopInstruction(loopStop) });
+                    }
                     log.debug('Tool results require resubmission to model.');
                     log.debug('Resubmitting with updated messages including tool results');
 
@@ -471,10 +641,13 @@ export class ChatController {
                         messages: loopMessages.filter(m =>
                             !(m.role === 'user' && (m.metadata?.isFormatInstruction || String(m.content).startsWith('Format instructions:')))
                         ), // Use updated history, filtering out existing format instructions
-                        tools: undefined, // No tools needed for resubmission
+                        // No tools are needed for a resubmission. A stopped loop keeps the tool definitions
+                        // for its toolChoice 'none', which providers reject without tools.
+                        tools: loopStop ? params.tools : undefined,
                         settings: {
                             ...params.settings,
-                            toolChoice: undefined // No tool choice needed
+                            // A stopped loop ends with an answer that calls no more tools
+                            toolChoice: loopStop ? 'none' as const : undefined
                         },
                         jsonSchema: jsonSchema, // Explicitly pass original schema
                         responseFormat: effectiveResponseFormat // Explicitly pass original format
@@ -0,0 +1,29 @@
+import type { UniversalChatParams } from '../../interfaces/UniversalInterfaces.ts';
+
+/**
+ * Fields of UniversalChatParams that providers read. The others, such as the cache mode, budgets
+ * and tool loop controls, are for the controllers only.
+ */
+const PROVIDER_PARAM_KEYS: readonly (keyof UniversalChatParams)[] = [
+    'model',
+    'messages',
+    'settings',
+    'tools',
+    'jsonSchema',
+    'responseFormat',
+    'systemMessage',
+    'callerId',
+    'historyMode'
+];
+
+/**
+ * Copies the fields providers read from a request, so options added for the controllers are not
+ * sent to providers.
+ */
+export function toProviderParams(params: UniversalChatParams): UniversalChatParams {
+    const providerParams: Partial<Record<keyof UniversalChatParams, unknown>> = {};
+    for (const key of PROVIDER_PARAM_KEYS) {
+        if (params[key] !== undefined) providerParams[key] = params[key];
+    }
+    return providerParams as UniversalChatParams;
+}
@@ -0,0 +1,27 @@
+import type { SchemaRepairAttempt } from '../../interfaces/UniversalInterfaces.ts';
+import type { ProviderExecutionContext } from '../caller/ProviderExecution.ts';
+
+export const DEFAULT_SCHEMA_REPAIR_ATTEMPTS = 2;
+
+/** Model and provider of the repair requests, when the schemaRepair option names a model */
+export type SchemaRepairTarget = {
+    model: string;
+    execution: ProviderExecutionContext;
+};
+
+/** Repair state of one response, passed between ChatController.execute() calls */
+export type SchemaRepairState = {
+    target?: SchemaRepairTarget;
+    /** Failed responses so far */
+    attempts: SchemaRepairAttempt[];
+};
+
+/** Instruction of a repair request, sent after the model's previous output. */
+export function formatSchemaRepairInstruction(validationErrors: SchemaRepairAttempt['validationErrors']): string {
+    const errors = validationErrors
+        .map(error => `- ${error.path.length > 0 ? error.path.join('.') : '(root)'}: ${error.message}`)
+        .join('\n');
+    return 'Your previous response did not match the required JSON schema.\n\n' +
+        `Validation errors:\n${errors}\n\n` +
+        'Respond with the corrected JSON only. Keep the values that were valid.';
+}
@@ -17,9 +17,11 @@ import { ChatController } from '../chat/ChatController.ts';
 import { StreamController } from '../streaming/StreamController.ts';
 import { HistoryManager } from '../history/HistoryManager.ts';
 import { toMessageParts } from '../../interfaces/UniversalInterfaces.ts';
-import type { ToolDefinition } from '../../types/tooling.ts';
+import type { ToolApprovalHandler, ToolDefinition, ToolLoopPolicy } from '../../types/tooling.ts';
 import type { ProviderExecutionContext } from '../caller/ProviderExecution.ts';
 import type { CallExecutionContext } from '../execution/CallExecutionContext.ts';
+import type { SchemaRepairTarget } from '../chat/SchemaRepair.ts';
+import type { BudgetGuard } from '../budget/BudgetTracker.ts';
 
 /**
  * Error thrown when chunk iteration limit is exceeded
@@ -61,6 +63,11 @@ export type ChunkProcessingParams = {
     historyMode?: HistoryMode; // New: history mode for chunk processing
     maxIterations?: number; // New: max iterations for this sequence
     maxParallelRequests?: number; // New: max parallel requests (batch size)
+    budgetGuard?: BudgetGuard; // Budgets every chunk request counts against
+    toolApproval?: ToolApprovalHandler; // Decides on calls of tools that require approval
+    toolLoopPolicy?: ToolLoopPolicy; // Limits for each chunk's tool loop
+    schemaRepair?: { maxAttempts: number }; // Repairs chunk responses that fail the jsonSchema
+    schemaRepairTarget?: SchemaRepairTarget; // Model and provider of the repair requests
     execution?: ProviderExecutionContext;
     context?: CallExecutionContext;
 };
@@ -178,6 +185,10 @@ export class ChunkController {
                 jsonSchema: params.jsonSchema,
                 responseFormat: params.responseFormat,
                 tools: params.tools,
+                budgetGuard: params.budgetGuard,
+                toolApproval: params.toolApproval,
+                toolLoopPolicy: params.toolLoopPolicy,
+                ...(params.schemaRepair ? { schemaRepair: params.schemaRepair } : {}),
                 // Add callerId if needed by ChatController
                 // callerId: this.callerId // Assuming callerId is accessible or passed down
             };
@@ -190,11 +201,12 @@ export class ChunkController {
             });
 
             // Call execute with the full UniversalChatParams object
-            const response = params.context?.needsPropagation
-                ? await this.chatController.execute(chatParams, params.execution, params.context)
-                : params.execution
-                    ? await this.chatController.execute(chatParams, params.execution)
-                    : await this.chatController.execute(chatParams);
+            const response = await this.chatController.execute(
+                chatParams,
+                params.execution,
+                params.context?.needsPropagation ? params.context : undefined,
+                params.schemaRepairTarget ? { target: params.schemaRepairTarget, attempts: [] } : undefined
+            );
 
             log.debug('Received response from ChatController', {
                 iteration: iterationCount,
@@ -306,6 +318,9 @@ export class ChunkController {
                 jsonSchema: params.jsonSchema,
                 responseFormat: params.responseFormat,
                 tools: params.tools,
+                budgetGuard: params.budgetGuard,
+                toolApproval: params.toolApproval,
+                toolLoopPolicy: params.toolLoopPolicy,
             };
 
             // Calculate input tokens using the correct method name
@@ -441,15 +456,20 @@ export class ChunkController {
                     settings: params.settings,
                     jsonSchema: params.jsonSchema,
                     responseFormat: params.responseFormat,
-                    tools: params.tools
+                    tools: params.tools,
+                    budgetGuard: params.budgetGuard,
+                    toolApproval: params.toolApproval,
+                    toolLoopPolicy: params.toolLoopPolicy,
+                    ...(params.schemaRepair ? { schemaRepair: params.schemaRepair } : {})
                 };
 
                 try {
-                    const response = params.context?.needsPropagation
-                        ? await this.chatController.execute(chunkChatParams, params.execution, params.context)
-                        : params.execution
-                            ? await this.chatController.execute(chunkChatParams, params.execution)
-                            : await this.chatController.execute(chunkChatParams);
+                    const response = await this.chatController.execute(
+                        chunkChatParams,
+                        params.execution,
+                        params.context?.needsPropagation ? params.context : undefined,
+                        params.schemaRepairTarget ? { target: params.schemaRepairTarget, attempts: [] } : undefined
+                    );
 
                     // Store result in the correct position
                     results[globalIndex] = response;
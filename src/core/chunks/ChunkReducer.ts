@@ -0,0 +1,226 @@
+import type {
+    ChunkReduceOptions,
+    ChunkReduceStrategy,
+    JSONSchemaDefinition,
+    UniversalChatResponse,
+    UniversalMessage,
+    Usage
+} from '../../interfaces/UniversalInterfaces.ts';
+import { SchemaValidator } from '../schema/SchemaValidator.ts';
+import { isZodSchema } from '../schema/SchemaFormatter.ts';
+import { jsonSchemaToZod } from '../schema/JsonSchemaToZod.ts';
+import { sumUsages } from '../telemetry/UsageNormalizer.ts';
+
+const DEFAULT_SEPARATOR = '\n\n';
+const DEFAULT_FAN_IN = 5;
+
+/** Sends one combine request of the 'llm' strategy. */
+export type ChunkAnswerCombiner = (messages: UniversalMessage[]) => Promise<UniversalChatResponse>;
+
+export type ChunkReduceRequest = {
+    /** Text of the original request, repeated in the combine requests. */
+    text?: string;
+    jsonSchema?: { name?: string; schema: JSONSchemaDefinition };
+    /** Required for the 'llm' strategy. */
+    combine?: ChunkAnswerCombiner;
+};
+
+type JsonSchemaNode = {
+    type?: string | string[];
+    properties?: Record<string, JsonSchemaNode>;
+};
+
+/**
+ * Merges the responses of a chunked call into one response. Its usage is the sum of the chunk
+ * responses and the combine requests; with a `jsonSchema`, the merged contentObject is validated
+ * against it.
+ * @throws TypeError for the 'concat' strategy with a `jsonSchema` whose root is not an array
+ * @throws SchemaValidationError if the merged contentObject does not match the `jsonSchema`
+ */
+export async function reduceChunkResponses(
+    responses: UniversalChatResponse[],
+    reduce: ChunkReduceStrategy | ChunkReduceOptions,
+    request: ChunkReduceRequest = {}
+): Promise<UniversalChatResponse> {
+    if (responses.length === 0) {
+        throw new Error('reduceChunkResponses: no responses');
+    }
+    checkChunkReduceSchema(reduce, request.jsonSchema);
+    const options = resolveChunkReduceOptions(reduce);
+
+    let reduced: Pick<UniversalChatResponse, 'content' | 'contentObject' | 'metadata'>;
+    const combineResponses: UniversalChatResponse[] = [];
+    if (options.strategy === 'llm') {
+        if (!request.combine) {
+            throw new Error("The 'llm' reduce strategy requires a combiner");
+        }
+        let answers = responses;
+        while (answers.length > 1) {
+            const groups: UniversalChatResponse[][] = [];
+            for (let i = 0; i < answers.length; i += options.fanIn) {
+                groups.push(answers.slice(i, i + options.fanIn));
+            }
+            answers = await Promise.all(groups.map(async group => {
+                if (group.length === 1) return group[0];
+                const combined = await request.combine!(formatCombineMessages(group, request.text, options.instructions));
+                combineResponses.push(combined);
+                return combined;
+            }));
+        }
+        // A combine request with the jsonSchema has already been validated
+        reduced = answers[0];
+    } else {
+        const merged = options.strategy === 'concat'
+            ? concatAnswers(responses, options.separator)
+            : mergeAnswers(responses, options.strategy, request.jsonSchema?.schema);
+        reduced = {
+            ...merged,
+            contentObject: request.jsonSchema ? validateReduced(merged.contentObject, request.jsonSchema.schema) : merged.contentObject
+        };
+    }
+
+    const usages = [...responses, ...combineResponses]
+        .map(response => response.metadata?.usage)
+        .filter((usage): usage is Usage => Boolean(usage));
+    const last = responses[responses.length - 1];
+    return {
+        role: 'assistant',
+        content: reduced.content,
+        ...(reduced.contentObject !== undefined ? { contentObject: reduced.contentObject } : {}),
+        metadata: {
+            ...last.metadata,
+            ...reduced.metadata,
+            ...(usages.length > 0 ? { usage: sumUsages(usages) } : {}),
+            processInfo: { currentChunk: responses.length, totalChunks: responses.length, reducedWith: options.strategy }
+        }
+    };
+}
+
+/**
+ * Checks that the strategy can reduce answers of the `jsonSchema` before any chunk is sent.
+ * 'concat' joins the answers as text, so it only produces JSON of a root array schema.
+ * @throws TypeError for the 'concat' strategy with a `jsonSchema` whose root is not an array
+ */
+export function checkChunkReduceSchema(
+    reduce: ChunkReduceStrategy | ChunkReduceOptions,
+    jsonSchema?: { schema: JSONSchemaDefinition }
+): void {
+    const strategy = typeof reduce === 'string' ? reduce : reduce.strategy;
+    if (strategy !== 'concat' || !jsonSchema) return;
+    if (schemaType(SchemaValidator.getSchemaObject(jsonSchema.schema) as JsonSchemaNode) !== 'array') {
+        throw new TypeError("The 'concat' reduce strategy cannot merge JSON objects; use 'json-merge-arrays', 'deep-merge' or 'llm' with this jsonSchema");
+    }
+}
+
+/** Messages of a combine request that merges partial answers into one answer to the original request. */
+export function formatCombineMessages(answers: UniversalChatResponse[], text?: string, instructions?: string): UniversalMessage[] {
+    const system = 'You combine partial answers into one answer. Each partial answer was given for one part of an input ' +
+        'that was too large to process at once. Merge them into a single answer to the original request: keep every ' +
+        'relevant fact, drop duplicates and resolve overlaps between the parts.' +
+        (instructions ? `\n\n${instructions}` : '');
+    const partials = answers
+        .map((answer, index) => `Partial answer ${index + 1}:\n${answerText(answer)}`)
+        .join('\n\n');
+    return [
+        { role: 'system', content: system },
+        { role: 'user', content: `${text ? `Original request:\n${text}\n\n` : ''}${partials}` }
+    ];
+}
+
+function resolveChunkReduceOptions(reduce: ChunkReduceStrategy | ChunkReduceOptions): ChunkReduceOptions & { separator: string; fanIn: number } {
+    const options = typeof reduce === 'string' ? { strategy: reduce } : reduce;
+    const fanIn = options.fanIn ?? DEFAULT_FAN_IN;
+    if (!Number.isInteger(fanIn) || fanIn < 2) {
+        throw new RangeError(`reduce.fanIn must be an integer of at least 2, got ${fanIn}`);
+    }
+    return { ...options, separator: options.separator ?? DEFAULT_SEPARATOR, fanIn };
+}
+
+function concatAnswers(responses: UniversalChatResponse[], separator: string): Pick<UniversalChatResponse, 'content' | 'contentObject'> {
+    const objects = responses.map(response => response.contentObject);
+    return {
+        content: responses.map(response => response.content ?? '').filter(Boolean).join(separator),
+        ...(objects.every(Array.isArray) ? { contentObject: (objects as unknown[][]).flat() } : {})
+    };
+}
+
+function mergeAnswers(
+    responses: UniversalChatResponse[],
+    strategy: 'json-merge-arrays' | 'deep-merge',
+    schema?: JSONSchemaDefinition
+): Pick<UniversalChatResponse, 'content' | 'contentObject'> {
+    const values = responses.map(answerObject).filter(value => value !== undefined);
+    const merged = strategy === 'deep-merge'
+        ? deepMerge(values, schema ? SchemaValidator.getSchemaObject(schema) as JsonSchemaNode : undefined)
+        : mergeArrays(values);
+    return { content: JSON.stringify(merged), contentObject: merged };
+}
+
+/** Concatenates arrays at the top level; other fields keep their first value. */
+function mergeArrays(values: unknown[]): unknown {
+    if (values.every(Array.isArray)) return (values as unknown[][]).flat();
+    if (!values.every(isPlainObject)) return firstValue(values);
+    const keys = [...new Set(values.flatMap(value => Object.keys(value as Record<string, unknown>)))];
+    return Object.fromEntries(keys.map(key => {
+        const fieldValues = values.map(value => (value as Record<string, unknown>)[key]);
+        const arrays = fieldValues.filter(Array.isArray);
+        return [key, arrays.length > 0 ? arrays.flat() : firstValue(fieldValues)];
+    }));
+}
+
+/** Merges arrays and objects per property, along the schema where it describes them; mismatched values keep their first value. */
+function deepMerge(values: unknown[], schema?: JsonSchemaNode): unknown {
+    const defined = values.filter(value => value !== undefined && value !== null);
+    const type = schemaType(schema);
+
+    if (defined.length > 0 && defined.every(Array.isArray) && type !== 'object') {
+        const seen = new Set<string>();
+        return (defined as unknown[][]).flat().filter(item => {
+            const key = JSON.stringify(item);
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+    }
+    if (defined.length > 0 && defined.every(isPlainObject) && type !== 'array') {
+        const objects = defined as Record<string, unknown>[];
+        const keys = [...new Set(objects.flatMap(object => Object.keys(object)))];
+        return Object.fromEntries(keys.map(key => [
+            key,
+            deepMerge(objects.map(object => object[key]), schema?.properties?.[key])
+        ]));
+    }
+    return firstValue(values);
+}
+
+function validateReduced(value: unknown, schema: JSONSchemaDefinition): unknown {
+    const zodSchema = isZodSchema(schema) ? schema : jsonSchemaToZod(JSON.parse(schema as string));
+    return SchemaValidator.validate(value, zodSchema);
+}
+
+function answerObject(response: UniversalChatResponse): unknown {
+    if (response.contentObject !== undefined) return response.contentObject;
+    if (!response.content) return undefined;
+    try {
+        return JSON.parse(response.content);
+    } catch {
+        return undefined;
+    }
+}
+
+function answerText(response: UniversalChatResponse): string {
+    if (response.content) return response.content;
+    return response.contentObject !== undefined ? JSON.stringify(response.contentObject) : '';
+}
+
+function schemaType(schema?: JsonSchemaNode): string | undefined {
+    return Array.isArray(schema?.type) ? schema.type.find(entry => entry !== 'null') : schema?.type;
+}
+
+function firstValue(values: unknown[]): unknown {
+    return values.find(value => value !== undefined && value !== null) ?? values.find(value => value !== undefined);
+}
+
+function isPlainObject(value: unknown): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -7,6 +7,7 @@ import type { UsageCallback } from '../../interfaces/UsageInterfaces.ts';
 import { UsageTracker } from '../telemetry/UsageTracker.ts';
 import { normalizeUsage } from '../telemetry/UsageNormalizer.ts';
 import { TokenCalculator } from '../models/TokenCalculator.ts';
+import type { RateLimitBinding } from '../ratelimit/RateLimitScheduler.ts';
 
 export class EmbeddingController {
     private log = logger.createLogger({ prefix: 'EmbeddingController' });
@@ -17,7 +18,8 @@ export class EmbeddingController {
         private modelManager: ModelManager,
         private tokenCalculator: TokenCalculator,
         private globalUsageCallback?: UsageCallback,
-        private callerId?: string
+        private callerId?: string,
+        private rateLimit?: RateLimitBinding
     ) {
         this.usageTracker = new UsageTracker(
             this.tokenCalculator,
@@ -45,8 +47,16 @@ export class EmbeddingController {
             // Calculate input tokens for usage tracking
             const inputTokens = this.calculateInputTokens(params.input, params.model);
 
-            // Generate embeddings
-            const response = await this.adapter.embeddingCall(params.model, params);
+            // Generate embeddings, waiting for a turn with the provider's rate limits
+            const embeddingCall = this.adapter.embeddingCall.bind(this.adapter);
+            const send = () => embeddingCall(params.model, params);
+            const response = this.rateLimit
+                ? await this.rateLimit.scheduler.run(
+                    { provider: this.rateLimit.provider, model: params.model },
+                    { tokens: inputTokens },
+                    send
+                )
+                : await send();
 
             // Track usage for global callback (if configured)
             try {
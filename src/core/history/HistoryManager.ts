@@ -28,9 +28,9 @@ export class HistoryManager {
         else this.baseHistoricalMessages = messages;
     }
 
-    /** Begin an isolated history view for a controlled call. */
+    /** Begin an isolated history view for a controlled call, nested in the enclosing transaction if any. */
     public beginTransaction(): HistoryTransaction {
-        const baseSnapshot = this.baseHistoricalMessages.map(message => ({ ...message }));
+        const baseSnapshot = this.historicalMessages.map(message => ({ ...message }));
         return {
             baseSnapshot,
             messages: baseSnapshot.map(message => ({ ...message })),
@@ -42,7 +42,7 @@ export class HistoryManager {
         return this.transactionStorage.run(transaction, operation);
     }
 
-    /** Commit only this call's appended messages when the base history was unchanged. */
+    /** Commit only this call's appended messages when the base history was unchanged. Commits go to the enclosing transaction if any. */
     public commitTransaction(transaction: HistoryTransaction): void {
         if (transaction.committed) return;
         transaction.committed = true;
@@ -52,9 +52,9 @@ export class HistoryManager {
             );
         if (prefixUnchanged) {
             const appended = transaction.messages.slice(transaction.baseSnapshot.length);
-            this.baseHistoricalMessages.push(...appended);
+            this.historicalMessages.push(...appended);
         } else {
-            this.baseHistoricalMessages = transaction.messages.map(message => ({ ...message }));
+            this.historicalMessages = transaction.messages.map(message => ({ ...message }));
         }
     }
 
@@ -205,6 +205,7 @@ export class HistoryManager {
         const base: Partial<UniversalMessage> = {
             role,
             content: msg.content || '',
+            ...(msg.cacheControl ? { cacheControl: msg.cacheControl } : {}),
             ...(msg.metadata ? { metadata: msg.metadata } : {})
         };
 
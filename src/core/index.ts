@@ -83,7 +83,8 @@ export type {
     ResolvedModel,
     ModelResolution,
     ModelResolutionCandidate,
-    ModelResolutionErrorDetails
+    ModelResolutionErrorDetails,
+    ModelFailoverHop
 } from './models/ModelResolver.ts';
 export {
     MODEL_PRESETS,
@@ -123,6 +124,24 @@ export type {
     ProviderPoolInterfaceSupport,
     ProviderPoolOptions
 } from './caller/ProviderPool.ts';
+export {
+    ProviderFailoverError,
+    normalizeFailoverOption,
+    isFailoverEligibleError
+} from './caller/ProviderFailover.ts';
+export type {
+    FailoverOption,
+    FailoverOptions,
+    FailoverTarget
+} from './caller/ProviderFailover.ts';
+
+// Response cache exports
+export { MemoryResponseCache } from './cache/MemoryResponseCache.ts';
+export type { MemoryResponseCacheOptions } from './cache/MemoryResponseCache.ts';
+export { FileResponseCache } from './cache/FileResponseCache.ts';
+export type { FileResponseCacheOptions } from './cache/FileResponseCache.ts';
+export { createResponseCacheKey } from './cache/ResponseCache.ts';
+export type { ResponseCacheEntry, ResponseCacheStore } from './cache/ResponseCache.ts';
 
 // Core streaming exports
 export { StreamController } from './streaming/StreamController.ts';
@@ -138,7 +157,7 @@ export { SchemaValidator } from './schema/SchemaValidator.ts';
 export { SchemaFormatter } from './schema/SchemaFormatter.ts';
 
 // Core retry functionality
-export { RetryManager } from './retry/RetryManager.ts';
+export { RetryManager, RetryFailedError } from './retry/RetryManager.ts';
 export { CallExecutionContext, validateTimeoutMs } from './execution/CallExecutionContext.ts';
 export { LLMAbortError, LLMTimeoutError, isLLMCancellationError } from './execution/errors.ts';
 export type { LLMExecutionControl, LLMTerminalReason } from '../interfaces/ExecutionInterfaces.ts';
@@ -175,6 +194,8 @@ export type {
     MCPTransportType,
     MCPHttpMode,
     MCPAuthConfig,
+    MCPSamplingConfig,
+    MCPReconnectConfig,
     MCPToolError
 } from './mcp/MCPConfigTypes.ts';
 
@@ -187,9 +208,32 @@ export {
 } from './mcp/MCPConfigTypes.ts';
 
 export type { MCPDirectAccess } from './mcp/MCPDirectAccess.ts';
+export type { MCPServiceAdapterOptions } from './mcp/MCPServiceAdapter.ts';
+export { LLMCallerMCPServer } from './mcp/LLMCallerMCPServer.ts';
+export type { LLMCallerMCPServerOptions, LLMCallerMCPHttpOptions, LLMCallerMCPMethod } from './mcp/LLMCallerMCPServer.ts';
+export type {
+    MCPSamplingRequest,
+    MCPSamplingResult,
+    MCPSamplingHandler,
+    MCPSamplingDecision,
+    MCPSamplingApprovalHandler,
+    MCPSamplingModelPreferences
+} from './mcp/MCPSampling.ts';
+export type {
+    MCPElicitationSchema,
+    MCPElicitationContent,
+    MCPElicitationResult,
+    MCPElicitationHandler
+} from './mcp/MCPElicitation.ts';
 
 export type {
     MCPRequestOptions,
+    MCPToolCallOrigin,
+    MCPConnectionState,
+    MCPConnectionStateEvent,
+    MCPConnectionStateHandler,
+    MCPListChangedKind,
+    MCPResourceUpdatedHandler,
     Resource,
     ReadResourceParams,
     ReadResourceResult,
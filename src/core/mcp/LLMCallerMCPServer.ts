@@ -0,0 +1,551 @@
+/**
+ * Publishes an LLMCaller as an MCP server, so other agents and IDEs can use it over stdio
+ * or Streamable HTTP.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { realpath } from 'node:fs/promises';
+import { createServer, type Server as HttpServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import * as path from 'node:path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+    CallToolRequestSchema,
+    ErrorCode,
+    ListResourcesRequestSchema,
+    ListToolsRequestSchema,
+    McpError,
+    ReadResourceRequestSchema,
+    type CallToolResult,
+    type Tool
+} from '@modelcontextprotocol/sdk/types.js';
+import type { LLMCaller } from '../caller/LLMCaller.ts';
+import type { HistoryTransaction } from '../history/HistoryManager.ts';
+import { formatInvalidToolArguments, validateToolArguments } from '../tools/ToolArgumentValidator.ts';
+import type { ToolDefinition } from '../../types/tooling.ts';
+import { Logger, logger } from '../../utils/logger.ts';
+
+/** LLMCaller methods that can be published as MCP tools. */
+export type LLMCallerMCPMethod = 'call' | 'embeddings' | 'rerank' | 'transcribe';
+
+export type LLMCallerMCPServerOptions = {
+    /**
+     * Server name reported to clients.
+     * @default 'callllm'
+     */
+    name?: string;
+    /**
+     * Server version reported to clients.
+     * @default '1.0.0'
+     */
+    version?: string;
+    /**
+     * LLMCaller methods published as tools.
+     * @default ['call', 'embeddings', 'rerank', 'transcribe']
+     */
+    methods?: LLMCallerMCPMethod[];
+    /**
+     * Publish the caller's local tools: registered ToolDefinitions and the functions of its toolsDir.
+     * Tools with `requiresApproval` are never published, since MCP clients bypass the approval callback.
+     * @default true
+     */
+    tools?: boolean;
+    /**
+     * Expose the conversation history as resources.
+     * @default true
+     */
+    history?: boolean;
+    /**
+     * Directory from which the transcribe tool may read local audio files. Paths are resolved
+     * against it and must stay inside it. Without it, the tool only accepts http(s) URLs and
+     * data URIs, so clients cannot make the server read its files.
+     */
+    audioFileRoot?: string;
+};
+
+export type LLMCallerMCPHttpOptions = {
+    /**
+     * Port to listen on; 0 picks a free port.
+     * @default 3000
+     */
+    port?: number;
+    /**
+     * Host to bind to.
+     * @default '127.0.0.1'
+     */
+    host?: string;
+    /**
+     * Path of the MCP endpoint.
+     * @default '/mcp'
+     */
+    path?: string;
+    /**
+     * Host names accepted in the Host and Origin headers, which protects the server against
+     * DNS rebinding. The server does not authenticate clients.
+     * @default ['localhost', '127.0.0.1', '[::1]'] and the bound host, unless it is a wildcard address
+     */
+    allowedHosts?: string[];
+};
+
+const DEFAULT_METHODS: LLMCallerMCPMethod[] = ['call', 'embeddings', 'rerank', 'transcribe'];
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const WILDCARD_HOSTS = ['0.0.0.0', '::', '[::]'];
+
+const HISTORY_URI = 'callllm://history';
+const TRANSCRIPT_URI = 'callllm://history/transcript';
+
+/** Input schemas of the published LLMCaller methods. */
+const METHOD_TOOLS: Record<LLMCallerMCPMethod, Tool> = {
+    call: {
+        name: 'call',
+        description: 'Sends a message to the language model and returns its answer. The conversation of this session applies.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                message: { type: 'string', description: 'The message to send' }
+            },
+            required: ['message']
+        }
+    },
+    embeddings: {
+        name: 'embeddings',
+        description: 'Creates embedding vectors for one or more texts.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                input: {
+                    anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+                    description: 'Text or texts to embed'
+                },
+                model: { type: 'string', description: 'Embedding model; defaults to the caller configuration' },
+                dimensions: { type: 'integer', description: 'Number of dimensions of the vectors' }
+            },
+            required: ['input']
+        }
+    },
+    rerank: {
+        name: 'rerank',
+        description: 'Orders documents by their relevance to a query.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                query: { type: 'string' },
+                documents: { type: 'array', items: { type: 'string' } },
+                topN: { type: 'integer', description: 'Number of results to return' },
+                model: { type: 'string', description: 'Rerank model; defaults to the caller configuration' }
+            },
+            required: ['query', 'documents']
+        }
+    },
+    transcribe: {
+        name: 'transcribe',
+        description: 'Transcribes an audio file to text.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                file: { type: 'string', description: 'http(s) URL or base64 data URI of the audio file' },
+                language: { type: 'string', description: 'Language of the audio as an ISO-639-1 code' },
+                prompt: { type: 'string', description: 'Text that guides the style or vocabulary of the transcript' },
+                model: { type: 'string', description: 'Transcription model; defaults to the caller configuration' }
+            },
+            required: ['file']
+        }
+    }
+};
+
+/**
+ * Serves an LLMCaller as an MCP server: its methods and local tools become MCP tools,
+ * its conversation history becomes MCP resources.
+ *
+ * Every client connection gets its own protocol session, all of them backed by the same caller.
+ * Each session continues its own copy of the caller's history; the caller's history is left unchanged.
+ */
+export class LLMCallerMCPServer {
+    private readonly caller: LLMCaller;
+    private readonly options: Required<Omit<LLMCallerMCPServerOptions, 'audioFileRoot'>>;
+    private readonly audioFileRoot?: string;
+    private readonly servers: Set<Server> = new Set();
+    private readonly httpSessions: Map<string, StreamableHTTPServerTransport> = new Map();
+    private httpServer?: HttpServer;
+    private restoreConsole?: () => void;
+
+    constructor(caller: LLMCaller, options?: LLMCallerMCPServerOptions) {
+        const unknownMethod = options?.methods?.find(method => !DEFAULT_METHODS.includes(method));
+        if (unknownMethod !== undefined) {
+            throw new TypeError(`Unknown LLMCaller method for MCP: ${unknownMethod}`);
+        }
+        this.caller = caller;
+        this.options = {
+            name: options?.name ?? 'callllm',
+            version: options?.version ?? '1.0.0',
+            methods: options?.methods ?? DEFAULT_METHODS,
+            tools: options?.tools ?? true,
+            history: options?.history ?? true
+        };
+        this.audioFileRoot = options?.audioFileRoot;
+    }
+
+    /**
+     * Serves one client over the given transport.
+     * @param transport Any MCP server transport
+     */
+    async connect(transport: Transport): Promise<void> {
+        const server = this.createServer();
+        server.onclose = () => this.servers.delete(server);
+        this.servers.add(server);
+        await server.connect(transport);
+    }
+
+    /**
+     * Serves the client on stdin/stdout. stdout then carries the protocol, so the logger's
+     * debug and info messages and console.log, console.info and console.debug go to stderr
+     * until the server is closed.
+     */
+    async listenStdio(): Promise<void> {
+        Logger.setStderrOnly(true);
+        this.restoreConsole ??= redirectConsoleToStderr();
+        await this.connect(new StdioServerTransport());
+    }
+
+    /**
+     * Serves clients over Streamable HTTP, one session per client.
+     * @param options Port, host, and path of the endpoint
+     * @returns URL of the MCP endpoint
+     */
+    async listenHttp(options?: LLMCallerMCPHttpOptions): Promise<{ url: string }> {
+        const log = logger.createLogger({ prefix: 'LLMCallerMCPServer.listenHttp' });
+        if (this.httpServer) {
+            throw new Error('The MCP server is already listening on HTTP');
+        }
+        const host = options?.host ?? '127.0.0.1';
+        const endpointPath = options?.path ?? '/mcp';
+        const allowedHosts = options?.allowedHosts
+            ?? [...LOOPBACK_HOSTS, ...(WILDCARD_HOSTS.includes(host) || LOOPBACK_HOSTS.includes(host) ? [] : [host])];
+
+        const httpServer = createServer((req, res) => {
+            const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+            if (pathname !== endpointPath) {
+                res.writeHead(404).end();
+                return;
+            }
+            const rejected = checkRequestHosts(req.headers.host, req.headers.origin, allowedHosts);
+            if (rejected) {
+                log.warn(rejected);
+                res.writeHead(403, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+                    jsonrpc: '2.0',
+                    error: { code: -32000, message: rejected },
+                    id: null
+                }));
+                return;
+            }
+            this.handleHttpRequest(req, res).catch(error => {
+                log.error('Failed to handle MCP request', error);
+                if (!res.headersSent) {
+                    res.writeHead(500).end();
+                }
+            });
+        });
+        await new Promise<void>((resolve, reject) => {
+            httpServer.once('error', reject);
+            httpServer.listen(options?.port ?? 3000, host, () => {
+                httpServer.off('error', reject);
+                resolve();
+            });
+        });
+        this.httpServer = httpServer;
+
+        const { port } = httpServer.address() as AddressInfo;
+        const url = `http://${host}:${port}${endpointPath}`;
+        log.info(`Serving MCP on ${url}`);
+        return { url };
+    }
+
+    /**
+     * Closes all client sessions and stops listening on HTTP.
+     */
+    async close(): Promise<void> {
+        await Promise.all([...this.servers].map(server => server.close()));
+        this.httpSessions.clear();
+        this.restoreConsole?.();
+        this.restoreConsole = undefined;
+        const httpServer = this.httpServer;
+        this.httpServer = undefined;
+        if (httpServer) {
+            await new Promise<void>(resolve => httpServer.close(() => resolve()));
+        }
+    }
+
+    /**
+     * Routes an HTTP request to the transport of its session. Requests without a session
+     * get a new transport, which only keeps running when the request initializes a session.
+     */
+    private async handleHttpRequest(
+        req: Parameters<StreamableHTTPServerTransport['handleRequest']>[0],
+        res: Parameters<StreamableHTTPServerTransport['handleRequest']>[1]
+    ): Promise<void> {
+        const sessionId = req.headers['mcp-session-id'];
+        const existing = typeof sessionId === 'string' ? this.httpSessions.get(sessionId) : undefined;
+        if (existing) {
+            await existing.handleRequest(req, res);
+            return;
+        }
+        if (sessionId) {
+            res.writeHead(404, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+                jsonrpc: '2.0',
+                error: { code: -32001, message: 'Session not found' },
+                id: null
+            }));
+            return;
+        }
+
+        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            onsessioninitialized: id => { this.httpSessions.set(id, transport); }
+        });
+        transport.onclose = () => {
+            if (transport.sessionId) this.httpSessions.delete(transport.sessionId);
+        };
+        await this.connect(transport);
+        await transport.handleRequest(req, res);
+        if (!transport.sessionId) {
+            await transport.close();
+        }
+    }
+
+    /**
+     * Creates the protocol server of one client session.
+     */
+    private createServer(): Server {
+        // Never committed, so the session's messages stay out of the caller's and other sessions' history
+        const history = this.caller.getHistoryManager().beginTransaction();
+        const server = new Server(
+            { name: this.options.name, version: this.options.version },
+            { capabilities: { tools: {}, ...(this.options.history ? { resources: {} } : {}) } }
+        );
+
+        server.setRequestHandler(ListToolsRequestSchema, async () => {
+            const localTools = await this.getLocalTools();
+            return {
+                tools: [
+                    ...this.options.methods.map(method => METHOD_TOOLS[method]),
+                    ...localTools.map(tool => ({
+                        name: tool.name,
+                        description: tool.description,
+                        inputSchema: tool.parameters as Tool['inputSchema']
+                    }))
+                ]
+            };
+        });
+
+        server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+            const { name, arguments: args = {} } = request.params;
+            try {
+                if ((this.options.methods as string[]).includes(name)) {
+                    return await this.callMethod(name as LLMCallerMCPMethod, args, extra.signal, history);
+                }
+                const tool = (await this.getLocalTools()).find(candidate => candidate.name === name);
+                if (!tool) {
+                    throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+                }
+                return await this.callLocalTool(tool, args, extra.signal);
+            } catch (error) {
+                if (error instanceof McpError) throw error;
+                return {
+                    content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+                    isError: true
+                };
+            }
+        });
+
+        if (this.options.history) {
+            server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+                resources: [
+                    { uri: HISTORY_URI, name: 'history', description: 'Conversation history as JSON messages', mimeType: 'application/json' },
+                    { uri: TRANSCRIPT_URI, name: 'transcript', description: 'Conversation history as plain text', mimeType: 'text/plain' }
+                ]
+            }));
+            server.setRequestHandler(ReadResourceRequestSchema, async request => {
+                const messages = this.caller.getHistoryManager().runInTransaction(history, () => this.caller.getMessages(true));
+                switch (request.params.uri) {
+                    case HISTORY_URI:
+                        return { contents: [{ uri: HISTORY_URI, mimeType: 'application/json', text: JSON.stringify(messages, null, 2) }] };
+                    case TRANSCRIPT_URI:
+                        return {
+                            contents: [{
+                                uri: TRANSCRIPT_URI,
+                                mimeType: 'text/plain',
+                                text: messages.map(message => `${message.role}: ${message.content}`).join('\n\n')
+                            }]
+                        };
+                    default:
+                        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${request.params.uri}`);
+                }
+            });
+        }
+
+        return server;
+    }
+
+    /**
+     * Local tools of the caller that are published. Method names take precedence over tools of the same name.
+     */
+    private async getLocalTools(): Promise<ToolDefinition[]> {
+        if (!this.options.tools) return [];
+        const tools = new Map<string, ToolDefinition>();
+        for (const tool of [...this.caller.listTools(), ...await this.caller.listFolderTools()]) {
+            if (tool.origin === 'mcp' || tool.requiresApproval) continue;
+            if ((this.options.methods as string[]).includes(tool.name)) {
+                logger.warn(`Local tool "${tool.name}" is not published over MCP: the name is taken by an LLMCaller method`);
+                continue;
+            }
+            if (!tools.has(tool.name)) tools.set(tool.name, tool);
+        }
+        return [...tools.values()];
+    }
+
+    private async callMethod(
+        method: LLMCallerMCPMethod,
+        args: Record<string, unknown>,
+        signal: AbortSignal,
+        history: HistoryTransaction
+    ): Promise<CallToolResult> {
+        switch (method) {
+            case 'call': {
+                const responses = await this.caller.getHistoryManager().runInTransaction(
+                    history,
+                    () => this.caller.call(String(args.message ?? ''), { signal })
+                );
+                return {
+                    content: responses.map(response => ({
+                        type: 'text' as const,
+                        text: response.contentObject !== undefined ? JSON.stringify(response.contentObject) : response.content ?? ''
+                    }))
+                };
+            }
+            case 'embeddings': {
+                const response = await this.caller.embeddings({
+                    input: args.input as string | string[],
+                    signal,
+                    ...(typeof args.model === 'string' ? { model: args.model } : {}),
+                    ...(typeof args.dimensions === 'number' ? { dimensions: args.dimensions } : {})
+                });
+                return toJsonResult({
+                    model: response.model,
+                    embeddings: response.embeddings.map(embedding => embedding.embedding),
+                    usage: response.usage
+                });
+            }
+            case 'rerank': {
+                const response = await this.caller.rerank({
+                    query: String(args.query ?? ''),
+                    documents: (args.documents as string[] | undefined) ?? [],
+                    signal,
+                    ...(typeof args.topN === 'number' ? { topN: args.topN } : {}),
+                    ...(typeof args.model === 'string' ? { model: args.model } : {})
+                });
+                return toJsonResult({ model: response.model, results: response.results, usage: response.usage });
+            }
+            case 'transcribe': {
+                const response = await this.caller.transcribe({
+                    file: await this.resolveAudioFile(String(args.file ?? '')),
+                    ...(typeof args.language === 'string' ? { language: args.language } : {}),
+                    ...(typeof args.prompt === 'string' ? { prompt: args.prompt } : {}),
+                    ...(typeof args.model === 'string' ? { model: args.model } : {})
+                });
+                return { content: [{ type: 'text', text: response.text }] };
+            }
+        }
+    }
+
+    /**
+     * Returns the audio file of a transcribe request. URLs and data URIs are passed on; local
+     * paths only when audioFileRoot is set, resolved with symlinks to a file inside it.
+     */
+    private async resolveAudioFile(file: string): Promise<string> {
+        if (/^(https?:|data:)/i.test(file)) return file;
+        if (!this.audioFileRoot) {
+            throw new Error('The transcribe tool accepts http(s) URLs and data URIs; local files are not enabled on this server');
+        }
+        const root = await realpath(this.audioFileRoot);
+        let resolved: string;
+        try {
+            resolved = await realpath(path.resolve(root, file));
+        } catch {
+            throw new Error(`Audio file not found: ${file}`);
+        }
+        if (!resolved.startsWith(root + path.sep)) {
+            throw new Error(`Audio file is outside the audio file root: ${file}`);
+        }
+        return resolved;
+    }
+
+    /**
+     * Runs a local tool with its arguments coerced and validated like model-requested calls.
+     */
+    private async callLocalTool(tool: ToolDefinition, args: Record<string, unknown>, signal: AbortSignal): Promise<CallToolResult> {
+        const validation = validateToolArguments(tool, args);
+        if (validation.status === 'invalid') {
+            return {
+                content: [{ type: 'text', text: formatInvalidToolArguments(tool.name, validation.validationErrors) }],
+                isError: true
+            };
+        }
+
+        let result: unknown;
+        if (tool.callFunction) {
+            result = await tool.callFunction(validation.arguments, { signal });
+        } else if (tool.handler) {
+            result = await tool.handler(validation.arguments);
+        } else {
+            throw new Error(`Tool "${tool.name}" has no function to call`);
+        }
+        return { content: [{ type: 'text', text: typeof result === 'string' ? result : JSON.stringify(result) ?? '' }] };
+    }
+}
+
+/**
+ * Returns why a request is rejected when its Host or Origin header names a host that is not
+ * allowed, as a browser page of another site would after DNS rebinding.
+ */
+function checkRequestHosts(hostHeader: string | undefined, origin: string | undefined, allowedHosts: string[]): string | undefined {
+    const hostname = (value: string) => {
+        try {
+            return new URL(value).hostname;
+        } catch {
+            return undefined;
+        }
+    };
+    const host = hostHeader ? hostname(`http://${hostHeader}`) : undefined;
+    if (!host || !allowedHosts.includes(host)) {
+        return `Invalid Host header: ${hostHeader}`;
+    }
+    if (origin !== undefined) {
+        const originHost = hostname(origin);
+        if (!originHost || !allowedHosts.includes(originHost)) {
+            return `Invalid Origin header: ${origin}`;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Sends console.log, console.info and console.debug to stderr.
+ * @returns Function that restores the previous methods
+ */
+function redirectConsoleToStderr(): () => void {
+    const { log, info, debug } = console;
+    console.log = console.info = console.debug = console.error;
+    return () => {
+        console.log = log;
+        console.info = info;
+        console.debug = debug;
+    };
+}
+
+function toJsonResult(value: unknown): CallToolResult {
+    return { content: [{ type: 'text', text: JSON.stringify(value) }] };
+}
@@ -3,6 +3,8 @@
  * These types define the structure for MCP server configurations.
  */
 
+import type { BudgetOptions } from '../budget/BudgetTracker.ts';
+
 /**
  * Transport type for MCP servers.
  */
@@ -43,6 +45,46 @@ export type MCPAuthConfig = {
     };
 };
 
+/**
+ * How an MCP server may request LLM completions (`sampling/createMessage`) through the LLMCaller.
+ */
+export type MCPSamplingConfig = {
+    /**
+     * Refuse sampling requests from this server. The client then does not advertise sampling.
+     * @default false
+     */
+    disabled?: boolean;
+
+    /**
+     * Spending limit for all sampling requests of this server, in addition to the LLMCaller budget.
+     */
+    budget?: BudgetOptions;
+};
+
+/**
+ * How the adapter reconnects when the connection to an MCP server drops unexpectedly,
+ * for example when a stdio server process exits or an HTTP/SSE stream closes.
+ */
+export type MCPReconnectConfig = {
+    /**
+     * Reconnect attempts before the server is reported as failed.
+     * @default 5
+     */
+    maxAttempts?: number;
+
+    /**
+     * Delay before the first attempt in milliseconds; doubles with every further attempt.
+     * @default 1000
+     */
+    initialDelayMs?: number;
+
+    /**
+     * Upper bound for the delay between attempts in milliseconds.
+     * @default 30000
+     */
+    maxDelayMs?: number;
+};
+
 /**
  * Configuration for a single MCP server.
  */
@@ -120,6 +162,16 @@ export type MCPServerConfig = {
      * Authentication configuration.
      */
     auth?: MCPAuthConfig;
+
+    /**
+     * Sampling settings for requests this server sends back to the LLMCaller.
+     */
+    sampling?: MCPSamplingConfig;
+
+    /**
+     * Reconnect settings, or false to stay disconnected when the connection drops.
+     */
+    reconnect?: MCPReconnectConfig | false;
 };
 
 /**
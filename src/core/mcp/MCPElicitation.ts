@@ -0,0 +1,67 @@
+/**
+ * MCP elicitation support: lets MCP servers ask the user for structured input
+ * (`elicitation/create`) while a tool call runs.
+ */
+
+import { ErrorCode, McpError, type ElicitRequestFormParams, type ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { jsonSchemaToZod } from '../schema/JsonSchemaToZod.ts';
+import { SchemaValidationError, SchemaValidator } from '../schema/SchemaValidator.ts';
+import type { MCPToolCallOrigin } from './MCPInterfaces.ts';
+
+/**
+ * The form a server requests: a flat object schema whose properties are strings, numbers,
+ * booleans, enums, or arrays of enum values.
+ */
+export type MCPElicitationSchema = ElicitRequestFormParams['requestedSchema'];
+
+export type MCPElicitationContent = Record<string, string | number | boolean | string[]>;
+
+/**
+ * The user's answer to an elicitation request:
+ * - 'accept': The user submitted `content`, which must match the requested schema
+ * - 'decline': The user explicitly refused to provide the information
+ * - 'cancel': The user dismissed the request without choosing
+ */
+export type MCPElicitationResult =
+    | { action: 'accept'; content: MCPElicitationContent }
+    | { action: 'decline' }
+    | { action: 'cancel' };
+
+/**
+ * Asks the user for the input an MCP server requests. `toolCall` is set when exactly one
+ * tool call of the LLMCaller was in flight on that server.
+ */
+export type MCPElicitationHandler = (
+    serverKey: string,
+    message: string,
+    requestedSchema: MCPElicitationSchema,
+    context: { signal: AbortSignal; toolCall?: MCPToolCallOrigin }
+) => MCPElicitationResult | Promise<MCPElicitationResult>;
+
+/**
+ * Checks the handler's answer and validates accepted content against the requested schema.
+ * Schema constructs the validator does not understand accept any value.
+ * @throws TypeError if the answer has no valid action
+ * @throws McpError if accepted content does not match the requested schema
+ */
+export function toElicitResult(result: unknown, requestedSchema: MCPElicitationSchema): ElicitResult {
+    const action = (result as { action?: unknown } | undefined)?.action;
+    if (action === 'decline' || action === 'cancel') {
+        return { action };
+    }
+    if (action !== 'accept') {
+        throw new TypeError(`Invalid elicitation result: ${JSON.stringify(result)}`);
+    }
+
+    const content = (result as { content?: unknown }).content ?? {};
+    try {
+        SchemaValidator.validate(content, jsonSchemaToZod(requestedSchema as Record<string, unknown>));
+    } catch (error) {
+        const details = error instanceof SchemaValidationError && error.validationErrors.length > 0
+            ? error.validationErrors.map(issue => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join('; ')
+            : error instanceof Error ? error.message : String(error);
+        throw new McpError(ErrorCode.InvalidParams, `Elicitation content does not match the requested schema: ${details}`);
+    }
+
+    return { action, content: content as MCPElicitationContent };
+}
@@ -2,6 +2,21 @@
  * Type definitions for MCP server interfaces
  */
 
+import type { ToolCallContext } from '../telemetry/collector/types.ts';
+import type { ToolProgress } from '../../types/tooling.ts';
+
+/**
+ * The model-requested tool call an MCP `tools/call` request executes.
+ */
+export type MCPToolCallOrigin = {
+    /** Tool call id from the model response. */
+    id: string;
+    /** Tool name as the model called it. */
+    name: string;
+    /** Telemetry span of the tool call, when telemetry is enabled. */
+    telemetry?: ToolCallContext;
+};
+
 /**
  * Options for MCP SDK requests
  */
@@ -15,8 +30,38 @@ export type MCPRequestOptions = {
     timeout?: number;
     /** Whether to retry on transient errors. Defaults to true. */
     retry?: boolean;
+    /** The tool call being executed. Sampling requests the server sends meanwhile are attributed to it. */
+    toolCall?: MCPToolCallOrigin;
+    /** Receives the `notifications/progress` the server sends for this request. Setting it sends a progress token. */
+    onProgress?: (progress: ToolProgress) => void;
+};
+
+/**
+ * Connection state of an MCP server:
+ * - 'connected': The client connected, initially or after a reconnect
+ * - 'disconnected': The connection closed, on request or because the server went away
+ * - 'reconnecting': A reconnect attempt is about to start
+ * - 'failed': All reconnect attempts failed; the next call that needs the server connects again
+ */
+export type MCPConnectionState = 'connected' | 'disconnected' | 'reconnecting' | 'failed';
+
+export type MCPConnectionStateEvent = {
+    serverKey: string;
+    state: MCPConnectionState;
+    /** Reconnect attempt, starting at 1. Set for 'reconnecting', and for 'connected' after a reconnect. */
+    attempt?: number;
+    /** Why the connection dropped or the last reconnect attempt failed. */
+    error?: Error;
 };
 
+export type MCPConnectionStateHandler = (event: MCPConnectionStateEvent) => void;
+
+/** A list a server announced as changed with a `notifications/<list>/list_changed` notification. */
+export type MCPListChangedKind = 'tools' | 'resources' | 'prompts';
+
+/** Called when a subscribed resource changed (`notifications/resources/updated`). */
+export type MCPResourceUpdatedHandler = (event: { serverKey: string; uri: string }) => void | Promise<void>;
+
 /**
  * Represents a resource in an MCP server
  */
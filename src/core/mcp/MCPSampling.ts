@@ -0,0 +1,161 @@
+/**
+ * MCP sampling support: lets MCP servers request LLM completions (`sampling/createMessage`)
+ * through the LLMCaller that owns the connection.
+ */
+
+import { ErrorCode, McpError, type CreateMessageRequest, type CreateMessageResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Usage } from '../../interfaces/UniversalInterfaces.ts';
+import type { BudgetTracker } from '../budget/BudgetTracker.ts';
+import { isModelPreset, type ModelOrSelection, type ModelPreset } from '../models/ModelSelection.ts';
+import type { MCPToolCallOrigin } from './MCPInterfaces.ts';
+
+/** Model preferences a server sends with a sampling request; see the MCP specification. */
+export type MCPSamplingModelPreferences = {
+    /** Model names or name fragments, in order of preference. Preset names such as 'cheap' are accepted too. */
+    hints?: Array<{ name?: string }>;
+    /** 0-1 */
+    costPriority?: number;
+    /** 0-1 */
+    speedPriority?: number;
+    /** 0-1 */
+    intelligencePriority?: number;
+};
+
+/**
+ * A `sampling/createMessage` request of an MCP server, with its text content.
+ */
+export type MCPSamplingRequest = {
+    /** The server that sent the request. */
+    serverKey: string;
+    messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+    systemPrompt?: string;
+    maxTokens: number;
+    temperature?: number;
+    stopSequences?: string[];
+    modelPreferences?: MCPSamplingModelPreferences;
+    /**
+     * The tool call the server was executing when it sent the request. Set when exactly one
+     * tool call of the LLMCaller was in flight on that server.
+     */
+    toolCall?: MCPToolCallOrigin;
+};
+
+export type MCPSamplingResult = {
+    /** The model that generated the message. */
+    model: string;
+    content: string;
+    stopReason?: 'endTurn' | 'stopSequence' | 'maxTokens' | string;
+    usage?: Usage;
+};
+
+/**
+ * Generates the message for a sampling request. `budget` is the server's own sampling budget,
+ * when one is configured.
+ */
+export type MCPSamplingHandler = (
+    request: MCPSamplingRequest,
+    options: { signal: AbortSignal; budget?: BudgetTracker }
+) => Promise<MCPSamplingResult>;
+
+export type MCPSamplingDecision =
+    | { action: 'approve' }
+    | { action: 'deny'; reason?: string };
+
+/** Decides whether a sampling request of an MCP server may run. */
+export type MCPSamplingApprovalHandler = (
+    request: MCPSamplingRequest
+) => MCPSamplingDecision | Promise<MCPSamplingDecision>;
+
+/** JSON-RPC error code the MCP specification uses for sampling requests the user rejected. */
+const SAMPLING_REJECTED_CODE = -1;
+
+/**
+ * Converts the parameters of a `sampling/createMessage` request. Only text content is supported,
+ * and the request may not carry tools since the client does not advertise `sampling.tools`.
+ */
+export function toSamplingRequest(
+    serverKey: string,
+    params: CreateMessageRequest['params'],
+    toolCall?: MCPToolCallOrigin
+): MCPSamplingRequest {
+    if (params.tools?.length) {
+        throw new McpError(ErrorCode.InvalidParams, 'Tools in sampling requests are not supported');
+    }
+
+    const messages = params.messages.map(message => {
+        const blocks = Array.isArray(message.content) ? message.content : [message.content];
+        const text = blocks.map(block => {
+            if (block.type !== 'text') {
+                throw new McpError(ErrorCode.InvalidParams, `Sampling content of type "${block.type}" is not supported`);
+            }
+            return block.text;
+        });
+        return { role: message.role, content: text.join('\n') };
+    });
+
+    return {
+        serverKey,
+        messages,
+        maxTokens: params.maxTokens,
+        ...(params.systemPrompt ? { systemPrompt: params.systemPrompt } : {}),
+        ...(params.temperature !== undefined ? { temperature: params.temperature } : {}),
+        ...(params.stopSequences?.length ? { stopSequences: params.stopSequences } : {}),
+        ...(params.modelPreferences ? { modelPreferences: params.modelPreferences } : {}),
+        ...(toolCall ? { toolCall } : {})
+    };
+}
+
+export function toCreateMessageResult(result: MCPSamplingResult): CreateMessageResult {
+    return {
+        model: result.model,
+        role: 'assistant',
+        content: { type: 'text', text: result.content },
+        ...(result.stopReason ? { stopReason: result.stopReason } : {})
+    };
+}
+
+export function validateSamplingDecision(decision: unknown): MCPSamplingDecision {
+    const action = (decision as { action?: unknown } | undefined)?.action;
+    if (action === 'approve' || action === 'deny') {
+        return decision as MCPSamplingDecision;
+    }
+    throw new TypeError(`Invalid sampling approval decision: ${JSON.stringify(decision)}`);
+}
+
+export function createSamplingRejectedError(reason?: string): McpError {
+    return new McpError(SAMPLING_REJECTED_CODE, reason ? `Sampling request was not approved: ${reason}` : 'Sampling request was not approved');
+}
+
+/**
+ * Maps the model preferences of a sampling request onto a model selection:
+ * - the first hint naming a preset or matching an available model wins, exact names before fragments
+ * - otherwise the priorities pick the preset of the highest one and weigh the preferences
+ * - without usable hints or priorities the caller's own model is used (undefined)
+ */
+export function mapSamplingModelPreferences(
+    preferences: MCPSamplingModelPreferences | undefined,
+    availableModels: string[]
+): ModelOrSelection | undefined {
+    if (!preferences) return undefined;
+
+    for (const hint of preferences.hints ?? []) {
+        const name = hint.name?.trim();
+        if (!name) continue;
+        if (isModelPreset(name)) return name;
+        const model = availableModels.find(candidate => candidate === name)
+            ?? availableModels.find(candidate => candidate.includes(name));
+        if (model) return { model };
+    }
+
+    const cost = preferences.costPriority ?? 0;
+    const speed = preferences.speedPriority ?? 0;
+    const intelligence = preferences.intelligencePriority ?? 0;
+    const highest = Math.max(cost, speed, intelligence);
+    if (highest <= 0) return undefined;
+
+    const preset: ModelPreset = highest === intelligence ? 'premium' : highest === cost ? 'cheap' : 'fast';
+    return {
+        preset,
+        prefer: { cost, latency: speed, throughput: speed, quality: intelligence }
+    };
+}
@@ -10,10 +10,10 @@ import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
-import type { MCPServerConfig, MCPServersMap } from './MCPConfigTypes.ts';
+import type { MCPReconnectConfig, MCPServerConfig, MCPServersMap } from './MCPConfigTypes.ts';
 import { MCPConnectionError, MCPToolCallError, type McpToolSchema, MCPAuthenticationError, MCPTimeoutError } from './MCPConfigTypes.ts';
 import { logger } from '../../utils/logger.ts';
-import type { ToolDefinition, ToolParameters, ToolParameterSchema } from '../../types/tooling.ts';
+import type { ToolDefinition, ToolParameters, ToolParameterSchema, ToolProgress } from '../../types/tooling.ts';
 import { z } from 'zod';
 import { OAuthProvider, type OAuthProviderOptions } from './OAuthProvider.ts';
 import type { OAuthClientInformation } from '@modelcontextprotocol/sdk/shared/auth.d.ts';
@@ -21,6 +21,29 @@ import { RetryManager } from '../retry/RetryManager.ts';
 import treeKill from 'tree-kill';
 import { ChildProcess } from 'child_process';
 import { resolveLLMCancellationError, isLLMCancellationError } from '../execution/errors.ts';
+import {
+    CreateMessageRequestSchema,
+    ElicitRequestSchema,
+    PromptListChangedNotificationSchema,
+    ResourceListChangedNotificationSchema,
+    ResourceUpdatedNotificationSchema,
+    ToolListChangedNotificationSchema,
+    type CreateMessageRequest,
+    type CreateMessageResult,
+    type ElicitRequestFormParams,
+    type ElicitResult,
+    type Progress
+} from '@modelcontextprotocol/sdk/types.js';
+import { BudgetTracker } from '../budget/BudgetTracker.ts';
+import {
+    createSamplingRejectedError,
+    toCreateMessageResult,
+    toSamplingRequest,
+    validateSamplingDecision,
+    type MCPSamplingApprovalHandler,
+    type MCPSamplingHandler
+} from './MCPSampling.ts';
+import { toElicitResult, type MCPElicitationHandler } from './MCPElicitation.ts';
 
 // Promisify tree-kill to make it easier to use with async/await
 const treeKillAsync = (pid: number, signal?: string): Promise<void> => {
@@ -39,7 +62,12 @@ const treeKillAsync = (pid: number, signal?: string): Promise<void> => {
  * Import interfaces for resources and prompts
  */
 import type {
+    MCPConnectionStateEvent,
+    MCPConnectionStateHandler,
+    MCPListChangedKind,
     MCPRequestOptions,
+    MCPResourceUpdatedHandler,
+    MCPToolCallOrigin,
     Resource,
     ReadResourceParams,
     ReadResourceResult,
@@ -76,6 +104,15 @@ const DEFAULT_RETRY_CONFIG = {
     retryableStatusCodes: [408, 429, 502, 503, 504] // Common transient HTTP errors
 };
 
+/**
+ * Default reconnect settings for servers whose connection drops unexpectedly
+ */
+const DEFAULT_RECONNECT_CONFIG: Required<MCPReconnectConfig> = {
+    maxAttempts: 5,
+    initialDelayMs: 1000,
+    maxDelayMs: 30_000
+};
+
 /** Default MCP SDK `tools/call` client timeout (matches SDK default request window). */
 const DEFAULT_MCP_TOOL_CALL_TIMEOUT_MS = 60_000;
 
@@ -100,6 +137,33 @@ function resolveMcpToolCallTimeoutMs(options?: MCPRequestOptions): number {
     return DEFAULT_MCP_TOOL_CALL_TIMEOUT_MS;
 }
 
+/**
+ * Adapts a progress handler to the SDK's `onprogress`, passing on only the fields of the notification.
+ */
+function toToolProgressCallback(onProgress: (progress: ToolProgress) => void): (progress: Progress) => void {
+    return ({ progress, total, message }) => onProgress({
+        progress,
+        ...(total !== undefined ? { total } : {}),
+        ...(message !== undefined ? { message } : {})
+    });
+}
+
+/**
+ * Options for MCPServiceAdapter
+ */
+export type MCPServiceAdapterOptions = {
+    /** Answers `sampling/createMessage` requests. Without it the client does not advertise sampling. */
+    onSampling?: MCPSamplingHandler;
+    /** Decides on sampling requests before they run. Without it every request runs. */
+    onSamplingApproval?: MCPSamplingApprovalHandler;
+    /** Answers `elicitation/create` requests. Without it the client does not advertise elicitation. */
+    onElicitation?: MCPElicitationHandler;
+    /** Called when a server connects, disconnects, reconnects, or fails to reconnect. */
+    onConnectionStateChange?: MCPConnectionStateHandler;
+    /** Called when a server announces a changed tool, resource, or prompt list, or its tools may have changed after a dropped connection. */
+    onListChanged?: (serverKey: string, list: MCPListChangedKind) => void;
+};
+
 /**
  * Define JSON-RPC Error interface locally since we can't import it
  */
@@ -147,13 +211,59 @@ export class MCPServiceAdapter {
      */
     private retryManager: RetryManager;
 
+    /**
+     * Sampling handlers, when servers may request LLM completions
+     */
+    private samplingHandler?: MCPSamplingHandler;
+    private samplingApprovalHandler?: MCPSamplingApprovalHandler;
+
+    /**
+     * Elicitation handler, when servers may ask the user for input
+     */
+    private elicitationHandler?: MCPElicitationHandler;
+
+    /**
+     * Sampling budgets of servers that configure one, kept across reconnects
+     */
+    private samplingBudgets: Map<string, BudgetTracker> = new Map();
+
+    /**
+     * Tool calls in flight per server, used to attribute sampling and elicitation requests
+     */
+    private activeToolCalls: Map<string, Set<MCPToolCallOrigin>> = new Map();
+
+    /**
+     * Connection and list change listeners
+     */
+    private connectionStateHandler?: MCPConnectionStateHandler;
+    private listChangedHandler?: (serverKey: string, list: MCPListChangedKind) => void;
+
+    /**
+     * Resource update handlers per server and resource URI
+     */
+    private resourceSubscriptions: Map<string, Map<string, Set<MCPResourceUpdatedHandler>>> = new Map();
+    // resources/subscribe requests that have not succeeded yet, keyed by the handler set they were sent for
+    private pendingResourceSubscriptions: WeakMap<Set<MCPResourceUpdatedHandler>, Promise<void>> = new WeakMap();
+
+    /**
+     * Pending reconnects per server: the attempt in progress and the timer that starts it
+     */
+    private reconnects: Map<string, { attempt: number; timer?: ReturnType<typeof setTimeout> }> = new Map();
+
     /**
      * Constructor
      * @param mcpServers Map of server keys to MCP server configurations
+     * @param options Optional handlers for server requests, connection state, and list changes
      */
-    constructor(mcpServers: MCPServersMap) {
+    constructor(mcpServers: MCPServersMap, options?: MCPServiceAdapterOptions) {
         const log = logger.createLogger({ prefix: 'MCPServiceAdapter.constructor' });
 
+        this.samplingHandler = options?.onSampling;
+        this.samplingApprovalHandler = options?.onSamplingApproval;
+        this.elicitationHandler = options?.onElicitation;
+        this.connectionStateHandler = options?.onConnectionStateChange;
+        this.listChangedHandler = options?.onListChanged;
+
         // Initialize the retry manager
         this.retryManager = new RetryManager(DEFAULT_RETRY_CONFIG);
 
@@ -394,15 +504,130 @@ export class MCPServiceAdapter {
 
     /**
      * Creates a Client instance for the SDK.
+     * Sampling is advertised when a sampling handler is set and the server does not disable it,
+     * form elicitation when an elicitation handler is set.
+     * @param serverKey Unique identifier for the server
+     * @param config Server configuration
      * @returns Client instance
      */
-    private createClient(): Client {
-        return new Client(
+    private createClient(serverKey: string, config: MCPServerConfig): Client {
+        const supportsSampling = Boolean(this.samplingHandler) && !config.sampling?.disabled;
+        const supportsElicitation = Boolean(this.elicitationHandler);
+        const client = new Client(
             CLIENT_INFO,
             {
-                capabilities: DEFAULT_CLIENT_CAPABILITIES
+                capabilities: {
+                    ...DEFAULT_CLIENT_CAPABILITIES,
+                    ...(supportsSampling ? { sampling: {} } : {}),
+                    ...(supportsElicitation ? { elicitation: { form: {} } } : {})
+                }
             }
         );
+        if (supportsSampling) {
+            client.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+                this.handleSamplingRequest(serverKey, config, request.params, extra.signal)
+            );
+        }
+        if (supportsElicitation) {
+            client.setRequestHandler(ElicitRequestSchema, (request, extra) =>
+                this.handleElicitationRequest(serverKey, request.params as ElicitRequestFormParams, extra.signal)
+            );
+        }
+        client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+            this.toolCache.delete(serverKey);
+            this.notifyListChanged(serverKey, 'tools');
+        });
+        client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+            this.notifyListChanged(serverKey, 'resources');
+        });
+        client.setNotificationHandler(PromptListChangedNotificationSchema, async () => {
+            this.notifyListChanged(serverKey, 'prompts');
+        });
+        client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification =>
+            this.handleResourceUpdated(serverKey, notification.params.uri)
+        );
+        return client;
+    }
+
+    /**
+     * Answers a `sampling/createMessage` request of a server with the sampling handler.
+     * Requests are attributed to the server's tool call in flight, when there is exactly one.
+     * @param serverKey Unique identifier for the server
+     * @param config Server configuration
+     * @param params Request parameters
+     * @param signal Aborts when the server cancels the request
+     * @returns The generated message
+     */
+    private async handleSamplingRequest(
+        serverKey: string,
+        config: MCPServerConfig,
+        params: CreateMessageRequest['params'],
+        signal: AbortSignal
+    ): Promise<CreateMessageResult> {
+        const log = logger.createLogger({ prefix: 'MCPServiceAdapter.handleSamplingRequest' });
+
+        const request = toSamplingRequest(serverKey, params, this.getActiveToolCall(serverKey));
+        log.debug(`Sampling request from server ${serverKey}`, {
+            messages: request.messages.length,
+            maxTokens: request.maxTokens,
+            toolCall: request.toolCall?.name
+        });
+
+        if (this.samplingApprovalHandler) {
+            const decision = validateSamplingDecision(await this.samplingApprovalHandler(request));
+            if (decision.action === 'deny') {
+                log.info(`Sampling request from server ${serverKey} was not approved`);
+                throw createSamplingRejectedError(decision.reason);
+            }
+        }
+
+        let budget = this.samplingBudgets.get(serverKey);
+        if (!budget && config.sampling?.budget) {
+            budget = new BudgetTracker(config.sampling.budget, 'mcpServer');
+            this.samplingBudgets.set(serverKey, budget);
+        }
+
+        const result = await this.samplingHandler!(request, { signal, ...(budget ? { budget } : {}) });
+        return toCreateMessageResult(result);
+    }
+
+    /**
+     * Answers an `elicitation/create` request of a server with the elicitation handler.
+     * The client only advertises form mode, so the SDK rejects URL-mode requests before they get here.
+     * @param serverKey Unique identifier for the server
+     * @param params Request parameters
+     * @param signal Aborts when the server cancels the request
+     * @returns The user's answer, with content validated against the requested schema
+     */
+    private async handleElicitationRequest(
+        serverKey: string,
+        params: ElicitRequestFormParams,
+        signal: AbortSignal
+    ): Promise<ElicitResult> {
+        const log = logger.createLogger({ prefix: 'MCPServiceAdapter.handleElicitationRequest' });
+
+        const toolCall = this.getActiveToolCall(serverKey);
+        log.debug(`Elicitation request from server ${serverKey}`, {
+            fields: Object.keys(params.requestedSchema.properties),
+            toolCall: toolCall?.name
+        });
+
+        const result = await this.elicitationHandler!(serverKey, params.message, params.requestedSchema, {
+            signal,
+            ...(toolCall ? { toolCall } : {})
+        });
+        const elicitResult = toElicitResult(result, params.requestedSchema);
+        log.debug(`Elicitation request from server ${serverKey} answered with ${elicitResult.action}`);
+        return elicitResult;
+    }
+
+    /**
+     * The server's tool call in flight, when there is exactly one
+     * @param serverKey Server key
+     */
+    private getActiveToolCall(serverKey: string): MCPToolCallOrigin | undefined {
+        const activeCalls = [...(this.activeToolCalls.get(serverKey) ?? [])];
+        return activeCalls.length === 1 ? activeCalls[0] : undefined;
     }
 
     /**
@@ -447,7 +672,7 @@ export class MCPServiceAdapter {
             } else {
                 // For stdio and custom, no fallback is needed
                 const transport = this.createTransport(serverKey, serverConfig);
-                const client = this.createClient();
+                const client = this.createClient(serverKey, serverConfig);
 
                 // Connect
                 // await transport.start();
@@ -464,6 +689,7 @@ export class MCPServiceAdapter {
             if (!this.serverConfigs.has(serverKey) && config) {
                 this.serverConfigs.set(serverKey, config);
             }
+            this.handleConnected(serverKey);
         } catch (error) {
             // HTTP fallback only for non-MCPConnectionError errors
             if (!(error instanceof MCPConnectionError) && (serverConfig.type === 'http' || (!serverConfig.type && serverConfig.url)) && serverConfig.mode !== 'sse') {
@@ -485,11 +711,12 @@ export class MCPServiceAdapter {
                     }
                     // Now perform SSE fallback
                     await this.connectWithSSE(serverKey, { ...serverConfig, mode: 'sse' });
+                    this.handleConnected(serverKey);
                     return;
                 }
             }
             // Clean up any partially initialized resources
-            await this.disconnectServer(serverKey).catch(() => { /* Ignore cleanup errors */ });
+            await this.closeConnection(serverKey).catch(() => { /* Ignore cleanup errors */ });
 
             if (error instanceof MCPConnectionError) {
                 throw error;
@@ -564,7 +791,7 @@ export class MCPServiceAdapter {
                 }
             );
 
-            const client = this.createClient();
+            const client = this.createClient(serverKey, config);
             log.debug(`Client created, attempting to connect...`);
 
             // await transport.start();
@@ -665,7 +892,7 @@ export class MCPServiceAdapter {
             );
 
             log.debug(`SSE transport created, creating client...`);
-            const client = this.createClient();
+            const client = this.createClient(serverKey, config);
             log.debug(`Client created, attempting SSE connection...`);
 
             // await transport.start();
@@ -708,6 +935,17 @@ export class MCPServiceAdapter {
      * @returns Promise that resolves when disconnected
      */
     async disconnectServer(serverKey: string): Promise<void> {
+        this.cancelReconnect(serverKey);
+        this.resourceSubscriptions.delete(serverKey);
+        await this.closeConnection(serverKey);
+    }
+
+    /**
+     * Closes the client and transport of a server and terminates its process.
+     * Pending reconnects and resource subscriptions are kept.
+     * @param serverKey Unique identifier for the server
+     */
+    private async closeConnection(serverKey: string): Promise<void> {
         const log = logger.createLogger({ prefix: 'MCPServiceAdapter.disconnectServer' });
 
         const client = this.sdkClients.get(serverKey);
@@ -721,15 +959,15 @@ export class MCPServiceAdapter {
         log.debug(`Disconnecting from server ${serverKey}`);
 
         try {
-            // Disconnect the client first if available
+            // Disconnect the client first if available; removing it first marks the close as requested
             if (client) {
+                this.sdkClients.delete(serverKey);
                 try {
                     await client.close();
                 } catch (error) {
                     log.warn(`Error disconnecting client for server ${serverKey}: ${error}`);
                     // Continue even if client disconnect fails
                 }
-                this.sdkClients.delete(serverKey);
             }
 
             // Then handle the transport and force kill the child process if it exists
@@ -778,12 +1016,225 @@ export class MCPServiceAdapter {
             this.toolCache.delete(serverKey);
 
             log.info(`Disconnected from server ${serverKey}`);
+            if (client) {
+                this.emitConnectionState({ serverKey, state: 'disconnected' });
+            }
         } catch (error) {
             log.error(`Error disconnecting from server ${serverKey}: ${(error as Error).message}`);
             throw new MCPConnectionError(serverKey, `Failed to disconnect from server: ${error}`);
         }
     }
 
+    /**
+     * Watches a new connection for unexpected closes and reports the server as connected.
+     * After a reconnect the server's resource subscriptions are renewed.
+     * @param serverKey Server key
+     */
+    private handleConnected(serverKey: string): void {
+        const client = this.sdkClients.get(serverKey);
+        if (!client) return;
+        client.onclose = () => this.handleConnectionClosed(serverKey, client);
+
+        const reconnect = this.reconnects.get(serverKey);
+        this.cancelReconnect(serverKey);
+        this.emitConnectionState({ serverKey, state: 'connected', ...(reconnect ? { attempt: reconnect.attempt } : {}) });
+        if (reconnect) {
+            void this.renewResourceSubscriptions(serverKey, client);
+        }
+    }
+
+    /**
+     * Handles a connection that closed without disconnectServer, e.g. because a stdio server
+     * process exited or an HTTP/SSE stream dropped, and starts reconnecting.
+     * @param serverKey Server key
+     * @param client The client whose connection closed
+     */
+    private handleConnectionClosed(serverKey: string, client: Client): void {
+        if (this.sdkClients.get(serverKey) !== client) {
+            // Closed on request or already replaced by a newer connection
+            return;
+        }
+        const log = logger.createLogger({ prefix: 'MCPServiceAdapter.handleConnectionClosed' });
+        log.warn(`Connection to server ${serverKey} closed unexpectedly`);
+
+        this.sdkClients.delete(serverKey);
+        this.sdkTransports.delete(serverKey);
+        this.childProcesses.delete(serverKey);
+        this.toolCache.delete(serverKey);
+
+        this.emitConnectionState({
+            serverKey,
+            state: 'disconnected',
+            error: new MCPConnectionError(serverKey, 'Connection closed unexpectedly')
+        });
+        this.notifyListChanged(serverKey, 'tools');
+        this.scheduleReconnect(serverKey, 1);
+    }
+
+    /**
+     * Schedules a reconnect attempt with exponential backoff, or reports the server as failed
+     * once the configured attempts are used up.
+     * @param serverKey Server key
+     * @param attempt Attempt to schedule, starting at 1
+     * @param lastError Why the previous attempt failed
+     */
+    private scheduleReconnect(serverKey: string, attempt: number, lastError?: Error): void {
+        const config = this.serverConfigs.get(serverKey);
+        if (!config || config.disabled || config.reconnect === false) {
+            return;
+        }
+        const settings = { ...DEFAULT_RECONNECT_CONFIG, ...config.reconnect };
+        if (attempt > settings.maxAttempts) {
+            this.reconnects.delete(serverKey);
+            this.emitConnectionState({ serverKey, state: 'failed', ...(lastError ? { error: lastError } : {}) });
+            return;
+        }
+
+        const delay = Math.min(settings.initialDelayMs * 2 ** (attempt - 1), settings.maxDelayMs);
+        const timer = setTimeout(() => {
+            const reconnect = this.reconnects.get(serverKey);
+            if (reconnect?.timer !== timer) return;
+            delete reconnect.timer;
+            this.connectToServer(serverKey).catch(error => {
+                if (this.reconnects.get(serverKey) !== reconnect) return;
+                this.scheduleReconnect(serverKey, attempt + 1, error instanceof Error ? error : new Error(String(error)));
+            });
+        }, delay);
+        // Pending reconnects do not keep the process alive
+        timer.unref?.();
+
+        this.reconnects.set(serverKey, { attempt, timer });
+        this.emitConnectionState({ serverKey, state: 'reconnecting', attempt, ...(lastError ? { error: lastError } : {}) });
+    }
+
+    /**
+     * Stops a pending reconnect of a server
+     * @param serverKey Server key
+     */
+    private cancelReconnect(serverKey: string): void {
+        const reconnect = this.reconnects.get(serverKey);
+        if (reconnect?.timer) {
+            clearTimeout(reconnect.timer);
+        }
+        this.reconnects.delete(serverKey);
+    }
+
+    /**
+     * Subscribes to updates of a resource (`resources/subscribe`). The subscription is renewed
+     * when the adapter reconnects and ends when the server is disconnected on request.
+     * @param serverKey Server key
+     * @param uri URI of the resource
+     * @param onUpdated Called with every `notifications/resources/updated` for the resource
+     * @returns Function that removes the handler and unsubscribes once no handler is left
+     * @throws MCPConnectionError if the server cannot be reached or rejects the subscription
+     */
+    async subscribeToResource(
+        serverKey: string,
+        uri: string,
+        onUpdated: MCPResourceUpdatedHandler
+    ): Promise<() => Promise<void>> {
+        const log = logger.createLogger({ prefix: 'MCPServiceAdapter.subscribeToResource' });
+
+        await this.connectToServer(serverKey);
+        const client = this.sdkClients.get(serverKey)!;
+
+        // Register the handler before awaiting so concurrent subscribers share one request
+        let serverSubscriptions = this.resourceSubscriptions.get(serverKey);
+        if (!serverSubscriptions) {
+            serverSubscriptions = new Map();
+            this.resourceSubscriptions.set(serverKey, serverSubscriptions);
+        }
+        let handlers = serverSubscriptions.get(uri);
+        if (!handlers) {
+            handlers = new Set();
+            serverSubscriptions.set(uri, handlers);
+            const subscribing = handlers;
+            const request = client.subscribeResource({ uri }).then(
+                () => {
+                    this.pendingResourceSubscriptions.delete(subscribing);
+                    log.debug(`Subscribed to resource ${uri} on server ${serverKey}`);
+                },
+                (error: unknown) => {
+                    throw new MCPConnectionError(
+                        serverKey,
+                        `Failed to subscribe to resource ${uri}: ${(error as Error).message}`,
+                        error as Error
+                    );
+                }
+            );
+            this.pendingResourceSubscriptions.set(subscribing, request);
+        }
+        handlers.add(onUpdated);
+
+        try {
+            await this.pendingResourceSubscriptions.get(handlers);
+        } catch (error) {
+            handlers.delete(onUpdated);
+            if (handlers.size === 0 && this.resourceSubscriptions.get(serverKey)?.get(uri) === handlers) {
+                this.resourceSubscriptions.get(serverKey)!.delete(uri);
+            }
+            throw error;
+        }
+
+        return async () => {
+            const current = this.resourceSubscriptions.get(serverKey)?.get(uri);
+            if (!current?.delete(onUpdated) || current.size > 0) return;
+            this.resourceSubscriptions.get(serverKey)!.delete(uri);
+            const connected = this.sdkClients.get(serverKey);
+            if (connected) {
+                await connected.unsubscribeResource({ uri });
+                log.debug(`Unsubscribed from resource ${uri} on server ${serverKey}`);
+            }
+        };
+    }
+
+    /**
+     * Calls the handlers subscribed to a resource that changed
+     * @param serverKey Server key
+     * @param uri URI of the resource
+     */
+    private async handleResourceUpdated(serverKey: string, uri: string): Promise<void> {
+        const handlers = this.resourceSubscriptions.get(serverKey)?.get(uri);
+        for (const handler of [...(handlers ?? [])]) {
+            try {
+                await handler({ serverKey, uri });
+            } catch (error) {
+                logger.warn(`Resource update handler for ${uri} on server ${serverKey} failed`, { error });
+            }
+        }
+    }
+
+    /**
+     * Subscribes a new connection to the resources subscribed before the connection dropped
+     * @param serverKey Server key
+     * @param client The new client
+     */
+    private async renewResourceSubscriptions(serverKey: string, client: Client): Promise<void> {
+        for (const uri of this.resourceSubscriptions.get(serverKey)?.keys() ?? []) {
+            try {
+                await client.subscribeResource({ uri });
+            } catch (error) {
+                logger.warn(`Failed to renew subscription to resource ${uri} on server ${serverKey}`, { error });
+            }
+        }
+    }
+
+    private notifyListChanged(serverKey: string, list: MCPListChangedKind): void {
+        try {
+            this.listChangedHandler?.(serverKey, list);
+        } catch (error) {
+            logger.warn(`List change handler failed for server ${serverKey}`, { error });
+        }
+    }
+
+    private emitConnectionState(event: MCPConnectionStateEvent): void {
+        try {
+            this.connectionStateHandler?.(event);
+        } catch (error) {
+            logger.warn(`Connection state handler failed for server ${event.serverKey}`, { error });
+        }
+    }
+
     /**
      * Disconnects from all connected MCP servers and ensures all child processes are terminated
      * @returns Promise that resolves when all disconnections are complete
@@ -792,7 +1243,7 @@ export class MCPServiceAdapter {
         const log = logger.createLogger({ prefix: 'MCPServiceAdapter.disconnectAll' });
         log.debug(`Disconnecting from all servers`);
 
-        const serverKeys = Array.from(this.sdkClients.keys());
+        const serverKeys = Array.from(new Set([...this.sdkClients.keys(), ...this.reconnects.keys()]));
         log.debug(`Found ${serverKeys.length} connected servers to disconnect`);
 
         // Disconnect from each server individually first
@@ -1079,7 +1530,8 @@ export class MCPServiceAdapter {
         const processedArgs = this.processArguments(serverKey, toolName, args);
         const toolCallRequestOptions = {
             timeout: resolveMcpToolCallTimeoutMs(options),
-            ...(options?.signal ? { signal: options.signal } : {})
+            ...(options?.signal ? { signal: options.signal } : {}),
+            ...(options?.onProgress ? { onprogress: toToolProgressCallback(options.onProgress) } : {})
         };
 
         // Define the operation to execute with potential retries
@@ -1094,10 +1546,10 @@ export class MCPServiceAdapter {
                         stream: true
                     }, undefined, toolCallRequestOptions) as unknown as AsyncIterator<T>;
                 } else {
-                    return await client.callTool({
+                    return await this.trackToolCall(serverKey, options?.toolCall, () => client.callTool({
                         name: toolName,
                         arguments: processedArgs
-                    }, undefined, toolCallRequestOptions) as unknown as T;
+                    }, undefined, toolCallRequestOptions)) as unknown as T;
                 }
             } catch (error) {
                 // If the error is already one of our specific types, re-throw it directly.
@@ -1227,6 +1679,33 @@ export class MCPServiceAdapter {
         }
     }
 
+    /**
+     * Runs a tool call while it counts as in flight on the server, so that sampling and elicitation
+     * requests the server sends meanwhile can be attributed to it.
+     * @param serverKey Server key
+     * @param toolCall The tool call being executed, if known
+     * @param run Sends the `tools/call` request
+     */
+    private async trackToolCall<T>(serverKey: string, toolCall: MCPToolCallOrigin | undefined, run: () => Promise<T>): Promise<T> {
+        if (!toolCall) {
+            return run();
+        }
+        let calls = this.activeToolCalls.get(serverKey);
+        if (!calls) {
+            calls = new Set();
+            this.activeToolCalls.set(serverKey, calls);
+        }
+        calls.add(toolCall);
+        try {
+            return await run();
+        } finally {
+            calls.delete(toolCall);
+            if (calls.size === 0) {
+                this.activeToolCalls.delete(serverKey);
+            }
+        }
+    }
+
     /**
      * Processes arguments before sending to the MCP server
      * @param serverKey Server key
@@ -1316,6 +1795,7 @@ export class MCPServiceAdapter {
             },
             origin: 'mcp',
             metadata: {
+                isMCP: true,
                 originalName,
                 serverKey,
                 toolName: originalToolName
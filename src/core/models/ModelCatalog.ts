@@ -6,6 +6,10 @@ import { defaultModels as veniceModels } from '../../adapters/venice/models.ts';
 import { defaultModels as openrouterModels } from '../../adapters/openrouter/models.ts';
 import { defaultModels as geminiModels } from '../../adapters/gemini/models.ts';
 import { defaultModels as siliconFlowModels } from '../../adapters/siliconflow/models.ts';
+import { defaultModels as anthropicModels } from '../../adapters/anthropic/models.ts';
+import { defaultModels as openAICompatibleModels } from '../../adapters/openai-compatible/models.ts';
+import { defaultModels as bedrockModels } from '../../adapters/aws/models.ts';
+import { defaultModels as vertexModels } from '../../adapters/google/models.ts';
 import type { ExactModelSelection, ProviderScope } from './ModelSelection.ts';
 import { ModelSelectionConfigError } from './ModelSelection.ts';
 
@@ -22,7 +26,11 @@ export const DEFAULT_PROVIDER_MODEL_CATALOGS: Record<RegisteredProviders, readon
     venice: veniceModels,
     openrouter: openrouterModels,
     gemini: geminiModels,
-    siliconflow: siliconFlowModels
+    siliconflow: siliconFlowModels,
+    anthropic: anthropicModels,
+    'openai-compatible': openAICompatibleModels,
+    bedrock: bedrockModels,
+    vertex: vertexModels
 };
 
 export class ModelNotFoundError extends Error {
@@ -6,15 +6,23 @@ import { defaultModels as veniceModels } from '../../adapters/venice/models.ts';
 import { defaultModels as openrouterModels } from '../../adapters/openrouter/models.ts';
 import { defaultModels as geminiModels } from '../../adapters/gemini/models.ts';
 import { defaultModels as siliconFlowModels } from '../../adapters/siliconflow/models.ts';
+import { defaultModels as anthropicModels } from '../../adapters/anthropic/models.ts';
+import { defaultModels as openAICompatibleModels } from '../../adapters/openai-compatible/models.ts';
+import { defaultModels as bedrockModels } from '../../adapters/aws/models.ts';
+import { defaultModels as vertexModels } from '../../adapters/google/models.ts';
 import type { RegisteredProviders } from '../../adapters/index.ts';
 
 export class ModelManager {
     private static instance: ModelManager;
     private models: Map<string, ModelInfo>;
 
-    constructor(providerName: RegisteredProviders) {
+    /**
+     * @param models Entries added to the provider's built-in catalog, e.g. discovered `openai-compatible` models
+     */
+    constructor(providerName: RegisteredProviders, models: readonly ModelInfo[] = []) {
         this.models = new Map();
         this.initializeModels(providerName);
+        models.forEach(model => this.addModel(model));
         ModelManager.instance = this;
     }
 
@@ -63,6 +71,18 @@ export class ModelManager {
             case 'siliconflow':
                 siliconFlowModels.forEach(model => this.models.set(model.name, model));
                 break;
+            case 'anthropic':
+                anthropicModels.forEach(model => this.models.set(model.name, model));
+                break;
+            case 'openai-compatible':
+                openAICompatibleModels.forEach(model => this.models.set(model.name, model));
+                break;
+            case 'bedrock':
+                bedrockModels.forEach(model => this.models.set(model.name, model));
+                break;
+            case 'vertex':
+                vertexModels.forEach(model => this.models.set(model.name, model));
+                break;
             default:
                 throw new Error(`Unsupported provider: ${providerName}`);
         }
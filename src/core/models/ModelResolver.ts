@@ -57,6 +57,14 @@ export type ModelResolution = {
     requiredByRequest: string[];
     appliedConstraints: string[];
     candidates?: ModelResolutionCandidate[];
+    failover?: ModelFailoverHop[];
+};
+
+export type ModelFailoverHop = {
+    provider: RegisteredProviders;
+    model: string;
+    outcome: 'failed' | 'skipped';
+    error?: string;
 };
 
 export type ModelResolutionCandidate = {
@@ -1,5 +1,6 @@
 import type { Usage } from '../../interfaces/UniversalInterfaces.ts';
 import { encoding_for_model, type TiktokenModel } from '@dqbd/tiktoken';
+import { calculateCacheSavings } from '../telemetry/UsageNormalizer.ts';
 
 export class TokenCalculator {
     constructor() { }
@@ -32,6 +33,9 @@ export class TokenCalculator {
             ? (inputCachedTokens * inputCachedPricePerMillion) / 1_000_000
             : 0;
 
+        // A zero cached price is treated as "no cached price" above, so it saves nothing either
+        const cacheSavings = calculateCacheSavings(inputCachedTokens, inputPricePerMillion, inputCachedPricePerMillion || undefined);
+
         // Calculate image input costs if provided
         const imageInputCost = (imageInputTokens && imageInputPricePerMillion)
             ? (imageInputTokens * imageInputPricePerMillion) / 1_000_000
@@ -69,6 +73,7 @@ export class TokenCalculator {
             input: {
                 total: totalInputCost, // Include regular, cached and image input costs
                 cached: cachedInputCost,
+                ...(cacheSavings > 0 ? { cacheSavings } : {})
             },
             output: {
                 total: totalOutputCost,
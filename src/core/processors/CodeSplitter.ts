@@ -0,0 +1,365 @@
+import { TokenCalculator } from '../models/TokenCalculator.ts';
+import { StringSplitter } from './StringSplitter.ts';
+import { logger } from '../../utils/logger.ts';
+import type { CodeChunkInfo, DataChunk } from './DataSplitter.ts';
+
+/**
+ * Languages the code splitter parses. Others are split along lines.
+ */
+export type CodeLanguage = 'typescript' | 'python';
+
+/**
+ * Options for controlling the code splitting behavior
+ */
+export type CodeSplitterOptions = {
+    /** Language of the code. Detected from the content when omitted. */
+    language?: string;
+    /** File name, used as the first element of each chunk's path */
+    fileName?: string;
+    /** Maximum number of characters allowed per chunk (optional) */
+    maxCharsPerChunk?: number;
+};
+
+/** What the scanner knows about one source line */
+type SourceLine = {
+    text: string;
+    /** Nesting level at the start of the line; undefined inside strings, comments and open statements */
+    level?: number;
+    /** Whether the line only holds a comment or decorator that belongs to the next unit */
+    attached: boolean;
+};
+
+/** A syntactic unit that is never split further, with the names of its enclosing units */
+type CodePiece = {
+    text: string;
+    path: string[];
+    symbol?: string;
+    startLine: number;
+    endLine: number;
+    isCompleteUnit: boolean;
+};
+
+const LANGUAGE_ALIASES: Record<string, CodeLanguage> = {
+    typescript: 'typescript',
+    ts: 'typescript',
+    tsx: 'typescript',
+    javascript: 'typescript',
+    js: 'typescript',
+    jsx: 'typescript',
+    python: 'python',
+    py: 'python'
+};
+
+const TYPESCRIPT_PATTERNS = [
+    /^\s*import\s+.+\s+from\s+['"]/m,
+    /^\s*export\s+(default\s+)?(async\s+)?(function|class|const|let|interface|type|enum)\b/m,
+    /^\s*(async\s+)?function\s*\*?\s*[\w$]+\s*\(/m,
+    /^\s*(abstract\s+)?class\s+[\w$]+[^\n]*\{\s*$/m,
+    /^\s*interface\s+[\w$]+[^\n]*\{\s*$/m,
+    /^\s*(const|let|var)\s+[\w$]+[^\n]*=[^\n]*;\s*$/m
+];
+
+const PYTHON_PATTERNS = [
+    /^\s*(async\s+)?def\s+\w+\s*\([^\n]*\)\s*(->[^\n]*)?:\s*$/m,
+    /^\s*class\s+\w+(\([^\n]*\))?\s*:\s*$/m,
+    /^\s*(from\s+[\w.]+\s+import\s+[\w*]+|import\s+[\w.]+(\s+as\s+\w+)?\s*$)/m,
+    /^\s*if\s+__name__\s*==/m,
+    /^\s*@[\w.]+(\([^\n]*\))?\s*$/m
+];
+
+const TYPESCRIPT_NAME_PATTERNS = [
+    /^\s*(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:class|interface|enum|namespace|module|type|function\s*\*?)\s+([\w$]+)/,
+    /^\s*(?:export\s+)?(?:const|let|var)\s+([\w$]+)/,
+    /^\s*(?:(?:public|private|protected|static|async|readonly|abstract|override|get|set)\s+)*(?!(?:if|for|while|switch|catch|return|new|await)\b)([\w$#]+)\s*[(<:=]/
+];
+
+const PYTHON_NAME_PATTERN = /^\s*(?:async\s+)?(?:def|class)\s+(\w+)/;
+
+/**
+ * Detects TypeScript/JavaScript or Python source code. Text with markdown code fences is not
+ * treated as code.
+ */
+export function detectCodeLanguage(content: string): CodeLanguage | undefined {
+    if (/^```/m.test(content)) return undefined;
+    const typescript = TYPESCRIPT_PATTERNS.filter(pattern => pattern.test(content)).length;
+    const python = PYTHON_PATTERNS.filter(pattern => pattern.test(content)).length;
+    if (Math.max(typescript, python) < 2) return undefined;
+    return typescript >= python ? 'typescript' : 'python';
+}
+
+/**
+ * Splits source code along syntactic units: top-level statements, functions and classes, and
+ * the members of a class that does not fit into a chunk. A lightweight scanner tracks brackets,
+ * strings and comments for TypeScript/JavaScript and indentation for Python. Units too large
+ * for a chunk, and code in other languages, are split along lines.
+ */
+export class CodeSplitter {
+    private stringSplitter: StringSplitter;
+
+    constructor(private tokenCalculator: TokenCalculator) {
+        this.stringSplitter = new StringSplitter(tokenCalculator);
+    }
+
+    public split(content: string, maxTokens: number, options: CodeSplitterOptions = {}): DataChunk[] {
+        const log = logger.createLogger({ prefix: 'CodeSplitter.split' });
+        const language = options.language
+            ? LANGUAGE_ALIASES[options.language.toLowerCase()]
+            : detectCodeLanguage(content);
+        const rootPath = options.fileName ? [options.fileName] : [];
+        const lines = content.split('\n').map((text, index, all) => index < all.length - 1 ? `${text}\n` : text);
+
+        const pieces = language
+            ? this.splitUnit(scanLines(lines, language), language, 0, lines.length - 1, -1, rootPath, maxTokens, options.maxCharsPerChunk)
+            : this.splitLines(lines, 0, lines.length - 1, rootPath, maxTokens, options.maxCharsPerChunk);
+        log.debug('Split code into pieces', { language: language ?? 'unknown', lineCount: lines.length, pieceCount: pieces.length });
+
+        const packed: CodePiece[][] = [];
+        for (const piece of pieces) {
+            const current = packed[packed.length - 1];
+            if (current && this.fits(joinPieces([...current, piece]), maxTokens, options.maxCharsPerChunk)) {
+                current.push(piece);
+            } else {
+                packed.push([piece]);
+            }
+        }
+
+        return packed
+            .map(group => ({ group, content: joinPieces(group).replace(/^\n+|\s+$/g, '') }))
+            .filter(({ content: text }) => text.length > 0)
+            .map(({ group, content: text }, index, all): DataChunk => {
+                const codeInfo: CodeChunkInfo = {
+                    ...(language ? { language } : {}),
+                    path: commonPrefix(group.map(piece => piece.path)),
+                    symbols: group.flatMap(piece => piece.symbol ? [piece.symbol] : []),
+                    startLine: group[0].startLine + 1,
+                    endLine: group[group.length - 1].endLine + 1,
+                    isCompleteUnit: group.every(piece => piece.isCompleteUnit || !piece.text.trim())
+                };
+                return {
+                    content: text,
+                    tokenCount: this.tokenCalculator.calculateTokens(text),
+                    chunkIndex: index,
+                    totalChunks: all.length,
+                    metadata: { contentType: 'code', codeInfo }
+                };
+            });
+    }
+
+    /**
+     * Splits lines `start` to `end` into the units one nesting level below `level`. Inside a unit,
+     * its header and closing lines are kept apart from its members. Units that do not fit are
+     * split along their own members, and finally along lines.
+     */
+    private splitUnit(lines: SourceLine[], language: CodeLanguage, start: number, end: number, level: number, path: string[], maxTokens: number, maxCharsPerChunk?: number): CodePiece[] {
+        const texts = lines.map(line => line.text);
+        let bodyEnd = end;
+        if (level >= 0) {
+            while (bodyEnd > start && (!lines[bodyEnd].text.trim() || (lines[bodyEnd].level ?? level + 1) <= level)) bodyEnd--;
+        }
+        const innerLevel = lines
+            .slice(start, bodyEnd + 1)
+            .reduce<number | undefined>((min, line) =>
+                line.level !== undefined && line.level > level && (min === undefined || line.level < min) ? line.level : min, undefined);
+
+        const starts: number[] = [];
+        for (let index = start; innerLevel !== undefined && index <= bodyEnd; index++) {
+            if (lines[index].level !== innerLevel || lines[index].attached || isContinuation(lines[index].text, language)) continue;
+            let unitStart = index;
+            const previousStart = starts[starts.length - 1] ?? start - 1;
+            while (unitStart - 1 > previousStart && lines[unitStart - 1].attached &&
+                (lines[unitStart - 1].level ?? innerLevel) === innerLevel) unitStart--;
+            starts.push(unitStart);
+        }
+        if (level < 0) {
+            // Lines before the first unit belong to it
+            starts[0] = start;
+        } else if (starts.length === 0) {
+            return this.splitLines(texts, start, end, path, maxTokens, maxCharsPerChunk);
+        }
+
+        const members = starts.flatMap((unitStart, index) => {
+            const unitEnd = index + 1 < starts.length ? starts[index + 1] - 1 : bodyEnd;
+            const text = texts.slice(unitStart, unitEnd + 1).join('');
+            const symbol = unitSymbol(lines, unitStart, unitEnd, language);
+            if (this.fits(text, maxTokens, maxCharsPerChunk)) {
+                return [{ text, path, ...(symbol ? { symbol } : {}), startLine: unitStart, endLine: unitEnd, isCompleteUnit: true }];
+            }
+            const header = lines.slice(unitStart, unitEnd + 1).find(line => !line.attached && line.text.trim());
+            return this.splitUnit(lines, language, unitStart, unitEnd, header?.level ?? innerLevel!, symbol ? [...path, symbol] : path, maxTokens, maxCharsPerChunk);
+        });
+        return [
+            ...this.splitLines(texts, start, starts[0] - 1, path, maxTokens, maxCharsPerChunk),
+            ...members,
+            ...this.splitLines(texts, bodyEnd + 1, end, path, maxTokens, maxCharsPerChunk)
+        ];
+    }
+
+    /**
+     * Packs lines into pieces, splitting lines that do not fit on their own
+     */
+    private splitLines(lines: string[], start: number, end: number, path: string[], maxTokens: number, maxCharsPerChunk?: number): CodePiece[] {
+        const pieces: CodePiece[] = [];
+        for (let index = start; index <= end; index++) {
+            const line = lines[index];
+            const previous = pieces[pieces.length - 1];
+            if (previous && previous.endLine === index - 1 && this.fits(previous.text + line, maxTokens, maxCharsPerChunk)) {
+                previous.text += line;
+                previous.endLine = index;
+            } else if (this.fits(line, maxTokens, maxCharsPerChunk)) {
+                pieces.push({ text: line, path, startLine: index, endLine: index, isCompleteUnit: false });
+            } else {
+                for (const part of this.stringSplitter.split(line, maxTokens, { maxCharsPerChunk, forceFixedSplit: true })) {
+                    pieces.push({ text: `${part}\n`, path, startLine: index, endLine: index, isCompleteUnit: false });
+                }
+            }
+        }
+        return pieces;
+    }
+
+    private fits(text: string, maxTokens: number, maxCharsPerChunk?: number): boolean {
+        const trimmed = text.trim();
+        return this.tokenCalculator.calculateTokens(trimmed) <= maxTokens && (!maxCharsPerChunk || trimmed.length <= maxCharsPerChunk);
+    }
+}
+
+function scanLines(lines: string[], language: CodeLanguage): SourceLine[] {
+    return language === 'python' ? scanPythonLines(lines) : scanBraceLines(lines);
+}
+
+/**
+ * Tracks bracket depth across strings, template literals and comments
+ */
+function scanBraceLines(lines: string[]): SourceLine[] {
+    let depth = 0;
+    let inBlockComment = false;
+    let quote: string | undefined;
+    const templateDepths: number[] = [];
+
+    return lines.map(text => {
+        const trimmed = text.trim();
+        const startsInComment = inBlockComment;
+        // A line that closes brackets is at the level of the line that opened them
+        const closers = trimmed.match(/^[)\]}]+/)?.[0].length ?? 0;
+        const level = inBlockComment || quote || !trimmed ? undefined : Math.max(0, depth - closers);
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+            const next = text[i + 1];
+            if (inBlockComment) {
+                if (char === '*' && next === '/') {
+                    inBlockComment = false;
+                    i++;
+                }
+            } else if (quote) {
+                if (char === '\\') {
+                    i++;
+                } else if (char === quote) {
+                    quote = undefined;
+                } else if (quote === '`' && char === '$' && next === '{') {
+                    templateDepths.push(depth);
+                    depth++;
+                    quote = undefined;
+                    i++;
+                }
+            } else if (char === '/' && next === '/') {
+                break;
+            } else if (char === '/' && next === '*') {
+                inBlockComment = true;
+                i++;
+            } else if (char === '"' || char === "'" || char === '`') {
+                quote = char;
+            } else if (char === '(' || char === '[' || char === '{') {
+                depth++;
+            } else if (char === ')' || char === ']' || char === '}') {
+                depth = Math.max(0, depth - 1);
+                if (char === '}' && templateDepths[templateDepths.length - 1] === depth) {
+                    templateDepths.pop();
+                    quote = '`';
+                }
+            }
+        }
+        // Only template literals span lines
+        if (quote && quote !== '`') quote = undefined;
+
+        return {
+            text,
+            level,
+            attached: Boolean(trimmed) && (startsInComment || /^(\/\/|\/\*|@)/.test(trimmed))
+        };
+    });
+}
+
+/**
+ * Tracks indentation, skipping lines inside brackets, triple-quoted strings and continued lines
+ */
+function scanPythonLines(lines: string[]): SourceLine[] {
+    let depth = 0;
+    let tripleQuote: string | undefined;
+    let continued = false;
+
+    return lines.map(text => {
+        const trimmed = text.trim();
+        const indent = (text.match(/^[ \t]*/)?.[0] ?? '').replace(/\t/g, '    ').length;
+        const level = tripleQuote || depth > 0 || continued || !trimmed ? undefined : indent;
+
+        let quote: string | undefined;
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+            if (tripleQuote) {
+                if (text.startsWith(tripleQuote, i)) {
+                    tripleQuote = undefined;
+                    i += 2;
+                }
+            } else if (quote) {
+                if (char === '\\') i++;
+                else if (char === quote) quote = undefined;
+            } else if (char === '#') {
+                break;
+            } else if (text.startsWith('"""', i) || text.startsWith("'''", i)) {
+                tripleQuote = text.slice(i, i + 3);
+                i += 2;
+            } else if (char === '"' || char === "'") {
+                quote = char;
+            } else if (char === '(' || char === '[' || char === '{') {
+                depth++;
+            } else if (char === ')' || char === ']' || char === '}') {
+                depth = Math.max(0, depth - 1);
+            }
+        }
+        continued = !tripleQuote && /\\\s*$/.test(text);
+
+        return { text, level, attached: level !== undefined && /^(#|@)/.test(trimmed) };
+    });
+}
+
+/** Whether a line continues the statement before it instead of starting a unit */
+function isContinuation(text: string, language: CodeLanguage): boolean {
+    const trimmed = text.trim();
+    return language === 'python'
+        ? /^(else|elif|except|finally)\b|^[)\]}]/.test(trimmed)
+        : /^([)\]}.]|else\b|catch\b|finally\b)/.test(trimmed);
+}
+
+function unitSymbol(lines: SourceLine[], start: number, end: number, language: CodeLanguage): string | undefined {
+    const header = lines.slice(start, end + 1).find(line => !line.attached && line.text.trim());
+    if (!header) return undefined;
+    if (language === 'python') return header.text.match(PYTHON_NAME_PATTERN)?.[1];
+    for (const pattern of TYPESCRIPT_NAME_PATTERNS) {
+        const match = header.text.match(pattern);
+        if (match) return match[1];
+    }
+    return undefined;
+}
+
+function joinPieces(pieces: CodePiece[]): string {
+    return pieces.map(piece => piece.text).join('');
+}
+
+function commonPrefix(paths: string[][]): string[] {
+    const [first, ...rest] = paths;
+    const prefix: string[] = [];
+    for (let i = 0; i < first.length && rest.every(path => path[i] === first[i]); i++) {
+        prefix.push(first[i]);
+    }
+    return prefix;
+}
@@ -1,8 +1,10 @@
-import type { ModelInfo, JSONSchemaDefinition, UniversalMessage } from '../../interfaces/UniversalInterfaces.ts';
+import type { ModelInfo, JSONSchemaDefinition, UniversalMessage, SemanticSplitOptions, CodeSplitOptions, SplitStrategy } from '../../interfaces/UniversalInterfaces.ts';
 import { TokenCalculator } from '../models/TokenCalculator.ts';
 import { RecursiveObjectSplitter } from './RecursiveObjectSplitter.ts';
 import { StringSplitter } from './StringSplitter.ts';
 import { MarkdownSplitter } from './MarkdownSplitter.ts';
+import { SemanticSplitter, type TextEmbedder } from './SemanticSplitter.ts';
+import { CodeSplitter, detectCodeLanguage, type CodeLanguage } from './CodeSplitter.ts';
 import { SchemaFormatter } from '../schema/SchemaFormatter.ts';
 import { logger } from '../../utils/logger.ts';
 
@@ -18,7 +20,9 @@ export type DataChunk = {
     metadata?: {
         // Enhanced metadata for hierarchical content
         hierarchicalInfo?: HierarchicalChunkInfo;
-        contentType?: 'text' | 'markdown' | 'json' | 'array';
+        semanticInfo?: SemanticChunkInfo;
+        codeInfo?: CodeChunkInfo;
+        contentType?: 'text' | 'markdown' | 'json' | 'array' | 'code';
         preservedElements?: ('table' | 'codeBlock' | 'list' | 'blockquote')[];
     };
 };
@@ -34,6 +38,37 @@ export type HierarchicalChunkInfo = {
     isCompleteSection: boolean; // Whether this chunk contains a complete semantic unit
 };
 
+/**
+ * Topic information for semantically split chunks
+ */
+export type SemanticChunkInfo = {
+    topicIndex: number;        // Index of the first topic in this chunk (0-based)
+    topicCount: number;        // Number of topics this chunk touches
+    sentenceRange: [number, number]; // First and last sentence of this chunk, without the overlap
+    isCompleteTopic: boolean;  // Whether this chunk contains whole topics only
+    overlapTokens: number;     // Tokens repeated from the end of the previous chunk
+};
+
+/**
+ * Syntactic information for chunks of source code
+ */
+export type CodeChunkInfo = {
+    language?: CodeLanguage;   // Parsed language; absent when the code was split along lines
+    path: string[];            // File name and enclosing units: ["user.ts", "UserService"]
+    symbols: string[];         // Names of the units in this chunk
+    startLine: number;         // First line of this chunk (1-based)
+    endLine: number;           // Last line of this chunk (1-based)
+    isCompleteUnit: boolean;   // Whether this chunk contains whole units only
+};
+
+/**
+ * How splitIfNeeded splits string data, and the embedder the 'semantic' strategy uses
+ */
+export type DataSplitOptions = {
+    splitStrategy?: SplitStrategy | SemanticSplitOptions | CodeSplitOptions;
+    embed?: TextEmbedder;
+};
+
 /**
  * Handles splitting large data into smaller chunks based on token limits
  * Ensures that each chunk fits within the model's token constraints while maintaining data integrity
@@ -41,10 +76,14 @@ export type HierarchicalChunkInfo = {
 export class DataSplitter {
     private stringSplitter: StringSplitter;
     private markdownSplitter: MarkdownSplitter;
+    private semanticSplitter: SemanticSplitter;
+    private codeSplitter: CodeSplitter;
 
     constructor(private tokenCalculator: TokenCalculator) {
         this.stringSplitter = new StringSplitter(tokenCalculator);
         this.markdownSplitter = new MarkdownSplitter(tokenCalculator);
+        this.semanticSplitter = new SemanticSplitter(tokenCalculator);
+        this.codeSplitter = new CodeSplitter(tokenCalculator);
     }
 
     /**
@@ -59,7 +98,9 @@ export class DataSplitter {
         maxCharsPerChunk,
         jsonSchema,
         historicalMessages,
-        historyMode
+        historyMode,
+        splitStrategy,
+        embed
     }: {
         message: string;
         data?: any;
@@ -70,7 +111,7 @@ export class DataSplitter {
         jsonSchema?: { name?: string; schema: JSONSchemaDefinition };
         historicalMessages?: UniversalMessage[];
         historyMode?: string;
-    }): Promise<DataChunk[]> {
+    } & DataSplitOptions): Promise<DataChunk[]> {
         const log = logger.createLogger({ prefix: 'DataSplitter.splitIfNeeded' });
         log.debug('Called with', {
             dataType: typeof data,
@@ -205,7 +246,7 @@ export class DataSplitter {
             if (typeof data === 'string') {
                 // Only do basic content type detection, not full hierarchical parsing
                 metadata = {
-                    contentType: this.isMarkdownContent(data) ? 'markdown' as const : 'text' as const
+                    contentType: detectCodeLanguage(data) ? 'code' as const : this.isMarkdownContent(data) ? 'markdown' as const : 'text' as const
                 };
             } else if (Array.isArray(data)) {
                 metadata = { contentType: 'array' as const };
@@ -222,6 +263,27 @@ export class DataSplitter {
             }];
         }
 
+        return this.splitData(data, availableTokens, maxCharsPerChunk, { splitStrategy, embed });
+    }
+
+    /**
+     * Splits data into chunks of at most `maxTokens` tokens each. Unlike splitIfNeeded, it reserves
+     * nothing for a prompt or response, for data that is not sent as a request of its own.
+     */
+    public async splitToTokens(data: any, maxTokens: number): Promise<DataChunk[]> {
+        const dataString = typeof data === 'string' ? data : JSON.stringify(data) ?? '';
+        const dataTokens = this.tokenCalculator.calculateTokens(dataString);
+        if (dataTokens <= maxTokens || data === null || (typeof data !== 'object' && typeof data !== 'string')) {
+            return [{ content: data, tokenCount: dataTokens, chunkIndex: 0, totalChunks: 1 }];
+        }
+        return this.splitData(data, Math.max(1, maxTokens));
+    }
+
+    /**
+     * Splits data that does not fit into `availableTokens`, choosing the strategy by its type
+     */
+    private async splitData(data: any, availableTokens: number, maxCharsPerChunk?: number, options: DataSplitOptions = {}): Promise<DataChunk[]> {
+        const log = logger.createLogger({ prefix: 'DataSplitter.splitData' });
         log.info('Data needs to be split, determining strategy', {
             dataType: typeof data,
             isString: typeof data === 'string',
@@ -231,9 +293,27 @@ export class DataSplitter {
 
         // Choose splitting strategy
         let result: DataChunk[];
+        const strategy = typeof options.splitStrategy === 'object' ? options.splitStrategy : { strategy: options.splitStrategy ?? 'auto' };
         if (typeof data === 'string') {
-            // Check if the string appears to be markdown
-            if (this.isMarkdownContent(data)) {
+            if (strategy.strategy === 'semantic') {
+                if (!options.embed) {
+                    throw new Error("The 'semantic' split strategy requires an embedder");
+                }
+                log.debug('Using semantic splitter for text content');
+                result = await this.semanticSplitter.split(data, availableTokens, {
+                    embed: options.embed,
+                    breakpointPercentile: 'breakpointPercentile' in strategy ? strategy.breakpointPercentile : undefined,
+                    overlapTokens: 'overlapTokens' in strategy ? strategy.overlapTokens : undefined,
+                    maxCharsPerChunk
+                });
+            } else if (strategy.strategy === 'code' || (strategy.strategy === 'auto' && detectCodeLanguage(data))) {
+                log.debug('Using code splitter for source code');
+                result = this.codeSplitter.split(data, availableTokens, {
+                    language: 'language' in strategy ? strategy.language : undefined,
+                    fileName: 'fileName' in strategy ? strategy.fileName : undefined,
+                    maxCharsPerChunk
+                });
+            } else if (this.isMarkdownContent(data)) {
                 log.debug('Detected markdown content, using hierarchical splitting');
                 result = await this.markdownSplitter.split(data, availableTokens, maxCharsPerChunk);
             } else {
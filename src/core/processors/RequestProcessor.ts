@@ -1,6 +1,6 @@
 import type { ModelInfo, JSONSchemaDefinition, UniversalMessage } from '../../interfaces/UniversalInterfaces.ts';
 import { TokenCalculator } from '../models/TokenCalculator.ts';
-import { DataSplitter } from './DataSplitter.ts';
+import { DataSplitter, type DataSplitOptions } from './DataSplitter.ts';
 import { logger } from '../../utils/logger.ts';
 
 export class RequestProcessor {
@@ -21,7 +21,9 @@ export class RequestProcessor {
         maxCharsPerChunk,
         jsonSchema,
         historicalMessages,
-        historyMode
+        historyMode,
+        splitStrategy,
+        embed
     }: {
         message: string;
         data?: any;
@@ -32,7 +34,7 @@ export class RequestProcessor {
         jsonSchema?: { name?: string; schema: JSONSchemaDefinition };
         historicalMessages?: UniversalMessage[];
         historyMode?: string;
-    }): Promise<string[]> {
+    } & DataSplitOptions): Promise<string[]> {
         const log = logger.createLogger({ prefix: 'RequestProcessor.processRequest' });
         log.debug('Processing request', {
             message: message.substring(0, 100) + (message.length > 100 ? '...' : ''),
@@ -94,7 +96,9 @@ export class RequestProcessor {
                     maxCharsPerChunk,
                     jsonSchema,
                     historicalMessages: contextMessages, // Pass the context WITHOUT the current message
-                    historyMode
+                    historyMode,
+                    splitStrategy,
+                    embed
                 });
 
                 log.info(`Split large message into ${chunks.length} chunks`, { count: chunks.length });
@@ -130,7 +134,9 @@ export class RequestProcessor {
             maxCharsPerChunk,
             jsonSchema,
             historicalMessages,
-            historyMode
+            historyMode,
+            splitStrategy,
+            embed
         });
 
         if (chunks.length > 1) {
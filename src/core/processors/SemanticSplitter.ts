@@ -0,0 +1,216 @@
+import { TokenCalculator } from '../models/TokenCalculator.ts';
+import { StringSplitter } from './StringSplitter.ts';
+import { logger } from '../../utils/logger.ts';
+import type { DataChunk, SemanticChunkInfo } from './DataSplitter.ts';
+
+/**
+ * Embeds texts, returning one vector per text in the same order
+ */
+export type TextEmbedder = (texts: string[]) => Promise<number[][]>;
+
+/**
+ * Options for controlling the semantic splitting behavior
+ */
+export type SemanticSplitterOptions = {
+    /** Embeds the sentences of the input */
+    embed: TextEmbedder;
+    /** Percentile of the sentence distances above which a topic boundary is placed */
+    breakpointPercentile?: number;
+    /** Tokens from the end of each chunk repeated at the start of the next one */
+    overlapTokens?: number;
+    /** Maximum number of characters allowed per chunk (optional) */
+    maxCharsPerChunk?: number;
+};
+
+/**
+ * Sentences up to and including their ending punctuation or line break, with the whitespace
+ * that follows, so that the sentences joined give back the input.
+ */
+const SENTENCE_REGEX = /[^.!?。！？\n]+(?:[.!?。！？]+|\n+|$)\s*|[.!?。！？]+\s*|\n+/g;
+const EMBEDDING_BATCH_SIZE = 100;
+const DEFAULT_BREAKPOINT_PERCENTILE = 90;
+
+/** A run of text that is never split further: a topic, part of a topic, or part of a long sentence */
+type Piece = {
+    text: string;
+    topicIndex: number;
+    firstSentence: number;
+    lastSentence: number;
+    isCompleteTopic: boolean;
+};
+
+/**
+ * Splits prose at topic boundaries. Neighbouring sentences are embedded, and a boundary is placed
+ * where the cosine distance between them is unusually large. Topics are packed into chunks within
+ * the token limit; topics that do not fit into one chunk are split along sentences.
+ */
+export class SemanticSplitter {
+    private stringSplitter: StringSplitter;
+
+    constructor(private tokenCalculator: TokenCalculator) {
+        this.stringSplitter = new StringSplitter(tokenCalculator);
+    }
+
+    public async split(input: string, maxTokens: number, options: SemanticSplitterOptions): Promise<DataChunk[]> {
+        const log = logger.createLogger({ prefix: 'SemanticSplitter.split' });
+        const breakpointPercentile = options.breakpointPercentile ?? DEFAULT_BREAKPOINT_PERCENTILE;
+        if (breakpointPercentile < 0 || breakpointPercentile > 100) {
+            throw new RangeError(`breakpointPercentile must be between 0 and 100, got ${breakpointPercentile}`);
+        }
+        // Leave at least half of each chunk for new text
+        const overlapTokens = Math.min(Math.max(0, options.overlapTokens ?? 0), Math.floor(maxTokens / 2));
+        const packTokens = Math.max(1, maxTokens - overlapTokens);
+
+        const sentences = input.match(SENTENCE_REGEX) ?? [input];
+        const topics = await this.findTopics(sentences, options.embed, breakpointPercentile);
+        log.debug('Found topics', { sentenceCount: sentences.length, topicCount: topics.length, breakpointPercentile });
+
+        const pieces = topics.flatMap((topic, topicIndex) =>
+            this.topicPieces(sentences, topic, topicIndex, packTokens, options.maxCharsPerChunk));
+
+        const packed: Piece[][] = [];
+        for (const piece of pieces) {
+            const current = packed[packed.length - 1];
+            if (current && this.fits(joinPieces([...current, piece]), packTokens, options.maxCharsPerChunk)) {
+                current.push(piece);
+            } else {
+                packed.push([piece]);
+            }
+        }
+
+        const chunks = packed.map((group, index): DataChunk => {
+            const overlap = index > 0 && overlapTokens > 0
+                ? this.overlapText(sentences, packed[index - 1], group, overlapTokens, maxTokens, options.maxCharsPerChunk)
+                : '';
+            const content = (overlap + joinPieces(group)).trim();
+            const semanticInfo: SemanticChunkInfo = {
+                topicIndex: group[0].topicIndex,
+                topicCount: group[group.length - 1].topicIndex - group[0].topicIndex + 1,
+                sentenceRange: [group[0].firstSentence, group[group.length - 1].lastSentence],
+                isCompleteTopic: group.every(piece => piece.isCompleteTopic),
+                overlapTokens: overlap ? this.tokenCalculator.calculateTokens(overlap.trim()) : 0
+            };
+            return {
+                content,
+                tokenCount: this.tokenCalculator.calculateTokens(content),
+                chunkIndex: index,
+                totalChunks: packed.length,
+                metadata: { contentType: 'text', semanticInfo }
+            };
+        });
+
+        log.debug('Semantic splitting completed', {
+            chunkCount: chunks.length,
+            chunkTokenCounts: chunks.map(chunk => chunk.tokenCount)
+        });
+        return chunks;
+    }
+
+    /**
+     * Groups the sentences into topics, returned as [first, last] sentence indexes
+     */
+    private async findTopics(sentences: string[], embed: TextEmbedder, breakpointPercentile: number): Promise<[number, number][]> {
+        if (sentences.length < 2) return [[0, sentences.length - 1]];
+
+        const vectors: number[][] = [];
+        for (let i = 0; i < sentences.length; i += EMBEDDING_BATCH_SIZE) {
+            const batch = sentences.slice(i, i + EMBEDDING_BATCH_SIZE).map(sentence => sentence.trim() || ' ');
+            const embedded = await embed(batch);
+            if (embedded.length !== batch.length) {
+                throw new Error(`Expected ${batch.length} embeddings, got ${embedded.length}`);
+            }
+            vectors.push(...embedded);
+        }
+
+        const distances = vectors.slice(1).map((vector, index) => 1 - cosineSimilarity(vectors[index], vector));
+        const threshold = percentile(distances, breakpointPercentile);
+
+        const topics: [number, number][] = [];
+        let start = 0;
+        distances.forEach((distance, index) => {
+            if (distance > threshold) {
+                topics.push([start, index]);
+                start = index + 1;
+            }
+        });
+        topics.push([start, sentences.length - 1]);
+        return topics;
+    }
+
+    /**
+     * Returns a topic as one piece, or split along sentences when it does not fit into a chunk
+     */
+    private topicPieces(sentences: string[], [first, last]: [number, number], topicIndex: number, maxTokens: number, maxCharsPerChunk?: number): Piece[] {
+        const text = sentences.slice(first, last + 1).join('');
+        if (this.fits(text, maxTokens, maxCharsPerChunk)) {
+            return [{ text, topicIndex, firstSentence: first, lastSentence: last, isCompleteTopic: true }];
+        }
+
+        const pieces: Piece[] = [];
+        for (let index = first; index <= last; index++) {
+            const sentence = sentences[index];
+            const parts = this.fits(sentence, maxTokens, maxCharsPerChunk)
+                ? [sentence]
+                : this.stringSplitter.split(sentence, maxTokens, { maxCharsPerChunk }).map(part => `${part} `);
+            const previous = pieces[pieces.length - 1];
+            for (const part of parts) {
+                if (previous && parts.length === 1 && this.fits(previous.text + part, maxTokens, maxCharsPerChunk)) {
+                    previous.text += part;
+                    previous.lastSentence = index;
+                } else {
+                    pieces.push({ text: part, topicIndex, firstSentence: index, lastSentence: index, isCompleteTopic: false });
+                }
+            }
+        }
+        return pieces;
+    }
+
+    /**
+     * Returns the trailing sentences of the previous chunk that fit into the overlap
+     */
+    private overlapText(sentences: string[], previous: Piece[], group: Piece[], overlapTokens: number, maxTokens: number, maxCharsPerChunk?: number): string {
+        const body = joinPieces(group);
+        const lastSentence = previous[previous.length - 1].lastSentence;
+        const firstSentence = previous[0].firstSentence;
+        let overlap = '';
+        for (let index = lastSentence; index >= firstSentence; index--) {
+            const candidate = sentences[index] + overlap;
+            if (this.tokenCalculator.calculateTokens(candidate.trim()) > overlapTokens ||
+                !this.fits(candidate + body, maxTokens, maxCharsPerChunk)) {
+                break;
+            }
+            overlap = candidate;
+        }
+        return overlap;
+    }
+
+    private fits(text: string, maxTokens: number, maxCharsPerChunk?: number): boolean {
+        const trimmed = text.trim();
+        return this.tokenCalculator.calculateTokens(trimmed) <= maxTokens && (!maxCharsPerChunk || trimmed.length <= maxCharsPerChunk);
+    }
+}
+
+function joinPieces(pieces: Piece[]): string {
+    return pieces.map(piece => piece.text).join('');
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/** Percentile with linear interpolation between the closest ranks */
+function percentile(values: number[], p: number): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const rank = (p / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
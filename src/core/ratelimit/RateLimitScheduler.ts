@@ -0,0 +1,141 @@
+import type { UniversalStreamResponse } from '../../interfaces/UniversalInterfaces.ts';
+import { TokenCalculator } from '../models/TokenCalculator.ts';
+import {
+    getRateLimitInfoFromError,
+    type RateLimitInfo,
+    type RateLimitPermit,
+    type RateLimitQueueEvent,
+    type RateLimiterRegistry
+} from './RateLimiter.ts';
+
+export type RateLimitTarget = {
+    provider: string;
+    model: string;
+};
+
+/** A scheduler bound to the provider a controller talks to. */
+export type RateLimitBinding = {
+    scheduler: RateLimitScheduler;
+    provider: string;
+};
+
+export type RateLimitRequest = {
+    /** Estimated tokens of the request, taken from the token bucket before it is sent. */
+    tokens?: number;
+    signal?: AbortSignal;
+};
+
+type RateLimitedResult = {
+    metadata?: { rateLimit?: RateLimitInfo; usage?: { tokens?: { total?: number } } };
+    usage?: { tokens?: { total?: number } };
+};
+
+const getUsedTokens = (result: unknown): number | undefined => {
+    const value = result as RateLimitedResult | undefined;
+    const total = value?.metadata?.usage?.tokens?.total ?? value?.usage?.tokens?.total;
+    return typeof total === 'number' && total > 0 ? total : undefined;
+};
+
+/**
+ * A caller's entry point to the shared rate limiters. Controllers run every provider request
+ * through it; it waits for the request's turn, reports queueing to telemetry, and feeds the
+ * rate-limit headers of responses and errors back to the limiter. A request also waits for the
+ * caller's own limits in `callerRegistry`, which provider headers do not change.
+ */
+export class RateLimitScheduler {
+    private readonly tokenCalculator = new TokenCalculator();
+
+    constructor(
+        public readonly registry: RateLimiterRegistry,
+        private readonly onQueued?: (event: RateLimitQueueEvent) => void,
+        private readonly callerRegistry?: RateLimiterRegistry
+    ) { }
+
+    /** Tokens of the request's input texts plus, when the request caps its output, the maximum output. */
+    estimate(texts: string[], maxOutputTokens = 0): number {
+        return texts.reduce((total, text) => total + this.tokenCalculator.calculateTokens(text), maxOutputTokens);
+    }
+
+    async run<T>(target: RateLimitTarget, request: RateLimitRequest, send: () => Promise<T>): Promise<T> {
+        const limiter = this.registry.get(target.provider, target.model);
+        const permit = await this.acquire(target, request);
+        let usedTokens: number | undefined;
+        try {
+            const result = await send();
+            const rateLimit = (result as RateLimitedResult | undefined)?.metadata?.rateLimit;
+            if (rateLimit) limiter.update(rateLimit);
+            usedTokens = getUsedTokens(result);
+            return result;
+        } catch (error) {
+            const rateLimit = getRateLimitInfoFromError(error);
+            if (rateLimit) limiter.update(rateLimit);
+            throw error;
+        } finally {
+            permit.release(usedTokens);
+        }
+    }
+
+    /**
+     * Like {@link run} for a provider stream. The request keeps its concurrency slot until the
+     * stream ends, and the usage on the final chunk corrects the token estimate.
+     */
+    async runStream(
+        target: RateLimitTarget,
+        request: RateLimitRequest,
+        open: () => Promise<AsyncIterable<UniversalStreamResponse>>
+    ): Promise<AsyncIterable<UniversalStreamResponse>> {
+        const limiter = this.registry.get(target.provider, target.model);
+        const permit = await this.acquire(target, request);
+        let stream: AsyncIterable<UniversalStreamResponse>;
+        try {
+            stream = await open();
+        } catch (error) {
+            const rateLimit = getRateLimitInfoFromError(error);
+            if (rateLimit) limiter.update(rateLimit);
+            permit.release();
+            throw error;
+        }
+
+        return (async function* () {
+            let usedTokens: number | undefined;
+            try {
+                for await (const chunk of stream) {
+                    if (chunk.metadata?.rateLimit) limiter.update(chunk.metadata.rateLimit);
+                    usedTokens = getUsedTokens(chunk) ?? usedTokens;
+                    yield chunk;
+                }
+            } catch (error) {
+                const rateLimit = getRateLimitInfoFromError(error);
+                if (rateLimit) limiter.update(rateLimit);
+                throw error;
+            } finally {
+                permit.release(usedTokens);
+            }
+        })();
+    }
+
+    private async acquire(target: RateLimitTarget, request: RateLimitRequest): Promise<RateLimitPermit> {
+        const tokens = request.tokens ?? 0;
+        const callerPermit = await this.callerRegistry?.get(target.provider, target.model).acquire(tokens, request.signal);
+        let permit: RateLimitPermit;
+        try {
+            permit = await this.registry.get(target.provider, target.model).acquire(tokens, request.signal);
+        } catch (error) {
+            callerPermit?.release();
+            throw error;
+        }
+        const waitMs = (callerPermit?.waitMs ?? 0) + permit.waitMs;
+        const queueDepth = Math.max(callerPermit?.queueDepth ?? 0, permit.queueDepth);
+        if (waitMs > 0) {
+            this.onQueued?.({ ...target, queueDepth, waitMs });
+        }
+        return {
+            waitMs,
+            queueDepth,
+            release: (usedTokens?: number) => {
+                permit.release(usedTokens);
+                callerPermit?.release(usedTokens);
+            }
+        };
+    }
+}
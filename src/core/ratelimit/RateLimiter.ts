@@ -0,0 +1,396 @@
+/**
+ * Client-side limits for one provider and model. Every limit is optional; a model without
+ * limits is only held back by the rate-limit headers its provider returns.
+ */
+export type RateLimitOptions = {
+    /** Requests per minute. */
+    requestsPerMinute?: number;
+    /** Tokens per minute, counting the prompt and the maximum output of each request. */
+    tokensPerMinute?: number;
+    /** Requests in flight at once. A stream holds its slot until it ends. */
+    maxConcurrent?: number;
+};
+
+/**
+ * Limits keyed by `'<provider>'` or `'<provider>/<model>'`, e.g. `'openai'` or
+ * `'openai/gpt-5-mini'`. A provider key applies to each of its models separately; a model
+ * key takes precedence over it.
+ */
+export type RateLimitConfig = Record<string, RateLimitOptions>;
+
+/** Rate-limit state reported by a provider in its response headers. */
+export type RateLimitInfo = {
+    requestLimit?: number;
+    requestsRemaining?: number;
+    /** Milliseconds until the request limit resets. */
+    requestsResetMs?: number;
+    tokenLimit?: number;
+    tokensRemaining?: number;
+    /** Milliseconds until the token limit resets. */
+    tokensResetMs?: number;
+    /** Milliseconds the provider asked clients to wait before the next request. */
+    retryAfterMs?: number;
+};
+
+/** Reported when a request had to wait for its turn. */
+export type RateLimitQueueEvent = {
+    provider: string;
+    model: string;
+    /** Requests waiting for this provider and model when the request was queued, including it. */
+    queueDepth: number;
+    waitMs: number;
+};
+
+export type RateLimitPermit = {
+    waitMs: number;
+    queueDepth: number;
+    /**
+     * Gives back the concurrency slot. When the request's actual token count is known, the
+     * token bucket is corrected by the difference from the estimate.
+     */
+    release(usedTokens?: number): void;
+};
+
+export type RateLimiterStats = {
+    provider: string;
+    model: string;
+    queueDepth: number;
+    active: number;
+};
+
+const MINUTE_MS = 60_000;
+
+function validateRateLimitOptions(key: string, options: RateLimitOptions): RateLimitOptions {
+    if (!options || typeof options !== 'object') {
+        throw new Error(`rateLimits.${key} must be an object`);
+    }
+    for (const name of ['requestsPerMinute', 'tokensPerMinute', 'maxConcurrent'] as const) {
+        const value = options[name];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value <= 0)) {
+            throw new Error(`rateLimits.${key}.${name} must be a positive number`);
+        }
+    }
+    return options;
+}
+
+/**
+ * Per-minute token bucket. The bucket refills continuously and may go into debt when a
+ * request turns out to use more than it reserved.
+ */
+class TokenBucket {
+    private level: number;
+    private updatedAt = Date.now();
+
+    constructor(private capacity: number) {
+        this.level = capacity;
+    }
+
+    getCapacity(): number {
+        return this.capacity;
+    }
+
+    setCapacity(capacity: number): void {
+        this.refill();
+        this.capacity = capacity;
+        this.level = Math.min(this.level, capacity);
+    }
+
+    /** Lower the level to what the provider says is left. */
+    limitTo(remaining: number): void {
+        this.refill();
+        this.level = Math.min(this.level, remaining);
+    }
+
+    /** Milliseconds until the amount can be taken. Amounts above capacity wait for a full bucket. */
+    waitTime(amount: number): number {
+        this.refill();
+        const needed = Math.min(amount, this.capacity);
+        return this.level >= needed ? 0 : Math.ceil((needed - this.level) * MINUTE_MS / this.capacity);
+    }
+
+    take(amount: number): void {
+        this.refill();
+        this.level -= amount;
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        this.level = Math.min(this.capacity, this.level + (now - this.updatedAt) * this.capacity / MINUTE_MS);
+        this.updatedAt = now;
+    }
+}
+
+type QueueEntry = {
+    tokens: number;
+    enqueuedAt: number;
+    queueDepth: number;
+    resolve: (permit: RateLimitPermit) => void;
+    reject: (reason: unknown) => void;
+    cleanup: () => void;
+};
+
+/**
+ * FIFO queue for one provider and model. Requests are let through in order once the request
+ * bucket, the token bucket, the concurrency limit and any provider-requested pause allow it.
+ */
+export class RateLimiter {
+    private requests?: TokenBucket;
+    private tokens?: TokenBucket;
+    private maxConcurrent?: number;
+    private active = 0;
+    private pausedUntil = 0;
+    private readonly queue: QueueEntry[] = [];
+    private timer?: ReturnType<typeof setTimeout>;
+
+    constructor(
+        public readonly provider: string,
+        public readonly model: string,
+        private options: RateLimitOptions = {}
+    ) {
+        this.configure(options);
+    }
+
+    configure(options: RateLimitOptions): void {
+        this.options = options;
+        this.requests = this.resizeBucket(this.requests, options.requestsPerMinute);
+        this.tokens = this.resizeBucket(this.tokens, options.tokensPerMinute);
+        this.maxConcurrent = options.maxConcurrent;
+        this.drain();
+    }
+
+    getStats(): RateLimiterStats {
+        return { provider: this.provider, model: this.model, queueDepth: this.queue.length, active: this.active };
+    }
+
+    /** Wait for a turn to send a request estimated at the given number of tokens. */
+    acquire(tokens = 0, signal?: AbortSignal): Promise<RateLimitPermit> {
+        if (signal?.aborted) return Promise.reject(signal.reason);
+        return new Promise<RateLimitPermit>((resolve, reject) => {
+            const onAbort = () => {
+                const index = this.queue.indexOf(entry);
+                if (index !== -1) this.queue.splice(index, 1);
+                reject(signal?.reason);
+                this.drain();
+            };
+            const entry: QueueEntry = {
+                tokens,
+                enqueuedAt: Date.now(),
+                queueDepth: this.queue.length + 1,
+                resolve,
+                reject,
+                cleanup: () => signal?.removeEventListener('abort', onAbort)
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.queue.push(entry);
+            this.drain();
+        });
+    }
+
+    /**
+     * Adapt to the provider's view of the limits. Reported limits tighten the configured ones,
+     * remaining counts lower the buckets, and an exhausted limit or a retry-after pauses the
+     * queue until the provider's reset time.
+     */
+    update(info: RateLimitInfo): void {
+        const now = Date.now();
+        if (info.requestLimit !== undefined) {
+            this.requests = this.adaptBucket(this.requests, this.options.requestsPerMinute, info.requestLimit);
+        }
+        if (info.tokenLimit !== undefined) {
+            this.tokens = this.adaptBucket(this.tokens, this.options.tokensPerMinute, info.tokenLimit);
+        }
+        if (info.requestsRemaining !== undefined) this.requests?.limitTo(info.requestsRemaining);
+        if (info.tokensRemaining !== undefined) this.tokens?.limitTo(info.tokensRemaining);
+
+        const pauses = [
+            info.retryAfterMs,
+            info.requestsRemaining === 0 ? info.requestsResetMs : undefined,
+            info.tokensRemaining === 0 ? info.tokensResetMs : undefined
+        ].filter((value): value is number => value !== undefined && value > 0);
+        if (pauses.length > 0) {
+            this.pausedUntil = Math.max(this.pausedUntil, now + Math.max(...pauses));
+        }
+        this.drain();
+    }
+
+    private resizeBucket(bucket: TokenBucket | undefined, capacity: number | undefined): TokenBucket | undefined {
+        if (capacity === undefined) return undefined;
+        if (!bucket) return new TokenBucket(capacity);
+        bucket.setCapacity(capacity);
+        return bucket;
+    }
+
+    private adaptBucket(bucket: TokenBucket | undefined, configured: number | undefined, reported: number): TokenBucket | undefined {
+        if (!Number.isFinite(reported) || reported <= 0) return bucket;
+        const capacity = configured === undefined ? reported : Math.min(configured, reported);
+        if (bucket?.getCapacity() === capacity) return bucket;
+        return this.resizeBucket(bucket, capacity);
+    }
+
+    private drain(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        while (this.queue.length > 0) {
+            if (this.maxConcurrent !== undefined && this.active >= this.maxConcurrent) return;
+            const entry = this.queue[0];
+            const wait = Math.max(
+                this.pausedUntil - Date.now(),
+                this.requests?.waitTime(1) ?? 0,
+                this.tokens?.waitTime(entry.tokens) ?? 0
+            );
+            if (wait > 0) {
+                this.timer = setTimeout(() => this.drain(), wait);
+                return;
+            }
+            this.queue.shift();
+            entry.cleanup();
+            this.grant(entry);
+        }
+    }
+
+    private grant(entry: QueueEntry): void {
+        this.requests?.take(1);
+        this.tokens?.take(entry.tokens);
+        this.active++;
+        let released = false;
+        entry.resolve({
+            waitMs: Date.now() - entry.enqueuedAt,
+            queueDepth: entry.queueDepth,
+            release: (usedTokens?: number) => {
+                if (released) return;
+                released = true;
+                this.active--;
+                if (usedTokens !== undefined && usedTokens !== entry.tokens) {
+                    this.tokens?.take(usedTokens - entry.tokens);
+                }
+                this.drain();
+            }
+        });
+    }
+}
+
+/**
+ * Rate limiters keyed by provider and model. Callers that share a registry share its queues,
+ * so concurrent callers in one process stay within the same limits. LLMCaller uses
+ * {@link sharedRateLimiterRegistry} unless it is given its own.
+ */
+export class RateLimiterRegistry {
+    private readonly limiters = new Map<string, RateLimiter>();
+    private config: RateLimitConfig = {};
+
+    constructor(config?: RateLimitConfig) {
+        if (config) this.configure(config);
+    }
+
+    /** Add or replace limits. Limiters that already exist pick up the new limits. */
+    configure(config: RateLimitConfig): void {
+        for (const [key, options] of Object.entries(config)) {
+            validateRateLimitOptions(key, options);
+        }
+        this.config = { ...this.config, ...config };
+        for (const limiter of this.limiters.values()) {
+            limiter.configure(this.getOptions(limiter.provider, limiter.model));
+        }
+    }
+
+    get(provider: string, model: string): RateLimiter {
+        const key = `${provider}/${model}`;
+        let limiter = this.limiters.get(key);
+        if (!limiter) {
+            limiter = new RateLimiter(provider, model, this.getOptions(provider, model));
+            this.limiters.set(key, limiter);
+        }
+        return limiter;
+    }
+
+    getStats(): RateLimiterStats[] {
+        return [...this.limiters.values()].map(limiter => limiter.getStats());
+    }
+
+    private getOptions(provider: string, model: string): RateLimitOptions {
+        return this.config[`${provider}/${model}`] ?? this.config[provider] ?? {};
+    }
+}
+
+/** The registry shared by every LLMCaller in the process that is not given its own. */
+export const sharedRateLimiterRegistry = new RateLimiterRegistry();
+
+type HeaderSource = { get(name: string): string | null } | Record<string, unknown>;
+
+function readHeader(headers: HeaderSource, name: string): string | undefined {
+    const value = typeof headers.get === 'function'
+        ? (headers as { get(name: string): string | null }).get(name)
+        : (headers as Record<string, unknown>)[name];
+    if (typeof value === 'number') return String(value);
+    return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+function readNumber(headers: HeaderSource, name: string): number | undefined {
+    const raw = readHeader(headers, name);
+    const value = raw === undefined ? NaN : Number(raw);
+    return Number.isFinite(value) ? value : undefined;
+}
+
+/** Parses durations such as `1s`, `6m0s`, `20ms` or plain seconds. */
+function parseDurationMs(raw: string): number | undefined {
+    if (/^\d+(\.\d+)?$/.test(raw)) return Number(raw) * 1000;
+    const units: Record<string, number> = { h: 3_600_000, m: MINUTE_MS, s: 1000, ms: 1 };
+    let total = 0;
+    let matched = '';
+    for (const match of raw.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+        total += Number(match[1]) * units[match[2]];
+        matched += match[0];
+    }
+    return matched.length > 0 && matched.length === raw.length ? total : undefined;
+}
+
+/** Parses a reset that is either a duration or a timestamp into milliseconds from now. */
+function readResetMs(headers: HeaderSource, name: string): number | undefined {
+    const raw = readHeader(headers, name);
+    if (raw === undefined) return undefined;
+    const duration = parseDurationMs(raw);
+    if (duration !== undefined) return duration;
+    const timestamp = Date.parse(raw);
+    return Number.isNaN(timestamp) ? undefined : Math.max(0, timestamp - Date.now());
+}
+
+/**
+ * Reads rate-limit headers in the OpenAI (`x-ratelimit-*`) and Anthropic
+ * (`anthropic-ratelimit-*`) formats, plus `retry-after` and `retry-after-ms`.
+ */
+export function parseRateLimitHeaders(headers: HeaderSource | undefined): RateLimitInfo | undefined {
+    if (!headers || typeof headers !== 'object') return undefined;
+    const retryAfterMs = readNumber(headers, 'retry-after-ms') ?? readResetMs(headers, 'retry-after');
+    const info: RateLimitInfo = {
+        requestLimit: readNumber(headers, 'x-ratelimit-limit-requests') ?? readNumber(headers, 'anthropic-ratelimit-requests-limit'),
+        requestsRemaining: readNumber(headers, 'x-ratelimit-remaining-requests') ?? readNumber(headers, 'anthropic-ratelimit-requests-remaining'),
+        requestsResetMs: readResetMs(headers, 'x-ratelimit-reset-requests') ?? readResetMs(headers, 'anthropic-ratelimit-requests-reset'),
+        tokenLimit: readNumber(headers, 'x-ratelimit-limit-tokens') ?? readNumber(headers, 'anthropic-ratelimit-tokens-limit'),
+        tokensRemaining: readNumber(headers, 'x-ratelimit-remaining-tokens') ?? readNumber(headers, 'anthropic-ratelimit-tokens-remaining'),
+        tokensResetMs: readResetMs(headers, 'x-ratelimit-reset-tokens') ?? readResetMs(headers, 'anthropic-ratelimit-tokens-reset'),
+        retryAfterMs
+    };
+    const present = Object.fromEntries(Object.entries(info).filter(([, value]) => value !== undefined)) as RateLimitInfo;
+    return Object.keys(present).length > 0 ? present : undefined;
+}
+
+/**
+ * Rate-limit state carried by a failed request: the response headers on the error or its
+ * cause, or the `retryAfter` seconds set by the adapters' rate-limit errors.
+ */
+export function getRateLimitInfoFromError(error: unknown): RateLimitInfo | undefined {
+    let current: unknown = error;
+    for (let depth = 0; depth < 3 && current !== null && typeof current === 'object'; depth++) {
+        const record = current as Record<string, unknown>;
+        const response = record.response as Record<string, unknown> | undefined;
+        const info = parseRateLimitHeaders((record.headers ?? response?.headers) as HeaderSource | undefined);
+        if (info) return info;
+        if (typeof record.retryAfter === 'number' && record.retryAfter > 0) {
+            return { retryAfterMs: record.retryAfter * 1000 };
+        }
+        current = record.cause;
+    }
+    return undefined;
+}
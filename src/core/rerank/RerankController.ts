@@ -7,9 +7,13 @@ import type {
     RerankResult
 } from '../../interfaces/UniversalInterfaces.ts';
 import { CapabilityError } from '../models/CapabilityError.ts';
+import type { RateLimitBinding } from '../ratelimit/RateLimitScheduler.ts';
 
 export class RerankController {
-    constructor(private readonly adapter: BaseAdapter) {}
+    constructor(
+        private readonly adapter: BaseAdapter,
+        private readonly rateLimit?: RateLimitBinding
+    ) {}
 
     async rerank(
         model: string,
@@ -20,7 +24,18 @@ export class RerankController {
         if (typeof this.adapter.rerankCall !== 'function') {
             throw new CapabilityError('Provider does not support reranking');
         }
-        const response = await this.adapter.rerankCall(model, params, control);
+        const rerankCall = this.adapter.rerankCall.bind(this.adapter);
+        const send = () => rerankCall(model, params, control);
+        const response = this.rateLimit
+            ? await this.rateLimit.scheduler.run(
+                { provider: this.rateLimit.provider, model },
+                {
+                    tokens: this.rateLimit.scheduler.estimate([params.query, ...params.documents]),
+                    signal: control?.signal
+                },
+                send
+            )
+            : await send();
         return {
             ...response,
             model: response.model || model,
@@ -11,6 +11,22 @@ export type RetryConfig = {
     retryableStatusCodes?: number[];
 };
 
+/**
+ * Thrown once RetryManager gives up. `lastError` is the failure of the final attempt, kept
+ * so callers can classify it by type instead of parsing the message.
+ */
+export class RetryFailedError extends Error {
+    public readonly lastError: unknown;
+    public readonly cause?: unknown;
+
+    constructor(message: string, lastError: unknown) {
+        super(message);
+        this.name = 'RetryFailedError';
+        this.lastError = lastError;
+        this.cause = lastError;
+    }
+}
+
 /**
  * RetryManager is responsible for executing an asynchronous operation with retry logic.
  * 
@@ -35,7 +51,7 @@ export class RetryManager {
      * 
      * @returns A Promise resolving to the result of the operation if successful.
      * 
-     * @throws An Error after the specified number of retries if all attempts fail or the error is not retryable.
+     * @throws A RetryFailedError after the specified number of retries if all attempts fail or the error is not retryable.
      */
     async executeWithRetry<T>(
         operation: () => Promise<T>,
@@ -57,7 +73,7 @@ export class RetryManager {
                     } else if (typeof lastError === 'string') {
                         retryReason = lastError;
                     }
-                    console.log(`RetryManager: Attempt ${attempt + 1} - Reason: ${retryReason}`);
+                    logger.createLogger({ prefix: 'RetryManager' }).info(`Attempt ${attempt + 1} - Reason: ${retryReason}`);
                 }
                 // Execute and return the successful result from the operation.
                 return await operation();
@@ -65,6 +81,8 @@ export class RetryManager {
                 if (isLLMCancellationError(error) || control?.signal?.aborted) {
                     throw cancellationReason(control?.signal, error);
                 }
+                // Budget errors are final and keep their type for the caller
+                if (error instanceof BudgetExceededError) throw error;
                 lastError = error;
                 // If the error is not deemed retryable, do not continue trying.
                 if (!shouldRetry(error)) break;
@@ -82,10 +100,10 @@ export class RetryManager {
         // If all retry attempts fail, throw an error with the details of the last encountered error.
         if (attempt === 0) {
             // No retries were attempted because the error was not retryable
-            throw new Error(`Operation failed without retrying (non-retryable error). Error: ${(lastError instanceof Error) ? lastError.message : lastError}`);
+            throw new RetryFailedError(`Operation failed without retrying (non-retryable error). Error: ${(lastError instanceof Error) ? lastError.message : lastError}`, lastError);
         } else {
             // Retries were attempted but still failed
-            throw new Error(`Failed after ${attempt - 1} retries. Last error: ${(lastError instanceof Error) ? lastError.message : lastError}. (Hint: Increase 'maxRetries' in settings if needed)`);
+            throw new RetryFailedError(`Failed after ${attempt - 1} retries. Last error: ${(lastError instanceof Error) ? lastError.message : lastError}. (Hint: Increase 'maxRetries' in settings if needed)`, lastError);
         }
     }
 }
@@ -119,3 +137,5 @@ function abortableDelay(delay: number, signal?: AbortSignal): Promise<void> {
 }
 import type { LLMExecutionControl } from '../../interfaces/ExecutionInterfaces.ts';
 import { LLMAbortError, isLLMCancellationError } from '../execution/errors.ts';
+import { BudgetExceededError } from '../budget/BudgetTracker.ts';
+import { logger } from '../../utils/logger.ts';
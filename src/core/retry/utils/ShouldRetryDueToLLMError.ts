@@ -3,7 +3,7 @@ import { logger } from '../../../utils/logger.ts';
 /**
  * List of HTTP status codes that should trigger a retry
  */
-export const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+export const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504, 529];
 
 /**
  * Determines if a status code should trigger a retry
@@ -1,5 +1,10 @@
 export type JsonSchema = Record<string, unknown>;
 
+export type JsonSchemaCoercionOptions = {
+    /** Also convert scalars whose type is obviously wrong, such as "5" for a number or "true" for a boolean. */
+    scalars?: boolean;
+};
+
 function looksLikeJsonArray(s: string): boolean {
     const t = s.trim();
     return t.startsWith('[') && t.endsWith(']');
@@ -9,7 +14,26 @@ function looksLikeJsonObject(s: string): boolean {
     return t.startsWith('{') && t.endsWith('}');
 }
 
-export function coerceDataToJsonSchema(data: unknown, schema: JsonSchema): unknown {
+function coerceScalar(data: unknown, type: string | undefined, enumVals: unknown[] | undefined): unknown {
+    if (enumVals) {
+        if (enumVals.includes(data) || (typeof data !== 'string' && typeof data !== 'number' && typeof data !== 'boolean')) return data;
+        const match = enumVals.find(value => String(value) === String(data));
+        return match === undefined ? data : match;
+    }
+    if ((type === 'number' || type === 'integer') && typeof data === 'string' && data.trim() !== '') {
+        const parsed = Number(data.trim());
+        if (Number.isFinite(parsed) && (type === 'number' || Number.isInteger(parsed))) return parsed;
+    }
+    if (type === 'boolean' && typeof data === 'string') {
+        const normalized = data.trim().toLowerCase();
+        if (normalized === 'true') return true;
+        if (normalized === 'false') return false;
+    }
+    if (type === 'string' && (typeof data === 'number' || typeof data === 'boolean')) return String(data);
+    return data;
+}
+
+export function coerceDataToJsonSchema(data: unknown, schema: JsonSchema, options: JsonSchemaCoercionOptions = {}): unknown {
     if (!schema || typeof schema !== 'object') return data;
     const type = (schema as any).type as string | undefined;
     const enumVals = Array.isArray((schema as any).enum) ? ((schema as any).enum as unknown[]) : undefined;
@@ -17,6 +41,10 @@ export function coerceDataToJsonSchema(data: unknown, schema: JsonSchema): unkno
     // Single enum literal
     if (enumVals && enumVals.length === 1) return enumVals[0];
 
+    if (options.scalars && type !== 'array' && type !== 'object') {
+        data = coerceScalar(data, type, enumVals);
+    }
+
     if (type === 'array') {
         if (typeof data === 'string' && looksLikeJsonArray(data)) {
             try { data = JSON.parse(data); } catch { /* ignore */ }
@@ -24,7 +52,7 @@ export function coerceDataToJsonSchema(data: unknown, schema: JsonSchema): unkno
         if (!Array.isArray(data)) return data;
         const itemSchema = (schema as any).items as JsonSchema | undefined;
         if (itemSchema && typeof itemSchema === 'object') {
-            return (data as unknown[]).map(item => coerceDataToJsonSchema(item, itemSchema));
+            return (data as unknown[]).map(item => coerceDataToJsonSchema(item, itemSchema, options));
         }
         return data;
     }
@@ -39,12 +67,12 @@ export function coerceDataToJsonSchema(data: unknown, schema: JsonSchema): unkno
         const result: Record<string, unknown> = { ...(data as Record<string, unknown>) };
         if (props && typeof props === 'object') {
             for (const [k, subSchema] of Object.entries(props)) {
-                if (k in result) result[k] = coerceDataToJsonSchema(result[k], subSchema as JsonSchema);
+                if (k in result) result[k] = coerceDataToJsonSchema(result[k], subSchema as JsonSchema, options);
             }
         }
         if (addl && typeof addl === 'object') {
             for (const [k, v] of Object.entries(result)) {
-                if (!props || !(k in props)) result[k] = coerceDataToJsonSchema(v, addl as JsonSchema);
+                if (!props || !(k in props)) result[k] = coerceDataToJsonSchema(v, addl as JsonSchema, options);
             }
         }
         return result;
@@ -54,7 +82,7 @@ export function coerceDataToJsonSchema(data: unknown, schema: JsonSchema): unkno
     for (const key of ['oneOf', 'anyOf', 'allOf']) {
         const list = (schema as any)[key];
         if (Array.isArray(list) && list.length === 1 && typeof list[0] === 'object') {
-            return coerceDataToJsonSchema(data, list[0] as JsonSchema);
+            return coerceDataToJsonSchema(data, list[0] as JsonSchema, options);
         }
     }
 
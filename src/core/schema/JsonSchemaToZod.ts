@@ -24,7 +24,12 @@ function convertNode(node: Record<string, unknown>): z.ZodTypeAny {
 
     // Handle enum before type check (enum can appear with or without type)
     if (Array.isArray(node.enum) && node.enum.length > 0) {
-        return z.enum(node.enum as any);
+        if (node.enum.every(value => typeof value === 'string')) {
+            return z.enum(node.enum as any);
+        }
+        // Numeric, boolean and null members are matched as literals
+        const literals = node.enum.map(value => z.literal(value as any));
+        return literals.length === 1 ? literals[0] : z.union(literals as any);
     }
 
     switch (type) {
@@ -0,0 +1,286 @@
+import { jsonrepair } from 'jsonrepair';
+import { z } from 'zod';
+import type { JSONSchemaDefinition } from '../../interfaces/UniversalInterfaces.ts';
+import { SchemaValidator, SchemaValidationError } from '../schema/SchemaValidator.ts';
+import { isZodSchema } from '../schema/SchemaFormatter.ts';
+import { jsonSchemaToZod } from '../schema/JsonSchemaToZod.ts';
+
+export type PartialJson = {
+    /** The JSON parsed so far, with unfinished strings, arrays and objects closed */
+    value: unknown;
+    /** Keys of the root object, or indexes of the root array, whose values are complete */
+    completedFields: string[];
+    /** Whether the root value has been closed */
+    isComplete: boolean;
+    /** Errors of the completed fields, when the parser validates them */
+    validationErrors?: Array<{ message: string; path: (string | number)[] }>;
+};
+
+type FieldValidation = {
+    value: unknown;
+    errors: NonNullable<PartialJson['validationErrors']>;
+};
+
+/**
+ * Parses a JSON response while it streams. The accumulated text is scanned once, keeping track
+ * of the completed top-level fields and of tokens that are not finished yet: keys, and numbers,
+ * booleans and null. Each top-level field is parsed once when it completes; only the field that
+ * is still streaming is closed with jsonrepair, up to its unfinished token, so the partial value
+ * never contains half a key or a truncated number and an update costs the length of that field,
+ * not of the whole text. Strings stream as they arrive. Text before the root value, such as a
+ * markdown code fence, is skipped.
+ *
+ * With a schema, each completed field is validated once against the schema of the field, or of
+ * the items of a root array, and the partial value holds the validated field. Wrappers around the
+ * root schema (optional, default, lazy, transforms and pipes) are unwrapped to find the fields.
+ * Refinements of the root object check the whole value, so they only apply to the final response.
+ */
+export class PartialJsonParser {
+    private readonly schema?: z.ZodType;
+    private readonly validatedFields = new Map<string, FieldValidation>();
+    private scanned = 0;
+    private rootStart?: number;
+    private rootBracket?: '{' | '[';
+    private rootEnd?: number;
+    private stack: ('{' | '[')[] = [];
+    private expect: 'key' | 'colon' | 'value' | 'separator' = 'value';
+    private inString = false;
+    private stringIsKey = false;
+    private escaped = false;
+    private inLiteral = false;
+    /** Start of the unfinished key or literal that is cut from the text to repair */
+    private pendingCut?: number;
+    private key?: string;
+    private keyRaw = '';
+    private itemStarted = false;
+    private itemCount = 0;
+    private completedFields: string[] = [];
+    /** Start of the top-level field that is still streaming */
+    private memberStart = 0;
+    /** Values of the completed top-level fields, or items of a root array */
+    private completedEntries: [string, unknown][] = [];
+    private memberText?: string;
+    /** The streaming field closed with jsonrepair, as an object of one key or an array of one item */
+    private memberValue?: unknown;
+    private parsed = false;
+
+    constructor(schema?: JSONSchemaDefinition) {
+        if (schema) {
+            this.schema = unwrapRootSchema(isZodSchema(schema) ? schema as z.ZodType : jsonSchemaToZod(JSON.parse(schema as string)));
+        }
+    }
+
+    /**
+     * Scans the text added since the last update and returns the partial value, or undefined
+     * while no root object or array has started or the text cannot be repaired yet
+     */
+    public update(text: string): PartialJson | undefined {
+        this.scan(text);
+        if (this.rootStart === undefined) return undefined;
+
+        const member = this.rootEnd === undefined ? text.slice(this.memberStart, this.pendingCut ?? text.length) : '';
+        if (member !== this.memberText) {
+            try {
+                this.memberValue = member.trim() ? JSON.parse(jsonrepair(this.rootBracket + member)) : undefined;
+                this.memberText = member;
+                this.parsed = true;
+            } catch {
+                // Keep the last value until more text arrives
+            }
+        }
+        if (!this.parsed) return undefined;
+
+        const result: PartialJson = { value: this.buildValue(), completedFields: [...this.completedFields], isComplete: this.rootEnd !== undefined };
+        return this.schema ? this.validateFields(result, this.schema) : result;
+    }
+
+    private buildValue(): unknown {
+        if (this.rootBracket === '[') {
+            const items = this.completedEntries.map(([, item]) => item);
+            return Array.isArray(this.memberValue) ? [...items, ...this.memberValue] : items;
+        }
+        const value: Record<string, unknown> = Object.fromEntries(this.completedEntries);
+        return isRecord(this.memberValue) ? { ...value, ...this.memberValue } : value;
+    }
+
+    private validateFields(partial: PartialJson, schema: z.ZodType): PartialJson {
+        if (!isRecord(partial.value) && !Array.isArray(partial.value)) return { ...partial, validationErrors: [] };
+        const value = (Array.isArray(partial.value) ? [...partial.value] : { ...partial.value }) as Record<string, unknown>;
+        const validationErrors: FieldValidation['errors'] = [];
+
+        for (const field of partial.completedFields) {
+            let validation = this.validatedFields.get(field);
+            if (!validation) {
+                const fieldSchema = schema instanceof z.ZodArray
+                    ? schema.element as z.ZodType
+                    : schema instanceof z.ZodObject ? (schema.shape as Record<string, z.ZodType | undefined>)[field] : undefined;
+                validation = fieldSchema ? validateField(value[field], fieldSchema, field) : { value: value[field], errors: [] };
+                this.validatedFields.set(field, validation);
+            }
+            value[field] = validation.value;
+            validationErrors.push(...validation.errors);
+        }
+        return { ...partial, value, validationErrors };
+    }
+
+    private scan(text: string): void {
+        for (; this.scanned < text.length && this.rootEnd === undefined; this.scanned++) {
+            const index = this.scanned;
+            const char = text[index];
+
+            if (this.rootStart === undefined) {
+                if (char === '{' || char === '[') {
+                    this.rootStart = index;
+                    this.rootBracket = char;
+                    this.memberStart = index + 1;
+                    this.open(char);
+                }
+                continue;
+            }
+
+            if (this.inString) {
+                if (this.escaped) {
+                    this.escaped = false;
+                } else if (char === '\\') {
+                    this.escaped = true;
+                } else if (char === '"') {
+                    this.inString = false;
+                    if (this.stringIsKey && this.stack.length === 1) this.key = parseKey(this.keyRaw);
+                    continue;
+                }
+                if (this.stringIsKey && this.stack.length === 1) this.keyRaw += char;
+                continue;
+            }
+
+            if (this.inLiteral) {
+                if (!/[\s,\]}]/.test(char)) continue;
+                this.inLiteral = false;
+                this.pendingCut = undefined;
+            }
+
+            switch (char) {
+                case '"':
+                    this.inString = true;
+                    this.stringIsKey = this.expect === 'key';
+                    if (this.stringIsKey) {
+                        this.pendingCut = index;
+                        this.keyRaw = '';
+                        this.expect = 'colon';
+                    } else {
+                        this.startValue();
+                    }
+                    break;
+                case ':':
+                    this.expect = 'value';
+                    break;
+                case '{':
+                case '[':
+                    this.startValue();
+                    this.open(char);
+                    break;
+                case '}':
+                case ']':
+                    this.stack.pop();
+                    if (this.stack.length === 0) {
+                        this.completeField(text, index);
+                        this.rootEnd = index + 1;
+                    }
+                    this.expect = 'separator';
+                    break;
+                case ',':
+                    if (this.stack.length === 1) this.completeField(text, index);
+                    this.expect = this.stack[this.stack.length - 1] === '{' ? 'key' : 'value';
+                    break;
+                default:
+                    if (this.expect === 'value' && !/\s/.test(char)) {
+                        this.inLiteral = true;
+                        this.pendingCut ??= index;
+                        this.startValue();
+                    }
+            }
+        }
+    }
+
+    private open(bracket: '{' | '['): void {
+        this.stack.push(bracket);
+        this.expect = bracket === '{' ? 'key' : 'value';
+    }
+
+    private startValue(): void {
+        if (!this.inLiteral) this.pendingCut = undefined;
+        if (this.stack.length === 1) this.itemStarted = true;
+        this.expect = 'separator';
+    }
+
+    private completeField(text: string, end: number): void {
+        const member = text.slice(this.memberStart, end);
+        this.memberStart = end + 1;
+        this.memberText = undefined;
+        this.memberValue = undefined;
+        if (!this.itemStarted) return;
+
+        const field = this.rootBracket === '{' ? this.key ?? '' : String(this.itemCount++);
+        this.completedFields.push(field);
+        this.key = undefined;
+        this.itemStarted = false;
+
+        const closed = this.rootBracket === '{' ? `{${member}}` : `[${member}]`;
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(closed);
+        } catch {
+            try {
+                parsed = JSON.parse(jsonrepair(closed));
+            } catch {
+                return;
+            }
+        }
+        if (Array.isArray(parsed)) {
+            if (parsed.length > 0) this.completedEntries.push([field, parsed[0]]);
+        } else if (isRecord(parsed)) {
+            this.completedEntries.push(...Object.entries(parsed));
+        }
+    }
+}
+
+/** Finds the object or array schema under wrappers such as optional, default, lazy and pipes */
+function unwrapRootSchema(schema: z.ZodType): z.ZodType {
+    let current = schema;
+    for (let depth = 0; depth < 16; depth++) {
+        const def = current._def as { innerType?: z.ZodType; getter?: () => z.ZodType };
+        if (current instanceof z.ZodPipe) {
+            // A preprocess step pipes into the schema; a transform or pipe validates its input first
+            current = (current.in instanceof z.ZodTransform ? current.out : current.in) as z.ZodType;
+        } else if (current instanceof z.ZodLazy && def.getter) {
+            current = def.getter();
+        } else if (def.innerType) {
+            current = def.innerType;
+        } else {
+            return current;
+        }
+    }
+    return current;
+}
+
+function validateField(value: unknown, schema: z.ZodType, field: string): FieldValidation {
+    try {
+        return { value: SchemaValidator.validate(value, schema), errors: [] };
+    } catch (error) {
+        const errors = error instanceof SchemaValidationError && error.validationErrors.length > 0
+            ? error.validationErrors.map(err => ({ message: err.message, path: [field, ...(err.path ? err.path.split('.') : [])] }))
+            : [{ message: error instanceof Error ? error.message : String(error), path: [field] }];
+        return { value, errors };
+    }
+}
+
+function parseKey(raw: string): string {
+    try {
+        return JSON.parse(`"${raw}"`);
+    } catch {
+        return raw;
+    }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
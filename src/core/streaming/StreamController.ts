@@ -1,12 +1,15 @@
 import { ProviderManager } from '../caller/ProviderManager.ts';
 import { ModelManager } from '../models/ModelManager.ts';
 import { StreamHandler } from './StreamHandler.ts';
+import { toProviderParams } from '../chat/ProviderParams.ts';
 import type { UniversalChatParams, UniversalStreamResponse } from '../../interfaces/UniversalInterfaces.ts';
-import { RetryManager } from '../retry/RetryManager.ts';
+import { RetryManager, RetryFailedError } from '../retry/RetryManager.ts';
 import { shouldRetryDueToContent } from "../retry/utils/ShouldRetryDueToContent.ts";
 import { shouldRetryDueToLLMError } from '../retry/utils/ShouldRetryDueToLLMError.ts';
 import { logger } from '../../utils/logger.ts';
 import type { ProviderExecutionContext } from '../caller/ProviderExecution.ts';
+import { BudgetExceededError } from '../budget/BudgetTracker.ts';
+import type { RateLimitScheduler } from '../ratelimit/RateLimitScheduler.ts';
 
 /**
  * StreamController is responsible for managing the creation and processing of streaming LLM responses.
@@ -19,6 +22,8 @@ import type { ProviderExecutionContext } from '../caller/ProviderExecution.ts';
  * to be broken into multiple smaller requests.
  */
 export class StreamController {
+    private rateLimitScheduler?: RateLimitScheduler;
+
     constructor(
         private providerManager: ProviderManager,
         private modelManager: ModelManager,
@@ -38,6 +43,13 @@ export class StreamController {
         });
     }
 
+    /**
+     * Set (or remove) the scheduler that queues stream requests behind rate limits
+     */
+    public setRateLimitScheduler(scheduler: RateLimitScheduler | undefined): void {
+        this.rateLimitScheduler = scheduler;
+    }
+
     /**
      * Creates a stream of responses from an LLM provider
      * 
@@ -117,8 +129,25 @@ export class StreamController {
             let providerStream;
 
             try {
+                // The budget is checked here and enforced by StreamHandler; only the request fields reach the provider
+                const { budgetGuard } = params;
+                const providerParams = toProviderParams(params);
+                const modelInfo = this.modelManager.getModel(model);
+                if (budgetGuard && modelInfo) {
+                    budgetGuard.check(budgetGuard.estimate(params.messages, modelInfo, params.settings?.maxTokens));
+                }
                 // Get the raw provider stream - this actually makes the API call
-                providerStream = await provider.streamCall(model, params);
+                const open = () => provider.streamCall(model, providerParams);
+                providerStream = this.rateLimitScheduler
+                    ? await this.rateLimitScheduler.runStream(
+                        {
+                            provider: (execution?.providerName ?? this.providerManager.getCurrentProviderName?.() ?? providerType).toLowerCase(),
+                            model
+                        },
+                        { tokens: inputTokens + (params.settings?.maxTokens ?? 0) },
+                        open
+                    )
+                    : await open();
                 log.debug('Provider stream created', {
                     timeToCreateMs: Date.now() - streamStartTime,
                     model,
@@ -373,17 +402,17 @@ export class StreamController {
                 }
                 return;
             } catch (error) {
-                // Propagate validation errors immediately without retry
-                if (error instanceof Error && error.message.includes('validation error')) {
+                // Propagate validation and budget errors immediately without retry
+                if (error instanceof BudgetExceededError ||
+                    (error instanceof Error && error.message.includes('validation error'))) {
                     throw error;
                 }
 
                 if (attempt >= maxRetries) {
-                    // Extract underlying error message if present.
-                    const errMsg = (error as Error).message;
-                    const underlyingMessage = errMsg.includes('Last error: ')
-                        ? errMsg.split('Last error: ')[1]
-                        : errMsg;
+                    // Report the failure of the final attempt, not RetryManager's wrapper around it.
+                    const lastError = error instanceof RetryFailedError ? error.lastError : error;
+                    const lastMessage = (lastError as { message?: unknown } | null | undefined)?.message;
+                    const underlyingMessage = typeof lastMessage === 'string' ? lastMessage : String(lastError);
 
                     const log = logger.createLogger({ prefix: 'StreamController.outerRetryStream' });
                     log.error('All retry attempts failed', {
@@ -397,7 +426,7 @@ export class StreamController {
                         failureCategory: error instanceof Error ? error.constructor.name : 'Unknown'
                     });
 
-                    throw new Error(`Failed after ${maxRetries} retries. Last error: ${underlyingMessage}`);
+                    throw new RetryFailedError(`Failed after ${maxRetries} retries. Last error: ${underlyingMessage}`, lastError);
                 }
 
                 // Wait before retrying (exponential backoff).
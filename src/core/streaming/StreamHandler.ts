@@ -2,24 +2,30 @@ import { TokenCalculator } from '../models/TokenCalculator.ts';
 import { ResponseProcessor } from '../processors/ResponseProcessor.ts';
 import type { UsageCallback } from '../../interfaces/UsageInterfaces.ts';
 import { logger } from '../../utils/logger.ts';
-import type { UniversalChatParams, UniversalStreamResponse, UniversalChatResponse, ModelInfo, UniversalMessage } from '../../interfaces/UniversalInterfaces.ts';
+import type { UniversalChatParams, UniversalStreamResponse, UniversalChatResponse, ModelInfo, UniversalMessage, Usage } from '../../interfaces/UniversalInterfaces.ts';
 import { FinishReason } from '../../interfaces/UniversalInterfaces.ts';
 import { StreamPipeline } from './StreamPipeline.ts';
 import { UsageTrackingProcessor } from './processors/UsageTrackingProcessor.ts';
 import { ContentAccumulator } from './processors/ContentAccumulator.ts';
+import { PartialJsonParser } from './PartialJsonParser.ts';
 import { ReasoningProcessor } from './processors/ReasoningProcessor.ts';
+import { BudgetStreamProcessor } from './processors/BudgetStreamProcessor.ts';
+import { BudgetExceededError, type BudgetGuard } from '../budget/BudgetTracker.ts';
 import { UsageTracker } from '../telemetry/UsageTracker.ts';
 import { z } from 'zod';
 import { SchemaValidator, SchemaValidationError } from '../schema/SchemaValidator.ts';
 import type { StreamChunk } from './types.ts';
 import { ToolController } from '../tools/ToolController.ts';
 import { ToolOrchestrator } from '../tools/ToolOrchestrator.ts';
-import type { ToolCall } from '../../types/tooling.ts';
+import { formatToolLoopStopInstruction } from '../tools/ToolLoopGuard.ts';
+import type { ToolApprovalHandler, ToolCall, ToolDefinition, ToolLoopPolicy, ToolLoopStop } from '../../types/tooling.ts';
 import { HistoryManager } from '../history/HistoryManager.ts';
 import type { IStreamProcessor } from './types.ts';
 import { StreamHistoryProcessor } from './processors/StreamHistoryProcessor.ts';
 import { StreamingService } from './StreamingService.ts';
 import { MCPServiceAdapter } from '../mcp/MCPServiceAdapter.ts';
+import type { CallExecutionContext } from '../execution/CallExecutionContext.ts';
+import { isLLMCancellationError } from '../execution/errors.ts';
 
 export class StreamHandler {
     private readonly tokenCalculator: TokenCalculator;
@@ -96,17 +102,83 @@ export class StreamHandler {
         }
     }
 
+    /**
+     * Runs the tool calls of a turn through the orchestrator. While a call waits for the
+     * approval handler, an 'awaiting_approval' chunk for it is yielded; each progress report
+     * of a running MCP tool call is yielded as a 'running' chunk.
+     */
+    private async *processToolCallsWithEvents<R>(
+        response: UniversalChatResponse<unknown>,
+        callSpecificTools: ToolDefinition[] | undefined,
+        onToolApproval?: ToolApprovalHandler,
+        context?: CallExecutionContext,
+        loopPolicy?: ToolLoopPolicy,
+        budgetGuard?: BudgetGuard
+    ): AsyncGenerator<UniversalStreamResponse<R>, { requiresResubmission: boolean; newToolCalls: number; loopStop?: ToolLoopStop }> {
+        const orchestrator = this.toolOrchestrator as ToolOrchestrator;
+        const pending: UniversalStreamResponse<R>[] = [];
+        let wake: () => void = () => { };
+        let settled = false;
+        const emit = (metadata: UniversalStreamResponse['metadata']) => {
+            pending.push({ role: 'assistant', content: '', isComplete: false, metadata });
+            wake();
+        };
+        const processing = orchestrator.processToolCalls(
+            response,
+            callSpecificTools,
+            this.mcpAdapterProvider,
+            context,
+            onToolApproval && ((call, control) => {
+                emit({
+                    toolStatus: 'awaiting_approval',
+                    toolId: call.id,
+                    toolName: call.name,
+                    toolArguments: call.arguments
+                });
+                return onToolApproval(call, control);
+            }),
+            (call, progress) => emit({
+                toolStatus: 'running',
+                toolId: call.id,
+                toolName: call.name,
+                toolProgress: progress
+            }),
+            loopPolicy,
+            budgetGuard
+        );
+        // Failures surface through the final await
+        void processing.then(() => undefined, () => undefined).then(() => {
+            settled = true;
+            wake();
+        });
+
+        while (true) {
+            await new Promise<void>(resolve => {
+                wake = resolve;
+                if (pending.length > 0 || settled) resolve();
+            });
+            for (const chunk of pending.splice(0)) {
+                yield chunk;
+            }
+            if (settled && pending.length === 0) return await processing;
+        }
+    }
+
     /**
      * Processes a stream of responses with schema validation and content accumulation.
      * Usage tracking is now handled by the UsageTrackingProcessor in the pipeline.
+     * Replayed cache hits skip usage tracking, since they carry their own zero-cost usage.
+     * Tool calls run under the call's execution context when it is passed.
      */
     public async *processStream<T extends z.ZodType | undefined = undefined>(
         stream: AsyncIterable<UniversalStreamResponse>,
         params: UniversalChatParams,
         inputTokens: number,
-        modelInfo: ModelInfo
+        modelInfo: ModelInfo,
+        options: { cacheHit?: boolean; context?: CallExecutionContext } = {}
     ): AsyncGenerator<UniversalStreamResponse<T extends z.ZodType ? z.infer<T> : unknown>> {
         const log = logger.createLogger({ prefix: 'StreamHandler.processStream' });
+        const toolContext = options.context?.needsPropagation ? options.context : undefined;
 
         // Make sure the orchestrator is usable – tests may have replaced/cleared it
         this.ensureToolOrchestrator();
@@ -149,6 +221,11 @@ export class StreamHandler {
         // Initialize content accumulator
         const contentAccumulator = new ContentAccumulator();
 
+        // Parses JSON responses as they stream, for the partialObject of each chunk
+        const partialParser = isJsonRequested
+            ? new PartialJsonParser(params.validatePartialObject ? schema : undefined)
+            : undefined;
+
         // Initialize reasoning processor
         const reasoningProcessor = new ReasoningProcessor();
 
@@ -160,17 +237,24 @@ export class StreamHandler {
             ? (params.usageBatchSize !== undefined ? params.usageBatchSize : 100)
             : 0;
 
-        // Always add usage processor regardless of batch size
-        const usageProcessor = this.usageTracker.createStreamProcessor(
-            inputTokens,
-            modelInfo,
-            {
-                inputCachedTokens: params.inputCachedTokens,
-                callerId: params.callerId || this.callerId,
-                tokenBatchSize: effectiveBatchSize
+        // Add usage processor regardless of batch size, except for replayed cache hits
+        if (!options.cacheHit) {
+            const usageProcessor = this.usageTracker.createStreamProcessor(
+                inputTokens,
+                modelInfo,
+                {
+                    inputCachedTokens: params.inputCachedTokens,
+                    callerId: params.callerId || this.callerId,
+                    tokenBatchSize: effectiveBatchSize
+                }
+            );
+            pipelineProcessors.push(usageProcessor);
+
+            // Runs after usage tracking so the final chunk carries the usage to record
+            if (params.budgetGuard) {
+                pipelineProcessors.push(new BudgetStreamProcessor(params.budgetGuard, this.tokenCalculator, inputTokens, modelInfo));
             }
-        );
-        pipelineProcessors.push(usageProcessor);
+        }
 
         // Add history processor to pipeline
         log.debug('Adding history processor to stream pipeline');
@@ -190,6 +274,9 @@ export class StreamHandler {
             let firstContentEmitted = false;
             let firstReasoningEmitted = false;
             let hasExecutedTools = false;
+            // Tool calls of a model that ignores toolChoice 'none' are dropped, so that a stopped
+            // tool loop ends with this stream as the final answer
+            const toolCallsDisabled = params.settings?.toolChoice === 'none';
             let currentMessages: UniversalMessage[] = params.messages ? [...params.messages] : [];
 
             // Process the chunks after they've gone through the pipeline
@@ -204,7 +291,7 @@ export class StreamHandler {
                 chunkCount++;
 
                 // Map tool calls from StreamChunk format to UniversalStreamResponse format
-                const toolCalls = chunk.toolCalls?.map(call => {
+                const toolCalls = toolCallsDisabled ? undefined : chunk.toolCalls?.map(call => {
                     if ('function' in call) {
                         return {
                             id: call.id ?? `call_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
@@ -236,11 +323,26 @@ export class StreamHandler {
                     }
                 };
 
+                if (toolCallsDisabled && response.metadata?.finishReason === FinishReason.TOOL_CALLS) {
+                    response.metadata.finishReason = FinishReason.STOP;
+                }
+
                 // Use dedicated processor's accumulated reasoning
                 response.reasoningText = reasoningProcessor.getAccumulatedReasoning();
 
+                const partial = partialParser?.update(contentAccumulator.getAccumulatedContent());
+                if (partial) {
+                    response.partialObject = partial.value as typeof response.partialObject;
+                    response.completedFields = partial.completedFields;
+                    // The complete chunk reports the validation of the whole object instead
+                    if (partial.validationErrors?.length && !chunk.isComplete) {
+                        response.metadata = { ...response.metadata, validationErrors: partial.validationErrors };
+                    }
+                }
+
                 // Process tool calls if they are complete and we have toolController
                 if (chunk.isComplete &&
+                    !toolCallsDisabled &&
                     this.toolController &&
                     this.toolOrchestrator &&
                     (
@@ -322,7 +424,9 @@ export class StreamHandler {
                         const toolCallsResponse: UniversalChatResponse<unknown> = {
                             content: '',
                             role: 'assistant',
-                            toolCalls: completedToolCalls
+                            toolCalls: completedToolCalls,
+                            // The turn's usage counts toward the cost limit of the tool loop
+                            ...(chunk.metadata?.usage ? { metadata: { usage: chunk.metadata.usage as Usage } } : {})
                         };
 
                         // Reset iteration count before processing tools for this chunk
@@ -330,11 +434,13 @@ export class StreamHandler {
                             this.toolController.resetIterationCount();
                         }
 
-                        // Ensure the call on line ~293 has exactly three arguments
-                        const toolProcessingResult = await this.toolOrchestrator.processToolCalls(
+                        const toolProcessingResult = yield* this.processToolCallsWithEvents<T extends z.ZodType ? z.infer<T> : unknown>(
                             toolCallsResponse,
                             callSpecificTools,
-                            this.mcpAdapterProvider
+                            params.toolApproval,
+                            toolContext,
+                            params.toolLoopPolicy,
+                            params.budgetGuard
                         );
 
                         if (toolProcessingResult && (toolProcessingResult as any).error) {
@@ -374,6 +480,21 @@ export class StreamHandler {
                         // Update message history state based on results added by orchestrator
                         currentMessages = this.historyManager.getMessages(true);
 
+                        const { loopStop } = toolProcessingResult;
+                        if (loopStop && params.toolLoopPolicy?.onStop === 'return') {
+                            log.debug('Tool loop stopped; returning the transcript so far', { reason: loopStop.reason });
+                            yield {
+                                role: 'assistant',
+                                content: '',
+                                isComplete: true,
+                                metadata: {
+                                    finishReason: FinishReason.TOOL_CALLS,
+                                    toolLoopStop: { ...loopStop, transcript: currentMessages }
+                                }
+                            } as UniversalStreamResponse<T extends z.ZodType ? z.infer<T> : unknown>;
+                            return;
+                        }
+
                         // If we have StreamingService, continue the stream with tool results
                         if (toolProcessingResult.requiresResubmission && this.streamingService) {
                             try {
@@ -387,8 +508,9 @@ export class StreamHandler {
 
                                 const systemInstructionMessage: UniversalMessage = {
                                     role: 'system',
-                                    content:
-                                        `You have already called the following tools and received their results: ${toolNames}. ` +
+                                    content: loopStop
+                                        ? formatToolLoopStopInstruction(loopStop)
+                                        : `You have already called the following tools and received their results: ${toolNames}. ` +
                                         'Do not call these tools again for the same information. Use the information you have to complete your response.',
                                 };
 
@@ -410,10 +532,19 @@ export class StreamHandler {
                                 const continuationParams: UniversalChatParams = {
                                     ...params,
                                     messages: continuationMessages,
+                                    // A stopped loop ends with an answer that calls no more tools
+                                    ...(loopStop ? { settings: { ...params.settings, toolChoice: 'none' as const } } : {})
                                 };
 
-                                const continuationStream =
-                                    await this.streamingService.createStream(
+                                const continuationStream = toolContext
+                                    ? await this.streamingService.createStream(
+                                        continuationParams,
+                                        params.model,
+                                        undefined,
+                                        undefined,
+                                        toolContext
+                                    )
+                                    : await this.streamingService.createStream(
                                         continuationParams,
                                         params.model,
                                     );
@@ -429,6 +560,8 @@ export class StreamHandler {
                                     }
                                 }
                             } catch (err) {
+                                // A spent budget or cancellation ends the whole stream rather than becoming an error chunk
+                                if (err instanceof BudgetExceededError || isLLMCancellationError(err)) throw err;
                                 logger.error('Error in continuation stream', err);
 
                                 yield {
@@ -7,6 +7,7 @@ import { RetryManager } from '../retry/RetryManager.ts';
 import { shouldRetryDueToLLMError } from '../retry/utils/ShouldRetryDueToLLMError.ts';
 import type { UsageCallback } from '../../interfaces/UsageInterfaces.ts';
 import { StreamHandler } from './StreamHandler.ts';
+import { toProviderParams } from '../chat/ProviderParams.ts';
 import { logger } from '../../utils/logger.ts';
 import { UsageTracker } from '../telemetry/UsageTracker.ts';
 import { ToolController } from '../tools/ToolController.ts';
@@ -22,6 +23,18 @@ import {
     type ProviderExecutionContext
 } from '../caller/ProviderExecution.ts';
 import type { CallExecutionContext } from '../execution/CallExecutionContext.ts';
+import {
+    cloneCacheValue,
+    createCacheHitUsage,
+    createResponseCacheKey,
+    isCacheableResponse,
+    readResponseCache,
+    shouldReadResponseCache,
+    shouldWriteResponseCache,
+    writeResponseCache,
+    type ResponseCacheStore
+} from '../cache/ResponseCache.ts';
+import type { RateLimitScheduler } from '../ratelimit/RateLimitScheduler.ts';
 
 /**
  * StreamingService
@@ -47,6 +60,8 @@ export class StreamingService {
     private telemetryCollector?: TelemetryCollector;
     private conversationCtx?: ConversationContext;
     private llmCtx?: LLMCallContext;
+    private responseCache?: ResponseCacheStore;
+    private rateLimitScheduler?: RateLimitScheduler;
 
     constructor(
         private providerManager: ProviderManager,
@@ -109,6 +124,20 @@ export class StreamingService {
         this.conversationCtx = conversationCtx;
     }
 
+    /**
+     * Set (or remove) the response cache used for stream requests
+     */
+    public setResponseCache(cache: ResponseCacheStore | undefined): void {
+        this.responseCache = cache;
+    }
+
+    /**
+     * Set (or remove) the scheduler that queues stream requests behind rate limits
+     */
+    public setRateLimitScheduler(scheduler: RateLimitScheduler | undefined): void {
+        this.rateLimitScheduler = scheduler;
+    }
+
     /**
      * Creates a stream from the LLM provider and processes it through the stream pipeline
      */
@@ -295,18 +324,60 @@ export class StreamingService {
                 }
             }
 
+            // Replay cached provider chunks through the same stream pipeline as a live stream
+            const responseCache = params.cache === 'bypass' ? undefined : this.responseCache;
+            const cacheKey = responseCache
+                ? createResponseCacheKey('stream', this.getProviderName(provider, execution), params)
+                : undefined;
+            const cached = responseCache && cacheKey && shouldReadResponseCache(params.cache)
+                ? await readResponseCache(responseCache, cacheKey, 'stream')
+                : undefined;
+            if (cached) {
+                log.debug('Replaying stream from cache', { model, chunks: cached.chunks.length });
+                return this.streamHandler.processStream(
+                    this.replayCachedStream(cached.chunks),
+                    params,
+                    inputTokens,
+                    modelInfo,
+                    { cacheHit: true, context }
+                );
+            }
+
             log.debug('Requesting provider stream', {
                 provider: provider.constructor.name,
                 model,
                 callerId: params.callerId
             });
 
-            // Request stream from provider
-            const providerStream = context
-                ? await context.awaitOrAbort(context.isControlled
-                    ? provider.streamCall(model, params, context)
-                    : provider.streamCall(model, params))
-                : await provider.streamCall(model, params);
+            // Cached replays are free, so only live requests are checked against the budget
+            params.budgetGuard?.check(params.budgetGuard.estimate(params.messages, modelInfo, params.settings?.maxTokens));
+
+            // Only the request fields reach the provider; the cache mode, budget and tool loop settings are for this service
+            const providerParams = toProviderParams(params);
+
+            // Request stream from provider, waiting for a turn with the provider's rate limits
+            const open = () => context?.isControlled
+                ? provider.streamCall(model, providerParams, context)
+                : provider.streamCall(model, providerParams);
+            const request = this.rateLimitScheduler
+                ? () => this.rateLimitScheduler!.runStream(
+                    { provider: this.getProviderName(provider, execution).toLowerCase(), model },
+                    {
+                        tokens: inputTokens + (params.settings?.maxTokens ?? 0),
+                        signal: context?.signal
+                    },
+                    open
+                )
+                : open;
+            let providerStream = context
+                ? await context.awaitOrAbort(request())
+                : await request();
+            if (responseCache && cacheKey) {
+                providerStream = this.recordStream(
+                    providerStream,
+                    shouldWriteResponseCache(params.cache) ? { store: responseCache, key: cacheKey } : undefined
+                );
+            }
 
             log.debug('Provider stream created', {
                 timeToCreateMs: Date.now() - startTime,
@@ -314,12 +385,7 @@ export class StreamingService {
             });
 
             // Process the stream through the stream handler
-            return this.streamHandler.processStream(
-                providerStream,
-                params,
-                inputTokens,
-                modelInfo
-            );
+            return this.streamHandler.processStream(providerStream, params, inputTokens, modelInfo, { context });
         } catch (error) {
             log.error('Stream request failed', {
                 error: error instanceof Error ? error.message : String(error),
@@ -330,6 +396,50 @@ export class StreamingService {
         }
     }
 
+    private getProviderName(provider: object, execution?: ProviderExecutionContext): string {
+        return execution?.providerName
+            ?? (this.providerManager.getCurrentProviderName?.() as unknown as string)
+            ?? provider.constructor.name;
+    }
+
+    /** Replay stored chunks as a cache hit with zero-cost usage on the final chunk */
+    private async *replayCachedStream(chunks: UniversalStreamResponse[]): AsyncIterable<UniversalStreamResponse> {
+        for (const chunk of chunks) {
+            yield {
+                ...chunk,
+                metadata: {
+                    ...chunk.metadata,
+                    cache: 'hit',
+                    ...(chunk.isComplete ? { usage: createCacheHitUsage() } : {})
+                }
+            };
+        }
+    }
+
+    /**
+     * Mark provider chunks as cache misses and, when a target is given, store them once the
+     * stream completes without tool calls. Streams that fail or stop early are not stored.
+     */
+    private async *recordStream(
+        stream: AsyncIterable<UniversalStreamResponse>,
+        target?: { store: ResponseCacheStore; key: string }
+    ): AsyncIterable<UniversalStreamResponse> {
+        const chunks: UniversalStreamResponse[] = [];
+        let cacheable = true;
+        let completed = false;
+        for await (const chunk of stream) {
+            if (target && cacheable) {
+                cacheable = isCacheableResponse(chunk);
+                chunks.push(cloneCacheValue(chunk));
+            }
+            completed ||= Boolean(chunk.isComplete);
+            yield { ...chunk, metadata: { ...chunk.metadata, cache: 'miss' } };
+        }
+        if (target && cacheable && completed) {
+            await writeResponseCache(target.store, target.key, { kind: 'stream', createdAt: Date.now(), chunks });
+        }
+    }
+
     /** Wrap outgoing stream to add telemetry events and final usage */
     private async *wrapStreamWithTelemetry(
         stream: AsyncIterable<UniversalStreamResponse>,
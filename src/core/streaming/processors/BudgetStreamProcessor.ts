@@ -0,0 +1,49 @@
+import type { StreamChunk, IStreamProcessor } from "../types.ts";
+import type { ModelInfo, Usage } from "../../../interfaces/UniversalInterfaces.ts";
+import type { TokenCalculator } from "../../models/TokenCalculator.ts";
+import type { BudgetAmount, BudgetGuard } from "../../budget/BudgetTracker.ts";
+
+/**
+ * BudgetStreamProcessor
+ *
+ * Enforces a call's budget while a stream is running. The running cost (prompt tokens
+ * plus the output counted so far) is checked on every chunk, and the stream fails with
+ * BudgetExceededError as soon as it no longer fits. The final usage reported by
+ * UsageTrackingProcessor, which must run earlier in the pipeline, is recorded against
+ * the budget; a stream that fails or is abandoned records its running amount instead.
+ */
+export class BudgetStreamProcessor implements IStreamProcessor {
+    constructor(
+        private readonly budget: BudgetGuard,
+        private readonly tokenCalculator: TokenCalculator,
+        private readonly inputTokens: number,
+        private readonly modelInfo: ModelInfo
+    ) { }
+
+    async *processStream(stream: AsyncIterable<StreamChunk>): AsyncIterable<StreamChunk> {
+        let outputTokens = 0;
+        let running: BudgetAmount = this.budget.price(this.inputTokens, 0, this.modelInfo);
+        let recorded = false;
+
+        try {
+            for await (const chunk of stream) {
+                if (chunk.isComplete && chunk.metadata?.usage) {
+                    this.budget.recordUsage(chunk.metadata.usage as Usage);
+                    recorded = true;
+                    yield chunk;
+                    continue;
+                }
+
+                const text = (chunk.content ?? '') + (chunk.reasoning ?? '');
+                if (text) {
+                    outputTokens += this.tokenCalculator.calculateTokens(text);
+                    running = this.budget.price(this.inputTokens, outputTokens, this.modelInfo);
+                    this.budget.check(running);
+                }
+                yield chunk;
+            }
+        } finally {
+            if (!recorded) this.budget.record(running);
+        }
+    }
+}
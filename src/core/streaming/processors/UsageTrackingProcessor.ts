@@ -2,7 +2,7 @@ import type { StreamChunk, IStreamProcessor } from "../types.ts";
 import type { ModelInfo, Usage } from "../../../interfaces/UniversalInterfaces.ts";
 import type { UsageCallback } from "../../../interfaces/UsageInterfaces.ts";
 import type { TokenCalculator } from "../../models/TokenCalculator.ts";
-import { normalizeUsage } from "../../telemetry/UsageNormalizer.ts";
+import { calculateCacheSavings, normalizeUsage } from "../../telemetry/UsageNormalizer.ts";
 
 /**
  * UsageTrackingProcessor
@@ -341,6 +341,9 @@ export class UsageTrackingProcessor implements IStreamProcessor {
         // Calculate costs based on what should be included
         const inputCost = includeInputCost ? this.inputTokens * (inputPrice / 1_000_000) : 0;
         const inputCachedCost = includeInputCost ? cachedTokens * (cachedPrice / 1_000_000) : 0;
+        const cacheSavings = includeInputCost
+            ? calculateCacheSavings(cachedTokens, inputPrice, this.modelInfo.inputCachedPricePerMillion)
+            : 0;
         const outputCost = outputTokens * (outputPrice / 1_000_000);
         const reasoningCost = outputReasoningTokens * (outputPrice / 1_000_000);
 
@@ -351,6 +354,7 @@ export class UsageTrackingProcessor implements IStreamProcessor {
             input: {
                 total: inputCost,
                 cached: inputCachedCost,
+                ...(cacheSavings > 0 ? { cacheSavings } : {})
             },
             output: {
                 total: outputCost,
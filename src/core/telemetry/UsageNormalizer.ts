@@ -20,3 +20,53 @@ export function normalizeUsage(usage: Usage): Usage {
 
     return usage;
 }
+
+/**
+ * Sums usages field by field, e.g. of the requests that make up one call. Optional fields,
+ * such as audio tokens, cache savings and durations, are kept when any usage reports them.
+ */
+export function sumUsages(usages: Usage[]): Usage {
+    const sum: Usage = {
+        tokens: {
+            input: { total: 0, cached: 0 },
+            output: { total: 0, reasoning: 0 },
+            total: 0
+        },
+        costs: {
+            input: { total: 0, cached: 0 },
+            output: { total: 0, reasoning: 0 },
+            total: 0,
+            unit: 'USD'
+        }
+    };
+    for (const usage of usages) {
+        addFields(sum as unknown as Record<string, unknown>, usage as unknown as Record<string, unknown>);
+    }
+    return normalizeUsage(sum);
+}
+
+function addFields(target: Record<string, unknown>, source: Record<string, unknown>): void {
+    for (const [key, value] of Object.entries(source)) {
+        if (typeof value === 'number') {
+            target[key] = ((target[key] as number | undefined) ?? 0) + value;
+        } else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+            target[key] ??= {};
+            addFields(target[key] as Record<string, unknown>, value as Record<string, unknown>);
+        } else if (target[key] === undefined) {
+            target[key] = value;
+        }
+    }
+}
+
+/**
+ * Amount saved by billing cached input tokens at the cached rate instead of the regular
+ * input rate. Zero when the model has no cached price or nothing was read from the cache.
+ */
+export function calculateCacheSavings(
+    cachedTokens: number,
+    inputPricePerMillion: number,
+    inputCachedPricePerMillion?: number
+): number {
+    if (!cachedTokens || inputCachedPricePerMillion === undefined) return 0;
+    return Math.max(0, cachedTokens * (inputPricePerMillion - inputCachedPricePerMillion) / 1_000_000);
+}
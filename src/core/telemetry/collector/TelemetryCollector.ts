@@ -9,9 +9,11 @@ import type {
     LLMCallContext,
     PromptMessage,
     ProviderInit,
+    RateLimitQueueEvent,
     RedactionPolicy,
     TelemetryProvider,
-    ToolCallContext
+    ToolCallContext,
+    ToolProgress
 } from './types.ts';
 
 export class TelemetryCollector {
@@ -31,6 +33,8 @@ export class TelemetryCollector {
         | { t: 'endLLM'; llm: LLMCallContext; usage?: Usage; responseModel?: string }
         | { t: 'startTool'; ctx: ToolCallContext }
         | { t: 'endTool'; tool: ToolCallContext; result?: unknown; error?: unknown }
+        | { t: 'toolProgress'; tool: ToolCallContext; progress: ToolProgress }
+        | { t: 'rateLimitQueue'; event: RateLimitQueueEvent }
     > = [];
 
     constructor(config?: { providers?: TelemetryProvider[]; redaction?: RedactionPolicy; env?: NodeJS.ProcessEnv }) {
@@ -185,6 +189,25 @@ export class TelemetryCollector {
         }
     }
 
+    addToolProgress(tool: ToolCallContext, progress: ToolProgress): void {
+        this.log.debug('addToolProgress', { toolCallId: tool.toolCallId, ...progress, ready: this.allReady });
+        if (!this.allReady || this.isFlushing) {
+            this.pendingEvents.push({ t: 'toolProgress', tool, progress });
+        } else {
+            for (const p of this.providers) p.addToolProgress?.(tool, progress);
+        }
+    }
+
+    // Rate limiting
+    recordRateLimitQueue(event: RateLimitQueueEvent): void {
+        this.log.debug('recordRateLimitQueue', { ...event, ready: this.allReady });
+        if (!this.allReady || this.isFlushing) {
+            this.pendingEvents.push({ t: 'rateLimitQueue', event });
+        } else {
+            for (const p of this.providers) p.recordRateLimitQueue?.(event);
+        }
+    }
+
     async flush(): Promise<void> {
         // Best-effort flush on providers that support it
         const proms: Promise<void>[] = [];
@@ -231,6 +254,12 @@ export class TelemetryCollector {
                 case 'endTool':
                     for (const p of this.providers) p.endTool(ev.tool, ev.result, ev.error);
                     break;
+                case 'toolProgress':
+                    for (const p of this.providers) p.addToolProgress?.(ev.tool, ev.progress);
+                    break;
+                case 'rateLimitQueue':
+                    for (const p of this.providers) p.recordRateLimitQueue?.(ev.event);
+                    break;
             }
         }
         this.pendingEvents = [];
@@ -1,4 +1,8 @@
 import type { Usage } from '../../../interfaces/UniversalInterfaces.ts';
+import type { RateLimitQueueEvent } from '../../ratelimit/RateLimiter.ts';
+import type { ToolProgress } from '../../../types/tooling.ts';
+
+export type { RateLimitQueueEvent, ToolProgress };
 
 export type RedactionPolicy = {
     redactPrompts: boolean;
@@ -26,9 +30,30 @@ export type LLMCallContext = {
     toolsEnabled?: boolean;
     toolsAvailable?: string[]; // list of function names available to the model
     settings?: Record<string, unknown>;
+    /** Set for completions an MCP server requested through sampling. */
+    mcpSampling?: MCPSamplingTelemetry;
+    /** Set for requests that repair a response which failed the JSON schema. */
+    schemaRepair?: SchemaRepairTelemetry;
     startedAt: number;
 };
 
+export type SchemaRepairTelemetry = {
+    /** Number of the repair request, starting at 1 */
+    attempt: number;
+    maxAttempts: number;
+    /** Errors of the response being repaired */
+    validationErrors: Array<{ message: string; path: (string | number)[] }>;
+};
+
+export type MCPSamplingTelemetry = {
+    serverKey: string;
+    /** ToolCallContext.toolCallId of the tool call during which the server sent the request. */
+    parentToolCallId?: string;
+    toolName?: string;
+    /** Tool call id from the model response. */
+    requestedToolCallId?: string;
+};
+
 export type ToolCallContext = {
     toolCallId: string;
     conversationId: string;
@@ -39,6 +64,11 @@ export type ToolCallContext = {
     executionIndex?: number;
     parallel?: boolean;
     argsPreview?: string;
+    /** Outcome of checking the arguments against the tool's parameters, when validation is on. */
+    argumentValidation?: {
+        status: 'valid' | 'coerced' | 'invalid';
+        errors?: Array<{ path: string; message: string }>;
+    };
     startedAt: number;
 };
 
@@ -97,6 +127,10 @@ export type TelemetryProvider = {
     endLLM(ctx: LLMCallContext, usage?: Usage, responseModel?: string): void;
     startTool(ctx: ToolCallContext): void;
     endTool(ctx: ToolCallContext, result?: unknown, error?: unknown): void;
+    /** Called when a running tool reports progress, such as MCP `notifications/progress`. */
+    addToolProgress?(ctx: ToolCallContext, progress: ToolProgress): void;
+    /** Called when a provider request waited in the rate-limit queue. */
+    recordRateLimitQueue?(event: RateLimitQueueEvent): void;
     flush?(): Promise<void> | void;
     shutdown?(): Promise<void> | void;
 };
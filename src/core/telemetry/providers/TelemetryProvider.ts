@@ -11,5 +11,7 @@ export type {
     LLMCallContext,
     PromptMessage,
     ChoiceEvent,
-    ToolCallContext
+    ToolCallContext,
+    ToolProgress,
+    RateLimitQueueEvent
 } from '../collector/types.ts';
\ No newline at end of file
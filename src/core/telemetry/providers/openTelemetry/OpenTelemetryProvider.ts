@@ -9,9 +9,11 @@ import type {
     LLMCallContext,
     PromptMessage,
     ProviderInit,
+    RateLimitQueueEvent,
     RedactionPolicy,
     TelemetryProvider,
-    ToolCallContext
+    ToolCallContext,
+    ToolProgress
 } from '../../collector/types.ts';
 
 // Lazy-loaded OpenTelemetry API imports to make them optional peer dependencies
@@ -21,6 +23,8 @@ let SpanKind: any;
 export class OpenTelemetryProvider implements TelemetryProvider {
     public readonly name = 'opentelemetry';
     private tracer: any = undefined;
+    private rateLimitWait: any = undefined;
+    private rateLimitQueueDepth: any = undefined;
     private enabled = false;
     private redaction!: RedactionPolicy;
     private readonly log = logger.createLogger({ prefix: 'OpenTelemetryProvider' });
@@ -53,6 +57,14 @@ export class OpenTelemetryProvider implements TelemetryProvider {
 
             // Initialize tracer after successful import
             this.tracer = otelApi.trace.getTracer('callllm', '1.0.0');
+            const meter = otelApi.metrics?.getMeter('callllm', '1.0.0');
+            this.rateLimitWait = meter?.createHistogram('callllm.rate_limit.wait', {
+                description: 'Time provider requests waited in the rate-limit queue',
+                unit: 'ms'
+            });
+            this.rateLimitQueueDepth = meter?.createHistogram('callllm.rate_limit.queue_depth', {
+                description: 'Requests waiting in the rate-limit queue when a request was queued'
+            });
 
             // Ensure SDK autostart
             getAutoOtelService();
@@ -131,7 +143,10 @@ export class OpenTelemetryProvider implements TelemetryProvider {
 
     startLLM(ctx: LLMCallContext): void {
         if (!this.enabled || !this.tracer) return;
-        const parent = (globalThis as any)[`__callllm_conv_${ctx.conversationId}`];
+        // Sampling completions nest under the tool call that triggered them
+        const sampling = ctx.mcpSampling;
+        const parent = (sampling?.parentToolCallId && (globalThis as any)[`__callllm_tool_${sampling.parentToolCallId}`])
+            || (globalThis as any)[`__callllm_conv_${ctx.conversationId}`];
         const span = this.tracer.startSpan(`${ctx.provider.toLowerCase()}.chat.completions`, {
             kind: SpanKind.CLIENT,
             attributes: {
@@ -141,7 +156,17 @@ export class OpenTelemetryProvider implements TelemetryProvider {
                 'gen_ai.request.is_stream': ctx.streaming,
                 'gen_ai.output.type': ctx.responseFormat === 'json' ? 'json' : 'text',
                 'gen_ai.tools.enabled': Boolean(ctx.toolsEnabled),
-                ...(Array.isArray((ctx as any).toolsAvailable) ? { 'gen_ai.tools.available': JSON.stringify((ctx as any).toolsAvailable).slice(0, 4000) } : {})
+                ...(Array.isArray((ctx as any).toolsAvailable) ? { 'gen_ai.tools.available': JSON.stringify((ctx as any).toolsAvailable).slice(0, 4000) } : {}),
+                ...(sampling ? {
+                    'callllm.mcp.sampling.server': sampling.serverKey,
+                    ...(sampling.toolName ? { 'callllm.mcp.sampling.tool.name': sampling.toolName } : {}),
+                    ...(sampling.requestedToolCallId ? { 'callllm.mcp.sampling.tool.requested_id': sampling.requestedToolCallId } : {})
+                } : {}),
+                ...(ctx.schemaRepair ? {
+                    'callllm.schema_repair.attempt': ctx.schemaRepair.attempt,
+                    'callllm.schema_repair.max_attempts': ctx.schemaRepair.maxAttempts,
+                    'callllm.schema_repair.errors': JSON.stringify(ctx.schemaRepair.validationErrors).slice(0, 4000)
+                } : {})
             } as any
         }, parent ? otelApi.trace.setSpan(otelApi.context.active(), parent) : otelApi.context.active());
         (span as any).__callllm_id = ctx.llmCallId;
@@ -255,7 +280,14 @@ export class OpenTelemetryProvider implements TelemetryProvider {
                 ...(ctx.requestedId ? { 'gen_ai.tool.requested_id': ctx.requestedId } : {}),
                 ...(ctx.args ? { 'gen_ai.tool.arguments': JSON.stringify(ctx.args).slice(0, 4000) } : {}),
                 'gen_ai.tool.execution.index': ctx.executionIndex ?? 0,
-                'gen_ai.tool.execution.parallel': Boolean(ctx.parallel)
+                'gen_ai.tool.execution.parallel': Boolean(ctx.parallel),
+                ...(ctx.argumentValidation ? {
+                    'callllm.tool.arguments.validation': ctx.argumentValidation.status,
+                    'callllm.tool.arguments.validation_errors.count': ctx.argumentValidation.errors?.length ?? 0,
+                    ...(ctx.argumentValidation.errors?.length
+                        ? { 'callllm.tool.arguments.validation_errors': JSON.stringify(ctx.argumentValidation.errors).slice(0, 4000) }
+                        : {})
+                } : {})
             } as any
         }, parent ? otelApi.trace.setSpan(otelApi.context.active(), parent) : otelApi.context.active());
         (span as any).__callllm_id = ctx.toolCallId;
@@ -290,5 +322,26 @@ export class OpenTelemetryProvider implements TelemetryProvider {
         try { span.end(); this.log.debug('endTool span ended', { toolCallId: ctx.toolCallId }); } catch { /* ignore */ }
         delete (globalThis as any)[`__callllm_tool_${ctx.toolCallId}`];
     }
-}
 
+    addToolProgress(ctx: ToolCallContext, progress: ToolProgress): void {
+        if (!this.enabled) return;
+        const span = (globalThis as any)[`__callllm_tool_${ctx.toolCallId}`];
+        if (!span) return;
+        try {
+            span.addEvent('callllm.tool.progress', {
+                'callllm.tool.progress': progress.progress,
+                ...(progress.total !== undefined ? { 'callllm.tool.progress.total': progress.total } : {}),
+                ...(progress.message !== undefined ? { 'callllm.tool.progress.message': this.truncate(progress.message) } : {})
+            });
+        } catch { /* ignore */ }
+    }
+
+    recordRateLimitQueue(event: RateLimitQueueEvent): void {
+        if (!this.enabled || !this.rateLimitWait) return;
+        try {
+            const attrs = { 'gen_ai.system': event.provider, 'gen_ai.request.model': event.model };
+            this.rateLimitWait.record(event.waitMs, attrs);
+            this.rateLimitQueueDepth.record(event.queueDepth, attrs);
+        } catch { /* ignore */ }
+    }
+}
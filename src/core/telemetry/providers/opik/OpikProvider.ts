@@ -553,7 +553,9 @@ export class OpikProvider implements TelemetryProvider {
         if (!trace) return;
         try {
             this.log.debug('Opik startLLM', { llmCallId: ctx.llmCallId, model: ctx.model, provider: ctx.provider });
-            const span = trace.span({
+            // Sampling completions nest under the tool call that triggered them
+            const toolSpan = ctx.mcpSampling?.parentToolCallId ? this.spanByTool[ctx.mcpSampling.parentToolCallId] : undefined;
+            const span = (toolSpan ?? trace).span({
                 name: `${ctx.provider.toLowerCase()}.chat.completions`,
                 type: 'llm',
                 input: {
@@ -562,7 +564,9 @@ export class OpikProvider implements TelemetryProvider {
                     streaming: ctx.streaming,
                     responseFormat: ctx.responseFormat,
                     toolsEnabled: Boolean(ctx.toolsEnabled),
-                    toolsAvailable: Array.isArray((ctx as any).toolsAvailable) ? (ctx as any).toolsAvailable : undefined
+                    toolsAvailable: Array.isArray((ctx as any).toolsAvailable) ? (ctx as any).toolsAvailable : undefined,
+                    ...(ctx.mcpSampling ? { mcpSampling: ctx.mcpSampling } : {}),
+                    ...(ctx.schemaRepair ? { schemaRepair: ctx.schemaRepair } : {})
                 },
                 output: {}
             });
@@ -984,7 +988,8 @@ export class OpikProvider implements TelemetryProvider {
                     requestedId: ctx.requestedId,
                     args: ctx.args,
                     executionIndex: ctx.executionIndex,
-                    parallel: ctx.parallel
+                    parallel: ctx.parallel,
+                    argumentValidation: ctx.argumentValidation
                 },
                 output: {}
             });
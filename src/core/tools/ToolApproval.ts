@@ -0,0 +1,38 @@
+import type { ToolApprovalDecision, ToolApprovalHandler, ToolApprovalRequest, ToolDefinition } from '../../types/tooling.ts';
+import type { CallExecutionContext } from '../execution/CallExecutionContext.ts';
+
+/**
+ * Asks for approval of a tool call when its tool requires it.
+ * Returns undefined for calls that run without approval.
+ */
+export async function requestToolApproval(
+    tool: ToolDefinition,
+    request: ToolApprovalRequest,
+    handler?: ToolApprovalHandler,
+    context?: CallExecutionContext
+): Promise<ToolApprovalDecision | undefined> {
+    const policy = tool.requiresApproval;
+    const required = typeof policy === 'function'
+        ? await (context ? context.awaitOrAbort(Promise.resolve(policy(request.arguments))) : policy(request.arguments))
+        : Boolean(policy);
+    if (!required) return undefined;
+    // Tools that need approval never run unattended
+    if (!handler) return { action: 'deny', reason: 'no approval handler is configured' };
+
+    const decision = context
+        ? await context.awaitOrAbort(Promise.resolve(context.isControlled ? handler(request, context) : handler(request)))
+        : await handler(request);
+    if (decision?.action === 'approve' || decision?.action === 'deny') return decision;
+    if (decision?.action === 'edit' && decision.arguments && typeof decision.arguments === 'object') return decision;
+    throw new TypeError(`Invalid approval decision for tool "${request.name}": ${JSON.stringify(decision)}`);
+}
+
+/** Tool message content telling the model that a call did not run. */
+export function formatDeniedToolCall(reason?: string): string {
+    return reason ? `Tool call was not approved: ${reason}` : 'Tool call was not approved.';
+}
+
+/** Tool message content telling the model which arguments a call actually ran with. */
+export function formatEditedToolResult(args: Record<string, unknown>, content: string): string {
+    return `The arguments of this tool call were edited before it ran. Arguments used: ${JSON.stringify(args)}\n\n${content}`;
+}
@@ -0,0 +1,62 @@
+import type { ToolDefinition } from '../../types/tooling.ts';
+import { coerceDataToJsonSchema } from '../schema/JsonSchemaCoercion.ts';
+import { jsonSchemaToZod } from '../schema/JsonSchemaToZod.ts';
+import { SchemaValidator, SchemaValidationError } from '../schema/SchemaValidator.ts';
+
+/**
+ * How tool-call arguments are checked against `ToolDefinition.parameters` before the tool runs:
+ * - 'coerce': Fix obvious type mismatches; remaining errors go back to the model so it can retry
+ * - 'strict': Fix obvious type mismatches; remaining errors fail the call with ToolArgumentValidationError
+ * - 'off': Pass the model's arguments to the tool unchecked
+ */
+export type ToolArgumentValidation = 'coerce' | 'strict' | 'off';
+
+export type ToolArgumentValidationResult = {
+    arguments: Record<string, unknown>;
+    status: 'valid' | 'coerced' | 'invalid';
+    validationErrors: Array<{ path: string; message: string }>;
+};
+
+/**
+ * Coerces arguments to the tool's parameter schema and validates the result.
+ * Schema constructs the validator does not understand accept any value.
+ */
+export function validateToolArguments(tool: ToolDefinition, args: Record<string, unknown>): ToolArgumentValidationResult {
+    const parameters = tool.parameters as Record<string, unknown> | undefined;
+    if (!parameters || typeof parameters !== 'object') {
+        return { arguments: args, status: 'valid', validationErrors: [] };
+    }
+
+    const coerced = coerceDataToJsonSchema(args, parameters, { scalars: true }) as Record<string, unknown>;
+    const coercedStatus = JSON.stringify(coerced) === JSON.stringify(args) ? 'valid' : 'coerced';
+    let schema: ReturnType<typeof jsonSchemaToZod>;
+    try {
+        schema = jsonSchemaToZod(parameters);
+    } catch {
+        return { arguments: coerced, status: coercedStatus, validationErrors: [] };
+    }
+
+    let validationErrors: ToolArgumentValidationResult['validationErrors'] = [];
+    try {
+        SchemaValidator.validate(coerced, schema);
+    } catch (error) {
+        validationErrors = error instanceof SchemaValidationError && error.validationErrors.length > 0
+            ? error.validationErrors
+            : [{ path: '', message: error instanceof Error ? error.message : String(error) }];
+    }
+
+    return {
+        arguments: coerced,
+        status: validationErrors.length > 0 ? 'invalid' : coercedStatus,
+        validationErrors
+    };
+}
+
+/** Tool message content asking the model to correct the arguments of a call. */
+export function formatInvalidToolArguments(toolName: string, validationErrors: ToolArgumentValidationResult['validationErrors']): string {
+    return JSON.stringify({
+        error: 'invalid_arguments',
+        message: `The arguments do not match the parameters of tool "${toolName}". Correct them and call the tool again.`,
+        validationErrors
+    });
+}
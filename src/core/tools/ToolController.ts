@@ -1,14 +1,26 @@
-import type { ToolDefinition, ToolsManager } from '../../types/tooling.ts';
+import type { ToolApprovalDecision, ToolApprovalHandler, ToolDefinition, ToolProgress, ToolProgressHandler, ToolResultPolicy, ToolsManager } from '../../types/tooling.ts';
 import type { UniversalMessage, UniversalChatResponse } from '../../interfaces/UniversalInterfaces.ts';
-import { ToolIterationLimitError, ToolNotFoundError, ToolExecutionError } from '../../types/tooling.ts';
+import { ToolIterationLimitError, ToolNotFoundError, ToolExecutionError, ToolArgumentValidationError } from '../../types/tooling.ts';
 import { logger } from '../../utils/logger.ts';
 import type { ToolCall } from '../../types/tooling.ts';
 import { MCPServiceAdapter } from '../mcp/MCPServiceAdapter.ts';
+import type { MCPToolCallOrigin } from '../mcp/MCPInterfaces.ts';
 // OpenTelemetry provider is handled behind the TelemetryCollector
 import type { TelemetryCollector } from '../telemetry/collector/TelemetryCollector.ts'
 import type { ToolCallContext, ConversationContext } from '../telemetry/collector/types.ts'
-import type { CallExecutionContext } from '../execution/CallExecutionContext.ts';
-import { isLLMCancellationError } from '../execution/errors.ts';
+import { CallExecutionContext } from '../execution/CallExecutionContext.ts';
+import { isLLMCancellationError, LLMTimeoutError } from '../execution/errors.ts';
+import { formatDeniedToolCall, formatEditedToolResult, requestToolApproval } from './ToolApproval.ts';
+import {
+    formatInvalidToolArguments,
+    validateToolArguments,
+    type ToolArgumentValidation,
+    type ToolArgumentValidationResult
+} from './ToolArgumentValidator.ts';
+import { reduceToolResult, type ToolResultReduction, type ToolResultSummarizer } from './ToolResultPolicy.ts';
+import { buildToolCallDependencies, runToolCalls } from './ToolScheduler.ts';
+import { TokenCalculator } from '../models/TokenCalculator.ts';
+import { BudgetExceededError, type BudgetGuard } from '../budget/BudgetTracker.ts';
 
 const TOOL_ITERATION_CONTEXT_KEY = Symbol('toolIterationCount');
 
@@ -16,6 +28,11 @@ export class ToolController {
     private toolsManager: ToolsManager;
     private iterationCount: number = 0;
     private maxIterations: number;
+    private argumentValidation: ToolArgumentValidation;
+    private resultPolicy?: ToolResultPolicy;
+    private summarizeResult?: ToolResultSummarizer;
+    private tokenCalculator?: TokenCalculator;
+    private maxConcurrency: number;
     // no direct otel reference here
     private telemetryCollector?: TelemetryCollector;
     private conversationCtx?: ConversationContext;
@@ -24,15 +41,31 @@ export class ToolController {
      * Creates a new ToolController instance
      * @param toolsManager - The ToolsManager instance to use for tool management
      * @param maxIterations - Maximum number of tool call iterations allowed (default: 5)
+     * @param telemetryCollector - Collector for tool spans
+     * @param argumentValidation - How tool-call arguments are checked before execution (default: 'coerce')
+     * @param resultPolicy - Size limit for tool results; tools can override it
+     * @param summarizeResult - Writes summaries for the 'summarize' result strategy
+     * @param maxConcurrency - Maximum number of tool calls of one turn that run at a time (default: unlimited)
      */
     constructor(
         toolsManager: ToolsManager,
         maxIterations: number = 5,
-        telemetryCollector?: TelemetryCollector
+        telemetryCollector?: TelemetryCollector,
+        argumentValidation: ToolArgumentValidation = 'coerce',
+        resultPolicy?: ToolResultPolicy,
+        summarizeResult?: ToolResultSummarizer,
+        maxConcurrency: number = Infinity
     ) {
+        if (maxConcurrency !== Infinity && (!Number.isInteger(maxConcurrency) || maxConcurrency < 1)) {
+            throw new RangeError('maxConcurrency must be a positive integer');
+        }
         this.toolsManager = toolsManager;
         this.maxIterations = maxIterations;
         this.telemetryCollector = telemetryCollector;
+        this.argumentValidation = argumentValidation;
+        this.resultPolicy = resultPolicy;
+        this.summarizeResult = summarizeResult;
+        this.maxConcurrency = maxConcurrency;
         const log = logger.createLogger({ prefix: 'ToolController.constructor', level: process.env.LOG_LEVEL as any || 'info' });
         log.debug(`Initialized with maxIterations: ${maxIterations}`);
     }
@@ -129,19 +162,30 @@ export class ToolController {
     /**
      * Processes tool calls found in the response from the LLM.
      * Executes the tools using either call-specific definitions or the main tools manager.
+     * Before any tool runs, arguments are checked against the tool's parameters and calls
+     * of tools that require approval are put to the approval handler one at a time.
+     * Calls with invalid arguments and denied calls do not run.
      * @param response - The response object containing tool calls.
      * @param callSpecificTools - Optional list of tools passed specifically for this call.
      * @param mcpAdapter - The MCPServiceAdapter instance to use for executing MCP tools.
+     * @param context - Execution context of the call, for cancellation and iteration state.
+     * @param onToolApproval - Decides on calls of tools that require approval.
+     * @param onToolProgress - Receives the progress reports of running MCP tool calls.
+     * @param budgetGuard - Budgets of the call, charged for summaries of oversized tool results.
      * @returns Object containing messages, tool calls, and resubmission flag.
      * @throws {ToolIterationLimitError} When iteration limit is exceeded.
      * @throws {ToolNotFoundError} When a requested tool is not found.
      * @throws {ToolExecutionError} When tool execution fails.
+     * @throws {ToolArgumentValidationError} When arguments are invalid in 'strict' validation mode.
      */
     async processToolCalls(
         response: UniversalChatResponse,
         callSpecificTools?: ToolDefinition[],
         mcpAdapter?: MCPServiceAdapter | null,
-        context?: CallExecutionContext
+        context?: CallExecutionContext,
+        onToolApproval?: ToolApprovalHandler,
+        onToolProgress?: ToolProgressHandler,
+        budgetGuard?: BudgetGuard
     ): Promise<{
         messages: UniversalMessage[];
         toolCalls: {
@@ -150,6 +194,10 @@ export class ToolController {
             arguments: Record<string, unknown>;
             result?: string;
             error?: string;
+            approval?: ToolApprovalDecision['action'];
+            validationErrors?: ToolArgumentValidationResult['validationErrors'];
+            originalResult?: string;
+            resultReduction?: ToolResultReduction;
         }[];
         requiresResubmission: boolean;
     }> {
@@ -196,30 +244,78 @@ export class ToolController {
             arguments: Record<string, unknown>;
             result?: string;
             error?: string;
+            approval?: ToolApprovalDecision['action'];
+            validationErrors?: ToolArgumentValidationResult['validationErrors'];
+            originalResult?: string;
+            resultReduction?: ToolResultReduction;
+        }[] = [];
+
+        // Arguments are checked and approvals asked for in order, so a person reviewing
+        // approvals sees one call at a time, with the arguments the tool will receive
+        const toolCallIds = parsedToolCalls.map(({ id }) => id || `call_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+        const preparedCalls: {
+            args: Record<string, unknown>;
+            approval?: ToolApprovalDecision;
+            validation?: ToolArgumentValidationResult;
         }[] = [];
+        for (const [index, { name, arguments: requestedArgs }] of parsedToolCalls.entries()) {
+            const tool = this.findToolDefinition(name, callSpecificTools);
+            if (!tool) {
+                preparedCalls.push({ args: requestedArgs });
+                continue;
+            }
+            let validation = this.checkArguments(tool, requestedArgs || {}, toolCallIds[index], telemetryCollector, conversationCtx);
+            let args = validation?.arguments ?? requestedArgs;
+            let approval: ToolApprovalDecision | undefined;
+            if (validation?.status !== 'invalid') {
+                approval = await requestToolApproval(tool, { id: toolCallIds[index], name, arguments: args || {} }, onToolApproval, context);
+                if (approval) log.debug(`Approval decision for tool call: ${name}`, { action: approval.action });
+                if (approval?.action === 'edit') {
+                    validation = this.checkArguments(tool, approval.arguments, toolCallIds[index], telemetryCollector, conversationCtx);
+                    args = validation?.arguments ?? approval.arguments;
+                }
+            }
+            preparedCalls.push({ args, approval, validation });
+        }
 
-        // Create a collection of execution promises
-        const toolExecutionPromises = parsedToolCalls.map(async ({ id, name, arguments: args }) => {
+        // Create one task per call; the scheduler runs them according to the tools' concurrency hints
+        const toolExecutionTasks = parsedToolCalls.map(({ id, name }, index) => async () => {
+            const { args, approval, validation } = preparedCalls[index];
             log.debug(`Setting up execution for tool call: ${name}`, {
                 hasArguments: Boolean(args),
                 argumentsCount: Object.keys(args || {}).length,
                 arguments: args || {}
             });
 
-            const toolCallId = id || `call_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+            const toolCallId = toolCallIds[index];
 
             const toolCallInfo = {
                 id: toolCallId,
                 toolName: name,
-                arguments: args
+                arguments: args,
+                ...(approval ? { approval: approval.action } : {}),
+                ...(validation?.status === 'invalid' ? { validationErrors: validation.validationErrors } : {})
             };
 
+            if (approval?.action === 'deny') {
+                const denial = formatDeniedToolCall(approval.reason);
+                return {
+                    toolCallInfo: { ...toolCallInfo, error: denial },
+                    toolMessage: {
+                        role: 'tool',
+                        content: denial,
+                        metadata: { tool_call_id: toolCallId }
+                    } as UniversalMessage
+                };
+            }
+
             // Use the findToolDefinition method
             const tool = this.findToolDefinition(name, callSpecificTools);
 
             let result: string | Record<string, unknown> | undefined;
             let error: string | undefined;
             let toolMessage: UniversalMessage | undefined;
+            let reduced: Awaited<ReturnType<typeof reduceToolResult>>;
 
             // Telemetry
             const isParallel = parsedToolCalls.length > 1;
@@ -234,7 +330,8 @@ export class ToolController {
                     requestedId: id,
                     args: args,
                     executionIndex,
-                    parallel: isParallel
+                    parallel: isParallel,
+                    ...(validation ? { argumentValidation: { status: validation.status, errors: validation.validationErrors } } : {})
                 });
             }
 
@@ -257,8 +354,23 @@ export class ToolController {
                 if (telemetryCollector && toolCtx) {
                     telemetryCollector.endTool(toolCtx, undefined, notFoundError);
                 }
+            } else if (validation?.status === 'invalid') {
+                // The model gets the validation errors so it can correct the arguments
+                error = formatInvalidToolArguments(name, validation.validationErrors);
+                toolMessage = {
+                    role: 'tool',
+                    content: error,
+                    metadata: { tool_call_id: toolCallId }
+                };
+                if (telemetryCollector && toolCtx) {
+                    telemetryCollector.endTool(toolCtx, undefined, new ToolArgumentValidationError(name, validation.validationErrors));
+                }
             } else {
                 // --- Execute the tool (Standard or MCP) --- 
+                // A tool's own time limit runs in a child context that the call's cancellation also stops
+                const toolContext = tool.timeoutMs !== undefined
+                    ? new CallExecutionContext({ signal: context?.signal, timeoutMs: tool.timeoutMs, callerId: context?.callerId })
+                    : context;
                 try {
                     log.debug(`Executing tool definition found: ${tool.name}`, { isMCP: tool.metadata?.isMCP });
 
@@ -269,19 +381,30 @@ export class ToolController {
                             throw new ToolExecutionError(name, 'MCP Adapter not provided to processToolCalls.');
                         }
                         const serverKey = tool.metadata.serverKey as string;
-                        const originalToolName = tool.metadata.originalName as string; // Use original name for MCP call
+                        // Adapter tools keep the server's tool name in `toolName`; their `originalName` carries the server prefix
+                        const originalToolName = (tool.metadata.toolName ?? tool.metadata.originalName) as string;
 
                         if (!serverKey || !originalToolName) {
                             log.error('MCP tool metadata missing serverKey or originalName:', { toolName: name, metadata: tool.metadata });
                             throw new ToolExecutionError(name, 'Invalid MCP tool metadata.');
                         }
                         log.debug(`Executing MCP tool via adapter: ${serverKey}.${originalToolName}`);
-                        const mcpResultRaw = context?.isControlled
-                            ? await context.awaitOrAbort(mcpAdapter.executeMcpTool(serverKey, originalToolName, args || {}, {
-                                signal: context.signal,
-                                timeout: context.remainingMs
+                        // Sampling requests the server sends during the call are attributed to it
+                        const toolCall: MCPToolCallOrigin = { id: toolCallId, name, ...(toolCtx ? { telemetry: toolCtx } : {}) };
+                        const onProgress = onToolProgress || toolCtx
+                            ? (progress: ToolProgress) => {
+                                if (telemetryCollector && toolCtx) telemetryCollector.addToolProgress(toolCtx, progress);
+                                onToolProgress?.({ id: toolCallId, name }, progress);
+                            }
+                            : undefined;
+                        const mcpResultRaw = toolContext?.isControlled
+                            ? await toolContext.awaitOrAbort(mcpAdapter.executeMcpTool(serverKey, originalToolName, args || {}, {
+                                signal: toolContext.signal,
+                                timeout: toolContext.remainingMs,
+                                toolCall,
+                                ...(onProgress ? { onProgress } : {})
                             }))
-                            : await mcpAdapter.executeMcpTool(serverKey, originalToolName, args || {});
+                            : await mcpAdapter.executeMcpTool(serverKey, originalToolName, args || {}, { toolCall, ...(onProgress ? { onProgress } : {}) });
                         log.debug(`MCP tool execution successful: ${serverKey}.${originalToolName}`);
                         // Type check the raw result
                         if (typeof mcpResultRaw === 'string' || (typeof mcpResultRaw === 'object' && mcpResultRaw !== null)) {
@@ -293,9 +416,9 @@ export class ToolController {
                     } else {
                         // --- Standard tool execution ---
                         if (typeof tool.callFunction === 'function') {
-                            result = context
-                                ? await context.awaitOrAbort(context.isControlled
-                                    ? tool.callFunction(args || {}, context)
+                            result = toolContext
+                                ? await toolContext.awaitOrAbort(toolContext.isControlled
+                                    ? tool.callFunction(args || {}, toolContext)
                                     : tool.callFunction(args || {}))
                                 : await tool.callFunction(args || {});
                         } else {
@@ -306,23 +429,38 @@ export class ToolController {
 
                     // Prepare JSON content for tool result messages
                     if (result !== undefined) {
-                        const content = typeof result === 'string' ? result : JSON.stringify(result);
+                        const original = typeof result === 'string' ? result : JSON.stringify(result);
+                        reduced = await reduceToolResult(tool, original, {
+                            policy: this.resultPolicy,
+                            tokenCalculator: this.tokenCalculator ??= new TokenCalculator(),
+                            summarize: this.summarizeResult,
+                            context,
+                            budgetGuard
+                        });
+                        const content = reduced?.content ?? original;
                         toolMessage = {
                             role: 'tool',
-                            content,
-                            metadata: { tool_call_id: toolCallId }
+                            content: approval?.action === 'edit' ? formatEditedToolResult(args, content) : content,
+                            metadata: {
+                                tool_call_id: toolCallId,
+                                ...(reduced ? { originalToolResult: original, toolResultReduction: reduced.reduction } : {})
+                            }
                         };
                         if (telemetryCollector && toolCtx) {
                             telemetryCollector.endTool(toolCtx, result, undefined);
                         }
                     }
                 } catch (err) {
-                    if (isLLMCancellationError(err) || context?.signal.aborted) throw err;
+                    const timedOut = toolContext !== context && err instanceof LLMTimeoutError && !context?.signal.aborted;
+                    if (!timedOut && (isLLMCancellationError(err) || context?.signal.aborted)) throw err;
+                    if (err instanceof BudgetExceededError) throw err;
                     log.error('Error executing tool call', {
                         toolName: name,
                         error: err instanceof Error ? err.message : String(err)
                     });
-                    error = `Error: ${err instanceof Error ? err.message : String(err)}`;
+                    error = timedOut
+                        ? `Error: Tool ${name} timed out after ${tool.timeoutMs}ms`
+                        : `Error: ${err instanceof Error ? err.message : String(err)}`;
                     toolMessage = {
                         role: 'tool',
                         content: error,
@@ -331,6 +469,8 @@ export class ToolController {
                     if (telemetryCollector && toolCtx) {
                         telemetryCollector.endTool(toolCtx, undefined, err);
                     }
+                } finally {
+                    if (toolContext !== context) toolContext?.dispose();
                 }
             }
 
@@ -338,16 +478,21 @@ export class ToolController {
             return {
                 toolCallInfo: {
                     ...toolCallInfo,
-                    result: result as string | undefined,
-                    error
+                    result: reduced ? reduced.content : result as string | undefined,
+                    error,
+                    ...(reduced ? { originalResult: toolMessage?.metadata?.originalToolResult as string, resultReduction: reduced.reduction } : {})
                 },
                 toolMessage
             };
         });
 
-        // Execute all tools in parallel
-        log.debug(`Executing ${toolExecutionPromises.length} tools in parallel`);
-        const toolResults = await Promise.all(toolExecutionPromises);
+        // Calls run in parallel unless their tools ask otherwise; results keep the requested order
+        log.debug(`Executing ${toolExecutionTasks.length} tools`, { maxConcurrency: this.maxConcurrency });
+        const toolResults = await runToolCalls(
+            toolExecutionTasks,
+            buildToolCallDependencies(parsedToolCalls.map(({ name }) => this.findToolDefinition(name, callSpecificTools))),
+            this.maxConcurrency
+        );
 
         // Process results
         for (const { toolCallInfo, toolMessage } of toolResults) {
@@ -364,6 +509,44 @@ export class ToolController {
         };
     }
 
+    /**
+     * Checks tool-call arguments against the tool's parameters.
+     * In 'strict' mode, invalid arguments are recorded as a failed tool span and thrown.
+     * @returns The validation result, or undefined when validation is off.
+     */
+    private checkArguments(
+        tool: ToolDefinition,
+        args: Record<string, unknown>,
+        toolCallId: string,
+        telemetryCollector?: TelemetryCollector,
+        conversationCtx?: ConversationContext
+    ): ToolArgumentValidationResult | undefined {
+        if (this.argumentValidation === 'off') return undefined;
+        const log = logger.createLogger({ prefix: 'ToolController.checkArguments' });
+        const validation = validateToolArguments(tool, args);
+        if (validation.status === 'coerced') {
+            log.debug(`Coerced arguments of tool call: ${tool.name}`, { arguments: validation.arguments });
+        }
+        if (validation.status !== 'invalid') return validation;
+
+        log.warn(`Invalid arguments for tool call: ${tool.name}`, { validationErrors: validation.validationErrors });
+        if (this.argumentValidation === 'strict') {
+            const error = new ToolArgumentValidationError(tool.name, validation.validationErrors);
+            if (telemetryCollector && conversationCtx) {
+                const toolCtx = telemetryCollector.startTool(conversationCtx, {
+                    name: tool.name,
+                    type: tool.metadata?.isMCP ? 'mcp' : 'function',
+                    requestedId: toolCallId,
+                    args,
+                    argumentValidation: { status: validation.status, errors: validation.validationErrors }
+                });
+                telemetryCollector.endTool(toolCtx, undefined, error);
+            }
+            throw error;
+        }
+        return validation;
+    }
+
     /**
      * Resets the iteration count to 0
      */
@@ -416,7 +599,7 @@ export class ToolController {
                 throw new ToolExecutionError(name, 'MCP Adapter not provided to executeToolCall.');
             }
             const serverKey = tool.metadata.serverKey as string;
-            const originalToolName = tool.metadata.originalName as string;
+            const originalToolName = (tool.metadata.toolName ?? tool.metadata.originalName) as string;
 
             if (!serverKey || !originalToolName) {
                 log.error('MCP tool metadata missing serverKey or originalName:', { toolName: name, metadata: tool.metadata });
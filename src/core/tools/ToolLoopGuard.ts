@@ -0,0 +1,82 @@
+import type { ToolCall, ToolExecution, ToolLoopPolicy, ToolLoopStop } from '../../types/tooling.ts';
+
+/** What a tool loop has done so far, measured against its ToolLoopPolicy. */
+export type ToolLoopState = {
+    startedAt: number;
+    costUsd: number;
+    executions: ToolExecution[];
+};
+
+export function createToolLoopState(): ToolLoopState {
+    return { startedAt: Date.now(), costUsd: 0, executions: [] };
+}
+
+/**
+ * Checks a tool loop against its policy. With `pendingCalls`, the check runs before a turn's
+ * calls: cycles, per-tool caps, duration and cost. Without, it runs after a turn's calls:
+ * duration, cost and the `stopWhen` predicate.
+ * @returns Why the loop has to stop, or undefined when it may go on.
+ */
+export function checkToolLoopPolicy(
+    policy: ToolLoopPolicy | undefined,
+    state: ToolLoopState,
+    pendingCalls?: ToolCall[]
+): ToolLoopStop | undefined {
+    if (!policy) return undefined;
+
+    if (pendingCalls) {
+        if (policy.detectCycles) {
+            const executed = new Set(state.executions.map(execution => callKey(execution.toolName, execution.arguments)));
+            const repeated = pendingCalls.find(call => executed.has(callKey(call.name, call.arguments)));
+            if (repeated) {
+                return {
+                    reason: 'cycle',
+                    message: `Tool ${repeated.name} was called again with the same arguments`,
+                    toolName: repeated.name
+                };
+            }
+        }
+        if (policy.maxCallsPerTool !== undefined) {
+            const counts = new Map<string, number>();
+            for (const name of [...state.executions.map(execution => execution.toolName), ...pendingCalls.map(call => call.name)]) {
+                counts.set(name, (counts.get(name) ?? 0) + 1);
+            }
+            for (const [name, count] of counts) {
+                const limit = typeof policy.maxCallsPerTool === 'number' ? policy.maxCallsPerTool : policy.maxCallsPerTool[name];
+                if (limit !== undefined && count > limit) {
+                    return {
+                        reason: 'maxCallsPerTool',
+                        message: `Tool ${name} reached its limit of ${limit} calls`,
+                        toolName: name
+                    };
+                }
+            }
+        }
+    }
+
+    const elapsedMs = Date.now() - state.startedAt;
+    if (policy.maxDurationMs !== undefined && elapsedMs >= policy.maxDurationMs) {
+        return { reason: 'maxDuration', message: `Tool loop ran for ${elapsedMs}ms, the limit is ${policy.maxDurationMs}ms` };
+    }
+    if (policy.maxCostUsd !== undefined && state.costUsd >= policy.maxCostUsd) {
+        return { reason: 'maxCost', message: `Tool loop cost $${state.costUsd.toFixed(6)}, the limit is $${policy.maxCostUsd}` };
+    }
+    if (!pendingCalls && policy.stopWhen?.(state.executions)) {
+        return { reason: 'stopWhen', message: 'The stopWhen condition was met' };
+    }
+    return undefined;
+}
+
+/** Content of the tool message for a call that did not run because the loop was stopped. */
+export function formatStoppedToolCall(stop: ToolLoopStop): string {
+    return `Tool call not run: ${stop.message}. Answer with the information you have.`;
+}
+
+/** Instruction for the final answer after the loop was stopped. */
+export function formatToolLoopStopInstruction(stop: ToolLoopStop): string {
+    return `Tool use has been stopped: ${stop.message}. Do not call tools; answer with the information you have.`;
+}
+
+function callKey(name: string, args: Record<string, unknown> | undefined): string {
+    return `${name}:${JSON.stringify(args ?? {})}`;
+}
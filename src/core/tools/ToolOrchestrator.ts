@@ -4,10 +4,22 @@ import type { UniversalChatResponse, UniversalMessage, UniversalChatParams, Univ
 import { ToolError, ToolIterationLimitError } from '../../types/tooling.ts';
 import { StreamController } from '../streaming/StreamController.ts';
 import { logger } from '../../utils/logger.ts';
-import { type ToolCall, type ToolDefinition, ToolNotFoundError } from '../../types/tooling.ts';
+import {
+    type ToolApprovalHandler,
+    type ToolCall,
+    type ToolDefinition,
+    type ToolLoopPolicy,
+    type ToolLoopStop,
+    type ToolProgressHandler,
+    ToolLoopStoppedError,
+    ToolNotFoundError
+} from '../../types/tooling.ts';
 import { HistoryManager } from '../history/HistoryManager.ts';
 import { MCPServiceAdapter } from '../mcp/MCPServiceAdapter.ts';
 import type { CallExecutionContext } from '../execution/CallExecutionContext.ts';
+import type { BudgetGuard } from '../budget/BudgetTracker.ts';
+import { formatEditedToolResult } from './ToolApproval.ts';
+import { checkToolLoopPolicy, createToolLoopState, formatStoppedToolCall, type ToolLoopState } from './ToolLoopGuard.ts';
 
 // Type to track called tools with their arguments
 type CalledTool = {
@@ -17,6 +29,7 @@ type CalledTool = {
 };
 
 const CALLED_TOOLS_CONTEXT_KEY = Symbol('calledTools');
+const TOOL_LOOP_CONTEXT_KEY = Symbol('toolLoopState');
 
 
 /**
@@ -43,6 +56,8 @@ const CALLED_TOOLS_CONTEXT_KEY = Symbol('calledTools');
 export class ToolOrchestrator {
     // Track which tools have been called to prevent duplicate calls
     private calledTools: CalledTool[] = [];
+    // Progress of the tool loop, for its ToolLoopPolicy
+    private loopState: ToolLoopState = createToolLoopState();
 
     /**
      * Creates a new ToolOrchestrator instance
@@ -69,6 +84,7 @@ export class ToolOrchestrator {
      */
     public resetCalledTools(): void {
         this.calledTools = [];
+        this.loopState = createToolLoopState();
         logger.debug('Called tools tracking reset');
     }
 
@@ -78,15 +94,34 @@ export class ToolOrchestrator {
      * @param response - The response that may contain tool calls
      * @param callSpecificTools - Optional list of tools passed specifically for this call.
      * @param mcpAdapterProvider - Function to get the MCPServiceAdapter instance.
+     * @param context - Execution context of the call, for cancellation and iteration state.
+     * @param onToolApproval - Decides on calls of tools that require approval.
+     * @param onToolProgress - Receives the progress reports of running MCP tool calls.
+     * @param loopPolicy - Limits for the tool loop. A tripped policy is reported as `loopStop`;
+     *   its calls get tool messages that say they did not run.
+     * @param budgetGuard - Budgets of the call, charged for summaries of oversized tool results.
      * @returns Object containing whether resubmission is required and the tool calls found
+     * @throws {ToolLoopStoppedError} When the policy trips and its `onStop` is 'throw'.
      */
     public async processToolCalls(
         response: UniversalChatResponse,
         callSpecificTools?: ToolDefinition[],
         mcpAdapterProvider?: () => MCPServiceAdapter | null,
-        context?: CallExecutionContext
-    ): Promise<{ requiresResubmission: boolean; newToolCalls: number }> {
+        context?: CallExecutionContext,
+        onToolApproval?: ToolApprovalHandler,
+        onToolProgress?: ToolProgressHandler,
+        loopPolicy?: ToolLoopPolicy,
+        budgetGuard?: BudgetGuard
+    ): Promise<{ requiresResubmission: boolean; newToolCalls: number; loopStop?: ToolLoopStop }> {
         const calledTools = context?.getOrCreate<CalledTool[]>(CALLED_TOOLS_CONTEXT_KEY, () => []) ?? this.calledTools;
+        const loopState = context?.getOrCreate(TOOL_LOOP_CONTEXT_KEY, createToolLoopState) ?? this.loopState;
+        loopState.costUsd += response.metadata?.usage?.costs?.total ?? 0;
+        const stopBeforeCalls = response.toolCalls?.length
+            ? checkToolLoopPolicy(loopPolicy, loopState, response.toolCalls)
+            : undefined;
+        if (stopBeforeCalls) {
+            return this.stopToolLoop(stopBeforeCalls, loopPolicy, loopState, response.toolCalls ?? []);
+        }
         // Reset iteration count at the beginning of each tool processing session
         this.toolController.resetIterationCount();
 
@@ -134,7 +169,10 @@ export class ToolOrchestrator {
             response,
             callSpecificTools,
             mcpAdapter,
-            context
+            context,
+            onToolApproval,
+            onToolProgress,
+            budgetGuard
         );
 
         // If no tool calls were found or processed, return early
@@ -166,14 +204,20 @@ export class ToolOrchestrator {
                         ? call.result
                         : JSON.stringify(call.result);
 
-                    this.historyManager.addMessage('tool', resultContentString, {
+                    this.historyManager.addMessage('tool', call.approval === 'edit'
+                        ? formatEditedToolResult(call.arguments, resultContentString)
+                        : resultContentString, {
                         toolCallId: call.id,
-                        name: call.toolName
+                        name: call.toolName,
+                        // Reduced results keep the full output for the caller
+                        ...(call.resultReduction ? {
+                            metadata: { originalToolResult: call.originalResult, toolResultReduction: call.resultReduction }
+                        } : {})
                     });
                     logger.debug(`Added tool result for ${call.toolName} with ID ${call.id}`);
                 } else if (call.error) {
-                    // Handle error case (error should already be a string)
-                    const errorMessage = call.error.startsWith('Error executing tool')
+                    // Handle error case (error should already be a string); denials and invalid arguments are not execution errors
+                    const errorMessage = call.approval === 'deny' || call.validationErrors || call.error.startsWith('Error executing tool')
                         ? call.error
                         : `Error executing tool ${call.toolName}: ${call.error}`;
 
@@ -196,10 +240,42 @@ export class ToolOrchestrator {
             }
         } catch { /* ignore */ }
 
+        loopState.executions.push(...toolResult.toolCalls.map(call => ({
+            id: call.id,
+            toolName: call.toolName,
+            arguments: call.arguments,
+            ...(call.result !== undefined ? { result: call.result } : {}),
+            ...(call.error !== undefined ? { error: call.error } : {})
+        })));
+        const stopAfterCalls = checkToolLoopPolicy(loopPolicy, loopState);
+        if (stopAfterCalls) {
+            return { ...this.stopToolLoop(stopAfterCalls, loopPolicy, loopState, []), newToolCalls: newToolCallsCount };
+        }
+
         return {
             requiresResubmission: toolResult.requiresResubmission,
             newToolCalls: newToolCallsCount
         };
     }
 
+    /**
+     * Applies the policy's `onStop` action. Calls that did not run get a tool message saying so,
+     * so the history stays valid for the final answer or a later call.
+     */
+    private stopToolLoop(
+        stop: ToolLoopStop,
+        loopPolicy: ToolLoopPolicy | undefined,
+        loopState: ToolLoopState,
+        pendingCalls: ToolCall[]
+    ): { requiresResubmission: boolean; newToolCalls: number; loopStop: ToolLoopStop } {
+        logger.warn(`Tool loop stopped: ${stop.message}`, { reason: stop.reason, onStop: loopPolicy?.onStop ?? 'answer' });
+        if (loopPolicy?.onStop === 'throw') {
+            throw new ToolLoopStoppedError(stop, [...loopState.executions]);
+        }
+        for (const call of pendingCalls) {
+            if (call.id) this.historyManager.addMessage('tool', formatStoppedToolCall(stop), { toolCallId: call.id });
+        }
+        return { requiresResubmission: loopPolicy?.onStop !== 'return', newToolCalls: 0, loopStop: stop };
+    }
+
 }
@@ -0,0 +1,124 @@
+import type { ToolDefinition, ToolResultPolicy } from '../../types/tooling.ts';
+import { BudgetExceededError, type BudgetGuard } from '../budget/BudgetTracker.ts';
+import type { CallExecutionContext } from '../execution/CallExecutionContext.ts';
+import { isLLMCancellationError } from '../execution/errors.ts';
+import type { TokenCalculator } from '../models/TokenCalculator.ts';
+import { DataSplitter } from '../processors/DataSplitter.ts';
+import { logger } from '../../utils/logger.ts';
+
+export const DEFAULT_TOOL_RESULT_SUMMARY_MODEL = 'cheap';
+
+/**
+ * Writes a summary of at most `maxTokens` tokens of a tool result with `model`, charged to
+ * `budgetGuard`, the budgets of the call that ran the tool.
+ */
+export type ToolResultSummarizer = (
+    request: { toolName: string; content: string; maxTokens: number; model: string; budgetGuard?: BudgetGuard },
+    context?: CallExecutionContext
+) => Promise<string>;
+
+/** How a tool result was reduced; stored in the tool message's `metadata.toolResultReduction`. */
+export type ToolResultReduction = {
+    strategy: NonNullable<ToolResultPolicy['strategy']>;
+    originalTokens: number;
+    tokens: number;
+    /** Number of parts the result was split into, for 'split'. */
+    parts?: number;
+};
+
+/**
+ * Merges the tool's policy over the caller's. Returns undefined when no limit applies.
+ */
+export function resolveToolResultPolicy(tool: ToolDefinition, policy?: ToolResultPolicy): ToolResultPolicy | undefined {
+    const merged = { ...policy, ...tool.resultPolicy };
+    return merged.maxResultTokens !== undefined && merged.maxResultTokens > 0 ? merged : undefined;
+}
+
+/**
+ * Reduces a tool result that exceeds the policy's `maxResultTokens`. Returns undefined when the
+ * result fits. A summary that fails is replaced by a truncated result, unless it exceeds a budget.
+ */
+export async function reduceToolResult(
+    tool: ToolDefinition,
+    content: string,
+    options: {
+        policy?: ToolResultPolicy;
+        tokenCalculator: TokenCalculator;
+        summarize?: ToolResultSummarizer;
+        context?: CallExecutionContext;
+        budgetGuard?: BudgetGuard;
+    }
+): Promise<{ content: string; reduction: ToolResultReduction } | undefined> {
+    const policy = resolveToolResultPolicy(tool, options.policy);
+    if (!policy) return undefined;
+    const { tokenCalculator } = options;
+    const maxTokens = policy.maxResultTokens as number;
+    const originalTokens = tokenCalculator.calculateTokens(content);
+    if (originalTokens <= maxTokens) return undefined;
+
+    const log = logger.createLogger({ prefix: 'ToolResultPolicy.reduceToolResult' });
+    const strategy = policy.strategy === 'summarize' && !options.summarize ? 'truncate' : policy.strategy ?? 'truncate';
+    const fit = (text: string, notice: string) => {
+        const kept = truncateToTokens(text, Math.max(0, maxTokens - tokenCalculator.calculateTokens(notice)), tokenCalculator);
+        return `${kept}${notice}`;
+    };
+    const done = (reduced: string, reduction: Omit<ToolResultReduction, 'originalTokens' | 'tokens'>) => ({
+        content: reduced,
+        reduction: { ...reduction, originalTokens, tokens: tokenCalculator.calculateTokens(reduced) }
+    });
+
+    // Every part is sent, so no part of the result is lost; each part is valid on its own
+    if (strategy === 'split') {
+        const chunks = await new DataSplitter(tokenCalculator).splitToTokens(parseResult(content), maxTokens);
+        const parts = chunks.map((chunk, index) => {
+            const text = typeof chunk.content === 'string' ? chunk.content : JSON.stringify(chunk.content);
+            return `[Part ${index + 1} of ${chunks.length}]\n${text}`;
+        });
+        return done(parts.join('\n\n'), { strategy, parts: chunks.length });
+    }
+
+    if (strategy === 'summarize') {
+        const header = `[Summary of a ${originalTokens}-token tool result]\n`;
+        try {
+            const summary = await options.summarize!({
+                toolName: tool.name,
+                content,
+                maxTokens: Math.max(1, maxTokens - tokenCalculator.calculateTokens(header)),
+                model: policy.summaryModel ?? DEFAULT_TOOL_RESULT_SUMMARY_MODEL,
+                ...(options.budgetGuard ? { budgetGuard: options.budgetGuard } : {})
+            }, options.context);
+            return done(fit(`${header}${summary}`, ''), { strategy });
+        } catch (error) {
+            if (isLLMCancellationError(error) || options.context?.signal.aborted) throw error;
+            // Budget errors are final for the call
+            if (error instanceof BudgetExceededError) throw error;
+            log.warn(`Summarizing the result of tool ${tool.name} failed; truncating it instead`, {
+                error: error instanceof Error ? error.message : String(error)
+            });
+        }
+    }
+
+    const notice = `\n\n[Tool result truncated from ${originalTokens} to about ${maxTokens} tokens.]`;
+    return done(fit(content, notice), { strategy: 'truncate' });
+}
+
+/** JSON results are split along their structure; anything else as text. */
+function parseResult(content: string): unknown {
+    try {
+        const parsed = JSON.parse(content);
+        return parsed !== null && typeof parsed === 'object' ? parsed : content;
+    } catch {
+        return content;
+    }
+}
+
+/** Cuts text to a prefix of at most `maxTokens` tokens. */
+function truncateToTokens(text: string, maxTokens: number, tokenCalculator: TokenCalculator): string {
+    const tokens = tokenCalculator.calculateTokens(text);
+    if (tokens <= maxTokens) return text;
+    let end = Math.floor(text.length * maxTokens / tokens);
+    while (end > 0 && tokenCalculator.calculateTokens(text.slice(0, end)) > maxTokens) {
+        end = Math.floor(end * 0.9);
+    }
+    return text.slice(0, end);
+}
@@ -0,0 +1,72 @@
+import type { ToolDefinition } from '../../types/tooling.ts';
+
+/**
+ * Builds the dependency graph of one turn's tool calls from the tools' scheduling hints.
+ * A call waits for every earlier call it conflicts with:
+ * - either call belongs to an 'exclusive' tool
+ * - both calls are of the same 'serial' tool
+ * - both tools share a `mutexGroup`
+ * @param tools - The tool of each call, in the order the model requested them; undefined for unknown tools.
+ * @returns For each call, the indexes of the earlier calls it waits for.
+ */
+export function buildToolCallDependencies(tools: (ToolDefinition | undefined)[]): number[][] {
+    return tools.map((tool, index) => {
+        const dependencies: number[] = [];
+        for (let earlier = 0; earlier < index; earlier++) {
+            if (conflicts(tools[earlier], tool)) dependencies.push(earlier);
+        }
+        return dependencies;
+    });
+}
+
+/**
+ * Runs tasks once the tasks they depend on have settled, with at most `maxConcurrency` running
+ * at a time. Results keep the order of the tasks, whatever order they finish in.
+ * @throws The first error of a task, after the tasks that started have settled.
+ */
+export async function runToolCalls<T>(
+    tasks: (() => Promise<T>)[],
+    dependencies: number[][] = [],
+    maxConcurrency: number = Infinity
+): Promise<T[]> {
+    let running = 0;
+    const queue: (() => void)[] = [];
+    const acquire = async (): Promise<void> => {
+        if (running < maxConcurrency) {
+            running++;
+            return;
+        }
+        // The releasing task hands its slot over, so `running` stays unchanged
+        await new Promise<void>(resolve => queue.push(resolve));
+    };
+    const release = (): void => {
+        const next = queue.shift();
+        if (next) next();
+        else running--;
+    };
+
+    const settled: Promise<T>[] = [];
+    tasks.forEach((task, index) => {
+        settled[index] = (async () => {
+            await Promise.allSettled((dependencies[index] ?? []).map(dependency => settled[dependency]));
+            await acquire();
+            try {
+                return await task();
+            } finally {
+                release();
+            }
+        })();
+    });
+
+    const results = await Promise.allSettled(settled);
+    const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failed) throw failed.reason;
+    return results.map(result => (result as PromiseFulfilledResult<T>).value);
+}
+
+function conflicts(earlier: ToolDefinition | undefined, later: ToolDefinition | undefined): boolean {
+    if (!earlier || !later) return false;
+    if (earlier.concurrency === 'exclusive' || later.concurrency === 'exclusive') return true;
+    if (earlier.name === later.name && later.concurrency === 'serial') return true;
+    return earlier.mutexGroup !== undefined && earlier.mutexGroup === later.mutexGroup;
+}
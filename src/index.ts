@@ -2,6 +2,26 @@
 export { LLMCaller } from './core/caller/LLMCaller.ts';
 export type { RegisteredProviders } from './adapters/index.ts';
 export type { LLMCallerOptions } from './core/caller/LLMCaller.ts';
+export { ProviderFailoverError } from './core/caller/ProviderFailover.ts';
+export type { FailoverOption, FailoverOptions, FailoverTarget } from './core/caller/ProviderFailover.ts';
+export { MemoryResponseCache } from './core/cache/MemoryResponseCache.ts';
+export type { MemoryResponseCacheOptions } from './core/cache/MemoryResponseCache.ts';
+export { FileResponseCache } from './core/cache/FileResponseCache.ts';
+export type { FileResponseCacheOptions } from './core/cache/FileResponseCache.ts';
+export { createResponseCacheKey } from './core/cache/ResponseCache.ts';
+export type { ResponseCacheEntry, ResponseCacheStore } from './core/cache/ResponseCache.ts';
+export { BudgetExceededError } from './core/budget/BudgetTracker.ts';
+export { RetryFailedError } from './core/retry/RetryManager.ts';
+export { SchemaValidationError } from './core/schema/SchemaValidator.ts';
+export type { BudgetOptions, BudgetScope, BudgetLimit } from './core/budget/BudgetTracker.ts';
+export { RateLimiterRegistry, sharedRateLimiterRegistry, parseRateLimitHeaders } from './core/ratelimit/RateLimiter.ts';
+export type {
+    RateLimitOptions,
+    RateLimitConfig,
+    RateLimitInfo,
+    RateLimitQueueEvent,
+    RateLimiterStats
+} from './core/ratelimit/RateLimiter.ts';
 
 // Universal Types
 export type {
@@ -18,13 +38,33 @@ export type {
     JSONSchemaDefinition,
     ResponseFormat,
     LLMCallOptions,
+    ResponseCacheMode,
+    ChunkReduceStrategy,
+    ChunkReduceOptions,
+    SplitStrategy,
+    SemanticSplitOptions,
+    CodeSplitOptions,
+    DeepPartial,
+    SchemaRepairOptions,
+    SchemaRepairAttempt,
+    CacheControl,
     RerankDocument,
     RerankCallOptions,
     RerankParams,
     RerankResult,
-    RerankResponse
+    RerankResponse,
+    BatchRequest,
+    BatchJob,
+    BatchJobStatus,
+    BatchResult,
+    BatchOperations
 } from './interfaces/UniversalInterfaces.ts';
-export type { LLMProviderRerank } from './interfaces/LLMProvider.ts';
+export type {
+    LLMProviderRerank,
+    LLMProviderBatch,
+    ProviderBatchRequest,
+    ProviderBatchResult
+} from './interfaces/LLMProvider.ts';
 export type { LLMExecutionControl, LLMTerminalReason } from './interfaces/ExecutionInterfaces.ts';
 export { LLMAbortError, LLMTimeoutError } from './core/execution/errors.ts';
 
@@ -56,8 +96,19 @@ export type {
     ToolParameterSchema,
     ToolChoice,
     ToolCall,
-    ToolCallResponse
+    ToolCallResponse,
+    ToolApprovalRequest,
+    ToolApprovalDecision,
+    ToolApprovalHandler,
+    ToolProgress,
+    ToolResultPolicy,
+    ToolConcurrency,
+    ToolLoopPolicy,
+    ToolLoopStop,
+    ToolExecution
 } from './types/tooling.ts';
+export { ToolArgumentValidationError, ToolLoopStoppedError } from './types/tooling.ts';
+export type { ToolArgumentValidation } from './core/tools/ToolArgumentValidator.ts';
 
 // Re-export key entities
 export { ModelManager } from './core/models/ModelManager.ts';
@@ -65,15 +116,37 @@ export { TokenCalculator } from './core/models/TokenCalculator.ts';
 export { ToolsManager } from './core/tools/ToolsManager.ts';
 export { HistoryManager } from './core/history/HistoryManager.ts';
 
+// Self-hosted OpenAI-compatible servers (Ollama, llama.cpp, vLLM): pass the models to LLMCaller's providerModels
+export {
+    discoverOpenAICompatibleModels,
+    createOpenAICompatibleModelInfo
+} from './adapters/openai-compatible/models.ts';
+export type {
+    OpenAICompatibleDiscoveryOptions,
+    OpenAICompatibleModelOverrides
+} from './adapters/openai-compatible/models.ts';
+
 /** Thrown when chunked transcription cannot run ffmpeg/ffprobe (see README Audio section). */
 export { TranscriptionFfmpegError } from './core/audio/transcriptionFfmpegError.ts';
 
 // MCP functionality (most commonly used exports)
 export { MCPServiceAdapter } from './core/mcp/MCPServiceAdapter.ts';
+export { LLMCallerMCPServer } from './core/mcp/LLMCallerMCPServer.ts';
+export type { LLMCallerMCPServerOptions, LLMCallerMCPHttpOptions, LLMCallerMCPMethod } from './core/mcp/LLMCallerMCPServer.ts';
 export type {
     MCPServerConfig,
     MCPServersMap,
     McpToolSchema,
     MCPDirectAccess,
-    MCPRequestOptions
+    MCPRequestOptions,
+    MCPSamplingConfig,
+    MCPSamplingRequest,
+    MCPSamplingDecision,
+    MCPSamplingApprovalHandler,
+    MCPElicitationSchema,
+    MCPElicitationResult,
+    MCPElicitationHandler,
+    MCPReconnectConfig,
+    MCPConnectionStateEvent,
+    MCPResourceUpdatedHandler
 } from './core/index.ts';
@@ -18,7 +18,8 @@ import type {
     TranslationResponse,
     SpeechResponse,
     RerankParams,
-    RerankResponse
+    RerankResponse,
+    BatchJob
 } from './UniversalInterfaces.ts';
 
 export type { AudioOp } from './UniversalInterfaces.ts';
@@ -117,3 +118,30 @@ export interface LLMProviderAudio {
         params: TranscriptionParams | TranslationParams | SpeechParams
     ): Promise<TranscriptionResponse | TranslationResponse | SpeechResponse>;
 }
+
+/** A request of a batch job, converted and sent like a {@link LLMProvider.chatCall} request. */
+export type ProviderBatchRequest = {
+    customId: string;
+    params: UniversalChatParams;
+};
+
+/** A provider's result for one batch request, before response validation and batch pricing. */
+export type ProviderBatchResult = {
+    customId: string;
+    response?: UniversalChatResponse;
+    error?: {
+        message: string;
+        code?: string;
+    };
+};
+
+/**
+ * Interface for providers with an asynchronous Batch API. All requests of a job use one model.
+ */
+export interface LLMProviderBatch {
+    batchSubmit(model: string, requests: ProviderBatchRequest[]): Promise<BatchJob>;
+    batchStatus(batchId: string): Promise<BatchJob>;
+    /** Results of a finished job, in no particular order */
+    batchResults(batchId: string): Promise<ProviderBatchResult[]>;
+    batchCancel(batchId: string): Promise<BatchJob>;
+}
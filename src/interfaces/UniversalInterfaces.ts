@@ -1,8 +1,12 @@
 import { z } from 'zod';
 import type { ToolCallChunk } from '../core/streaming/types.ts';
-import type { ToolDefinition, ToolCall } from '../types/tooling.ts';
+import type { ToolDefinition, ToolCall, ToolApprovalHandler, ToolLoopPolicy, ToolLoopStop, ToolProgress } from '../types/tooling.ts';
 import type { UsageCallback } from './UsageInterfaces.ts';
 import type { MCPServersMap } from '../core/mcp/MCPConfigTypes.ts';
+import type { FailoverOption } from '../core/caller/ProviderFailover.ts';
+import type { BudgetGuard, BudgetOptions } from '../core/budget/BudgetTracker.ts';
+import type { RateLimitInfo } from '../core/ratelimit/RateLimiter.ts';
+import type { MCPSamplingTelemetry } from '../core/telemetry/collector/types.ts';
 
 // Finish reason enum based on OpenAI's finish reasons
 export enum FinishReason {
@@ -78,9 +82,22 @@ export type UniversalMessage = {
             arguments: string;  // JSON-encoded argument object
         };
     } | ToolCall>;
+    /**
+     * Marks this message as the end of a reusable prompt prefix. Providers with prompt caching
+     * cache everything up to and including this message; others ignore the hint.
+     */
+    cacheControl?: boolean | CacheControl;
     metadata?: Record<string, unknown>;
 };
 
+/**
+ * Provider-side prompt caching hint for messages and tool definitions.
+ * `ttl` asks for a longer-lived cache where the provider supports one.
+ */
+export type CacheControl = {
+    ttl?: '5m' | '1h';
+};
+
 // Define JSONSchemaDefinition and ResponseFormat before they are used
 export type JSONSchemaDefinition = string | z.ZodType;
 export type ResponseFormat = 'json' | 'text' | { type: 'json_object' };
@@ -88,6 +105,15 @@ export type ResponseFormat = 'json' | 'text' | { type: 'json_object' };
 // Define the history mode type
 export type HistoryMode = 'full' | 'dynamic' | 'stateless';
 
+/**
+ * How a single call uses the LLMCaller response cache.
+ * - omitted: serve hits, and store the provider response on a miss
+ * - `'read'`: serve hits, never store
+ * - `'write'`: always call the provider and overwrite the stored entry
+ * - `'bypass'`: neither read nor write
+ */
+export type ResponseCacheMode = 'read' | 'write' | 'bypass';
+
 /**
  * Specifies how JSON responses should be handled
  */
@@ -293,6 +319,11 @@ export type LLMCallOptions = {
      * Maximum number of characters allowed per chunk (for splitting)
      */
     maxCharsPerChunk?: number;
+    /**
+     * How a `data` string that needs splitting is split into chunks.
+     * @default 'auto'
+     */
+    splitStrategy?: SplitStrategy | SemanticSplitOptions | CodeSplitOptions;
     /**
      * Maximum number of chunk iterations allowed
      */
@@ -302,6 +333,116 @@ export type LLMCallOptions = {
      * @default 5
      */
     maxParallelRequests?: number;
+    /**
+     * Failover chain used when the selected provider keeps failing after retries.
+     * Overrides the LLMCaller-level `failover` option; pass `false` to disable it for this call.
+     * Calls whose `data` is split into several chunks do not fail over.
+     */
+    failover?: FailoverOption | false;
+    /**
+     * How this call uses the LLMCaller `responseCache`. By default hits are served and
+     * misses are stored. Has no effect when no cache is configured.
+     */
+    cache?: ResponseCacheMode;
+    /**
+     * Spending limit for this call, including its tool loop and chunks. Applies in addition
+     * to the LLMCaller-level `budget`.
+     */
+    budget?: BudgetOptions;
+    /**
+     * Decides on model-requested calls of tools with `requiresApproval`.
+     * Overrides the LLMCaller-level `onToolApproval`.
+     */
+    onToolApproval?: ToolApprovalHandler;
+    /**
+     * Limits for this call's tool loop. Its fields override the LLMCaller-level `toolLoopPolicy`.
+     */
+    toolLoopPolicy?: ToolLoopPolicy;
+    /**
+     * Merges the responses of a call whose `data` was split into chunks, so that call()
+     * returns a single response. Without it, call() returns one response per chunk.
+     */
+    reduce?: ChunkReduceStrategy | ChunkReduceOptions;
+    /**
+     * Validates the completed top-level fields of each streamed partialObject against the
+     * `jsonSchema`. Errors are reported in the chunk's `metadata.validationErrors`.
+     */
+    validatePartialObject?: boolean;
+    /**
+     * Re-prompts the model with the validation errors and its previous output when call()
+     * returns JSON that does not match the `jsonSchema`, instead of retrying the request
+     * unchanged. `true` uses the defaults.
+     */
+    schemaRepair?: boolean | SchemaRepairOptions;
+};
+
+export type SchemaRepairOptions = {
+    /** Repair requests after the first response. @default 2 */
+    maxAttempts?: number;
+    /** Model name or preset (e.g. 'cheap') for the repair requests. Defaults to the call's model. */
+    model?: string;
+};
+
+/** A response that failed the `jsonSchema` and was sent back for repair. */
+export type SchemaRepairAttempt = {
+    /** 0 for the first response, then the number of the repair request */
+    attempt: number;
+    model: string;
+    validationErrors: Array<{ message: string; path: (string | number)[] }>;
+};
+
+/**
+ * How a `data` string is split into chunks when it does not fit into one request:
+ * - 'auto': Along functions and classes for detected source code, along markdown sections,
+ *   or along sentences for plain text
+ * - 'semantic': At topic boundaries between sentences, found with the caller's `embeddings()`
+ * - 'code': Along functions, classes and top-level statements
+ * Arrays and objects are always split by their structure.
+ */
+export type SplitStrategy = 'auto' | 'semantic' | 'code';
+
+export type SemanticSplitOptions = {
+    strategy: 'semantic';
+    /** Embedding model for the sentences. Defaults to the model `embeddings()` resolves. */
+    embeddingModel?: string;
+    /**
+     * A topic boundary is placed after a sentence when the distance to the next sentence is above
+     * this percentile of all distances between neighbouring sentences. @default 90
+     */
+    breakpointPercentile?: number;
+    /** Tokens from the end of each chunk repeated at the start of the next one. @default 0 */
+    overlapTokens?: number;
+};
+
+export type CodeSplitOptions = {
+    strategy: 'code';
+    /**
+     * Language of the code: 'typescript', 'javascript' or 'python' (or 'ts', 'js', 'py').
+     * Detected from the content when omitted; other languages are split along lines.
+     */
+    language?: string;
+    /** File name, used as the first element of each chunk's path */
+    fileName?: string;
+};
+
+/**
+ * How the responses of a chunked call are merged into one:
+ * - 'concat': Join the chunk answers' text
+ * - 'json-merge-arrays': Concatenate the arrays of the JSON answers; other fields keep the first value
+ * - 'deep-merge': Merge the JSON answers along the `jsonSchema`: arrays are concatenated without
+ *   duplicates, objects are merged per property and other values keep the first value
+ * - 'llm': Ask the model to combine the answers, in rounds of `fanIn` answers
+ */
+export type ChunkReduceStrategy = 'concat' | 'json-merge-arrays' | 'deep-merge' | 'llm';
+
+export type ChunkReduceOptions = {
+    strategy: ChunkReduceStrategy;
+    /** Text between the chunk answers for 'concat'. @default '\n\n' */
+    separator?: string;
+    /** Number of answers one combine request merges for 'llm'. @default 5 */
+    fanIn?: number;
+    /** Additional instructions for the combine requests of 'llm'. */
+    instructions?: string;
 };
 
 export type UniversalChatParams = {
@@ -321,6 +462,20 @@ export type UniversalChatParams = {
     systemMessage?: string;
     // Include historyMode as it needs to be passed down to controllers
     historyMode?: HistoryMode;
+    /** Response cache mode for this call. Read by the controllers and not sent to providers. */
+    cache?: ResponseCacheMode;
+    /** Budgets enforced for this request and its tool loop. Read by the controllers and not sent to providers. */
+    budgetGuard?: BudgetGuard;
+    /** Approval handler for the tool loop. Read by the controllers and not sent to providers. */
+    toolApproval?: ToolApprovalHandler;
+    /** Limits for the tool loop. Read by the controllers and not sent to providers. */
+    toolLoopPolicy?: ToolLoopPolicy;
+    /** Origin of an MCP sampling request, for telemetry. Read by the controllers and not sent to providers. */
+    mcpSampling?: MCPSamplingTelemetry;
+    /** Validate the completed fields of streamed partial objects. Read by StreamHandler and not sent to providers. */
+    validatePartialObject?: boolean;
+    /** Repair of responses that fail the jsonSchema. Read by ChatController and not sent to providers. */
+    schemaRepair?: { maxAttempts: number };
     /**
      * Batch size for incremental usage callbacks. Default applied by StreamHandler when callback provided.
      */
@@ -352,6 +507,8 @@ export type Usage = {
         input: {
             total: number;
             cached: number;
+            /** What the cached input tokens would have cost at the regular input price, minus what they cost */
+            cacheSavings?: number;
             /** Cost attributable to audio input processing */
             audio?: number;
         },
@@ -400,6 +557,8 @@ export type Usage = {
 export type ProcessingInfo = {
     currentChunk: number;
     totalChunks: number;
+    /** Strategy that merged the chunk responses into this response. */
+    reducedWith?: ChunkReduceStrategy;
 };
 
 export type Metadata = {
@@ -427,6 +586,13 @@ export type Metadata = {
             rejected?: boolean;
             rejectionReasons?: string[];
         }>;
+        /** Failed or skipped targets that preceded `selected`, in order. Present only when a failover happened. */
+        failover?: Array<{
+            provider: string;
+            model: string;
+            outcome: 'failed' | 'skipped';
+            error?: string;
+        }>;
     };
     jsonSchemaUsed?: JSONSchemaDefinition;
     isGenerated?: boolean;
@@ -440,11 +606,28 @@ export type Metadata = {
     jsonRepaired?: boolean;
     originalContent?: string;
     rawUsage?: Record<string, number>;
-    toolStatus?: 'running' | 'complete' | 'error';
+    /**
+     * 'awaiting_approval' marks a stream chunk whose tool call waits for `onToolApproval`;
+     * 'running' with `toolProgress` marks a progress report of a running tool call.
+     */
+    toolStatus?: 'running' | 'complete' | 'error' | 'awaiting_approval';
     toolName?: string;
     toolId?: string;
+    toolProgress?: ToolProgress;
+    toolArguments?: Record<string, unknown>;
     toolResult?: string;
     toolError?: string;
+    /**
+     * Set when a ToolLoopPolicy stopped the tool loop. With `onStop: 'return'`, `transcript`
+     * holds the messages of the loop up to the stop.
+     */
+    toolLoopStop?: ToolLoopStop & { transcript?: UniversalMessage[] };
+    /** Responses that failed the `jsonSchema` and were repaired with `schemaRepair`, oldest first. */
+    schemaRepair?: { attempts: SchemaRepairAttempt[] };
+    /** Whether the response was served from the LLMCaller response cache. Absent when no cache is configured. */
+    cache?: 'hit' | 'miss';
+    /** Rate-limit state from the provider's response headers, when the adapter reports it. */
+    rateLimit?: RateLimitInfo;
     stream?: boolean; // Added to support stream indication in metadata
     // Video job information (for async video generation)
     videoJobId?: string;
@@ -500,6 +683,13 @@ export interface UniversalChatResponse<T = unknown> {
 }
 
 // Universal interface for streaming response
+/**
+ * A value of which any field, at any depth, may be missing
+ */
+export type DeepPartial<T> = T extends (infer U)[]
+    ? DeepPartial<U>[]
+    : T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T;
+
 export interface UniversalStreamResponse<T = unknown> {
     /**
      * The content of the current chunk being streamed.
@@ -534,6 +724,18 @@ export interface UniversalStreamResponse<T = unknown> {
      */
     contentObject?: T;
 
+    /**
+     * The JSON parsed so far, for JSON responses. Unfinished strings, arrays and objects are
+     * closed; unfinished keys, numbers, booleans and nulls are left out.
+     */
+    partialObject?: DeepPartial<T>;
+
+    /**
+     * Keys of the top-level object, or indexes of the top-level array, whose values in
+     * partialObject are complete. Present with partialObject.
+     */
+    completedFields?: string[];
+
     /**
      * Generated image data, if the model was asked to generate an image.
      * Only present if output.image was requested and isComplete is true.
@@ -772,6 +974,14 @@ export type ModelInfo = {
     outputPricePerMillion: number;
     /** Price per million tokens for image output (if different from text) */
     imageOutputPricePerMillion?: number;
+    /**
+     * Multipliers applied to the token prices of requests sent through the provider's Batch API,
+     * e.g. 0.5 for half price. Batch requests are priced at the regular prices when omitted.
+     */
+    batchPricing?: {
+        inputFactor: number;
+        outputFactor: number;
+    };
     /** Price per second for video generation if applicable */
     videoPricePerSecond?: number;
     /** Price per generated image (e.g. DALL-E) */
@@ -938,6 +1148,8 @@ export type EmbeddingCallOptions = {
     usageCallback?: UsageCallback;
     /** Batch size for usage callbacks when processing multiple inputs */
     usageBatchSize?: number;
+    /** Abort this operation. The signal is runtime-only and is not sent in provider payloads. */
+    signal?: AbortSignal;
 };
 
 export type RerankDocument =
@@ -982,6 +1194,68 @@ export type RerankResponse = {
     metadata?: Metadata;
 };
 
+/**
+ * One request of a provider Batch API job. Batch requests are stateless: each is sent with the
+ * caller's system message and none of its history, and tools are not available.
+ */
+export type BatchRequest = Pick<
+    LLMCallOptions,
+    'text' | 'data' | 'endingMessage' | 'settings' | 'jsonSchema' | 'responseFormat'
+> & {
+    /** Identifies the request's result. Defaults to `request-<index>`. */
+    customId?: string;
+};
+
+export type BatchJobStatus =
+    | 'queued'
+    | 'in_progress'
+    | 'finalizing'
+    | 'completed'
+    | 'failed'
+    | 'expired'
+    | 'cancelling'
+    | 'cancelled';
+
+export type BatchJob = {
+    id: string;
+    provider: string;
+    model: string;
+    status: BatchJobStatus;
+    requestCounts: {
+        total: number;
+        completed: number;
+        failed: number;
+    };
+    /** Unix timestamps in milliseconds */
+    createdAt?: number;
+    completedAt?: number;
+    /** Why the job failed, for failed jobs */
+    error?: string;
+};
+
+export type BatchResult<T = unknown> = {
+    customId: string;
+    /** The parsed response, with its usage priced at the model's batch prices. */
+    response?: UniversalChatResponse<T>;
+    /** Set when the provider failed the request or its response could not be parsed or validated. */
+    error?: {
+        message: string;
+        code?: string;
+    };
+};
+
+/** Batch API jobs of an LLMCaller's provider and model, available as `caller.batch`. */
+export type BatchOperations = {
+    submit(requests: BatchRequest[]): Promise<BatchJob>;
+    status(batchId: string): Promise<BatchJob>;
+    /**
+     * Results of a completed job. Jobs submitted by this caller are validated against their
+     * requests; for other jobs, pass the original requests to validate their results.
+     */
+    results(batchId: string, requests?: BatchRequest[]): Promise<BatchResult[]>;
+    cancel(batchId: string): Promise<BatchJob>;
+};
+
 /** Operations routed through {@link LLMProviderAudio.audioCall}. */
 export type AudioOp = 'transcribe' | 'translate' | 'synthesize';
 
@@ -0,0 +1,167 @@
+import { jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AnthropicAdapter } from '@/adapters/anthropic/adapter.ts';
+import { AnthropicAdapterError, AnthropicRateLimitError } from '@/adapters/anthropic/errors.ts';
+import { adapterRegistry, getRegisteredProviders } from '@/adapters/index.ts';
+import { ModelManager } from '@/core/models/ModelManager.ts';
+import { getRateLimitInfoFromError } from '@/core/ratelimit/RateLimiter.ts';
+import { FinishReason, type UniversalStreamResponse } from '@/interfaces/UniversalInterfaces.ts';
+
+const FIXTURES = path.resolve('src/tests/unit/adapters/anthropic/fixtures');
+
+describe('AnthropicAdapter registration and configuration', () => {
+    const originalKey = process.env.ANTHROPIC_API_KEY;
+
+    afterEach(() => {
+        if (originalKey === undefined) delete process.env.ANTHROPIC_API_KEY;
+        else process.env.ANTHROPIC_API_KEY = originalKey;
+    });
+
+    it('is registered and exposes its model catalog', () => {
+        expect(getRegisteredProviders()).toContain('anthropic');
+        expect(adapterRegistry.get('anthropic')).toBe(AnthropicAdapter);
+        expect(new ModelManager('anthropic').getAvailableModels()).toEqual(
+            expect.arrayContaining([
+                expect.objectContaining({ name: 'claude-sonnet-4-5' })
+            ])
+        );
+    });
+
+    it('reads ANTHROPIC_API_KEY', () => {
+        process.env.ANTHROPIC_API_KEY = 'test-key';
+        expect(() => new AnthropicAdapter()).not.toThrow();
+    });
+
+    it('fails clearly when no API key is available', () => {
+        delete process.env.ANTHROPIC_API_KEY;
+        expect(() => new AnthropicAdapter()).toThrow(AnthropicAdapterError);
+        expect(() => new AnthropicAdapter()).toThrow('ANTHROPIC_API_KEY');
+    });
+});
+
+describe('AnthropicAdapter transport', () => {
+    let fetchMock: jest.SpiedFunction<typeof fetch>;
+
+    beforeEach(() => {
+        fetchMock = jest.spyOn(globalThis, 'fetch');
+    });
+
+    afterEach(() => {
+        fetchMock.mockRestore();
+    });
+
+    it('posts to the Messages API with Anthropic headers and maps the response', async () => {
+        fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({
+            id: 'msg_1',
+            type: 'message',
+            role: 'assistant',
+            model: 'claude-haiku-4-5-20251001',
+            content: [{ type: 'text', text: 'Hi!' }],
+            stop_reason: 'end_turn',
+            usage: { input_tokens: 10, output_tokens: 2 }
+        }), { status: 200, headers: { 'content-type': 'application/json' } }));
+        const adapter = new AnthropicAdapter({ apiKey: 'test-key', baseUrl: 'https://proxy.test/v1' });
+
+        const response = await adapter.chatCall('claude-haiku-4-5', {
+            model: 'claude-haiku-4-5',
+            messages: [
+                { role: 'system', content: 'Be brief.' },
+                { role: 'user', content: 'Hello' }
+            ]
+        });
+
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe('https://proxy.test/v1/messages');
+        expect(init?.headers).toMatchObject({
+            'x-api-key': 'test-key',
+            'anthropic-version': '2023-06-01'
+        });
+        expect(JSON.parse(String(init?.body))).toMatchObject({
+            model: 'claude-haiku-4-5',
+            system: [{ type: 'text', text: 'Be brief.' }],
+            messages: [{ role: 'user', content: [{ type: 'text', text: 'Hello' }] }],
+            stream: false
+        });
+        expect(response).toMatchObject({
+            content: 'Hi!',
+            metadata: { finishReason: FinishReason.STOP, provider: 'anthropic' }
+        });
+        expect(response.metadata?.usage?.costs.total).toBeCloseTo((10 * 1 + 2 * 5) / 1_000_000);
+    });
+
+    it('replays a recorded SSE body through streamCall', async () => {
+        fetchMock.mockResolvedValueOnce(new Response(
+            fs.readFileSync(path.join(FIXTURES, 'tool-use.sse'), 'utf8'),
+            { status: 200, headers: { 'content-type': 'text/event-stream' } }
+        ));
+        const adapter = new AnthropicAdapter('test-key');
+
+        const stream = await adapter.streamCall('claude-haiku-4-5', {
+            model: 'claude-haiku-4-5',
+            messages: [{ role: 'user', content: 'Weather in Paris?' }]
+        });
+        const chunks: UniversalStreamResponse[] = [];
+        for await (const chunk of stream) chunks.push(chunk);
+
+        expect(JSON.parse(String(fetchMock.mock.calls[0][1]?.body)).stream).toBe(true);
+        expect(chunks.at(-1)?.toolCalls).toEqual([{
+            id: 'toolu_01WeatherCall',
+            name: 'get_weather',
+            arguments: { location: 'Paris', unit: 'celsius' }
+        }]);
+    });
+
+    it('maps HTTP errors to typed adapter errors with retry-after', async () => {
+        fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({
+            type: 'error',
+            error: { type: 'rate_limit_error', message: 'Number of request tokens has exceeded your per-minute rate limit' }
+        }), { status: 429, headers: { 'retry-after': '12' } }));
+        const adapter = new AnthropicAdapter('test-key');
+
+        const error = await adapter.chatCall('claude-haiku-4-5', {
+            model: 'claude-haiku-4-5',
+            messages: [{ role: 'user', content: 'Hello' }]
+        }).catch(err => err);
+
+        expect(error).toBeInstanceOf(AnthropicRateLimitError);
+        expect(error.retryAfter).toBe(12);
+    });
+
+    it('attaches every response header to HTTP errors', async () => {
+        fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({
+            type: 'error',
+            error: { type: 'rate_limit_error', message: 'Rate limited' }
+        }), {
+            status: 429,
+            headers: {
+                'retry-after': '3',
+                'anthropic-ratelimit-requests-limit': '50',
+                'anthropic-ratelimit-requests-remaining': '0',
+                'anthropic-ratelimit-tokens-remaining': '1200',
+                'request-id': 'req_123'
+            }
+        }));
+        const adapter = new AnthropicAdapter('test-key');
+
+        const error = await adapter.chatCall('claude-haiku-4-5', {
+            model: 'claude-haiku-4-5',
+            messages: [{ role: 'user', content: 'Hello' }]
+        }).catch(err => err);
+
+        expect(error).toBeInstanceOf(AnthropicRateLimitError);
+        expect(error.headers).toMatchObject({
+            'retry-after': '3',
+            'anthropic-ratelimit-requests-limit': '50',
+            'anthropic-ratelimit-requests-remaining': '0',
+            'anthropic-ratelimit-tokens-remaining': '1200',
+            'request-id': 'req_123'
+        });
+        expect(getRateLimitInfoFromError(error)).toMatchObject({
+            requestLimit: 50,
+            requestsRemaining: 0,
+            tokensRemaining: 1200,
+            retryAfterMs: 3000
+        });
+    });
+});
@@ -0,0 +1,225 @@
+import { ModelManager } from '@/core/models/ModelManager.ts';
+import { FinishReason, type UniversalChatParams } from '@/interfaces/UniversalInterfaces.ts';
+import { AnthropicConverter } from '@/adapters/anthropic/converter.ts';
+
+const createParams = (): UniversalChatParams => ({
+    model: 'claude-sonnet-4-5',
+    messages: [
+        { role: 'system', content: 'Be concise.' },
+        { role: 'user', content: 'What is the weather in Riga and Oslo?' },
+        {
+            role: 'assistant',
+            content: '',
+            toolCalls: [
+                { id: 'toolu_1', name: 'get_weather', arguments: { city: 'Riga' } },
+                { id: 'toolu_2', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Oslo"}' } }
+            ],
+            metadata: {
+                providerState: {
+                    anthropic: {
+                        thinking: [{ type: 'thinking', thinking: 'Need both cities.', signature: 'sig_1' }]
+                    }
+                }
+            }
+        },
+        { role: 'tool', content: '{"temperature":20}', toolCallId: 'toolu_1' },
+        { role: 'tool', content: '{"temperature":12}', toolCallId: 'toolu_2' }
+    ],
+    settings: {
+        temperature: 0.2,
+        maxTokens: 1024,
+        stop: 'DONE',
+        user: 'test-user',
+        toolChoice: { type: 'function', function: { name: 'get_weather' } },
+        providerOptions: {
+            anthropic: {
+                top_k: 40,
+                cacheControl: { ttl: '1h' }
+            }
+        }
+    },
+    tools: [{
+        name: 'get_weather',
+        description: 'Get weather',
+        parameters: {
+            type: 'object',
+            properties: {
+                city: { type: 'string', minLength: 2 }
+            },
+            required: ['city']
+        }
+    }]
+});
+
+describe('AnthropicConverter', () => {
+    const converter = new AnthropicConverter(new ModelManager('anthropic'));
+
+    it('lifts system prompts and maps tool turns, thinking replay and settings', async () => {
+        const result = await converter.convertToProviderParams('claude-sonnet-4-5', createParams());
+
+        expect(result).toMatchObject({
+            model: 'claude-sonnet-4-5',
+            stream: false,
+            temperature: 0.2,
+            max_tokens: 1024,
+            stop_sequences: ['DONE'],
+            metadata: { user_id: 'test-user' },
+            tool_choice: { type: 'tool', name: 'get_weather' },
+            top_k: 40,
+            system: [{ type: 'text', text: 'Be concise.', cache_control: { type: 'ephemeral', ttl: '1h' } }]
+        });
+        expect(result).not.toHaveProperty('cacheControl');
+        expect(result.messages).toEqual([
+            { role: 'user', content: [{ type: 'text', text: 'What is the weather in Riga and Oslo?' }] },
+            {
+                role: 'assistant',
+                content: [
+                    { type: 'thinking', thinking: 'Need both cities.', signature: 'sig_1' },
+                    { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Riga' } },
+                    { type: 'tool_use', id: 'toolu_2', name: 'get_weather', input: { city: 'Oslo' } }
+                ]
+            },
+            {
+                role: 'user',
+                content: [
+                    { type: 'tool_result', tool_use_id: 'toolu_1', content: '{"temperature":20}' },
+                    { type: 'tool_result', tool_use_id: 'toolu_2', content: '{"temperature":12}' }
+                ]
+            }
+        ]);
+        expect(result.tools?.[0]).toMatchObject({
+            name: 'get_weather',
+            input_schema: { type: 'object', required: ['city'] },
+            cache_control: { type: 'ephemeral', ttl: '1h' }
+        });
+    });
+
+    it('omits tool_choice when no tools are sent', async () => {
+        const result = await converter.convertToProviderParams('claude-sonnet-4-5', {
+            model: 'claude-sonnet-4-5',
+            messages: [{ role: 'user', content: 'Hi' }],
+            settings: { toolChoice: 'none' }
+        });
+
+        expect(result).not.toHaveProperty('tool_choice');
+    });
+
+    it('maps reasoning effort to a thinking budget and drops unsupported sampling settings', async () => {
+        const result = await converter.convertToProviderParams('claude-sonnet-4-5', {
+            model: 'claude-sonnet-4-5',
+            messages: [{ role: 'user', content: 'Prove it.' }],
+            settings: { temperature: 0.3, topP: 0.9, maxTokens: 2000, reasoning: { effort: 'medium' } }
+        });
+
+        expect(result.thinking).toEqual({ type: 'enabled', budget_tokens: 8192 });
+        expect(result.max_tokens).toBeGreaterThan(8192);
+        expect(result.temperature).toBeUndefined();
+        expect(result.top_p).toBeUndefined();
+    });
+
+    it('maps file placeholders to image blocks and message cache hints', async () => {
+        const result = await converter.convertToProviderParams('claude-haiku-4-5', {
+            model: 'claude-haiku-4-5',
+            messages: [{
+                role: 'user',
+                content: 'Compare <file:data:image/png;base64,iVBORw0KGgo=> with <file:https://example.com/cat.jpg> please',
+                metadata: { cacheControl: true }
+            }]
+        });
+
+        expect(result.messages[0].content).toEqual([
+            { type: 'text', text: 'Compare' },
+            { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+            { type: 'text', text: 'with' },
+            { type: 'image', source: { type: 'url', url: 'https://example.com/cat.jpg' } },
+            { type: 'text', text: 'please', cache_control: { type: 'ephemeral' } }
+        ]);
+    });
+
+    it('maps cacheControl hints on messages and tools to cache breakpoints', async () => {
+        const result = await converter.convertToProviderParams('claude-haiku-4-5', {
+            model: 'claude-haiku-4-5',
+            messages: [
+                { role: 'system', content: 'Long instructions', cacheControl: { ttl: '1h' } },
+                { role: 'user', content: 'Long document', cacheControl: true },
+                { role: 'user', content: 'Question', cacheControl: false }
+            ],
+            tools: [
+                { name: 'search', description: 'Search', parameters: { type: 'object', properties: {} }, cacheControl: true },
+                { name: 'lookup', description: 'Lookup', parameters: { type: 'object', properties: {} } }
+            ]
+        });
+
+        expect(result.system).toEqual([{ type: 'text', text: 'Long instructions', cache_control: { type: 'ephemeral', ttl: '1h' } }]);
+        expect(result.tools?.map(tool => tool.cache_control)).toEqual([{ type: 'ephemeral' }, undefined]);
+        expect(result.messages[0].content).toEqual([
+            { type: 'text', text: 'Long document', cache_control: { type: 'ephemeral' } },
+            { type: 'text', text: 'Question' }
+        ]);
+    });
+
+    it('adds a schema instruction because the Messages API has no JSON mode', async () => {
+        const result = await converter.convertToProviderParams('claude-haiku-4-5', {
+            model: 'claude-haiku-4-5',
+            messages: [{ role: 'user', content: 'Answer' }],
+            jsonSchema: {
+                name: 'answer',
+                schema: '{"type":"object","properties":{"answer":{"type":"string"}}}'
+            }
+        });
+
+        expect(result.system?.[0].text).toContain('matches this JSON Schema');
+        expect(result).not.toHaveProperty('response_format');
+    });
+
+    it('maps responses, thinking state, usage with cache reads, and costs', () => {
+        const result = converter.convertFromProviderResponse({
+            id: 'msg_1',
+            type: 'message',
+            role: 'assistant',
+            model: 'claude-sonnet-4-5-20250929',
+            content: [
+                { type: 'thinking', thinking: 'Look it up.', signature: 'sig_2' },
+                { type: 'text', text: 'Let me check.' },
+                { type: 'tool_use', id: 'toolu_9', name: 'lookup', input: { id: 7 } }
+            ],
+            stop_reason: 'tool_use',
+            usage: {
+                input_tokens: 300,
+                cache_read_input_tokens: 600,
+                cache_creation_input_tokens: 100,
+                output_tokens: 500
+            }
+        }, 'claude-sonnet-4-5');
+
+        expect(result).toMatchObject({
+            content: 'Let me check.',
+            reasoning: 'Look it up.',
+            toolCalls: [{ id: 'toolu_9', name: 'lookup', arguments: { id: 7 } }],
+            metadata: {
+                finishReason: FinishReason.TOOL_CALLS,
+                model: 'claude-sonnet-4-5-20250929',
+                providerState: {
+                    anthropic: { thinking: [{ type: 'thinking', thinking: 'Look it up.', signature: 'sig_2' }] }
+                }
+            }
+        });
+        expect(result.metadata?.usage?.tokens).toEqual({
+            input: { total: 1000, cached: 600 },
+            output: { total: 500, reasoning: 0 },
+            total: 1500
+        });
+        expect(result.metadata?.usage?.costs.input.cached).toBeCloseTo(600 * 0.3 / 1_000_000);
+        expect(result.metadata?.usage?.costs.total).toBeCloseTo((400 * 3 + 600 * 0.3 + 500 * 15) / 1_000_000);
+        expect(result.metadata?.usage?.costs.input.cacheSavings).toBeCloseTo(600 * (3 - 0.3) / 1_000_000);
+    });
+
+    it.each([
+        ['end_turn', FinishReason.STOP],
+        ['max_tokens', FinishReason.LENGTH],
+        ['tool_use', FinishReason.TOOL_CALLS],
+        ['refusal', FinishReason.CONTENT_FILTER]
+    ])('maps stop reason %s', (reason, expected) => {
+        expect(converter.mapFinishReason(reason)).toBe(expected);
+    });
+});
@@ -0,0 +1,38 @@
+import {
+    mapAnthropicError,
+    AnthropicAdapterError,
+    AnthropicAuthError,
+    AnthropicNetworkError,
+    AnthropicRateLimitError,
+    AnthropicServiceError,
+    AnthropicValidationError
+} from '@/adapters/anthropic/errors.ts';
+
+describe('Anthropic errors', () => {
+    it.each([
+        [{ status: 401, message: 'invalid x-api-key' }, AnthropicAuthError],
+        [{ status: 400, message: 'max_tokens: Field required' }, AnthropicValidationError],
+        [{ status: 529, message: 'Overloaded' }, AnthropicServiceError],
+        [{ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }, AnthropicServiceError],
+        [new Error('fetch failed'), AnthropicNetworkError],
+        [new Error('other'), AnthropicAdapterError]
+    ])('maps %p to the expected error class', (input, ExpectedError) => {
+        expect(mapAnthropicError(input)).toBeInstanceOf(ExpectedError);
+    });
+
+    it('keeps the overloaded status in the message for the retry layer', () => {
+        expect(mapAnthropicError({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }).message)
+            .toContain('529');
+    });
+
+    it('preserves retry-after seconds for rate limits', () => {
+        const error = mapAnthropicError({
+            status: 429,
+            message: 'Rate limited',
+            headers: { 'retry-after': '12' }
+        });
+
+        expect(error).toBeInstanceOf(AnthropicRateLimitError);
+        expect((error as AnthropicRateLimitError).retryAfter).toBe(12);
+    });
+});
@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ModelManager } from '@/core/models/ModelManager.ts';
+import { TokenCalculator } from '@/core/models/TokenCalculator.ts';
+import { FinishReason, type UniversalStreamResponse } from '@/interfaces/UniversalInterfaces.ts';
+import { AnthropicConverter } from '@/adapters/anthropic/converter.ts';
+import { AnthropicStreamHandler } from '@/adapters/anthropic/stream.ts';
+import { parseServerSentEvents } from '@/adapters/base/serverSentEvents.ts';
+import { AnthropicServiceError } from '@/adapters/anthropic/errors.ts';
+
+const FIXTURES = path.resolve('src/tests/unit/adapters/anthropic/fixtures');
+
+// Replays a recorded SSE body in small byte slices so events straddle chunk boundaries.
+async function* replayFixture(name: string, sliceSize = 37): AsyncGenerator<Uint8Array> {
+    const bytes = fs.readFileSync(path.join(FIXTURES, name));
+    for (let offset = 0; offset < bytes.length; offset += sliceSize) {
+        yield new Uint8Array(bytes.subarray(offset, offset + sliceSize));
+    }
+}
+
+async function collect(model: string, fixture: string): Promise<UniversalStreamResponse[]> {
+    const handler = new AnthropicStreamHandler(
+        new AnthropicConverter(new ModelManager('anthropic')),
+        new TokenCalculator(),
+        model
+    );
+    const chunks: UniversalStreamResponse[] = [];
+    for await (const chunk of handler.handleStream(parseServerSentEvents(replayFixture(fixture)))) {
+        chunks.push(chunk);
+    }
+    return chunks;
+}
+
+describe('AnthropicStreamHandler', () => {
+    it('streams thinking and text deltas and preserves the thinking signature', async () => {
+        const chunks = await collect('claude-sonnet-4-5', 'thinking-text.sse');
+
+        expect(chunks[0]).toMatchObject({
+            reasoning: 'The user wants a greeting. ',
+            isFirstReasoningChunk: true,
+            isComplete: false
+        });
+        expect(chunks.filter(chunk => chunk.content).map(chunk => chunk.content)).toEqual(['Hello', ' there!']);
+        expect(chunks.find(chunk => chunk.content)?.isFirstContentChunk).toBe(true);
+
+        const final = chunks.at(-1);
+        expect(final).toMatchObject({
+            content: '',
+            contentText: 'Hello there!',
+            reasoningText: 'The user wants a greeting. Keep it short.',
+            isComplete: true,
+            metadata: {
+                finishReason: FinishReason.STOP,
+                provider: 'anthropic',
+                model: 'claude-sonnet-4-5-20250929',
+                providerState: {
+                    anthropic: {
+                        thinking: [{
+                            type: 'thinking',
+                            thinking: 'The user wants a greeting. Keep it short.',
+                            signature: 'EqQBCgIYAhIM1gbcDa9GJwZA2b3h'
+                        }]
+                    }
+                }
+            }
+        });
+        expect(final?.metadata?.usage?.tokens).toEqual({
+            input: { total: 142, cached: 100 },
+            output: { total: 27, reasoning: 0 },
+            total: 169
+        });
+        expect(final?.metadata?.usage?.costs.input.cached).toBeCloseTo(100 * 0.3 / 1_000_000);
+    });
+
+    it('emits tool call chunks and a parsed tool call on completion', async () => {
+        const chunks = await collect('claude-haiku-4-5', 'tool-use.sse');
+
+        const toolChunks = chunks.flatMap(chunk => chunk.toolCallChunks ?? []);
+        expect(toolChunks).toEqual([
+            { id: 'toolu_01WeatherCall', index: 1, name: 'get_weather' },
+            { index: 1, argumentsChunk: '{"location": "Par' },
+            { index: 1, argumentsChunk: 'is", "unit": "celsius"}' }
+        ]);
+
+        const final = chunks.at(-1);
+        expect(final).toMatchObject({
+            contentText: 'Checking the weather.',
+            toolCalls: [{
+                id: 'toolu_01WeatherCall',
+                name: 'get_weather',
+                arguments: { location: 'Paris', unit: 'celsius' }
+            }],
+            metadata: { finishReason: FinishReason.TOOL_CALLS }
+        });
+        expect(final?.metadata?.usage?.tokens.output.total).toBe(64);
+        expect(final?.metadata?.providerState).toBeUndefined();
+    });
+
+    it('maps in-stream error events to typed service errors', async () => {
+        await expect(collect('claude-sonnet-4-5', 'overloaded.sse')).rejects.toThrow(AnthropicServiceError);
+        await expect(collect('claude-sonnet-4-5', 'overloaded.sse')).rejects.toThrow('529');
+    });
+});
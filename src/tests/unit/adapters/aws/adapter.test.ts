@@ -0,0 +1,244 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { BedrockAdapter } from '@/adapters/aws/adapter.ts';
+import {
+    BedrockAdapterError,
+    BedrockRateLimitError,
+    BedrockServiceError
+} from '@/adapters/aws/errors.ts';
+import { adapterRegistry, getRegisteredProviders } from '@/adapters/index.ts';
+import { ModelManager } from '@/core/models/ModelManager.ts';
+import { FinishReason, type UniversalStreamResponse } from '@/interfaces/UniversalInterfaces.ts';
+import { concatFrames, eventFrame, exceptionFrame } from './eventStreamEncoder.ts';
+
+const MODEL = 'amazon.nova-lite-v1:0';
+const AWS_ENV = [
+    'AWS_ACCESS_KEY_ID',
+    'AWS_SECRET_ACCESS_KEY',
+    'AWS_SESSION_TOKEN',
+    'AWS_BEARER_TOKEN_BEDROCK',
+    'AWS_REGION',
+    'AWS_DEFAULT_REGION'
+] as const;
+
+type RecordedRequest = { url: string; headers: IncomingMessage['headers']; body: Record<string, unknown> };
+
+describe('BedrockAdapter registration and configuration', () => {
+    const originalEnv = Object.fromEntries(AWS_ENV.map(name => [name, process.env[name]]));
+
+    beforeEach(() => {
+        AWS_ENV.forEach(name => delete process.env[name]);
+    });
+
+    afterEach(() => {
+        for (const [name, value] of Object.entries(originalEnv)) {
+            if (value === undefined) delete process.env[name];
+            else process.env[name] = value;
+        }
+    });
+
+    it('is registered and exposes its model catalog', () => {
+        expect(getRegisteredProviders()).toContain('bedrock');
+        expect(adapterRegistry.get('bedrock')).toBe(BedrockAdapter);
+        expect(new ModelManager('bedrock').getAvailableModels().map(model => model.name)).toEqual(
+            expect.arrayContaining([
+                'us.anthropic.claude-sonnet-4-5-20250929-v1:0',
+                'us.meta.llama3-3-70b-instruct-v1:0',
+                'mistral.mistral-large-2407-v1:0',
+                MODEL
+            ])
+        );
+    });
+
+    it('reads AWS credentials from the environment', () => {
+        process.env.AWS_ACCESS_KEY_ID = 'AKIDEXAMPLE';
+        process.env.AWS_SECRET_ACCESS_KEY = 'secret';
+        expect(() => new BedrockAdapter()).not.toThrow();
+    });
+
+    it('accepts a Bedrock API key instead of AWS credentials', () => {
+        process.env.AWS_BEARER_TOKEN_BEDROCK = 'bedrock-api-key';
+        expect(() => new BedrockAdapter()).not.toThrow();
+    });
+
+    it('fails clearly when no credentials are available', () => {
+        expect(() => new BedrockAdapter()).toThrow(BedrockAdapterError);
+        expect(() => new BedrockAdapter()).toThrow('AWS_ACCESS_KEY_ID');
+    });
+});
+
+describe('BedrockAdapter against a local Bedrock stand-in', () => {
+    let server: Server;
+    let baseUrl: string;
+    let requests: RecordedRequest[];
+    let handler: (request: RecordedRequest, response: ServerResponse) => void;
+
+    beforeAll(async () => {
+        server = createServer((incoming, response) => {
+            const chunks: Buffer[] = [];
+            incoming.on('data', chunk => chunks.push(chunk as Buffer));
+            incoming.on('end', () => {
+                const request = {
+                    url: incoming.url ?? '/',
+                    headers: incoming.headers,
+                    body: JSON.parse(Buffer.concat(chunks).toString('utf8')) as Record<string, unknown>
+                };
+                requests.push(request);
+                handler(request, response);
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        server.closeAllConnections();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+        requests = [];
+    });
+
+    const createAdapter = () => new BedrockAdapter({
+        baseUrl,
+        region: 'us-west-2',
+        accessKeyId: 'AKIDEXAMPLE',
+        secretAccessKey: 'secret',
+        sessionToken: 'session'
+    });
+
+    it('signs Converse requests and maps the response', async () => {
+        handler = (_request, response) => {
+            response.writeHead(200, { 'content-type': 'application/json' });
+            response.end(JSON.stringify({
+                output: { message: { role: 'assistant', content: [{ text: 'Hello from Nova' }] } },
+                stopReason: 'end_turn',
+                usage: { inputTokens: 10, outputTokens: 4, totalTokens: 14 },
+                metrics: { latencyMs: 120 }
+            }));
+        };
+
+        const response = await createAdapter().chatCall(MODEL, {
+            model: MODEL,
+            messages: [{ role: 'user', content: 'Hi' }]
+        });
+
+        expect(requests[0].url).toBe('/model/amazon.nova-lite-v1%3A0/converse');
+        expect(requests[0].headers.authorization).toMatch(
+            /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/us-west-2\/bedrock\/aws4_request, SignedHeaders=accept;content-type;host;x-amz-date;x-amz-security-token, Signature=[0-9a-f]{64}$/
+        );
+        expect(requests[0].headers['x-amz-security-token']).toBe('session');
+        expect(requests[0].body).toMatchObject({ messages: [{ role: 'user', content: [{ text: 'Hi' }] }] });
+        expect(response).toMatchObject({
+            content: 'Hello from Nova',
+            metadata: {
+                finishReason: FinishReason.STOP,
+                provider: 'bedrock',
+                model: MODEL,
+                usage: { tokens: { input: { total: 10 }, output: { total: 4 }, total: 14 } }
+            }
+        });
+        expect(response.metadata?.usage?.costs.total).toBeCloseTo((10 * 0.06 + 4 * 0.24) / 1_000_000);
+    });
+
+    it('sends a Bedrock API key as a bearer token', async () => {
+        handler = (_request, response) => {
+            response.writeHead(200, { 'content-type': 'application/json' });
+            response.end(JSON.stringify({
+                output: { message: { role: 'assistant', content: [{ text: 'ok' }] } },
+                stopReason: 'end_turn'
+            }));
+        };
+
+        await new BedrockAdapter({ baseUrl, apiKey: 'bedrock-api-key' }).chatCall(MODEL, {
+            model: MODEL,
+            messages: [{ role: 'user', content: 'Hi' }]
+        });
+
+        expect(requests[0].headers.authorization).toBe('Bearer bedrock-api-key');
+    });
+
+    it('streams ConverseStream tool use and usage', async () => {
+        handler = (_request, response) => {
+            response.writeHead(200, { 'content-type': 'application/vnd.amazon.eventstream' });
+            const bytes = concatFrames([
+                eventFrame('messageStart', { role: 'assistant' }),
+                eventFrame('contentBlockDelta', { contentBlockIndex: 0, delta: { text: 'Looking up.' } }),
+                eventFrame('contentBlockStop', { contentBlockIndex: 0 }),
+                eventFrame('contentBlockStart', {
+                    contentBlockIndex: 1,
+                    start: { toolUse: { toolUseId: 'tool_1', name: 'lookup' } }
+                }),
+                eventFrame('contentBlockDelta', { contentBlockIndex: 1, delta: { toolUse: { input: '{"id":' } } }),
+                eventFrame('contentBlockDelta', { contentBlockIndex: 1, delta: { toolUse: { input: '"7"}' } } }),
+                eventFrame('contentBlockStop', { contentBlockIndex: 1 }),
+                eventFrame('messageStop', { stopReason: 'tool_use' }),
+                eventFrame('metadata', {
+                    usage: { inputTokens: 30, outputTokens: 12, totalTokens: 42 },
+                    metrics: { latencyMs: 300 }
+                })
+            ]);
+            // Write in uneven pieces so frames straddle network chunks.
+            for (let offset = 0; offset < bytes.length; offset += 50) {
+                response.write(bytes.slice(offset, offset + 50));
+            }
+            response.end();
+        };
+
+        const stream = await createAdapter().streamCall(MODEL, {
+            model: MODEL,
+            messages: [{ role: 'user', content: 'Find 7' }],
+            tools: [{ name: 'lookup', parameters: { type: 'object', properties: { id: { type: 'string' } } } }]
+        });
+        const chunks: UniversalStreamResponse[] = [];
+        for await (const chunk of stream) chunks.push(chunk);
+
+        expect(requests[0].url).toBe('/model/amazon.nova-lite-v1%3A0/converse-stream');
+        expect(chunks.at(-1)).toMatchObject({
+            isComplete: true,
+            contentText: 'Looking up.',
+            toolCalls: [{ id: 'tool_1', name: 'lookup', arguments: { id: '7' } }],
+            metadata: {
+                finishReason: FinishReason.TOOL_CALLS,
+                provider: 'bedrock',
+                usage: { tokens: { input: { total: 30 }, output: { total: 12 }, total: 42 } }
+            }
+        });
+    });
+
+    it('maps exceptions raised mid-stream', async () => {
+        handler = (_request, response) => {
+            response.writeHead(200, { 'content-type': 'application/vnd.amazon.eventstream' });
+            response.end(concatFrames([
+                eventFrame('messageStart', { role: 'assistant' }),
+                exceptionFrame('serviceUnavailableException', 'Service is unavailable')
+            ]));
+        };
+
+        const stream = await createAdapter().streamCall(MODEL, {
+            model: MODEL,
+            messages: [{ role: 'user', content: 'Hi' }]
+        });
+        const consume = async () => {
+            for await (const _chunk of stream) { /* drain */ }
+        };
+
+        await expect(consume()).rejects.toBeInstanceOf(BedrockServiceError);
+    });
+
+    it('maps throttling responses to rate limit errors', async () => {
+        handler = (_request, response) => {
+            response.writeHead(429, {
+                'content-type': 'application/json',
+                'x-amzn-errortype': 'ThrottlingException:http://internal.amazon.com/coral/com.amazon.bedrock/'
+            });
+            response.end(JSON.stringify({ message: 'Too many requests, please wait before trying again.' }));
+        };
+
+        await expect(createAdapter().chatCall(MODEL, {
+            model: MODEL,
+            messages: [{ role: 'user', content: 'Hi' }]
+        })).rejects.toBeInstanceOf(BedrockRateLimitError);
+    });
+});
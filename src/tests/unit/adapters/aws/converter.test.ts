@@ -0,0 +1,183 @@
+import { BedrockConverter } from '@/adapters/aws/converter.ts';
+import { ModelManager } from '@/core/models/ModelManager.ts';
+import { FinishReason } from '@/interfaces/UniversalInterfaces.ts';
+
+const CLAUDE = 'us.anthropic.claude-sonnet-4-5-20250929-v1:0';
+const NOVA = 'amazon.nova-lite-v1:0';
+const PIXEL = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+describe('BedrockConverter', () => {
+    const converter = new BedrockConverter(new ModelManager('bedrock'));
+
+    it('maps system prompts, images, tools and inference settings', async () => {
+        const params = await converter.convertToProviderParams(NOVA, {
+            model: NOVA,
+            messages: [
+                { role: 'system', content: 'Be brief.' },
+                { role: 'user', content: `What is this? <file:data:image/png;base64,${PIXEL}>` }
+            ],
+            tools: [{
+                name: 'lookup',
+                description: 'Look up a value',
+                parameters: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] }
+            }],
+            settings: {
+                temperature: 0.2,
+                maxTokens: 300,
+                stop: 'END',
+                toolChoice: { type: 'function', function: { name: 'lookup' } }
+            }
+        });
+
+        expect(params.system).toEqual([{ text: 'Be brief.' }]);
+        expect(params.messages).toEqual([{
+            role: 'user',
+            content: [
+                { text: 'What is this?' },
+                { image: { format: 'png', source: { bytes: PIXEL } } }
+            ]
+        }]);
+        expect(params.inferenceConfig).toEqual({ maxTokens: 300, temperature: 0.2, stopSequences: ['END'] });
+        expect(params.toolConfig).toMatchObject({
+            tools: [{ toolSpec: { name: 'lookup', inputSchema: { json: { type: 'object' } } } }],
+            toolChoice: { tool: { name: 'lookup' } }
+        });
+    });
+
+    it('replays reasoning and tool turns with tool results grouped in one user turn', async () => {
+        const reasoning = { reasoningContent: { reasoningText: { text: 'Check both.', signature: 'sig' } } };
+        const params = await converter.convertToProviderParams(CLAUDE, {
+            model: CLAUDE,
+            messages: [
+                { role: 'user', content: 'Compare a and b' },
+                {
+                    role: 'assistant',
+                    content: '',
+                    toolCalls: [
+                        { id: 'tool_a', name: 'lookup', arguments: { id: 'a' } },
+                        { id: 'tool_b', name: 'lookup', arguments: { id: 'b' } }
+                    ],
+                    metadata: { providerState: { bedrock: { reasoning: [reasoning] } } }
+                },
+                { role: 'tool', content: '1', toolCallId: 'tool_a' },
+                { role: 'tool', content: 'missing', toolCallId: 'tool_b', metadata: { isError: true } }
+            ]
+        });
+
+        expect(params.messages[1]).toEqual({
+            role: 'assistant',
+            content: [
+                reasoning,
+                { toolUse: { toolUseId: 'tool_a', name: 'lookup', input: { id: 'a' } } },
+                { toolUse: { toolUseId: 'tool_b', name: 'lookup', input: { id: 'b' } } }
+            ]
+        });
+        expect(params.messages[2]).toEqual({
+            role: 'user',
+            content: [
+                { toolResult: { toolUseId: 'tool_a', content: [{ text: '1' }] } },
+                { toolResult: { toolUseId: 'tool_b', content: [{ text: 'missing' }], status: 'error' } }
+            ]
+        });
+    });
+
+    it('maps reasoning effort to a Claude thinking budget', async () => {
+        const params = await converter.convertToProviderParams(CLAUDE, {
+            model: CLAUDE,
+            messages: [{ role: 'user', content: 'Think' }],
+            settings: { temperature: 0.5, reasoning: { effort: 'high' } }
+        });
+
+        expect(params.additionalModelRequestFields).toEqual({
+            thinking: { type: 'enabled', budget_tokens: 16384 }
+        });
+        expect(params.inferenceConfig?.maxTokens).toBeGreaterThan(16384);
+        expect(params.inferenceConfig?.temperature).toBeUndefined();
+    });
+
+    it('adds cache points for cached messages and the cachePoint provider option', async () => {
+        const params = await converter.convertToProviderParams(CLAUDE, {
+            model: CLAUDE,
+            messages: [
+                { role: 'system', content: 'Long instructions' },
+                { role: 'user', content: 'Long document', metadata: { cacheControl: true } }
+            ],
+            settings: { providerOptions: { bedrock: { cachePoint: true, performanceConfig: { latency: 'optimized' } } } }
+        });
+
+        expect(params.system).toEqual([{ text: 'Long instructions' }, { cachePoint: { type: 'default' } }]);
+        expect(params.messages[0].content.at(-1)).toEqual({ cachePoint: { type: 'default' } });
+        expect(params.performanceConfig).toEqual({ latency: 'optimized' });
+        expect(params).not.toHaveProperty('cachePoint');
+    });
+
+    it('adds cache points after messages and tools with a cacheControl hint', async () => {
+        const params = await converter.convertToProviderParams(CLAUDE, {
+            model: CLAUDE,
+            messages: [
+                { role: 'system', content: 'Long instructions', cacheControl: true },
+                { role: 'user', content: 'Question' }
+            ],
+            tools: [
+                { name: 'search', description: 'Search', parameters: { type: 'object', properties: {} }, cacheControl: { ttl: '5m' } }
+            ],
+            settings: { providerOptions: { bedrock: { cachePoint: true } } }
+        });
+
+        expect(params.system).toEqual([{ text: 'Long instructions' }, { cachePoint: { type: 'default' } }]);
+        expect(params.toolConfig?.tools).toEqual([
+            expect.objectContaining({ toolSpec: expect.objectContaining({ name: 'search' }) }),
+            { cachePoint: { type: 'default' } }
+        ]);
+        expect(params.messages[0].content).toEqual([{ text: 'Question' }]);
+    });
+
+    it('maps Converse responses including cache usage', () => {
+        const response = converter.convertFromProviderResponse({
+            output: {
+                message: {
+                    role: 'assistant',
+                    content: [
+                        { reasoningContent: { reasoningText: { text: 'Plan.', signature: 'sig' } } },
+                        { text: 'Calling lookup.' },
+                        { toolUse: { toolUseId: 'tool_1', name: 'lookup', input: { id: '7' } } }
+                    ]
+                }
+            },
+            stopReason: 'tool_use',
+            usage: {
+                inputTokens: 100,
+                outputTokens: 20,
+                totalTokens: 1120,
+                cacheReadInputTokens: 1000,
+                cacheWriteInputTokens: 0
+            }
+        }, CLAUDE);
+
+        expect(response).toMatchObject({
+            content: 'Calling lookup.',
+            reasoning: 'Plan.',
+            toolCalls: [{ id: 'tool_1', name: 'lookup', arguments: { id: '7' } }],
+            metadata: {
+                finishReason: FinishReason.TOOL_CALLS,
+                provider: 'bedrock',
+                model: CLAUDE,
+                usage: { tokens: { input: { total: 1100, cached: 1000 }, output: { total: 20 }, total: 1120 } },
+                providerState: {
+                    bedrock: { reasoning: [{ reasoningContent: { reasoningText: { text: 'Plan.', signature: 'sig' } } }] }
+                }
+            }
+        });
+        expect(response.metadata?.usage?.costs.input.cached).toBeCloseTo(1000 * 0.3 / 1_000_000);
+        expect(response.metadata?.usage?.costs.input.cacheSavings).toBeCloseTo(1000 * (3 - 0.3) / 1_000_000);
+    });
+
+    it.each([
+        ['end_turn', FinishReason.STOP],
+        ['max_tokens', FinishReason.LENGTH],
+        ['guardrail_intervened', FinishReason.CONTENT_FILTER],
+        ['content_filtered', FinishReason.CONTENT_FILTER]
+    ])('maps stop reason %s', (reason, expected) => {
+        expect(converter.mapFinishReason(reason)).toBe(expected);
+    });
+});
@@ -0,0 +1,39 @@
+import {
+    mapBedrockError,
+    BedrockAdapterError,
+    BedrockAuthError,
+    BedrockNetworkError,
+    BedrockRateLimitError,
+    BedrockServiceError,
+    BedrockValidationError
+} from '@/adapters/aws/errors.ts';
+
+describe('Bedrock errors', () => {
+    it.each([
+        [{ status: 403, message: 'The security token included in the request is invalid.' }, BedrockAuthError],
+        [{ status: 400, type: 'ValidationException:http://internal.amazon.com/coral/', message: 'Malformed input' }, BedrockValidationError],
+        [{ type: 'throttlingException', message: 'Too many tokens' }, BedrockRateLimitError],
+        [{ type: 'modelStreamErrorException', message: 'Model failed' }, BedrockServiceError],
+        [{ status: 503, message: 'Service unavailable' }, BedrockServiceError],
+        [new Error('fetch failed'), BedrockNetworkError],
+        [new Error('other'), BedrockAdapterError]
+    ])('maps %p to the expected error class', (input, ExpectedError) => {
+        expect(mapBedrockError(input)).toBeInstanceOf(ExpectedError);
+    });
+
+    it('keeps the inferred status in the message for the retry layer', () => {
+        expect(mapBedrockError({ type: 'serviceUnavailableException', message: 'Unavailable' }).message)
+            .toContain('503');
+    });
+
+    it('preserves retry-after seconds for rate limits', () => {
+        const error = mapBedrockError({
+            status: 429,
+            message: 'Rate exceeded',
+            headers: { 'retry-after': '3' }
+        });
+
+        expect(error).toBeInstanceOf(BedrockRateLimitError);
+        expect((error as BedrockRateLimitError).retryAfter).toBe(3);
+    });
+});
@@ -0,0 +1,62 @@
+import { decodeEventStream } from '@/adapters/aws/eventStream.ts';
+import { parseConverseStream } from '@/adapters/aws/stream.ts';
+import { concatFrames, eventFrame, exceptionFrame } from './eventStreamEncoder.ts';
+
+async function* slices(bytes: Uint8Array, size: number): AsyncGenerator<Uint8Array> {
+    for (let offset = 0; offset < bytes.length; offset += size) {
+        yield bytes.slice(offset, offset + size);
+    }
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterable) items.push(item);
+    return items;
+}
+
+describe('decodeEventStream', () => {
+    it('reassembles frames split across chunks', async () => {
+        const bytes = concatFrames([
+            eventFrame('messageStart', { role: 'assistant' }),
+            eventFrame('contentBlockDelta', { contentBlockIndex: 0, delta: { text: 'Hi' } })
+        ]);
+
+        const messages = await collect(decodeEventStream(slices(bytes, 7)));
+
+        expect(messages).toHaveLength(2);
+        expect(messages[0].headers[':event-type']).toBe('messageStart');
+        expect(JSON.parse(new TextDecoder().decode(messages[1].payload))).toEqual({
+            contentBlockIndex: 0,
+            delta: { text: 'Hi' }
+        });
+    });
+
+    it('rejects corrupted frames', async () => {
+        const frame = eventFrame('messageStart', { role: 'assistant' });
+        frame[frame.length - 6] ^= 0xff;
+
+        await expect(collect(decodeEventStream(slices(frame, 64)))).rejects.toThrow('checksum');
+    });
+});
+
+describe('parseConverseStream', () => {
+    it('keys events by their event type', async () => {
+        const bytes = eventFrame('messageStop', { stopReason: 'end_turn' });
+
+        await expect(collect(parseConverseStream(slices(bytes, 16)))).resolves.toEqual([
+            { messageStop: { stopReason: 'end_turn' } }
+        ]);
+    });
+
+    it('throws exception frames with their exception type', async () => {
+        const bytes = concatFrames([
+            eventFrame('messageStart', { role: 'assistant' }),
+            exceptionFrame('throttlingException', 'Too many tokens')
+        ]);
+
+        await expect(collect(parseConverseStream(slices(bytes, 32)))).rejects.toMatchObject({
+            message: 'Too many tokens',
+            type: 'throttlingException'
+        });
+    });
+});
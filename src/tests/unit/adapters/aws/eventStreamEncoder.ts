@@ -0,0 +1,64 @@
+import { crc32 } from '@/adapters/aws/eventStream.ts';
+
+/**
+ * Encodes one `application/vnd.amazon.eventstream` frame with string headers, the way
+ * ConverseStream sends them.
+ */
+export function encodeEventStreamMessage(
+    headers: Record<string, string>,
+    payload: unknown
+): Uint8Array {
+    const encoder = new TextEncoder();
+    const headerParts = Object.entries(headers).map(([name, value]) => {
+        const nameBytes = encoder.encode(name);
+        const valueBytes = encoder.encode(value);
+        const part = new Uint8Array(1 + nameBytes.length + 1 + 2 + valueBytes.length);
+        const view = new DataView(part.buffer);
+        part[0] = nameBytes.length;
+        part.set(nameBytes, 1);
+        part[1 + nameBytes.length] = 7;
+        view.setUint16(2 + nameBytes.length, valueBytes.length);
+        part.set(valueBytes, 4 + nameBytes.length);
+        return part;
+    });
+    const headersLength = headerParts.reduce((total, part) => total + part.length, 0);
+    const payloadBytes = encoder.encode(JSON.stringify(payload));
+    const totalLength = 12 + headersLength + payloadBytes.length + 4;
+
+    const frame = new Uint8Array(totalLength);
+    const view = new DataView(frame.buffer);
+    view.setUint32(0, totalLength);
+    view.setUint32(4, headersLength);
+    view.setUint32(8, crc32(frame.subarray(0, 8)));
+    let offset = 12;
+    for (const part of headerParts) {
+        frame.set(part, offset);
+        offset += part.length;
+    }
+    frame.set(payloadBytes, offset);
+    view.setUint32(totalLength - 4, crc32(frame.subarray(0, totalLength - 4)));
+    return frame;
+}
+
+export const eventFrame = (eventType: string, payload: unknown): Uint8Array =>
+    encodeEventStreamMessage(
+        { ':event-type': eventType, ':content-type': 'application/json', ':message-type': 'event' },
+        payload
+    );
+
+export const exceptionFrame = (exceptionType: string, message: string): Uint8Array =>
+    encodeEventStreamMessage(
+        { ':exception-type': exceptionType, ':content-type': 'application/json', ':message-type': 'exception' },
+        { message }
+    );
+
+export const concatFrames = (frames: Uint8Array[]): Uint8Array => {
+    const total = frames.reduce((length, frame) => length + frame.length, 0);
+    const joined = new Uint8Array(total);
+    let offset = 0;
+    for (const frame of frames) {
+        joined.set(frame, offset);
+        offset += frame.length;
+    }
+    return joined;
+};
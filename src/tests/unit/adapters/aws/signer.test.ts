@@ -0,0 +1,63 @@
+import { signRequest } from '@/adapters/aws/signer.ts';
+
+// Credentials and expected signatures from the AWS SigV4 test suite.
+const credentials = {
+    accessKeyId: 'AKIDEXAMPLE',
+    secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY'
+};
+const date = new Date('2015-08-30T12:36:00Z');
+
+describe('signRequest', () => {
+    it('matches the get-vanilla test vector', () => {
+        const headers = signRequest(
+            { method: 'GET', url: 'https://example.amazonaws.com/', headers: {} },
+            credentials,
+            'us-east-1',
+            'service',
+            date
+        );
+
+        expect(headers['x-amz-date']).toBe('20150830T123600Z');
+        expect(headers.authorization).toBe(
+            'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, ' +
+            'SignedHeaders=host;x-amz-date, ' +
+            'Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31'
+        );
+        expect(headers).not.toHaveProperty('host');
+    });
+
+    it('sorts query parameters (get-vanilla-query-order-key-case)', () => {
+        const headers = signRequest(
+            { method: 'GET', url: 'https://example.amazonaws.com/?Param2=value2&Param1=value1', headers: {} },
+            credentials,
+            'us-east-1',
+            'service',
+            date
+        );
+
+        expect(headers.authorization).toContain(
+            'Signature=b97d918cfa904a5beff61c982a1b6f458b799221646efd99d3219ec94cdf2500'
+        );
+    });
+
+    it('signs the session token and content headers', () => {
+        const headers = signRequest(
+            {
+                method: 'POST',
+                url: 'https://bedrock-runtime.us-east-1.amazonaws.com/model/amazon.nova-lite-v1%3A0/converse',
+                headers: { 'Content-Type': 'application/json' },
+                body: '{}'
+            },
+            { ...credentials, sessionToken: 'session' },
+            'us-east-1',
+            'bedrock',
+            date
+        );
+
+        expect(headers['x-amz-security-token']).toBe('session');
+        expect(headers.authorization).toContain(
+            'SignedHeaders=content-type;host;x-amz-date;x-amz-security-token'
+        );
+        expect(headers.authorization).toContain('/us-east-1/bedrock/aws4_request');
+    });
+});
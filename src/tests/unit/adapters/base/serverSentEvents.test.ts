@@ -0,0 +1,50 @@
+import { parseServerSentEvents } from '@/adapters/base/serverSentEvents.ts';
+
+const BODY = [
+    'event: message_start\ndata: {"type":"message_start"}\n\n',
+    ': keep-alive comment\n\n',
+    'event: content_block_delta\r\ndata: {"type":"content_block_delta",\r\ndata: "index":0}\r\n\r\n',
+    'data: {"type":"message_stop"}\n\n',
+    'data: [DONE]\n\n'
+].join('');
+
+// Replays the body in small byte slices so events straddle chunk boundaries.
+async function* replay(body: string, sliceSize: number): AsyncGenerator<Uint8Array> {
+    const bytes = new TextEncoder().encode(body);
+    for (let offset = 0; offset < bytes.length; offset += sliceSize) {
+        yield bytes.subarray(offset, offset + sliceSize);
+    }
+}
+
+async function collect(body: AsyncIterable<Uint8Array | string> | ReadableStream<Uint8Array>): Promise<unknown[]> {
+    const events: unknown[] = [];
+    for await (const event of parseServerSentEvents(body)) {
+        events.push(event);
+    }
+    return events;
+}
+
+describe('parseServerSentEvents', () => {
+    const expected = [
+        { type: 'message_start' },
+        { type: 'content_block_delta', index: 0 },
+        { type: 'message_stop' }
+    ];
+
+    it('yields one JSON payload per event regardless of chunk boundaries', async () => {
+        for (const sliceSize of [1, 5, 37, BODY.length]) {
+            expect(await collect(replay(BODY, sliceSize))).toEqual(expected);
+        }
+    });
+
+    it('reads web streams and flushes a final event without a blank line', async () => {
+        const stream = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(new TextEncoder().encode(BODY.replace(/\n\ndata: \[DONE\]\n\n$/, '')));
+                controller.close();
+            }
+        });
+
+        expect(await collect(stream)).toEqual(expected);
+    });
+});
@@ -0,0 +1,97 @@
+import { jest } from '@jest/globals';
+import { GeminiContextCache, type CreateGeminiCachedContent } from '@/adapters/gemini/contextCache.ts';
+import { GeminiConverter } from '@/adapters/gemini/converter.ts';
+import { ModelManager } from '@/core/models/ModelManager.ts';
+import type { UniversalChatParams } from '@/interfaces/UniversalInterfaces.ts';
+
+const MODEL = 'gemini-2.5-flash';
+const TOOL = { name: 'lookup', description: 'Lookup', parameters: { type: 'object' as const, properties: {} } };
+
+describe('GeminiContextCache', () => {
+    const converter = new GeminiConverter(new ModelManager('gemini'));
+
+    const convert = (params: Omit<UniversalChatParams, 'model'>) =>
+        converter.convertToProviderRequest(MODEL, { model: MODEL, ...params });
+
+    it('locates the prefix up to the last hinted message', async () => {
+        const { cachePrefix } = await convert({
+            messages: [
+                { role: 'system', content: 'Long instructions' },
+                { role: 'user', content: 'Long document', cacheControl: { ttl: '1h' } },
+                { role: 'assistant', content: 'Read it.' },
+                { role: 'user', content: 'Question' }
+            ]
+        });
+
+        expect(cachePrefix).toEqual({ contentCount: 1, ttl: '1h' });
+        expect((await convert({ messages: [{ role: 'user', content: 'Hi' }] })).cachePrefix).toBeUndefined();
+        await expect(convert({ messages: [{ role: 'user', content: 'Hi' }], tools: [{ ...TOOL, cacheControl: true }] }))
+            .resolves.toMatchObject({ cachePrefix: { contentCount: 0 } });
+    });
+
+    it('moves the prefix into a cached content and reuses it for the same prefix', async () => {
+        const create = jest.fn<CreateGeminiCachedContent>().mockResolvedValue('cachedContents/abc');
+        const cache = new GeminiContextCache(create);
+        const messages: UniversalChatParams['messages'] = [
+            { role: 'system', content: 'Long instructions' },
+            { role: 'user', content: 'Long document', cacheControl: true }
+        ];
+
+        const first = await convert({
+            messages: [...messages, { role: 'user', content: 'First' }],
+            tools: [TOOL],
+            settings: { temperature: 0.2 }
+        });
+        const request = await cache.apply(first.params, first.cachePrefix);
+        const second = await convert({
+            messages: [...messages, { role: 'user', content: 'Second' }],
+            tools: [TOOL],
+            settings: { temperature: 0.2 }
+        });
+        await cache.apply(second.params, second.cachePrefix);
+
+        expect(create).toHaveBeenCalledTimes(1);
+        expect(create).toHaveBeenCalledWith({
+            model: MODEL,
+            contents: [{ role: 'user', parts: [{ text: 'Long document' }] }],
+            systemInstruction: 'Long instructions',
+            tools: [{ functionDeclarations: [expect.objectContaining({ name: 'lookup' })] }],
+            ttl: '300s'
+        });
+        expect(request).toEqual({
+            model: MODEL,
+            contents: [{ role: 'user', parts: [{ text: 'First' }] }],
+            config: { temperature: 0.2, cachedContent: 'cachedContents/abc' }
+        });
+    });
+
+    it('keeps the last content in the request and falls back when creation fails', async () => {
+        const create = jest.fn<CreateGeminiCachedContent>().mockRejectedValue(new Error('Cached content is too small'));
+        const cache = new GeminiContextCache(create);
+        const { params, cachePrefix } = await convert({
+            messages: [{ role: 'user', content: 'Only message', cacheControl: true }]
+        });
+
+        // With no system instruction or tools, a one-message request has nothing to cache.
+        await expect(cache.apply(params, cachePrefix)).resolves.toBe(params);
+        expect(create).not.toHaveBeenCalled();
+
+        const withSystem = await convert({
+            messages: [{ role: 'system', content: 'Instructions', cacheControl: true }, { role: 'user', content: 'Hi' }]
+        });
+        await expect(cache.apply(withSystem.params, withSystem.cachePrefix)).resolves.toBe(withSystem.params);
+        await expect(cache.apply(withSystem.params, withSystem.cachePrefix)).resolves.toBe(withSystem.params);
+        expect(create).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves requests that already name a cached content alone', async () => {
+        const create = jest.fn<CreateGeminiCachedContent>();
+        const { params, cachePrefix } = await convert({
+            messages: [{ role: 'system', content: 'Instructions', cacheControl: true }, { role: 'user', content: 'Hi' }],
+            settings: { providerOptions: { cachedContent: 'cachedContents/manual' } }
+        });
+
+        await expect(new GeminiContextCache(create).apply(params, cachePrefix)).resolves.toBe(params);
+        expect(create).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,253 @@
+import { generateKeyPairSync } from 'node:crypto';
+import { getVertexEndpoint, VertexAdapter } from '@/adapters/google/adapter.ts';
+import { VertexAdapterError } from '@/adapters/google/errors.ts';
+import { toVertexRequest } from '@/adapters/google/request.ts';
+import { GeminiRateLimitError } from '@/adapters/gemini/errors.ts';
+import { adapterRegistry } from '@/adapters/index.ts';
+import { ModelManager } from '@/core/models/ModelManager.ts';
+import { FinishReason, type UniversalStreamResponse } from '@/interfaces/UniversalInterfaces.ts';
+import { sendJson, startLocalGoogleServer, type LocalGoogleServer } from './localGoogleServer.ts';
+
+const MODEL = 'gemini-2.5-flash';
+const GOOGLE_ENV = ['GOOGLE_CLOUD_PROJECT', 'GCLOUD_PROJECT', 'GOOGLE_CLOUD_LOCATION', 'GOOGLE_APPLICATION_CREDENTIALS'] as const;
+
+describe('VertexAdapter configuration', () => {
+    const originalEnv = Object.fromEntries(GOOGLE_ENV.map(name => [name, process.env[name]]));
+
+    beforeEach(() => {
+        GOOGLE_ENV.forEach(name => delete process.env[name]);
+    });
+
+    afterEach(() => {
+        for (const [name, value] of Object.entries(originalEnv)) {
+            if (value === undefined) delete process.env[name];
+            else process.env[name] = value;
+        }
+    });
+
+    it('is registered with the Gemini text models', () => {
+        expect(adapterRegistry.get('vertex')).toBe(VertexAdapter);
+        expect(new ModelManager('vertex').getAvailableModels().map(model => model.name)).toEqual(
+            expect.arrayContaining(['gemini-2.5-pro', MODEL])
+        );
+        expect(new ModelManager('vertex').getModel('gemini-embedding-001')).toBeUndefined();
+    });
+
+    it.each([
+        ['global', 'https://aiplatform.googleapis.com'],
+        ['us', 'https://aiplatform.us.rep.googleapis.com'],
+        ['europe-west4', 'https://europe-west4-aiplatform.googleapis.com']
+    ])('builds the %s endpoint', (location, endpoint) => {
+        expect(getVertexEndpoint(location)).toBe(endpoint);
+    });
+
+    it('addresses publisher models in the project and location', () => {
+        process.env.GOOGLE_CLOUD_PROJECT = 'my-project';
+        process.env.GOOGLE_CLOUD_LOCATION = 'us-central1';
+        const adapter = new VertexAdapter('access-token');
+
+        expect(adapter.getModelUrl(MODEL, 'generateContent')).toBe(
+            'https://us-central1-aiplatform.googleapis.com/v1/projects/my-project/locations/us-central1/publishers/google/models/gemini-2.5-flash:generateContent'
+        );
+        expect(adapter.getModelUrl('projects/my-project/locations/us-central1/endpoints/42', 'streamGenerateContent')).toBe(
+            'https://us-central1-aiplatform.googleapis.com/v1/projects/my-project/locations/us-central1/endpoints/42:streamGenerateContent?alt=sse'
+        );
+    });
+
+    it('takes the project from service-account credentials', () => {
+        const adapter = new VertexAdapter({
+            credentials: { type: 'service_account', client_email: 'a@b', private_key: 'pem', project_id: 'from-key' }
+        });
+
+        expect(adapter.project).toBe('from-key');
+        expect(adapter.location).toBe('global');
+    });
+
+    it('fails clearly without a project', () => {
+        expect(() => new VertexAdapter('access-token')).toThrow(VertexAdapterError);
+        expect(() => new VertexAdapter('access-token')).toThrow('GOOGLE_CLOUD_PROJECT');
+    });
+});
+
+describe('toVertexRequest', () => {
+    it('nests generation settings and lifts the system instruction, tools and safety settings', () => {
+        expect(toVertexRequest({
+            model: MODEL,
+            contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+            config: {
+                systemInstruction: 'Be brief.',
+                temperature: 0.2,
+                maxOutputTokens: 100,
+                responseMimeType: 'application/json',
+                tools: [{ functionDeclarations: [{ name: 'lookup' }] }],
+                safetySettings: [],
+                abortSignal: new AbortController().signal
+            }
+        })).toEqual({
+            contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+            systemInstruction: { role: 'user', parts: [{ text: 'Be brief.' }] },
+            generationConfig: { temperature: 0.2, maxOutputTokens: 100, responseMimeType: 'application/json' },
+            tools: [{ functionDeclarations: [{ name: 'lookup' }] }],
+            safetySettings: []
+        });
+    });
+});
+
+describe('VertexAdapter against a local Vertex AI stand-in', () => {
+    const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    let server: LocalGoogleServer;
+
+    beforeAll(async () => {
+        server = await startLocalGoogleServer();
+    });
+
+    afterAll(async () => {
+        await server.close();
+    });
+
+    beforeEach(() => {
+        server.requests.length = 0;
+    });
+
+    const createAdapter = () => new VertexAdapter({
+        baseUrl: server.origin,
+        project: 'my-project',
+        location: 'us-central1',
+        credentials: {
+            type: 'service_account',
+            client_email: 'caller@my-project.iam.gserviceaccount.com',
+            private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+            token_uri: `${server.origin}/token`
+        }
+    });
+    const modelPath = `/v1/projects/my-project/locations/us-central1/publishers/google/models/${MODEL}`;
+
+    it('exchanges a token and maps generateContent responses', async () => {
+        server.setHandler((request, response) => {
+            if (request.url === '/token') {
+                sendJson(response, 200, { access_token: 'vertex-token', expires_in: 3600 });
+                return;
+            }
+            sendJson(response, 200, {
+                candidates: [{ content: { role: 'model', parts: [{ text: 'Hello from Vertex' }] }, finishReason: 'STOP' }],
+                usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 4, totalTokenCount: 14 },
+                modelVersion: MODEL
+            });
+        });
+
+        const response = await createAdapter().chatCall(MODEL, {
+            model: MODEL,
+            messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Hi' }],
+            settings: { temperature: 0.3 }
+        });
+
+        const call = server.requests[1];
+        expect(call.url).toBe(`${modelPath}:generateContent`);
+        expect(call.headers.authorization).toBe('Bearer vertex-token');
+        expect(JSON.parse(call.body)).toEqual({
+            contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+            systemInstruction: { role: 'user', parts: [{ text: 'Be brief.' }] },
+            generationConfig: { temperature: 0.3 }
+        });
+        expect(response).toMatchObject({
+            content: 'Hello from Vertex',
+            metadata: {
+                finishReason: FinishReason.STOP,
+                usage: { tokens: { input: { total: 10 }, output: { total: 4 }, total: 14 } }
+            }
+        });
+        expect(response.metadata?.usage?.costs.total).toBeGreaterThan(0);
+    });
+
+    it('streams tool calls over server-sent events', async () => {
+        server.setHandler((request, response) => {
+            if (request.url === '/token') {
+                sendJson(response, 200, { access_token: 'vertex-token', expires_in: 3600 });
+                return;
+            }
+            response.writeHead(200, { 'content-type': 'text/event-stream' });
+            response.write(`data: ${JSON.stringify({
+                candidates: [{ content: { role: 'model', parts: [{ text: 'Looking up.' }] } }]
+            })}\r\n\r\n`);
+            response.end(`data: ${JSON.stringify({
+                candidates: [{
+                    content: { role: 'model', parts: [{ functionCall: { name: 'lookup', args: { id: '7' } } }] },
+                    finishReason: 'STOP'
+                }],
+                usageMetadata: { promptTokenCount: 20, candidatesTokenCount: 8, totalTokenCount: 28 }
+            })}\r\n\r\n`);
+        });
+
+        const stream = await createAdapter().streamCall(MODEL, {
+            model: MODEL,
+            messages: [{ role: 'user', content: 'Find 7' }],
+            tools: [{ name: 'lookup', parameters: { type: 'object', properties: { id: { type: 'string' } } } }]
+        });
+        const chunks: UniversalStreamResponse[] = [];
+        for await (const chunk of stream) chunks.push(chunk);
+
+        expect(server.requests.at(-1)?.url).toBe(`${modelPath}:streamGenerateContent?alt=sse`);
+        expect(chunks.flatMap(chunk => chunk.toolCallChunks ?? [])).toMatchObject([
+            { name: 'lookup', argumentsChunk: '{"id":"7"}' }
+        ]);
+        expect(chunks.at(-1)).toMatchObject({
+            isComplete: true,
+            contentText: 'Looking up.',
+            metadata: {
+                finishReason: FinishReason.TOOL_CALLS,
+                usage: { tokens: { input: { total: 20 }, output: { total: 8 }, total: 28 } }
+            }
+        });
+    });
+
+    it('creates a cached content for a hinted prefix and names it in the request', async () => {
+        server.setHandler((request, response) => {
+            if (request.url === '/token') {
+                sendJson(response, 200, { access_token: 'vertex-token', expires_in: 3600 });
+            } else if (request.url?.endsWith('/cachedContents')) {
+                sendJson(response, 200, { name: 'projects/my-project/locations/us-central1/cachedContents/42' });
+            } else {
+                sendJson(response, 200, {
+                    candidates: [{ content: { role: 'model', parts: [{ text: 'Done' }] }, finishReason: 'STOP' }],
+                    usageMetadata: { promptTokenCount: 5000, cachedContentTokenCount: 4800, candidatesTokenCount: 4, totalTokenCount: 5004 }
+                });
+            }
+        });
+
+        const response = await createAdapter().chatCall(MODEL, {
+            model: MODEL,
+            messages: [
+                { role: 'system', content: 'Long instructions', cacheControl: { ttl: '1h' } },
+                { role: 'user', content: 'Question' }
+            ]
+        });
+
+        const [create, call] = server.requests.filter(request => request.url !== '/token');
+        expect(create.url).toBe('/v1/projects/my-project/locations/us-central1/cachedContents');
+        expect(JSON.parse(create.body)).toEqual({
+            model: `projects/my-project/locations/us-central1/publishers/google/models/${MODEL}`,
+            contents: [],
+            systemInstruction: { role: 'user', parts: [{ text: 'Long instructions' }] },
+            ttl: '3600s'
+        });
+        expect(JSON.parse(call.body)).toEqual({
+            contents: [{ role: 'user', parts: [{ text: 'Question' }] }],
+            cachedContent: 'projects/my-project/locations/us-central1/cachedContents/42'
+        });
+        expect(response.metadata?.usage?.tokens.input).toMatchObject({ total: 5000, cached: 4800 });
+        expect(response.metadata?.usage?.costs.input.cacheSavings).toBeGreaterThan(0);
+    });
+
+    it('maps quota errors through the Gemini error mapping', async () => {
+        server.setHandler((_request, response) => sendJson(response, 429, {
+            error: { code: 429, message: 'Quota exceeded for aiplatform.googleapis.com', status: 'RESOURCE_EXHAUSTED' }
+        }));
+
+        const adapter = new VertexAdapter({ baseUrl: server.origin, project: 'my-project', apiKey: 'static-token' });
+        const call = adapter.chatCall(MODEL, { model: MODEL, messages: [{ role: 'user', content: 'Hi' }] });
+
+        await expect(call).rejects.toBeInstanceOf(GeminiRateLimitError);
+        await expect(call).rejects.toThrow('Vertex AI request failed (429): Quota exceeded');
+        expect(server.requests[0].headers.authorization).toBe('Bearer static-token');
+    });
+});
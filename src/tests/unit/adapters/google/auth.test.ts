@@ -0,0 +1,161 @@
+import { jest } from '@jest/globals';
+import { createVerify, generateKeyPairSync } from 'node:crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+    CLOUD_PLATFORM_SCOPE,
+    GoogleAccessTokenProvider,
+    loadGoogleCredentials,
+    type GoogleServiceAccountCredentials
+} from '@/adapters/google/auth.ts';
+import { VertexAdapterError, VertexAuthError } from '@/adapters/google/errors.ts';
+import { sendJson, startLocalGoogleServer, type LocalGoogleServer } from './localGoogleServer.ts';
+
+const decodeSegment = (segment: string): Record<string, unknown> =>
+    JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as Record<string, unknown>;
+
+describe('GoogleAccessTokenProvider', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    let server: LocalGoogleServer;
+    const originalMetadataHost = process.env.GCE_METADATA_HOST;
+
+    beforeAll(async () => {
+        server = await startLocalGoogleServer();
+    });
+
+    afterAll(async () => {
+        await server.close();
+    });
+
+    beforeEach(() => {
+        server.requests.length = 0;
+    });
+
+    afterEach(() => {
+        if (originalMetadataHost === undefined) delete process.env.GCE_METADATA_HOST;
+        else process.env.GCE_METADATA_HOST = originalMetadataHost;
+    });
+
+    const serviceAccount = (): GoogleServiceAccountCredentials => ({
+        type: 'service_account',
+        client_email: 'caller@example-project.iam.gserviceaccount.com',
+        private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+        private_key_id: 'key-1',
+        project_id: 'example-project',
+        token_uri: `${server.origin}/token`
+    });
+
+    it('exchanges a signed service-account JWT and caches the token', async () => {
+        server.setHandler((_request, response) => sendJson(response, 200, {
+            access_token: 'sa-token',
+            expires_in: 3599,
+            token_type: 'Bearer'
+        }));
+        const provider = new GoogleAccessTokenProvider(serviceAccount());
+
+        const [first, second] = await Promise.all([provider.getAccessToken(), provider.getAccessToken()]);
+        expect(first).toBe('sa-token');
+        expect(second).toBe('sa-token');
+        await expect(provider.getAccessToken()).resolves.toBe('sa-token');
+        expect(server.requests).toHaveLength(1);
+
+        const form = new URLSearchParams(server.requests[0].body);
+        expect(form.get('grant_type')).toBe('urn:ietf:params:oauth:grant-type:jwt-bearer');
+        const [header, claims, signature] = form.get('assertion')!.split('.');
+        expect(decodeSegment(header)).toEqual({ alg: 'RS256', typ: 'JWT', kid: 'key-1' });
+        expect(decodeSegment(claims)).toMatchObject({
+            iss: 'caller@example-project.iam.gserviceaccount.com',
+            scope: CLOUD_PLATFORM_SCOPE,
+            aud: `${server.origin}/token`
+        });
+        const verified = createVerify('RSA-SHA256')
+            .update(`${header}.${claims}`)
+            .verify(publicKey, signature, 'base64url');
+        expect(verified).toBe(true);
+    });
+
+    it('refreshes authorized-user credentials', async () => {
+        let issued = 0;
+        server.setHandler((_request, response) => sendJson(response, 200, {
+            access_token: `user-token-${++issued}`,
+            // Already inside the refresh margin, so every call exchanges again.
+            expires_in: 30
+        }));
+        const provider = new GoogleAccessTokenProvider({
+            type: 'authorized_user',
+            client_id: 'client',
+            client_secret: 'secret',
+            refresh_token: 'refresh'
+        });
+        // Point the fixed Google token URL at the local server.
+        const realFetch = globalThis.fetch;
+        const fetchSpy = jest.spyOn(globalThis, 'fetch').mockImplementation((input, init) =>
+            realFetch(String(input).replace('https://oauth2.googleapis.com', server.origin), init)
+        );
+
+        try {
+            await expect(provider.getAccessToken()).resolves.toBe('user-token-1');
+            await expect(provider.getAccessToken()).resolves.toBe('user-token-2');
+        } finally {
+            fetchSpy.mockRestore();
+        }
+
+        expect(Object.fromEntries(new URLSearchParams(server.requests[0].body))).toEqual({
+            grant_type: 'refresh_token',
+            client_id: 'client',
+            client_secret: 'secret',
+            refresh_token: 'refresh'
+        });
+    });
+
+    it('falls back to the metadata server without credentials', async () => {
+        process.env.GCE_METADATA_HOST = server.origin.replace('http://', '');
+        server.setHandler((_request, response) => sendJson(response, 200, { access_token: 'metadata-token', expires_in: 3600 }));
+
+        await expect(new GoogleAccessTokenProvider(undefined).getAccessToken()).resolves.toBe('metadata-token');
+        expect(server.requests[0].url).toBe('/computeMetadata/v1/instance/service-accounts/default/token');
+        expect(server.requests[0].headers['metadata-flavor']).toBe('Google');
+    });
+
+    it('reports rejected exchanges as auth errors', async () => {
+        server.setHandler((_request, response) => sendJson(response, 400, {
+            error: 'invalid_grant',
+            error_description: 'Invalid JWT Signature.'
+        }));
+
+        await expect(new GoogleAccessTokenProvider(serviceAccount()).getAccessToken())
+            .rejects.toThrow(new VertexAuthError(`Token request to ${server.origin}/token failed (400): Invalid JWT Signature.`));
+    });
+});
+
+describe('loadGoogleCredentials', () => {
+    const originalPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+    let directory: string;
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), 'vertex-credentials-'));
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+        if (originalPath === undefined) delete process.env.GOOGLE_APPLICATION_CREDENTIALS;
+        else process.env.GOOGLE_APPLICATION_CREDENTIALS = originalPath;
+    });
+
+    it('reads the file named by GOOGLE_APPLICATION_CREDENTIALS', () => {
+        const file = join(directory, 'key.json');
+        writeFileSync(file, JSON.stringify({ type: 'service_account', client_email: 'a@b', private_key: 'pem', project_id: 'p' }));
+        process.env.GOOGLE_APPLICATION_CREDENTIALS = file;
+
+        expect(loadGoogleCredentials()).toMatchObject({ type: 'service_account', project_id: 'p' });
+    });
+
+    it('rejects credential types it cannot exchange', () => {
+        const file = join(directory, 'federated.json');
+        writeFileSync(file, JSON.stringify({ type: 'external_account' }));
+
+        expect(() => loadGoogleCredentials({ keyFile: file })).toThrow(VertexAdapterError);
+        expect(() => loadGoogleCredentials({ keyFile: file })).toThrow('external_account');
+    });
+});
@@ -0,0 +1,61 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export type RecordedRequest = {
+    method: string;
+    url: string;
+    headers: IncomingMessage['headers'];
+    body: string;
+};
+
+export type LocalGoogleServer = {
+    origin: string;
+    requests: RecordedRequest[];
+    setHandler: (handler: (request: RecordedRequest, response: ServerResponse) => void) => void;
+    close: () => Promise<void>;
+};
+
+/**
+ * Local stand-in for the Google OAuth token endpoint, the metadata server and Vertex AI.
+ * Bodies are kept raw because token requests are form-encoded.
+ */
+export async function startLocalGoogleServer(): Promise<LocalGoogleServer> {
+    const requests: RecordedRequest[] = [];
+    let handler: (request: RecordedRequest, response: ServerResponse) => void = (_request, response) => {
+        response.writeHead(404).end();
+    };
+    const server: Server = createServer((incoming, response) => {
+        const chunks: Buffer[] = [];
+        incoming.on('data', chunk => chunks.push(chunk as Buffer));
+        incoming.on('end', () => {
+            const request = {
+                method: incoming.method ?? 'GET',
+                url: incoming.url ?? '/',
+                headers: incoming.headers,
+                body: Buffer.concat(chunks).toString('utf8')
+            };
+            requests.push(request);
+            handler(request, response);
+        });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        origin: `http://127.0.0.1:${port}`,
+        requests,
+        setHandler: next => {
+            handler = next;
+        },
+        close: () => new Promise<void>((resolve, reject) => {
+            server.closeAllConnections();
+            server.close(error => error ? reject(error) : resolve());
+        })
+    };
+}
+
+export function sendJson(response: ServerResponse, status: number, payload: unknown): void {
+    response.writeHead(status, { 'content-type': 'application/json' });
+    response.end(JSON.stringify(payload));
+}
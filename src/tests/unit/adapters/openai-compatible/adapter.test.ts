@@ -0,0 +1,197 @@
+import { OpenAICompatibleAdapter } from '@/adapters/openai-compatible/adapter.ts';
+import {
+    OpenAICompatibleAdapterError,
+    OpenAICompatibleValidationError
+} from '@/adapters/openai-compatible/errors.ts';
+import { discoverOpenAICompatibleModels } from '@/adapters/openai-compatible/models.ts';
+import { adapterRegistry, getRegisteredProviders } from '@/adapters/index.ts';
+import { LLMCaller } from '@/core/caller/LLMCaller.ts';
+import { FinishReason, type ModelInfo, type UniversalStreamResponse } from '@/interfaces/UniversalInterfaces.ts';
+import {
+    sendEvents,
+    sendJson,
+    startMockServer,
+    type MockOpenAICompatibleServer
+} from './mockServer.ts';
+
+const completion = (model: string) => ({
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    created: 1,
+    model,
+    choices: [{
+        index: 0,
+        finish_reason: 'stop',
+        message: { role: 'assistant', content: 'Hello from the server', reasoning: 'Short greeting.' }
+    }],
+    usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 }
+});
+
+const chunk = (model: string, delta: Record<string, unknown>, finishReason: string | null = null) => ({
+    id: 'chatcmpl-2',
+    object: 'chat.completion.chunk',
+    created: 1,
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }]
+});
+
+describe('OpenAICompatibleAdapter registration and configuration', () => {
+    const originalBaseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+
+    afterEach(() => {
+        if (originalBaseUrl === undefined) delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+        else process.env.OPENAI_COMPATIBLE_BASE_URL = originalBaseUrl;
+    });
+
+    it('is registered', () => {
+        expect(getRegisteredProviders()).toContain('openai-compatible');
+        expect(adapterRegistry.get('openai-compatible')).toBe(OpenAICompatibleAdapter);
+    });
+
+    it('reads OPENAI_COMPATIBLE_BASE_URL and needs no API key', () => {
+        process.env.OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+        expect(() => new OpenAICompatibleAdapter()).not.toThrow();
+    });
+
+    it('fails clearly when no base URL is available', () => {
+        delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+        expect(() => new OpenAICompatibleAdapter()).toThrow(OpenAICompatibleAdapterError);
+        expect(() => new OpenAICompatibleAdapter()).toThrow('OPENAI_COMPATIBLE_BASE_URL');
+    });
+});
+
+describe('OpenAICompatibleAdapter against a local server', () => {
+    let server: MockOpenAICompatibleServer;
+
+    beforeAll(async () => {
+        server = await startMockServer({
+            'GET /v1/models': (_request, response) => sendJson(response, 200, {
+                object: 'list',
+                data: [
+                    { id: 'llama3.2:1b', object: 'model' },
+                    { id: 'qwen3:8b', object: 'model' }
+                ]
+            }),
+            'POST /v1/chat/completions': (request, response) => {
+                const model = String(request.body?.model);
+                if (model === 'missing-model') {
+                    sendJson(response, 404, { error: { message: `model "${model}" not found` } });
+                } else if (request.body?.stream) {
+                    sendEvents(response, [
+                        chunk(model, { role: 'assistant', reasoning_content: 'Plan. ' }),
+                        chunk(model, { content: 'Hel' }),
+                        chunk(model, { content: 'lo' }, 'stop'),
+                        {
+                            ...chunk(model, {}),
+                            choices: [],
+                            usage: { prompt_tokens: 8, completion_tokens: 3, total_tokens: 11 }
+                        }
+                    ]);
+                } else {
+                    sendJson(response, 200, completion(model));
+                }
+            }
+        });
+    });
+
+    afterAll(async () => {
+        await server.close();
+    });
+
+    let models: ModelInfo[];
+
+    beforeEach(async () => {
+        models = await discoverOpenAICompatibleModels({
+            baseUrl: server.baseUrl,
+            models: {
+                'llama3.2:1b': { characteristics: { qualityIndex: 30, outputSpeed: 200, firstTokenLatency: 100 } },
+                'qwen3:8b': {
+                    inputPricePerMillion: 0.05,
+                    outputPricePerMillion: 0.1,
+                    characteristics: { qualityIndex: 60, outputSpeed: 40, firstTokenLatency: 600 }
+                }
+            }
+        });
+    });
+
+    it('calls chat completions and maps the response', async () => {
+        const adapter = new OpenAICompatibleAdapter({ baseUrl: server.baseUrl, models });
+        const response = await adapter.chatCall('qwen3:8b', {
+            model: 'qwen3:8b',
+            messages: [{ role: 'user', content: 'Hi' }]
+        });
+
+        expect(response.content).toBe('Hello from the server');
+        expect(response.reasoning).toBe('Short greeting.');
+        expect(response.metadata).toMatchObject({
+            finishReason: FinishReason.STOP,
+            provider: 'openai-compatible',
+            usage: { tokens: { input: { total: 12 }, output: { total: 5 }, total: 17 } }
+        });
+        expect(response.metadata?.usage?.costs.total).toBeCloseTo((12 * 0.05 + 5 * 0.1) / 1_000_000);
+        expect(server.requests.at(-1)?.headers.authorization).toBe('Bearer sk-no-key-required');
+    });
+
+    it('streams server-sent chunks', async () => {
+        const adapter = new OpenAICompatibleAdapter({ baseUrl: server.baseUrl, models });
+        const stream = await adapter.streamCall('qwen3:8b', {
+            model: 'qwen3:8b',
+            messages: [{ role: 'user', content: 'Hi' }]
+        });
+        const chunks: UniversalStreamResponse[] = [];
+        for await (const item of stream) chunks.push(item);
+
+        const final = chunks.at(-1);
+        expect(chunks.filter(item => !item.isComplete).map(item => item.content).join('')).toBe('Hello');
+        expect(final).toMatchObject({
+            isComplete: true,
+            contentText: 'Hello',
+            reasoningText: 'Plan. ',
+            metadata: {
+                finishReason: FinishReason.STOP,
+                provider: 'openai-compatible',
+                usage: { tokens: { total: 11 } }
+            }
+        });
+        expect(server.requests.at(-1)?.body).toMatchObject({
+            stream: true,
+            stream_options: { include_usage: true }
+        });
+    });
+
+    it('maps server errors', async () => {
+        const adapter = new OpenAICompatibleAdapter({ baseUrl: server.baseUrl, models });
+
+        await expect(adapter.chatCall('missing-model', {
+            model: 'missing-model',
+            messages: [{ role: 'user', content: 'Hi' }]
+        })).rejects.toBeInstanceOf(OpenAICompatibleValidationError);
+    });
+
+    it('resolves presets against discovered models through LLMCaller', async () => {
+        const caller = new LLMCaller('openai-compatible', 'fast', 'You are a helpful assistant.', {
+            providerBaseUrls: { 'openai-compatible': server.baseUrl },
+            providerModels: { 'openai-compatible': models }
+        });
+
+        const [response] = await caller.call('Hi');
+
+        expect(caller.getModel('llama3.2:1b')).toBeDefined();
+        expect(response.content).toBe('Hello from the server');
+        expect(server.requests.at(-1)?.body?.model).toBe('llama3.2:1b');
+    });
+
+    it('keeps discovered models to the callers they are passed to', () => {
+        const withModels = new LLMCaller('openai-compatible', 'llama3.2:1b', 'You are a helpful assistant.', {
+            providerBaseUrls: { 'openai-compatible': server.baseUrl },
+            providerModels: { 'openai-compatible': models }
+        });
+        const withoutModels = new LLMCaller('openai-compatible', 'llama3.2:1b', 'You are a helpful assistant.', {
+            providerBaseUrls: { 'openai-compatible': server.baseUrl }
+        });
+
+        expect(withModels.getModel('llama3.2:1b')).toBeDefined();
+        expect(withoutModels.getModel('llama3.2:1b')).toBeUndefined();
+        expect(withoutModels.getAvailableModels()).toEqual([]);
+    });
+});
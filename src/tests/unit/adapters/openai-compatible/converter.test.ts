@@ -0,0 +1,82 @@
+import { OpenAICompatibleConverter } from '@/adapters/openai-compatible/converter.ts';
+import { createOpenAICompatibleModelInfo } from '@/adapters/openai-compatible/models.ts';
+import { ModelManager } from '@/core/models/ModelManager.ts';
+
+describe('OpenAICompatibleConverter', () => {
+    let converter: OpenAICompatibleConverter;
+
+    beforeEach(() => {
+        converter = new OpenAICompatibleConverter(new ModelManager('openai-compatible', [
+            createOpenAICompatibleModelInfo('llama3.2:3b'),
+            createOpenAICompatibleModelInfo('qwen3:8b', {}, {
+                capabilities: { reasoning: true, input: { text: true } }
+            })
+        ]));
+    });
+
+    it('sends reasoning_effort only to reasoning-capable models', async () => {
+        const params = {
+            model: 'qwen3:8b',
+            messages: [{ role: 'user' as const, content: 'Hi' }],
+            settings: { reasoning: { effort: 'minimal' as const } }
+        };
+
+        expect((await converter.convertToProviderParams('qwen3:8b', params)).reasoning_effort).toBe('low');
+        expect((await converter.convertToProviderParams('llama3.2:3b', params)).reasoning_effort).toBeUndefined();
+    });
+
+    it('omits tool_choice when no tools are sent', async () => {
+        const result = await converter.convertToProviderParams('llama3.2:3b', {
+            model: 'llama3.2:3b',
+            messages: [{ role: 'user', content: 'Hi' }],
+            settings: { toolChoice: 'none' }
+        });
+
+        expect(result).not.toHaveProperty('tool_choice');
+    });
+
+    it('uses JSON object mode and a schema instruction for structured output', async () => {
+        const providerParams = await converter.convertToProviderParams('llama3.2:3b', {
+            model: 'llama3.2:3b',
+            messages: [{ role: 'user', content: 'Describe a cat' }],
+            jsonSchema: {
+                schema: JSON.stringify({
+                    type: 'object',
+                    properties: { name: { type: 'string' } }
+                })
+            }
+        });
+
+        expect(providerParams.response_format).toEqual({ type: 'json_object' });
+        expect(providerParams.messages[0]).toMatchObject({ role: 'system' });
+        expect(providerParams.messages[0].content).toContain('JSON Schema');
+    });
+
+    it('passes server-specific options through without overriding messages', async () => {
+        const providerParams = await converter.convertToProviderParams('llama3.2:3b', {
+            model: 'llama3.2:3b',
+            messages: [{ role: 'user', content: 'Hi' }],
+            settings: {
+                providerOptions: {
+                    'openai-compatible': { top_k: 20, keep_alive: '5m', messages: [] }
+                }
+            }
+        });
+
+        expect(providerParams).toMatchObject({ top_k: 20, keep_alive: '5m' });
+        expect(providerParams.messages).toEqual([{ role: 'user', content: 'Hi' }]);
+    });
+
+    it('reads reasoning from either reasoning_content or reasoning', () => {
+        const response = (message: Record<string, unknown>) => ({
+            id: 'chatcmpl-1',
+            object: 'chat.completion',
+            created: 1,
+            model: 'qwen3:8b',
+            choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: 'ok', ...message } }]
+        });
+
+        expect(converter.convertFromProviderResponse(response({ reasoning_content: 'vLLM' })).reasoning).toBe('vLLM');
+        expect(converter.convertFromProviderResponse(response({ reasoning: 'Ollama' })).reasoning).toBe('Ollama');
+    });
+});
@@ -0,0 +1,75 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export type RecordedRequest = {
+    method: string;
+    url: string;
+    headers: IncomingMessage['headers'];
+    body?: Record<string, unknown>;
+};
+
+export type MockRoute = (
+    request: RecordedRequest,
+    response: ServerResponse
+) => void;
+
+export type MockOpenAICompatibleServer = {
+    baseUrl: string;
+    requests: RecordedRequest[];
+    close: () => Promise<void>;
+};
+
+/**
+ * Minimal stand-in for a local OpenAI-compatible server. Routes are keyed by `METHOD /path`.
+ */
+export async function startMockServer(
+    routes: Record<string, MockRoute>
+): Promise<MockOpenAICompatibleServer> {
+    const requests: RecordedRequest[] = [];
+    const server: Server = createServer((incoming, response) => {
+        const chunks: Buffer[] = [];
+        incoming.on('data', chunk => chunks.push(chunk as Buffer));
+        incoming.on('end', () => {
+            const raw = Buffer.concat(chunks).toString('utf8');
+            const request: RecordedRequest = {
+                method: incoming.method ?? 'GET',
+                url: incoming.url ?? '/',
+                headers: incoming.headers,
+                body: raw ? JSON.parse(raw) as Record<string, unknown> : undefined
+            };
+            requests.push(request);
+
+            const route = routes[`${request.method} ${request.url}`];
+            if (!route) {
+                sendJson(response, 404, { error: { message: `No route for ${request.url}` } });
+                return;
+            }
+            route(request, response);
+        });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        baseUrl: `http://127.0.0.1:${port}/v1`,
+        requests,
+        close: () => new Promise<void>((resolve, reject) => {
+            server.closeAllConnections();
+            server.close(error => error ? reject(error) : resolve());
+        })
+    };
+}
+
+export function sendJson(response: ServerResponse, status: number, payload: unknown): void {
+    response.writeHead(status, { 'content-type': 'application/json' });
+    response.end(JSON.stringify(payload));
+}
+
+export function sendEvents(response: ServerResponse, events: unknown[]): void {
+    response.writeHead(200, { 'content-type': 'text/event-stream' });
+    for (const event of events) {
+        response.write(`data: ${JSON.stringify(event)}\n\n`);
+    }
+    response.end('data: [DONE]\n\n');
+}
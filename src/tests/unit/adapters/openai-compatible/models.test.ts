@@ -0,0 +1,98 @@
+import {
+    createOpenAICompatibleModelInfo,
+    defaultModels,
+    discoverOpenAICompatibleModels
+} from '@/adapters/openai-compatible/models.ts';
+import { OpenAICompatibleAuthError } from '@/adapters/openai-compatible/errors.ts';
+import { ModelManager } from '@/core/models/ModelManager.ts';
+import { sendJson, startMockServer, type MockOpenAICompatibleServer } from './mockServer.ts';
+
+describe('OpenAI-compatible model discovery', () => {
+    let server: MockOpenAICompatibleServer;
+
+    beforeAll(async () => {
+        server = await startMockServer({
+            'GET /v1/models': (_request, response) => sendJson(response, 200, {
+                object: 'list',
+                data: [
+                    { id: 'llama3.2:3b', object: 'model', owned_by: 'library' },
+                    { id: 'qwen2.5-7b-instruct', object: 'model', max_model_len: 32768 },
+                    { object: 'model' }
+                ]
+            })
+        });
+    });
+
+    afterAll(async () => {
+        await server.close();
+    });
+
+    it('builds catalog entries from /models without registering them globally', async () => {
+        const models = await discoverOpenAICompatibleModels({
+            baseUrl: `${server.baseUrl}/`,
+            defaults: { inputPricePerMillion: 0.1, outputPricePerMillion: 0.2 },
+            models: {
+                'qwen2.5-7b-instruct': {
+                    capabilities: { toolCalls: true, input: { text: true } }
+                }
+            }
+        });
+
+        expect(models.map(model => model.name)).toEqual(['llama3.2:3b', 'qwen2.5-7b-instruct']);
+        expect(models[0]).toMatchObject({
+            inputPricePerMillion: 0.1,
+            outputPricePerMillion: 0.2,
+            maxRequestTokens: 8192,
+            capabilities: { streaming: true, toolCalls: false }
+        });
+        expect(models[1]).toMatchObject({
+            maxRequestTokens: 32768,
+            capabilities: { streaming: true, toolCalls: true }
+        });
+        expect(defaultModels).toEqual([]);
+        expect(new ModelManager('openai-compatible').getModel('qwen2.5-7b-instruct')).toBeUndefined();
+        expect(new ModelManager('openai-compatible', models).getModel('qwen2.5-7b-instruct')).toBeDefined();
+        expect(server.requests[0].headers.authorization).toBe('Bearer sk-no-key-required');
+    });
+
+    it('adds override-only models that the server does not list', async () => {
+        const models = await discoverOpenAICompatibleModels({
+            baseUrl: server.baseUrl,
+            models: { 'mistral-nemo': { maxRequestTokens: 128000 } }
+        });
+
+        expect(models.map(model => model.name)).toContain('mistral-nemo');
+    });
+
+    it('requires a base URL', async () => {
+        const original = process.env.OPENAI_COMPATIBLE_BASE_URL;
+        delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+        try {
+            await expect(discoverOpenAICompatibleModels()).rejects.toThrow('OPENAI_COMPATIBLE_BASE_URL');
+        } finally {
+            if (original !== undefined) process.env.OPENAI_COMPATIBLE_BASE_URL = original;
+        }
+    });
+
+    it('maps HTTP failures to adapter errors', async () => {
+        const failing = await startMockServer({
+            'GET /v1/models': (_request, response) => sendJson(response, 401, {
+                error: { message: 'invalid key' }
+            })
+        });
+        try {
+            await expect(discoverOpenAICompatibleModels({ baseUrl: failing.baseUrl }))
+                .rejects.toBeInstanceOf(OpenAICompatibleAuthError);
+            expect(defaultModels).toEqual([]);
+        } finally {
+            await failing.close();
+        }
+    });
+
+    it('caps response tokens at the context length', () => {
+        const model = createOpenAICompatibleModelInfo('tiny', {}, {}, 2048);
+
+        expect(model.maxRequestTokens).toBe(2048);
+        expect(model.maxResponseTokens).toBe(2048);
+    });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { OpenAI } from 'openai';
+import { OpenAIResponseAdapter } from '@/adapters/openai/adapter.ts';
+import { OpenAIResponseAdapterError } from '@/adapters/openai/errors.ts';
+
+const MODEL = 'gpt-5-mini';
+
+const batch = (overrides: Record<string, unknown> = {}) => ({
+    id: 'batch_1',
+    object: 'batch',
+    endpoint: '/v1/responses',
+    input_file_id: 'file_in',
+    completion_window: '24h',
+    status: 'validating',
+    created_at: 1_700_000_000,
+    metadata: { model: MODEL },
+    request_counts: { total: 2, completed: 0, failed: 0 },
+    ...overrides
+});
+
+const responseBody = (text: string) => ({
+    id: 'resp_1',
+    object: 'response',
+    created_at: 1_700_000_000,
+    model: `${MODEL}-2025-08-07`,
+    status: 'completed',
+    output: [{
+        type: 'message',
+        id: 'msg_1',
+        role: 'assistant',
+        status: 'completed',
+        content: [{ type: 'output_text', text, annotations: [] }]
+    }],
+    usage: { input_tokens: 10, output_tokens: 4, total_tokens: 14 }
+});
+
+describe('OpenAIResponseAdapter batch', () => {
+    let adapter: OpenAIResponseAdapter;
+    let filesCreate: jest.Mock<(...args: any[]) => Promise<unknown>>;
+    let filesContent: jest.Mock<(...args: any[]) => Promise<unknown>>;
+    let batchesCreate: jest.Mock<(...args: any[]) => Promise<unknown>>;
+    let batchesRetrieve: jest.Mock<(...args: any[]) => Promise<unknown>>;
+
+    beforeEach(() => {
+        filesCreate = jest.fn(async () => ({ id: 'file_in' }));
+        filesContent = jest.fn();
+        batchesCreate = jest.fn(async () => batch());
+        batchesRetrieve = jest.fn();
+
+        adapter = new OpenAIResponseAdapter({ apiKey: 'sk-test-batch' });
+        (adapter as unknown as { client: OpenAI }).client = {
+            files: { create: filesCreate, content: filesContent },
+            batches: { create: batchesCreate, retrieve: batchesRetrieve, cancel: jest.fn() }
+        } as unknown as OpenAI;
+    });
+
+    it('uploads the requests as JSONL for the Responses endpoint', async () => {
+        const job = await adapter.batchSubmit(MODEL, [
+            { customId: 'a', params: { model: MODEL, messages: [{ role: 'user', content: 'First' }] } },
+            { customId: 'b', params: { model: MODEL, messages: [{ role: 'user', content: 'Second' }] } }
+        ]);
+
+        const upload = filesCreate.mock.calls[0][0] as { file: File; purpose: string };
+        const lines = (await upload.file.text()).split('\n').map(line => JSON.parse(line));
+        expect(upload.purpose).toBe('batch');
+        expect(lines).toEqual([
+            expect.objectContaining({ custom_id: 'a', method: 'POST', url: '/v1/responses', body: expect.objectContaining({ model: MODEL, stream: false }) }),
+            expect.objectContaining({ custom_id: 'b' })
+        ]);
+        expect(batchesCreate).toHaveBeenCalledWith({
+            input_file_id: 'file_in',
+            endpoint: '/v1/responses',
+            completion_window: '24h',
+            metadata: { model: MODEL }
+        });
+        expect(job).toEqual({
+            id: 'batch_1',
+            provider: 'openai',
+            model: MODEL,
+            status: 'queued',
+            requestCounts: { total: 2, completed: 0, failed: 0 },
+            createdAt: 1_700_000_000_000
+        });
+    });
+
+    it('reads responses and failed requests from the output and error files', async () => {
+        batchesRetrieve.mockResolvedValue(batch({ status: 'completed', output_file_id: 'file_out', error_file_id: 'file_err' }));
+        const files: Record<string, string> = {
+            file_out: JSON.stringify({ custom_id: 'a', response: { status_code: 200, body: responseBody('Hello') }, error: null }),
+            file_err: [
+                JSON.stringify({ custom_id: 'b', response: { status_code: 400, body: { error: { message: 'Bad input', code: 'invalid_request' } } }, error: null }),
+                JSON.stringify({ custom_id: 'c', response: null, error: { code: 'batch_expired', message: 'Expired' } })
+            ].join('\n') + '\n'
+        };
+        filesContent.mockImplementation(async (id: string) => ({ text: async () => files[id] }));
+
+        const results = await adapter.batchResults('batch_1');
+
+        expect(results).toEqual([
+            { customId: 'a', response: expect.objectContaining({ content: 'Hello' }) },
+            { customId: 'b', error: { message: 'Bad input', code: 'invalid_request' } },
+            { customId: 'c', error: { message: 'Expired', code: 'batch_expired' } }
+        ]);
+        expect(results[0].response?.metadata?.usage?.tokens).toMatchObject({ input: { total: 10 }, output: { total: 4 } });
+    });
+
+    it('fails to read the results of a batch that has none yet', async () => {
+        batchesRetrieve.mockResolvedValue(batch({ status: 'in_progress' }));
+
+        await expect(adapter.batchResults('batch_1')).rejects.toThrow(OpenAIResponseAdapterError);
+        await expect(adapter.batchResults('batch_1')).rejects.toThrow('batch is in_progress and has no results');
+    });
+});
@@ -85,6 +85,34 @@ describe('OpenAI Response API Converter', () => {
       }));
     });
 
+    test('should derive prompt_cache_key from the prefix up to the last cache hint', async () => {
+      const prefix: UniversalMessage[] = [
+        { role: 'system', content: 'Long instructions' },
+        { role: 'user', content: 'Long document', cacheControl: true }
+      ];
+      const first = await converter.convertToOpenAIResponseParams('gpt-4o', {
+        model: 'gpt-4o',
+        messages: [...prefix, { role: 'user', content: 'First question' }]
+      });
+      const second = await converter.convertToOpenAIResponseParams('gpt-4o', {
+        model: 'gpt-4o',
+        messages: [...prefix, { role: 'user', content: 'Second question' }]
+      });
+      const otherPrefix = await converter.convertToOpenAIResponseParams('gpt-4o', {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Other document', cacheControl: true }]
+      });
+      const uncached = await converter.convertToOpenAIResponseParams('gpt-4o', {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Hello!' }]
+      });
+
+      expect(first.prompt_cache_key).toMatch(/^[0-9a-f]{32}$/);
+      expect(second.prompt_cache_key).toBe(first.prompt_cache_key);
+      expect(otherPrefix.prompt_cache_key).not.toBe(first.prompt_cache_key);
+      expect(uncached).not.toHaveProperty('prompt_cache_key');
+    });
+
     test('should set text.verbosity for GPT-5 models', async () => {
       const universalParams: UniversalChatParams = {
         messages: [{ role: 'user', content: 'Hello!' }],
@@ -109,6 +109,16 @@ describe('SiliconFlowConverter', () => {
         ).toContain('minimum 2 characters');
     });
 
+    it('omits tool_choice when no tools are sent', async () => {
+        const result = await converter.convertToProviderParams('Qwen/Qwen3-14B', {
+            model: 'Qwen/Qwen3-14B',
+            messages: [{ role: 'user', content: 'Hi' }],
+            settings: { toolChoice: 'none' }
+        });
+
+        expect(result).not.toHaveProperty('tool_choice');
+    });
+
     it('protects model, messages, and stream fields from provider option overrides', async () => {
         const params = createParams();
         params.settings = {
@@ -0,0 +1,133 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { z } from 'zod';
+import { BatchController, type PreparedBatchRequest } from '../../../../core/batch/BatchController.ts';
+import type { ProviderManager } from '../../../../core/caller/ProviderManager.ts';
+import { CapabilityError } from '../../../../core/models/CapabilityError.ts';
+import { ModelManager } from '../../../../core/models/ModelManager.ts';
+import { TokenCalculator } from '../../../../core/models/TokenCalculator.ts';
+import { ResponseProcessor } from '../../../../core/processors/ResponseProcessor.ts';
+import type { LLMProviderBatch, ProviderBatchResult } from '../../../../interfaces/LLMProvider.ts';
+import type { BatchJob, ModelInfo, UniversalChatResponse } from '../../../../interfaces/UniversalInterfaces.ts';
+
+jest.mock('@dqbd/tiktoken');
+
+const MODEL: ModelInfo = {
+    name: 'batch-model',
+    inputPricePerMillion: 2,
+    outputPricePerMillion: 4,
+    batchPricing: { inputFactor: 0.5, outputFactor: 0.25 },
+    maxRequestTokens: 4000,
+    maxResponseTokens: 1000,
+    capabilities: { input: { text: true }, output: { text: true } },
+    characteristics: { qualityIndex: 50, outputSpeed: 50, firstTokenLatency: 500 }
+};
+
+const JOB: BatchJob = {
+    id: 'batch_1',
+    provider: 'openai',
+    model: MODEL.name,
+    status: 'queued',
+    requestCounts: { total: 2, completed: 0, failed: 0 }
+};
+
+const SCHEMA = z.object({ label: z.enum(['spam', 'ham']) });
+
+const reply = (content: string): UniversalChatResponse => ({
+    role: 'assistant',
+    content,
+    metadata: {
+        usage: {
+            tokens: { input: { total: 1000, cached: 0 }, output: { total: 1000, reasoning: 0 }, total: 2000 },
+            costs: { input: { total: 0, cached: 0 }, output: { total: 0, reasoning: 0 }, total: 0, unit: 'USD' }
+        }
+    }
+});
+
+const request = (customId: string, text: string): PreparedBatchRequest => ({
+    customId,
+    params: {
+        model: MODEL.name,
+        messages: [{ role: 'system', content: 'Classify messages.' }, { role: 'user', content: text }],
+        jsonSchema: { name: 'Classification', schema: SCHEMA }
+    }
+});
+
+describe('BatchController', () => {
+    const createController = (provider: LLMProviderBatch | null) => {
+        const modelManager = new ModelManager('openai');
+        modelManager.addModel(MODEL);
+        const providerManager = {
+            getBatchProvider: () => provider,
+            getCurrentProviderName: () => 'openai'
+        } as unknown as ProviderManager;
+        return new BatchController(providerManager, () => modelManager, new ResponseProcessor(), new TokenCalculator());
+    };
+
+    const createProvider = (results: ProviderBatchResult[] = []) => ({
+        batchSubmit: jest.fn(async () => JOB),
+        batchStatus: jest.fn(async () => ({ ...JOB, status: 'completed' as const })),
+        batchResults: jest.fn(async () => results),
+        batchCancel: jest.fn(async () => ({ ...JOB, status: 'cancelling' as const }))
+    });
+
+    it('submits requests with the same JSON instructions as a call', async () => {
+        const provider = createProvider();
+        const controller = createController(provider);
+
+        await expect(controller.submit([request('a', 'Win a prize'), request('b', 'Lunch?')])).resolves.toBe(JOB);
+
+        const [model, requests] = provider.batchSubmit.mock.calls[0] as unknown as Parameters<LLMProviderBatch['batchSubmit']>;
+        expect(model).toBe(MODEL.name);
+        expect(requests.map(item => item.customId)).toEqual(['a', 'b']);
+        expect(requests[0].params.responseFormat).toBe('json');
+        expect(requests[0].params.messages.map(message => message.content).join('\n')).toContain('label');
+    });
+
+    it('rejects batches that mix models or repeat custom IDs', async () => {
+        const controller = createController(createProvider());
+        const other = request('b', 'Lunch?');
+        other.params.model = 'other-model';
+
+        await expect(controller.submit([])).rejects.toThrow('at least one request');
+        await expect(controller.submit([request('a', 'x'), other])).rejects.toThrow('one model');
+        await expect(controller.submit([request('a', 'x'), request('a', 'y')])).rejects.toThrow('Duplicate batch request customId: a');
+    });
+
+    it('validates results in submission order and prices them at batch prices', async () => {
+        const provider = createProvider([
+            { customId: 'c', error: { message: 'Expired', code: 'batch_expired' } },
+            { customId: 'b', response: reply('{"label":"maybe"}') },
+            { customId: 'a', response: reply('{"label":"spam"}') }
+        ]);
+        const controller = createController(provider);
+        await controller.submit([request('a', 'Win a prize'), request('b', 'Lunch?'), request('c', 'Hi')]);
+
+        const results = await controller.results(JOB.id);
+
+        expect(results.map(result => result.customId)).toEqual(['a', 'b', 'c']);
+        expect(results[0]).toEqual({ customId: 'a', response: expect.objectContaining({ contentObject: { label: 'spam' } }) });
+        // 1000 input tokens at $1/M and 1000 output tokens at $1/M
+        expect(results[0].response?.metadata?.usage?.costs.total).toBeCloseTo(0.002);
+        expect(results[1].error?.code).toBe('schema_validation');
+        expect(results[2]).toEqual({ customId: 'c', error: { message: 'Expired', code: 'batch_expired' } });
+    });
+
+    it('validates the results of other jobs against the requests passed in', async () => {
+        const provider = createProvider([{ customId: 'a', response: reply('{"label":"ham"}') }]);
+        const controller = createController(provider);
+
+        const [validated] = await controller.results('batch_other', [request('a', 'Lunch?')]);
+        const [unvalidated] = await controller.results('batch_other');
+
+        expect(validated.response?.contentObject).toEqual({ label: 'ham' });
+        expect(unvalidated.response?.contentObject).toBeUndefined();
+        expect(provider.batchStatus).toHaveBeenCalledTimes(1);
+    });
+
+    it('requires a provider with a Batch API', async () => {
+        const controller = createController(null);
+
+        await expect(controller.status('batch_1')).rejects.toThrow(CapabilityError);
+        await expect(controller.submit([request('a', 'x')])).rejects.toThrow("Provider 'openai' does not support batch jobs");
+    });
+});
@@ -0,0 +1,76 @@
+import { jest } from '@jest/globals';
+import { BudgetExceededError, BudgetGuard, BudgetTracker } from '@/core/budget/BudgetTracker.ts';
+import type { ModelInfo } from '@/interfaces/UniversalInterfaces.ts';
+
+jest.mock('@dqbd/tiktoken');
+
+const MODEL = {
+    name: 'budget-model',
+    inputPricePerMillion: 1,
+    outputPricePerMillion: 2,
+    maxRequestTokens: 4000,
+    maxResponseTokens: 1000
+} as ModelInfo;
+
+describe('BudgetTracker', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('validates its options', () => {
+        expect(() => new BudgetTracker({}, 'caller')).toThrow('budget requires maxCostUsd or maxTokens');
+        expect(() => new BudgetTracker({ maxCostUsd: -1 }, 'caller')).toThrow('budget.maxCostUsd must be a positive number');
+        expect(() => new BudgetTracker({ maxTokens: 10, windowMs: 0 }, 'call')).toThrow('budget.windowMs must be a positive number');
+    });
+
+    it('reports the first limit an amount would exceed', () => {
+        const tracker = new BudgetTracker({ maxCostUsd: 0.01, maxTokens: 1000 }, 'call');
+        tracker.record({ costUsd: 0.008, tokens: 200 });
+
+        expect(tracker.findExceeded({ costUsd: 0.001, tokens: 100 })).toBeUndefined();
+        const costError = tracker.findExceeded({ costUsd: 0.005, tokens: 100 });
+        expect(costError).toBeInstanceOf(BudgetExceededError);
+        expect(costError).toMatchObject({ code: 'BUDGET_EXCEEDED', scope: 'call', limit: 'cost', max: 0.01, spent: 0.008, requested: 0.005 });
+        expect(tracker.findExceeded({ costUsd: 0, tokens: 900 })).toMatchObject({ limit: 'tokens', spent: 200, requested: 900 });
+    });
+
+    it('forgets spending that falls out of the window', () => {
+        jest.useFakeTimers({ now: 1_000_000 });
+        const tracker = new BudgetTracker({ maxTokens: 100, windowMs: 60_000 }, 'caller');
+        tracker.record({ costUsd: 0, tokens: 80 });
+        expect(tracker.findExceeded({ costUsd: 0, tokens: 30 })).toBeDefined();
+
+        jest.advanceTimersByTime(60_001);
+        expect(tracker.getSpent()).toEqual({ costUsd: 0, tokens: 0 });
+        expect(tracker.findExceeded({ costUsd: 0, tokens: 30 })).toBeUndefined();
+    });
+});
+
+describe('BudgetGuard', () => {
+    it('prices estimates from ModelInfo and records into every budget', () => {
+        const callerBudget = new BudgetTracker({ maxCostUsd: 1 }, 'caller');
+        const callBudget = new BudgetTracker({ maxTokens: 5000 }, 'call');
+        const guard = new BudgetGuard([callerBudget, callBudget]);
+
+        expect(guard.price(1000, 500, MODEL)).toEqual({ costUsd: 0.002, tokens: 1500 });
+        expect(guard.estimate([{ role: 'user', content: 'Hello' }], MODEL, 100).tokens).toBeGreaterThan(100);
+
+        guard.recordUsage({
+            tokens: { input: { total: 3000, cached: 0 }, output: { total: 1000, reasoning: 0 }, total: 4000 },
+            costs: { input: { total: 0.003, cached: 0 }, output: { total: 0.002, reasoning: 0 }, total: 0.005, unit: 'USD' }
+        });
+        expect(callerBudget.getSpent()).toEqual({ costUsd: 0.005, tokens: 4000 });
+        expect(() => guard.check({ costUsd: 0, tokens: 2000 })).toThrow(BudgetExceededError);
+    });
+
+    it('offers a downgrade only from a budget that allows it', () => {
+        const guard = new BudgetGuard([
+            new BudgetTracker({ maxCostUsd: 1 }, 'caller'),
+            new BudgetTracker({ maxCostUsd: 0.01, downgradeTo: 'cheap' }, 'call')
+        ]);
+
+        expect(guard.getDowngrade({ costUsd: 0.001, tokens: 0 })).toBeUndefined();
+        expect(guard.getDowngrade({ costUsd: 0.05, tokens: 0 })).toBe('cheap');
+        expect(guard.getDowngrade({ costUsd: 2, tokens: 0 })).toBeUndefined();
+    });
+});
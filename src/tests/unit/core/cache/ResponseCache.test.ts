@@ -0,0 +1,142 @@
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { FileResponseCache } from '@/core/cache/FileResponseCache.ts';
+import { MemoryResponseCache } from '@/core/cache/MemoryResponseCache.ts';
+import {
+    createResponseCacheKey,
+    isCacheableResponse,
+    type ResponseCacheEntry
+} from '@/core/cache/ResponseCache.ts';
+import { FinishReason, type UniversalChatParams } from '@/interfaces/UniversalInterfaces.ts';
+
+const params = (overrides: Partial<UniversalChatParams> = {}): UniversalChatParams => ({
+    model: 'gpt-5-mini',
+    messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Hi' }],
+    settings: { temperature: 0.2, maxRetries: 3 },
+    ...overrides
+});
+
+const entry = (content: string, createdAt = Date.now()): ResponseCacheEntry => ({
+    kind: 'call',
+    createdAt,
+    response: { role: 'assistant', content, metadata: { finishReason: FinishReason.STOP } }
+});
+
+describe('createResponseCacheKey', () => {
+    it('ignores key order, retry settings, timestamps and tool implementations', () => {
+        const lookup = { name: 'lookup', description: 'Find a record', parameters: { type: 'object' as const, properties: {} } };
+        const original = params({ tools: [{ ...lookup, callFunction: async () => 'a' }] });
+        const equivalent = params({
+            settings: { maxRetries: 0, temperature: 0.2 },
+            messages: [
+                { role: 'system', content: 'Be brief.', metadata: { timestamp: 1 } },
+                { content: 'Hi', role: 'user' }
+            ],
+            tools: [{ parameters: lookup.parameters, description: lookup.description, name: lookup.name, callFunction: async () => 'b' }]
+        });
+
+        expect(createResponseCacheKey('call', 'OpenAI', equivalent)).toBe(createResponseCacheKey('call', 'openai', original));
+        expect(createResponseCacheKey('call', 'openai', original)).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('hashes Zod schemas by their JSON Schema', () => {
+        const schema = z.object({ answer: z.string() });
+
+        expect(createResponseCacheKey('call', 'openai', params({ jsonSchema: { name: 'Answer', schema } })))
+            .toBe(createResponseCacheKey('call', 'openai', params({ jsonSchema: { name: 'Answer', schema: z.object({ answer: z.string() }) } })));
+        expect(createResponseCacheKey('call', 'openai', params({ jsonSchema: { name: 'Answer', schema } })))
+            .not.toBe(createResponseCacheKey('call', 'openai', params({ jsonSchema: { name: 'Answer', schema: z.object({ answer: z.number() }) } })));
+    });
+
+    it.each<[string, string, string, UniversalChatParams]>([
+        ['kind', 'stream', 'openai', params()],
+        ['provider', 'call', 'anthropic', params()],
+        ['model', 'call', 'openai', params({ model: 'gpt-5' })],
+        ['messages', 'call', 'openai', params({ messages: [{ role: 'user', content: 'Hello' }] })],
+        ['settings', 'call', 'openai', params({ settings: { temperature: 0.9 } })],
+        ['tool results', 'call', 'openai', params({
+            messages: [...params().messages, { role: 'tool', content: '{"id":7}', toolCallId: 'call_1' }]
+        })]
+    ])('changes with the %s', (_field, kind, provider, changed) => {
+        expect(createResponseCacheKey(kind as 'call' | 'stream', provider, changed))
+            .not.toBe(createResponseCacheKey('call', 'openai', params()));
+    });
+});
+
+describe('isCacheableResponse', () => {
+    it('rejects responses that request tools or report errors', () => {
+        expect(isCacheableResponse({ role: 'assistant', content: 'Done', metadata: { finishReason: FinishReason.STOP } })).toBe(true);
+        expect(isCacheableResponse({
+            role: 'assistant',
+            content: '',
+            toolCalls: [{ id: 'call_1', name: 'lookup', arguments: {} }]
+        })).toBe(false);
+        expect(isCacheableResponse({
+            role: 'assistant',
+            content: '',
+            isComplete: false,
+            toolCallChunks: [{ index: 0, name: 'lookup', argumentsChunk: '{' }]
+        })).toBe(false);
+        expect(isCacheableResponse({ role: 'assistant', content: '', metadata: { finishReason: FinishReason.ERROR } })).toBe(false);
+    });
+});
+
+describe('MemoryResponseCache', () => {
+    it('evicts the least recently used entry', async () => {
+        const cache = new MemoryResponseCache({ maxEntries: 2 });
+        await cache.set('a', entry('A'));
+        await cache.set('b', entry('B'));
+        await cache.get('a');
+        await cache.set('c', entry('C'));
+
+        expect(cache.size).toBe(2);
+        await expect(cache.get('b')).resolves.toBeUndefined();
+        await expect(cache.get('a')).resolves.toMatchObject({ response: { content: 'A' } });
+    });
+
+    it('expires entries after the TTL and hands out copies', async () => {
+        const cache = new MemoryResponseCache({ ttlMs: 1000 });
+        await cache.set('old', entry('Old', Date.now() - 2000));
+        await cache.set('new', entry('New'));
+
+        await expect(cache.get('old')).resolves.toBeUndefined();
+        const hit = await cache.get('new');
+        if (hit?.kind === 'call') hit.response.content = 'Changed';
+        await expect(cache.get('new')).resolves.toMatchObject({ response: { content: 'New' } });
+    });
+});
+
+describe('FileResponseCache', () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), 'response-cache-'));
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('persists entries across instances', async () => {
+        await new FileResponseCache(join(directory, 'nested')).set('key', entry('Stored'));
+
+        await expect(new FileResponseCache({ directory: join(directory, 'nested') }).get('key'))
+            .resolves.toMatchObject({ kind: 'call', response: { content: 'Stored' } });
+        expect(readdirSync(join(directory, 'nested'))).toEqual(['key.json']);
+    });
+
+    it('treats expired and unreadable entries as misses', async () => {
+        const cache = new FileResponseCache({ directory, ttlMs: 1000 });
+        await cache.set('old', entry('Old', Date.now() - 2000));
+        writeFileSync(join(directory, 'broken.json'), '{');
+
+        await expect(cache.get('old')).resolves.toBeUndefined();
+        await expect(cache.get('broken')).resolves.toBeUndefined();
+        expect(readdirSync(directory)).toEqual(['broken.json']);
+
+        await cache.clear();
+        expect(readdirSync(directory)).toEqual([]);
+    });
+});
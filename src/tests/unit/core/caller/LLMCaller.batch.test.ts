@@ -0,0 +1,80 @@
+import { jest } from '@jest/globals';
+import { LLMCaller } from '../../../../core/caller/LLMCaller.ts';
+import type { ProviderManager } from '../../../../core/caller/ProviderManager.ts';
+import { ModelManager } from '../../../../core/models/ModelManager.ts';
+import type { LLMProviderBatch } from '../../../../interfaces/LLMProvider.ts';
+import type { BatchJob, ModelInfo } from '../../../../interfaces/UniversalInterfaces.ts';
+
+jest.mock('@dqbd/tiktoken');
+
+const MODEL: ModelInfo = {
+    name: 'batch-model',
+    inputPricePerMillion: 1,
+    outputPricePerMillion: 2,
+    batchPricing: { inputFactor: 0.5, outputFactor: 0.5 },
+    maxRequestTokens: 4000,
+    maxResponseTokens: 1000,
+    capabilities: { input: { text: true }, output: { text: { textOutputFormats: ['text', 'json'] } } },
+    characteristics: { qualityIndex: 50, outputSpeed: 50, firstTokenLatency: 500 }
+};
+
+const JOB: BatchJob = {
+    id: 'batch_1',
+    provider: 'openai',
+    model: MODEL.name,
+    status: 'queued',
+    requestCounts: { total: 2, completed: 0, failed: 0 }
+};
+
+describe('LLMCaller batch', () => {
+    const createCaller = (provider: LLMProviderBatch | null) => {
+        const modelManager = new ModelManager('openai');
+        modelManager.addModel(MODEL);
+        return new LLMCaller('openai', MODEL.name, 'Label each message.', {
+            modelManager,
+            providerManager: {
+                getProvider: jest.fn(),
+                getBatchProvider: jest.fn().mockReturnValue(provider),
+                getCurrentProviderName: jest.fn().mockReturnValue('openai')
+            } as unknown as ProviderManager,
+            settings: { temperature: 0 }
+        });
+    };
+
+    it('submits stateless requests built from the call options', async () => {
+        const provider: LLMProviderBatch = {
+            batchSubmit: jest.fn(async () => JOB),
+            batchStatus: jest.fn(async () => JOB),
+            batchResults: jest.fn(async () => []),
+            batchCancel: jest.fn(async () => JOB)
+        };
+        const caller = createCaller(provider);
+        caller.addMessage('user', 'Earlier conversation');
+
+        await expect(caller.batch.submit([
+            { text: 'Win a prize now' },
+            { customId: 'record-42', text: 'Summarize:', data: { subject: 'Lunch' } }
+        ])).resolves.toBe(JOB);
+
+        const [model, requests] = (provider.batchSubmit as jest.Mock).mock.calls[0] as Parameters<LLMProviderBatch['batchSubmit']>;
+        expect(model).toBe(MODEL.name);
+        expect(requests.map(request => request.customId)).toEqual(['request-0', 'record-42']);
+        expect(requests[0].params).toMatchObject({
+            messages: [
+                { role: 'system', content: 'Label each message.' },
+                { role: 'user', content: 'Win a prize now' }
+            ],
+            settings: { temperature: 0 },
+            historyMode: 'stateless'
+        });
+        expect(requests[1].params.messages[1].content).toContain('Lunch');
+        expect(caller.getMessages().map(message => message.content)).toContain('Earlier conversation');
+    });
+
+    it('rejects batch jobs on providers without a Batch API', async () => {
+        const caller = createCaller(null);
+
+        await expect(caller.batch.submit([{ text: 'Hello' }])).rejects.toThrow("Provider 'openai' does not support batch jobs");
+        await expect(caller.batch.cancel('batch_1')).rejects.toThrow('does not support batch jobs');
+    });
+});
@@ -0,0 +1,180 @@
+import { jest } from '@jest/globals';
+import { LLMCaller } from '../../../../core/caller/LLMCaller.ts';
+import type { ProviderManager } from '../../../../core/caller/ProviderManager.ts';
+import { BudgetExceededError } from '../../../../core/budget/BudgetTracker.ts';
+import { ModelManager } from '../../../../core/models/ModelManager.ts';
+import type { LLMProvider } from '../../../../interfaces/LLMProvider.ts';
+import {
+    FinishReason,
+    type ModelInfo,
+    type UniversalChatResponse,
+    type UniversalStreamResponse
+} from '../../../../interfaces/UniversalInterfaces.ts';
+import type { ToolDefinition } from '../../../../types/tooling.ts';
+
+jest.mock('@dqbd/tiktoken');
+
+// Expensive on purpose, so a handful of tokens moves the budget
+const MODEL: ModelInfo = {
+    name: 'budget-model',
+    inputPricePerMillion: 1000,
+    outputPricePerMillion: 2000,
+    maxRequestTokens: 4000,
+    maxResponseTokens: 1000,
+    capabilities: {
+        streaming: true,
+        toolCalls: true,
+        input: { text: true },
+        output: { text: { textOutputFormats: ['text', 'json'] } }
+    },
+    characteristics: { qualityIndex: 50, outputSpeed: 50, firstTokenLatency: 500 }
+};
+
+// 15 tokens, priced by the caller at $0.02 on MODEL
+const USAGE = {
+    tokens: { input: { total: 10, cached: 0 }, output: { total: 5, reasoning: 0 }, total: 15 },
+    costs: { input: { total: 0, cached: 0 }, output: { total: 0, reasoning: 0 }, total: 0, unit: 'USD' as const }
+};
+
+const reply = (content: string, extra: Partial<UniversalChatResponse> = {}): UniversalChatResponse => ({
+    role: 'assistant',
+    content,
+    metadata: { finishReason: FinishReason.STOP, usage: structuredClone(USAGE) },
+    ...extra
+});
+
+async function collect(stream: AsyncIterable<UniversalStreamResponse>): Promise<UniversalStreamResponse[]> {
+    const chunks: UniversalStreamResponse[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return chunks;
+}
+
+describe('LLMCaller budgets', () => {
+    let provider: jest.Mocked<LLMProvider>;
+
+    const createCaller = (options: Partial<NonNullable<ConstructorParameters<typeof LLMCaller>[3]>> = {}) => {
+        const modelManager = new ModelManager('openai');
+        modelManager.addModel(MODEL);
+        return new LLMCaller('openai', MODEL.name, 'You are a test assistant.', {
+            modelManager,
+            providerManager: {
+                getProvider: jest.fn().mockReturnValue(provider),
+                getCurrentProviderName: jest.fn().mockReturnValue('openai')
+            } as unknown as ProviderManager,
+            ...options
+        });
+    };
+
+    beforeEach(() => {
+        provider = {
+            chatCall: jest.fn(),
+            streamCall: jest.fn(),
+            convertToProviderParams: jest.fn(),
+            convertFromProviderResponse: jest.fn(),
+            convertFromProviderStreamResponse: jest.fn()
+        } as unknown as jest.Mocked<LLMProvider>;
+    });
+
+    it('stops calls once the caller budget cannot cover the next request', async () => {
+        provider.chatCall.mockImplementation(async () => reply('Hi'));
+        const caller = createCaller({ budget: { maxCostUsd: 0.035 } });
+
+        await caller.call('Hello');
+        await caller.call('Hello');
+        const error = await caller.call('Hello').catch((err: unknown) => err);
+
+        expect(error).toBeInstanceOf(BudgetExceededError);
+        expect(error).toMatchObject({ scope: 'caller', limit: 'cost', max: 0.035 });
+        expect((error as BudgetExceededError).spent).toBeCloseTo(0.04);
+        expect(provider.chatCall).toHaveBeenCalledTimes(2);
+    });
+
+    it('counts tool-loop resubmissions against the per-call budget', async () => {
+        const lookup: ToolDefinition = {
+            name: 'lookup',
+            description: 'Looks up a record',
+            parameters: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+            callFunction: jest.fn(async () => ({ name: 'Ada' })) as unknown as ToolDefinition['callFunction']
+        };
+        provider.chatCall.mockResolvedValue(reply('', {
+            toolCalls: [{ id: 'call_1', name: 'lookup', arguments: { id: '7' } }],
+            metadata: { finishReason: FinishReason.TOOL_CALLS, usage: structuredClone(USAGE) }
+        }));
+        const caller = createCaller({ tools: [lookup] });
+
+        await expect(caller.call('Who is record 7?', { budget: { maxTokens: 20 } }))
+            .rejects.toMatchObject({ code: 'BUDGET_EXCEEDED', scope: 'call', limit: 'tokens', spent: 15 });
+        expect(lookup.callFunction).toHaveBeenCalledTimes(1);
+        expect(provider.chatCall).toHaveBeenCalledTimes(1);
+    });
+
+    it('charges tool result summaries to the per-call budget', async () => {
+        const fetchPage: ToolDefinition = {
+            name: 'fetch_page',
+            description: 'Fetches a web page',
+            parameters: { type: 'object', properties: {} },
+            resultPolicy: { maxResultTokens: 20, strategy: 'summarize', summaryModel: MODEL.name },
+            callFunction: jest.fn(async () => 'word '.repeat(200)) as unknown as ToolDefinition['callFunction']
+        };
+        provider.chatCall.mockResolvedValue(reply('', {
+            toolCalls: [{ id: 'call_1', name: 'fetch_page', arguments: {} }],
+            metadata: { finishReason: FinishReason.TOOL_CALLS, usage: structuredClone(USAGE) }
+        }));
+        const caller = createCaller({ tools: [fetchPage] });
+
+        // The summary request cannot fit in what is left of the call's 40 tokens, so it is never sent
+        await expect(caller.call('What does the page say?', { budget: { maxTokens: 40 } }))
+            .rejects.toMatchObject({ code: 'BUDGET_EXCEEDED', scope: 'call', limit: 'tokens' });
+        expect(fetchPage.callFunction).toHaveBeenCalledTimes(1);
+        expect(provider.chatCall).toHaveBeenCalledTimes(1);
+    });
+
+    it('counts every chunk against the same budget, including parallel chunks', async () => {
+        provider.chatCall.mockImplementation(async () => reply('Noted'));
+        const caller = createCaller();
+        const data = Array.from({ length: 40 }, (_, index) => `word${index}`).join(' ');
+
+        await expect(caller.call('Summarize', { data, maxCharsPerChunk: 80, budget: { maxTokens: 40 } }))
+            .rejects.toBeInstanceOf(BudgetExceededError);
+        expect(provider.chatCall).toHaveBeenCalledTimes(2);
+    });
+
+    it('downgrades to a cheaper preset when configured', async () => {
+        provider.chatCall.mockImplementation(async () => reply('Hi'));
+        const caller = createCaller();
+
+        await expect(caller.call('Hello', { budget: { maxCostUsd: 0.005 } })).rejects.toBeInstanceOf(BudgetExceededError);
+        expect(provider.chatCall).not.toHaveBeenCalled();
+
+        const [response] = await caller.call('Hello', { budget: { maxCostUsd: 0.005, downgradeTo: 'cheap' } });
+
+        const downgradedModel = provider.chatCall.mock.calls[0][0];
+        expect(downgradedModel).not.toBe(MODEL.name);
+        expect(response.metadata?.model).toBe(downgradedModel);
+        expect(response.metadata?.usage?.costs.total).toBeLessThan(0.005);
+    });
+
+    it('aborts a stream as soon as its running usage exceeds the budget', async () => {
+        provider.streamCall.mockImplementation(async () => (async function* () {
+            for (let index = 0; index < 10; index++) {
+                yield { role: 'assistant' as const, content: 'one two three four five ', isComplete: false };
+            }
+            yield { role: 'assistant' as const, content: '', isComplete: true, metadata: { finishReason: FinishReason.STOP } };
+        })());
+        const caller = createCaller({ budget: { maxTokens: 30 } });
+        const received: UniversalStreamResponse[] = [];
+
+        const error = await (async () => {
+            for await (const chunk of caller.stream('Tell me a story')) received.push(chunk);
+        })().catch((err: unknown) => err);
+
+        // 9 prompt tokens plus 5 tokens per chunk: the fifth chunk crosses 30
+        expect(error).toBeInstanceOf(BudgetExceededError);
+        expect(received).toHaveLength(4);
+        expect(provider.streamCall.mock.calls[0][1]).not.toHaveProperty('budgetGuard');
+
+        // The aborted stream's running usage still counts against the caller budget
+        await expect(collect(caller.stream('Tell me a story'))).rejects.toBeInstanceOf(BudgetExceededError);
+        expect(provider.streamCall).toHaveBeenCalledTimes(1);
+    });
+});
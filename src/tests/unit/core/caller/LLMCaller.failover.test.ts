@@ -0,0 +1,309 @@
+import { jest } from '@jest/globals';
+import { LLMCaller } from '../../../../core/caller/LLMCaller.ts';
+import { ProviderFailoverError } from '../../../../core/caller/ProviderFailover.ts';
+import { RetryFailedError } from '../../../../core/retry/RetryManager.ts';
+import { ModelSelectionConfigError } from '../../../../core/models/ModelSelection.ts';
+import { ModelManager } from '../../../../core/models/ModelManager.ts';
+import type { RegisteredProviders } from '../../../../adapters/index.ts';
+import type { ModelCapabilities, ModelInfo, UniversalChatResponse, UniversalStreamResponse } from '../../../../interfaces/UniversalInterfaces.ts';
+
+jest.mock('@dqbd/tiktoken');
+
+const PRIMARY = { provider: 'openai' as RegisteredProviders, model: 'gpt-5-mini' };
+const FALLBACK = { provider: 'gemini' as RegisteredProviders, model: 'gemini-3-flash-preview' };
+const OUTAGE = 'Failed after 3 retries. Last error: 503 Service Unavailable. (Hint: Increase \'maxRetries\' in settings if needed)';
+
+function outage(): RetryFailedError {
+    return new RetryFailedError(OUTAGE, Object.assign(new Error('503 Service Unavailable'), { status: 503 }));
+}
+
+function createModelInfo(name: string): ModelInfo {
+    return {
+        name,
+        inputPricePerMillion: 1,
+        outputPricePerMillion: 2,
+        maxRequestTokens: 100000,
+        maxResponseTokens: 8000,
+        capabilities: {
+            streaming: true,
+            input: { text: true },
+            output: { text: { textOutputFormats: ['text', 'json'] } }
+        },
+        characteristics: {
+            qualityIndex: 70,
+            outputSpeed: 100,
+            firstTokenLatency: 500
+        }
+    };
+}
+
+function response(content: string): UniversalChatResponse {
+    return { content, role: 'assistant', metadata: {} };
+}
+
+async function* streamOf(chunks: UniversalStreamResponse[]): AsyncIterable<UniversalStreamResponse> {
+    for (const chunk of chunks) {
+        yield chunk;
+    }
+}
+
+async function collect(stream: AsyncIterable<UniversalStreamResponse>): Promise<UniversalStreamResponse[]> {
+    const chunks: UniversalStreamResponse[] = [];
+    for await (const chunk of stream) {
+        chunks.push(chunk);
+    }
+    return chunks;
+}
+
+describe('LLMCaller failover', () => {
+    const openaiProvider = { chatCall: jest.fn(), streamCall: jest.fn() };
+    const geminiProvider = { chatCall: jest.fn(), streamCall: jest.fn() };
+    let chatController: { execute: jest.Mock; setToolOrchestrator: jest.Mock };
+    let streamingService: Record<string, jest.Mock>;
+    let historyMessages: Array<{ role: string; content: string }>;
+
+    const createCaller = (
+        selection: ConstructorParameters<typeof LLMCaller>[1] = PRIMARY,
+        options: Partial<NonNullable<ConstructorParameters<typeof LLMCaller>[3]>> = {}
+    ) => {
+        const caller = new LLMCaller(['openai', 'gemini'] as RegisteredProviders[], selection, 'System message', {
+            providerManager: {
+                getProvider: jest.fn().mockReturnValue(openaiProvider),
+                getCurrentProviderName: jest.fn().mockReturnValue('openai'),
+                useProviderInstance: jest.fn(),
+                switchProvider: jest.fn()
+            } as any,
+            providerPool: {
+                getProviderScope: jest.fn().mockReturnValue(['openai', 'gemini']),
+                getInterfaceSupport: jest.fn().mockReturnValue({
+                    chatCall: true,
+                    streamCall: true,
+                    imageCall: false,
+                    videoCall: false,
+                    embeddingCall: false,
+                    rerankCall: false,
+                    audioCall: false
+                }),
+                getProvider: jest.fn((name: string) => name === 'gemini' ? geminiProvider : openaiProvider)
+            } as any,
+            modelManager: {
+                getModel: jest.fn((name: string) => createModelInfo(name))
+            } as any,
+            historyManager: {
+                addMessage: jest.fn((role: string, content: string) => historyMessages.push({ role, content })),
+                getMessages: jest.fn(() => historyMessages),
+                initializeWithSystemMessage: jest.fn(),
+                beginTransaction: jest.fn(),
+                runInTransaction: jest.fn((_transaction: unknown, operation: () => unknown) => operation()),
+                commitTransaction: jest.fn()
+            } as any,
+            chatController: chatController as any,
+            streamingService: streamingService as any,
+            toolsManager: { listTools: jest.fn().mockReturnValue([]) } as any,
+            tokenCalculator: {
+                calculateTokens: jest.fn().mockReturnValue(10),
+                calculateTotalTokens: jest.fn().mockReturnValue(10)
+            } as any,
+            ...options
+        });
+        (caller as any).requestProcessor = {
+            processRequest: jest.fn().mockResolvedValue(['hello'])
+        };
+        return caller;
+    };
+
+    beforeEach(() => {
+        historyMessages = [];
+        chatController = {
+            execute: jest.fn(),
+            setToolOrchestrator: jest.fn()
+        };
+        streamingService = {
+            createStream: jest.fn(),
+            setToolOrchestrator: jest.fn(),
+            setCallerId: jest.fn(),
+            setUsageCallback: jest.fn()
+        };
+        jest.spyOn(ModelManager, 'getCapabilities').mockReturnValue({
+            streaming: true,
+            input: { text: true },
+            output: { text: true }
+        } as ModelCapabilities);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('call()', () => {
+        it('moves to the next explicit target after a retryable outage and records the hop', async () => {
+            chatController.execute
+                .mockRejectedValueOnce(outage())
+                .mockResolvedValueOnce(response('from gemini'));
+            const caller = createCaller(PRIMARY, { failover: [FALLBACK] });
+
+            const [result] = await caller.call('hello');
+
+            expect(result.content).toBe('from gemini');
+            expect(chatController.execute).toHaveBeenCalledTimes(2);
+            const [params, execution] = chatController.execute.mock.calls[1] as any[];
+            expect(params.model).toBe(FALLBACK.model);
+            expect(execution).toMatchObject({ providerName: 'gemini', provider: geminiProvider });
+            expect(result.metadata).toMatchObject({ provider: 'gemini', model: FALLBACK.model });
+            expect(result.metadata?.modelResolution?.selected).toEqual(FALLBACK);
+            expect(result.metadata?.modelResolution?.failover).toEqual([
+                { ...PRIMARY, outcome: 'failed', error: OUTAGE }
+            ]);
+        });
+
+        it('does not fail over on non-retryable errors', async () => {
+            const error = new RetryFailedError(
+                'Operation failed without retrying (non-retryable error). Error: 401 Unauthorized',
+                Object.assign(new Error('401 Unauthorized'), { status: 401 })
+            );
+            chatController.execute.mockRejectedValueOnce(error);
+            const caller = createCaller(PRIMARY, { failover: [FALLBACK] });
+
+            await expect(caller.call('hello')).rejects.toBe(error);
+            expect(chatController.execute).toHaveBeenCalledTimes(1);
+        });
+
+        it('does not fail over on errors that only mention an outage in their message', async () => {
+            const error = new Error('Tool lookup_status failed: upstream returned 503');
+            chatController.execute.mockRejectedValueOnce(error);
+            const caller = createCaller(PRIMARY, { failover: [FALLBACK] });
+
+            await expect(caller.call('hello')).rejects.toBe(error);
+            expect(chatController.execute).toHaveBeenCalledTimes(1);
+        });
+
+        it('throws ProviderFailoverError with every hop once the chain is exhausted', async () => {
+            chatController.execute.mockRejectedValue(outage());
+            const caller = createCaller(PRIMARY, { failover: [FALLBACK] });
+
+            const error = await caller.call('hello').catch(err => err);
+
+            expect(error).toBeInstanceOf(ProviderFailoverError);
+            expect(error.hops).toEqual([
+                { ...PRIMARY, outcome: 'failed', error: OUTAGE },
+                { ...FALLBACK, outcome: 'failed', error: OUTAGE }
+            ]);
+            expect(chatController.execute).toHaveBeenCalledTimes(2);
+        });
+
+        it('skips targets that cannot serve the request', async () => {
+            chatController.execute
+                .mockRejectedValueOnce(outage())
+                .mockResolvedValueOnce(response('from gemini'));
+            const caller = createCaller(PRIMARY, {
+                failover: [{ provider: 'openai' as RegisteredProviders, model: 'missing-model' }, FALLBACK]
+            });
+
+            const [result] = await caller.call('hello');
+
+            expect(result.metadata?.modelResolution?.failover).toEqual([
+                { ...PRIMARY, outcome: 'failed', error: OUTAGE },
+                expect.objectContaining({ provider: 'openai', model: 'missing-model', outcome: 'skipped' })
+            ]);
+            expect(result.metadata?.provider).toBe('gemini');
+        });
+
+        it('does not fail over once the attempt has written to history', async () => {
+            const error = outage();
+            chatController.execute.mockImplementationOnce(async () => {
+                historyMessages.push({ role: 'tool', content: 'side effect' });
+                throw error;
+            });
+            const caller = createCaller(PRIMARY, { failover: [FALLBACK] });
+
+            await expect(caller.call('hello')).rejects.toBe(error);
+            expect(chatController.execute).toHaveBeenCalledTimes(1);
+        });
+
+        it('uses the next ranked resolver candidate with next-best', async () => {
+            chatController.execute
+                .mockRejectedValueOnce(outage())
+                .mockResolvedValueOnce(response('fallback'));
+            const caller = createCaller({
+                preset: 'balanced',
+                constraints: { allowedModels: [PRIMARY.model, FALLBACK.model] }
+            }, { failover: 'next-best' });
+
+            const [result] = await caller.call('hello');
+
+            const firstModel = (chatController.execute.mock.calls[0][0] as any).model;
+            const secondModel = (chatController.execute.mock.calls[1][0] as any).model;
+            expect([firstModel, secondModel].sort()).toEqual([FALLBACK.model, PRIMARY.model].sort());
+            expect(result.metadata?.model).toBe(secondModel);
+            expect(result.metadata?.modelResolution?.failover?.[0]).toMatchObject({ model: firstModel, outcome: 'failed' });
+        });
+
+        it('does not fail over requests split into chunks', async () => {
+            chatController.execute.mockRejectedValue(outage());
+            const caller = createCaller(PRIMARY, { failover: [FALLBACK] });
+            (caller as any).requestProcessor.processRequest.mockResolvedValue(['part one', 'part two']);
+
+            const error = await caller.call('hello', { data: 'a large document' }).catch(err => err);
+
+            expect(error).not.toBeInstanceOf(ProviderFailoverError);
+            expect(error.message).toContain('503 Service Unavailable');
+            // Both chunks are sent in parallel, and neither is retried with the fallback target
+            expect(chatController.execute).toHaveBeenCalledTimes(2);
+            expect(chatController.execute.mock.calls.map(([params]) => (params as any).model)).toEqual([PRIMARY.model, PRIMARY.model]);
+        });
+
+        it('lets a call disable the caller-level chain', async () => {
+            const error = outage();
+            chatController.execute.mockRejectedValueOnce(error);
+            const caller = createCaller(PRIMARY, { failover: [FALLBACK] });
+
+            await expect(caller.call('hello', { failover: false })).rejects.toBe(error);
+            expect(chatController.execute).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('stream()', () => {
+        it('fails over when the stream fails before any content', async () => {
+            streamingService.createStream
+                .mockRejectedValueOnce(outage())
+                .mockResolvedValueOnce(streamOf([
+                    { content: 'from gemini', role: 'assistant', isComplete: true }
+                ]));
+            const caller = createCaller(PRIMARY, { failover: [FALLBACK] });
+
+            const chunks = await collect(caller.stream('hello'));
+
+            expect(chunks.map(chunk => chunk.content)).toEqual(['from gemini']);
+            expect(streamingService.createStream).toHaveBeenCalledTimes(2);
+            expect(streamingService.createStream.mock.calls[1][1]).toBe(FALLBACK.model);
+            expect(streamingService.createStream.mock.calls[1][3]).toMatchObject({ providerName: 'gemini' });
+            expect(chunks[0].metadata?.modelResolution?.failover).toEqual([
+                { ...PRIMARY, outcome: 'failed', error: OUTAGE }
+            ]);
+        });
+
+        it('does not fail over after the first content chunk', async () => {
+            const error = outage();
+            streamingService.createStream.mockResolvedValueOnce((async function* () {
+                yield { content: 'partial', role: 'assistant', isComplete: false } as UniversalStreamResponse;
+                throw error;
+            })());
+            const caller = createCaller(PRIMARY, { failover: [FALLBACK] });
+            const received: string[] = [];
+
+            await expect((async () => {
+                for await (const chunk of caller.stream('hello')) {
+                    received.push(chunk.content);
+                }
+            })()).rejects.toBe(error);
+            expect(received).toEqual(['partial']);
+            expect(streamingService.createStream).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    it('rejects explicit targets outside the provider scope', () => {
+        expect(() => createCaller(PRIMARY, {
+            failover: [{ provider: 'anthropic' as RegisteredProviders, model: 'claude' }]
+        })).toThrow(ModelSelectionConfigError);
+    });
+});
@@ -530,7 +530,10 @@ describe('LLMCaller - MCP Direct Access', () => {
       expect(internalChatCallSpy).toHaveBeenCalledWith(
         expect.objectContaining({
           tools: mockResolvedTools
-        })
+        }),
+        undefined,
+        expect.anything(),
+        undefined
       );
 
       // Verify the response was returned with stable model metadata
@@ -0,0 +1,104 @@
+import { jest } from '@jest/globals';
+import { LLMCaller } from '../../../../core/caller/LLMCaller.ts';
+import type { ProviderManager } from '../../../../core/caller/ProviderManager.ts';
+import { BudgetExceededError, BudgetTracker } from '../../../../core/budget/BudgetTracker.ts';
+import { ModelManager } from '../../../../core/models/ModelManager.ts';
+import type { MCPSamplingRequest, MCPSamplingResult } from '../../../../core/mcp/MCPSampling.ts';
+import type { LLMProvider } from '../../../../interfaces/LLMProvider.ts';
+import { FinishReason, type ModelInfo, type UniversalChatParams } from '../../../../interfaces/UniversalInterfaces.ts';
+
+jest.mock('@dqbd/tiktoken');
+
+const model = (name: string): ModelInfo => ({
+    name,
+    inputPricePerMillion: 1,
+    outputPricePerMillion: 2,
+    maxRequestTokens: 4000,
+    maxResponseTokens: 1000,
+    capabilities: { input: { text: true }, output: { text: true } },
+    characteristics: { qualityIndex: 50, outputSpeed: 50, firstTokenLatency: 500 }
+});
+
+const USAGE = {
+    tokens: { input: { total: 10, cached: 0 }, output: { total: 5, reasoning: 0 }, total: 15 },
+    costs: { input: { total: 0.00001, cached: 0 }, output: { total: 0.00001, reasoning: 0 }, total: 0.00002, unit: 'USD' as const }
+};
+
+const REQUEST: MCPSamplingRequest = {
+    serverKey: 'docs',
+    messages: [{ role: 'user', content: 'Summarize the release notes' }],
+    systemPrompt: 'Answer in one sentence',
+    maxTokens: 100
+};
+
+describe('LLMCaller MCP sampling', () => {
+    let provider: jest.Mocked<LLMProvider>;
+
+    const createCaller = () => {
+        const modelManager = new ModelManager('openai');
+        modelManager.addModel(model('sampling-model'));
+        modelManager.addModel(model('sampling-mini'));
+        return new LLMCaller('openai', 'sampling-model', 'You are a test assistant.', {
+            modelManager,
+            providerManager: {
+                getProvider: jest.fn().mockReturnValue(provider),
+                getCurrentProviderName: jest.fn().mockReturnValue('openai')
+            } as unknown as ProviderManager
+        });
+    };
+
+    const sample = (caller: LLMCaller, request: MCPSamplingRequest, budget?: BudgetTracker): Promise<MCPSamplingResult> =>
+        (caller as any).createMcpSamplingMessage(request, { signal: new AbortController().signal, ...(budget ? { budget } : {}) });
+
+    beforeEach(() => {
+        provider = {
+            chatCall: jest.fn(async () => ({
+                role: 'assistant',
+                content: 'Bugs were fixed.',
+                metadata: { finishReason: FinishReason.STOP, usage: structuredClone(USAGE) }
+            })),
+            streamCall: jest.fn(),
+            convertToProviderParams: jest.fn(),
+            convertFromProviderResponse: jest.fn(),
+            convertFromProviderStreamResponse: jest.fn()
+        } as unknown as jest.Mocked<LLMProvider>;
+    });
+
+    it('answers sampling requests with the caller provider without touching the history', async () => {
+        const caller = createCaller();
+        const historyBefore = caller.getMessages(true);
+
+        const result = await sample(caller, REQUEST);
+
+        expect(result).toMatchObject({ model: 'sampling-model', content: 'Bugs were fixed.', stopReason: 'endTurn', usage: { tokens: { total: 15 } } });
+        const [modelName, params] = provider.chatCall.mock.calls[0] as [string, UniversalChatParams];
+        expect(modelName).toBe('sampling-model');
+        expect(params.messages).toEqual([
+            { role: 'system', content: 'Answer in one sentence' },
+            { role: 'user', content: 'Summarize the release notes' }
+        ]);
+        expect(params.settings).toEqual({ maxTokens: 100 });
+        expect(caller.getMessages(true)).toEqual(historyBefore);
+    });
+
+    it('selects the model from the server hints', async () => {
+        const caller = createCaller();
+
+        const result = await sample(caller, { ...REQUEST, modelPreferences: { hints: [{ name: 'sampling-mini' }] } });
+
+        expect(provider.chatCall.mock.calls[0][0]).toBe('sampling-mini');
+        expect(result.model).toBe('sampling-mini');
+    });
+
+    it('stops sampling once the server budget is spent', async () => {
+        const caller = createCaller();
+        const budget = new BudgetTracker({ maxTokens: 20 }, 'mcpServer');
+
+        await sample(caller, { ...REQUEST, maxTokens: 1 }, budget);
+        const error = await sample(caller, { ...REQUEST, maxTokens: 1 }, budget).catch((err: unknown) => err);
+
+        expect(error).toBeInstanceOf(BudgetExceededError);
+        expect(error).toMatchObject({ scope: 'mcpServer', limit: 'tokens', spent: 15 });
+        expect(provider.chatCall).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,181 @@
+import { jest } from '@jest/globals';
+import { LLMCaller } from '../../../../core/caller/LLMCaller.ts';
+import type { ProviderManager } from '../../../../core/caller/ProviderManager.ts';
+import { ModelManager } from '../../../../core/models/ModelManager.ts';
+import { RateLimiterRegistry } from '../../../../core/ratelimit/RateLimiter.ts';
+import { TelemetryCollector } from '../../../../core/telemetry/collector/TelemetryCollector.ts';
+import type { TelemetryProvider } from '../../../../core/telemetry/collector/types.ts';
+import type { LLMProvider } from '../../../../interfaces/LLMProvider.ts';
+import {
+    FinishReason,
+    type ModelInfo,
+    type UniversalChatResponse,
+    type UniversalStreamResponse
+} from '../../../../interfaces/UniversalInterfaces.ts';
+
+jest.mock('@dqbd/tiktoken');
+
+const MODEL: ModelInfo = {
+    name: 'limited-model',
+    inputPricePerMillion: 1,
+    outputPricePerMillion: 2,
+    maxRequestTokens: 4000,
+    maxResponseTokens: 1000,
+    capabilities: {
+        streaming: true,
+        input: { text: true },
+        output: { text: { textOutputFormats: ['text', 'json'] } }
+    },
+    characteristics: { qualityIndex: 50, outputSpeed: 50, firstTokenLatency: 500 }
+};
+
+const reply = (content: string, extra: Partial<UniversalChatResponse['metadata']> = {}): UniversalChatResponse => ({
+    role: 'assistant',
+    content,
+    metadata: { finishReason: FinishReason.STOP, ...extra }
+});
+
+const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>(done => { resolve = done; });
+    return { promise, resolve };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('LLMCaller rate limiting', () => {
+    let provider: jest.Mocked<LLMProvider>;
+    let registry: RateLimiterRegistry;
+
+    const createCaller = (options: Partial<NonNullable<ConstructorParameters<typeof LLMCaller>[3]>> = {}) => {
+        const modelManager = new ModelManager('openai');
+        modelManager.addModel(MODEL);
+        return new LLMCaller('openai', MODEL.name, 'You are a test assistant.', {
+            modelManager,
+            providerManager: {
+                getProvider: jest.fn().mockReturnValue(provider),
+                getCurrentProviderName: jest.fn().mockReturnValue('openai')
+            } as unknown as ProviderManager,
+            rateLimiterRegistry: registry,
+            ...options
+        });
+    };
+
+    beforeEach(() => {
+        registry = new RateLimiterRegistry();
+        provider = {
+            chatCall: jest.fn(),
+            streamCall: jest.fn(),
+            convertToProviderParams: jest.fn(),
+            convertFromProviderResponse: jest.fn(),
+            convertFromProviderStreamResponse: jest.fn()
+        } as unknown as jest.Mocked<LLMProvider>;
+    });
+
+    it('queues concurrent callers that share a registry and reports the wait to telemetry', async () => {
+        const telemetryProvider = {
+            name: 'test',
+            init: jest.fn(async () => undefined),
+            startConversation: jest.fn(),
+            endConversation: jest.fn(),
+            startLLM: jest.fn(),
+            addPrompt: jest.fn(),
+            addChoice: jest.fn(),
+            endLLM: jest.fn(),
+            startTool: jest.fn(),
+            endTool: jest.fn(),
+            recordRateLimitQueue: jest.fn()
+        } satisfies TelemetryProvider;
+        const telemetryCollector = new TelemetryCollector({ providers: [telemetryProvider] });
+        await telemetryCollector.awaitReady();
+
+        const firstResponse = deferred<UniversalChatResponse>();
+        provider.chatCall
+            .mockImplementationOnce(() => firstResponse.promise)
+            .mockImplementation(async () => reply('Second'));
+        registry.configure({ [`openai/${MODEL.name}`]: { maxConcurrent: 1 } });
+        const first = createCaller();
+        const second = createCaller({ telemetryCollector });
+
+        const firstCall = first.call('One');
+        await flush();
+        const secondCall = second.call('Two');
+        await flush();
+
+        expect(provider.chatCall).toHaveBeenCalledTimes(1);
+        expect(registry.getStats()).toEqual([{ provider: 'openai', model: MODEL.name, queueDepth: 1, active: 1 }]);
+
+        firstResponse.resolve(reply('First'));
+        await expect(firstCall).resolves.toMatchObject([{ content: 'First' }]);
+        await expect(secondCall).resolves.toMatchObject([{ content: 'Second' }]);
+        expect(telemetryProvider.recordRateLimitQueue).toHaveBeenCalledWith(
+            expect.objectContaining({ provider: 'openai', model: MODEL.name, queueDepth: 1 })
+        );
+    });
+
+    it('applies a caller\'s rateLimits to its own requests only', async () => {
+        const firstResponse = deferred<UniversalChatResponse>();
+        const secondResponse = deferred<UniversalChatResponse>();
+        provider.chatCall
+            .mockImplementationOnce(() => firstResponse.promise)
+            .mockImplementationOnce(() => secondResponse.promise)
+            .mockImplementation(async () => reply('Third'));
+        const limited = createCaller({ rateLimits: { openai: { maxConcurrent: 1 } } });
+        const other = createCaller();
+
+        const firstCall = limited.call('One');
+        await flush();
+        const otherCall = other.call('Two');
+        const thirdCall = limited.call('Three');
+        await flush();
+
+        // The other caller is not held back by the limited caller's limits, and the shared registry is unchanged
+        expect(provider.chatCall).toHaveBeenCalledTimes(2);
+        expect(registry.getStats()).toEqual([{ provider: 'openai', model: MODEL.name, queueDepth: 0, active: 2 }]);
+
+        firstResponse.resolve(reply('First'));
+        secondResponse.resolve(reply('Second'));
+        await expect(firstCall).resolves.toMatchObject([{ content: 'First' }]);
+        await expect(otherCall).resolves.toMatchObject([{ content: 'Second' }]);
+        await expect(thirdCall).resolves.toMatchObject([{ content: 'Third' }]);
+    });
+
+    it('waits out a limit the provider reports as exhausted', async () => {
+        provider.chatCall.mockImplementation(async () => reply('Hi', {
+            rateLimit: { requestsRemaining: 0, requestsResetMs: 200 }
+        }));
+        const caller = createCaller();
+
+        await caller.call('Hello');
+        const startedAt = Date.now();
+        await caller.call('Hello');
+
+        expect(Date.now() - startedAt).toBeGreaterThanOrEqual(150);
+        expect(provider.chatCall).toHaveBeenCalledTimes(2);
+    });
+
+    it('holds the concurrency slot of a stream until it ends', async () => {
+        const lastChunk = deferred<void>();
+        provider.streamCall.mockImplementation(async () => (async function* () {
+            yield { role: 'assistant' as const, content: 'Hel', isComplete: false };
+            await lastChunk.promise;
+            yield { role: 'assistant' as const, content: 'lo', isComplete: true, metadata: { finishReason: FinishReason.STOP } };
+        })());
+        provider.chatCall.mockImplementation(async () => reply('Done'));
+        const caller = createCaller({ rateLimits: { openai: { maxConcurrent: 1 } } });
+
+        const chunks: UniversalStreamResponse[] = [];
+        const streaming = (async () => {
+            for await (const chunk of caller.stream('Stream please')) chunks.push(chunk);
+        })();
+        await flush();
+        const call = caller.call('Then this');
+        await flush();
+        expect(provider.chatCall).not.toHaveBeenCalled();
+
+        lastChunk.resolve();
+        await streaming;
+        await expect(call).resolves.toMatchObject([{ content: 'Done' }]);
+        expect(chunks.at(-1)?.isComplete).toBe(true);
+    });
+});
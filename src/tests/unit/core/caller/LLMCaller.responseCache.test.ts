@@ -0,0 +1,192 @@
+import { jest } from '@jest/globals';
+import { z } from 'zod';
+import { LLMCaller } from '../../../../core/caller/LLMCaller.ts';
+import type { ProviderManager } from '../../../../core/caller/ProviderManager.ts';
+import { MemoryResponseCache } from '../../../../core/cache/MemoryResponseCache.ts';
+import { ModelManager } from '../../../../core/models/ModelManager.ts';
+import type { LLMProvider } from '../../../../interfaces/LLMProvider.ts';
+import {
+    FinishReason,
+    type ModelInfo,
+    type UniversalChatResponse,
+    type UniversalStreamResponse
+} from '../../../../interfaces/UniversalInterfaces.ts';
+import type { ToolDefinition } from '../../../../types/tooling.ts';
+
+jest.mock('@dqbd/tiktoken');
+
+const MODEL: ModelInfo = {
+    name: 'cache-model',
+    inputPricePerMillion: 1,
+    outputPricePerMillion: 2,
+    maxRequestTokens: 4000,
+    maxResponseTokens: 1000,
+    capabilities: {
+        streaming: true,
+        toolCalls: true,
+        input: { text: true },
+        output: { text: { textOutputFormats: ['text', 'json'] } }
+    },
+    characteristics: { qualityIndex: 50, outputSpeed: 50, firstTokenLatency: 500 }
+};
+
+// Provider-reported tokens without costs, so the caller prices them and reports usage
+const USAGE = {
+    tokens: { input: { total: 10, cached: 0 }, output: { total: 5, reasoning: 0 }, total: 15 },
+    costs: { input: { total: 0, cached: 0 }, output: { total: 0, reasoning: 0 }, total: 0, unit: 'USD' as const }
+};
+
+const reply = (content: string, extra: Partial<UniversalChatResponse> = {}): UniversalChatResponse => ({
+    role: 'assistant',
+    content,
+    metadata: { finishReason: FinishReason.STOP, usage: USAGE },
+    ...extra
+});
+
+async function* streamOf(chunks: UniversalStreamResponse[]): AsyncIterable<UniversalStreamResponse> {
+    yield* chunks;
+}
+
+async function collect(stream: AsyncIterable<UniversalStreamResponse>): Promise<UniversalStreamResponse[]> {
+    const chunks: UniversalStreamResponse[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return chunks;
+}
+
+describe('LLMCaller response cache', () => {
+    let provider: jest.Mocked<LLMProvider>;
+    let cache: MemoryResponseCache;
+
+    const createCaller = (options: Partial<NonNullable<ConstructorParameters<typeof LLMCaller>[3]>> = {}) => {
+        const modelManager = new ModelManager('openai');
+        modelManager.addModel(MODEL);
+        return new LLMCaller('openai', MODEL.name, 'You are a test assistant.', {
+            modelManager,
+            providerManager: {
+                getProvider: jest.fn().mockReturnValue(provider),
+                getCurrentProviderName: jest.fn().mockReturnValue('openai')
+            } as unknown as ProviderManager,
+            responseCache: cache,
+            ...options
+        });
+    };
+
+    beforeEach(() => {
+        cache = new MemoryResponseCache();
+        provider = {
+            chatCall: jest.fn(),
+            streamCall: jest.fn(),
+            convertToProviderParams: jest.fn(),
+            convertFromProviderResponse: jest.fn(),
+            convertFromProviderStreamResponse: jest.fn()
+        } as unknown as jest.Mocked<LLMProvider>;
+    });
+
+    it('serves repeated calls from the cache with zero-cost usage', async () => {
+        provider.chatCall.mockResolvedValue(reply('Cached answer'));
+        const usageCallback = jest.fn();
+        const caller = createCaller({ usageCallback });
+
+        const [first] = await caller.call('Hello');
+        const [second] = await caller.call('Hello');
+
+        expect(provider.chatCall).toHaveBeenCalledTimes(1);
+        expect(provider.chatCall.mock.calls[0][1]).not.toHaveProperty('cache');
+        expect(first.metadata?.cache).toBe('miss');
+        expect(first.metadata?.usage?.costs.total).toBeGreaterThan(0);
+        expect(second).toMatchObject({ content: 'Cached answer', metadata: { cache: 'hit', finishReason: FinishReason.STOP } });
+        expect(second.metadata?.usage).toMatchObject({ tokens: { total: 0 }, costs: { total: 0 } });
+        expect(usageCallback).toHaveBeenCalledTimes(1);
+    });
+
+    it('replays JSON responses through schema validation', async () => {
+        const schema = z.object({ city: z.string() });
+        provider.chatCall.mockResolvedValue(reply('{"city":"Paris"}'));
+        const caller = createCaller();
+
+        await caller.call('Capital of France?', { jsonSchema: { name: 'Capital', schema } });
+        const [hit] = await caller.call('Capital of France?', { jsonSchema: { name: 'Capital', schema } });
+
+        expect(provider.chatCall).toHaveBeenCalledTimes(1);
+        expect(hit.contentObject).toEqual({ city: 'Paris' });
+        expect(hit.metadata?.cache).toBe('hit');
+    });
+
+    it('honours per-call read, write and bypass modes', async () => {
+        provider.chatCall
+            .mockResolvedValueOnce(reply('First'))
+            .mockResolvedValueOnce(reply('Refreshed'))
+            .mockResolvedValueOnce(reply('Uncached'));
+        const caller = createCaller();
+
+        const [readMiss] = await caller.call('Hello', { cache: 'read' });
+        expect(readMiss.content).toBe('First');
+        expect(cache.size).toBe(0);
+
+        await caller.call('Hello', { cache: 'write' });
+        const [bypassed] = await caller.call('Hello', { cache: 'bypass' });
+        const [hit] = await caller.call('Hello', { cache: 'read' });
+
+        expect(bypassed.content).toBe('Uncached');
+        expect(bypassed.metadata?.cache).toBeUndefined();
+        expect(hit).toMatchObject({ content: 'Refreshed', metadata: { cache: 'hit' } });
+        expect(provider.chatCall).toHaveBeenCalledTimes(3);
+    });
+
+    it('never caches tool-call turns but caches the answer built from tool results', async () => {
+        const lookup: ToolDefinition = {
+            name: 'lookup',
+            description: 'Looks up a record',
+            parameters: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+            callFunction: jest.fn(async () => ({ name: 'Ada' })) as unknown as ToolDefinition['callFunction']
+        };
+        const toolTurn = () => reply('', {
+            toolCalls: [{ id: 'call_1', name: 'lookup', arguments: { id: '7' } }],
+            metadata: { finishReason: FinishReason.TOOL_CALLS, usage: USAGE }
+        });
+        provider.chatCall
+            .mockResolvedValueOnce(toolTurn())
+            .mockResolvedValueOnce(reply('Record 7 is Ada'))
+            .mockResolvedValueOnce(toolTurn());
+        const caller = createCaller({ tools: [lookup] });
+
+        await caller.call('Who is record 7?');
+        const [second] = await caller.call('Who is record 7?');
+
+        expect(provider.chatCall).toHaveBeenCalledTimes(3);
+        expect(lookup.callFunction).toHaveBeenCalledTimes(2);
+        expect(second).toMatchObject({ content: 'Record 7 is Ada', metadata: { cache: 'hit' } });
+        expect(cache.size).toBe(1);
+    });
+
+    it('replays streams through the stream pipeline', async () => {
+        provider.streamCall.mockImplementation(async () => streamOf([
+            { role: 'assistant', content: 'Hello ', isComplete: false },
+            { role: 'assistant', content: 'there', isComplete: true, metadata: { finishReason: FinishReason.STOP } }
+        ]));
+        const caller = createCaller();
+
+        const live = await collect(caller.stream('Greet me'));
+        const replayed = await collect(caller.stream('Greet me'));
+
+        expect(provider.streamCall).toHaveBeenCalledTimes(1);
+        expect(live.at(-1)?.metadata?.cache).toBe('miss');
+        expect(replayed.map(chunk => chunk.content)).toEqual(live.map(chunk => chunk.content));
+        expect(replayed.at(-1)).toMatchObject({
+            isComplete: true,
+            contentText: 'Hello there',
+            metadata: { cache: 'hit', usage: { costs: { total: 0 } } }
+        });
+    });
+
+    it('does not store streams that fail before completing', async () => {
+        provider.streamCall.mockImplementation(async () => (async function* () {
+            yield { role: 'assistant' as const, content: 'Partial', isComplete: false };
+            throw new Error('connection reset');
+        })());
+        const caller = createCaller({ settings: { maxRetries: 0 } });
+
+        await expect(collect(caller.stream('Greet me'))).rejects.toThrow('connection reset');
+        expect(cache.size).toBe(0);
+    });
+});
@@ -416,6 +416,23 @@ describe('LLMCaller Settings & Configuration', () => {
       expect(results[1].isComplete).toBe(true);
     });
 
+    it('should merge the chunk responses of call() into one response when reduce is set', async () => {
+      mockRequestProcessor.processRequest.mockResolvedValue(['chunk1', 'chunk2']);
+      (llmCaller as any).chunkController = {
+        processChunks: jest.fn(),
+        processChunksParallel: jest.fn().mockResolvedValue([
+          { content: '["a"]', contentObject: ['a'], role: 'assistant' },
+          { content: '["b"]', contentObject: ['b'], role: 'assistant' }] as UniversalChatResponse[]
+        )
+      };
+
+      const responses = await llmCaller.call('Complex message that needs chunking', { reduce: 'concat' });
+
+      expect(responses).toHaveLength(1);
+      expect(responses[0].contentObject).toEqual(['a', 'b']);
+      expect(responses[0].metadata?.processInfo).toEqual({ currentChunk: 2, totalChunks: 2, reducedWith: 'concat' });
+    });
+
     it('should reset history when using stateless history mode', async () => {
       // Set up spy on historyManager.initializeWithSystemMessage
       const initializeSpy = jest.spyOn(mockHistoryManager, 'initializeWithSystemMessage');
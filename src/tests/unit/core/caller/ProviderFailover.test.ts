@@ -0,0 +1,117 @@
+import {
+    FailoverChain,
+    ProviderFailoverError,
+    hasStreamedContent,
+    isFailoverEligibleError,
+    normalizeFailoverOption
+} from '../../../../core/caller/ProviderFailover.ts';
+import { LLMAbortError, LLMTimeoutError } from '../../../../core/execution/errors.ts';
+import { RetryFailedError } from '../../../../core/retry/RetryManager.ts';
+import { AnthropicAuthError, AnthropicRateLimitError } from '../../../../adapters/anthropic/errors.ts';
+import { OpenAIResponseServiceError } from '../../../../adapters/openai/errors.ts';
+import { OpenRouterAdapterError } from '../../../../adapters/openrouter/errors.ts';
+import { ModelSelectionConfigError } from '../../../../core/models/ModelSelection.ts';
+import type { RegisteredProviders } from '../../../../adapters/index.ts';
+
+const openai = { provider: 'openai' as RegisteredProviders, model: 'gpt-5-mini' };
+const gemini = { provider: 'gemini' as RegisteredProviders, model: 'gemini-3-flash-preview' };
+const openrouter = { provider: 'openrouter' as RegisteredProviders, model: 'some-model' };
+
+describe('normalizeFailoverOption', () => {
+    it('returns undefined when failover is disabled', () => {
+        expect(normalizeFailoverOption(undefined)).toBeUndefined();
+        expect(normalizeFailoverOption(false)).toBeUndefined();
+    });
+
+    it('normalizes target arrays and next-best shorthands', () => {
+        expect(normalizeFailoverOption([gemini])).toMatchObject({ targets: [gemini], nextBest: false, maxHops: 3 });
+        expect(normalizeFailoverOption('next-best')).toMatchObject({ targets: [], nextBest: true, maxHops: 3 });
+    });
+
+    it('rejects empty or malformed configurations', () => {
+        expect(() => normalizeFailoverOption([])).toThrow(ModelSelectionConfigError);
+        expect(() => normalizeFailoverOption({ targets: [{ provider: 'gemini' as RegisteredProviders, model: '' }] }))
+            .toThrow(ModelSelectionConfigError);
+        expect(() => normalizeFailoverOption({ nextBest: true, maxHops: 0 })).toThrow(ModelSelectionConfigError);
+    });
+});
+
+describe('isFailoverEligibleError', () => {
+    it('accepts typed outages after retries are exhausted', () => {
+        const unavailable = Object.assign(new Error('Service Unavailable'), { status: 503 });
+        const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+        expect(isFailoverEligibleError(new RetryFailedError('Failed after 3 retries. Last error: Service Unavailable', unavailable))).toBe(true);
+        expect(isFailoverEligibleError(new RetryFailedError('Failed after 3 retries. Last error: socket hang up', reset))).toBe(true);
+        expect(isFailoverEligibleError(new OpenAIResponseServiceError('OpenAI service error'))).toBe(true);
+        expect(isFailoverEligibleError(new AnthropicRateLimitError('Rate limit exceeded'))).toBe(true);
+    });
+
+    it('reads the status from the error an adapter wraps', () => {
+        const sdkError = Object.assign(new Error('Bad gateway'), { status: 502 });
+        expect(isFailoverEligibleError(new OpenRouterAdapterError('Internal server error: Bad gateway', sdkError))).toBe(true);
+        const badRequest = Object.assign(new Error('Bad request'), { status: 400 });
+        expect(isFailoverEligibleError(new OpenRouterAdapterError('Bad request: Bad request', badRequest))).toBe(false);
+    });
+
+    it('rejects cancellation, budget and non-outage errors', () => {
+        expect(isFailoverEligibleError(new LLMAbortError())).toBe(false);
+        expect(isFailoverEligibleError(new LLMTimeoutError(100))).toBe(false);
+        expect(isFailoverEligibleError(new RetryFailedError('Failed after 3 retries. Last error: aborted', new LLMAbortError()))).toBe(false);
+        expect(isFailoverEligibleError(new AnthropicAuthError('Authentication error: Invalid API key'))).toBe(false);
+        expect(isFailoverEligibleError(new RetryFailedError(
+            'Operation failed without retrying (non-retryable error). Error: Unauthorized',
+            Object.assign(new Error('Unauthorized'), { status: 401 })
+        ))).toBe(false);
+    });
+
+    it('does not parse error messages', () => {
+        expect(isFailoverEligibleError(new Error('Failed after 3 retries. Last error: 503 Service Unavailable'))).toBe(false);
+        expect(isFailoverEligibleError(new Error('Tool failed: network connection reset'))).toBe(false);
+        expect(isFailoverEligibleError(new RetryFailedError(
+            'Failed after 3 retries. Last error: Failed to parse JSON response',
+            new Error('Failed to parse JSON response')
+        ))).toBe(false);
+    });
+});
+
+describe('hasStreamedContent', () => {
+    it('treats text, reasoning, tool calls and images as content', () => {
+        expect(hasStreamedContent({ content: '', role: 'assistant', isComplete: false })).toBe(false);
+        expect(hasStreamedContent({ content: 'a', role: 'assistant', isComplete: false })).toBe(true);
+        expect(hasStreamedContent({ content: '', reasoning: 'r', role: 'assistant', isComplete: false })).toBe(true);
+        expect(hasStreamedContent({
+            content: '',
+            role: 'assistant',
+            isComplete: false,
+            toolCalls: [{ id: '1', name: 'tool', arguments: {} }]
+        })).toBe(true);
+    });
+});
+
+describe('FailoverChain', () => {
+    it('drops the primary and duplicate targets and honours maxHops', () => {
+        const policy = normalizeFailoverOption({ targets: [openai, gemini, gemini, openrouter], maxHops: 1 })!;
+        const chain = new FailoverChain(policy, openai, policy.targets);
+
+        expect(chain.next()).toEqual(gemini);
+        expect(chain.next()).toBeUndefined();
+        expect(chain.hasFailedOver()).toBe(true);
+    });
+
+    it('records failed and skipped hops in order', () => {
+        const policy = normalizeFailoverOption([gemini, openrouter])!;
+        const chain = new FailoverChain(policy, openai, policy.targets);
+
+        chain.recordFailure(new Error('503'));
+        chain.recordSkipped(chain.next()!, new Error('not found'));
+        chain.next();
+        chain.recordFailure('timeout');
+
+        expect(chain.getHops()).toEqual([
+            { ...openai, outcome: 'failed', error: '503' },
+            { ...gemini, outcome: 'skipped', error: 'not found' },
+            { ...openrouter, outcome: 'failed', error: 'timeout' }
+        ]);
+        expect(new ProviderFailoverError(chain.getHops()).message).toContain('openrouter/some-model (failed): timeout');
+    });
+});
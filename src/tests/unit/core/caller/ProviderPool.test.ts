@@ -81,6 +81,40 @@ describe('ProviderPool', () => {
     expect(GeminiStub.instances[0].config).toEqual({ apiKey: 'gemini-key' });
   });
 
+  it('passes provider-specific baseUrl overrides', () => {
+    const pool = new ProviderPool(['openai', 'gemini'] as any, {
+      apiKey: 'shared-key',
+      providerBaseUrls: {
+        gemini: 'http://localhost:8080/v1'
+      },
+      adapterConstructors: testRegistry()
+    });
+
+    pool.getProvider('openai');
+    pool.getProvider('gemini');
+
+    expect(OpenAIStub.instances[0].config).toEqual({ apiKey: 'shared-key' });
+    expect(GeminiStub.instances[0].config).toEqual({
+      apiKey: 'shared-key',
+      baseUrl: 'http://localhost:8080/v1'
+    });
+  });
+
+  it('passes provider-specific models', () => {
+    const models = [{ name: 'llama3.2:1b' }] as any;
+    const pool = new ProviderPool(['openai', 'gemini'] as any, {
+      apiKey: 'shared-key',
+      providerModels: { gemini: models },
+      adapterConstructors: testRegistry()
+    });
+
+    pool.getProvider('openai');
+    pool.getProvider('gemini');
+
+    expect(OpenAIStub.instances[0].config).toEqual({ apiKey: 'shared-key' });
+    expect(GeminiStub.instances[0].config).toEqual({ apiKey: 'shared-key', models });
+  });
+
   it('passes empty config when no apiKey is configured', () => {
     const pool = new ProviderPool('openai', {
       adapterConstructors: testRegistry()
@@ -434,7 +434,12 @@ describe('ChatController', () => {
           required: ['param1']
         }
       }], // Expect the tools array as the second argument
-      expect.any(Function) // Accept any function for mcpAdapterProvider
+      expect.any(Function), // Accept any function for mcpAdapterProvider
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined
     );
 
     // Verify final result is from the second call
@@ -444,6 +449,80 @@ describe('ChatController', () => {
     expect(mockHistoryManager.addMessage).toHaveBeenCalledWith('assistant', 'I need to use a tool', { toolCalls: toolCallResponse.toolCalls });
   });
 
+  it('should return the transcript without resubmission when a tool loop policy stops the loop', async () => {
+    const toolCallResponse: UniversalChatResponse = {
+      content: '',
+      role: 'assistant',
+      metadata: { finishReason: FinishReason.TOOL_CALLS },
+      toolCalls: [{ id: 'call_123', name: 'test_tool', arguments: { param1: 'value1' } }]
+    };
+    (mockProviderManager.getProvider().chatCall as any).mockResolvedValueOnce(toolCallResponse);
+    const loopStop = { reason: 'stopWhen' as const, message: 'The stopWhen condition was met' };
+    (mockToolOrchestrator.processToolCalls as any).mockResolvedValueOnce({ requiresResubmission: false, newToolCalls: 1, loopStop });
+    const toolMessage: UniversalMessage = { role: 'tool', content: '{"result":"success"}', toolCallId: 'call_123' };
+    (mockHistoryManager.getMessages as any).mockReturnValueOnce([]).mockReturnValueOnce([toolMessage]);
+    const toolLoopPolicy = { stopWhen: () => true, onStop: 'return' as const };
+
+    const result = await chatController.execute({
+      model: 'test-model',
+      messages: [{ role: 'user', content: 'Use the tool' }],
+      tools: [{ name: 'test_tool', description: 'A test tool', parameters: { type: 'object', properties: {} } }],
+      toolLoopPolicy
+    });
+
+    expect(mockProviderManager.getProvider().chatCall).toHaveBeenCalledTimes(1);
+    expect(mockToolOrchestrator.processToolCalls).toHaveBeenCalledWith(
+      expect.objectContaining({ toolCalls: toolCallResponse.toolCalls }),
+      expect.any(Array),
+      expect.any(Function),
+      undefined,
+      undefined,
+      undefined,
+      toolLoopPolicy,
+      undefined
+    );
+    expect(result.metadata?.toolLoopStop).toEqual({
+      ...loopStop,
+      transcript: expect.arrayContaining([
+        expect.objectContaining({ role: 'assistant', toolCalls: toolCallResponse.toolCalls }),
+        toolMessage
+      ])
+    });
+  });
+
+  it('should resubmit with toolChoice none and not execute further tool calls after a loop stop', async () => {
+    const toolCallResponse: UniversalChatResponse = {
+      content: '',
+      role: 'assistant',
+      metadata: { finishReason: FinishReason.TOOL_CALLS },
+      toolCalls: [{ id: 'call_123', name: 'test_tool', arguments: { param1: 'value1' } }]
+    };
+    const chatCall = mockProviderManager.getProvider().chatCall as any;
+    chatCall.mockResolvedValueOnce(toolCallResponse).mockResolvedValueOnce({ ...toolCallResponse, content: 'Still calling tools' });
+    const loopStop = { reason: 'maxCallsPerTool' as const, message: 'test_tool was called too often' };
+    (mockToolOrchestrator.processToolCalls as any).mockResolvedValueOnce({ requiresResubmission: true, newToolCalls: 1, loopStop });
+
+    const result = await chatController.execute({
+      model: 'test-model',
+      messages: [{ role: 'user', content: 'Use the tool' }],
+      tools: [{ name: 'test_tool', description: 'A test tool', parameters: { type: 'object', properties: {} } }],
+      toolLoopPolicy: { maxCallsPerTool: 1 },
+      historyMode: 'full'
+    });
+
+    expect(chatCall).toHaveBeenCalledTimes(2);
+    expect(chatCall.mock.calls[1][1].settings.toolChoice).toBe('none');
+    expect(chatCall.mock.calls[1][1].messages).toContainEqual(expect.objectContaining({ role: 'system', content: expect.stringContaining(loopStop.message) }));
+    // The tools stay on the request, since providers reject toolChoice without tools
+    expect(chatCall.mock.calls[1][1].tools).toEqual([expect.objectContaining({ name: 'test_tool' })]);
+    expect(mockToolOrchestrator.processToolCalls).toHaveBeenCalledTimes(1);
+    // The ignored tool calls are dropped, so the response is recorded as the final answer
+    expect(result.content).toBe('Still calling tools');
+    expect(result.toolCalls).toBeUndefined();
+    expect(result.metadata?.finishReason).toBe(FinishReason.STOP);
+    expect(mockHistoryManager.addMessage).toHaveBeenCalledWith('assistant', 'Still calling tools', expect.objectContaining({ toolCalls: undefined }));
+  });
+
   it('should apply JSON response validation with schema', async () => {
     // Mock schema validation behavior - JSONSchemaDefinition can be a string
     const schemaJson = JSON.stringify({
@@ -0,0 +1,145 @@
+jest.mock('@dqbd/tiktoken');
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { z } from 'zod';
+import { ChatController } from '../../../../core/chat/ChatController.ts';
+import { formatSchemaRepairInstruction } from '../../../../core/chat/SchemaRepair.ts';
+import { ResponseProcessor } from '../../../../core/processors/ResponseProcessor.ts';
+import { RetryManager } from '../../../../core/retry/RetryManager.ts';
+import { SchemaValidationError } from '../../../../core/schema/SchemaValidator.ts';
+import type { ProviderManager } from '../../../../core/caller/ProviderManager.ts';
+import type { ModelManager } from '../../../../core/models/ModelManager.ts';
+import type { UsageTracker } from '../../../../core/telemetry/UsageTracker.ts';
+import {
+    FinishReason,
+    type ModelInfo,
+    type UniversalChatParams,
+    type UniversalChatResponse
+} from '../../../../interfaces/UniversalInterfaces.ts';
+
+const schema = z.object({ name: z.string(), age: z.number() });
+
+const modelInfo = {
+    name: 'test-model',
+    capabilities: { output: { text: { textOutputFormats: ['text', 'json'], structuredOutputs: true } } }
+} as unknown as ModelInfo;
+
+const reply = (content: string): UniversalChatResponse => ({
+    content,
+    role: 'assistant',
+    metadata: { finishReason: FinishReason.STOP }
+});
+
+const createProvider = (...contents: string[]) => {
+    const chatCall = jest.fn<(model: string, params: UniversalChatParams) => Promise<UniversalChatResponse>>();
+    contents.forEach(content => chatCall.mockResolvedValueOnce(reply(content)));
+    return { chatCall };
+};
+
+describe('schemaRepair', () => {
+    let provider: ReturnType<typeof createProvider>;
+    let chatController: ChatController;
+
+    const createController = () => new ChatController(
+        { getProvider: () => provider, getCurrentProviderName: () => 'openai' } as unknown as ProviderManager,
+        { getModel: () => modelInfo } as unknown as ModelManager,
+        new ResponseProcessor(),
+        new RetryManager({ baseDelay: 1, maxRetries: 0 }),
+        { trackUsage: jest.fn() } as unknown as UsageTracker
+    );
+
+    const params = (overrides: Partial<UniversalChatParams> = {}): UniversalChatParams => ({
+        model: 'test-model',
+        messages: [
+            { role: 'system', content: 'You are helpful.' },
+            { role: 'user', content: 'Who is Ada?' }
+        ],
+        jsonSchema: { name: 'Person', schema },
+        responseFormat: 'json',
+        schemaRepair: { maxAttempts: 2 },
+        ...overrides
+    });
+
+    beforeEach(() => {
+        provider = createProvider();
+        chatController = createController();
+    });
+
+    it('formats the validation errors of the previous response', () => {
+        expect(formatSchemaRepairInstruction([
+            { message: 'Expected number, received string', path: ['age'] },
+            { message: 'Unexpected token', path: [] }
+        ])).toBe(
+            'Your previous response did not match the required JSON schema.\n\n' +
+            'Validation errors:\n- age: Expected number, received string\n- (root): Unexpected token\n\n' +
+            'Respond with the corrected JSON only. Keep the values that were valid.'
+        );
+    });
+
+    it('re-prompts with the errors and the previous output in native JSON mode', async () => {
+        provider = createProvider('{"name":"Ada","age":"old"}', '{"name":"Ada","age":36}');
+        chatController = createController();
+
+        const response = await chatController.execute(params());
+
+        expect(response.contentObject).toEqual({ name: 'Ada', age: 36 });
+        expect(provider.chatCall).toHaveBeenCalledTimes(2);
+        // PromptEnhancer appends the format instruction after the repair request
+        const repairMessages = provider.chatCall.mock.calls[1][1].messages;
+        expect(repairMessages.slice(-3, -1)).toEqual([
+            { role: 'assistant', content: '{"name":"Ada","age":"old"}' },
+            { role: 'user', content: expect.stringContaining('- age: ') }
+        ]);
+        expect(response.metadata?.schemaRepair?.attempts).toEqual([
+            { attempt: 0, model: 'test-model', validationErrors: [expect.objectContaining({ path: ['age'] })] }
+        ]);
+    });
+
+    it('repairs unparseable output with the repair model in force-prompt mode', async () => {
+        provider = createProvider('Ada was a mathematician.');
+        const repairProvider = createProvider('{"name":"Ada","age":36}');
+        const telemetryCollector = {
+            startLLM: jest.fn().mockReturnValue({ llmCallId: 'llm-1' }),
+            addPrompt: jest.fn(),
+            addChoice: jest.fn(),
+            endLLM: jest.fn()
+        };
+        chatController = createController();
+        chatController.setTelemetryContext(telemetryCollector as any, { conversationId: 'conversation-1' } as any);
+
+        const response = await chatController.execute(
+            params({ settings: { jsonMode: 'force-prompt' }, schemaRepair: { maxAttempts: 1 } }),
+            undefined,
+            undefined,
+            {
+                target: {
+                    model: 'cheap-model',
+                    execution: { providerName: 'openai', provider: repairProvider as any, modelInfo: { ...modelInfo, name: 'cheap-model' } }
+                },
+                attempts: []
+            }
+        );
+
+        expect(response.contentObject).toEqual({ name: 'Ada', age: 36 });
+        expect(repairProvider.chatCall).toHaveBeenCalledWith('cheap-model', expect.anything());
+        expect(response.metadata?.schemaRepair?.attempts).toEqual([
+            { attempt: 0, model: 'test-model', validationErrors: [{ message: expect.any(String), path: [] }] }
+        ]);
+        expect(telemetryCollector.startLLM).toHaveBeenCalledTimes(2);
+        expect(telemetryCollector.startLLM.mock.calls[1][1]).toMatchObject({
+            model: 'cheap-model',
+            schemaRepair: { attempt: 1, maxAttempts: 1 }
+        });
+        expect(telemetryCollector.endLLM).toHaveBeenCalledTimes(2);
+    });
+
+    it('throws a SchemaValidationError when the repair attempts run out', async () => {
+        provider = createProvider('{"name":"Ada","age":"old"}', '{"name":"Ada"}');
+        chatController = createController();
+
+        const error = await chatController.execute(params({ schemaRepair: { maxAttempts: 1 } })).catch(err => err);
+
+        expect(error).toBeInstanceOf(SchemaValidationError);
+        expect(error.validationErrors).toEqual([expect.objectContaining({ path: 'age' })]);
+        expect(provider.chatCall).toHaveBeenCalledTimes(2);
+    });
+});
@@ -173,7 +173,7 @@ describe('ChunkController', () => {
         jsonSchema: undefined,
         responseFormat: undefined,
         tools: undefined
-      });
+      }, undefined, undefined, undefined);
     });
 
     it('should pass historical messages and settings to the chat controller', async () => {
@@ -208,7 +208,7 @@ describe('ChunkController', () => {
         jsonSchema: undefined,
         responseFormat: undefined,
         tools: undefined
-      });
+      }, undefined, undefined, undefined);
     });
 
     it('should throw ChunkIterationLimitError when max iterations exceeded', async () => {
@@ -0,0 +1,150 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { z } from 'zod';
+import { checkChunkReduceSchema, reduceChunkResponses, formatCombineMessages, type ChunkAnswerCombiner } from '../../../../core/chunks/ChunkReducer.ts';
+import { SchemaValidationError } from '../../../../core/schema/SchemaValidator.ts';
+import type { UniversalChatResponse, Usage } from '../../../../interfaces/UniversalInterfaces.ts';
+
+const usage = (input: number, output: number, cost: number): Usage => ({
+    tokens: { input: { total: input, cached: 0 }, output: { total: output, reasoning: 0 }, total: input + output },
+    costs: { input: { total: cost / 2, cached: 0 }, output: { total: cost / 2, reasoning: 0 }, total: cost, unit: 'USD' }
+});
+
+const answer = (contentObject: unknown, cost = 0.002): UniversalChatResponse => ({
+    role: 'assistant',
+    content: JSON.stringify(contentObject),
+    contentObject,
+    metadata: { finishReason: 'stop' as any, usage: usage(100, 20, cost), model: 'gpt-5-mini' }
+});
+
+const RisksSchema = z.object({
+    title: z.string(),
+    risks: z.array(z.object({ name: z.string(), severity: z.string() })),
+    parties: z.object({ names: z.array(z.string()) })
+});
+
+describe('reduceChunkResponses', () => {
+    it('joins text answers and sums their usage', async () => {
+        const reduced = await reduceChunkResponses(
+            [
+                { role: 'assistant', content: 'Part one.', metadata: { usage: usage(100, 10, 0.001) } },
+                { role: 'assistant', content: 'Part two.', metadata: { usage: usage(50, 5, 0.002) } }
+            ],
+            { strategy: 'concat', separator: '\n' }
+        );
+
+        expect(reduced.content).toBe('Part one.\nPart two.');
+        expect(reduced.contentObject).toBeUndefined();
+        expect(reduced.metadata?.usage?.tokens.total).toBe(165);
+        expect(reduced.metadata?.usage?.costs.total).toBeCloseTo(0.003);
+        expect(reduced.metadata?.processInfo).toEqual({ currentChunk: 2, totalChunks: 2, reducedWith: 'concat' });
+    });
+
+    it('concatenates top-level arrays and keeps the first value of other fields', async () => {
+        const reduced = await reduceChunkResponses(
+            [answer({ title: 'Lease', items: [1, 2] }), answer({ title: 'Lease (cont.)', items: [2, 3] })],
+            'json-merge-arrays'
+        );
+
+        expect(reduced.contentObject).toEqual({ title: 'Lease', items: [1, 2, 2, 3] });
+        expect(JSON.parse(reduced.content ?? '')).toEqual(reduced.contentObject);
+    });
+
+    it('deep-merges along the schema and validates the result', async () => {
+        const fire = { name: 'fire', severity: 'high' };
+        const reduced = await reduceChunkResponses(
+            [
+                answer({ title: 'Lease', risks: [fire], parties: { names: ['Acme'] } }),
+                answer({ title: 'Lease', risks: [fire, { name: 'flood', severity: 'low' }], parties: { names: ['Beta'] } })
+            ],
+            'deep-merge',
+            { jsonSchema: { name: 'Risks', schema: RisksSchema } }
+        );
+
+        expect(reduced.contentObject).toEqual({
+            title: 'Lease',
+            risks: [fire, { name: 'flood', severity: 'low' }],
+            parties: { names: ['Acme', 'Beta'] }
+        });
+    });
+
+    it('validates against JSON Schema strings', async () => {
+        const schema = JSON.stringify({
+            type: 'object',
+            properties: { tags: { type: 'array', items: { type: 'string' } } },
+            required: ['tags']
+        });
+
+        await expect(reduceChunkResponses([answer({ tags: ['a'] }), answer({ tags: ['b'] })], 'deep-merge', { jsonSchema: { schema } }))
+            .resolves.toMatchObject({ contentObject: { tags: ['a', 'b'] } });
+        await expect(reduceChunkResponses([answer({ tags: 'a' }), answer({ tags: 'b' })], 'deep-merge', { jsonSchema: { schema } }))
+            .rejects.toBeInstanceOf(SchemaValidationError);
+    });
+
+    it('throws when the merged result does not match the schema', async () => {
+        await expect(reduceChunkResponses([answer({ title: 'Lease' }), answer({ title: 'Lease' })], 'json-merge-arrays', {
+            jsonSchema: { schema: RisksSchema }
+        })).rejects.toBeInstanceOf(SchemaValidationError);
+    });
+
+    it('rejects concat with an object schema and allows it with an array schema', async () => {
+        expect(() => checkChunkReduceSchema('concat', { schema: RisksSchema })).toThrow("'concat' reduce strategy cannot merge JSON objects");
+        await expect(reduceChunkResponses([answer({ title: 'Lease' })], { strategy: 'concat' }, { jsonSchema: { schema: RisksSchema } }))
+            .rejects.toBeInstanceOf(TypeError);
+        expect(() => checkChunkReduceSchema('deep-merge', { schema: RisksSchema })).not.toThrow();
+
+        const reduced = await reduceChunkResponses([answer(['a']), answer(['b'])], 'concat', { jsonSchema: { schema: z.array(z.string()) } });
+        expect(reduced.contentObject).toEqual(['a', 'b']);
+    });
+
+    it('keeps cache savings and other optional fields when summing usage', async () => {
+        const cachedUsage = (): Usage => ({
+            tokens: { input: { total: 100, cached: 80 }, output: { total: 10, reasoning: 0 }, total: 110 },
+            costs: { input: { total: 0.002, cached: 0.0004, cacheSavings: 0.0016 }, output: { total: 0.001, reasoning: 0, image: 0.01 }, total: 0.013, unit: 'USD' }
+        });
+        const reduced = await reduceChunkResponses(
+            [
+                { role: 'assistant', content: 'Part one.', metadata: { usage: cachedUsage() } },
+                { role: 'assistant', content: 'Part two.', metadata: { usage: cachedUsage() } }
+            ],
+            'concat'
+        );
+
+        expect(reduced.metadata?.usage?.tokens.input).toEqual({ total: 200, cached: 160 });
+        expect(reduced.metadata?.usage?.costs.input.cacheSavings).toBeCloseTo(0.0032);
+        expect(reduced.metadata?.usage?.costs.output.image).toBeCloseTo(0.02);
+    });
+
+    it('combines answers with the model in rounds of fanIn answers', async () => {
+        let round = 0;
+        const combine = jest.fn<ChunkAnswerCombiner>(async messages => ({
+            ...answer(`combined ${++round}`, 0.01),
+            content: `combined ${round}`,
+            contentObject: undefined,
+            messages
+        }));
+        const answers = ['a', 'b', 'c', 'd', 'e'].map(text => ({ ...answer(text), content: text, contentObject: undefined }));
+
+        const reduced = await reduceChunkResponses(answers, { strategy: 'llm', fanIn: 2 }, { text: 'Summarize the report.', combine });
+
+        // 5 answers -> 3 (2 combined) -> 2 (1 combined) -> 1
+        expect(combine).toHaveBeenCalledTimes(4);
+        expect(combine.mock.calls[0][0][1].content).toBe('Original request:\nSummarize the report.\n\nPartial answer 1:\na\n\nPartial answer 2:\nb');
+        expect(reduced.content).toBe('combined 4');
+        expect(reduced.metadata?.usage?.costs.total).toBeCloseTo(5 * 0.002 + 4 * 0.01);
+        expect(reduced.metadata?.processInfo).toEqual({ currentChunk: 5, totalChunks: 5, reducedWith: 'llm' });
+    });
+
+    it('rejects an llm strategy without a combiner and a fanIn below 2', async () => {
+        await expect(reduceChunkResponses([answer('a'), answer('b')], 'llm')).rejects.toThrow('requires a combiner');
+        await expect(reduceChunkResponses([answer('a')], { strategy: 'llm', fanIn: 1 })).rejects.toThrow(RangeError);
+    });
+});
+
+describe('formatCombineMessages', () => {
+    it('adds the instructions and serializes JSON answers', () => {
+        const [system, user] = formatCombineMessages([{ role: 'assistant', content: null, contentObject: { a: 1 } }], undefined, 'Keep it short.');
+
+        expect(system.content).toMatch(/\n\nKeep it short\.$/);
+        expect(user.content).toBe('Partial answer 1:\n{"a":1}');
+    });
+});
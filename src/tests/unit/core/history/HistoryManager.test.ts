@@ -147,6 +147,12 @@ describe('HistoryManager', () => {
       expect(messages[0].toolCallId).toBe('tool123');
     });
 
+    it('should preserve cacheControl hints', () => {
+      historyManager.setMessages([{ role: 'user', content: 'Long document', cacheControl: { ttl: '1h' } }]);
+
+      expect(historyManager.getMessages()[0].cacheControl).toEqual({ ttl: '1h' });
+    });
+
     it('should handle messages with whitespace-only content', () => {
       const whitespaceMessage: UniversalMessage = {
         role: 'user',
@@ -1220,6 +1226,21 @@ describe('HistoryManager controlled transactions', () => {
     expect(history.getMessages(true).map(message => message.content)).toEqual(['system', 'first', 'second']);
   });
 
+  it('nests a transaction in the view of the enclosing one', async () => {
+    const history = new HistoryManager('system');
+    const outer = history.beginTransaction();
+
+    await history.runInTransaction(outer, async () => {
+      history.addMessage('user', 'outer');
+      const inner = history.beginTransaction();
+      await history.runInTransaction(inner, async () => history.addMessage('assistant', 'inner'));
+      history.commitTransaction(inner);
+      expect(history.getMessages(true).map(message => message.content)).toEqual(['system', 'outer', 'inner']);
+    });
+
+    expect(history.getMessages(true).map(message => message.content)).toEqual(['system']);
+  });
+
   it('discards a transaction that is never committed', async () => {
     const history = new HistoryManager('system');
     const transaction = history.beginTransaction();
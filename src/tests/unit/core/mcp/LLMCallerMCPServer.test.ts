@@ -0,0 +1,229 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { request } from 'node:http';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { LLMCaller } from '../../../../core/caller/LLMCaller.ts';
+import { HistoryManager } from '../../../../core/history/HistoryManager.ts';
+import { LLMCallerMCPServer, type LLMCallerMCPServerOptions } from '../../../../core/mcp/LLMCallerMCPServer.ts';
+import type { ToolDefinition } from '../../../../types/tooling.ts';
+
+type ToolResult = { content: Array<{ type: string; text: string }>; isError?: boolean };
+
+const USAGE = { tokens: { total: 3 }, costs: { total: 0.0001 } };
+
+const bookTable = jest.fn(async (args: Record<string, unknown>) => ({ booked: args }));
+
+const LOCAL_TOOLS: ToolDefinition[] = [
+    {
+        name: 'book_table',
+        description: 'Books a restaurant table',
+        parameters: { type: 'object', properties: { guests: { type: 'integer' } }, required: ['guests'] },
+        callFunction: bookTable as unknown as ToolDefinition['callFunction']
+    },
+    {
+        name: 'cancel_booking',
+        description: 'Cancels a booking',
+        parameters: { type: 'object', properties: {} },
+        requiresApproval: true,
+        callFunction: jest.fn() as unknown as ToolDefinition['callFunction']
+    },
+    {
+        name: 'docs_search',
+        description: 'Tool of a connected MCP server',
+        parameters: { type: 'object', properties: {} },
+        origin: 'mcp'
+    }
+];
+
+const createCaller = () => {
+    const history = new HistoryManager('You are a helpful assistant.');
+    history.addMessage('user', 'Hi');
+    history.addMessage('assistant', 'Hello there.');
+    return {
+        call: jest.fn(async (message: string) => {
+            history.addMessage('user', message);
+            history.addMessage('assistant', 'Hello there.');
+            return [{ role: 'assistant', content: 'Hello there.' }];
+        }),
+        embeddings: jest.fn(async () => ({ model: 'text-embedding-3-small', embeddings: [{ embedding: [0.1, 0.2], index: 0, object: 'embedding' }], usage: USAGE })),
+        rerank: jest.fn(async () => ({ model: 'rerank-v3', results: [{ index: 1, relevanceScore: 0.9 }], usage: USAGE })),
+        transcribe: jest.fn(async () => ({ text: 'Testing one two.', usage: USAGE })),
+        listTools: jest.fn(() => LOCAL_TOOLS),
+        listFolderTools: jest.fn(async () => [{
+            name: 'get_weather',
+            description: 'Gets the weather',
+            parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+            callFunction: async () => 'Sunny'
+        }]),
+        getMessages: jest.fn((includeSystemMessage?: boolean) => history.getMessages(includeSystemMessage)),
+        getHistoryManager: () => history
+    };
+};
+
+const closers: Array<() => Promise<void>> = [];
+
+async function connect(options?: LLMCallerMCPServerOptions) {
+    const caller = createCaller();
+    const server = new LLMCallerMCPServer(caller as unknown as LLMCaller, options);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+    closers.push(() => client.close(), () => server.close());
+    return { caller, client };
+}
+
+describe('LLMCallerMCPServer', () => {
+    afterEach(async () => {
+        for (const close of closers.splice(0)) await close();
+        bookTable.mockClear();
+    });
+
+    it('publishes the caller methods and local tools that need no approval', async () => {
+        const { client } = await connect();
+
+        const { tools } = await client.listTools();
+
+        expect(tools.map(tool => tool.name)).toEqual(['call', 'embeddings', 'rerank', 'transcribe', 'book_table', 'get_weather']);
+        expect(tools.find(tool => tool.name === 'book_table')?.inputSchema).toEqual(LOCAL_TOOLS[0].parameters);
+    });
+
+    it('publishes only the configured methods', async () => {
+        const { client } = await connect({ methods: ['call'], tools: false });
+
+        expect((await client.listTools()).tools.map(tool => tool.name)).toEqual(['call']);
+        expect(() => new LLMCallerMCPServer(createCaller() as unknown as LLMCaller, { methods: ['stream' as 'call'] }))
+            .toThrow('Unknown LLMCaller method for MCP: stream');
+    });
+
+    it('runs the caller methods', async () => {
+        const { caller, client } = await connect();
+
+        const answer = await client.callTool({ name: 'call', arguments: { message: 'Hi' } }) as ToolResult;
+        const embeddings = await client.callTool({ name: 'embeddings', arguments: { input: ['Hi'], dimensions: 2 } }) as ToolResult;
+        const ranked = await client.callTool({ name: 'rerank', arguments: { query: 'pets', documents: ['cars', 'cats'] } }) as ToolResult;
+        const transcript = await client.callTool({ name: 'transcribe', arguments: { file: 'https://example.com/a.mp3' } }) as ToolResult;
+
+        expect(answer.content).toEqual([{ type: 'text', text: 'Hello there.' }]);
+        expect(caller.call).toHaveBeenCalledWith('Hi', { signal: expect.any(AbortSignal) });
+        expect(JSON.parse(embeddings.content[0].text)).toEqual({ model: 'text-embedding-3-small', embeddings: [[0.1, 0.2]], usage: USAGE });
+        expect(caller.embeddings).toHaveBeenCalledWith({ input: ['Hi'], signal: expect.any(AbortSignal), dimensions: 2 });
+        expect(JSON.parse(ranked.content[0].text).results).toEqual([{ index: 1, relevanceScore: 0.9 }]);
+        expect(transcript.content[0].text).toBe('Testing one two.');
+    });
+
+    it('runs local tools with validated arguments and reports failures as tool errors', async () => {
+        const { caller, client } = await connect();
+        caller.transcribe.mockRejectedValueOnce(new Error('Audio file not found'));
+
+        const booked = await client.callTool({ name: 'book_table', arguments: { guests: '4' } }) as ToolResult;
+        const invalid = await client.callTool({ name: 'book_table', arguments: { guests: 'four' } }) as ToolResult;
+        const failed = await client.callTool({ name: 'transcribe', arguments: { file: 'https://example.com/missing.mp3' } }) as ToolResult;
+
+        expect(JSON.parse(booked.content[0].text)).toEqual({ booked: { guests: 4 } });
+        expect(invalid.isError).toBe(true);
+        expect(JSON.parse(invalid.content[0].text).error).toBe('invalid_arguments');
+        expect(bookTable).toHaveBeenCalledTimes(1);
+        expect(failed).toMatchObject({ isError: true, content: [{ text: 'Audio file not found' }] });
+        await expect(client.callTool({ name: 'cancel_booking', arguments: {} })).rejects.toThrow('Unknown tool: cancel_booking');
+    });
+
+    it('reads local audio files for transcribe only inside the audio file root', async () => {
+        const root = await mkdtemp(path.join(tmpdir(), 'callllm-audio-'));
+        closers.push(() => rm(root, { recursive: true, force: true }));
+        await writeFile(path.join(root, 'memo.mp3'), 'audio');
+        const { caller, client } = await connect();
+        const { caller: rootedCaller, client: rootedClient } = await connect({ audioFileRoot: root });
+
+        const refused = await client.callTool({ name: 'transcribe', arguments: { file: '/etc/passwd' } }) as ToolResult;
+        const outside = await rootedClient.callTool({ name: 'transcribe', arguments: { file: '../../etc/passwd' } }) as ToolResult;
+        const inside = await rootedClient.callTool({ name: 'transcribe', arguments: { file: 'memo.mp3' } }) as ToolResult;
+
+        expect(refused).toMatchObject({ isError: true, content: [{ text: expect.stringContaining('local files are not enabled') }] });
+        expect(caller.transcribe).not.toHaveBeenCalled();
+        expect(outside.isError).toBe(true);
+        expect(inside.content[0].text).toBe('Testing one two.');
+        expect(rootedCaller.transcribe).toHaveBeenCalledTimes(1);
+        expect(rootedCaller.transcribe).toHaveBeenCalledWith(expect.objectContaining({ file: expect.stringMatching(/memo\.mp3$/) }));
+    });
+
+    it('exposes the conversation history as resources', async () => {
+        const { client } = await connect();
+
+        const { resources } = await client.listResources();
+        const history = await client.readResource({ uri: 'callllm://history' });
+        const transcript = await client.readResource({ uri: 'callllm://history/transcript' });
+
+        expect(resources.map(resource => resource.uri)).toEqual(['callllm://history', 'callllm://history/transcript']);
+        expect(JSON.parse(history.contents[0].text as string)).toHaveLength(3);
+        expect(transcript.contents[0].text).toBe('system: You are a helpful assistant.\n\nuser: Hi\n\nassistant: Hello there.');
+    });
+
+    it('gives every session its own conversation', async () => {
+        const caller = createCaller();
+        const server = new LLMCallerMCPServer(caller as unknown as LLMCaller);
+        const connectClient = async () => {
+            const client = new Client({ name: 'test-client', version: '1.0.0' });
+            const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+            await server.connect(serverTransport);
+            await client.connect(clientTransport);
+            closers.push(() => client.close());
+            return client;
+        };
+        closers.push(() => server.close());
+        const first = await connectClient();
+        const second = await connectClient();
+        const transcript = async (client: Client) =>
+            (await client.readResource({ uri: 'callllm://history/transcript' })).contents[0].text;
+
+        await first.callTool({ name: 'call', arguments: { message: 'Book a table' } });
+
+        expect(await transcript(first)).toContain('user: Book a table');
+        expect(await transcript(second)).not.toContain('Book a table');
+        expect(caller.getMessages(true)).toHaveLength(3);
+    });
+
+    it('serves clients over Streamable HTTP', async () => {
+        const server = new LLMCallerMCPServer(createCaller() as unknown as LLMCaller);
+        const { url } = await server.listenHttp({ port: 0 });
+        const client = new Client({ name: 'test-client', version: '1.0.0' });
+        closers.push(() => server.close());
+
+        await client.connect(new StreamableHTTPClientTransport(new URL(url)));
+        const { tools } = await client.listTools();
+        await client.close();
+
+        expect(url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/mcp$/);
+        expect(tools.map(tool => tool.name)).toContain('call');
+    });
+
+    it('rejects HTTP requests from hosts and origins that are not allowed', async () => {
+        const server = new LLMCallerMCPServer(createCaller() as unknown as LLMCaller);
+        const { url } = await server.listenHttp({ port: 0 });
+        closers.push(() => server.close());
+        // fetch() does not let the Host header be set, so the requests go through node:http
+        const post = (headers: Record<string, string>) => new Promise<{ status: number; body: string }>((resolve, reject) => {
+            const req = request(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers }
+            }, res => {
+                let body = '';
+                res.on('data', chunk => { body += chunk; });
+                res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+            });
+            req.on('error', reject);
+            req.end(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }));
+        });
+
+        const rebound = await post({ Host: `attacker.example:${new URL(url).port}` });
+        const crossOrigin = await post({ Origin: 'https://attacker.example' });
+
+        expect(rebound.status).toBe(403);
+        expect(JSON.parse(rebound.body).error.message).toBe(`Invalid Host header: attacker.example:${new URL(url).port}`);
+        expect(crossOrigin.status).toBe(403);
+    });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from '@jest/globals';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { toElicitResult, type MCPElicitationSchema } from '../../../../core/mcp/MCPElicitation.ts';
+
+const SCHEMA: MCPElicitationSchema = {
+    type: 'object',
+    properties: {
+        name: { type: 'string', title: 'Name' },
+        guests: { type: 'integer', minimum: 1 },
+        size: { type: 'string', enum: ['small', 'large'] },
+        newsletter: { type: 'boolean' }
+    },
+    required: ['name', 'guests']
+};
+
+describe('toElicitResult', () => {
+    it('returns accepted content that matches the requested schema', () => {
+        expect(toElicitResult({ action: 'accept', content: { name: 'Ada', guests: 2, size: 'small' } }, SCHEMA)).toEqual({
+            action: 'accept',
+            content: { name: 'Ada', guests: 2, size: 'small' }
+        });
+    });
+
+    it('rejects accepted content that does not match the requested schema', () => {
+        const answer = () => toElicitResult({ action: 'accept', content: { guests: 'two', size: 'medium' } }, SCHEMA);
+
+        expect(answer).toThrow(McpError);
+        expect(answer).toThrow(/Elicitation content does not match the requested schema: .*name.*guests.*size/);
+    });
+
+    it('passes decline and cancel through without content', () => {
+        expect(toElicitResult({ action: 'decline', content: { name: 'Ada' } }, SCHEMA)).toEqual({ action: 'decline' });
+        expect(toElicitResult({ action: 'cancel' }, SCHEMA)).toEqual({ action: 'cancel' });
+    });
+
+    it('rejects answers without a valid action', () => {
+        expect(() => toElicitResult({ action: 'submit' }, SCHEMA)).toThrow(TypeError);
+        expect(() => toElicitResult(undefined, SCHEMA)).toThrow(TypeError);
+    });
+});
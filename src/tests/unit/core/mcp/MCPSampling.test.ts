@@ -0,0 +1,83 @@
+import { describe, expect, it } from '@jest/globals';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+    mapSamplingModelPreferences,
+    toCreateMessageResult,
+    toSamplingRequest,
+    validateSamplingDecision
+} from '../../../../core/mcp/MCPSampling.ts';
+
+const MODELS = ['gpt-4.1', 'gpt-4.1-mini', 'claude-3-5-sonnet-latest'];
+
+describe('mapSamplingModelPreferences', () => {
+    it('uses the caller model when the server states no preferences', () => {
+        expect(mapSamplingModelPreferences(undefined, MODELS)).toBeUndefined();
+        expect(mapSamplingModelPreferences({ hints: [{ name: 'unknown-model' }] }, MODELS)).toBeUndefined();
+    });
+
+    it('picks the first hint that names a preset or matches an available model', () => {
+        expect(mapSamplingModelPreferences({ hints: [{ name: 'unknown' }, { name: 'gpt-4.1' }] }, MODELS)).toEqual({ model: 'gpt-4.1' });
+        expect(mapSamplingModelPreferences({ hints: [{ name: 'sonnet' }] }, MODELS)).toEqual({ model: 'claude-3-5-sonnet-latest' });
+        expect(mapSamplingModelPreferences({ hints: [{ name: 'cheap' }, { name: 'gpt-4.1' }] }, MODELS)).toBe('cheap');
+    });
+
+    it('maps priorities onto the preset of the highest one and preference weights', () => {
+        expect(mapSamplingModelPreferences({ costPriority: 0.8, intelligencePriority: 0.3 }, MODELS)).toEqual({
+            preset: 'cheap',
+            prefer: { cost: 0.8, latency: 0, throughput: 0, quality: 0.3 }
+        });
+        expect(mapSamplingModelPreferences({ speedPriority: 0.9 }, MODELS)).toMatchObject({ preset: 'fast' });
+        expect(mapSamplingModelPreferences({ intelligencePriority: 1 }, MODELS)).toMatchObject({ preset: 'premium' });
+        expect(mapSamplingModelPreferences({ costPriority: 0 }, MODELS)).toBeUndefined();
+    });
+});
+
+describe('toSamplingRequest', () => {
+    it('converts text messages and request options', () => {
+        const toolCall = { id: 'call_1', name: 'docs_summarize' };
+
+        expect(toSamplingRequest('docs', {
+            messages: [{ role: 'user', content: { type: 'text', text: 'Summarize this' } }],
+            systemPrompt: 'Be brief',
+            maxTokens: 200,
+            temperature: 0.2,
+            modelPreferences: { costPriority: 1 }
+        }, toolCall)).toEqual({
+            serverKey: 'docs',
+            messages: [{ role: 'user', content: 'Summarize this' }],
+            systemPrompt: 'Be brief',
+            maxTokens: 200,
+            temperature: 0.2,
+            modelPreferences: { costPriority: 1 },
+            toolCall
+        });
+    });
+
+    it('rejects content other than text and requests with tools', () => {
+        expect(() => toSamplingRequest('docs', {
+            messages: [{ role: 'user', content: { type: 'image', data: 'aGk=', mimeType: 'image/png' } }],
+            maxTokens: 10
+        })).toThrow(McpError);
+        expect(() => toSamplingRequest('docs', {
+            messages: [{ role: 'user', content: { type: 'text', text: 'hi' } }],
+            maxTokens: 10,
+            tools: [{ name: 'search', inputSchema: { type: 'object' } }]
+        })).toThrow('Tools in sampling requests are not supported');
+    });
+});
+
+describe('sampling results and decisions', () => {
+    it('returns the generated text as an assistant message', () => {
+        expect(toCreateMessageResult({ model: 'gpt-4.1-mini', content: 'Done.', stopReason: 'endTurn' })).toEqual({
+            model: 'gpt-4.1-mini',
+            role: 'assistant',
+            content: { type: 'text', text: 'Done.' },
+            stopReason: 'endTurn'
+        });
+    });
+
+    it('rejects invalid approval decisions', () => {
+        expect(validateSamplingDecision({ action: 'deny', reason: 'No' })).toEqual({ action: 'deny', reason: 'No' });
+        expect(() => validateSamplingDecision({ action: 'edit' })).toThrow(TypeError);
+    });
+});
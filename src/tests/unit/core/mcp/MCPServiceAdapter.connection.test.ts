@@ -0,0 +1,192 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+    ListToolsRequestSchema,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { MCPServiceAdapter, type MCPServiceAdapterOptions } from '../../../../core/mcp/MCPServiceAdapter.ts';
+import type { MCPServerConfig } from '../../../../core/mcp/MCPConfigTypes.ts';
+import type { MCPConnectionStateEvent } from '../../../../core/mcp/MCPInterfaces.ts';
+
+const CONFIG: MCPServerConfig = { command: 'inventory-server', reconnect: { initialDelayMs: 1 } };
+
+const adapters: MCPServiceAdapter[] = [];
+
+/**
+ * Creates an adapter whose transports connect to in-memory servers. Every connection gets a new
+ * server, like a restarted server process; `servers` lists them in connection order.
+ */
+function createAdapter(options: MCPServiceAdapterOptions = {}, config: MCPServerConfig = CONFIG) {
+    const servers: Server[] = [];
+    const subscriptions: string[] = [];
+    let toolNames = ['list_items'];
+    let rejectSubscriptions = false;
+
+    const adapter = new MCPServiceAdapter({ inventory: config }, options);
+    jest.spyOn(adapter as any, 'createTransport').mockImplementation(() => {
+        const server = new Server(
+            { name: 'inventory', version: '1.0.0' },
+            { capabilities: { tools: { listChanged: true }, resources: { subscribe: true, listChanged: true } } }
+        );
+        server.setRequestHandler(ListToolsRequestSchema, async () => ({
+            tools: toolNames.map(name => ({ name, inputSchema: { type: 'object' as const } }))
+        }));
+        server.setRequestHandler(SubscribeRequestSchema, async request => {
+            subscriptions.push(`subscribe ${request.params.uri}`);
+            if (rejectSubscriptions) throw new Error('Resource not found');
+            return {};
+        });
+        server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+            subscriptions.push(`unsubscribe ${request.params.uri}`);
+            return {};
+        });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        void server.connect(serverTransport);
+        servers.push(server);
+        return clientTransport;
+    });
+    adapters.push(adapter);
+
+    return {
+        adapter,
+        servers,
+        subscriptions,
+        setTools: (names: string[]) => { toolNames = names; },
+        setRejectSubscriptions: (reject: boolean) => { rejectSubscriptions = reject; }
+    };
+}
+
+const waitFor = async (condition: () => boolean) => {
+    for (let i = 0; i < 100 && !condition(); i++) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    expect(condition()).toBe(true);
+};
+
+describe('MCPServiceAdapter connection lifecycle', () => {
+    afterEach(async () => {
+        for (const adapter of adapters.splice(0)) await adapter.disconnectAll();
+    });
+
+    it('drops cached tools when the server announces a changed tool list', async () => {
+        const onListChanged = jest.fn();
+        const { adapter, servers, setTools } = createAdapter({ onListChanged });
+        expect((await adapter.getServerTools('inventory')).map(tool => tool.name)).toEqual(['inventory_list_items']);
+
+        setTools(['list_items', 'reserve_item']);
+        await servers[0].sendToolListChanged();
+        await waitFor(() => onListChanged.mock.calls.length > 0);
+
+        expect(onListChanged).toHaveBeenCalledWith('inventory', 'tools');
+        expect((await adapter.getServerTools('inventory')).map(tool => tool.name))
+            .toEqual(['inventory_list_items', 'inventory_reserve_item']);
+    });
+
+    it('passes resource updates to subscribers until they unsubscribe', async () => {
+        const { adapter, servers, subscriptions } = createAdapter();
+        const onUpdated = jest.fn();
+
+        const unsubscribe = await adapter.subscribeToResource('inventory', 'inventory://stock', onUpdated);
+        await servers[0].sendResourceUpdated({ uri: 'inventory://stock' });
+        await waitFor(() => onUpdated.mock.calls.length === 1);
+        await unsubscribe();
+
+        expect(onUpdated).toHaveBeenCalledWith({ serverKey: 'inventory', uri: 'inventory://stock' });
+        expect(subscriptions).toEqual(['subscribe inventory://stock', 'unsubscribe inventory://stock']);
+    });
+
+    it('keeps every handler of concurrent subscriptions to one resource', async () => {
+        const { adapter, servers, subscriptions } = createAdapter();
+        const first = jest.fn();
+        const second = jest.fn();
+
+        const [unsubscribeFirst, unsubscribeSecond] = await Promise.all([
+            adapter.subscribeToResource('inventory', 'inventory://stock', first),
+            adapter.subscribeToResource('inventory', 'inventory://stock', second)
+        ]);
+        await servers[0].sendResourceUpdated({ uri: 'inventory://stock' });
+        await waitFor(() => first.mock.calls.length === 1 && second.mock.calls.length === 1);
+
+        expect(subscriptions).toEqual(['subscribe inventory://stock']);
+        await unsubscribeFirst();
+        expect(subscriptions).toEqual(['subscribe inventory://stock']);
+        await unsubscribeSecond();
+        expect(subscriptions).toEqual(['subscribe inventory://stock', 'unsubscribe inventory://stock']);
+    });
+
+    it('rejects every concurrent subscriber when the server rejects the subscription', async () => {
+        const { adapter, subscriptions, setRejectSubscriptions } = createAdapter();
+        setRejectSubscriptions(true);
+
+        const results = await Promise.allSettled([
+            adapter.subscribeToResource('inventory', 'inventory://stock', () => undefined),
+            adapter.subscribeToResource('inventory', 'inventory://stock', () => undefined)
+        ]);
+
+        expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+        expect(subscriptions).toEqual(['subscribe inventory://stock']);
+
+        setRejectSubscriptions(false);
+        await adapter.subscribeToResource('inventory', 'inventory://stock', () => undefined);
+        expect(subscriptions).toEqual(['subscribe inventory://stock', 'subscribe inventory://stock']);
+    });
+
+    it('reconnects after the connection drops and renews resource subscriptions', async () => {
+        const events: MCPConnectionStateEvent[] = [];
+        const onListChanged = jest.fn();
+        const { adapter, servers, subscriptions } = createAdapter({ onConnectionStateChange: event => events.push(event), onListChanged });
+        await adapter.subscribeToResource('inventory', 'inventory://stock', () => undefined);
+
+        await servers[0].close();
+        await waitFor(() => events.some(event => event.state === 'connected' && event.attempt === 1));
+        await waitFor(() => subscriptions.length === 2);
+
+        expect(events.map(({ state, attempt }) => ({ state, attempt }))).toEqual([
+            { state: 'connected', attempt: undefined },
+            { state: 'disconnected', attempt: undefined },
+            { state: 'reconnecting', attempt: 1 },
+            { state: 'connected', attempt: 1 }
+        ]);
+        expect(events[1].error?.message).toContain('Connection closed unexpectedly');
+        expect(onListChanged).toHaveBeenCalledWith('inventory', 'tools');
+        expect(adapter.isConnected('inventory')).toBe(true);
+        expect(servers).toHaveLength(2);
+        expect(subscriptions).toEqual(['subscribe inventory://stock', 'subscribe inventory://stock']);
+    });
+
+    it('reports the server as failed when every reconnect attempt fails', async () => {
+        const events: MCPConnectionStateEvent[] = [];
+        const { adapter, servers } = createAdapter(
+            { onConnectionStateChange: event => events.push(event) },
+            { ...CONFIG, reconnect: { initialDelayMs: 1, maxAttempts: 2 } }
+        );
+        await adapter.connectToServer('inventory');
+        jest.spyOn(adapter as any, 'createTransport').mockImplementation(() => {
+            throw new Error('spawn inventory-server ENOENT');
+        });
+
+        await servers[0].close();
+        await waitFor(() => events.some(event => event.state === 'failed'));
+
+        expect(events.map(event => event.state)).toEqual(['connected', 'disconnected', 'reconnecting', 'reconnecting', 'failed']);
+        expect(events[4].error?.message).toContain('ENOENT');
+        expect(adapter.isConnected('inventory')).toBe(false);
+    });
+
+    it('does not reconnect after a requested disconnect or when reconnecting is off', async () => {
+        const events: MCPConnectionStateEvent[] = [];
+        const { adapter } = createAdapter({ onConnectionStateChange: event => events.push(event) });
+        await adapter.connectToServer('inventory');
+        await adapter.disconnectServer('inventory');
+
+        const off = createAdapter({ onConnectionStateChange: event => events.push(event) }, { ...CONFIG, reconnect: false });
+        await off.adapter.connectToServer('inventory');
+        await off.servers[0].close();
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        expect(events.map(event => event.state)).toEqual(['connected', 'disconnected', 'connected', 'disconnected']);
+        expect(off.servers).toHaveLength(1);
+    });
+});
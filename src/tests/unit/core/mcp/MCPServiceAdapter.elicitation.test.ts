@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { MCPServiceAdapter } from '../../../../core/mcp/MCPServiceAdapter.ts';
+import type { MCPElicitationHandler, MCPElicitationSchema } from '../../../../core/mcp/MCPElicitation.ts';
+
+const SCHEMA: MCPElicitationSchema = {
+    type: 'object',
+    properties: {
+        guests: { type: 'integer', title: 'Guests', minimum: 1 },
+        time: { type: 'string', title: 'Time' }
+    },
+    required: ['guests', 'time']
+};
+
+type CallToolResult = { content: Array<{ type: string; text: string }>; isError?: boolean };
+
+const connections: Client[] = [];
+
+/** Connects the adapter to an in-memory server whose `book_table` tool asks the user for the booking details. */
+async function connect(adapter: MCPServiceAdapter) {
+    const server = new Server({ name: 'restaurant', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(CallToolRequestSchema, async () => {
+        try {
+            const result = await server.elicitInput({ message: 'How many guests, and when?', requestedSchema: SCHEMA });
+            return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+        } catch (error) {
+            return { content: [{ type: 'text', text: (error as Error).message }], isError: true };
+        }
+    });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = (adapter as any).createClient('restaurant', { command: 'restaurant-server' }) as Client;
+    await client.connect(clientTransport);
+    (adapter as any).sdkClients.set('restaurant', client);
+    connections.push(client);
+    return server;
+}
+
+const bookTable = async (adapter: MCPServiceAdapter) =>
+    await adapter.executeMcpTool('restaurant', 'book_table', {}, {
+        retry: false,
+        toolCall: { id: 'call_1', name: 'restaurant_book_table' }
+    }) as CallToolResult;
+
+describe('MCPServiceAdapter elicitation', () => {
+    afterEach(async () => {
+        for (const client of connections.splice(0)) await client.close();
+    });
+
+    it('asks the handler for the input and returns the accepted content to the server', async () => {
+        const onElicitation = jest.fn<MCPElicitationHandler>(async () => ({ action: 'accept', content: { guests: 4, time: '19:00' } }));
+        const adapter = new MCPServiceAdapter({}, { onElicitation });
+        await connect(adapter);
+
+        const result = await bookTable(adapter);
+
+        expect(JSON.parse(result.content[0].text)).toEqual({ action: 'accept', content: { guests: 4, time: '19:00' } });
+        expect(onElicitation).toHaveBeenCalledWith('restaurant', 'How many guests, and when?', SCHEMA, {
+            signal: expect.any(AbortSignal),
+            toolCall: { id: 'call_1', name: 'restaurant_book_table' }
+        });
+    });
+
+    it('returns declined and cancelled requests to the server', async () => {
+        const answers = [{ action: 'decline' as const }, { action: 'cancel' as const }];
+        const adapter = new MCPServiceAdapter({}, { onElicitation: () => answers.shift()! });
+        await connect(adapter);
+
+        expect(JSON.parse((await bookTable(adapter)).content[0].text)).toEqual({ action: 'decline' });
+        expect(JSON.parse((await bookTable(adapter)).content[0].text)).toEqual({ action: 'cancel' });
+    });
+
+    it('fails the request when the accepted content does not match the requested schema', async () => {
+        const adapter = new MCPServiceAdapter({}, {
+            onElicitation: () => ({ action: 'accept', content: { guests: 'four' } })
+        });
+        await connect(adapter);
+
+        const result = await bookTable(adapter);
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('Elicitation content does not match the requested schema');
+    });
+
+    it('does not advertise elicitation without a handler', async () => {
+        const adapter = new MCPServiceAdapter({});
+        const server = await connect(adapter);
+
+        const result = await bookTable(adapter);
+
+        expect(server.getClientCapabilities()?.elicitation).toBeUndefined();
+        expect(result.isError).toBe(true);
+    });
+});
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { MCPServiceAdapter } from '../../../../core/mcp/MCPServiceAdapter.ts';
+import type { MCPServerConfig } from '../../../../core/mcp/MCPConfigTypes.ts';
+import type { MCPSamplingHandler } from '../../../../core/mcp/MCPSampling.ts';
+import { BudgetTracker } from '../../../../core/budget/BudgetTracker.ts';
+
+const CONFIG: MCPServerConfig = { command: 'docs-server' };
+
+type CallToolResult = { content: Array<{ type: string; text: string }> };
+
+const connections: Array<{ client: Client; server: Server }> = [];
+
+/** Connects the adapter to an in-memory server whose `summarize` tool asks the client for a completion. */
+async function connect(adapter: MCPServiceAdapter, config: MCPServerConfig = CONFIG) {
+    const server = new Server({ name: 'docs', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(CallToolRequestSchema, async () => {
+        try {
+            const result = await server.createMessage({
+                messages: [{ role: 'user', content: { type: 'text', text: 'Summarize the release notes' } }],
+                systemPrompt: 'Answer in one sentence',
+                maxTokens: 100,
+                modelPreferences: { hints: [{ name: 'cheap' }] }
+            });
+            return { content: [{ type: 'text', text: result.content.type === 'text' ? result.content.text : '' }] };
+        } catch (error) {
+            return { content: [{ type: 'text', text: (error as Error).message }], isError: true };
+        }
+    });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = (adapter as any).createClient('docs', config) as Client;
+    await client.connect(clientTransport);
+    (adapter as any).sdkClients.set('docs', client);
+    connections.push({ client, server });
+    return server;
+}
+
+const summarize = async (adapter: MCPServiceAdapter) =>
+    await adapter.executeMcpTool('docs', 'summarize', {}, {
+        retry: false,
+        toolCall: { id: 'call_1', name: 'docs_summarize' }
+    }) as CallToolResult;
+
+describe('MCPServiceAdapter sampling', () => {
+    afterEach(async () => {
+        for (const { client } of connections.splice(0)) await client.close();
+    });
+
+    it('answers sampling requests with the handler and attributes them to the tool call in flight', async () => {
+        const onSampling = jest.fn<MCPSamplingHandler>(async () => ({ model: 'gpt-4.1-mini', content: 'Bugs were fixed.', stopReason: 'endTurn' }));
+        const adapter = new MCPServiceAdapter({}, { onSampling });
+        await connect(adapter);
+
+        const result = await summarize(adapter);
+
+        expect(result.content[0].text).toBe('Bugs were fixed.');
+        expect(onSampling).toHaveBeenCalledWith({
+            serverKey: 'docs',
+            messages: [{ role: 'user', content: 'Summarize the release notes' }],
+            systemPrompt: 'Answer in one sentence',
+            maxTokens: 100,
+            modelPreferences: { hints: [{ name: 'cheap' }] },
+            toolCall: { id: 'call_1', name: 'docs_summarize' }
+        }, { signal: expect.any(AbortSignal) });
+    });
+
+    it('returns a rejection to the server when the request is not approved', async () => {
+        const onSampling = jest.fn<MCPSamplingHandler>();
+        const adapter = new MCPServiceAdapter({}, {
+            onSampling,
+            onSamplingApproval: request => request.toolCall?.name === 'docs_summarize'
+                ? { action: 'deny', reason: 'Not now' }
+                : { action: 'approve' }
+        });
+        await connect(adapter);
+
+        const result = await summarize(adapter);
+
+        expect(result.content[0].text).toContain('Sampling request was not approved: Not now');
+        expect(onSampling).not.toHaveBeenCalled();
+    });
+
+    it('passes the server sampling budget to every request of the server', async () => {
+        const budgets: Array<BudgetTracker | undefined> = [];
+        const adapter = new MCPServiceAdapter({}, {
+            onSampling: async (_request, { budget }) => {
+                budgets.push(budget);
+                return { model: 'gpt-4.1-mini', content: 'ok' };
+            }
+        });
+        await connect(adapter, { ...CONFIG, sampling: { budget: { maxCostUsd: 0.5 } } });
+
+        await summarize(adapter);
+        await summarize(adapter);
+
+        expect(budgets[0]).toBeInstanceOf(BudgetTracker);
+        expect(budgets[0]).toMatchObject({ scope: 'mcpServer', options: { maxCostUsd: 0.5 } });
+        expect(budgets[1]).toBe(budgets[0]);
+    });
+
+    it('does not advertise sampling without a handler or when the server disables it', async () => {
+        const withoutHandler = await connect(new MCPServiceAdapter({}));
+        const disabled = await connect(
+            new MCPServiceAdapter({}, { onSampling: async () => ({ model: 'm', content: '' }) }),
+            { ...CONFIG, sampling: { disabled: true } }
+        );
+
+        expect(withoutHandler.getClientCapabilities()?.sampling).toBeUndefined();
+        expect(disabled.getClientCapabilities()?.sampling).toBeUndefined();
+    });
+});
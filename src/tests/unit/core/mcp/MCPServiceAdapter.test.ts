@@ -20,6 +20,7 @@ jest.unstable_mockModule('@modelcontextprotocol/sdk/client/index', () => {
     __esModule: true,
     Client: jest.fn().mockImplementation(() => ({
       // @ts-expect-error
+      setNotificationHandler: jest.fn(),
       connect: jest.fn().mockResolvedValue(undefined),
       // @ts-expect-error
       close: jest.fn().mockResolvedValue(undefined),
@@ -268,6 +269,7 @@ describe('MCPServiceAdapter', () => {
 
       // Mock the client to fail during connection
       const mockClientInstance = {
+        setNotificationHandler: jest.fn(),
         connect: jest.fn().mockRejectedValue(new Error('Transport start failed')),
         close: jest.fn().mockResolvedValue(undefined)
       };
@@ -286,6 +288,7 @@ describe('MCPServiceAdapter', () => {
 
       // Mock client constructor to return a client that fails to connect
       const mockClientInstance = {
+        setNotificationHandler: jest.fn(),
         connect: jest.fn().mockRejectedValue(new Error('Client connection failed')),
         close: jest.fn().mockResolvedValue(undefined)
       };
@@ -324,10 +327,12 @@ describe('MCPServiceAdapter', () => {
 
       // Mock clients - first one fails with 404, second succeeds
       const mockStreamableClient = {
+        setNotificationHandler: jest.fn(),
         connect: jest.fn().mockRejectedValue(new Error('HTTP 404 Not Found'))
       };
 
       const mockSSEClient = {
+        setNotificationHandler: jest.fn(),
         connect: jest.fn().mockResolvedValue(undefined),
         close: jest.fn().mockResolvedValue(undefined)
       };
@@ -379,6 +384,7 @@ describe('MCPServiceAdapter', () => {
 
       // Create mock client instance
       const mockClientInstance = {
+        setNotificationHandler: jest.fn(),
         connect: jest.fn().mockResolvedValue(undefined),
         close: jest.fn().mockResolvedValue(undefined)
       };
@@ -453,6 +459,7 @@ const setupConnectedClient = async () => {
 
   // Create the exact mock client instance we want to be stored
   const mockClientInstance = {
+    setNotificationHandler: jest.fn(),
     connect: jest.fn().mockResolvedValue(undefined),
     close: jest.fn().mockResolvedValue(undefined),
     callTool: jest.fn(),
@@ -982,6 +989,24 @@ describe('MCP tools/call request timeout', () => {
       { timeout: 60_000 }
     );
   });
+
+  it('forwards progress notifications to options.onProgress', async () => {
+    adapter = await setupConnectedClient();
+    const client = (adapter as any).sdkClients.get('test');
+    client.callTool.mockImplementation(async (_params: unknown, _schema: unknown, options: any) => {
+      options.onprogress({ progress: 1, total: 4, message: 'Indexing', progressToken: 7 });
+      options.onprogress({ progress: 2 });
+      return { ok: true };
+    });
+    const onProgress = jest.fn();
+
+    await adapter.executeMcpTool('test', 'test_tool', {}, { retry: false, onProgress });
+
+    expect(onProgress.mock.calls).toEqual([
+      [{ progress: 1, total: 4, message: 'Indexing' }],
+      [{ progress: 2 }]
+    ]);
+  });
 });
 
 describe('getMcpServerToolSchemas', () => {
@@ -1033,6 +1058,7 @@ describe('OAuth support', () => {
     };
 
     const mockClientInstance = {
+      setNotificationHandler: jest.fn(),
       connect: jest.fn().mockResolvedValue(undefined),
       listTools: jest.fn().mockResolvedValue({ tools: [] }),
       callTool: jest.fn().mockResolvedValue({}),
@@ -1573,6 +1599,7 @@ describe('convertToToolDefinition / createZodSchemaFromParameters', () => {
 
   const mockSdkClientWithTools = (tools: any[]) => {
     const mockClientInstance = {
+      setNotificationHandler: jest.fn(),
       connect: jest.fn().mockResolvedValue(undefined),
       close: jest.fn().mockResolvedValue(undefined),
       listTools: jest.fn().mockResolvedValue({ tools }),
@@ -2113,6 +2140,7 @@ describe('convertToToolDefinition / createZodSchemaFromParameters', () => {
 
   const mockSdkClientWithTools = (tools: any[]) => {
     const mockClientInstance = {
+      setNotificationHandler: jest.fn(),
       connect: jest.fn().mockResolvedValue(undefined),
       close: jest.fn().mockResolvedValue(undefined),
       listTools: jest.fn().mockResolvedValue({ tools }),
@@ -57,6 +57,7 @@ describe('TokenCalculator', () => {
       expect(result.input.cached).toBe(0.01);
       expect(result.output.total).toBe(0.4);
       expect(result.total).toBe(0.49); // 0.09 + 0.4
+      expect(result.input.cacheSavings).toBe(0.01); // 20 * (1000 - 500) / 1_000_000
     });
 
     it('should handle cached tokens without cached price', () => {
@@ -71,6 +72,7 @@ describe('TokenCalculator', () => {
       // All input tokens use regular price
       expect(result.input.total).toBe(0.1); // 100 * 1000 / 1_000_000
       expect(result.input.cached).toBe(0);
+      expect(result.input.cacheSavings).toBeUndefined();
       expect(result.output.total).toBe(0.4); // 200 * 2000 / 1_000_000
       expect(result.total).toBe(0.5); // 0.1 + 0.4
     });
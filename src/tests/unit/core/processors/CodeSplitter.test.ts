@@ -0,0 +1,142 @@
+import { describe, expect, it } from '@jest/globals';
+import { CodeSplitter, detectCodeLanguage } from '../../../../core/processors/CodeSplitter.ts';
+import { DataSplitter } from '../../../../core/processors/DataSplitter.ts';
+import type { TokenCalculator } from '../../../../core/models/TokenCalculator.ts';
+import type { ModelInfo } from '../../../../interfaces/UniversalInterfaces.ts';
+
+// One token per word keeps the budgets in these tests easy to follow
+const tokenCalculator = {
+    calculateTokens: (text: string) => text.split(/\s+/).filter(Boolean).length,
+    calculateTotalTokens: () => 0
+} as unknown as TokenCalculator;
+
+const ts = `import { readFile } from 'fs';
+
+export function add(a: number, b: number): number {
+    return a + b;
+}
+
+export class Store {
+    private items: string[] = [];
+
+    add(item: string): void {
+        this.items.push(item);
+    }
+
+    /** Removes an item */
+    remove(item: string): void {
+        this.items = this.items.filter(i => i !== item);
+    }
+}
+`;
+
+const py = `import os
+
+@dataclass
+class Point:
+    """A point."""
+    x: int
+    y: int
+
+    def norm(self):
+        return (self.x ** 2 +
+                self.y ** 2) ** 0.5
+
+def main():
+    print(Point(1, 2).norm())
+`;
+
+describe('detectCodeLanguage', () => {
+    it('detects TypeScript and Python but not prose or markdown', () => {
+        expect(detectCodeLanguage(ts)).toBe('typescript');
+        expect(detectCodeLanguage(py)).toBe('python');
+        expect(detectCodeLanguage('The function returns a class. Import it from the module.')).toBeUndefined();
+        expect(detectCodeLanguage(`# Usage\n\n\`\`\`ts\n${ts}\`\`\`\n`)).toBeUndefined();
+    });
+});
+
+describe('CodeSplitter', () => {
+    const splitter = new CodeSplitter(tokenCalculator);
+
+    it('keeps functions and classes whole while they fit', () => {
+        const chunks = splitter.split(ts, 20, { fileName: 'store.ts' });
+
+        expect(chunks[0].content).toBe("import { readFile } from 'fs';\n\nexport function add(a: number, b: number): number {\n    return a + b;\n}");
+        expect(chunks[0].metadata).toEqual({
+            contentType: 'code',
+            codeInfo: { language: 'typescript', path: ['store.ts'], symbols: ['add'], startLine: 1, endLine: 6, isCompleteUnit: true }
+        });
+        expect(chunks.map(chunk => [chunk.chunkIndex, chunk.totalChunks])).toEqual([[0, 3], [1, 3], [2, 3]]);
+    });
+
+    it('splits a class that does not fit along its members and reports the class in the path', () => {
+        const chunks = splitter.split(ts, 20, { fileName: 'store.ts' });
+
+        expect(chunks[1].content).toBe('export class Store {\n    private items: string[] = [];\n\n    add(item: string): void {\n        this.items.push(item);\n    }');
+        expect(chunks[2].content).toBe('    /** Removes an item */\n    remove(item: string): void {\n        this.items = this.items.filter(i => i !== item);\n    }\n}');
+        expect(chunks.slice(1).map(chunk => chunk.metadata?.codeInfo)).toEqual([
+            { language: 'typescript', path: ['store.ts', 'Store'], symbols: ['items', 'add'], startLine: 7, endLine: 13, isCompleteUnit: false },
+            { language: 'typescript', path: ['store.ts', 'Store'], symbols: ['remove'], startLine: 14, endLine: 19, isCompleteUnit: false }
+        ]);
+    });
+
+    it('splits a function that does not fit along lines', () => {
+        const chunks = splitter.split(ts, 12, { language: 'ts', fileName: 'store.ts' });
+
+        expect(chunks[1].content).toBe('export function add(a: number, b: number): number {\n    return a + b;');
+        expect(chunks[1].metadata?.codeInfo).toMatchObject({ path: ['store.ts', 'add'], isCompleteUnit: false });
+        expect(chunks.every(chunk => chunk.tokenCount <= 12)).toBe(true);
+    });
+
+    it('keeps decorators with Python definitions and uses indentation for nesting', () => {
+        const chunks = splitter.split(py, 12);
+
+        expect(chunks.map(chunk => chunk.content)).toEqual([
+            'import os\n\n@dataclass\nclass Point:\n    """A point."""\n    x: int\n    y: int',
+            '    def norm(self):\n        return (self.x ** 2 +\n                self.y ** 2) ** 0.5',
+            'def main():\n    print(Point(1, 2).norm())'
+        ]);
+        expect(chunks.map(chunk => chunk.metadata?.codeInfo?.path)).toEqual([[], ['Point'], []]);
+        expect(chunks[2].metadata?.codeInfo).toMatchObject({ language: 'python', symbols: ['main'], isCompleteUnit: true });
+    });
+
+    it('splits unknown languages along lines', () => {
+        const code = Array.from({ length: 6 }, (_, index) => `(define (f${index} x) (* x ${index}))`).join('\n');
+
+        const chunks = splitter.split(code, 12, { language: 'scheme' });
+
+        expect(chunks.map(chunk => chunk.content.split('\n').length)).toEqual([2, 2, 2]);
+        expect(chunks[1].metadata?.codeInfo).toEqual({ path: [], symbols: [], startLine: 3, endLine: 4, isCompleteUnit: false });
+    });
+});
+
+describe('DataSplitter with source code', () => {
+    const modelInfo = { name: 'test-model', maxRequestTokens: 140, maxResponseTokens: 50 } as ModelInfo;
+
+    it('detects code and splits it with the code splitter', async () => {
+        const dataSplitter = new DataSplitter(tokenCalculator);
+        const data = Array.from({ length: 6 }, () => ts).join('\n');
+
+        const chunks = await dataSplitter.splitIfNeeded({ message: 'Review this code.', data, modelInfo, maxResponseTokens: 50 });
+
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(chunks.every(chunk => chunk.metadata?.contentType === 'code')).toBe(true);
+        expect(chunks[0].metadata?.codeInfo?.language).toBe('typescript');
+    });
+
+    it('uses the language and file name of the code split strategy', async () => {
+        const dataSplitter = new DataSplitter(tokenCalculator);
+        const data = Array.from({ length: 6 }, () => py).join('\n');
+
+        const chunks = await dataSplitter.splitIfNeeded({
+            message: 'Review this code.',
+            data,
+            modelInfo,
+            maxResponseTokens: 50,
+            splitStrategy: { strategy: 'code', language: 'python', fileName: 'point.py' }
+        });
+
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(chunks.every(chunk => chunk.metadata?.codeInfo?.path[0] === 'point.py')).toBe(true);
+    });
+});
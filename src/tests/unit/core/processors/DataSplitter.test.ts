@@ -419,4 +419,22 @@ console.log('hello world');
       expect(result.some(chunk => chunk.metadata?.hierarchicalInfo?.headingTitle === 'Large Document')).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('splitToTokens', () => {
+    it('should return data that fits as a single chunk', async () => {
+      const result = await dataSplitter.splitToTokens({ a: 1 }, 100);
+
+      expect(result).toEqual([{ content: { a: 1 }, tokenCount: 7, chunkIndex: 0, totalChunks: 1 }]);
+    });
+
+    it('should split data without reserving tokens for a prompt', async () => {
+      const data = Array.from({ length: 10 }, (_, index) => ({ id: index, text: 'x'.repeat(20) }));
+
+      const result = await dataSplitter.splitToTokens(data, 100);
+
+      expect(result.length).toBeGreaterThan(1);
+      expect(result.flatMap(chunk => chunk.content)).toEqual(data);
+      expect(result.every(chunk => chunk.tokenCount <= 100)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { SemanticSplitter, type TextEmbedder } from '../../../../core/processors/SemanticSplitter.ts';
+import { DataSplitter } from '../../../../core/processors/DataSplitter.ts';
+import type { TokenCalculator } from '../../../../core/models/TokenCalculator.ts';
+import type { ModelInfo } from '../../../../interfaces/UniversalInterfaces.ts';
+
+// One token per word keeps the budgets in these tests easy to follow
+const tokenCalculator = {
+    calculateTokens: (text: string) => text.split(/\s+/).filter(Boolean).length,
+    calculateTotalTokens: () => 0
+} as unknown as TokenCalculator;
+
+// Deterministic fake embedding provider: one dimension per topic keyword
+const TOPICS = ['cat', 'rocket', 'bread'];
+const fakeEmbed = jest.fn<TextEmbedder>(async texts => texts.map(text =>
+    TOPICS.map(topic => (text.toLowerCase().includes(topic) ? 1 : 0.05))));
+
+const text = [
+    'The cat sleeps on the sofa.',
+    'A cat likes warm places.',
+    'My cat ignores everyone.',
+    'The rocket launched at dawn.',
+    'Its rocket engines roared loudly.',
+    'Bread needs time to rise.',
+    'Fresh bread smells wonderful.'
+].join(' ');
+
+describe('SemanticSplitter', () => {
+    const splitter = new SemanticSplitter(tokenCalculator);
+
+    it('packs whole topics into a chunk while they fit', async () => {
+        const chunks = await splitter.split(text, 24, { embed: fakeEmbed, breakpointPercentile: 50 });
+
+        expect(chunks.map(chunk => chunk.content)).toEqual([
+            'The cat sleeps on the sofa. A cat likes warm places. My cat ignores everyone.',
+            'The rocket launched at dawn. Its rocket engines roared loudly. Bread needs time to rise. Fresh bread smells wonderful.'
+        ]);
+        expect(chunks[1].metadata?.semanticInfo).toEqual({ topicIndex: 1, topicCount: 2, sentenceRange: [3, 6], isCompleteTopic: true, overlapTokens: 0 });
+        expect(fakeEmbed).toHaveBeenCalledWith(['The cat sleeps on the sofa.', 'A cat likes warm places.', 'My cat ignores everyone.',
+            'The rocket launched at dawn.', 'Its rocket engines roared loudly.', 'Bread needs time to rise.', 'Fresh bread smells wonderful.']);
+    });
+
+    it('keeps topics whole and reports them in the chunk metadata', async () => {
+        const chunks = await splitter.split(text, 15, { embed: fakeEmbed, breakpointPercentile: 50 });
+
+        expect(chunks.map(chunk => chunk.content)).toEqual([
+            'The cat sleeps on the sofa. A cat likes warm places. My cat ignores everyone.',
+            'The rocket launched at dawn. Its rocket engines roared loudly.',
+            'Bread needs time to rise. Fresh bread smells wonderful.'
+        ]);
+        expect(chunks.map(chunk => chunk.metadata)).toEqual([
+            { contentType: 'text', semanticInfo: { topicIndex: 0, topicCount: 1, sentenceRange: [0, 2], isCompleteTopic: true, overlapTokens: 0 } },
+            { contentType: 'text', semanticInfo: { topicIndex: 1, topicCount: 1, sentenceRange: [3, 4], isCompleteTopic: true, overlapTokens: 0 } },
+            { contentType: 'text', semanticInfo: { topicIndex: 2, topicCount: 1, sentenceRange: [5, 6], isCompleteTopic: true, overlapTokens: 0 } }
+        ]);
+        expect(chunks.map(chunk => [chunk.chunkIndex, chunk.totalChunks])).toEqual([[0, 3], [1, 3], [2, 3]]);
+    });
+
+    it('splits a topic that does not fit along its sentences', async () => {
+        const chunks = await splitter.split(text, 8, { embed: fakeEmbed, breakpointPercentile: 50 });
+
+        expect(chunks[0].content).toBe('The cat sleeps on the sofa.');
+        expect(chunks[0].metadata?.semanticInfo).toMatchObject({ topicIndex: 0, sentenceRange: [0, 0], isCompleteTopic: false });
+        expect(chunks.every(chunk => chunk.tokenCount <= 8)).toBe(true);
+    });
+
+    it('repeats the end of the previous chunk as overlap', async () => {
+        const chunks = await splitter.split(text, 20, { embed: fakeEmbed, breakpointPercentile: 50, overlapTokens: 5 });
+
+        expect(chunks.map(chunk => chunk.content)).toEqual([
+            'The cat sleeps on the sofa. A cat likes warm places. My cat ignores everyone.',
+            'My cat ignores everyone. The rocket launched at dawn. Its rocket engines roared loudly.',
+            'Its rocket engines roared loudly. Bread needs time to rise. Fresh bread smells wonderful.'
+        ]);
+        expect(chunks.map(chunk => chunk.metadata?.semanticInfo?.overlapTokens)).toEqual([0, 4, 5]);
+        expect(chunks[2].metadata?.semanticInfo?.sentenceRange).toEqual([5, 6]);
+    });
+
+    it('checks the number of vectors and the percentile', async () => {
+        const embed = jest.fn<TextEmbedder>(async texts => texts.slice(1).map(() => [1, 0]));
+
+        await expect(splitter.split(text, 10, { embed })).rejects.toThrow('Expected 7 embeddings, got 6');
+        await expect(splitter.split(text, 10, { embed: fakeEmbed, breakpointPercentile: 120 })).rejects.toThrow(RangeError);
+    });
+});
+
+describe('DataSplitter with the semantic split strategy', () => {
+    const modelInfo = { name: 'test-model', maxRequestTokens: 1200, maxResponseTokens: 100 } as ModelInfo;
+
+    it('uses the semantic splitter for strings and needs an embedder', async () => {
+        const dataSplitter = new DataSplitter(tokenCalculator);
+        const data = Array.from({ length: 40 }, () => text).join(' ');
+
+        const chunks = await dataSplitter.splitIfNeeded({
+            message: 'Summarize.',
+            data,
+            modelInfo,
+            maxResponseTokens: 100,
+            splitStrategy: { strategy: 'semantic', overlapTokens: 10 },
+            embed: fakeEmbed
+        });
+
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(chunks.every(chunk => chunk.metadata?.semanticInfo !== undefined)).toBe(true);
+        await expect(dataSplitter.splitIfNeeded({ message: 'Summarize.', data, modelInfo, splitStrategy: 'semantic' }))
+            .rejects.toThrow('requires an embedder');
+    });
+});
@@ -0,0 +1,140 @@
+import { jest } from '@jest/globals';
+import {
+    getRateLimitInfoFromError,
+    parseRateLimitHeaders,
+    RateLimiter,
+    RateLimiterRegistry
+} from '@/core/ratelimit/RateLimiter.ts';
+
+describe('RateLimiter', () => {
+    beforeEach(() => {
+        jest.useFakeTimers({ now: 1_000_000 });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('lets requests through in order as the request bucket refills', async () => {
+        const limiter = new RateLimiter('openai', 'gpt-5-mini', { requestsPerMinute: 2 });
+        const granted: number[] = [];
+        const requests = [1, 2, 3].map(index => limiter.acquire().then(permit => {
+            granted.push(index);
+            permit.release();
+            return permit;
+        }));
+
+        await jest.advanceTimersByTimeAsync(0);
+        expect(granted).toEqual([1, 2]);
+        expect(limiter.getStats()).toMatchObject({ queueDepth: 1, active: 0 });
+
+        await jest.advanceTimersByTimeAsync(30_000);
+        expect(granted).toEqual([1, 2, 3]);
+        await expect(requests[2]).resolves.toMatchObject({ waitMs: 30_000, queueDepth: 1 });
+    });
+
+    it('holds requests back by tokens and corrects the estimate on release', async () => {
+        const limiter = new RateLimiter('openai', 'gpt-5-mini', { tokensPerMinute: 1000 });
+
+        const first = await limiter.acquire(400);
+        first.release(900);
+        let granted = false;
+        void limiter.acquire(400).then(permit => { granted = true; permit.release(); });
+
+        // 900 tokens were used, so 100 remain and 300 more take 18 seconds to refill
+        await jest.advanceTimersByTimeAsync(17_000);
+        expect(granted).toBe(false);
+        await jest.advanceTimersByTimeAsync(1_000);
+        expect(granted).toBe(true);
+    });
+
+    it('limits concurrency until permits are released', async () => {
+        const limiter = new RateLimiter('anthropic', 'claude', { maxConcurrent: 1 });
+        const first = await limiter.acquire();
+        let granted = false;
+        void limiter.acquire().then(() => { granted = true; });
+
+        await jest.advanceTimersByTimeAsync(60_000);
+        expect(granted).toBe(false);
+        first.release();
+        await jest.advanceTimersByTimeAsync(0);
+        expect(granted).toBe(true);
+    });
+
+    it('pauses for provider resets and adopts reported limits', async () => {
+        const limiter = new RateLimiter('openai', 'gpt-5-mini');
+        limiter.update({ requestLimit: 60, requestsRemaining: 0, requestsResetMs: 5_000 });
+        let granted = false;
+        void limiter.acquire().then(() => { granted = true; });
+
+        await jest.advanceTimersByTimeAsync(4_999);
+        expect(granted).toBe(false);
+        await jest.advanceTimersByTimeAsync(1);
+        expect(granted).toBe(true);
+    });
+
+    it('drops aborted requests from the queue', async () => {
+        const limiter = new RateLimiter('openai', 'gpt-5-mini', { maxConcurrent: 1 });
+        const first = await limiter.acquire();
+        const controller = new AbortController();
+        const waiting = limiter.acquire(0, controller.signal);
+
+        controller.abort(new Error('stop'));
+        await expect(waiting).rejects.toThrow('stop');
+        expect(limiter.getStats().queueDepth).toBe(0);
+        first.release();
+    });
+});
+
+describe('RateLimiterRegistry', () => {
+    it('shares one limiter per provider and model and prefers model limits', () => {
+        const registry = new RateLimiterRegistry({
+            openai: { requestsPerMinute: 100 },
+            'openai/gpt-5': { requestsPerMinute: 10 }
+        });
+
+        expect(registry.get('openai', 'gpt-5')).toBe(registry.get('openai', 'gpt-5'));
+        expect(registry.get('openai', 'gpt-5')).not.toBe(registry.get('openai', 'gpt-5-mini'));
+        expect(registry.getStats().map(stats => stats.model)).toEqual(['gpt-5', 'gpt-5-mini']);
+        expect(() => registry.configure({ openai: { requestsPerMinute: 0 } }))
+            .toThrow('rateLimits.openai.requestsPerMinute must be a positive number');
+    });
+});
+
+describe('parseRateLimitHeaders', () => {
+    it('reads OpenAI and Anthropic headers', () => {
+        expect(parseRateLimitHeaders(new Headers({
+            'x-ratelimit-limit-requests': '500',
+            'x-ratelimit-remaining-requests': '499',
+            'x-ratelimit-reset-requests': '120ms',
+            'x-ratelimit-limit-tokens': '30000',
+            'x-ratelimit-remaining-tokens': '0',
+            'x-ratelimit-reset-tokens': '6m0s'
+        }))).toEqual({
+            requestLimit: 500,
+            requestsRemaining: 499,
+            requestsResetMs: 120,
+            tokenLimit: 30000,
+            tokensRemaining: 0,
+            tokensResetMs: 360_000
+        });
+
+        jest.useFakeTimers({ now: Date.parse('2026-01-01T00:00:00Z') });
+        expect(parseRateLimitHeaders({
+            'anthropic-ratelimit-requests-limit': '50',
+            'anthropic-ratelimit-requests-remaining': '0',
+            'anthropic-ratelimit-requests-reset': '2026-01-01T00:00:30Z',
+            'retry-after': '30'
+        })).toEqual({ requestLimit: 50, requestsRemaining: 0, requestsResetMs: 30_000, retryAfterMs: 30_000 });
+        jest.useRealTimers();
+
+        expect(parseRateLimitHeaders({ 'content-type': 'application/json' })).toBeUndefined();
+    });
+
+    it('reads rate-limit state from errors and their causes', () => {
+        const cause = Object.assign(new Error('429'), { headers: { 'retry-after': '2' } });
+        expect(getRateLimitInfoFromError(Object.assign(new Error('Rate limit'), { cause }))).toEqual({ retryAfterMs: 2000 });
+        expect(getRateLimitInfoFromError(Object.assign(new Error('Rate limit'), { retryAfter: 3 }))).toEqual({ retryAfterMs: 3000 });
+        expect(getRateLimitInfoFromError(new Error('Bad request'))).toBeUndefined();
+    });
+});
@@ -1,7 +1,8 @@
 import { jest } from '@jest/globals';
-import { RetryManager } from '../../../../../src/core/retry/RetryManager.ts';
+import { RetryManager, RetryFailedError } from '../../../../../src/core/retry/RetryManager.ts';
 import type { RetryConfig } from '../../../../../src/core/retry/RetryManager.ts';
 import { LLMAbortError } from '../../../../../src/core/execution/errors.ts';
+import { Logger } from '../../../../../src/utils/logger.ts';
 
 describe('RetryManager', () => {
   it('does not start an operation when already aborted', async () => {
@@ -98,6 +99,28 @@ describe('RetryManager', () => {
     expect(operation).toHaveBeenCalledTimes(1);
   });
 
+  it('keeps the last underlying error on the error it throws', async () => {
+    const retryManager = new RetryManager({ baseDelay: 100, maxRetries: 1 });
+    const lastError = Object.assign(new Error('Service Unavailable'), { status: 503 });
+    const operation = jest.fn()
+      .mockRejectedValueOnce(new Error('first failure') as unknown as never)
+      .mockRejectedValueOnce(lastError as unknown as never);
+
+    const error = await retryManager.executeWithRetry(operation as any, () => true).catch(err => err);
+
+    expect(error).toBeInstanceOf(RetryFailedError);
+    expect(error.lastError).toBe(lastError);
+    expect(error.cause).toBe(lastError);
+
+    const nonRetryable = new Error('Unauthorized');
+    const rejected = await retryManager.executeWithRetry(
+      jest.fn().mockRejectedValue(nonRetryable as unknown as never) as any,
+      () => false
+    ).catch(err => err);
+    expect(rejected).toBeInstanceOf(RetryFailedError);
+    expect(rejected.lastError).toBe(nonRetryable);
+  });
+
   it('should use the production baseDelay when NODE_ENV is not "test"', async () => {
     const originalEnv = process.env.NODE_ENV;
     process.env.NODE_ENV = 'production';
@@ -186,10 +209,30 @@ describe('RetryManager Logging', () => {
     expect(operation).toHaveBeenCalledTimes(3);
 
     // Check that log messages have been output for each attempt with retry reason.
-    expect(logSpy).toHaveBeenCalledWith('RetryManager: Attempt 2 - Reason: fail 1');
-    expect(logSpy).toHaveBeenCalledWith('RetryManager: Attempt 3 - Reason: fail 2');
+    expect(logSpy).toHaveBeenCalledWith('[RetryManager] Attempt 2 - Reason: fail 1');
+    expect(logSpy).toHaveBeenCalledWith('[RetryManager] Attempt 3 - Reason: fail 2');
 
     logSpy.mockRestore();
     jest.useRealTimers();
   });
+
+  it('writes retry notices to stderr while stdout carries a protocol', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => { });
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+    Logger.setStderrOnly(true);
+    try {
+      const operation = jest.fn<() => Promise<string>>()
+        .mockRejectedValueOnce(new Error('fail 1'))
+        .mockResolvedValue('success');
+
+      await expect(new RetryManager({ maxRetries: 1 }).executeWithRetry(operation, () => true)).resolves.toBe('success');
+
+      expect(errorSpy).toHaveBeenCalledWith('[RetryManager] Attempt 2 - Reason: fail 1');
+      expect(logSpy).not.toHaveBeenCalled();
+    } finally {
+      Logger.setStderrOnly(false);
+      logSpy.mockRestore();
+      errorSpy.mockRestore();
+    }
+  });
 });
@@ -0,0 +1,112 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { z } from 'zod';
+import { PartialJsonParser } from '../../../../core/streaming/PartialJsonParser.ts';
+
+/** Feeds the text in pieces, returning the result after each piece */
+function feed(parser: PartialJsonParser, pieces: string[]) {
+    let text = '';
+    return pieces.map(piece => parser.update(text += piece));
+}
+
+describe('PartialJsonParser', () => {
+    it('closes unfinished strings, arrays and objects', () => {
+        const parser = new PartialJsonParser();
+
+        expect(parser.update('{"title": "Quarterly re')).toEqual({ value: { title: 'Quarterly re' }, completedFields: [], isComplete: false });
+        expect(parser.update('{"title": "Quarterly report", "tags": ["fin", "q')).toEqual({
+            value: { title: 'Quarterly report', tags: ['fin', 'q'] },
+            completedFields: ['title'],
+            isComplete: false
+        });
+    });
+
+    it('leaves out unfinished keys and literals', () => {
+        const results = feed(new PartialJsonParser(), ['{"count": 1', '2, "ti', 'tle": tr', 'ue, "n": null}']);
+
+        expect(results.map(result => result?.value)).toEqual([
+            {},
+            { count: 12 },
+            { count: 12 },
+            { count: 12, title: true, n: null }
+        ]);
+        expect(results[3]?.completedFields).toEqual(['count', 'title', 'n']);
+        expect(results[3]?.isComplete).toBe(true);
+    });
+
+    it('lists the completed items of a root array', () => {
+        const results = feed(new PartialJsonParser(), ['[{"name": "a"}, {"na', 'me": "b"}, ', '{"name": "c"}]']);
+
+        expect(results.map(result => result?.completedFields)).toEqual([['0'], ['0', '1'], ['0', '1', '2']]);
+        expect(results[0]?.value).toEqual([{ name: 'a' }, {}]);
+    });
+
+    it('skips text around the root value and handles escapes', () => {
+        const parser = new PartialJsonParser();
+
+        expect(parser.update('Here you go:\n```json\n')).toBeUndefined();
+        expect(parser.update('Here you go:\n```json\n{"quote": "say \\"hi\\", {ok}"}\n```')).toEqual({
+            value: { quote: 'say "hi", {ok}' },
+            completedFields: ['quote'],
+            isComplete: true
+        });
+    });
+
+    it('validates completed fields against the schema', () => {
+        const schema = z.object({ name: z.string(), age: z.number(), tags: z.array(z.string()) });
+        const parser = new PartialJsonParser(schema);
+
+        expect(parser.update('{"name": "Ada", "age": "unknown", "tags": ["math"')).toEqual({
+            value: { name: 'Ada', age: 'unknown', tags: ['math'] },
+            completedFields: ['name', 'age'],
+            isComplete: false,
+            validationErrors: [{ message: expect.any(String), path: ['age'] }]
+        });
+    });
+
+    it('validates completed fields under refinements, transforms and wrappers of the root schema', () => {
+        const fields = z.object({ name: z.string(), age: z.number() });
+        const schemas = [
+            fields.refine(value => value.age > 0),
+            fields.transform(value => ({ ...value, adult: value.age >= 18 })),
+            z.preprocess(value => value, fields),
+            fields.optional()
+        ];
+
+        for (const schema of schemas) {
+            const result = new PartialJsonParser(schema).update('{"name": "Ada", "age": "unknown", "n');
+            expect(result?.validationErrors).toEqual([{ message: expect.any(String), path: ['age'] }]);
+        }
+    });
+
+    it('parses every field once instead of repairing the whole text on each update', () => {
+        const text = JSON.stringify(Object.fromEntries(
+            Array.from({ length: 200 }, (_, i) => [`field${i}`, { id: i, label: `item ${i}` }])
+        ));
+        const parser = new PartialJsonParser();
+        const parse = jest.spyOn(JSON, 'parse');
+
+        let result;
+        for (let end = 10; end < text.length + 10; end += 10) {
+            result = parser.update(text.slice(0, end));
+        }
+        const parsedLength = parse.mock.calls.reduce((sum, [input]) => sum + String(input).length, 0);
+        parse.mockRestore();
+
+        expect(result?.value).toEqual(JSON.parse(text));
+        expect(result?.completedFields).toHaveLength(200);
+        expect(parsedLength).toBeLessThan(text.length * 4);
+    });
+
+    it('validates the items of a root array against a JSON Schema string', () => {
+        const schema = JSON.stringify({
+            type: 'array',
+            items: { type: 'object', properties: { n: { type: 'number' } }, required: ['n'] }
+        });
+        const parser = new PartialJsonParser(schema);
+
+        const result = parser.update('[{"n": 1}, {"m": 2}, {"n": 3');
+
+        expect(result?.completedFields).toEqual(['0', '1']);
+        expect(result?.validationErrors).toEqual([{ message: expect.any(String), path: ['1', 'n'] }]);
+    });
+});
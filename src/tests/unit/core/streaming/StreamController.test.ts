@@ -4,6 +4,7 @@ import { type UniversalChatParams, type UniversalStreamResponse, FinishReason }
 import type { ProviderManager } from '../../../../core/caller/ProviderManager.ts';
 import type { ModelManager } from '../../../../core/models/ModelManager.ts';
 import type { StreamHandler } from '../../../../core/streaming/StreamHandler.ts';
+import { RetryFailedError } from '../../../../core/retry/RetryManager.ts';
 import type { RetryManager } from '../../../../core/retry/RetryManager.ts';
 
 // Mock function declarations
@@ -320,8 +321,9 @@ describe('StreamController', () => {
     } catch (err) { error = err; }
     expect(error).toBeTruthy();
     expect(error).toEqual(expect.any(Error));
-    // The actual error message is about undefined.includes being called
-    expect((error as Error).message).toContain('Cannot read properties of undefined');
+    expect(error).toBeInstanceOf(RetryFailedError);
+    expect((error as Error).message).toBe('Failed after 3 retries. Last error: String error message');
+    expect((error as RetryFailedError).lastError).toBe('String error message');
   });
 
   // New test for handling errors in acquireStream due to stream creation
@@ -409,8 +411,7 @@ describe('StreamController', () => {
     } catch (err) { error = err; }
 
     expect(error).toBeTruthy();
-    // The actual error message is about undefined.includes being called
-    expect((error as Error).message).toContain('Cannot read properties of undefined');
+    expect((error as Error).message).toBe('Failed after 3 retries. Last error: Not an error object');
   });
 
   // New tests for content-based retry in streams
@@ -981,8 +982,8 @@ describe('StreamController', () => {
     } catch (err) { error = err; }
 
     expect(error).toBeTruthy();
-    // The error is about reading the 'includes' property on undefined, since message is undefined
-    expect((error as Error).message).toContain('Cannot read properties of undefined');
+    // Without a message the object's string form is reported
+    expect((error as Error).message).toBe('Failed after 3 retries. Last error: Error with no message property');
   });
 
   // Additional test for line 214-218 - error with non-string message property
@@ -1007,8 +1008,9 @@ describe('StreamController', () => {
     } catch (err) { error = err; }
 
     expect(error).toBeTruthy();
-    // The actual error is about calling includes on a non-string
-    expect((error as Error).message).toContain('errMsg.includes is not a function');
+    // A non-string message is not used
+    expect((error as Error).message).toBe('Failed after 3 retries. Last error: [object Object]');
+    expect((error as RetryFailedError).lastError).toBe(weirdErrorObject);
   });
 
   // Additional test for both lines 70 and 214-218
@@ -1094,8 +1096,7 @@ describe('StreamController', () => {
     } catch (err) { error = err as Error; }
 
     expect(error).toBeTruthy();
-    // The error would be about the lack of an 'includes' method
-    expect(error!.message).toContain('is not a function');
+    expect(error!.message).toBe('Failed after 3 retries. Last error: [object Object]');
   });
 
   // Additional specialized test for line 216 - validation error path
@@ -0,0 +1,102 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { StreamHandler } from '../../../../core/streaming/StreamHandler.ts';
+import type { StreamingService } from '../../../../core/streaming/StreamingService.ts';
+import type { StreamController } from '../../../../core/streaming/StreamController.ts';
+import type { ChatController } from '../../../../core/chat/ChatController.ts';
+import { ToolController } from '../../../../core/tools/ToolController.ts';
+import { ToolOrchestrator } from '../../../../core/tools/ToolOrchestrator.ts';
+import { ToolsManager } from '../../../../core/tools/ToolsManager.ts';
+import { HistoryManager } from '../../../../core/history/HistoryManager.ts';
+import { TokenCalculator } from '../../../../core/models/TokenCalculator.ts';
+import { FinishReason, type ModelInfo, type UniversalStreamResponse } from '../../../../interfaces/UniversalInterfaces.ts';
+import type { ToolApprovalHandler, ToolDefinition } from '../../../../types/tooling.ts';
+
+jest.mock('@dqbd/tiktoken');
+
+const MODEL: ModelInfo = {
+    name: 'stream-model',
+    inputPricePerMillion: 1,
+    outputPricePerMillion: 2,
+    maxRequestTokens: 4000,
+    maxResponseTokens: 1000,
+    capabilities: { input: { text: true }, output: { text: true }, toolCalls: true },
+    characteristics: { qualityIndex: 50, outputSpeed: 50, firstTokenLatency: 500 }
+};
+
+async function* providerStream(): AsyncGenerator<UniversalStreamResponse> {
+    yield {
+        role: 'assistant',
+        content: '',
+        isComplete: true,
+        toolCalls: [{ id: 'call_1', name: 'send_email', arguments: { to: 'ops@example.com' } }],
+        metadata: { finishReason: FinishReason.TOOL_CALLS }
+    };
+}
+
+async function* continuationStream(): AsyncGenerator<UniversalStreamResponse> {
+    yield { role: 'assistant', content: 'Sent.', isComplete: true, metadata: { finishReason: FinishReason.STOP } };
+}
+
+describe('StreamHandler tool approval', () => {
+    it('yields an awaiting_approval chunk while a tool call waits for approval', async () => {
+        const callFunction = jest.fn(async () => 'sent');
+        const tool: ToolDefinition = {
+            name: 'send_email',
+            description: 'Sends an email',
+            parameters: { type: 'object', properties: { to: { type: 'string' } } },
+            callFunction: callFunction as unknown as ToolDefinition['callFunction'],
+            requiresApproval: true
+        };
+        const historyManager = new HistoryManager('You are helpful.');
+        const toolController = new ToolController(new ToolsManager());
+        const orchestrator = new ToolOrchestrator(toolController, {} as ChatController, {} as StreamController, historyManager);
+        const streamingService = {
+            createStream: jest.fn(async () => continuationStream())
+        } as unknown as StreamingService;
+        const handler = new StreamHandler(
+            new TokenCalculator(),
+            historyManager,
+            undefined,
+            undefined,
+            undefined,
+            toolController,
+            orchestrator,
+            streamingService
+        );
+
+        const seen: string[] = [];
+        let releaseApproval: () => void = () => { };
+        const onToolApproval: ToolApprovalHandler = () => {
+            seen.push('asked');
+            return new Promise(resolve => {
+                releaseApproval = () => resolve({ action: 'approve' });
+            });
+        };
+
+        const chunks: UniversalStreamResponse[] = [];
+        for await (const chunk of handler.processStream(
+            providerStream(),
+            { model: MODEL.name, messages: [{ role: 'user', content: 'Email ops' }], tools: [tool], toolApproval: onToolApproval },
+            10,
+            MODEL
+        )) {
+            chunks.push(chunk);
+            if (chunk.metadata?.toolStatus === 'awaiting_approval') {
+                expect(callFunction).not.toHaveBeenCalled();
+                seen.push('chunk');
+                releaseApproval();
+            }
+        }
+
+        const awaiting = chunks.filter(chunk => chunk.metadata?.toolStatus === 'awaiting_approval');
+        expect(seen).toEqual(['asked', 'chunk']);
+        expect(awaiting).toHaveLength(1);
+        expect(awaiting[0].metadata).toMatchObject({
+            toolId: 'call_1',
+            toolName: 'send_email',
+            toolArguments: { to: 'ops@example.com' }
+        });
+        expect(callFunction).toHaveBeenCalledWith({ to: 'ops@example.com' });
+        expect(chunks[chunks.length - 1].content).toBe('Sent.');
+    });
+});
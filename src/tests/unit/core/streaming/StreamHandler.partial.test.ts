@@ -0,0 +1,75 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { z } from 'zod';
+import { StreamHandler } from '../../../../core/streaming/StreamHandler.ts';
+import { HistoryManager } from '../../../../core/history/HistoryManager.ts';
+import { TokenCalculator } from '../../../../core/models/TokenCalculator.ts';
+import { FinishReason, type ModelInfo, type UniversalStreamResponse } from '../../../../interfaces/UniversalInterfaces.ts';
+
+jest.mock('@dqbd/tiktoken');
+
+const MODEL: ModelInfo = {
+    name: 'json-model',
+    inputPricePerMillion: 1,
+    outputPricePerMillion: 2,
+    maxRequestTokens: 4000,
+    maxResponseTokens: 1000,
+    capabilities: { input: { text: true }, output: { text: { textOutputFormats: ['text', 'json'] } } },
+    characteristics: { qualityIndex: 50, outputSpeed: 50, firstTokenLatency: 500 }
+};
+
+const Recipe = z.object({
+    title: z.string(),
+    servings: z.number(),
+    steps: z.array(z.string())
+});
+
+async function* providerStream(pieces: string[]): AsyncGenerator<UniversalStreamResponse> {
+    for (const [index, content] of pieces.entries()) {
+        const isComplete = index === pieces.length - 1;
+        yield { role: 'assistant', content, isComplete, ...(isComplete ? { metadata: { finishReason: FinishReason.STOP } } : {}) };
+    }
+}
+
+async function collect(pieces: string[], validatePartialObject?: boolean) {
+    const handler = new StreamHandler(new TokenCalculator(), new HistoryManager('You are helpful.'));
+    const chunks: UniversalStreamResponse<z.infer<typeof Recipe>>[] = [];
+    for await (const chunk of handler.processStream<typeof Recipe>(
+        providerStream(pieces),
+        {
+            model: MODEL.name,
+            messages: [{ role: 'user', content: 'A pancake recipe.' }],
+            jsonSchema: { name: 'Recipe', schema: Recipe },
+            responseFormat: 'json',
+            ...(validatePartialObject ? { validatePartialObject } : {})
+        },
+        10,
+        MODEL
+    )) {
+        chunks.push(chunk);
+    }
+    return chunks;
+}
+
+describe('StreamHandler partial objects', () => {
+    const pieces = ['{"title": "Panc', 'akes", "servings": 4, "steps": ["Mix', '", "Fry"', ']}'];
+
+    it('yields the partial object and its completed fields with each chunk', async () => {
+        const chunks = await collect(pieces);
+
+        expect(chunks.map(chunk => chunk.partialObject)).toEqual([
+            { title: 'Panc' },
+            { title: 'Pancakes', servings: 4, steps: ['Mix'] },
+            { title: 'Pancakes', servings: 4, steps: ['Mix', 'Fry'] },
+            { title: 'Pancakes', servings: 4, steps: ['Mix', 'Fry'] }
+        ]);
+        expect(chunks.map(chunk => chunk.completedFields)).toEqual([[], ['title', 'servings'], ['title', 'servings'], ['title', 'servings', 'steps']]);
+        expect(chunks[3].contentObject).toEqual({ title: 'Pancakes', servings: 4, steps: ['Mix', 'Fry'] });
+    });
+
+    it('reports invalid completed fields while streaming when asked to validate them', async () => {
+        const chunks = await collect(['{"title": "Pancakes", "servings": "four", ', '"steps": []}'], true);
+
+        expect(chunks[0].metadata?.validationErrors).toEqual([{ message: expect.any(String), path: ['servings'] }]);
+        expect(chunks[1].metadata?.validationErrors).toEqual([{ message: expect.any(String), path: 'servings' }]);
+    });
+});
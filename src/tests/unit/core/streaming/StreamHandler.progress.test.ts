@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { StreamHandler } from '../../../../core/streaming/StreamHandler.ts';
+import type { StreamingService } from '../../../../core/streaming/StreamingService.ts';
+import type { StreamController } from '../../../../core/streaming/StreamController.ts';
+import type { ChatController } from '../../../../core/chat/ChatController.ts';
+import { ToolController } from '../../../../core/tools/ToolController.ts';
+import { ToolOrchestrator } from '../../../../core/tools/ToolOrchestrator.ts';
+import { ToolsManager } from '../../../../core/tools/ToolsManager.ts';
+import { HistoryManager } from '../../../../core/history/HistoryManager.ts';
+import { TokenCalculator } from '../../../../core/models/TokenCalculator.ts';
+import { MCPServiceAdapter } from '../../../../core/mcp/MCPServiceAdapter.ts';
+import { TelemetryCollector } from '../../../../core/telemetry/collector/TelemetryCollector.ts';
+import type { TelemetryProvider, ToolCallContext, ToolProgress } from '../../../../core/telemetry/providers/TelemetryProvider.ts';
+import { FinishReason, type ModelInfo, type UniversalStreamResponse } from '../../../../interfaces/UniversalInterfaces.ts';
+
+jest.mock('@dqbd/tiktoken');
+
+const MODEL: ModelInfo = {
+    name: 'stream-model',
+    inputPricePerMillion: 1,
+    outputPricePerMillion: 2,
+    maxRequestTokens: 4000,
+    maxResponseTokens: 1000,
+    capabilities: { input: { text: true }, output: { text: true }, toolCalls: true },
+    characteristics: { qualityIndex: 50, outputSpeed: 50, firstTokenLatency: 500 }
+};
+
+async function* providerStream(): AsyncGenerator<UniversalStreamResponse> {
+    yield {
+        role: 'assistant',
+        content: '',
+        isComplete: true,
+        toolCalls: [{ id: 'call_1', name: 'docs_search', arguments: { query: 'rate limits' } }],
+        metadata: { finishReason: FinishReason.TOOL_CALLS }
+    };
+}
+
+async function* continuationStream(): AsyncGenerator<UniversalStreamResponse> {
+    yield { role: 'assistant', content: 'Found it.', isComplete: true, metadata: { finishReason: FinishReason.STOP } };
+}
+
+/**
+ * Connects an adapter to an in-memory server whose `search` tool reports two progress steps.
+ */
+async function connectDocsServer(): Promise<MCPServiceAdapter> {
+    const adapter = new MCPServiceAdapter({ docs: { command: 'docs-server' } });
+    jest.spyOn(adapter as any, 'createTransport').mockImplementation(() => {
+        const server = new Server({ name: 'docs', version: '1.0.0' }, { capabilities: { tools: {} } });
+        server.setRequestHandler(ListToolsRequestSchema, async () => ({
+            tools: [{ name: 'search', inputSchema: { type: 'object' as const, properties: { query: { type: 'string' } } } }]
+        }));
+        server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+            const progressToken = request.params._meta?.progressToken;
+            if (progressToken !== undefined) {
+                await extra.sendNotification({ method: 'notifications/progress', params: { progressToken, progress: 1, total: 2, message: 'Indexing' } });
+                await extra.sendNotification({ method: 'notifications/progress', params: { progressToken, progress: 2, total: 2 } });
+            }
+            return { content: [{ type: 'text', text: 'Rate limits are per model.' }] };
+        });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        void server.connect(serverTransport);
+        return clientTransport;
+    });
+    await adapter.connectToServer('docs');
+    return adapter;
+}
+
+describe('StreamHandler MCP tool progress', () => {
+    let adapter: MCPServiceAdapter | undefined;
+
+    afterEach(async () => {
+        await adapter?.disconnectAll();
+    });
+
+    it('yields running chunks and records tool span events for MCP progress notifications', async () => {
+        adapter = await connectDocsServer();
+        const [tool] = await adapter.getServerTools('docs');
+        const progressEvents: Array<{ toolCallId: string; progress: ToolProgress }> = [];
+        const provider = {
+            name: 'fake',
+            init: async () => undefined,
+            startConversation: () => undefined,
+            endConversation: () => undefined,
+            startLLM: () => undefined,
+            addPrompt: () => undefined,
+            addChoice: () => undefined,
+            endLLM: () => undefined,
+            startTool: () => undefined,
+            endTool: () => undefined,
+            addToolProgress: (ctx: ToolCallContext, progress: ToolProgress) => progressEvents.push({ toolCallId: ctx.toolCallId, progress })
+        } satisfies TelemetryProvider;
+        const collector = new TelemetryCollector({ providers: [provider] });
+        await collector.awaitReady();
+
+        const historyManager = new HistoryManager('You are helpful.');
+        const toolController = new ToolController(new ToolsManager());
+        toolController.setTelemetryContext(collector, collector.startConversation('stream'));
+        const orchestrator = new ToolOrchestrator(toolController, {} as ChatController, {} as StreamController, historyManager);
+        const streamingService = {
+            createStream: jest.fn(async () => continuationStream())
+        } as unknown as StreamingService;
+        const mcpAdapter = adapter;
+        const handler = new StreamHandler(
+            new TokenCalculator(),
+            historyManager,
+            undefined,
+            undefined,
+            undefined,
+            toolController,
+            orchestrator,
+            streamingService,
+            () => mcpAdapter
+        );
+
+        const chunks: UniversalStreamResponse[] = [];
+        for await (const chunk of handler.processStream(
+            providerStream(),
+            { model: MODEL.name, messages: [{ role: 'user', content: 'How do rate limits work?' }], tools: [tool] },
+            10,
+            MODEL
+        )) {
+            chunks.push(chunk);
+        }
+
+        const running = chunks.filter(chunk => chunk.metadata?.toolStatus === 'running');
+        expect(running.map(chunk => chunk.metadata)).toEqual([
+            { toolStatus: 'running', toolId: 'call_1', toolName: 'docs_search', toolProgress: { progress: 1, total: 2, message: 'Indexing' } },
+            { toolStatus: 'running', toolId: 'call_1', toolName: 'docs_search', toolProgress: { progress: 2, total: 2 } }
+        ]);
+        expect(running.every(chunk => chunk.content === '' && !chunk.isComplete)).toBe(true);
+        expect(progressEvents.map(event => event.progress)).toEqual([
+            { progress: 1, total: 2, message: 'Indexing' },
+            { progress: 2, total: 2 }
+        ]);
+        expect(new Set(progressEvents.map(event => event.toolCallId)).size).toBe(1);
+        expect(historyManager.getMessages().find(message => message.role === 'tool')?.content).toContain('Rate limits are per model.');
+        expect(chunks[chunks.length - 1].content).toBe('Found it.');
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { StreamHandler } from '../../../../core/streaming/StreamHandler.ts';
+import type { StreamingService } from '../../../../core/streaming/StreamingService.ts';
+import type { StreamController } from '../../../../core/streaming/StreamController.ts';
+import type { ChatController } from '../../../../core/chat/ChatController.ts';
+import { ToolController } from '../../../../core/tools/ToolController.ts';
+import { ToolOrchestrator } from '../../../../core/tools/ToolOrchestrator.ts';
+import { ToolsManager } from '../../../../core/tools/ToolsManager.ts';
+import { HistoryManager } from '../../../../core/history/HistoryManager.ts';
+import { TokenCalculator } from '../../../../core/models/TokenCalculator.ts';
+import { FinishReason, type ModelInfo, type UniversalChatParams, type UniversalStreamResponse } from '../../../../interfaces/UniversalInterfaces.ts';
+import type { ToolDefinition } from '../../../../types/tooling.ts';
+
+jest.mock('@dqbd/tiktoken');
+
+const MODEL: ModelInfo = {
+    name: 'stream-model',
+    inputPricePerMillion: 1,
+    outputPricePerMillion: 2,
+    maxRequestTokens: 4000,
+    maxResponseTokens: 1000,
+    capabilities: { input: { text: true }, output: { text: true }, toolCalls: true },
+    characteristics: { qualityIndex: 50, outputSpeed: 50, firstTokenLatency: 500 }
+};
+
+async function* toolCallStream(content = ''): AsyncGenerator<UniversalStreamResponse> {
+    yield {
+        role: 'assistant',
+        content,
+        isComplete: true,
+        toolCalls: [{ id: 'call_1', name: 'search', arguments: { query: 'weather' } }],
+        metadata: { finishReason: FinishReason.TOOL_CALLS }
+    };
+}
+
+async function* answerStream(): AsyncGenerator<UniversalStreamResponse> {
+    yield { role: 'assistant', content: 'It is sunny.', isComplete: true, metadata: { finishReason: FinishReason.STOP } };
+}
+
+async function collect(stream: AsyncIterable<UniversalStreamResponse>): Promise<UniversalStreamResponse[]> {
+    const chunks: UniversalStreamResponse[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return chunks;
+}
+
+describe('StreamHandler tool loop stop', () => {
+    const setup = () => {
+        const callFunction = jest.fn(async () => 'results');
+        const tool: ToolDefinition = {
+            name: 'search',
+            description: 'Searches the web',
+            parameters: { type: 'object', properties: { query: { type: 'string' } } },
+            callFunction: callFunction as unknown as ToolDefinition['callFunction']
+        };
+        const historyManager = new HistoryManager('You are helpful.');
+        const toolController = new ToolController(new ToolsManager());
+        const orchestrator = new ToolOrchestrator(toolController, {} as ChatController, {} as StreamController, historyManager);
+        const createStream = jest.fn(async (_params: UniversalChatParams) => answerStream());
+        const handler = new StreamHandler(
+            new TokenCalculator(),
+            historyManager,
+            undefined,
+            undefined,
+            undefined,
+            toolController,
+            orchestrator,
+            { createStream } as unknown as StreamingService
+        );
+        return { callFunction, tool, createStream, handler };
+    };
+
+    it('continues a stopped loop with toolChoice none and the tool definitions', async () => {
+        const { callFunction, tool, createStream, handler } = setup();
+
+        const chunks = await collect(handler.processStream(
+            toolCallStream(),
+            {
+                model: MODEL.name,
+                messages: [{ role: 'user', content: 'What is the weather?' }],
+                tools: [tool],
+                toolLoopPolicy: { maxCallsPerTool: 0 }
+            },
+            10,
+            MODEL
+        ));
+
+        expect(callFunction).not.toHaveBeenCalled();
+        expect(createStream).toHaveBeenCalledTimes(1);
+        const continuation = createStream.mock.calls[0][0];
+        expect(continuation.settings?.toolChoice).toBe('none');
+        // The tools stay on the request, since providers reject toolChoice without tools
+        expect(continuation.tools).toEqual([tool]);
+        expect(chunks[chunks.length - 1].content).toBe('It is sunny.');
+    });
+
+    it('drops tool calls of a stream requested with toolChoice none', async () => {
+        const { callFunction, tool, createStream, handler } = setup();
+
+        const chunks = await collect(handler.processStream(
+            toolCallStream('It is probably sunny.'),
+            {
+                model: MODEL.name,
+                messages: [{ role: 'user', content: 'What is the weather?' }],
+                tools: [tool],
+                settings: { toolChoice: 'none' }
+            },
+            10,
+            MODEL
+        ));
+
+        expect(callFunction).not.toHaveBeenCalled();
+        expect(createStream).not.toHaveBeenCalled();
+        const last = chunks[chunks.length - 1];
+        expect(last.content).toBe('It is probably sunny.');
+        expect(last.toolCalls).toBeUndefined();
+        expect(last.metadata?.finishReason).toBe(FinishReason.STOP);
+    });
+});
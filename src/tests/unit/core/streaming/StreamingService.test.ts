@@ -452,6 +452,24 @@ describe('StreamingService', () => {
     expect(messages[0].content).toBe('Current message');
   });
 
+  it('sends only the request fields to the provider', async () => {
+    const params = createTestParams({
+      settings: { temperature: 0.2 },
+      historyMode: 'stateless' as HistoryMode,
+      cache: 'bypass',
+      toolLoopPolicy: { maxToolCalls: 3 },
+      validatePartialObject: true,
+      usageBatchSize: 10,
+      futureControllerOption: true
+    });
+
+    await streamingService.createStream(params, 'test-model');
+
+    const callParams = mockProvider.streamCall.mock.calls[0][1] as Record<string, unknown>;
+    expect(Object.keys(callParams).sort()).toEqual(['historyMode', 'messages', 'model', 'settings']);
+    expect(callParams).toMatchObject({ model: 'test-model', settings: expect.objectContaining({ temperature: 0.2 }) });
+  });
+
   it('should correctly apply stateless history mode', async () => {
     // Arrange
     const systemMessage: UniversalMessage = { role: 'system', content: 'System instructions' };
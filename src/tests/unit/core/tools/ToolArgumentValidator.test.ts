@@ -0,0 +1,72 @@
+import { describe, expect, it } from '@jest/globals';
+import { formatInvalidToolArguments, validateToolArguments } from '../../../../core/tools/ToolArgumentValidator.ts';
+import type { ToolDefinition } from '../../../../types/tooling.ts';
+
+const tool: ToolDefinition = {
+    name: 'get_forecast',
+    description: 'Gets the weather forecast',
+    parameters: {
+        type: 'object',
+        properties: {
+            city: { type: 'string' },
+            days: { type: 'integer' },
+            metric: { type: 'boolean' },
+            level: { type: 'number', enum: [1, 2, 3] },
+            hours: { type: 'array', items: { type: 'number' } }
+        },
+        required: ['city', 'days']
+    }
+};
+
+describe('validateToolArguments', () => {
+    it('accepts arguments that match the parameters', () => {
+        expect(validateToolArguments(tool, { city: 'Oslo', days: 3 })).toEqual({
+            arguments: { city: 'Oslo', days: 3 },
+            status: 'valid',
+            validationErrors: []
+        });
+    });
+
+    it('coerces obvious scalar mismatches', () => {
+        const result = validateToolArguments(tool, {
+            city: 'Oslo',
+            days: '5',
+            metric: 'true',
+            level: '2',
+            hours: ['6', 12]
+        });
+
+        expect(result.status).toBe('coerced');
+        expect(result.arguments).toEqual({ city: 'Oslo', days: 5, metric: true, level: 2, hours: [6, 12] });
+    });
+
+    it('reports missing and mistyped arguments', () => {
+        const result = validateToolArguments(tool, { days: 'soon', metric: 'yes' });
+
+        expect(result.status).toBe('invalid');
+        expect(result.validationErrors.map(error => error.path)).toEqual(expect.arrayContaining(['city', 'days', 'metric']));
+    });
+
+    it('does not coerce fractions to integers', () => {
+        expect(validateToolArguments(tool, { city: 'Oslo', days: '2.5' }).status).toBe('invalid');
+    });
+
+    it('accepts any value for schema constructs it does not understand', () => {
+        const mcpTool: ToolDefinition = {
+            ...tool,
+            parameters: { type: 'object', properties: { filter: { anyOf: [{ type: 'string' }, { type: 'null' }] } } }
+        };
+
+        expect(validateToolArguments(mcpTool, { filter: 42 }).status).toBe('valid');
+    });
+
+    it('formats validation errors as JSON for the model', () => {
+        const content = JSON.parse(formatInvalidToolArguments('get_forecast', [{ path: 'days', message: 'Expected number' }]));
+
+        expect(content).toEqual({
+            error: 'invalid_arguments',
+            message: expect.stringContaining('get_forecast'),
+            validationErrors: [{ path: 'days', message: 'Expected number' }]
+        });
+    });
+});
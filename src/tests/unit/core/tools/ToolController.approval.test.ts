@@ -0,0 +1,199 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { ToolController } from '../../../../core/tools/ToolController.ts';
+import { ToolOrchestrator } from '../../../../core/tools/ToolOrchestrator.ts';
+import { ToolsManager } from '../../../../core/tools/ToolsManager.ts';
+import { HistoryManager } from '../../../../core/history/HistoryManager.ts';
+import { CallExecutionContext } from '../../../../core/execution/CallExecutionContext.ts';
+import { LLMAbortError } from '../../../../core/execution/errors.ts';
+import type { ChatController } from '../../../../core/chat/ChatController.ts';
+import type { StreamController } from '../../../../core/streaming/StreamController.ts';
+import type { UniversalChatResponse } from '../../../../interfaces/UniversalInterfaces.ts';
+import type { ToolApprovalDecision, ToolApprovalHandler, ToolDefinition } from '../../../../types/tooling.ts';
+
+const createTool = (name: string, requiresApproval?: ToolDefinition['requiresApproval']) => {
+    const callFunction = jest.fn(async (args: Record<string, unknown>) => ({ sent: args }));
+    const tool: ToolDefinition = {
+        name,
+        description: `The ${name} tool`,
+        parameters: { type: 'object', properties: { to: { type: 'string' } } },
+        callFunction: callFunction as unknown as ToolDefinition['callFunction'],
+        requiresApproval
+    };
+    return { tool, callFunction };
+};
+
+const toolCallResponse = (...calls: Array<{ id: string; name: string; arguments: Record<string, unknown> }>): UniversalChatResponse => ({
+    role: 'assistant',
+    content: '',
+    toolCalls: calls
+});
+
+describe('ToolController approval', () => {
+    it('runs approved calls and calls of tools that need no approval', async () => {
+        const email = createTool('send_email', true);
+        const lookup = createTool('lookup');
+        const onToolApproval = jest.fn<ToolApprovalHandler>(async () => ({ action: 'approve' }));
+        const controller = new ToolController(new ToolsManager());
+
+        const result = await controller.processToolCalls(
+            toolCallResponse(
+                { id: 'call_1', name: 'send_email', arguments: { to: 'ops@example.com' } },
+                { id: 'call_2', name: 'lookup', arguments: { to: 'ops' } }
+            ),
+            [email.tool, lookup.tool],
+            null,
+            undefined,
+            onToolApproval
+        );
+
+        expect(onToolApproval).toHaveBeenCalledTimes(1);
+        expect(onToolApproval).toHaveBeenCalledWith({ id: 'call_1', name: 'send_email', arguments: { to: 'ops@example.com' } });
+        expect(email.callFunction).toHaveBeenCalledWith({ to: 'ops@example.com' });
+        expect(lookup.callFunction).toHaveBeenCalled();
+        expect(result.toolCalls[0].approval).toBe('approve');
+        expect(result.toolCalls[1].approval).toBeUndefined();
+    });
+
+    it('reports denied calls to the model without running them', async () => {
+        const email = createTool('send_email', true);
+        const controller = new ToolController(new ToolsManager());
+
+        const result = await controller.processToolCalls(
+            toolCallResponse({ id: 'call_1', name: 'send_email', arguments: { to: 'all@example.com' } }),
+            [email.tool],
+            null,
+            undefined,
+            async () => ({ action: 'deny', reason: 'Too many recipients' })
+        );
+
+        expect(email.callFunction).not.toHaveBeenCalled();
+        expect(result.toolCalls[0]).toMatchObject({ approval: 'deny', error: 'Tool call was not approved: Too many recipients' });
+        expect(result.messages).toEqual([{
+            role: 'tool',
+            content: 'Tool call was not approved: Too many recipients',
+            metadata: { tool_call_id: 'call_1' }
+        }]);
+    });
+
+    it('runs edited calls with the edited arguments and tells the model about the edit', async () => {
+        const email = createTool('send_email', true);
+        const controller = new ToolController(new ToolsManager());
+
+        const result = await controller.processToolCalls(
+            toolCallResponse({ id: 'call_1', name: 'send_email', arguments: { to: 'all@example.com' } }),
+            [email.tool],
+            null,
+            undefined,
+            async () => ({ action: 'edit', arguments: { to: 'team@example.com' } })
+        );
+
+        expect(email.callFunction).toHaveBeenCalledWith({ to: 'team@example.com' });
+        expect(result.toolCalls[0]).toMatchObject({ approval: 'edit', arguments: { to: 'team@example.com' } });
+        expect(result.messages[0].content).toContain('Arguments used: {"to":"team@example.com"}');
+        expect(result.messages[0].content).toContain('"sent":{"to":"team@example.com"}');
+    });
+
+    it('asks for approval only when the policy requires it and denies without a handler', async () => {
+        const payment = createTool('pay', (args) => Number(args.amount) > 100);
+        const controller = new ToolController(new ToolsManager(), 10);
+
+        const small = await controller.processToolCalls(
+            toolCallResponse({ id: 'call_1', name: 'pay', arguments: { amount: 20 } }),
+            [payment.tool]
+        );
+        const large = await controller.processToolCalls(
+            toolCallResponse({ id: 'call_2', name: 'pay', arguments: { amount: 500 } }),
+            [payment.tool]
+        );
+
+        expect(small.toolCalls[0].approval).toBeUndefined();
+        expect(large.toolCalls[0].error).toBe('Tool call was not approved: no approval handler is configured');
+        expect(payment.callFunction).toHaveBeenCalledTimes(1);
+    });
+
+    it('asks for approvals one at a time before any tool runs', async () => {
+        const first = createTool('first', true);
+        const second = createTool('second', true);
+        const events: string[] = [];
+        const onToolApproval: ToolApprovalHandler = async call => {
+            events.push(`ask ${call.name}`);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            events.push(`decided ${call.name}`);
+            return { action: 'approve' };
+        };
+        first.callFunction.mockImplementation(async () => { events.push('run first'); return 'ok'; });
+        second.callFunction.mockImplementation(async () => { events.push('run second'); return 'ok'; });
+        const controller = new ToolController(new ToolsManager());
+
+        await controller.processToolCalls(
+            toolCallResponse(
+                { id: 'call_1', name: 'first', arguments: {} },
+                { id: 'call_2', name: 'second', arguments: {} }
+            ),
+            [first.tool, second.tool],
+            null,
+            undefined,
+            onToolApproval
+        );
+
+        expect(events.slice(0, 4)).toEqual(['ask first', 'decided first', 'ask second', 'decided second']);
+    });
+
+    it('stops waiting for approval when the call is cancelled', async () => {
+        const email = createTool('send_email', true);
+        const abortController = new AbortController();
+        const context = new CallExecutionContext({ signal: abortController.signal });
+        let control: { signal?: AbortSignal } | undefined;
+        const onToolApproval: ToolApprovalHandler = (_call, executionControl) => {
+            control = executionControl;
+            setTimeout(() => abortController.abort(), 0);
+            return new Promise<ToolApprovalDecision>(() => { });
+        };
+        const controller = new ToolController(new ToolsManager());
+
+        await expect(controller.processToolCalls(
+            toolCallResponse({ id: 'call_1', name: 'send_email', arguments: {} }),
+            [email.tool],
+            null,
+            context,
+            onToolApproval
+        )).rejects.toThrow(LLMAbortError);
+        expect(control?.signal?.aborted).toBe(true);
+        expect(email.callFunction).not.toHaveBeenCalled();
+        context.dispose();
+    });
+});
+
+describe('ToolOrchestrator approval', () => {
+    it('adds denials and edits to the history as tool messages', async () => {
+        const email = createTool('send_email', true);
+        const historyManager = new HistoryManager();
+        const orchestrator = new ToolOrchestrator(
+            new ToolController(new ToolsManager()),
+            {} as ChatController,
+            {} as StreamController,
+            historyManager
+        );
+        const decisions: Record<string, ToolApprovalDecision> = {
+            call_1: { action: 'deny' },
+            call_2: { action: 'edit', arguments: { to: 'team@example.com' } }
+        };
+
+        await orchestrator.processToolCalls(
+            toolCallResponse(
+                { id: 'call_1', name: 'send_email', arguments: { to: 'all@example.com' } },
+                { id: 'call_2', name: 'send_email', arguments: { to: 'everyone@example.com' } }
+            ),
+            [email.tool],
+            undefined,
+            undefined,
+            async call => decisions[call.id]
+        );
+
+        const toolMessages = historyManager.getMessages().filter(message => message.role === 'tool');
+        expect(toolMessages.map(message => message.content)).toEqual([
+            'Tool call was not approved.',
+            expect.stringContaining('Arguments used: {"to":"team@example.com"}')
+        ]);
+    });
+});
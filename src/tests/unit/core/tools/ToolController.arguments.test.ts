@@ -0,0 +1,87 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { ToolController } from '../../../../core/tools/ToolController.ts';
+import { ToolsManager } from '../../../../core/tools/ToolsManager.ts';
+import type { TelemetryCollector } from '../../../../core/telemetry/collector/TelemetryCollector.ts';
+import type { ConversationContext } from '../../../../core/telemetry/collector/types.ts';
+import type { UniversalChatResponse } from '../../../../interfaces/UniversalInterfaces.ts';
+import { ToolArgumentValidationError, type ToolDefinition } from '../../../../types/tooling.ts';
+
+const createTool = () => {
+    const callFunction = jest.fn(async (args: Record<string, unknown>) => ({ received: args }));
+    const tool: ToolDefinition = {
+        name: 'book_table',
+        description: 'Books a restaurant table',
+        parameters: {
+            type: 'object',
+            properties: { guests: { type: 'integer' }, time: { type: 'string' } },
+            required: ['guests', 'time']
+        },
+        callFunction: callFunction as unknown as ToolDefinition['callFunction']
+    };
+    return { tool, callFunction };
+};
+
+const toolCallResponse = (args: Record<string, unknown>): UniversalChatResponse => ({
+    role: 'assistant',
+    content: '',
+    toolCalls: [{ id: 'call_1', name: 'book_table', arguments: args }]
+});
+
+describe('ToolController argument validation', () => {
+    it('runs the tool with coerced arguments', async () => {
+        const { tool, callFunction } = createTool();
+        const controller = new ToolController(new ToolsManager());
+
+        const result = await controller.processToolCalls(toolCallResponse({ guests: '4', time: '19:00' }), [tool]);
+
+        expect(callFunction).toHaveBeenCalledWith({ guests: 4, time: '19:00' });
+        expect(result.toolCalls[0].arguments).toEqual({ guests: 4, time: '19:00' });
+    });
+
+    it('sends validation errors back to the model instead of running the tool', async () => {
+        const { tool, callFunction } = createTool();
+        const controller = new ToolController(new ToolsManager());
+
+        const result = await controller.processToolCalls(toolCallResponse({ guests: 'four' }), [tool]);
+
+        expect(callFunction).not.toHaveBeenCalled();
+        const content = JSON.parse(String(result.messages[0].content));
+        expect(content.error).toBe('invalid_arguments');
+        expect(content.validationErrors.map((error: { path: string }) => error.path)).toEqual(expect.arrayContaining(['guests', 'time']));
+        expect(result.toolCalls[0].validationErrors).toEqual(content.validationErrors);
+    });
+
+    it('fails the call in strict mode', async () => {
+        const { tool, callFunction } = createTool();
+        const controller = new ToolController(new ToolsManager(), 5, undefined, 'strict');
+
+        await expect(controller.processToolCalls(toolCallResponse({ guests: 'four', time: '19:00' }), [tool]))
+            .rejects.toThrow(ToolArgumentValidationError);
+        expect(callFunction).not.toHaveBeenCalled();
+    });
+
+    it('passes arguments through unchecked when validation is off', async () => {
+        const { tool, callFunction } = createTool();
+        const controller = new ToolController(new ToolsManager(), 5, undefined, 'off');
+
+        await controller.processToolCalls(toolCallResponse({ guests: 'four' }), [tool]);
+
+        expect(callFunction).toHaveBeenCalledWith({ guests: 'four' });
+    });
+
+    it('records the validation outcome on the tool span', async () => {
+        const { tool } = createTool();
+        const startTool = jest.fn((_conversation: unknown, meta: Record<string, unknown>) => ({ ...meta, toolCallId: 'span_1' }));
+        const endTool = jest.fn();
+        const collector = { startTool, endTool } as unknown as TelemetryCollector;
+        const controller = new ToolController(new ToolsManager(), 5, collector);
+        controller.setTelemetryContext(collector, { conversationId: 'conv_1' } as ConversationContext);
+
+        await controller.processToolCalls(toolCallResponse({ guests: 'four', time: '19:00' }), [tool]);
+
+        expect(startTool.mock.calls[0][1]).toMatchObject({
+            argumentValidation: { status: 'invalid', errors: [expect.objectContaining({ path: 'guests' })] }
+        });
+        expect(endTool).toHaveBeenCalledWith(expect.anything(), undefined, expect.any(ToolArgumentValidationError));
+    });
+});
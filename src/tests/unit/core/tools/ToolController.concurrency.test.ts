@@ -0,0 +1,127 @@
+import { describe, expect, it } from '@jest/globals';
+import { ToolController } from '../../../../core/tools/ToolController.ts';
+import { ToolsManager } from '../../../../core/tools/ToolsManager.ts';
+import { CallExecutionContext } from '../../../../core/execution/CallExecutionContext.ts';
+import { LLMAbortError } from '../../../../core/execution/errors.ts';
+import type { UniversalChatResponse } from '../../../../interfaces/UniversalInterfaces.ts';
+import type { LLMExecutionControl } from '../../../../interfaces/ExecutionInterfaces.ts';
+import type { ToolDefinition } from '../../../../types/tooling.ts';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const createTool = (name: string, events: string[], ms: number, hints: Partial<ToolDefinition> = {}): ToolDefinition => ({
+    name,
+    description: name,
+    parameters: { type: 'object', properties: { id: { type: 'integer' } } },
+    callFunction: (async (args: Record<string, unknown>) => {
+        events.push(`start ${name} ${args.id}`);
+        await delay(ms);
+        events.push(`end ${name} ${args.id}`);
+        return `${name} ${args.id} done`;
+    }) as unknown as ToolDefinition['callFunction'],
+    ...hints
+});
+
+const toolCallResponse = (...calls: [string, number][]): UniversalChatResponse => ({
+    role: 'assistant',
+    content: '',
+    toolCalls: calls.map(([name, id]) => ({ id: `call_${id}`, name, arguments: { id } }))
+});
+
+describe('ToolController concurrency', () => {
+    it('runs serial tools one call at a time and keeps results in the requested order', async () => {
+        const events: string[] = [];
+        const tools = [
+            createTool('write_file', events, 20, { concurrency: 'serial' }),
+            createTool('search', events, 5)
+        ];
+        const controller = new ToolController(new ToolsManager());
+
+        const result = await controller.processToolCalls(toolCallResponse(['write_file', 1], ['search', 2], ['write_file', 3]), tools);
+
+        expect(events.indexOf('start write_file 3')).toBeGreaterThan(events.indexOf('end write_file 1'));
+        expect(events.indexOf('start search 2')).toBeLessThan(events.indexOf('end write_file 1'));
+        expect(result.messages.map(message => message.content)).toEqual(['write_file 1 done', 'search 2 done', 'write_file 3 done']);
+        expect(result.toolCalls.map(call => call.id)).toEqual(['call_1', 'call_2', 'call_3']);
+    });
+
+    it('runs exclusive tools alone and tools of one mutex group one at a time', async () => {
+        const events: string[] = [];
+        const tools = [
+            createTool('charge_card', events, 10, { mutexGroup: 'billing' }),
+            createTool('refund', events, 10, { mutexGroup: 'billing' }),
+            createTool('deploy', events, 10, { concurrency: 'exclusive' }),
+            createTool('search', events, 10)
+        ];
+        const controller = new ToolController(new ToolsManager());
+
+        await controller.processToolCalls(toolCallResponse(['charge_card', 1], ['refund', 2], ['deploy', 3], ['search', 4]), tools);
+
+        expect(events).toEqual([
+            'start charge_card 1', 'end charge_card 1',
+            'start refund 2', 'end refund 2',
+            'start deploy 3', 'end deploy 3',
+            'start search 4', 'end search 4'
+        ]);
+    });
+
+    it('respects the maximum concurrency', async () => {
+        const events: string[] = [];
+        const controller = new ToolController(new ToolsManager(), 5, undefined, 'coerce', undefined, undefined, 1);
+
+        await controller.processToolCalls(toolCallResponse(['search', 1], ['search', 2]), [createTool('search', events, 5)]);
+
+        expect(events).toEqual(['start search 1', 'end search 1', 'start search 2', 'end search 2']);
+        expect(() => new ToolController(new ToolsManager(), 5, undefined, 'coerce', undefined, undefined, 0)).toThrow(RangeError);
+    });
+
+    it('reports a call that exceeds its tool timeout to the model', async () => {
+        let signal: AbortSignal | undefined;
+        const slow: ToolDefinition = {
+            name: 'slow_report',
+            description: 'Builds a slow report',
+            parameters: { type: 'object', properties: {} },
+            timeoutMs: 20,
+            callFunction: (async (_args: Record<string, unknown>, control?: LLMExecutionControl) => {
+                signal = control?.signal;
+                await delay(200);
+                return 'late';
+            }) as unknown as ToolDefinition['callFunction']
+        };
+        const controller = new ToolController(new ToolsManager());
+
+        const result = await controller.processToolCalls({
+            role: 'assistant',
+            content: '',
+            toolCalls: [{ id: 'call_1', name: 'slow_report', arguments: {} }]
+        }, [slow]);
+
+        expect(result.messages[0].content).toBe('Error: Tool slow_report timed out after 20ms');
+        expect(result.toolCalls[0].error).toBe('Error: Tool slow_report timed out after 20ms');
+        expect(signal?.aborted).toBe(true);
+    });
+
+    it('still cancels the call when the caller aborts during a tool with a timeout', async () => {
+        const abortController = new AbortController();
+        const context = new CallExecutionContext({ signal: abortController.signal });
+        const slow: ToolDefinition = {
+            name: 'slow_report',
+            description: 'Builds a slow report',
+            parameters: { type: 'object', properties: {} },
+            timeoutMs: 1000,
+            callFunction: (async () => {
+                await delay(200);
+                return 'late';
+            }) as unknown as ToolDefinition['callFunction']
+        };
+        const controller = new ToolController(new ToolsManager());
+        setTimeout(() => abortController.abort(), 10);
+
+        await expect(controller.processToolCalls({
+            role: 'assistant',
+            content: '',
+            toolCalls: [{ id: 'call_1', name: 'slow_report', arguments: {} }]
+        }, [slow], undefined, context)).rejects.toBeInstanceOf(LLMAbortError);
+        context.dispose();
+    });
+});
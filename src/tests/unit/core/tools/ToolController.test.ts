@@ -368,4 +368,63 @@ describe('ToolController', () => {
       await expect(controller.executeToolCall(toolCall)).rejects.toThrow('Tool function not defined');
     });
   });
+
+  // MCPServiceAdapter names its tools `${serverKey}_${toolName}` and keeps `${serverKey}.${toolName}`
+  // in metadata.originalName; the server only knows the tool by metadata.toolName
+  describe('MCP tools', () => {
+    const mcpTool: ToolDefinition = {
+      name: 'filesystem_read_file',
+      description: 'Read a file',
+      parameters: { type: 'object', properties: { path: { type: 'string' } } },
+      origin: 'mcp',
+      metadata: { isMCP: true, originalName: 'filesystem.read_file', serverKey: 'filesystem', toolName: 'read_file' }
+    };
+    const createMcpAdapter = () => ({
+      executeMcpTool: jest.fn().mockResolvedValue({ content: 'file contents' } as unknown as never)
+    });
+
+    test('executeToolCall calls the server tool by its MCP name', async () => {
+      const controller = new ToolController(createFakeToolsManager());
+      const mcpAdapter = createMcpAdapter();
+
+      const result = await controller.executeToolCall(
+        { id: 'call_mcp', name: 'filesystem_read_file', arguments: { path: 'a.txt' } },
+        [mcpTool],
+        mcpAdapter as any
+      );
+
+      expect(mcpAdapter.executeMcpTool).toHaveBeenCalledWith('filesystem', 'read_file', { path: 'a.txt' });
+      expect(result).toEqual({ content: 'file contents' });
+    });
+
+    test('processToolCalls calls the server tool by its MCP name', async () => {
+      const controller = new ToolController(createFakeToolsManager());
+      const mcpAdapter = createMcpAdapter();
+
+      await controller.processToolCalls({
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id: 'call_mcp', name: 'filesystem_read_file', arguments: { path: 'a.txt' } }]
+      }, [mcpTool], mcpAdapter as any);
+
+      expect(mcpAdapter.executeMcpTool).toHaveBeenCalledWith('filesystem', 'read_file', { path: 'a.txt' }, expect.anything());
+    });
+
+    test('falls back to metadata.originalName for tools without a toolName', async () => {
+      const controller = new ToolController(createFakeToolsManager());
+      const mcpAdapter = createMcpAdapter();
+      const legacyTool: ToolDefinition = {
+        ...mcpTool,
+        metadata: { isMCP: true, originalName: 'read_file', serverKey: 'filesystem' }
+      };
+
+      await controller.executeToolCall(
+        { id: 'call_mcp', name: 'filesystem_read_file', arguments: { path: 'a.txt' } },
+        [legacyTool],
+        mcpAdapter as any
+      );
+
+      expect(mcpAdapter.executeMcpTool).toHaveBeenCalledWith('filesystem', 'read_file', { path: 'a.txt' });
+    });
+  });
 });
\ No newline at end of file
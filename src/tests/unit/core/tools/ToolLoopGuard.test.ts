@@ -0,0 +1,138 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { checkToolLoopPolicy, createToolLoopState, type ToolLoopState } from '../../../../core/tools/ToolLoopGuard.ts';
+import { ToolOrchestrator } from '../../../../core/tools/ToolOrchestrator.ts';
+import { ToolController } from '../../../../core/tools/ToolController.ts';
+import { ToolsManager } from '../../../../core/tools/ToolsManager.ts';
+import { HistoryManager } from '../../../../core/history/HistoryManager.ts';
+import type { ChatController } from '../../../../core/chat/ChatController.ts';
+import type { StreamController } from '../../../../core/streaming/StreamController.ts';
+import type { UniversalChatResponse } from '../../../../interfaces/UniversalInterfaces.ts';
+import { ToolLoopStoppedError, type ToolDefinition, type ToolLoopPolicy } from '../../../../types/tooling.ts';
+
+const stateWith = (...executions: [string, Record<string, unknown>][]): ToolLoopState => ({
+    ...createToolLoopState(),
+    executions: executions.map(([toolName, args], index) => ({ id: `call_${index}`, toolName, arguments: args, result: 'ok' }))
+});
+
+const searchTool: ToolDefinition = {
+    name: 'web_search',
+    description: 'Searches the web',
+    parameters: { type: 'object', properties: { query: { type: 'string' } } },
+    callFunction: (async (args: Record<string, unknown>) => `Results for ${args.query}`) as unknown as ToolDefinition['callFunction']
+};
+
+const searchTurn = (id: string, query: string): UniversalChatResponse => ({
+    role: 'assistant',
+    content: '',
+    toolCalls: [{ id, name: 'web_search', arguments: { query } }]
+});
+
+const createOrchestrator = () => {
+    const historyManager = new HistoryManager('You are helpful.');
+    const orchestrator = new ToolOrchestrator(
+        new ToolController(new ToolsManager(), 10),
+        {} as ChatController,
+        {} as StreamController,
+        historyManager
+    );
+    return { orchestrator, historyManager };
+};
+
+describe('checkToolLoopPolicy', () => {
+    it('allows everything without a policy', () => {
+        expect(checkToolLoopPolicy(undefined, stateWith(['web_search', { query: 'a' }]), [{ name: 'web_search', arguments: { query: 'a' } }])).toBeUndefined();
+    });
+
+    it('detects repeated calls with the same arguments', () => {
+        const state = stateWith(['web_search', { query: 'a' }]);
+
+        expect(checkToolLoopPolicy({ detectCycles: true }, state, [{ name: 'web_search', arguments: { query: 'b' } }])).toBeUndefined();
+        expect(checkToolLoopPolicy({ detectCycles: true }, state, [{ name: 'web_search', arguments: { query: 'a' } }])).toEqual({
+            reason: 'cycle',
+            message: 'Tool web_search was called again with the same arguments',
+            toolName: 'web_search'
+        });
+    });
+
+    it('caps calls per tool name, counting the pending calls', () => {
+        const state = stateWith(['web_search', { query: 'a' }], ['fetch_page', { url: 'x' }]);
+        const pending = [{ name: 'web_search', arguments: { query: 'b' } }];
+
+        expect(checkToolLoopPolicy({ maxCallsPerTool: 2 }, state, pending)).toBeUndefined();
+        expect(checkToolLoopPolicy({ maxCallsPerTool: { web_search: 1 } }, state, pending)).toMatchObject({ reason: 'maxCallsPerTool', toolName: 'web_search' });
+        expect(checkToolLoopPolicy({ maxCallsPerTool: { fetch_page: 1 } }, state, pending)).toBeUndefined();
+    });
+
+    it('limits duration and cost', () => {
+        const state = { ...stateWith(), startedAt: Date.now() - 5000, costUsd: 0.02 };
+
+        expect(checkToolLoopPolicy({ maxDurationMs: 1000 }, state, [])?.reason).toBe('maxDuration');
+        expect(checkToolLoopPolicy({ maxCostUsd: 0.01 }, state)?.reason).toBe('maxCost');
+        expect(checkToolLoopPolicy({ maxDurationMs: 60_000, maxCostUsd: 0.05 }, state)).toBeUndefined();
+    });
+
+    it('evaluates stopWhen after a turn', () => {
+        const stopWhen = jest.fn((executions: ToolLoopState['executions']) => executions.length >= 1);
+        const state = stateWith(['web_search', { query: 'a' }]);
+
+        expect(checkToolLoopPolicy({ stopWhen }, state, [])).toBeUndefined();
+        expect(checkToolLoopPolicy({ stopWhen }, state)).toEqual({ reason: 'stopWhen', message: 'The stopWhen condition was met' });
+        expect(stopWhen).toHaveBeenCalledWith(state.executions);
+    });
+});
+
+describe('ToolOrchestrator loop policies', () => {
+    it('answers calls that did not run and asks for a final answer', async () => {
+        const { orchestrator, historyManager } = createOrchestrator();
+        const policy: ToolLoopPolicy = { detectCycles: true };
+
+        await orchestrator.processToolCalls(searchTurn('call_1', 'rate limits'), [searchTool], undefined, undefined, undefined, undefined, policy);
+        const result = await orchestrator.processToolCalls(searchTurn('call_2', 'rate limits'), [searchTool], undefined, undefined, undefined, undefined, policy);
+
+        expect(result).toEqual({ requiresResubmission: true, newToolCalls: 0, loopStop: expect.objectContaining({ reason: 'cycle' }) });
+        expect(historyManager.getMessages().filter(message => message.role === 'tool').map(message => message.content)).toEqual([
+            'Results for rate limits',
+            'Tool call not run: Tool web_search was called again with the same arguments. Answer with the information you have.'
+        ]);
+    });
+
+    it('stops after a turn when stopWhen is met and returns without resubmission', async () => {
+        const { orchestrator } = createOrchestrator();
+
+        const result = await orchestrator.processToolCalls(searchTurn('call_1', 'rate limits'), [searchTool], undefined, undefined, undefined, undefined, {
+            stopWhen: executions => executions.some(execution => execution.result?.includes('rate limits')),
+            onStop: 'return'
+        });
+
+        expect(result).toEqual({ requiresResubmission: false, newToolCalls: 1, loopStop: expect.objectContaining({ reason: 'stopWhen' }) });
+    });
+
+    it('throws with the executions so far', async () => {
+        const { orchestrator } = createOrchestrator();
+        const policy: ToolLoopPolicy = { maxCallsPerTool: 1, onStop: 'throw' };
+
+        await orchestrator.processToolCalls(searchTurn('call_1', 'a'), [searchTool], undefined, undefined, undefined, undefined, policy);
+        const error = await orchestrator
+            .processToolCalls(searchTurn('call_2', 'b'), [searchTool], undefined, undefined, undefined, undefined, policy)
+            .catch(caught => caught);
+
+        expect(error).toBeInstanceOf(ToolLoopStoppedError);
+        expect(error.stop).toMatchObject({ reason: 'maxCallsPerTool', toolName: 'web_search' });
+        expect(error.toolExecutions).toEqual([{ id: 'call_1', toolName: 'web_search', arguments: { query: 'a' }, result: 'Results for a' }]);
+    });
+
+    it('adds up the cost of the loop turns and starts over after a reset', async () => {
+        const { orchestrator } = createOrchestrator();
+        const policy: ToolLoopPolicy = { maxCostUsd: 0.01 };
+        const costly = (id: string, query: string): UniversalChatResponse => ({
+            ...searchTurn(id, query),
+            metadata: { usage: { costs: { total: 0.006 } } as any }
+        });
+
+        expect((await orchestrator.processToolCalls(costly('call_1', 'a'), [searchTool], undefined, undefined, undefined, undefined, policy)).loopStop).toBeUndefined();
+        expect((await orchestrator.processToolCalls(costly('call_2', 'b'), [searchTool], undefined, undefined, undefined, undefined, policy)).loopStop?.reason).toBe('maxCost');
+
+        orchestrator.resetCalledTools();
+        expect((await orchestrator.processToolCalls(costly('call_3', 'c'), [searchTool], undefined, undefined, undefined, undefined, policy)).loopStop).toBeUndefined();
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { reduceToolResult, resolveToolResultPolicy, type ToolResultSummarizer } from '../../../../core/tools/ToolResultPolicy.ts';
+import { ToolController } from '../../../../core/tools/ToolController.ts';
+import { ToolsManager } from '../../../../core/tools/ToolsManager.ts';
+import { TokenCalculator } from '../../../../core/models/TokenCalculator.ts';
+import type { ToolDefinition } from '../../../../types/tooling.ts';
+
+jest.mock('@dqbd/tiktoken');
+
+const tokenCalculator = new TokenCalculator();
+
+const createTool = (overrides: Partial<ToolDefinition> = {}): ToolDefinition => ({
+    name: 'fetch_page',
+    description: 'Fetches a web page',
+    parameters: { type: 'object', properties: {} },
+    callFunction: async () => 'word '.repeat(200),
+    ...overrides
+});
+
+const LONG_TEXT = 'word '.repeat(200).trim();
+
+describe('ToolResultPolicy', () => {
+    it('merges the tool policy over the caller policy', () => {
+        expect(resolveToolResultPolicy(createTool(), undefined)).toBeUndefined();
+        expect(resolveToolResultPolicy(createTool(), { strategy: 'split' })).toBeUndefined();
+        expect(resolveToolResultPolicy(createTool({ resultPolicy: { strategy: 'split' } }), { maxResultTokens: 100, strategy: 'summarize' }))
+            .toEqual({ maxResultTokens: 100, strategy: 'split' });
+        expect(resolveToolResultPolicy(createTool({ resultPolicy: { maxResultTokens: 0 } }), { maxResultTokens: 100 })).toBeUndefined();
+    });
+
+    it('leaves results within the limit alone', async () => {
+        await expect(reduceToolResult(createTool(), 'Sunny', { policy: { maxResultTokens: 10 }, tokenCalculator })).resolves.toBeUndefined();
+    });
+
+    it('truncates oversized results with a notice', async () => {
+        const reduced = await reduceToolResult(createTool(), LONG_TEXT, { policy: { maxResultTokens: 50 }, tokenCalculator });
+
+        expect(reduced?.content).toMatch(/^word word .*\n\n\[Tool result truncated from 200 to about 50 tokens\.\]$/s);
+        expect(reduced?.reduction).toEqual({ strategy: 'truncate', originalTokens: 200, tokens: expect.any(Number) });
+        expect(reduced!.reduction.tokens).toBeLessThanOrEqual(50);
+    });
+
+    it('splits JSON results along their structure and sends every part', async () => {
+        const rows = Array.from({ length: 40 }, (_, id) => ({ id, title: 'alpha beta gamma' }));
+
+        const reduced = await reduceToolResult(createTool(), JSON.stringify(rows), {
+            policy: { maxResultTokens: 80, strategy: 'split' },
+            tokenCalculator
+        });
+
+        const parts = reduced!.content.split('\n\n').map(part => part.match(/^\[Part (\d+) of (\d+)\]\n(.*)$/s));
+        expect(reduced?.reduction.strategy).toBe('split');
+        expect(reduced!.reduction.parts).toBeGreaterThan(1);
+        expect(parts).toHaveLength(reduced!.reduction.parts!);
+        parts.forEach((part, index) => {
+            expect(part?.slice(1, 3)).toEqual([String(index + 1), String(parts.length)]);
+            expect(tokenCalculator.calculateTokens(part![3])).toBeLessThanOrEqual(80);
+        });
+        expect(parts.flatMap(part => JSON.parse(part![3]))).toEqual(rows);
+    });
+
+    it('summarizes results with the summary model', async () => {
+        const summarize = jest.fn<ToolResultSummarizer>(async () => 'The page repeats one word.');
+
+        const reduced = await reduceToolResult(createTool(), LONG_TEXT, {
+            policy: { maxResultTokens: 50, strategy: 'summarize' },
+            tokenCalculator,
+            summarize
+        });
+
+        expect(summarize).toHaveBeenCalledWith(
+            { toolName: 'fetch_page', content: LONG_TEXT, maxTokens: expect.any(Number), model: 'cheap' },
+            undefined
+        );
+        expect(summarize.mock.calls[0][0].maxTokens).toBeLessThan(50);
+        expect(reduced?.content).toBe('[Summary of a 200-token tool result]\nThe page repeats one word.');
+        expect(reduced?.reduction.strategy).toBe('summarize');
+    });
+
+    it('truncates when summarizing fails or no summarizer is available', async () => {
+        const summarize = jest.fn<ToolResultSummarizer>(async () => {
+            throw new Error('Model overloaded');
+        });
+        const policy = { maxResultTokens: 50, strategy: 'summarize' as const, summaryModel: 'gpt-5-nano' };
+
+        const failed = await reduceToolResult(createTool(), LONG_TEXT, { policy, tokenCalculator, summarize });
+        const unavailable = await reduceToolResult(createTool(), LONG_TEXT, { policy, tokenCalculator });
+
+        expect(summarize.mock.calls[0][0].model).toBe('gpt-5-nano');
+        expect(failed?.reduction.strategy).toBe('truncate');
+        expect(unavailable?.reduction.strategy).toBe('truncate');
+    });
+
+    it('sends the reduced result to the model and keeps the original in metadata', async () => {
+        const tool = createTool({ resultPolicy: { maxResultTokens: 50 } });
+        const controller = new ToolController(new ToolsManager());
+
+        const result = await controller.processToolCalls({
+            role: 'assistant',
+            content: '',
+            toolCalls: [{ id: 'call_1', name: 'fetch_page', arguments: {} }]
+        }, [tool]);
+
+        expect(result.messages[0].content).toContain('[Tool result truncated from 200 to about 50 tokens.]');
+        expect(result.messages[0].metadata).toEqual({
+            tool_call_id: 'call_1',
+            originalToolResult: 'word '.repeat(200),
+            toolResultReduction: { strategy: 'truncate', originalTokens: 200, tokens: expect.any(Number) }
+        });
+        expect(result.toolCalls[0]).toMatchObject({
+            result: result.messages[0].content,
+            originalResult: 'word '.repeat(200),
+            resultReduction: { strategy: 'truncate' }
+        });
+    });
+});
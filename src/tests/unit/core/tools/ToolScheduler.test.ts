@@ -0,0 +1,75 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildToolCallDependencies, runToolCalls } from '../../../../core/tools/ToolScheduler.ts';
+import type { ToolDefinition } from '../../../../types/tooling.ts';
+
+const tool = (name: string, hints: Pick<ToolDefinition, 'concurrency' | 'mutexGroup'> = {}): ToolDefinition => ({
+    name,
+    description: name,
+    parameters: { type: 'object', properties: {} },
+    ...hints
+});
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('ToolScheduler', () => {
+    it('builds dependencies from concurrency hints and mutex groups', () => {
+        const dependencies = buildToolCallDependencies([
+            tool('search'),
+            tool('write_file', { concurrency: 'serial' }),
+            tool('search'),
+            tool('write_file', { concurrency: 'serial' }),
+            tool('charge_card', { mutexGroup: 'billing' }),
+            tool('refund', { mutexGroup: 'billing' }),
+            undefined,
+            tool('deploy', { concurrency: 'exclusive' }),
+            tool('search')
+        ]);
+
+        expect(dependencies).toEqual([[], [], [], [1], [], [4], [], [0, 1, 2, 3, 4, 5], [7]]);
+    });
+
+    it('runs independent tasks together and keeps the task order in the results', async () => {
+        const started: number[] = [];
+        const tasks = [30, 10, 20].map((ms, index) => async () => {
+            started.push(index);
+            await delay(ms);
+            return index;
+        });
+
+        const results = await runToolCalls(tasks);
+
+        expect(results).toEqual([0, 1, 2]);
+        expect(started).toEqual([0, 1, 2]);
+    });
+
+    it('starts a task only after the tasks it depends on have settled', async () => {
+        const events: string[] = [];
+        const task = (name: string, ms: number, fail = false) => async () => {
+            events.push(`start ${name}`);
+            await delay(ms);
+            events.push(`end ${name}`);
+            if (fail) throw new Error(`${name} failed`);
+            return name;
+        };
+
+        await expect(runToolCalls([task('a', 20, true), task('b', 5), task('c', 5)], [[], [], [0, 1]]))
+            .rejects.toThrow('a failed');
+        expect(events.indexOf('start c')).toBeGreaterThan(events.indexOf('end a'));
+        expect(events.indexOf('start b')).toBeLessThan(events.indexOf('end a'));
+    });
+
+    it('limits the number of running tasks', async () => {
+        let running = 0;
+        let maxRunning = 0;
+        const tasks = Array.from({ length: 5 }, (_, index) => async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await delay(5);
+            running--;
+            return index;
+        });
+
+        await expect(runToolCalls(tasks, [], 2)).resolves.toEqual([0, 1, 2, 3, 4]);
+        expect(maxRunning).toBe(2);
+    });
+});
@@ -5,7 +5,7 @@
  This file provides all tool-related type definitions such as:
   - ToolDefinition, ToolCall
   - ParsedToolCall, ToolCallParserOptions, ToolCallParserResult
-  - Custom error classes: ToolError, ToolIterationLimitError, ToolNotFoundError, ToolExecutionError
+  - Custom error classes: ToolError, ToolIterationLimitError, ToolLoopStoppedError, ToolNotFoundError, ToolExecutionError
 
  All types are defined using 'type' where applicable to ensure strict type safety.
 */
@@ -35,6 +35,14 @@ export type ToolParameters = {
  */
 export type ToolOrigin = 'local' | 'mcp';
 
+/**
+ * Scheduling of a tool's calls within one assistant turn:
+ * - 'parallel': Run alongside the other calls
+ * - 'serial': Run after earlier calls of the same tool have finished
+ * - 'exclusive': Run alone, after all earlier calls and before any later call
+ */
+export type ToolConcurrency = 'parallel' | 'serial' | 'exclusive';
+
 // Updated ToolDefinition using ToolParameters
 export type ToolDefinition = {
     name: string;
@@ -52,6 +60,34 @@ export type ToolDefinition = {
      * - 'mcp': Created from an MCP server
      */
     origin?: ToolOrigin;
+    /**
+     * Marks this tool as the end of a reusable prompt prefix, so providers with prompt
+     * caching cache the tool definitions up to and including this one.
+     */
+    cacheControl?: boolean | import('../interfaces/UniversalInterfaces.ts').CacheControl;
+    /**
+     * Whether a model-requested call of this tool waits for the `onToolApproval` callback
+     * before it runs. A function decides per call from the call's arguments.
+     * Calls that need approval are denied when no callback is configured.
+     */
+    requiresApproval?: boolean | ((args: Record<string, unknown>) => boolean | Promise<boolean>);
+    /**
+     * Size limit for this tool's results. Its fields override the caller's `toolResultPolicy`.
+     */
+    resultPolicy?: ToolResultPolicy;
+    /**
+     * How calls of this tool run alongside the other calls of one assistant turn (default: 'parallel').
+     */
+    concurrency?: ToolConcurrency;
+    /**
+     * Calls of tools in the same mutex group run one at a time, in the order the model requested them.
+     */
+    mutexGroup?: string;
+    /**
+     * Time limit for one call of this tool in milliseconds. A call that runs out of time is
+     * reported to the model as a failed tool call.
+     */
+    timeoutMs?: number;
     /**
      * Additional metadata for the tool.
      * Can be used to store information needed for special handling or mapping.
@@ -69,6 +105,95 @@ export type ToolCall = {
     executionReady?: boolean; // Flag indicating this tool call is ready for execution
 };
 
+/**
+ * A model-requested tool call waiting for approval
+ */
+export type ToolApprovalRequest = {
+    id: string;
+    name: string;
+    arguments: Record<string, unknown>;
+};
+
+/**
+ * Outcome of a tool approval:
+ * - 'approve': Run the call as requested
+ * - 'deny': Skip the call; the model is told it was denied, with the optional reason
+ * - 'edit': Run the call with the given arguments instead; the model is told they were edited
+ */
+export type ToolApprovalDecision =
+    | { action: 'approve' }
+    | { action: 'deny'; reason?: string }
+    | { action: 'edit'; arguments: Record<string, unknown> };
+
+export type ToolApprovalHandler = (
+    call: ToolApprovalRequest,
+    control?: import('../interfaces/ExecutionInterfaces.ts').LLMExecutionControl
+) => ToolApprovalDecision | Promise<ToolApprovalDecision>;
+
+/**
+ * Keeps tool results within `maxResultTokens` tokens before they are sent to the model.
+ * Larger results are handled with `strategy`:
+ * - 'truncate': Cut the result and append a notice (default)
+ * - 'split': Split the result with DataSplitter along its structure into parts of up to `maxResultTokens`
+ *   tokens and send all parts, numbered
+ * - 'summarize': Send a summary written by `summaryModel`, a model name or preset (default: 'cheap')
+ * The tool message keeps the full result in `metadata.originalToolResult`.
+ */
+export type ToolResultPolicy = {
+    maxResultTokens?: number;
+    strategy?: 'truncate' | 'split' | 'summarize';
+    summaryModel?: string;
+};
+
+/** A tool call of the current tool loop and its outcome. */
+export type ToolExecution = {
+    id: string;
+    toolName: string;
+    arguments: Record<string, unknown>;
+    result?: string;
+    error?: string;
+};
+
+/**
+ * Limits for a tool loop beyond `maxIterations`. The loop stops when:
+ * - `detectCycles`: the model repeats a call with the same arguments
+ * - `maxCallsPerTool`: a tool would run more often than allowed, for all tools or per tool name
+ * - `maxDurationMs`: the loop has run this long
+ * - `maxCostUsd`: the model turns of the loop have cost this much
+ * - `stopWhen`: the predicate returns true after a turn's calls have run
+ * `onStop` decides what happens then:
+ * - 'answer': Ask the model for a final answer without tools (default)
+ * - 'throw': Throw a ToolLoopStoppedError
+ * - 'return': Return the last response with the transcript of the loop in `metadata.toolLoopStop`
+ */
+export type ToolLoopPolicy = {
+    detectCycles?: boolean;
+    maxCallsPerTool?: number | Record<string, number>;
+    maxDurationMs?: number;
+    maxCostUsd?: number;
+    stopWhen?: (toolExecutions: ToolExecution[]) => boolean;
+    onStop?: 'answer' | 'throw' | 'return';
+};
+
+/** Why a tool loop policy stopped the loop. */
+export type ToolLoopStop = {
+    reason: 'cycle' | 'maxCallsPerTool' | 'maxDuration' | 'maxCost' | 'stopWhen';
+    message: string;
+    toolName?: string;
+};
+
+/**
+ * Progress a running tool call reports, such as MCP `notifications/progress`.
+ * `total` is set when the tool knows how much work there is.
+ */
+export type ToolProgress = {
+    progress: number;
+    total?: number;
+    message?: string;
+};
+
+/** Receives the progress reports of running tool calls. */
+export type ToolProgressHandler = (call: { id: string; name: string }, progress: ToolProgress) => void;
 
 export type ToolsManager = {
     getTool(name: string): ToolDefinition | undefined;
@@ -110,6 +235,16 @@ export class ToolIterationLimitError extends ToolError {
     }
 }
 
+export class ToolLoopStoppedError extends ToolError {
+    constructor(
+        public readonly stop: ToolLoopStop,
+        public readonly toolExecutions: ToolExecution[]
+    ) {
+        super(`Tool loop stopped: ${stop.message}`);
+        this.name = "ToolLoopStoppedError";
+    }
+}
+
 export class ToolNotFoundError extends ToolError {
     constructor(toolName: string) {
         super(`Tool \"${toolName}\" not found`);
@@ -123,3 +258,13 @@ export class ToolExecutionError extends ToolError {
         this.name = "ToolExecutionError";
     }
 }
+
+export class ToolArgumentValidationError extends ToolError {
+    constructor(
+        public readonly toolName: string,
+        public readonly validationErrors: Array<{ path: string; message: string }>
+    ) {
+        super(`Invalid arguments for tool \"${toolName}\": ${validationErrors.map(issue => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join('; ')}`);
+        this.name = "ToolArgumentValidationError";
+    }
+}
@@ -27,6 +27,7 @@ const LOG_LEVELS: Record<LogLevel, number> = {
  */
 export class Logger {
     private static rootInstance: Logger;
+    private static stderrOnly = false;
     private level: LogLevel;
     private prefix: string;
 
@@ -48,6 +49,14 @@ export class Logger {
         return Logger.rootInstance;
     }
 
+    /**
+     * Write debug and info messages to stderr instead of stdout, for all logger instances
+     * @param enabled Whether stdout is left alone, e.g. while it carries a protocol
+     */
+    public static setStderrOnly(enabled: boolean): void {
+        Logger.stderrOnly = enabled;
+    }
+
     /**
      * Static log method for backward compatibility with older code
      * @param message Message to log
@@ -87,13 +96,13 @@ export class Logger {
 
     public debug(message: string, ...args: unknown[]): void {
         if (this.shouldLog('debug')) {
-            console.log(this.formatMessage(message), ...args);
+            (Logger.stderrOnly ? console.error : console.log)(this.formatMessage(message), ...args);
         }
     }
 
     public info(message: string, ...args: unknown[]): void {
         if (this.shouldLog('info')) {
-            console.log(this.formatMessage(message), ...args);
+            (Logger.stderrOnly ? console.error : console.log)(this.formatMessage(message), ...args);
         }
     }
 